@@ -10,13 +10,17 @@ import UnauthorizedPage from "./pages/UnauthorizedPage";
 import Navbar from "./components/Navbar";
 import Footer from "./components/Footer";
 import Sidebar from "./components/Sidebar";
-import { UserRole } from "./types/auth";
 
 const Home = lazy(() => import('./pages/RoleDashboard'));
 const ToursList = lazy(() => import('./pages/tours'));
 const TourForm = lazy(() => import('./pages/tours/TourForm'));
+const TourHistory = lazy(() => import('./pages/tours/TourHistory'));
 const ManageBookings = lazy(() => import('./pages/bookings'));
 const ArchivedBookings = lazy(() => import('./pages/bookings/ArchivedBookings'));
+const OverdueInstallments = lazy(() => import('./pages/bookings/OverdueInstallments'));
+const CancellationRequests = lazy(() => import('./pages/bookings/CancellationRequests'));
+const DepartureManifest = lazy(() => import('./pages/bookings/DepartureManifest'));
+const BuilderSessions = lazy(() => import('./pages/bookings/BuilderSessions'));
 const UserManagement = lazy(() => import('./pages/UserManagement'));
 const CustomerService = lazy(() => import('./pages/customer-service'));
 const Reports = lazy(() => import('./pages/Reports'));
@@ -24,12 +28,15 @@ const Settings = lazy(() => import('./pages/Settings'));
 const SalesDepartment = lazy(() => import('./pages/SalesDepartment'));
 const HomepageManagement = lazy(() => import('./pages/HomepageManagement'));
 const CountryManagement = lazy(() => import('./pages/CountryManagement'));
+const VisaRulesManagement = lazy(() => import('./pages/VisaRulesManagement'));
 const PromoBannerManagement = lazy(() => import('./pages/PromoBannerManagement'));
 const VisaAssistanceManagement = lazy(() => import('./pages/VisaAssistanceManagement'));
 const ReviewManagement = lazy(() => import('./pages/ReviewManagement'));
 const ServerDiagnosticsPage = lazy(() => import('./pages/ServerDiagnostics').then((module) => ({ default: module.ServerDiagnosticsPage })));
 const SecurityStatus = lazy(() => import('./pages/SecurityStatus'));
 const MonitoringCenter = lazy(() => import('./pages/MonitoringCenter'));
+const ScheduledJobs = lazy(() => import('./pages/ScheduledJobs'));
+const EmailTemplates = lazy(() => import('./pages/EmailTemplates'));
 
 // Loading component
 const LoadingScreen: React.FC = () => (
@@ -84,10 +91,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/tours"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessTours"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.BOOKING_DEPARTMENT]}
-                >
+                <ProtectedRoute requiredPermission="canAccessTours">
                   <ToursList />
                 </ProtectedRoute>
               }
@@ -95,10 +99,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/tours/create"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessTours"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.BOOKING_DEPARTMENT]}
-                >
+                <ProtectedRoute requiredPermission="canAccessTours">
                   <TourForm />
                 </ProtectedRoute>
               }
@@ -106,10 +107,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/tours/:id"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessTours"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.BOOKING_DEPARTMENT]}
-                >
+                <ProtectedRoute requiredPermission="canAccessTours">
                   <TourForm />
                 </ProtectedRoute>
               }
@@ -117,23 +115,25 @@ const AppRouter: React.FC = () => {
             <Route
               path="/tours/:id/edit"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessTours"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.BOOKING_DEPARTMENT]}
-                >
+                <ProtectedRoute requiredPermission="canAccessTours">
                   <TourForm />
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/tours/:id/history"
+              element={
+                <ProtectedRoute requiredPermission="canAccessTours">
+                  <TourHistory />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Bookings Management - Booking Department, CSR & Administrator */}
             <Route
               path="/bookings"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessBookings"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.BOOKING_DEPARTMENT, UserRole.CSR_DEPARTMENT]}
-                >
+                <ProtectedRoute requiredPermission="canAccessBookings">
                   <ManageBookings />
                 </ProtectedRoute>
               }
@@ -141,36 +141,69 @@ const AppRouter: React.FC = () => {
             <Route
               path="/bookings/archive"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessBookings"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.BOOKING_DEPARTMENT, UserRole.CSR_DEPARTMENT]}
-                >
+                <ProtectedRoute requiredPermission="canAccessBookings">
                   <ArchivedBookings />
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/bookings/overdue"
+              element={
+                <ProtectedRoute requiredPermission="canAccessBookings">
+                  <OverdueInstallments />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/bookings/cancellations"
+              element={
+                <ProtectedRoute requiredPermission="canAccessBookings">
+                  <CancellationRequests />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/bookings/manifest"
+              element={
+                <ProtectedRoute requiredPermission="canAccessBookings">
+                  <DepartureManifest />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/bookings/itineraries"
+              element={
+                <ProtectedRoute requiredPermission="canAccessBookings">
+                  <BuilderSessions />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Visa Assistance - Visa Department & Administrator */}
             <Route
               path="/visa-assistance"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessVisaAssistance"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.VISA_DEPARTMENT]}
-                >
+                <ProtectedRoute requiredPermission="canAccessVisaAssistance">
                   <VisaAssistanceManagement />
                 </ProtectedRoute>
               }
             />
 
+            {/* Visa Rules - Visa Department & Administrator */}
+            <Route
+              path="/visa-rules"
+              element={
+                <ProtectedRoute requiredPermission="canAccessVisaAssistance">
+                  <VisaRulesManagement />
+                </ProtectedRoute>
+              }
+            />
+
             {/* Reviews Management - Customer Service & Administrator */}
             <Route
               path="/reviews"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessCustomerService"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.CSR_DEPARTMENT]}
-                >
+                <ProtectedRoute requiredPermission="canAccessCustomerService">
                   <ReviewManagement />
                 </ProtectedRoute>
               }
@@ -180,10 +213,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/customer-service"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessCustomerService"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.CSR_DEPARTMENT, UserRole.VISA_DEPARTMENT]}
-                >
+                <ProtectedRoute requiredPermission="canAccessCustomerService">
                   <CustomerService />
                 </ProtectedRoute>
               }
@@ -193,10 +223,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/sales"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessSales"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.BOOKING_DEPARTMENT]}
-                >
+                <ProtectedRoute requiredPermission="canAccessSales">
                   <SalesDepartment />
                 </ProtectedRoute>
               }
@@ -216,10 +243,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/users"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessUserManagement"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.WEB_DEVELOPER]}
-                >
+                <ProtectedRoute requiredPermission="canAccessUserManagement">
                   <UserManagement />
                 </ProtectedRoute>
               }
@@ -229,10 +253,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/settings"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessSettings"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.WEB_DEVELOPER]}
-                >
+                <ProtectedRoute requiredPermission="canAccessSettings">
                   <Settings />
                 </ProtectedRoute>
               }
@@ -242,10 +263,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/diagnostics"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessSettings"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.WEB_DEVELOPER]}
-                >
+                <ProtectedRoute requiredPermission="canAccessSettings">
                   <ServerDiagnosticsPage />
                 </ProtectedRoute>
               }
@@ -255,10 +273,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/security"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessSettings"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.WEB_DEVELOPER]}
-                >
+                <ProtectedRoute requiredPermission="canAccessSettings">
                   <SecurityStatus />
                 </ProtectedRoute>
               }
@@ -268,23 +283,37 @@ const AppRouter: React.FC = () => {
             <Route
               path="/monitoring"
               element={
-                <ProtectedRoute
-                  requiredPermission="canAccessSettings"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.WEB_DEVELOPER]}
-                >
+                <ProtectedRoute requiredPermission="canAccessSettings">
                   <MonitoringCenter />
                 </ProtectedRoute>
               }
             />
 
+            {/* Scheduled Jobs - Administrator & Web Developer */}
+            <Route
+              path="/jobs"
+              element={
+                <ProtectedRoute requiredPermission="canAccessSettings">
+                  <ScheduledJobs />
+                </ProtectedRoute>
+              }
+            />
+
+            {/* Email Templates - Administrator & Web Developer */}
+            <Route
+              path="/email-templates"
+              element={
+                <ProtectedRoute requiredPermission="canAccessSettings">
+                  <EmailTemplates />
+                </ProtectedRoute>
+              }
+            />
+
             {/* Homepage Management - Administrator & Web Developer */}
             <Route
               path="/homepage"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessSettings"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.WEB_DEVELOPER]}
-                >
+                <ProtectedRoute requiredPermission="canManageContent">
                   <HomepageManagement />
                 </ProtectedRoute>
               }
@@ -294,10 +323,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/countries"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessSettings"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.WEB_DEVELOPER]}
-                >
+                <ProtectedRoute requiredPermission="canManageContent">
                   <CountryManagement />
                 </ProtectedRoute>
               }
@@ -307,10 +333,7 @@ const AppRouter: React.FC = () => {
             <Route
               path="/promo-banners"
               element={
-                <ProtectedRoute 
-                  requiredPermission="canAccessSettings"
-                  allowedRoles={[UserRole.SUPER_ADMIN, UserRole.ADMINISTRATOR, UserRole.WEB_DEVELOPER]}
-                >
+                <ProtectedRoute requiredPermission="canManageContent">
                   <PromoBannerManagement />
                 </ProtectedRoute>
               }
@@ -0,0 +1,267 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Lock, Mail, MessageSquare, Paperclip, Reply, X } from 'lucide-react';
+import {
+  fetchActivity,
+  fetchMentionableStaff,
+  postActivity,
+  type ActivityEmailStatus,
+  type ActivityEntry,
+  type ActivitySubjectType,
+  type ActivityThread,
+  type MentionableStaff,
+} from '../services/activityService';
+
+interface ActivityFeedProps {
+  subject: ActivitySubjectType;
+  // bookingId for bookings, _id for visa applications
+  id: string;
+  // Whether the signed-in user may email the customer from here
+  canMessage: boolean;
+}
+
+const MAX_FILES = 5;
+
+const KIND_STYLES: Record<ActivityEntry['kind'], { label: string; className: string }> = {
+  note: { label: 'Internal note', className: 'bg-yellow-50 border-yellow-200' },
+  message: { label: 'Message to customer', className: 'bg-blue-50 border-blue-200' },
+  reply: { label: 'Customer reply', className: 'bg-green-50 border-green-200' },
+};
+
+const EMAIL_STATUS: Record<ActivityEmailStatus, { label: string; className: string }> = {
+  queued: { label: 'Retrying', className: 'bg-yellow-100 text-yellow-800' },
+  sending: { label: 'Sending', className: 'bg-blue-100 text-blue-800' },
+  sent: { label: 'Delivered', className: 'bg-green-100 text-green-800' },
+  dead: { label: 'Not delivered', className: 'bg-red-100 text-red-800' },
+};
+
+function formatWhen(date: string) {
+  return new Date(date).toLocaleString('en-PH', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function Entry({ entry, onReply }: { entry: ActivityEntry; onReply?: () => void }) {
+  const style = KIND_STYLES[entry.kind];
+  return (
+    <div className={`rounded-lg border p-3 ${style.className}`}>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-1">
+        <span className="font-semibold text-gray-900">{entry.authorName}</span>
+        <span>{style.label}</span>
+        <span>· {formatWhen(entry.createdAt)}</span>
+        {entry.kind === 'message' && entry.emailStatus && (
+          <span className={`px-2 py-0.5 rounded-full font-medium ${EMAIL_STATUS[entry.emailStatus].className}`}>
+            {EMAIL_STATUS[entry.emailStatus].label}
+          </span>
+        )}
+        {onReply && (
+          <button type="button" onClick={onReply} className="ml-auto inline-flex items-center gap-1 text-blue-700 hover:text-blue-900">
+            <Reply className="w-3 h-3" /> Reply
+          </button>
+        )}
+      </div>
+      {entry.body && <p className="text-sm text-gray-800 whitespace-pre-wrap">{entry.body}</p>}
+      {entry.kind === 'message' && entry.recipient && (
+        <p className="text-xs text-gray-500 mt-1">Sent to {entry.recipient}</p>
+      )}
+      {entry.mentions.length > 0 && (
+        <p className="text-xs text-gray-500 mt-1">Mentioned: {entry.mentions.map((m) => m.name).join(', ')}</p>
+      )}
+      {entry.attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {entry.attachments.map((file) => (
+            <a
+              key={file.url}
+              href={file.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs px-2 py-1 bg-white border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              <Paperclip className="w-3 h-3" /> {file.name}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Threaded notes, customer messages and emailed replies for a booking or visa application
+const ActivityFeed: React.FC<ActivityFeedProps> = ({ subject, id, canMessage }) => {
+  const [threads, setThreads] = useState<ActivityThread[] | null>(null);
+  const [staff, setStaff] = useState<MentionableStaff[]>([]);
+  const [kind, setKind] = useState<'note' | 'message'>('note');
+  const [body, setBody] = useState('');
+  const [mentions, setMentions] = useState<MentionableStaff[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [replyTo, setReplyTo] = useState<ActivityThread | null>(null);
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setThreads(await fetchActivity(subject, id));
+    } catch (err) {
+      console.error('Error loading activity:', err);
+      setError('Failed to load activity.');
+      setThreads([]);
+    }
+  }, [subject, id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    fetchMentionableStaff()
+      .then(setStaff)
+      .catch((err) => console.error('Error loading staff for mentions:', err));
+  }, []);
+
+  const addMention = (userId: string) => {
+    const user = staff.find((s) => s.id === userId);
+    if (!user || mentions.some((m) => m.id === user.id)) return;
+    setMentions((prev) => [...prev, user]);
+    setBody((prev) => `${prev}${prev && !prev.endsWith(' ') ? ' ' : ''}@${user.fullName} `);
+  };
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    setFiles((prev) => [...prev, ...picked].slice(0, MAX_FILES));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim() && files.length === 0) return;
+    if (kind === 'message' && !confirm('Email this message to the customer?')) return;
+    setPosting(true);
+    setError(null);
+    try {
+      await postActivity(subject, id, {
+        kind,
+        body,
+        parentId: replyTo?._id,
+        // Mentions only notify on internal notes, and only if still named in the text
+        mentions: kind === 'note' ? mentions.filter((m) => body.includes(`@${m.fullName}`)).map((m) => m.id) : [],
+        files,
+      });
+      setBody('');
+      setMentions([]);
+      setFiles([]);
+      setReplyTo(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {threads === null ? (
+        <p className="text-sm text-gray-500">Loading activity...</p>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-gray-500">No notes or messages yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {threads.map((thread) => (
+            <div key={thread._id} className="space-y-2">
+              <Entry entry={thread} onReply={() => setReplyTo(thread)} />
+              {thread.replies.length > 0 && (
+                <div className="ml-6 space-y-2 border-l-2 border-gray-200 pl-3">
+                  {thread.replies.map((reply) => <Entry key={reply._id} entry={reply} />)}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-3 space-y-2 bg-white">
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setKind('note')}
+            className={`inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md ${kind === 'note' ? 'bg-yellow-100 text-yellow-900' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            <Lock className="w-3 h-3" /> Internal note
+          </button>
+          {canMessage && (
+            <button
+              type="button"
+              onClick={() => setKind('message')}
+              className={`inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md ${kind === 'message' ? 'bg-blue-100 text-blue-900' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              <Mail className="w-3 h-3" /> Message customer
+            </button>
+          )}
+          {replyTo && (
+            <span className="inline-flex items-center gap-1 text-xs text-gray-600">
+              Replying to {replyTo.authorName}
+              <button type="button" onClick={() => setReplyTo(null)} aria-label="Cancel reply" className="text-gray-500 hover:text-gray-800">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          )}
+        </div>
+
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={3}
+          placeholder={kind === 'note' ? 'Only staff can see this. Mention a colleague to notify them.' : 'This is emailed to the customer.'}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {files.map((file, index) => (
+              <span key={`${file.name}-${index}`} className="inline-flex items-center gap-1 text-xs px-2 py-1 bg-gray-100 rounded-md">
+                {file.name}
+                <button type="button" onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))} aria-label={`Remove ${file.name}`}>
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          {kind === 'note' && staff.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => addMention(e.target.value)}
+              className="text-sm border border-gray-300 rounded-md px-2 py-1"
+            >
+              <option value="">@ Mention…</option>
+              {staff.map((user) => (
+                <option key={user.id} value={user.id}>{user.fullName}</option>
+              ))}
+            </select>
+          )}
+          <label className={`inline-flex items-center gap-1 text-sm px-2 py-1 border border-gray-300 rounded-md ${files.length >= MAX_FILES ? 'text-gray-400' : 'text-gray-700 cursor-pointer hover:bg-gray-50'}`}>
+            <Paperclip className="w-3 h-3" /> Attach
+            <input
+              type="file"
+              multiple
+              className="hidden"
+              disabled={files.length >= MAX_FILES}
+              accept=".pdf,.jpg,.jpeg,.png,.webp,.gif,.txt,.doc,.docx,.xls,.xlsx"
+              onChange={handleFiles}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={posting || (!body.trim() && files.length === 0)}
+            className="ml-auto inline-flex items-center gap-1 px-4 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <MessageSquare className="w-4 h-4" />
+            {posting ? 'Posting…' : kind === 'message' ? 'Send' : 'Add note'}
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-700">{error}</p>}
+      </form>
+    </div>
+  );
+};
+
+export default ActivityFeed;
@@ -42,13 +42,22 @@ const CustomerProfile: React.FC<CustomerProfileProps> = ({ customerId, onBack })
   const [isEditing, setIsEditing] = useState(false);
 
   useEffect(() => {
-    const loadCustomerData = () => {
-      const customerData = customerServiceRepo.getCustomerById(customerId);
-      if (customerData) {
-        setCustomer(customerData);
-        setInquiries(customerServiceRepo.getAllInquiries().filter((i: CustomerInquiry) => i.customerId === customerId));
-        setTasks(customerServiceRepo.getAllTasks().filter((t: CSRTask) => t.customerId === customerId));
-        setTourHistory(customerServiceRepo.getCustomerTourHistory(customerId));
+    const loadCustomerData = async () => {
+      try {
+        const customerData = await customerServiceRepo.getCustomerById(customerId);
+        if (customerData) {
+          setCustomer(customerData);
+          const [customerInquiries, customerTasks, history] = await Promise.all([
+            customerServiceRepo.getAllInquiries(customerId),
+            customerServiceRepo.getAllTasks({ customerId }),
+            customerServiceRepo.getCustomerTourHistory(customerId),
+          ]);
+          setInquiries(customerInquiries);
+          setTasks(customerTasks);
+          setTourHistory(history);
+        }
+      } catch (error) {
+        console.error('Error loading customer profile:', error);
       }
     };
     
@@ -46,7 +46,7 @@ export default function Navbar(): JSX.Element {
                 {user?.fullName}
               </p>
               <p className="text-xs text-gray-500">
-                {user ? ROLE_DISPLAY_NAMES[user.role] : ''}
+                {user ? ROLE_DISPLAY_NAMES[user.role] ?? user.role : ''}
               </p>
             </div>
             <ChevronDown className="w-4 h-4 text-gray-400" />
@@ -2,11 +2,12 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { UserRole, ROLE_PERMISSIONS } from '../types/auth';
+import { UserRole, RolePermissions } from '../types/auth';
+import { authService } from '../services/authService';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredPermission?: keyof typeof ROLE_PERMISSIONS[UserRole.ADMINISTRATOR];
+  requiredPermission?: keyof RolePermissions;
   allowedRoles?: UserRole[];
 }
 
@@ -36,14 +37,8 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   }
 
   // Check permission-based access if requiredPermission is specified
-  if (requiredPermission) {
-    // ROLE_PERMISSIONS is expected to be a map of role -> { [permissionName]: boolean } or similar
-    // Cast via unknown first to satisfy TypeScript when converting between incompatible types.
-    const rolePermissions = (ROLE_PERMISSIONS[user.role as UserRole] as unknown) as Record<string, boolean> | undefined;
-    const hasPermission = !!(rolePermissions && rolePermissions[requiredPermission as string]);
-    if (!hasPermission) {
-      return <Navigate to="/unauthorized" replace />;
-    }
+  if (requiredPermission && !authService.hasPermission(requiredPermission, user)) {
+    return <Navigate to="/unauthorized" replace />;
   }
 
   return <>{children}</>;
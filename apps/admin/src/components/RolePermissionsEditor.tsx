@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, RotateCcw, Save, Shield, Trash2 } from 'lucide-react';
+import { PERMISSIONS, SUPER_ADMIN_ROLE, type Permission, type RoleDefinition } from '@discovergroup/types';
+import { deleteRole, saveRole } from '../services/apiClient';
+import { useToast } from './Toast';
+
+interface RolePermissionsEditorProps {
+  roles: RoleDefinition[];
+  onRolesChange: (roles: RoleDefinition[]) => void;
+}
+
+const PERMISSION_GROUPS = Array.from(new Set(PERMISSIONS.map((p) => p.group)));
+
+// "Tour Editors" -> "tour_editors"; the API only accepts lowercase keys
+function toRoleKey(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40);
+}
+
+const RolePermissionsEditor: React.FC<RolePermissionsEditorProps> = ({ roles, onRolesChange }) => {
+  const { success, error: errorToast } = useToast();
+  const [selectedKey, setSelectedKey] = useState<string>(roles[0]?.key ?? '');
+  const [draft, setDraft] = useState<Permission[]>([]);
+  const [newRoleName, setNewRoleName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const selected = roles.find((role) => role.key === selectedKey);
+  const locked = selected?.key === SUPER_ADMIN_ROLE;
+
+  useEffect(() => {
+    setDraft(selected ? [...selected.permissions] : []);
+  }, [selected]);
+
+  const changed = useMemo(() => {
+    if (!selected) return false;
+    return draft.length !== selected.permissions.length || draft.some((p) => !selected.permissions.includes(p));
+  }, [draft, selected]);
+
+  const togglePermission = (permission: Permission) => {
+    setDraft((prev) => (prev.includes(permission) ? prev.filter((p) => p !== permission) : [...prev, permission]));
+  };
+
+  const replaceRole = (updated: RoleDefinition) => {
+    const exists = roles.some((role) => role.key === updated.key);
+    onRolesChange(exists ? roles.map((role) => (role.key === updated.key ? updated : role)) : [...roles, updated]);
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    setSaving(true);
+    try {
+      replaceRole(await saveRole(selected.key, { permissions: draft }));
+      success(`Permissions for ${selected.name} saved`);
+    } catch (err) {
+      errorToast(err instanceof Error ? err.message : 'Failed to save role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const key = toRoleKey(newRoleName);
+    if (roles.some((role) => role.key === key)) {
+      errorToast(`A role called "${newRoleName.trim()}" already exists`);
+      return;
+    }
+    setSaving(true);
+    try {
+      const created = await saveRole(key, { name: newRoleName.trim(), permissions: [] });
+      replaceRole(created);
+      setSelectedKey(created.key);
+      setNewRoleName('');
+      success(`Role ${created.name} created; choose what it may do`);
+    } catch (err) {
+      errorToast(err instanceof Error ? err.message : 'Failed to create role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteOrReset = async () => {
+    if (!selected) return;
+    const question = selected.builtIn
+      ? `Reset ${selected.name} to its default permissions?`
+      : `Delete the ${selected.name} role?`;
+    if (!confirm(question)) return;
+
+    setSaving(true);
+    try {
+      const reset = await deleteRole(selected.key);
+      if (reset) {
+        replaceRole(reset);
+        success(`${selected.name} reset to its default permissions`);
+      } else {
+        onRolesChange(roles.filter((role) => role.key !== selected.key));
+        setSelectedKey(roles[0]?.key ?? '');
+        success(`Role ${selected.name} deleted`);
+      }
+    } catch (err) {
+      errorToast(err instanceof Error ? err.message : 'Failed to update role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border mb-6">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center space-x-2">
+        <Shield className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Roles &amp; Permissions</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4">
+        <div className="border-b md:border-b-0 md:border-r border-gray-200 p-4 space-y-1">
+          {roles.map((role) => (
+            <button
+              key={role.key}
+              onClick={() => setSelectedKey(role.key)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                role.key === selectedKey ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {role.name}
+              {!role.builtIn && <span className="ml-2 text-xs text-gray-400">custom</span>}
+            </button>
+          ))}
+
+          <form onSubmit={handleCreate} className="pt-3 mt-3 border-t border-gray-200 space-y-2">
+            <input
+              type="text"
+              value={newRoleName}
+              onChange={(e) => setNewRoleName(e.target.value)}
+              placeholder="New role name"
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={saving || toRoleKey(newRoleName).length < 3}
+              className="w-full px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 flex items-center justify-center space-x-1"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add role</span>
+            </button>
+          </form>
+        </div>
+
+        <div className="md:col-span-3 p-6">
+          {!selected ? (
+            <p className="text-sm text-gray-500">Select a role to see what it may do.</p>
+          ) : (
+            <>
+              {locked && (
+                <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 mb-4">
+                  The Super Admin role always has every permission.
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {PERMISSION_GROUPS.map((group) => (
+                  <fieldset key={group}>
+                    <legend className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{group}</legend>
+                    <div className="space-y-2">
+                      {PERMISSIONS.filter((p) => p.group === group).map((permission) => (
+                        <label key={permission.key} className="flex items-start space-x-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={draft.includes(permission.key)}
+                            disabled={locked || saving}
+                            onChange={() => togglePermission(permission.key)}
+                            className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          <span>{permission.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </fieldset>
+                ))}
+              </div>
+
+              {!locked && (
+                <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-200">
+                  <div className="text-xs text-gray-500">
+                    {selected.updatedBy && selected.updatedAt
+                      ? `Last changed by ${selected.updatedBy} on ${new Date(selected.updatedAt).toLocaleString()}`
+                      : selected.builtIn ? 'Default permissions' : ''}
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={handleDeleteOrReset}
+                      disabled={saving}
+                      className="px-4 py-2 text-sm text-red-600 hover:text-red-800 disabled:opacity-50 flex items-center space-x-1"
+                    >
+                      {selected.builtIn ? <RotateCcw className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                      <span>{selected.builtIn ? 'Reset to defaults' : 'Delete role'}</span>
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={saving || !changed}
+                      className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center space-x-2"
+                    >
+                      <Save className="w-4 h-4" />
+                      <span>{saving ? 'Saving...' : 'Save permissions'}</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RolePermissionsEditor;
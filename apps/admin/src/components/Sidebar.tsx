@@ -15,7 +15,10 @@ import {
   Globe,
   Tag,
   Shield,
-  Activity
+  Activity,
+  FileCheck,
+  Clock,
+  Mail
 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
 import { authService } from "../services/authService";
@@ -59,6 +62,12 @@ const navigationItems: NavItem[] = [
     icon: Plane,
     permission: "canAccessVisaAssistance",
   },
+  {
+    to: "/visa-rules",
+    label: "Visa Rules",
+    icon: FileCheck,
+    permission: "canAccessVisaAssistance",
+  },
   {
     to: "/customer-service",
     label: "Customer Service",
@@ -93,19 +102,19 @@ const navigationItems: NavItem[] = [
     to: "/homepage",
     label: "Homepage",
     icon: Globe,
-    permission: "canAccessSettings",
+    permission: "canManageContent",
   },
   {
     to: "/countries",
     label: "Countries",
     icon: MapPin,
-    permission: "canAccessSettings",
+    permission: "canManageContent",
   },
   {
     to: "/promo-banners",
     label: "Promo Banners",
     icon: Tag,
-    permission: "canAccessSettings",
+    permission: "canManageContent",
   },
   {
     to: "/security",
@@ -119,6 +128,18 @@ const navigationItems: NavItem[] = [
     icon: Activity,
     permission: "canAccessSettings",
   },
+  {
+    to: "/jobs",
+    label: "Scheduled Jobs",
+    icon: Clock,
+    permission: "canAccessSettings",
+  },
+  {
+    to: "/email-templates",
+    label: "Email Templates",
+    icon: Mail,
+    permission: "canAccessSettings",
+  },
   {
     to: "/settings",
     label: "Settings",
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import SecureForm from './SecureForm';
 import {
   X,
@@ -15,6 +15,7 @@ import {
 import { customerServiceRepo } from '../services/customerServiceRepo';
 import {
   CSRTask,
+  CSRAgent,
   Customer,
   TaskStatus,
   Priority,
@@ -35,6 +36,7 @@ interface TaskFormData {
   priority: Priority;
   customerId: string;
   customerName: string;
+  assignedTo: string;
   dueDate: string;
   notes: string;
 }
@@ -49,14 +51,35 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
     priority: Priority.MEDIUM,
     customerId: customerId || '',
     customerName: '',
+    assignedTo: '',
     dueDate: '',
     notes: ''
   });
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [agents, setAgents] = useState<CSRAgent[]>([]);
+  const [tasks, setTasks] = useState<CSRTask[]>([]);
+  const [error, setError] = useState<string | null>(null);
 
-  const customers = customerServiceRepo.getAllCustomers();
-  const tasks = customerId 
-    ? customerServiceRepo.getAllTasks().filter((t: CSRTask) => t.customerId === customerId)
-    : customerServiceRepo.getAllTasks();
+  const loadTasks = useCallback(async () => {
+    try {
+      setTasks(await customerServiceRepo.getAllTasks(customerId ? { customerId } : undefined));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading tasks:', err);
+      setError('Failed to load tasks.');
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    loadTasks();
+    customerServiceRepo.getAllCustomers().then(setCustomers).catch(err => console.error('Error loading customers:', err));
+    customerServiceRepo.getAgents().then(setAgents).catch(err => console.error('Error loading agents:', err));
+  }, [loadTasks]);
+
+  const afterChange = async () => {
+    await loadTasks();
+    onTaskUpdated?.();
+  };
 
   const handleInputChange = (field: keyof TaskFormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -68,27 +91,31 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     try {
+      const assignee = agents.find(a => a.id === formData.assignedTo);
       if (editingTask) {
-        customerServiceRepo.updateTask(editingTask.id, {
+        await customerServiceRepo.updateTask(editingTask.id, {
           title: formData.title,
           description: formData.description,
           category: formData.category,
           priority: formData.priority,
           dueDate: new Date(formData.dueDate).toISOString(),
-          notes: formData.notes
+          notes: formData.notes,
+          ...(assignee && { assignedTo: assignee.id })
         });
       } else {
-        customerServiceRepo.createTask({
+        // The API assigns the task to its creator when nobody is picked
+        await customerServiceRepo.createTask({
           title: formData.title,
           description: formData.description,
           category: formData.category,
           priority: formData.priority,
           status: TaskStatus.PENDING,
-          assignedCSR: 'Emily Rodriguez', // In real app, get from current user
+          assignedCSR: assignee?.fullName ?? '',
+          assignedTo: assignee?.id,
           customerId: formData.customerId,
           customerName: formData.customerName,
           dueDate: new Date(formData.dueDate).toISOString(),
@@ -99,9 +126,10 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
       resetForm();
       setShowCreateForm(false);
       setEditingTask(null);
-      onTaskUpdated?.();
+      await afterChange();
     } catch (error) {
       console.error('Error saving task:', error);
+      setError('Failed to save task.');
     }
   };
 
@@ -113,6 +141,7 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
       priority: Priority.MEDIUM,
       customerId: customerId || '',
       customerName: '',
+      assignedTo: '',
       dueDate: '',
       notes: ''
     });
@@ -127,18 +156,31 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
       priority: task.priority,
       customerId: task.customerId,
       customerName: task.customerName,
+      assignedTo: task.assignedTo || '',
       dueDate: task.dueDate.split('T')[0],
       notes: task.notes
     });
     setShowCreateForm(true);
   };
 
-  const handleStatusUpdate = (taskId: string, newStatus: TaskStatus) => {
+  const handleStatusUpdate = async (taskId: string, newStatus: TaskStatus) => {
     try {
-      customerServiceRepo.updateTask(taskId, { status: newStatus });
-      onTaskUpdated?.();
+      await customerServiceRepo.updateTask(taskId, { status: newStatus });
+      await afterChange();
     } catch (error) {
       console.error('Error updating task status:', error);
+      setError('Failed to update task status.');
+    }
+  };
+
+  const handleDelete = async (taskId: string) => {
+    if (!confirm('Are you sure you want to delete this task?')) return;
+    try {
+      await customerServiceRepo.deleteTask(taskId);
+      await afterChange();
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      setError('Failed to delete task.');
     }
   };
 
@@ -172,9 +214,7 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
     }
   };
 
-  const isOverdue = (dueDate: string) => {
-    return new Date(dueDate) < new Date() && tasks.find((t: CSRTask) => t.dueDate === dueDate)?.status !== TaskStatus.COMPLETED;
-  };
+  const isOverdue = (task: CSRTask) => task.isOverdue === true;
 
   return (
     <div className="p-6">
@@ -206,6 +246,10 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
         </button>
       </div>
 
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">{error}</div>
+      )}
+
       {/* Create/Edit Task Form */}
       {showCreateForm && (
         <div className="bg-white p-6 rounded-lg shadow-sm border mb-6">
@@ -298,6 +342,24 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Assigned To
+                </label>
+                <select
+                  value={formData.assignedTo}
+                  onChange={(e) => handleInputChange('assignedTo', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">{editingTask ? editingTask.assignedCSR : 'Me'}</option>
+                  {agents.map((agent: CSRAgent) => (
+                    <option key={agent.id} value={agent.id}>
+                      {agent.fullName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Due Date
@@ -368,14 +430,14 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
             <div
               key={task.id}
               className={`bg-white p-6 rounded-lg shadow-sm border ${
-                isOverdue(task.dueDate) ? 'border-red-300 bg-red-50' : ''
+                isOverdue(task) ? 'border-red-300 bg-red-50' : ''
               }`}
             >
               <div className="flex items-start justify-between mb-4">
                 <div className="flex-1">
                   <div className="flex items-center gap-3 mb-2">
                     <h3 className="text-lg font-medium text-gray-900">{task.title}</h3>
-                    {isOverdue(task.dueDate) && (
+                    {isOverdue(task) && (
                       <span className="px-2 py-1 bg-red-100 text-red-800 rounded-full text-xs font-medium">
                         OVERDUE
                       </span>
@@ -392,6 +454,7 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
                       Due: {new Date(task.dueDate).toLocaleDateString()}
                     </span>
                     <span className="capitalize">{task.category.replace('_', ' ')}</span>
+                    <span>Assigned to {task.assignedCSR}</span>
                   </div>
                 </div>
 
@@ -435,12 +498,7 @@ const TaskManagement: React.FC<TaskManagementProps> = ({ customerId, onClose, on
                     <Edit className="w-4 h-4" />
                   </button>
                   <button
-                    onClick={() => {
-                      if (confirm('Are you sure you want to delete this task?')) {
-                        // In real app, implement delete functionality
-                        console.log('Delete task:', task.id);
-                      }
-                    }}
+                    onClick={() => handleDelete(task.id)}
                     className="text-red-600 hover:text-red-900"
                     title="Delete Task"
                   >
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Inbox, Users } from 'lucide-react';
+import { fetchWorkload, type QueueWorkload } from '../services/assignmentService';
+
+interface TeamWorkloadProps {
+  // Signed-in staff member; their tile is highlighted
+  userId?: string;
+}
+
+const QUEUE_LINKS: Record<QueueWorkload['queue'], string> = {
+  bookings: '/bookings',
+  'visa-applications': '/visa-assistance',
+};
+
+const STRATEGY_LABELS: Record<QueueWorkload['strategy'], string> = {
+  manual: 'Assigned by hand',
+  round_robin: 'Round robin',
+  least_loaded: 'Least loaded',
+};
+
+// Open items per agent for each queue the user can see
+const TeamWorkload: React.FC<TeamWorkloadProps> = ({ userId }) => {
+  const [queues, setQueues] = useState<QueueWorkload[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    fetchWorkload()
+      .then((data) => {
+        if (mounted) setQueues(data);
+      })
+      .catch((err) => console.error('Failed to load team workload:', err));
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  if (queues.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-4">
+      {queues.map((workload) => (
+        <div key={workload.queue} className="bg-white p-5 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 mb-4">
+            <div className="flex items-center gap-2">
+              <Users className="w-5 h-5 text-blue-600" />
+              <h3 className="text-lg font-semibold text-gray-900">{workload.label} Workload</h3>
+              <span className="text-xs text-gray-500">{STRATEGY_LABELS[workload.strategy]}</span>
+            </div>
+            <Link to={QUEUE_LINKS[workload.queue]} className="text-sm font-medium text-blue-600 hover:text-blue-800">
+              Open queue
+            </Link>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+            <div className={`p-3 rounded-lg border ${workload.unassigned > 0 ? 'border-orange-200 bg-orange-50' : 'border-gray-200 bg-gray-50'}`}>
+              <p className="text-xs uppercase tracking-wide text-gray-600 flex items-center gap-1">
+                <Inbox className="w-3 h-3" /> Unassigned
+              </p>
+              <p className={`text-lg font-bold ${workload.unassigned > 0 ? 'text-orange-800' : 'text-gray-900'}`}>{workload.unassigned}</p>
+            </div>
+            {workload.agents.map((agent) => (
+              <div
+                key={agent.id}
+                className={`p-3 rounded-lg border ${agent.id === userId ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-white'}`}
+                title={agent.email}
+              >
+                <p className="text-xs text-gray-600 truncate">
+                  {agent.id === userId ? 'You' : agent.fullName}
+                  {!agent.autoAssign && <span className="text-gray-400"> · by hand</span>}
+                </p>
+                <p className="text-lg font-bold text-gray-900">{agent.open}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TeamWorkload;
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { Plus, Edit2, Trash2, Save, X, Upload, ChevronUp, ChevronDown } from 'lucide-react';
-import { fetchCountries, deleteCountry, type Country, type Attraction, type Testimonial } from '../../../../src/api/countries';
-import { createCountryAdmin, updateCountryAdmin } from '../services/apiClient';
+import { fetchCountries, type Country, type Attraction, type Testimonial } from '../../../../src/api/countries';
+import { createCountryAdmin, deleteCountryAdmin, updateCountryAdmin } from '../services/apiClient';
 import { buildAdminApiUrl } from '../config/apiBase';
 import React from 'react';
 import { useToast } from '../components/Toast';
@@ -222,7 +222,7 @@ export default function CountryManagement() {
     if (!confirm('Are you sure you want to delete this country?')) return;
 
     try {
-      await deleteCountry(id);
+      await deleteCountryAdmin(id);
       success('Country deleted successfully! 🗑️');
       loadCountries();
     } catch (error) {
@@ -0,0 +1,461 @@
+import { useCallback, useEffect, useState } from 'react';
+import { History, RefreshCw, RotateCcw, Save } from 'lucide-react';
+import {
+  fetchEmailPreviewBookings,
+  fetchEmailTemplate,
+  fetchEmailTemplates,
+  fetchEmailTemplateVersion,
+  fetchEmailTemplateVersions,
+  previewEmailTemplate,
+  restoreEmailTemplateVersion,
+  saveEmailTemplate,
+  type EmailLocale,
+  type EmailPreviewBooking,
+  type EmailTemplateContent,
+  type EmailTemplateDetail,
+  type EmailTemplatePreview,
+  type EmailTemplateSummary,
+  type EmailTemplateVariable,
+  type EmailTemplateVersion,
+} from '../services/apiClient';
+import { useToast } from '../components/Toast';
+
+const LOCALE_LABELS: Record<EmailLocale, string> = {
+  en: 'English',
+  tl: 'Tagalog',
+};
+
+const PREVIEW_DELAY_MS = 600;
+
+function formatDateTime(value?: string | null): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('en-PH', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+const sameContent = (a: EmailTemplateContent, b: EmailTemplateContent) =>
+  a.subject === b.subject && a.html === b.html && a.text === b.text;
+
+function VariableList({ variables, prefix = '' }: { variables: Record<string, EmailTemplateVariable>; prefix?: string }) {
+  return (
+    <ul className="space-y-1">
+      {Object.entries(variables).map(([name, variable]) => (
+        <li key={name} className="text-xs">
+          <code className="text-purple-700">{variable.type === 'list' ? `{{#each ${name}}}` : `{{${prefix}${name}}}`}</code>
+          <span className="ml-1 text-gray-400">{variable.type}{variable.optional ? ', optional' : ''}</span>
+          <div className="text-gray-600">{variable.description}</div>
+          {variable.fields && (
+            <div className="ml-3 mt-1 border-l pl-2">
+              <VariableList variables={variable.fields} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function EmailTemplates() {
+  const { success, error: errorToast } = useToast();
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [locale, setLocale] = useState<EmailLocale>('en');
+  const [detail, setDetail] = useState<EmailTemplateDetail | null>(null);
+  const [draft, setDraft] = useState<EmailTemplateContent>({ subject: '', html: '', text: '' });
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [bookings, setBookings] = useState<EmailPreviewBooking[]>([]);
+  const [previewBookingId, setPreviewBookingId] = useState('');
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [showText, setShowText] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [versions, setVersions] = useState<EmailTemplateVersion[]>([]);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const list = await fetchEmailTemplates();
+      setTemplates(list);
+      setSelectedKey((current) => current ?? list[0]?.key ?? null);
+    } catch (error) {
+      console.error('Failed to load email templates:', error);
+      errorToast('Failed to load email templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [errorToast]);
+
+  const loadTemplate = useCallback(async (key: string, templateLocale: EmailLocale) => {
+    try {
+      const loaded = await fetchEmailTemplate(key, templateLocale);
+      setDetail(loaded);
+      setDraft(loaded.content);
+      setNote('');
+    } catch (error) {
+      console.error('Failed to load email template:', error);
+      errorToast(error instanceof Error ? error.message : 'Failed to load email template');
+    }
+  }, [errorToast]);
+
+  const loadVersions = useCallback(async (key: string, templateLocale: EmailLocale) => {
+    try {
+      setVersions(await fetchEmailTemplateVersions(key, templateLocale));
+    } catch (error) {
+      console.error('Failed to load template versions:', error);
+      errorToast('Failed to load version history');
+    }
+  }, [errorToast]);
+
+  useEffect(() => {
+    loadTemplates();
+    fetchEmailPreviewBookings()
+      .then(setBookings)
+      .catch((error) => console.error('Failed to load sample bookings:', error));
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    if (!selectedKey) return;
+    setDetail(null);
+    setPreview(null);
+    loadTemplate(selectedKey, locale);
+    if (showHistory) loadVersions(selectedKey, locale);
+  }, [selectedKey, locale, showHistory, loadTemplate, loadVersions]);
+
+  // Re-render the preview shortly after the editor stops changing
+  useEffect(() => {
+    if (!detail) return;
+    const timer = setTimeout(() => {
+      previewEmailTemplate(detail.key, detail.locale, { ...draft, bookingId: previewBookingId || undefined })
+        .then((rendered) => {
+          setPreview(rendered);
+          setPreviewError(null);
+        })
+        .catch((error) => setPreviewError(error instanceof Error ? error.message : 'Preview failed'));
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [detail, draft, previewBookingId]);
+
+  const selected = templates.find((template) => template.key === selectedKey);
+  const dirty = detail ? !sameContent(detail.content, draft) : false;
+
+  const handleSelect = (key: string) => {
+    if (dirty && !confirm('Discard your unsaved changes?')) return;
+    setSelectedKey(key);
+    setLocale('en');
+  };
+
+  const handleLocale = (next: EmailLocale) => {
+    if (dirty && !confirm('Discard your unsaved changes?')) return;
+    setLocale(next);
+  };
+
+  const handleSave = async () => {
+    if (!detail) return;
+    try {
+      setSaving(true);
+      const saved = await saveEmailTemplate(detail.key, detail.locale, { ...draft, version: detail.version, note });
+      success(`${detail.name} (${LOCALE_LABELS[detail.locale]}) saved as version ${saved.version} ✉️`);
+      await loadTemplate(detail.key, detail.locale);
+      loadTemplates();
+      if (showHistory) loadVersions(detail.key, detail.locale);
+    } catch (error) {
+      console.error('Save failed:', error);
+      errorToast(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLoadVersion = async (version: number) => {
+    if (!detail) return;
+    try {
+      const loaded = await fetchEmailTemplateVersion(detail.key, detail.locale, version);
+      setDraft({ subject: loaded.subject, html: loaded.html ?? '', text: loaded.text ?? '' });
+      setNote(`Based on version ${version}`);
+    } catch (error) {
+      console.error('Failed to load version:', error);
+      errorToast(error instanceof Error ? error.message : 'Failed to load version');
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!detail) return;
+    if (!confirm(`Make version ${version} live again? It is saved as a new version.`)) return;
+    try {
+      const restored = await restoreEmailTemplateVersion(detail.key, detail.locale, version);
+      success(`Restored version ${version} as version ${restored.version}`);
+      await loadTemplate(detail.key, detail.locale);
+      loadTemplates();
+      loadVersions(detail.key, detail.locale);
+    } catch (error) {
+      console.error('Restore failed:', error);
+      errorToast(error instanceof Error ? error.message : 'Failed to restore version');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading email templates...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Email Templates</h1>
+          <p className="text-gray-600 text-sm mt-1">
+            Wording of the emails the system sends. Every save is a new version and goes live immediately.
+          </p>
+        </div>
+        <button
+          onClick={loadTemplates}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="bg-white rounded-lg shadow-md divide-y">
+          {templates.map((template) => (
+            <button
+              key={template.key}
+              onClick={() => handleSelect(template.key)}
+              className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${template.key === selectedKey ? 'bg-blue-50' : ''}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900">{template.name}</span>
+                {template.audience === 'internal' && (
+                  <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">internal</span>
+                )}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">{template.description}</div>
+              <div className="flex gap-2 mt-2">
+                {template.locales.map((entry) => (
+                  <span key={entry.locale} className="text-xs text-gray-600">
+                    {entry.locale.toUpperCase()}: {entry.version ? `v${entry.version}` : 'built-in'}
+                  </span>
+                ))}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          {selected && (
+            <div className="flex items-center justify-between">
+              <div className="flex gap-2">
+                {selected.locales.map((entry) => (
+                  <button
+                    key={entry.locale}
+                    onClick={() => handleLocale(entry.locale)}
+                    className={`px-4 py-2 rounded-lg text-sm ${
+                      entry.locale === locale ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+                    }`}
+                  >
+                    {LOCALE_LABELS[entry.locale]}
+                  </button>
+                ))}
+              </div>
+              {detail && (
+                <div className="text-xs text-gray-500">
+                  {detail.version
+                    ? `Live: version ${detail.version} by ${detail.authorName} · ${formatDateTime(detail.updatedAt)}`
+                    : 'Live: built-in template'}
+                </div>
+              )}
+            </div>
+          )}
+
+          {!detail ? (
+            <div className="bg-white rounded-lg shadow-md p-6 text-gray-500">Loading template...</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                <div className="xl:col-span-2 bg-white rounded-lg shadow-md p-4 space-y-4">
+                  <label className="block">
+                    <span className="text-sm font-medium text-gray-700">Subject</span>
+                    <input
+                      value={draft.subject}
+                      onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                      className="mt-1 w-full border rounded-lg px-3 py-2 font-mono text-sm"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-sm font-medium text-gray-700">HTML body</span>
+                    <textarea
+                      value={draft.html}
+                      onChange={(e) => setDraft({ ...draft, html: e.target.value })}
+                      rows={18}
+                      spellCheck={false}
+                      className="mt-1 w-full border rounded-lg px-3 py-2 font-mono text-xs"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-sm font-medium text-gray-700">Plain-text body</span>
+                    <textarea
+                      value={draft.text}
+                      onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                      rows={8}
+                      spellCheck={false}
+                      className="mt-1 w-full border rounded-lg px-3 py-2 font-mono text-xs"
+                    />
+                  </label>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <input
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="What changed? (optional)"
+                      className="flex-1 min-w-[12rem] border rounded-lg px-3 py-2 text-sm"
+                    />
+                    <button
+                      onClick={() => setDraft(detail.defaultContent)}
+                      className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-800 rounded-lg text-sm hover:bg-gray-200"
+                      title="Load the built-in template into the editor"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Built-in
+                    </button>
+                    <button
+                      onClick={() => setDraft(detail.content)}
+                      disabled={!dirty}
+                      className="px-3 py-2 bg-gray-100 text-gray-800 rounded-lg text-sm hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      Discard changes
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={!dirty || saving || Boolean(previewError)}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <Save className="w-4 h-4" />
+                      {saving ? 'Saving...' : 'Save new version'}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-lg shadow-md p-4 max-h-[48rem] overflow-y-auto">
+                  <h2 className="text-sm font-semibold text-gray-900 mb-1">Variables</h2>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Formatters: <code>| currency</code>, <code>| date</code>, <code>| shortDate</code>, <code>| titleCase</code>,{' '}
+                    <code>| lower</code>, <code>| upper</code>. Blocks: <code>{'{{#if x}}…{{else}}…{{/if}}'}</code>,{' '}
+                    <code>{'{{#unless x}}…{{/unless}}'}</code>.
+                  </p>
+                  <VariableList variables={detail.variables} />
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-md p-4">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <h2 className="text-lg font-semibold">Preview</h2>
+                  <div className="flex items-center gap-3">
+                    {detail.bookingPreview && (
+                      <select
+                        value={previewBookingId}
+                        onChange={(e) => setPreviewBookingId(e.target.value)}
+                        className="border rounded-lg px-3 py-2 text-sm"
+                      >
+                        <option value="">Sample data</option>
+                        {bookings.map((booking) => (
+                          <option key={booking._id} value={booking.bookingId}>
+                            {booking.bookingId} — {booking.customerName} ({booking.tourSlug ?? 'no tour'})
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={() => setShowText(!showText)}
+                      className="px-3 py-2 bg-gray-100 text-gray-800 rounded-lg text-sm hover:bg-gray-200"
+                    >
+                      {showText ? 'Show HTML' : 'Show plain text'}
+                    </button>
+                  </div>
+                </div>
+                {previewError && (
+                  <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+                    {previewError}
+                  </div>
+                )}
+                {preview && (
+                  <>
+                    <div className="text-sm mb-3">
+                      <span className="text-gray-500">Subject:</span> <strong>{preview.subject}</strong>
+                    </div>
+                    {showText ? (
+                      <pre className="whitespace-pre-wrap text-sm bg-gray-50 rounded-lg p-4">{preview.text}</pre>
+                    ) : (
+                      <iframe
+                        title="Email preview"
+                        srcDoc={preview.html}
+                        sandbox=""
+                        className={`w-full h-[40rem] border rounded-lg ${previewError ? 'opacity-50' : ''}`}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+
+              <div className="bg-white rounded-lg shadow-md p-4">
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="flex items-center gap-2 text-sm font-semibold text-gray-900"
+                >
+                  <History className="w-4 h-4" />
+                  {showHistory ? 'Hide version history' : 'Show version history'}
+                </button>
+                {showHistory && (
+                  versions.length === 0 ? (
+                    <p className="text-sm text-gray-500 mt-3">No saved versions yet; the built-in template is live.</p>
+                  ) : (
+                    <ul className="divide-y mt-3">
+                      {versions.map((version) => (
+                        <li key={version._id} className="py-2 flex items-center justify-between gap-4">
+                          <div className="text-sm">
+                            <span className="font-medium">Version {version.version}</span>
+                            {version.version === detail.version && (
+                              <span className="ml-2 px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">live</span>
+                            )}
+                            <span className="ml-2 text-xs text-gray-500">
+                              {version.authorName} · {formatDateTime(version.createdAt)}
+                            </span>
+                            {version.note && <div className="text-xs text-gray-600">{version.note}</div>}
+                          </div>
+                          <div className="flex gap-2 shrink-0">
+                            <button
+                              onClick={() => handleLoadVersion(version.version)}
+                              className="px-3 py-1 bg-gray-100 text-gray-800 rounded-lg text-xs hover:bg-gray-200"
+                            >
+                              Open in editor
+                            </button>
+                            {version.version !== detail.version && (
+                              <button
+                                onClick={() => handleRestore(version.version)}
+                                className="px-3 py-1 bg-blue-600 text-white rounded-lg text-xs hover:bg-blue-700"
+                              >
+                                Restore
+                              </button>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
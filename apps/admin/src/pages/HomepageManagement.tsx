@@ -19,6 +19,7 @@ import {
   Globe
 } from 'lucide-react';
 import { getAdminApiBaseUrl } from '../config/apiBase';
+import { authFetch } from '../utils/tokenStorage';
 import FileUpload from '../components/FileUpload';
 import { HomepageUploads } from '../utils/uploadHelpers';
 
@@ -203,7 +204,7 @@ const HomepageManagement: React.FC = () => {
     setLoading(true);
     try {
       // Save settings to API
-      const response = await fetch(`${API_URL}/api/homepage-settings`, {
+      const response = await authFetch(`${API_URL}/api/homepage-settings`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Activity, AlertTriangle, Bug, CheckCircle2, RefreshCw, Sparkles, Wrench } from 'lucide-react';
 import { buildAdminApiUrl } from '../config/apiBase';
+import { authFetch } from '../utils/tokenStorage';
 
 type CheckType = 'code_error' | 'abnormality' | 'incorrect_output';
 type CheckStatus = 'pass' | 'fail' | 'warn';
@@ -163,7 +164,7 @@ export default function MonitoringCenter(): React.ReactElement {
     setMigrationRunning(true);
 
     try {
-      const response = await fetch(buildAdminApiUrl('/api/visa-readiness/migration/run'), {
+      const response = await authFetch(buildAdminApiUrl('/api/visa-readiness/migration/run'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -209,7 +210,7 @@ export default function MonitoringCenter(): React.ReactElement {
     setFixMessage(null);
 
     try {
-      const response = await fetch(buildAdminApiUrl('/api/monitoring/quick-fix'), {
+      const response = await authFetch(buildAdminApiUrl('/api/monitoring/quick-fix'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
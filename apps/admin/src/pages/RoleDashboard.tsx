@@ -2,6 +2,7 @@ import React, { JSX, useEffect, useState } from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { UserRole, ROLE_DISPLAY_NAMES } from "../types/auth";
 import PermissionsTest from "../components/PermissionsTest";
+import TeamWorkload from "../components/TeamWorkload";
 import { fetchDashboardStats } from "../services/dashboardService";
 import { Link } from "react-router-dom";
 import { authService } from "../services/authService";
@@ -768,6 +769,11 @@ export default function Home(): JSX.Element {
         </div>
       )}
 
+      {/* Open bookings and visa applications per agent */}
+      {(authService.hasPermission('canAccessBookings', user) || authService.hasPermission('canAccessVisaAssistance', user)) && (
+        <TeamWorkload userId={user.id} />
+      )}
+
       {/* Role-specific dashboard */}
       {renderDashboard()}
     </div>
@@ -1,7 +1,28 @@
 import React, { JSX, useEffect, useState, useCallback } from "react";
 import { Trash2, Plus, Edit2, Check, X, Eye, EyeOff, ExternalLink, RefreshCw } from "lucide-react";
+import type { Tour } from "@discovergroup/types";
 import { getAdminApiBaseUrl } from "../config/apiBase";
 import { getMetaSettings } from "../services/settingsService";
+import { getAllTours } from "../services/tourRepo";
+import { authService } from "../services/authService";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  ConversationDetail,
+  ExtractedTransaction,
+  ExtractedTransactionStatus,
+  MessengerConversation,
+  MessengerConversationStatus,
+  TransactionUpdate,
+  convertTransaction,
+  extractTransaction,
+  fetchConversation,
+  fetchConversations,
+  fetchTransactions,
+  sendReply,
+  syncConversations,
+  updateConversationStatus,
+  updateTransaction,
+} from "../services/messengerService";
 
 interface MessengerAccount {
   id: string;
@@ -21,113 +42,21 @@ interface MetaMessengerConfig {
 
 const API_BASE_URL = getAdminApiBaseUrl();
 
-// ─── Graph API types ─────────────────────────────────────────────────────────
-interface GraphApiError { error?: { message?: string } }
-interface GraphParticipant { id: string; name: string }
-interface GraphMessage { id: string; message?: string; from?: { id: string }; created_time: string }
-interface GraphConversation {
-  id: string;
-  updated_time?: string;
-  participants?: { data: GraphParticipant[] };
-  messages?: { data: GraphMessage[] };
-}
-interface GraphConversationsResponse { data?: GraphConversation[] }
-
-// ─── Real-time conversation fetch from Meta Graph API ─────────────────────────
-const GRAPH_API_VERSION = 'v19.0';
-
-const fetchConversationsFromMeta = async (
-  pageId: string,
-  accessToken: string
-): Promise<MessengerConversation[]> => {
-  const fields = 'id,participants,updated_time,messages.limit(30){message,from,created_time}';
-  const url = `https://graph.facebook.com/${GRAPH_API_VERSION}/${pageId}/conversations?fields=${fields}&limit=25&access_token=${encodeURIComponent(accessToken)}`;
-  const res = await fetch(url);
-  if (!res.ok) {
-    const err = (await res.json().catch(() => ({}))) as GraphApiError;
-    throw new Error(err?.error?.message || `Graph API error ${res.status}`);
-  }
-  const data = (await res.json()) as GraphConversationsResponse;
-  const rawConvs: GraphConversation[] = data.data || [];
-
-  return rawConvs.map((conv): MessengerConversation => {
-    const participants: GraphParticipant[] = conv.participants?.data || [];
-    const customer = participants.find(p => String(p.id) !== String(pageId))
-      || { name: 'Unknown Customer', id: 'unknown' };
-    const rawMessages: GraphMessage[] = (conv.messages?.data || []).slice().reverse();
-    const messages: Message[] = rawMessages.map((m): Message => ({
-      id: m.id,
-      sender: String(m.from?.id) === String(pageId) ? 'agent' : 'customer',
-      text: m.message || '(media)',
-      timestamp: m.created_time,
-    }));
-    return {
-      id: conv.id,
-      customerName: customer.name,
-      customerMessengerId: customer.id,
-      status: 'in-progress',
-      assignedAgent: 'Sales Team',
-      messages,
-      lastMessageAt: conv.updated_time || new Date().toISOString(),
-      createdAt: conv.updated_time || new Date().toISOString(),
-    };
-  });
-};
-
-// ─── Send a reply via Graph API ──────────────────────────────────────────────
-const sendMetaReply = async (
-  recipientId: string,
-  text: string,
-  accessToken: string
-): Promise<void> => {
-  const res = await fetch(
-    `https://graph.facebook.com/${GRAPH_API_VERSION}/me/messages?access_token=${encodeURIComponent(accessToken)}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ recipient: { id: recipientId }, message: { text } }),
-    }
-  );
-  if (!res.ok) {
-    const err = (await res.json().catch(() => ({}))) as GraphApiError;
-    throw new Error(err?.error?.message || 'Failed to send reply');
-  }
-};
+const CONVERSATION_STATUSES: MessengerConversationStatus[] = ['new', 'in-progress', 'converted', 'closed'];
 
-interface Message {
-  id: string;
-  sender: 'customer' | 'agent';
-  text: string;
-  timestamp: string;
-}
-
-interface MessengerConversation {
-  id: string;
-  customerName: string;
-  customerMessengerId: string;
-  status: 'new' | 'in-progress' | 'converted' | 'closed';
-  assignedAgent: string;
-  messages: Message[];
-  lastMessageAt: string;
-  createdAt: string;
-}
+const formatPeso = (amount: number) => `₱${amount.toLocaleString('en-PH')}`;
 
-interface ExtractedTransaction {
-  id: string;
-  conversationId: string;
-  customerName: string;
-  customerEmail?: string;
-  customerPhone?: string;
-  tourInterest: string;
-  preferredDates?: string;
-  numberOfPeople?: number;
-  estimatedBudget?: string;
-  extractedAt: string;
-  status: 'lead' | 'quoted' | 'booked' | 'lost';
-  assignedAgent: string;
-  notes?: string;
-}
+const editFormOf = (t: ExtractedTransaction) => ({
+  customerName: t.customerName,
+  customerEmail: t.customerEmail ?? '',
+  customerPhone: t.customerPhone ?? '',
+  tourSlug: t.tourSlug ?? '',
+  selectedDate: t.selectedDate ?? '',
+  numberOfPeople: t.numberOfPeople ? String(t.numberOfPeople) : '',
+  notes: t.notes ?? '',
+});
 
+type TransactionForm = ReturnType<typeof editFormOf>;
 
 
 export default function SalesDepartment(): JSX.Element {
@@ -152,44 +81,82 @@ export default function SalesDepartment(): JSX.Element {
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
   const [isCreating, setIsCreating] = useState(false);
 
-  // Meta API credentials loaded from admin Settings
+  // Meta settings from admin Settings; the Page token itself is only used by the API
   const [metaCredentials, setMetaCredentials] = useState<{
-    pageId: string; accessToken: string; notificationPsid: string;
-  }>({ pageId: '', accessToken: '', notificationPsid: '' });
+    pageId: string; tokenConfigured: boolean; notificationPsid: string;
+  }>({ pageId: '', tokenConfigured: false, notificationPsid: '' });
+
+  const { user } = useAuth();
+  const canBook = !!user && authService.hasPermission('canCreateBookings', user);
 
   // Conversation states
   const [conversations, setConversations] = useState<MessengerConversation[]>([]);
   const [conversationsLoading, setConversationsLoading] = useState(false);
   const [conversationsError, setConversationsError] = useState<string | null>(null);
-  const [usingDemoData, setUsingDemoData] = useState(false);
-  const [selectedConversation, setSelectedConversation] = useState<MessengerConversation | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<ConversationDetail | null>(null);
   const [replyText, setReplyText] = useState('');
   const [replying, setReplying] = useState(false);
-  const [transactions] = useState<ExtractedTransaction[]>([]);
+  const [extracting, setExtracting] = useState(false);
+
+  // Review queue states
+  const [transactions, setTransactions] = useState<ExtractedTransaction[]>([]);
+  const [transactionFilter, setTransactionFilter] = useState<ExtractedTransactionStatus | 'all'>('all');
+  const [tours, setTours] = useState<Tour[]>([]);
+  const [editingTransactionId, setEditingTransactionId] = useState<string | null>(null);
+  const [transactionForm, setTransactionForm] = useState<TransactionForm | null>(null);
+  const [convertingId, setConvertingId] = useState<string | null>(null);
+  const [paymentType, setPaymentType] = useState<'full' | 'downpayment'>('full');
+  const [paidAmount, setPaidAmount] = useState('');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [busyTransactionId, setBusyTransactionId] = useState<string | null>(null);
+
+  const flash = useCallback((type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  }, []);
 
-  // ── Load Meta credentials from API and fetch real conversations ───────────
-  const loadConversations = useCallback(async (pageId: string, accessToken: string) => {
-    if (!pageId || !accessToken) {
-      setConversations([]);
-      setUsingDemoData(true);
-      return;
-    }
+  // ── Conversations and transactions come from the API ──────────────────────
+  const loadConversations = useCallback(async () => {
     setConversationsLoading(true);
     setConversationsError(null);
-    setUsingDemoData(false);
     try {
-      const real = await fetchConversationsFromMeta(pageId, accessToken);
-      setConversations(real.length > 0 ? real : []);
+      setConversations(await fetchConversations());
     } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      setConversationsError(msg);
-      setConversations([]);
-      setUsingDemoData(true);
+      setConversationsError(err instanceof Error ? err.message : String(err));
     } finally {
       setConversationsLoading(false);
     }
   }, []);
 
+  const loadTransactions = useCallback(async () => {
+    try {
+      setTransactions(await fetchTransactions());
+    } catch (err) {
+      console.error('Failed to load transactions:', err);
+    }
+  }, []);
+
+  const loadDetail = useCallback(async (id: string) => {
+    try {
+      setDetail(await fetchConversation(id));
+    } catch (err) {
+      setDetail(null);
+      setConversationsError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) loadDetail(selectedId);
+  }, [selectedId, loadDetail]);
+
+  useEffect(() => {
+    if (activeTab === 'transactions' && tours.length === 0) {
+      getAllTours().then(setTours).catch(err => console.warn('Could not load tours:', err));
+    }
+  }, [activeTab, tours.length]);
+
   useEffect(() => {
     // Load saved configuration from localStorage
     const savedConfig = localStorage.getItem('metaMessengerConfig');
@@ -230,12 +197,12 @@ export default function SalesDepartment(): JSX.Element {
       }
     }
 
-    // Load Meta credentials from admin API Settings
+    // Load Meta settings from admin API Settings
     getMetaSettings()
       .then(meta => {
         setMetaCredentials({
           pageId: meta.metaPageId,
-          accessToken: meta.metaPageAccessToken,
+          tokenConfigured: !!meta.metaPageAccessToken,
           notificationPsid: meta.metaNotificationPsid,
         });
         // Auto-sync pageId to localStorage config if set
@@ -264,57 +231,127 @@ export default function SalesDepartment(): JSX.Element {
             localStorage.setItem('metaMessengerConfig', JSON.stringify(updated));
           }
         }
-        // Fetch real conversations
-        loadConversations(meta.metaPageId, meta.metaPageAccessToken);
       })
       .catch(err => {
         console.warn('Could not load Meta settings from API:', err);
-        setConversations([]);
-        setUsingDemoData(true);
       });
-  }, [loadConversations]);
 
-  const handleRefreshConversations = () => {
-    loadConversations(metaCredentials.pageId, metaCredentials.accessToken);
+    loadConversations();
+    loadTransactions();
+  }, [loadConversations, loadTransactions]);
+
+  // Pull history from Meta, then show what is stored
+  const handleSyncConversations = async () => {
+    setSyncing(true);
+    try {
+      const result = await syncConversations();
+      flash('success', `Synced ${result.conversations} conversations, ${result.messages} new messages`);
+      await Promise.all([loadConversations(), loadTransactions()]);
+      if (selectedId) await loadDetail(selectedId);
+    } catch (err) {
+      flash('error', err instanceof Error ? err.message : String(err));
+    } finally {
+      setSyncing(false);
+    }
   };
 
   const handleSendReply = async () => {
-    if (!replyText.trim() || !selectedConversation || !metaCredentials.accessToken) return;
+    if (!replyText.trim() || !selectedId) return;
     setReplying(true);
     try {
-      await sendMetaReply(
-        selectedConversation.customerMessengerId,
-        replyText.trim(),
-        metaCredentials.accessToken
-      );
-      // Optimistically add to thread
-      const newMsg: Message = {
-        id: `local_${Date.now()}`,
-        sender: 'agent',
-        text: replyText.trim(),
-        timestamp: new Date().toISOString(),
-      };
-      setConversations(prev =>
-        prev.map(c =>
-          c.id === selectedConversation.id
-            ? { ...c, messages: [...c.messages, newMsg] }
-            : c
-        )
-      );
-      setSelectedConversation(prev => prev
-        ? { ...prev, messages: [...prev.messages, newMsg] }
-        : prev
-      );
+      await sendReply(selectedId, replyText.trim());
       setReplyText('');
+      await Promise.all([loadDetail(selectedId), loadConversations(), loadTransactions()]);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      setMessage({ type: 'error', text: `Reply failed: ${msg}` });
-      setTimeout(() => setMessage(null), 5000);
+      flash('error', `Reply failed: ${msg}`);
     } finally {
       setReplying(false);
     }
   };
 
+  const handleExtract = async () => {
+    if (!selectedId) return;
+    setExtracting(true);
+    try {
+      const transaction = await extractTransaction(selectedId);
+      flash('success', `Transaction updated: ${transaction.tourTitle || 'tour not found yet'}${transaction.numberOfPeople ? `, ${transaction.numberOfPeople} pax` : ''}`);
+      await Promise.all([loadDetail(selectedId), loadTransactions()]);
+    } catch (err) {
+      flash('error', err instanceof Error ? err.message : String(err));
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  const handleConversationStatus = async (status: MessengerConversationStatus) => {
+    if (!selectedId) return;
+    try {
+      await updateConversationStatus(selectedId, status);
+      await Promise.all([loadDetail(selectedId), loadConversations()]);
+    } catch (err) {
+      flash('error', err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const startTransactionEdit = (t: ExtractedTransaction) => {
+    setConvertingId(null);
+    setEditingTransactionId(t._id);
+    setTransactionForm(editFormOf(t));
+  };
+
+  const saveTransaction = async (t: ExtractedTransaction, extra: TransactionUpdate = {}) => {
+    setBusyTransactionId(t._id);
+    try {
+      const update: TransactionUpdate = { ...extra };
+      if (transactionForm && editingTransactionId === t._id) {
+        // Only changed fields, so untouched ones keep following the conversation
+        const original = editFormOf(t);
+        (Object.keys(transactionForm) as (keyof TransactionForm)[]).forEach(key => {
+          if (transactionForm[key] === original[key]) return;
+          if (key === 'numberOfPeople') {
+            update.numberOfPeople = transactionForm.numberOfPeople ? Number(transactionForm.numberOfPeople) : null;
+          } else {
+            update[key] = transactionForm[key];
+          }
+        });
+      }
+      await updateTransaction(t._id, update);
+      setEditingTransactionId(null);
+      setTransactionForm(null);
+      await loadTransactions();
+    } catch (err) {
+      flash('error', err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyTransactionId(null);
+    }
+  };
+
+  const handleConvert = async (t: ExtractedTransaction) => {
+    setBusyTransactionId(t._id);
+    try {
+      const { booking } = await convertTransaction(t._id, {
+        paymentType,
+        paidAmount: paidAmount ? Number(paidAmount) : undefined,
+        paymentReference: paymentReference.trim() || undefined,
+      });
+      flash('success', `Booking ${booking.bookingId} created for ${t.customerName} (${formatPeso(booking.totalAmount)})`);
+      setConvertingId(null);
+      setPaidAmount('');
+      setPaymentReference('');
+      await Promise.all([loadTransactions(), loadConversations()]);
+    } catch (err) {
+      flash('error', err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyTransactionId(null);
+    }
+  };
+
+  const visibleTransactions = transactionFilter === 'all'
+    ? transactions
+    : transactions.filter(t => t.status === transactionFilter);
+  const formTour = tours.find(tour => tour.slug === transactionForm?.tourSlug);
+
 
 
   const handleAddAccount = async () => {
@@ -551,6 +588,19 @@ export default function SalesDepartment(): JSX.Element {
         </button>
       </div>
 
+      {message && (
+        <div style={{
+          marginBottom: 24,
+          padding: 12,
+          borderRadius: 6,
+          background: message.type === 'success' ? '#d4edda' : '#f8d7da',
+          color: message.type === 'success' ? '#155724' : '#721c24',
+          border: `1px solid ${message.type === 'success' ? '#c3e6cb' : '#f5c6cb'}`
+        }}>
+          {message.text}
+        </div>
+      )}
+
       {/* Accounts Tab */}
       {activeTab === 'accounts' && (
         <>
@@ -593,19 +643,19 @@ export default function SalesDepartment(): JSX.Element {
           <span style={{
             padding: '4px 10px',
             borderRadius: 12,
-            background: metaCredentials.accessToken ? '#d4edda' : '#fff3cd',
-            color: metaCredentials.accessToken ? '#155724' : '#856404',
+            background: metaCredentials.tokenConfigured ? '#d4edda' : '#fff3cd',
+            color: metaCredentials.tokenConfigured ? '#155724' : '#856404',
             fontWeight: 500,
           }}>
-            {metaCredentials.accessToken ? '🔑 API Token ✓' : '⚠ No API Token'}
+            {metaCredentials.tokenConfigured ? '🔑 API Token ✓' : '⚠ No API Token'}
           </span>
         </div>
       </div>
 
       {/* API Credentials Status (from Admin Settings) */}
       <div style={{
-        background: metaCredentials.accessToken ? '#f0fdf4' : '#fefce8',
-        border: `1px solid ${metaCredentials.accessToken ? '#86efac' : '#fde047'}`,
+        background: metaCredentials.tokenConfigured ? '#f0fdf4' : '#fefce8',
+        border: `1px solid ${metaCredentials.tokenConfigured ? '#86efac' : '#fde047'}`,
         borderRadius: 10,
         padding: 16,
         marginBottom: 24,
@@ -616,8 +666,8 @@ export default function SalesDepartment(): JSX.Element {
       }}>
         <div>
           <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 4,
-            color: metaCredentials.accessToken ? '#14532d' : '#713f12' }}>
-            {metaCredentials.accessToken
+            color: metaCredentials.tokenConfigured ? '#14532d' : '#713f12' }}>
+            {metaCredentials.tokenConfigured
               ? '🔗 Connected to Admin Settings — Page Access Token is set'
               : '⚙️ Page Access Token not configured'}
           </div>
@@ -1086,19 +1136,6 @@ export default function SalesDepartment(): JSX.Element {
         )}
       </div>
 
-      {message && (
-        <div style={{
-          marginBottom: 24,
-          padding: 12,
-          borderRadius: 6,
-          background: message.type === 'success' ? '#d4edda' : '#f8d7da',
-          color: message.type === 'success' ? '#155724' : '#721c24',
-          border: `1px solid ${message.type === 'success' ? '#c3e6cb' : '#f5c6cb'}`
-        }}>
-          {message.text}
-        </div>
-      )}
-
       {/* Setup Instructions */}
       <div style={{
         background: '#fff',
@@ -1118,6 +1155,7 @@ export default function SalesDepartment(): JSX.Element {
             <li>Add "Messenger" platform to each app</li>
             <li>Get the Page ID from Meta Business Suite → Settings → Page Info</li>
             <li>Get the App ID from the app dashboard</li>
+            <li>Subscribe the app's Messenger webhook (messages, message_echoes) to <code>{API_BASE_URL}/api/messenger/webhook</code> using the server's verify token</li>
             <li>Add each account using the form above</li>
           </ol>
 
@@ -1165,26 +1203,26 @@ export default function SalesDepartment(): JSX.Element {
                 {conversationsLoading ? 'Loading…' : `Conversations (${conversations.length})`}
               </h3>
               <button
-                onClick={handleRefreshConversations}
-                disabled={conversationsLoading || !metaCredentials.accessToken}
-                title={metaCredentials.accessToken ? 'Refresh from Meta' : 'Configure API token first'}
+                onClick={handleSyncConversations}
+                disabled={syncing || !metaCredentials.tokenConfigured}
+                title={metaCredentials.tokenConfigured ? 'Pull recent conversations from Meta' : 'Configure API token first'}
                 style={{
                   padding: '5px 8px',
                   background: 'transparent',
                   border: '1px solid #d1d5db',
                   borderRadius: 6,
-                  cursor: conversationsLoading || !metaCredentials.accessToken ? 'not-allowed' : 'pointer',
-                  opacity: !metaCredentials.accessToken ? 0.4 : 1,
+                  cursor: syncing || !metaCredentials.tokenConfigured ? 'not-allowed' : 'pointer',
+                  opacity: !metaCredentials.tokenConfigured ? 0.4 : 1,
                   display: 'flex', alignItems: 'center', gap: 4, fontSize: 12, color: '#374151',
                 }}
               >
-                <RefreshCw size={13} style={conversationsLoading ? { animation: 'spin 1s linear infinite' } : {}} />
-                Refresh
+                <RefreshCw size={13} style={syncing ? { animation: 'spin 1s linear infinite' } : {}} />
+                Sync
               </button>
             </div>
 
-            {/* Demo data / error banner */}
-            {(usingDemoData || conversationsError) && (
+            {/* Setup / error banner */}
+            {(!metaCredentials.tokenConfigured || conversationsError) && (
               <div style={{
                 padding: '8px 12px',
                 background: conversationsError ? '#fee2e2' : '#fef9c3',
@@ -1194,7 +1232,7 @@ export default function SalesDepartment(): JSX.Element {
                 display: 'flex', alignItems: 'center', justifyContent: 'space-between',
               }}>
                 <span>
-                  {conversationsError ? `⚠ ${conversationsError}` : '⚙ Configure API token in Settings to see live conversations'}
+                  {conversationsError ? `⚠ ${conversationsError}` : '⚙ Configure API token in Settings to sync and reply'}
                 </span>
                 {!conversationsError && (
                   <a href="/admin/settings" style={{ color: '#2563eb', textDecoration: 'underline', fontSize: 11, whiteSpace: 'nowrap' }}>
@@ -1205,11 +1243,11 @@ export default function SalesDepartment(): JSX.Element {
             )}
 
             <div style={{ flex: 1, overflowY: 'auto' }}>
-              {conversationsLoading ? (
+              {conversationsLoading && conversations.length === 0 ? (
                 <div style={{ padding: 24, textAlign: 'center', color: '#9ca3af', fontSize: 14 }}>
-                  <div style={{ width: 24, height: 24, border: '2px solid #e5', borderTopColor: '#3b82f6',
+                  <div style={{ width: 24, height: 24, border: '2px solid #e5e7eb', borderTopColor: '#3b82f6',
                     borderRadius: '50%', animation: 'spin 1s linear infinite', margin: '0 auto 8px' }} />
-                  Fetching from Meta…
+                  Loading conversations…
                 </div>
               ) : conversations.length === 0 ? (
                 <div style={{ padding: 24, textAlign: 'center', color: '#9ca3af', fontSize: 14 }}>
@@ -1217,17 +1255,17 @@ export default function SalesDepartment(): JSX.Element {
                 </div>
               ) : conversations.map((conv) => (
                 <div
-                  key={conv.id}
-                  onClick={() => setSelectedConversation(conv)}
+                  key={conv._id}
+                  onClick={() => setSelectedId(conv._id)}
                   style={{
                     padding: 16,
                     borderBottom: '1px solid #f3f4f6',
                     cursor: 'pointer',
-                    background: selectedConversation?.id === conv.id ? '#eff6ff' : '#fff',
+                    background: selectedId === conv._id ? '#eff6ff' : '#fff',
                     transition: 'background 0.2s'
                   }}
-                  onMouseEnter={(e) => { if (selectedConversation?.id !== conv.id) e.currentTarget.style.background = '#f9fafb'; }}
-                  onMouseLeave={(e) => { if (selectedConversation?.id !== conv.id) e.currentTarget.style.background = '#fff'; }}
+                  onMouseEnter={(e) => { if (selectedId !== conv._id) e.currentTarget.style.background = '#f9fafb'; }}
+                  onMouseLeave={(e) => { if (selectedId !== conv._id) e.currentTarget.style.background = '#fff'; }}
                 >
                   <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start', marginBottom: 8 }}>
                     <div style={{ fontWeight: 600, fontSize: 14 }}>{conv.customerName}</div>
@@ -1249,9 +1287,7 @@ export default function SalesDepartment(): JSX.Element {
                     </span>
                   </div>
                   <div style={{ fontSize: 13, color: '#6b7280', marginBottom: 4 }}>
-                    {conv.messages.length > 0
-                      ? `${conv.messages[conv.messages.length - 1].text.slice(0, 60)}…`
-                      : '(no messages)'}
+                    {conv.lastMessageText ? conv.lastMessageText.slice(0, 60) : '(no messages)'}
                   </div>
                   <div style={{ fontSize: 11, color: '#9ca3af' }}>
                     {new Date(conv.lastMessageAt).toLocaleString()}
@@ -1270,65 +1306,92 @@ export default function SalesDepartment(): JSX.Element {
             display: 'flex',
             flexDirection: 'column'
           }}>
-            {selectedConversation ? (
+            {detail && detail.conversation._id === selectedId ? (
               <>
                 {/* Header */}
                 <div style={{ padding: 16, borderBottom: '1px solid #e5e7eb', background: '#f9fafb' }}>
-                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 12 }}>
                     <div>
-                      <h3 style={{ margin: 0, fontSize: 16, fontWeight: 600 }}>{selectedConversation.customerName}</h3>
+                      <h3 style={{ margin: 0, fontSize: 16, fontWeight: 600 }}>{detail.conversation.customerName}</h3>
                       <div style={{ fontSize: 13, color: '#6b7280', marginTop: 4 }}>
-                        {selectedConversation.customerMessengerId !== 'unknown' && (
-                          <a
-                            href={`https://www.facebook.com/messages/t/${selectedConversation.customerMessengerId}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            style={{ color: '#3b82f6', fontSize: 12, display: 'inline-flex', alignItems: 'center', gap: 3 }}
-                          >
-                            Open in Messenger <ExternalLink size={11} />
-                          </a>
-                        )}
+                        <a
+                          href={`https://www.facebook.com/messages/t/${detail.conversation.psid}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          style={{ color: '#3b82f6', fontSize: 12, display: 'inline-flex', alignItems: 'center', gap: 3 }}
+                        >
+                          Open in Messenger <ExternalLink size={11} />
+                        </a>
                       </div>
                     </div>
-                    <button
-                      style={{
-                        padding: '8px 16px',
-                        background: '#10b981',
-                        color: '#fff',
-                        border: 'none',
-                        borderRadius: 6,
-                        fontWeight: 500,
-                        cursor: 'pointer',
-                        fontSize: 13
-                      }}
-                    >
-                      🤖 Extract Transaction
-                    </button>
+                    <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                      <select
+                        value={detail.conversation.status}
+                        onChange={(e) => handleConversationStatus(e.target.value as MessengerConversationStatus)}
+                        style={{ padding: '7px 10px', border: '1px solid #d1d5db', borderRadius: 6, fontSize: 13 }}
+                      >
+                        {CONVERSATION_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+                      </select>
+                      <button
+                        onClick={handleExtract}
+                        disabled={extracting}
+                        style={{
+                          padding: '8px 16px',
+                          background: extracting ? '#9ca3af' : '#10b981',
+                          color: '#fff',
+                          border: 'none',
+                          borderRadius: 6,
+                          fontWeight: 500,
+                          cursor: extracting ? 'not-allowed' : 'pointer',
+                          fontSize: 13
+                        }}
+                      >
+                        {extracting ? 'Extracting…' : '🤖 Extract Transaction'}
+                      </button>
+                    </div>
                   </div>
+                  {detail.transactions[0] && (
+                    <div style={{ marginTop: 10, fontSize: 12, color: '#374151', display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+                      <span><strong>Transaction:</strong> {detail.transactions[0].status}</span>
+                      <span>{detail.transactions[0].tourTitle || 'No tour yet'}</span>
+                      {detail.transactions[0].preferredDates && <span>{detail.transactions[0].preferredDates}</span>}
+                      {detail.transactions[0].numberOfPeople && <span>{detail.transactions[0].numberOfPeople} pax</span>}
+                      {detail.transactions[0].bookingId && <span>Booking {detail.transactions[0].bookingId}</span>}
+                    </div>
+                  )}
                 </div>
 
                 {/* Messages */}
                 <div style={{ flex: 1, overflowY: 'auto', padding: 20, background: '#f9fafb' }}>
-                  {selectedConversation.messages.map((msg) => (
+                  {detail.messages.map((msg) => (
                     <div
-                      key={msg.id}
+                      key={msg._id}
                       style={{
                         marginBottom: 16,
                         display: 'flex',
-                        justifyContent: msg.sender === 'customer' ? 'flex-start' : 'flex-end'
+                        justifyContent: msg.direction === 'inbound' ? 'flex-start' : 'flex-end'
                       }}
                     >
                       <div style={{
                         maxWidth: '70%',
                         padding: '12px 16px',
                         borderRadius: 12,
-                        background: msg.sender === 'customer' ? '#fff' : '#3b82f6',
-                        color: msg.sender === 'customer' ? '#374151' : '#fff',
-                        boxShadow: '0 1px 2px rgba(0,0,0,0.1)'
+                        background: msg.direction === 'inbound' ? '#fff' : '#3b82f6',
+                        color: msg.direction === 'inbound' ? '#374151' : '#fff',
+                        boxShadow: '0 1px 2px rgba(0,0,0,0.1)',
+                        outline: detail.transactions[0]?.sourceMessageIds.includes(msg.mid) ? '2px solid #10b981' : 'none',
                       }}>
-                        <div style={{ fontSize: 14, lineHeight: 1.5 }}>{msg.text}</div>
+                        <div style={{ fontSize: 14, lineHeight: 1.5 }}>{msg.text || '(media)'}</div>
+                        {msg.attachments.map((a, i) => (
+                          <div key={i} style={{ fontSize: 12, marginTop: 4 }}>
+                            {a.url
+                              ? <a href={a.url} target="_blank" rel="noopener noreferrer" style={{ color: 'inherit' }}>📎 {a.type}</a>
+                              : `📎 ${a.type}`}
+                          </div>
+                        ))}
                         <div style={{ fontSize: 11, marginTop: 4, opacity: 0.7 }}>
-                          {new Date(msg.timestamp).toLocaleTimeString()}
+                          {new Date(msg.sentAt).toLocaleString()}
+                          {msg.sentBy ? ` · ${msg.sentBy}` : ''}
                         </div>
                       </div>
                     </div>
@@ -1337,7 +1400,7 @@ export default function SalesDepartment(): JSX.Element {
 
                 {/* Reply Input */}
                 <div style={{ padding: 16, borderTop: '1px solid #e5e7eb', background: '#fff' }}>
-                  {!metaCredentials.accessToken && (
+                  {!metaCredentials.tokenConfigured && (
                     <div style={{ fontSize: 12, color: '#f59e0b', marginBottom: 8 }}>
                       ⚠ Configure Page Access Token in Settings to send replies
                     </div>
@@ -1348,28 +1411,28 @@ export default function SalesDepartment(): JSX.Element {
                       value={replyText}
                       onChange={(e) => setReplyText(e.target.value)}
                       onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendReply(); } }}
-                      placeholder={metaCredentials.accessToken ? 'Type a message…' : 'API token required to reply'}
-                      disabled={!metaCredentials.accessToken || replying}
+                      placeholder={metaCredentials.tokenConfigured ? 'Type a message…' : 'API token required to reply'}
+                      disabled={!metaCredentials.tokenConfigured || replying}
                       style={{
                         flex: 1,
                         padding: '10px 14px',
                         border: '1px solid #d1d5db',
                         borderRadius: 8,
                         fontSize: 14,
-                        opacity: !metaCredentials.accessToken ? 0.5 : 1,
+                        opacity: !metaCredentials.tokenConfigured ? 0.5 : 1,
                       }}
                     />
                     <button
                       onClick={handleSendReply}
-                      disabled={!metaCredentials.accessToken || !replyText.trim() || replying}
+                      disabled={!metaCredentials.tokenConfigured || !replyText.trim() || replying}
                       style={{
                         padding: '10px 20px',
-                        background: metaCredentials.accessToken && replyText.trim() ? '#3b82f6' : '#9ca3af',
+                        background: metaCredentials.tokenConfigured && replyText.trim() ? '#3b82f6' : '#9ca3af',
                         color: '#fff',
                         border: 'none',
                         borderRadius: 8,
                         fontWeight: 500,
-                        cursor: !metaCredentials.accessToken || !replyText.trim() || replying ? 'not-allowed' : 'pointer',
+                        cursor: !metaCredentials.tokenConfigured || !replyText.trim() || replying ? 'not-allowed' : 'pointer',
                       }}
                     >
                       {replying ? '…' : 'Send'}
@@ -1380,7 +1443,7 @@ export default function SalesDepartment(): JSX.Element {
             ) : (
               <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center',
                 color: '#9ca3af', fontSize: 14 }}>
-                Select a conversation to view messages
+                {selectedId ? 'Loading conversation…' : 'Select a conversation to view messages'}
               </div>
             )}
           </div>
@@ -1396,20 +1459,34 @@ export default function SalesDepartment(): JSX.Element {
           padding: 24
         }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 20 }}>
-            <h2 style={{ fontSize: 20, fontWeight: 600, margin: 0 }}>Extracted Transactions ({transactions.length})</h2>
+            <h2 style={{ fontSize: 20, fontWeight: 600, margin: 0 }}>Extracted Transactions ({visibleTransactions.length})</h2>
             <div style={{ display: 'flex', gap: 12 }}>
-              <select style={{
-                padding: '8px 12px',
-                border: '1px solid #d1d5db',
-                borderRadius: 6,
-                fontSize: 14
-              }}>
-                <option>All Status</option>
-                <option>Lead</option>
-                <option>Quoted</option>
-                <option>Booked</option>
-                <option>Lost</option>
+              <select
+                value={transactionFilter}
+                onChange={(e) => setTransactionFilter(e.target.value as ExtractedTransactionStatus | 'all')}
+                style={{
+                  padding: '8px 12px',
+                  border: '1px solid #d1d5db',
+                  borderRadius: 6,
+                  fontSize: 14
+                }}
+              >
+                <option value="all">All Status</option>
+                <option value="lead">Lead</option>
+                <option value="quoted">Quoted</option>
+                <option value="booked">Booked</option>
+                <option value="lost">Lost</option>
               </select>
+              <button
+                onClick={loadTransactions}
+                style={{
+                  padding: '8px 12px', background: 'transparent', border: '1px solid #d1d5db', borderRadius: 6,
+                  cursor: 'pointer', display: 'flex', alignItems: 'center', gap: 4, fontSize: 13, color: '#374151',
+                }}
+              >
+                <RefreshCw size={13} />
+                Refresh
+              </button>
             </div>
           </div>
 
@@ -1452,12 +1529,17 @@ export default function SalesDepartment(): JSX.Element {
                   <th style={{ padding: '12px 8px', textAlign: 'left', fontSize: 13, fontWeight: 600, color: '#374151' }}>People</th>
                   <th style={{ padding: '12px 8px', textAlign: 'left', fontSize: 13, fontWeight: 600, color: '#374151' }}>Budget</th>
                   <th style={{ padding: '12px 8px', textAlign: 'center', fontSize: 13, fontWeight: 600, color: '#374151' }}>Status</th>
-                  <th style={{ padding: '12px 8px', textAlign: 'left', fontSize: 13, fontWeight: 600, color: '#374151' }}>Agent</th>
+                  <th style={{ padding: '12px 8px', textAlign: 'left', fontSize: 13, fontWeight: 600, color: '#374151' }}>Actions</th>
                 </tr>
               </thead>
               <tbody>
-                {transactions.map((trans) => (
-                  <tr key={trans.id} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                {visibleTransactions.map((trans) => {
+                  const open = trans.status === 'lead' || trans.status === 'quoted';
+                  const busy = busyTransactionId === trans._id;
+                  const conversationId = typeof trans.conversation === 'string' ? trans.conversation : trans.conversation._id;
+                  return (
+                  <React.Fragment key={trans._id}>
+                  <tr style={{ borderBottom: '1px solid #f3f4f6' }}>
                     <td style={{ padding: '16px 8px' }}>
                       <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 4 }}>{trans.customerName}</div>
                       {trans.customerEmail && (
@@ -1467,15 +1549,16 @@ export default function SalesDepartment(): JSX.Element {
                         <div style={{ fontSize: 12, color: '#6b7280' }}>{trans.customerPhone}</div>
                       )}
                     </td>
-                    <td style={{ padding: '16px 8px', fontSize: 14 }}>{trans.tourInterest}</td>
+                    <td style={{ padding: '16px 8px', fontSize: 14 }}>{trans.tourTitle || '-'}</td>
                     <td style={{ padding: '16px 8px', fontSize: 13, color: '#6b7280' }}>
-                      {trans.preferredDates || '-'}
+                      {trans.selectedDate && <div style={{ color: '#065f46', fontWeight: 500 }}>{trans.selectedDate}</div>}
+                      {trans.preferredDates || (trans.selectedDate ? '' : '-')}
                     </td>
                     <td style={{ padding: '16px 8px', fontSize: 14, textAlign: 'center' }}>
                       {trans.numberOfPeople || '-'}
                     </td>
                     <td style={{ padding: '16px 8px', fontSize: 14, fontWeight: 500 }}>
-                      {trans.estimatedBudget || '-'}
+                      {trans.amounts.length > 0 ? formatPeso(trans.amounts[trans.amounts.length - 1]) : '-'}
                     </td>
                     <td style={{ padding: '16px 8px', textAlign: 'center' }}>
                       <span style={{
@@ -1483,31 +1566,219 @@ export default function SalesDepartment(): JSX.Element {
                         borderRadius: 12,
                         fontSize: 12,
                         fontWeight: 500,
-                        background: 
+                        background:
                           trans.status === 'lead' ? '#dbeafe' :
                           trans.status === 'quoted' ? '#fef3c7' :
                           trans.status === 'booked' ? '#d1fae5' : '#fee2e2',
-                        color: 
+                        color:
                           trans.status === 'lead' ? '#1e40af' :
                           trans.status === 'quoted' ? '#92400e' :
                           trans.status === 'booked' ? '#065f46' : '#991b1b'
                       }}>
                         {trans.status}
                       </span>
+                      {trans.bookingId && trans.status === 'booked' && (
+                        <div style={{ fontSize: 11, color: '#6b7280', marginTop: 4 }}>
+                          {trans.bookingId}{trans.convertedBy ? ` · ${trans.convertedBy}` : ''}
+                        </div>
+                      )}
                     </td>
-                    <td style={{ padding: '16px 8px', fontSize: 13, color: '#6b7280' }}>
-                      {trans.assignedAgent}
+                    <td style={{ padding: '16px 8px' }}>
+                      <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+                        <button
+                          onClick={() => { setSelectedId(conversationId); setActiveTab('conversations'); }}
+                          style={{ padding: '6px 10px', background: '#e5e7eb', color: '#374151', border: 'none', borderRadius: 4, cursor: 'pointer', fontSize: 12 }}
+                        >
+                          Chat
+                        </button>
+                        {open && (
+                          <>
+                            <button
+                              onClick={() => startTransactionEdit(trans)}
+                              style={{ padding: '6px 10px', background: '#f59e0b', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer', fontSize: 12 }}
+                              title="Review"
+                            >
+                              <Edit2 size={14} />
+                            </button>
+                            {canBook && (
+                              <button
+                                onClick={() => { setEditingTransactionId(null); setConvertingId(convertingId === trans._id ? null : trans._id); }}
+                                style={{ padding: '6px 10px', background: '#10b981', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer', fontSize: 12 }}
+                              >
+                                Book
+                              </button>
+                            )}
+                            <button
+                              onClick={() => saveTransaction(trans, { status: 'lost' })}
+                              disabled={busy}
+                              style={{ padding: '6px 10px', background: '#ef4444', color: '#fff', border: 'none', borderRadius: 4, cursor: busy ? 'not-allowed' : 'pointer', fontSize: 12 }}
+                            >
+                              Lost
+                            </button>
+                          </>
+                        )}
+                        {trans.status === 'lost' && (
+                          <button
+                            onClick={() => saveTransaction(trans, { status: 'lead' })}
+                            disabled={busy}
+                            style={{ padding: '6px 10px', background: '#3b82f6', color: '#fff', border: 'none', borderRadius: 4, cursor: busy ? 'not-allowed' : 'pointer', fontSize: 12 }}
+                          >
+                            Reopen
+                          </button>
+                        )}
+                      </div>
                     </td>
                   </tr>
-                ))}
+
+                  {/* Review form: corrected fields stop following the conversation */}
+                  {editingTransactionId === trans._id && transactionForm && (
+                    <tr style={{ borderBottom: '1px solid #f3f4f6', background: '#f9fafb' }}>
+                      <td colSpan={7} style={{ padding: 16 }}>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 12 }}>
+                          {([
+                            ['customerName', 'Customer Name', 'text'],
+                            ['customerEmail', 'Email', 'email'],
+                            ['customerPhone', 'Phone', 'tel'],
+                          ] as [keyof TransactionForm, string, string][]).map(([key, label, type]) => (
+                            <label key={key} style={{ fontSize: 13, fontWeight: 500 }}>
+                              {label}
+                              <input
+                                type={type}
+                                value={transactionForm[key]}
+                                onChange={(e) => setTransactionForm({ ...transactionForm, [key]: e.target.value })}
+                                style={{ display: 'block', width: '100%', marginTop: 4, padding: '6px 8px', border: '1px solid #d1d5db', borderRadius: 4, fontSize: 13 }}
+                              />
+                            </label>
+                          ))}
+                          <label style={{ fontSize: 13, fontWeight: 500 }}>
+                            Tour
+                            <select
+                              value={transactionForm.tourSlug}
+                              onChange={(e) => setTransactionForm({ ...transactionForm, tourSlug: e.target.value, selectedDate: '' })}
+                              style={{ display: 'block', width: '100%', marginTop: 4, padding: '6px 8px', border: '1px solid #d1d5db', borderRadius: 4, fontSize: 13 }}
+                            >
+                              <option value="">Not chosen</option>
+                              {tours.map(tour => <option key={tour.slug} value={tour.slug}>{tour.title}</option>)}
+                            </select>
+                          </label>
+                          <label style={{ fontSize: 13, fontWeight: 500 }}>
+                            Departure
+                            <select
+                              value={transactionForm.selectedDate}
+                              onChange={(e) => setTransactionForm({ ...transactionForm, selectedDate: e.target.value })}
+                              style={{ display: 'block', width: '100%', marginTop: 4, padding: '6px 8px', border: '1px solid #d1d5db', borderRadius: 4, fontSize: 13 }}
+                            >
+                              <option value="">Not chosen</option>
+                              {transactionForm.selectedDate && !formTour?.departureDates?.some(d => d.start === transactionForm.selectedDate) && (
+                                <option value={transactionForm.selectedDate}>{transactionForm.selectedDate}</option>
+                              )}
+                              {(formTour?.departureDates ?? []).map(d => (
+                                <option key={d.start} value={d.start}>{d.start}{d.end ? ` – ${d.end}` : ''}</option>
+                              ))}
+                            </select>
+                          </label>
+                          <label style={{ fontSize: 13, fontWeight: 500 }}>
+                            Number of People
+                            <input
+                              type="number"
+                              min={1}
+                              max={50}
+                              value={transactionForm.numberOfPeople}
+                              onChange={(e) => setTransactionForm({ ...transactionForm, numberOfPeople: e.target.value })}
+                              style={{ display: 'block', width: '100%', marginTop: 4, padding: '6px 8px', border: '1px solid #d1d5db', borderRadius: 4, fontSize: 13 }}
+                            />
+                          </label>
+                          <label style={{ fontSize: 13, fontWeight: 500, gridColumn: '1 / -1' }}>
+                            Notes
+                            <textarea
+                              value={transactionForm.notes}
+                              onChange={(e) => setTransactionForm({ ...transactionForm, notes: e.target.value })}
+                              rows={2}
+                              style={{ display: 'block', width: '100%', marginTop: 4, padding: '6px 8px', border: '1px solid #d1d5db', borderRadius: 4, fontSize: 13 }}
+                            />
+                          </label>
+                        </div>
+                        {trans.preferredDates && (
+                          <div style={{ fontSize: 12, color: '#6b7280', marginTop: 8 }}>Customer wrote: {trans.preferredDates}</div>
+                        )}
+                        <div style={{ display: 'flex', gap: 8, marginTop: 12 }}>
+                          <button
+                            onClick={() => saveTransaction(trans)}
+                            disabled={busy}
+                            style={{ padding: '8px 14px', background: busy ? '#9ca3af' : '#10b981', color: '#fff', border: 'none', borderRadius: 6, cursor: busy ? 'not-allowed' : 'pointer', fontSize: 13, display: 'flex', alignItems: 'center', gap: 4 }}
+                          >
+                            <Check size={14} /> Save
+                          </button>
+                          <button
+                            onClick={() => { setEditingTransactionId(null); setTransactionForm(null); }}
+                            style={{ padding: '8px 14px', background: '#6b7280', color: '#fff', border: 'none', borderRadius: 6, cursor: 'pointer', fontSize: 13, display: 'flex', alignItems: 'center', gap: 4 }}
+                          >
+                            <X size={14} /> Cancel
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+
+                  {/* Convert: priced from the tour, not the amounts in the chat */}
+                  {convertingId === trans._id && (
+                    <tr style={{ borderBottom: '1px solid #f3f4f6', background: '#f0fdf4' }}>
+                      <td colSpan={7} style={{ padding: 16 }}>
+                        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', fontSize: 13 }}>
+                          <span>
+                            Book <strong>{trans.tourTitle || 'no tour'}</strong> on <strong>{trans.selectedDate || 'no departure'}</strong> for{' '}
+                            <strong>{trans.numberOfPeople || '?'}</strong> pax, {trans.customerEmail || 'no email'}
+                          </span>
+                          <select
+                            value={paymentType}
+                            onChange={(e) => setPaymentType(e.target.value as 'full' | 'downpayment')}
+                            style={{ padding: '6px 8px', border: '1px solid #d1d5db', borderRadius: 4, fontSize: 13 }}
+                          >
+                            <option value="full">Full payment</option>
+                            <option value="downpayment">Downpayment</option>
+                          </select>
+                          <input
+                            type="number"
+                            min="0"
+                            placeholder="Already paid (₱)"
+                            value={paidAmount}
+                            onChange={(e) => setPaidAmount(e.target.value)}
+                            style={{ width: 140, padding: '6px 8px', border: '1px solid #d1d5db', borderRadius: 4, fontSize: 13 }}
+                          />
+                          <input
+                            placeholder="Receipt / deposit ref."
+                            value={paymentReference}
+                            onChange={(e) => setPaymentReference(e.target.value)}
+                            style={{ width: 170, padding: '6px 8px', border: '1px solid #d1d5db', borderRadius: 4, fontSize: 13 }}
+                          />
+                          <button
+                            onClick={() => handleConvert(trans)}
+                            disabled={busy}
+                            style={{ padding: '8px 14px', background: busy ? '#9ca3af' : '#10b981', color: '#fff', border: 'none', borderRadius: 6, cursor: busy ? 'not-allowed' : 'pointer', fontSize: 13 }}
+                          >
+                            {busy ? 'Booking…' : 'Create Booking'}
+                          </button>
+                          <button
+                            onClick={() => setConvertingId(null)}
+                            style={{ padding: '8px 14px', background: '#6b7280', color: '#fff', border: 'none', borderRadius: 6, cursor: 'pointer', fontSize: 13 }}
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
+                  );
+                })}
               </tbody>
             </table>
           </div>
 
-          {transactions.length === 0 && (
+          {visibleTransactions.length === 0 && (
             <div style={{ textAlign: 'center', padding: '40px 20px', color: '#6b7280' }}>
               <p style={{ fontSize: 16, marginBottom: 8 }}>No transactions extracted yet</p>
-              <p style={{ fontSize: 14 }}>Conversations will be analyzed to extract transaction data automatically</p>
+              <p style={{ fontSize: 14 }}>Conversations that mention a tour, dates or party size appear here for review</p>
             </div>
           )}
         </div>
@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { Play, RefreshCw, History } from 'lucide-react';
+import {
+  fetchJobs,
+  fetchJobRuns,
+  triggerJob,
+  type JobRun,
+  type JobRunStatus,
+  type ScheduledJob,
+} from '../services/apiClient';
+import React from 'react';
+import { useToast } from '../components/Toast';
+
+const STATUS_STYLES: Record<JobRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+function formatDateTime(value?: string | null): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('en-PH', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return '';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// Handlers return flat counters, e.g. { deleted: 12 }; show them inline
+function formatResult(result?: Record<string, unknown>): string {
+  if (!result) return '';
+  return Object.entries(result)
+    .filter(([, value]) => typeof value !== 'object')
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(' · ');
+}
+
+function RunStatus({ run }: { run: JobRun }) {
+  return (
+    <div>
+      <span className={`px-2 py-1 rounded text-xs font-semibold ${STATUS_STYLES[run.status]}`}>
+        {run.status}
+      </span>
+      <span className="ml-2 text-xs text-gray-500">
+        {formatDateTime(run.startedAt)}
+        {run.durationMs !== undefined && ` · ${formatDuration(run.durationMs)}`}
+        {run.attempts > 1 && ` · ${run.attempts} attempts`}
+      </span>
+      {run.error && <div className="text-xs text-red-700 mt-1">{run.error}</div>}
+      {formatResult(run.result) && <div className="text-xs text-gray-600 mt-1">{formatResult(run.result)}</div>}
+    </div>
+  );
+}
+
+export default function ScheduledJobs() {
+  const { success, error: errorToast } = useToast();
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [triggering, setTriggering] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [history, setHistory] = useState<JobRun[]>([]);
+
+  const loadJobs = React.useCallback(async () => {
+    try {
+      setJobs(await fetchJobs());
+    } catch (error) {
+      console.error('Failed to load jobs:', error);
+      errorToast('Failed to load scheduled jobs');
+    } finally {
+      setLoading(false);
+    }
+  }, [errorToast]);
+
+  const loadHistory = React.useCallback(async (name: string) => {
+    try {
+      setHistory(await fetchJobRuns(name));
+    } catch (error) {
+      console.error('Failed to load job history:', error);
+      errorToast('Failed to load run history');
+    }
+  }, [errorToast]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const refresh = () => {
+    loadJobs();
+    if (historyFor) loadHistory(historyFor);
+  };
+
+  const handleToggleHistory = (name: string) => {
+    if (historyFor === name) {
+      setHistoryFor(null);
+      return;
+    }
+    setHistory([]);
+    setHistoryFor(name);
+    loadHistory(name);
+  };
+
+  const handleRun = async (job: ScheduledJob) => {
+    if (!confirm(`Run "${job.name}" now?`)) return;
+
+    try {
+      setTriggering(job.name);
+      await triggerJob(job.name);
+      success(`${job.name} started ⏱️`);
+      loadJobs();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to run job';
+      console.error('Trigger failed:', error);
+      errorToast(errorMessage);
+    } finally {
+      setTriggering(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading scheduled jobs...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Scheduled Jobs</h1>
+          <p className="text-gray-600 text-sm mt-1">
+            Background jobs run by the API on a schedule. Only one server runs each job at a time.
+          </p>
+        </div>
+        <button
+          onClick={refresh}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Job</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Schedule</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Next Run</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Last Run</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {jobs.map((job) => (
+              <React.Fragment key={job.name}>
+                <tr className="align-top hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <div className="text-sm font-medium text-gray-900">{job.name}</div>
+                    <div className="text-xs text-gray-500">{job.description}</div>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <code className="text-sm">{job.schedule}</code>
+                    <div className="text-xs text-gray-500">{job.timeZone} · up to {job.maxAttempts} attempts</div>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">{formatDateTime(job.nextRunAt)}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {job.lastRun ? <RunStatus run={job.lastRun} /> : <span className="text-gray-500">Never run</span>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => handleToggleHistory(job.name)}
+                      className="text-gray-600 hover:text-gray-900 mr-3"
+                      title="Run history"
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRun(job)}
+                      disabled={triggering === job.name || job.lastRun?.status === 'running'}
+                      className="inline-flex items-center gap-1 px-3 py-1 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <Play className="w-3 h-3" />
+                      Run now
+                    </button>
+                  </td>
+                </tr>
+                {historyFor === job.name && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-3 bg-gray-50">
+                      {history.length === 0 ? (
+                        <p className="text-sm text-gray-500">No runs recorded yet.</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {history.map((run) => (
+                            <li key={run._id} className="text-sm">
+                              <RunStatus run={run} />
+                              <div className="text-xs text-gray-500">
+                                {run.trigger === 'manual' ? `Manual run by ${run.triggeredBy || 'admin'}` : 'Scheduled'} on {run.instanceId}
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
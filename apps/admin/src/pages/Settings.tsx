@@ -29,8 +29,17 @@ import {
   ToggleLeft,
   ToggleRight,
   MessageSquare,
+  Inbox,
 } from 'lucide-react';
-import { getEmailSettings, updateEmailSettings, getAddonSettings, updateAddonSettings, AddonSettings, getMetaSettings, updateMetaSettings } from '../services/settingsService';
+import { getEmailSettings, updateEmailSettings, getAddonSettings, updateAddonSettings, AddonSettings, getMetaSettings, updateMetaSettings, getCancellationPolicy, updateCancellationPolicy } from '../services/settingsService';
+import type { CancellationPolicy } from '../types/booking';
+import {
+  ASSIGNMENT_STRATEGY_LABELS,
+  getAssignmentSettings,
+  updateAssignmentSettings,
+  type AssignmentSettings,
+  type AssignmentStrategy,
+} from '../services/assignmentService';
 
 interface SystemSettings {
   // General Settings
@@ -69,8 +78,6 @@ interface SystemSettings {
   
   // Business Settings
   bookingConfirmationTime: number;
-  cancellationPolicyHours: number;
-  refundProcessingDays: number;
   minimumBookingAdvance: number;
   maximumGroupSize: number;
   
@@ -131,8 +138,6 @@ const Settings: React.FC = () => {
     
     // Business Settings
     bookingConfirmationTime: 24,
-    cancellationPolicyHours: 48,
-    refundProcessingDays: 7,
     minimumBookingAdvance: 1,
     maximumGroupSize: 20,
     
@@ -176,6 +181,30 @@ const Settings: React.FC = () => {
   const [addonSaved, setAddonSaved] = useState(false);
   const [addonError, setAddonError] = useState<string | null>(null);
 
+  // Cancellation & refund policy state (stored in the API, not localStorage)
+  const [policy, setPolicy] = useState<CancellationPolicy>({
+    cancellationPolicyHours: 48,
+    refundProcessingDays: 7,
+    tiers: [
+      { minDaysBeforeDeparture: 60, refundPercent: 100 },
+      { minDaysBeforeDeparture: 30, refundPercent: 50 },
+      { minDaysBeforeDeparture: 15, refundPercent: 25 },
+    ],
+    nonRefundableAddOns: ['VISA_ASSISTANCE', 'TRAVEL_INSURANCE', 'PASSPORT_ASSISTANCE'],
+  });
+  const [policySaving, setPolicySaving] = useState(false);
+  const [policySaved, setPolicySaved] = useState(false);
+  const [policyError, setPolicyError] = useState<string | null>(null);
+
+  // How new bookings and visa applications are handed to staff (stored in the API)
+  const [assignment, setAssignment] = useState<AssignmentSettings>({
+    bookings: 'manual',
+    'visa-applications': 'manual',
+  });
+  const [assignmentSaving, setAssignmentSaving] = useState(false);
+  const [assignmentSaved, setAssignmentSaved] = useState(false);
+  const [assignmentError, setAssignmentError] = useState<string | null>(null);
+
   // Load settings from localStorage and API on component mount
   useEffect(() => {
     const savedSettings = localStorage.getItem('discovergroup-admin-settings');
@@ -238,6 +267,28 @@ const Settings: React.FC = () => {
       });
   }, []);
 
+  // Load cancellation policy from API
+  useEffect(() => {
+    getCancellationPolicy()
+      .then(data => {
+        setPolicy(data);
+      })
+      .catch(err => {
+        console.warn('Could not load cancellation policy:', err);
+      });
+  }, []);
+
+  // Load assignment strategies from API
+  useEffect(() => {
+    getAssignmentSettings()
+      .then(data => {
+        setAssignment(data);
+      })
+      .catch(err => {
+        console.warn('Could not load assignment settings:', err);
+      });
+  }, []);
+
   const tabs = [
     { id: 'general', name: 'General', icon: Globe },
     { id: 'security', name: 'Security', icon: Shield },
@@ -246,6 +297,8 @@ const Settings: React.FC = () => {
     { id: 'notifications', name: 'Notifications', icon: Bell },
     { id: 'business', name: 'Business', icon: FileText },
     { id: 'addons', name: 'Add-on Pricing', icon: Tag },
+    { id: 'refunds', name: 'Cancellations & Refunds', icon: DollarSign },
+    { id: 'assignment', name: 'Work Assignment', icon: Inbox },
     { id: 'meta', name: 'Meta / Facebook', icon: MessageSquare },
     { id: 'system', name: 'System', icon: Database },
     { id: 'appearance', name: 'Appearance', icon: Palette },
@@ -767,32 +820,6 @@ const Settings: React.FC = () => {
             <p className="text-xs text-gray-500 mt-1">Time to confirm booking before auto-cancellation</p>
           </div>
           
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Cancellation Policy (hours)
-            </label>
-            <input
-              type="number"
-              value={settings.cancellationPolicyHours}
-              onChange={(e) => updateSetting('cancellationPolicyHours', parseInt(e.target.value))}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            <p className="text-xs text-gray-500 mt-1">Minimum hours before tour start for cancellation</p>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Refund Processing (days)
-            </label>
-            <input
-              type="number"
-              value={settings.refundProcessingDays}
-              onChange={(e) => updateSetting('refundProcessingDays', parseInt(e.target.value))}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            <p className="text-xs text-gray-500 mt-1">Days to process refunds</p>
-          </div>
-          
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Minimum Booking Advance (days)
@@ -1385,6 +1412,8 @@ const Settings: React.FC = () => {
       case 'notifications': return renderNotificationSettings();
       case 'business': return renderBusinessSettings();
       case 'addons': return renderAddonSettings();
+      case 'refunds': return renderRefundSettings();
+      case 'assignment': return renderAssignmentSettings();
       case 'meta': return renderMetaSettings();
       case 'system': return renderSystemSettings();
       case 'appearance': return renderAppearanceSettings();
@@ -1407,6 +1436,236 @@ const Settings: React.FC = () => {
     }
   };
 
+  const handleSavePolicy = async () => {
+    setPolicySaving(true);
+    setPolicyError(null);
+    try {
+      const saved = await updateCancellationPolicy(policy);
+      setPolicy(saved);
+      setPolicySaved(true);
+      setTimeout(() => setPolicySaved(false), 3000);
+    } catch (err) {
+      setPolicyError(err instanceof Error ? err.message : 'Failed to save cancellation policy.');
+    } finally {
+      setPolicySaving(false);
+    }
+  };
+
+  const handleSaveAssignment = async () => {
+    setAssignmentSaving(true);
+    setAssignmentError(null);
+    try {
+      const saved = await updateAssignmentSettings(assignment);
+      setAssignment(saved);
+      setAssignmentSaved(true);
+      setTimeout(() => setAssignmentSaved(false), 3000);
+    } catch (err) {
+      setAssignmentError(err instanceof Error ? err.message : 'Failed to save assignment settings.');
+    } finally {
+      setAssignmentSaving(false);
+    }
+  };
+
+  const renderAssignmentSettings = () => (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Work Assignment</h2>
+        <p className="text-sm text-gray-500">
+          Choose how new bookings and visa applications are handed to staff. Automatic assignment only picks
+          department staff; administrators can still be assigned by hand.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {([
+          ['bookings', 'Bookings', 'Booking staff and customer service'],
+          ['visa-applications', 'Visa Applications', 'Visa department staff'],
+        ] as const).map(([queue, label, hint]) => (
+          <div key={queue}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+            <select
+              value={assignment[queue]}
+              onChange={e => setAssignment(a => ({ ...a, [queue]: e.target.value as AssignmentStrategy }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(ASSIGNMENT_STRATEGY_LABELS) as AssignmentStrategy[]).map(strategy => (
+                <option key={strategy} value={strategy}>{ASSIGNMENT_STRATEGY_LABELS[strategy]}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">{hint}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={handleSaveAssignment}
+          disabled={assignmentSaving}
+          className="flex items-center gap-2 px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {assignmentSaving ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          {assignmentSaving ? 'Saving…' : 'Save Assignment'}
+        </button>
+        {assignmentSaved && (
+          <div className="flex items-center gap-1 text-green-600 text-sm">
+            <CheckCircle className="h-4 w-4" />
+            Saved successfully
+          </div>
+        )}
+        {assignmentError && (
+          <div className="flex items-center gap-1 text-red-600 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            {assignmentError}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const updateTier = (index: number, key: 'minDaysBeforeDeparture' | 'refundPercent', value: number) => {
+    setPolicy(p => ({
+      ...p,
+      tiers: p.tiers.map((tier, i) => (i === index ? { ...tier, [key]: value } : tier)),
+    }));
+  };
+
+  const toggleNonRefundable = (code: string) => {
+    setPolicy(p => ({
+      ...p,
+      nonRefundableAddOns: p.nonRefundableAddOns.includes(code)
+        ? p.nonRefundableAddOns.filter(c => c !== code)
+        : [...p.nonRefundableAddOns, code],
+    }));
+  };
+
+  const renderRefundSettings = () => (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Cancellations &amp; Refunds</h2>
+        <p className="text-sm text-gray-500">
+          Customers see these terms before they request a cancellation. The refund is the tier's percentage of what
+          they paid, after keeping the non-refundable add-ons. Admins approve every refund.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Online Cancellation Cut-off (hours)
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={policy.cancellationPolicyHours}
+            onChange={e => setPolicy(p => ({ ...p, cancellationPolicyHours: Number(e.target.value) }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Customers cannot cancel online within this many hours of departure</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Refund Processing (days)
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={policy.refundProcessingDays}
+            onChange={e => setPolicy(p => ({ ...p, refundProcessingDays: Number(e.target.value) }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Days customers are told to expect the refund after approval</p>
+        </div>
+      </div>
+
+      <div className="border border-gray-200 rounded-xl p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-semibold text-gray-900">Refund Tiers</h3>
+          <button
+            onClick={() => setPolicy(p => ({ ...p, tiers: [...p.tiers, { minDaysBeforeDeparture: 0, refundPercent: 0 }] }))}
+            className="text-sm px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Add Tier
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          The first tier whose day count the cancellation meets applies. Cancellations closer to departure than every tier get no refund.
+        </p>
+        {policy.tiers.map((tier, index) => (
+          <div key={index} className="flex items-center gap-3 text-sm">
+            <span className="text-gray-600">Cancelled at least</span>
+            <input
+              type="number"
+              min={0}
+              value={tier.minDaysBeforeDeparture}
+              onChange={e => updateTier(index, 'minDaysBeforeDeparture', Number(e.target.value))}
+              className="w-20 border border-gray-300 rounded-lg px-2 py-1.5 focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-gray-600">days before departure refunds</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={tier.refundPercent}
+              onChange={e => updateTier(index, 'refundPercent', Number(e.target.value))}
+              className="w-20 border border-gray-300 rounded-lg px-2 py-1.5 focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-gray-600">%</span>
+            <button
+              onClick={() => setPolicy(p => ({ ...p, tiers: p.tiers.filter((_, i) => i !== index) }))}
+              className="ml-auto p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
+              title="Remove tier"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="border border-gray-200 rounded-xl p-5 space-y-3">
+        <h3 className="text-base font-semibold text-gray-900">Non-refundable Add-ons</h3>
+        {[
+          { code: 'VISA_ASSISTANCE', label: 'Visa assistance' },
+          { code: 'TRAVEL_INSURANCE', label: 'Travel insurance' },
+          { code: 'PASSPORT_ASSISTANCE', label: 'Passport assistance' },
+        ].map(addOn => (
+          <label key={addOn.code} className="flex items-center gap-2 text-sm text-gray-900">
+            <input
+              type="checkbox"
+              checked={policy.nonRefundableAddOns.includes(addOn.code)}
+              onChange={() => toggleNonRefundable(addOn.code)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            {addOn.label}
+          </label>
+        ))}
+      </div>
+
+      {/* Save Button */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={handleSavePolicy}
+          disabled={policySaving}
+          className="flex items-center gap-2 px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {policySaving ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          {policySaving ? 'Saving…' : 'Save Policy'}
+        </button>
+        {policySaved && (
+          <div className="flex items-center gap-1 text-green-600 text-sm">
+            <CheckCircle className="h-4 w-4" />
+            Saved successfully
+          </div>
+        )}
+        {policyError && (
+          <div className="flex items-center gap-1 text-red-600 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            {policyError}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
   const renderAddonSettings = () => (
     <div className="space-y-8">
       <div>
@@ -16,8 +16,10 @@ import {
   Archive,
   ArchiveRestore,
   Trash2,
-  AlertTriangle
+  AlertTriangle,
+  Shield
 } from 'lucide-react';
+import type { RoleDefinition } from '@discovergroup/types';
 import { 
   User as UserType, 
   RegisterData, 
@@ -27,9 +29,16 @@ import {
   GENDER_DISPLAY_NAMES 
 } from '../types/auth';
 import { authService } from '../services/authService';
+import { fetchRoles } from '../services/apiClient';
+import { useAuth } from '../contexts/AuthContext';
+import RolePermissionsEditor from '../components/RolePermissionsEditor';
 
 const UserManagement: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const canManageRoles = !!currentUser && authService.hasPermission('canManageRoles', currentUser);
   const [users, setUsers] = useState<UserType[]>([]);
+  const [roles, setRoles] = useState<RoleDefinition[]>([]);
+  const [showRoles, setShowRoles] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
@@ -75,6 +84,20 @@ const UserManagement: React.FC = () => {
       mounted = false;
     };
   }, [showArchived]);
+
+  useEffect(() => {
+    fetchRoles()
+      .then(setRoles)
+      .catch((err) => console.error('Failed to load roles:', err));
+  }, []);
+
+  // Built-in and custom roles; falls back to the built-in names until the list loads
+  const roleOptions: Array<[string, string]> = roles.length > 0
+    ? roles.map((role) => [role.key, role.name])
+    : Object.entries(ROLE_DISPLAY_NAMES);
+
+  const roleName = (role: string): string =>
+    roles.find((r) => r.key === role)?.name ?? ROLE_DISPLAY_NAMES[role as UserRole] ?? role;
   const handleEditUser = (user: UserType) => {
     setEditingUser(user);
     setIsEditModalOpen(true);
@@ -271,6 +294,19 @@ const UserManagement: React.FC = () => {
           <p className="text-gray-600">Manage system users and their access permissions</p>
         </div>
         <div className="flex items-center space-x-3">
+          {canManageRoles && (
+            <button
+              onClick={() => setShowRoles(!showRoles)}
+              className={`px-4 py-2 rounded-lg transition-colors flex items-center space-x-2 ${
+                showRoles
+                  ? 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <Shield className="w-4 h-4" />
+              <span>Roles &amp; Permissions</span>
+            </button>
+          )}
           <button
             onClick={() => setShowArchived(!showArchived)}
             className={`px-4 py-2 rounded-lg transition-colors flex items-center space-x-2 ${
@@ -292,6 +328,10 @@ const UserManagement: React.FC = () => {
         </div>
       </div>
 
+      {showRoles && canManageRoles && roles.length > 0 && (
+        <RolePermissionsEditor roles={roles} onRolesChange={setRoles} />
+      )}
+
       {/* Search */}
       <div className="mb-6">
         <div className="relative">
@@ -358,7 +398,7 @@ const UserManagement: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getRoleColor(user.role)}`}>
-                      {ROLE_DISPLAY_NAMES[user.role]}
+                      {roleName(user.role)}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -610,7 +650,7 @@ const UserManagement: React.FC = () => {
                     onChange={(e) => setCreateForm(prev => ({ ...prev, role: e.target.value as UserRole }))}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
-                    {Object.entries(ROLE_DISPLAY_NAMES).map(([value, label]) => (
+                    {roleOptions.map(([value, label]) => (
                       <option key={value} value={value}>{label}</option>
                     ))}
                   </select>
@@ -788,7 +828,7 @@ const UserManagement: React.FC = () => {
                     defaultValue={editingUser.role}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
-                    {Object.entries(ROLE_DISPLAY_NAMES).map(([value, label]) => (
+                    {roleOptions.map(([value, label]) => (
                       <option key={value} value={value}>{label}</option>
                     ))}
                   </select>
@@ -14,17 +14,49 @@ import {
   Plus,
   X,
   Save,
-  RefreshCw
+  RefreshCw,
+  Users,
+  ListChecks,
+  XCircle
 } from 'lucide-react';
 import { authFetch } from '../utils/tokenStorage';
 import { getAdminApiBaseUrl } from '../config/apiBase';
+import { assignItem, autoAssignQueue, fetchQueueAgents, type QueueAgent } from '../services/assignmentService';
+import { authService } from '../services/authService';
+import { useAuth } from '../contexts/AuthContext';
+import ActivityFeed from '../components/ActivityFeed';
 
 const API_BASE_URL = getAdminApiBaseUrl();
 
+type VisaStatus = 'pending' | 'under_review' | 'documents_requested' | 'approved' | 'rejected' | 'completed';
+
+// A document the application needs, built from the visa rules of its destinations
+interface ChecklistItem {
+  key: string;
+  label: string;
+  description?: string;
+  countries: string[];
+  status: 'missing' | 'uploaded' | 'accepted' | 'rejected';
+  fileUrl?: string;
+  uploadedAt?: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  rejectionReason?: string;
+}
+
+interface EmbassyAppointment {
+  date: string;
+  time?: string;
+  location?: string;
+  reference?: string;
+}
+
 interface VisaApplication {
   _id: string;
   applicationId: string;
-  status: 'pending' | 'under_review' | 'documents_requested' | 'approved' | 'rejected' | 'completed';
+  status: VisaStatus;
+  // Statuses the application can move to from here
+  allowedTransitions?: VisaStatus[];
   applicationDate: string;
   source: 'booking' | 'direct';
   completeName: string;
@@ -41,8 +73,13 @@ interface VisaApplication {
   bookingId?: string;
   tourTitle?: string;
   destinationCountries?: string;
+  nationality?: string;
+  checklist?: ChecklistItem[];
+  embassyAppointment?: EmbassyAppointment;
   notes?: string;
-  assignedTo?: string;
+  assignedTo?: string; // staff user id
+  assignedToName?: string;
+  assignedAt?: string;
   createdAt?: string;
 }
 
@@ -55,12 +92,28 @@ const statusConfig = {
   completed: { color: 'bg-gray-100 text-gray-800', label: 'Completed' }
 };
 
+const checklistStatusConfig: Record<ChecklistItem['status'], { color: string; label: string }> = {
+  missing: { color: 'bg-gray-100 text-gray-700', label: 'Missing' },
+  uploaded: { color: 'bg-blue-100 text-blue-800', label: 'To Review' },
+  accepted: { color: 'bg-green-100 text-green-800', label: 'Accepted' },
+  rejected: { color: 'bg-red-100 text-red-800', label: 'Rejected' },
+};
+
+const emptyAppointment = { date: '', time: '', location: '', reference: '' };
+
 export default function VisaAssistanceManagement() {
   const [applications, setApplications] = useState<VisaApplication[]>([]);
   const [filteredApplications, setFilteredApplications] = useState<VisaApplication[]>([]);
   const [selectedApplication, setSelectedApplication] = useState<VisaApplication | null>(null);
   const [showDetails, setShowDetails] = useState(false);
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  // '' (everyone), 'me', 'unassigned' or a staff user id; filtered by the API
+  const [filterAssignee, setFilterAssignee] = useState('');
+  const [agents, setAgents] = useState<QueueAgent[]>([]);
+  const { user } = useAuth();
+  const canAssign = !!user && authService.hasPermission('canUpdateVisaStatus', user);
+  const canReview = !!user && authService.hasPermission('canProcessVisaApplications', user);
+  const [appointmentForm, setAppointmentForm] = useState(emptyAppointment);
   const [searchTerm, setSearchTerm] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
@@ -87,7 +140,8 @@ export default function VisaAssistanceManagement() {
     setIsLoading(true);
     setError('');
     try {
-      const res = await authFetch(`${API_BASE_URL}/admin/visa-applications`);
+      const query = filterAssignee ? `?assignedTo=${encodeURIComponent(filterAssignee)}` : '';
+      const res = await authFetch(`${API_BASE_URL}/admin/visa-applications${query}`);
       if (!res.ok) throw new Error('Failed to fetch visa applications');
       const data = await res.json();
       setApplications(data.applications || []);
@@ -97,12 +151,48 @@ export default function VisaAssistanceManagement() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [filterAssignee]);
 
   useEffect(() => {
     fetchApplications();
   }, [fetchApplications]);
 
+  // Agents and their open counts, for the assignee pickers
+  const fetchAgents = useCallback(async () => {
+    if (!canAssign) return;
+    try {
+      setAgents(await fetchQueueAgents('visa-applications'));
+    } catch (err) {
+      console.error('Failed to load visa agents:', err);
+    }
+  }, [canAssign]);
+
+  useEffect(() => {
+    fetchAgents();
+  }, [fetchAgents]);
+
+  const handleAssign = async (id: string, assigneeId: string) => {
+    try {
+      await assignItem('visa-applications', id, assigneeId || null);
+      fetchApplications();
+      fetchAgents();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to assign application. Please try again.');
+    }
+  };
+
+  const handleAutoAssign = async () => {
+    if (!confirm('Share out every unassigned open application between the visa team?')) return;
+    try {
+      const { assigned, remaining } = await autoAssignQueue('visa-applications');
+      alert(`${assigned} application${assigned === 1 ? '' : 's'} assigned${remaining > 0 ? `, ${remaining} still unassigned` : ''}.`);
+      fetchApplications();
+      fetchAgents();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to assign applications. Please try again.');
+    }
+  };
+
   useEffect(() => {
     let filtered = applications;
     if (filterStatus !== 'all') {
@@ -121,19 +211,75 @@ export default function VisaAssistanceManagement() {
     setFilteredApplications(filtered);
   }, [applications, filterStatus, searchTerm]);
 
+  // Put a changed application back into the list and the open details modal
+  const applyUpdate = (updated: VisaApplication) => {
+    setApplications(prev => prev.map(app => app._id === updated._id ? updated : app));
+    setSelectedApplication(prev => prev && prev._id === updated._id ? updated : prev);
+  };
+
+  // Sends the applicant an email; the optional message goes in it
   const updateApplicationStatus = async (id: string, newStatus: VisaApplication['status']) => {
+    const note = prompt(`Change the status to "${statusConfig[newStatus].label}" and email the applicant.\n\nMessage to include (optional):`, '');
+    if (note === null) return;
     try {
       const res = await authFetch(`${API_BASE_URL}/admin/visa-applications/${id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, note: note.trim() || undefined }),
       });
-      if (!res.ok) throw new Error('Failed to update status');
-      setApplications(prev =>
-        prev.map(app => app._id === id ? { ...app, status: newStatus } : app)
-      );
-    } catch {
-      alert('Failed to update status. Please try again.');
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to update status');
+      applyUpdate(data.application);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update status. Please try again.');
+    }
+  };
+
+  const reviewDocument = async (id: string, item: ChecklistItem, decision: 'accepted' | 'rejected') => {
+    let reason: string | null = null;
+    if (decision === 'rejected') {
+      reason = prompt(`Why is the ${item.label} rejected? The applicant will see this.`, '');
+      if (!reason?.trim()) return;
+    }
+    try {
+      const res = await authFetch(`${API_BASE_URL}/admin/visa-applications/${id}/checklist/${encodeURIComponent(item.key)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, reason }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to review document');
+      applyUpdate(data.application);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to review document. Please try again.');
+    }
+  };
+
+  const refreshChecklist = async (id: string) => {
+    try {
+      const res = await authFetch(`${API_BASE_URL}/admin/visa-applications/${id}/checklist/refresh`, { method: 'POST' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to refresh checklist');
+      applyUpdate(data.application);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to refresh checklist. Please try again.');
+    }
+  };
+
+  // A new or moved appointment is emailed to the applicant; an empty date clears it
+  const saveAppointment = async (id: string) => {
+    const appointment = appointmentForm.date ? appointmentForm : null;
+    try {
+      const res = await authFetch(`${API_BASE_URL}/admin/visa-applications/${id}/appointment`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ appointment }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to save appointment');
+      applyUpdate(data.application);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save appointment. Please try again.');
     }
   };
 
@@ -165,6 +311,13 @@ export default function VisaAssistanceManagement() {
 
   const handleViewDetails = (application: VisaApplication) => {
     setSelectedApplication(application);
+    const appointment = application.embassyAppointment;
+    setAppointmentForm(appointment ? {
+      date: appointment.date.slice(0, 10),
+      time: appointment.time || '',
+      location: appointment.location || '',
+      reference: appointment.reference || '',
+    } : emptyAppointment);
     setShowDetails(true);
   };
 
@@ -197,6 +350,15 @@ export default function VisaAssistanceManagement() {
               <RefreshCw size={16} />
               Refresh
             </button>
+            {canAssign && (
+              <button
+                onClick={handleAutoAssign}
+                className="px-4 py-2 border border-indigo-300 bg-indigo-50 rounded-lg text-indigo-700 hover:bg-indigo-100 transition-colors flex items-center gap-2"
+              >
+                <Users size={16} />
+                Assign Unassigned
+              </button>
+            )}
             <button
               onClick={() => setIsNewApplicationModalOpen(true)}
               className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center gap-2"
@@ -283,6 +445,21 @@ export default function VisaAssistanceManagement() {
               <option value="completed">Completed</option>
             </select>
           </div>
+          <div className="flex items-center gap-2">
+            <Users size={20} className="text-gray-400" />
+            <select
+              value={filterAssignee}
+              onChange={(e) => setFilterAssignee(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All Applications</option>
+              <option value="me">My Queue</option>
+              <option value="unassigned">Unassigned</option>
+              {agents.map((agent) => (
+                <option key={agent.id} value={agent.id}>{agent.fullName}</option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
 
@@ -312,6 +489,7 @@ export default function VisaAssistanceManagement() {
                   <th className="text-left py-4 px-6 font-semibold text-gray-900">Destination</th>
                   <th className="text-left py-4 px-6 font-semibold text-gray-900">Source</th>
                   <th className="text-left py-4 px-6 font-semibold text-gray-900">Status</th>
+                  <th className="text-left py-4 px-6 font-semibold text-gray-900">Assigned To</th>
                   <th className="text-left py-4 px-6 font-semibold text-gray-900">Actions</th>
                 </tr>
               </thead>
@@ -361,6 +539,25 @@ export default function VisaAssistanceManagement() {
                         </span>
                       </div>
                     </td>
+                    <td className="py-4 px-6">
+                      {canAssign ? (
+                        <select
+                          value={application.assignedTo || ''}
+                          onChange={(e) => handleAssign(application._id, e.target.value)}
+                          className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="">Unassigned</option>
+                          {application.assignedTo && !agents.some(agent => agent.id === application.assignedTo) && (
+                            <option value={application.assignedTo}>{application.assignedToName || 'Former staff'}</option>
+                          )}
+                          {agents.map((agent) => (
+                            <option key={agent.id} value={agent.id}>{agent.fullName} ({agent.open})</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-sm text-gray-700">{application.assignedToName || 'Unassigned'}</span>
+                      )}
+                    </td>
                     <td className="py-4 px-6">
                       <div className="flex items-center gap-2">
                         <button
@@ -370,18 +567,11 @@ export default function VisaAssistanceManagement() {
                         >
                           <Eye size={16} />
                         </button>
-                        <select
-                          value={application.status}
-                          onChange={(e) => updateApplicationStatus(application._id, e.target.value as VisaApplication['status'])}
+                        <StatusSelect
+                          application={application}
+                          onChange={(status) => updateApplicationStatus(application._id, status)}
                           className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        >
-                          <option value="pending">Pending</option>
-                          <option value="under_review">Under Review</option>
-                          <option value="documents_requested">Documents Requested</option>
-                          <option value="approved">Approved</option>
-                          <option value="rejected">Rejected</option>
-                          <option value="completed">Completed</option>
-                        </select>
+                        />
                       </div>
                     </td>
                   </tr>
@@ -479,12 +669,128 @@ export default function VisaAssistanceManagement() {
                 </div>
               )}
 
-              {/* Notes */}
+              {/* Document Checklist */}
+              <div>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <ListChecks size={18} /> Document Checklist
+                  </h3>
+                  {canReview && (
+                    <button
+                      onClick={() => refreshChecklist(selectedApplication._id)}
+                      className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                      title="Rebuild from the current visa rules; uploads and reviews are kept"
+                    >
+                      <RefreshCw size={14} /> Refresh from visa rules
+                    </button>
+                  )}
+                </div>
+                {(selectedApplication.checklist ?? []).length === 0 ? (
+                  <p className="text-sm text-gray-500">No documents listed. Check the destination countries, then refresh.</p>
+                ) : (
+                  <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {selectedApplication.checklist!.map(item => (
+                      <div key={item.key} className="p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {item.label}
+                            <span className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${checklistStatusConfig[item.status].color}`}>
+                              {checklistStatusConfig[item.status].label}
+                            </span>
+                          </p>
+                          {item.description && <p className="text-xs text-gray-500">{item.description}</p>}
+                          {item.countries.length > 0 && <p className="text-xs text-gray-500">For {item.countries.join(', ')}</p>}
+                          {item.status === 'rejected' && item.rejectionReason && (
+                            <p className="text-xs text-red-600">Rejected: {item.rejectionReason}</p>
+                          )}
+                          {item.reviewedBy && (
+                            <p className="text-xs text-gray-400">Reviewed by {item.reviewedBy}{item.reviewedAt && ` on ${new Date(item.reviewedAt).toLocaleDateString()}`}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {item.fileUrl && (
+                            <a href={item.fileUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:underline">
+                              View file
+                            </a>
+                          )}
+                          {canReview && item.fileUrl && item.status !== 'accepted' && (
+                            <button
+                              onClick={() => reviewDocument(selectedApplication._id, item, 'accepted')}
+                              className="p-1.5 text-green-600 hover:bg-green-50 rounded"
+                              title="Accept"
+                            >
+                              <CheckCircle size={16} />
+                            </button>
+                          )}
+                          {canReview && item.fileUrl && item.status !== 'rejected' && (
+                            <button
+                              onClick={() => reviewDocument(selectedApplication._id, item, 'rejected')}
+                              className="p-1.5 text-red-600 hover:bg-red-50 rounded"
+                              title="Reject"
+                            >
+                              <XCircle size={16} />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Embassy Appointment */}
               <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">Notes</h3>
-                <div className="bg-gray-50 rounded-lg p-4">
-                  <p className="text-gray-700 whitespace-pre-wrap">{selectedApplication.notes || 'No notes yet.'}</p>
+                <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <Calendar size={18} /> Embassy Appointment
+                </h3>
+                {canAssign ? (
+                  <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                    <FormField label="Date">
+                      <input type="date" value={appointmentForm.date} onChange={e => setAppointmentForm(p => ({ ...p, date: e.target.value }))} className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm" />
+                    </FormField>
+                    <FormField label="Time">
+                      <input type="time" value={appointmentForm.time} onChange={e => setAppointmentForm(p => ({ ...p, time: e.target.value }))} className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm" />
+                    </FormField>
+                    <FormField label="Location">
+                      <input type="text" value={appointmentForm.location} onChange={e => setAppointmentForm(p => ({ ...p, location: e.target.value }))} placeholder="e.g. VFS Global, Makati" className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm" />
+                    </FormField>
+                    <FormField label="Reference">
+                      <input type="text" value={appointmentForm.reference} onChange={e => setAppointmentForm(p => ({ ...p, reference: e.target.value }))} className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm" />
+                    </FormField>
+                    <button
+                      onClick={() => saveAppointment(selectedApplication._id)}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center justify-center gap-2"
+                      title="The applicant is emailed when the appointment is new or moved"
+                    >
+                      <Save size={14} /> {appointmentForm.date ? 'Save' : 'Clear'}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <DetailRow
+                      label="Date"
+                      value={selectedApplication.embassyAppointment && `${new Date(selectedApplication.embassyAppointment.date).toLocaleDateString()} ${selectedApplication.embassyAppointment.time || ''}`}
+                    />
+                    <DetailRow label="Location" value={selectedApplication.embassyAppointment?.location} />
+                    <DetailRow label="Reference" value={selectedApplication.embassyAppointment?.reference} />
+                  </div>
+                )}
+              </div>
+
+              {/* Notes sent in with the application */}
+              {selectedApplication.notes && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">Application Notes</h3>
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <p className="text-gray-700 whitespace-pre-wrap">{selectedApplication.notes}</p>
+                  </div>
                 </div>
+              )}
+
+              {/* Notes & Messages */}
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Notes &amp; Messages</h3>
+                <ActivityFeed subject="visa-applications" id={selectedApplication._id} canMessage={canAssign} />
               </div>
             </div>
 
@@ -495,22 +801,11 @@ export default function VisaAssistanceManagement() {
               >
                 Close
               </button>
-              <select
-                value={selectedApplication.status}
-                onChange={(e) => {
-                  const newStatus = e.target.value as VisaApplication['status'];
-                  updateApplicationStatus(selectedApplication._id, newStatus);
-                  setSelectedApplication(prev => prev ? { ...prev, status: newStatus } : prev);
-                }}
+              <StatusSelect
+                application={selectedApplication}
+                onChange={(status) => updateApplicationStatus(selectedApplication._id, status)}
                 className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="pending">Pending</option>
-                <option value="under_review">Under Review</option>
-                <option value="documents_requested">Documents Requested</option>
-                <option value="approved">Approved</option>
-                <option value="rejected">Rejected</option>
-                <option value="completed">Completed</option>
-              </select>
+              />
             </div>
           </div>
         </div>
@@ -620,6 +915,29 @@ export default function VisaAssistanceManagement() {
 }
 
 // ── Small helpers ──────────────────────────────────────────────────────────────
+// Only the current status and the ones it can move to are offered
+function StatusSelect({ application, onChange, className }: {
+  application: VisaApplication;
+  onChange: (status: VisaStatus) => void;
+  className: string;
+}) {
+  const allowed = application.allowedTransitions ?? [];
+  return (
+    <select
+      value={application.status}
+      onChange={(e) => onChange(e.target.value as VisaStatus)}
+      disabled={allowed.length === 0}
+      className={className}
+    >
+      {(Object.keys(statusConfig) as VisaStatus[]).map(status => (
+        <option key={status} value={status} disabled={status !== application.status && !allowed.includes(status)}>
+          {statusConfig[status].label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
 function DetailRow({ label, value }: { label: string; value?: string }) {
   return (
     <div>
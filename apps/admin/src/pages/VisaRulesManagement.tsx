@@ -0,0 +1,487 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, Trash2, Save, X } from 'lucide-react';
+import {
+  fetchVisaRules,
+  createVisaRule,
+  updateVisaRule,
+  deleteVisaRule,
+  type VisaRule,
+  type VisaRulePayload,
+  type VisaRequirement,
+} from '../services/apiClient';
+import React from 'react';
+import { useToast } from '../components/Toast';
+
+const REQUIREMENT_LABELS: Record<VisaRequirement, string> = {
+  required: 'Visa required',
+  evisa: 'eVisa',
+  not_required: 'Visa-free',
+};
+
+const REQUIREMENT_STYLES: Record<VisaRequirement, string> = {
+  required: 'bg-red-100 text-red-800',
+  evisa: 'bg-amber-100 text-amber-800',
+  not_required: 'bg-green-100 text-green-800',
+};
+
+const EMPTY_FORM: VisaRulePayload = {
+  nationality: 'philippines',
+  destination: '',
+  visaRequirement: 'required',
+  passportValidityMonths: 6,
+  visaLeadDays: 21,
+  transitVisaRequired: false,
+  requiredDocuments: [],
+  validFrom: '',
+  validUntil: '',
+  sourceNote: '',
+  sourceUrl: '',
+};
+
+// Rules are stored lowercased; show them the way they are written
+function displayCountry(value: string): string {
+  return value.replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function toDateInput(value?: string | null): string {
+  return value ? value.slice(0, 10) : '';
+}
+
+function formatDay(value?: string | null): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleDateString('en-PH', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function reevaluatedMessage(count: number): string {
+  return `${count} upcoming booking${count !== 1 ? 's' : ''} re-evaluated`;
+}
+
+export default function VisaRulesManagement() {
+  const { success, error: errorToast } = useToast();
+  const [rules, setRules] = useState<VisaRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [nationalityFilter, setNationalityFilter] = useState('');
+  const [editingRule, setEditingRule] = useState<VisaRule | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<VisaRulePayload>(EMPTY_FORM);
+
+  const loadRules = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      setRules(await fetchVisaRules());
+    } catch (error) {
+      console.error('Failed to load visa rules:', error);
+      errorToast('Failed to load visa rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [errorToast]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleEdit = (rule: VisaRule) => {
+    setEditingRule(rule);
+    setFormData({
+      nationality: rule.nationality,
+      destination: rule.destination,
+      visaRequirement: rule.visaRequirement,
+      passportValidityMonths: rule.passportValidityMonths,
+      visaLeadDays: rule.visaLeadDays,
+      transitVisaRequired: rule.transitVisaRequired,
+      requiredDocuments: rule.requiredDocuments ?? [],
+      validFrom: toDateInput(rule.validFrom),
+      validUntil: toDateInput(rule.validUntil),
+      sourceNote: rule.sourceNote || '',
+      sourceUrl: rule.sourceUrl || '',
+    });
+    setIsCreating(false);
+  };
+
+  const handleCreate = () => {
+    setEditingRule(null);
+    setFormData({ ...EMPTY_FORM, nationality: nationalityFilter || EMPTY_FORM.nationality });
+    setIsCreating(true);
+  };
+
+  const handleCancel = () => {
+    setEditingRule(null);
+    setIsCreating(false);
+    setFormData(EMPTY_FORM);
+  };
+
+  const documents = formData.requiredDocuments ?? [];
+  const updateDocument = (index: number, field: 'label' | 'description', value: string) => {
+    setFormData({
+      ...formData,
+      requiredDocuments: documents.map((doc, i) => (i === index ? { ...doc, [field]: value } : doc)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!formData.nationality.trim() || !formData.destination.trim()) {
+      errorToast('Nationality and destination are required');
+      return;
+    }
+
+    const payload: VisaRulePayload = {
+      ...formData,
+      validFrom: formData.validFrom || null,
+      validUntil: formData.validUntil || null,
+      requiredDocuments: (formData.requiredDocuments ?? []).filter((doc) => doc.label.trim()),
+    };
+
+    try {
+      setSaving(true);
+      if (editingRule) {
+        const result = await updateVisaRule(editingRule._id, payload);
+        success(`Visa rule updated — ${reevaluatedMessage(result.reevaluated)} ✅`);
+      } else {
+        const result = await createVisaRule(payload);
+        success(`Visa rule created — ${reevaluatedMessage(result.reevaluated)} ✅`);
+      }
+      handleCancel();
+      loadRules();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save visa rule';
+      console.error('Save failed:', error);
+      errorToast(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: VisaRule) => {
+    if (!confirm(`Delete the ${displayCountry(rule.nationality)} → ${displayCountry(rule.destination)} rule? Bookings will fall back to the default rule.`)) return;
+
+    try {
+      const result = await deleteVisaRule(rule._id);
+      success(`Visa rule deleted — ${reevaluatedMessage(result.reevaluated)} 🗑️`);
+      loadRules();
+    } catch (error) {
+      console.error('Delete failed:', error);
+      errorToast('Failed to delete visa rule');
+    }
+  };
+
+  const nationalities = Array.from(new Set(rules.map((rule) => rule.nationality))).sort();
+  const visibleRules = nationalityFilter
+    ? rules.filter((rule) => rule.nationality === nationalityFilter)
+    : rules;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading visa rules...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Visa Rules</h1>
+          <p className="text-gray-600 text-sm mt-1">
+            Entry requirements per passport nationality and destination, used to score booking visa readiness.
+          </p>
+        </div>
+        <button
+          onClick={handleCreate}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus size={20} />
+          Add Rule
+        </button>
+      </div>
+
+      {(isCreating || editingRule) && (
+        <div className="mb-8 bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-bold mb-4">
+            {editingRule ? 'Edit Visa Rule' : 'Create New Visa Rule'}
+          </h2>
+
+          <div className="space-y-4 mb-6">
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Passport Nationality *</label>
+                <input
+                  type="text"
+                  value={formData.nationality}
+                  onChange={(e) => setFormData({ ...formData, nationality: e.target.value })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                  placeholder="e.g., Philippines"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Destination *</label>
+                <input
+                  type="text"
+                  value={formData.destination}
+                  onChange={(e) => setFormData({ ...formData, destination: e.target.value })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                  placeholder="e.g., Japan"
+                />
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Requirement *</label>
+                <select
+                  value={formData.visaRequirement}
+                  onChange={(e) => setFormData({ ...formData, visaRequirement: e.target.value as VisaRequirement })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                >
+                  {(Object.keys(REQUIREMENT_LABELS) as VisaRequirement[]).map((value) => (
+                    <option key={value} value={value}>{REQUIREMENT_LABELS[value]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Passport Validity (months)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={formData.passportValidityMonths}
+                  onChange={(e) => setFormData({ ...formData, passportValidityMonths: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+                <p className="text-xs text-gray-500 mt-1">Required after the departure date</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Visa Lead Time (days)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={formData.visaLeadDays}
+                  onChange={(e) => setFormData({ ...formData, visaLeadDays: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+                <p className="text-xs text-gray-500 mt-1">Recommended processing time before departure</p>
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={formData.transitVisaRequired}
+                onChange={(e) => setFormData({ ...formData, transitVisaRequired: e.target.checked })}
+                className="w-4 h-4"
+              />
+              <span className="text-sm">Transit visa required when only stopping over in this destination</span>
+            </label>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Valid From</label>
+                <input
+                  type="date"
+                  value={formData.validFrom || ''}
+                  onChange={(e) => setFormData({ ...formData, validFrom: e.target.value })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Valid Until</label>
+                <input
+                  type="date"
+                  value={formData.validUntil || ''}
+                  onChange={(e) => setFormData({ ...formData, validUntil: e.target.value })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Leave the dates empty for a rule with no end. A dated rule overrides the open-ended one for departures in its window.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Required Documents</label>
+              <p className="text-xs text-gray-500 mb-2">
+                The checklist visa applicants upload from My Trips. Leave empty to use the standard list for the visa requirement.
+              </p>
+              <div className="space-y-2">
+                {documents.map((doc, index) => (
+                  <div key={doc.key ?? index} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={doc.label}
+                      onChange={(e) => updateDocument(index, 'label', e.target.value)}
+                      className="w-1/3 px-3 py-2 border rounded-lg"
+                      placeholder="e.g. Bank statement"
+                    />
+                    <input
+                      type="text"
+                      value={doc.description || ''}
+                      onChange={(e) => updateDocument(index, 'description', e.target.value)}
+                      className="flex-1 px-3 py-2 border rounded-lg"
+                      placeholder="What the applicant should send (optional)"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, requiredDocuments: documents.filter((_, i) => i !== index) })}
+                      className="px-2 text-red-600 hover:bg-red-50 rounded"
+                      title="Remove document"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, requiredDocuments: [...documents, { label: '', description: '' }] })}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <Plus size={16} /> Add document
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Source Notes</label>
+              <textarea
+                value={formData.sourceNote}
+                onChange={(e) => setFormData({ ...formData, sourceNote: e.target.value })}
+                className="w-full px-3 py-2 border rounded-lg"
+                rows={2}
+                placeholder="Where this rule comes from, e.g. embassy advisory of 1 March 2026"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Source URL</label>
+              <input
+                type="url"
+                value={formData.sourceUrl}
+                onChange={(e) => setFormData({ ...formData, sourceUrl: e.target.value })}
+                className="w-full px-3 py-2 border rounded-lg"
+                placeholder="https://"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save size={20} />
+              {saving ? 'Saving...' : 'Save Rule'}
+            </button>
+            <button
+              onClick={handleCancel}
+              disabled={saving}
+              className="flex items-center gap-2 px-6 py-2 bg-gray-300 text-gray-800 rounded-lg hover:bg-gray-400"
+            >
+              <X size={20} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Filter */}
+      <div className="mb-4 flex items-center gap-3">
+        <label className="text-sm font-medium">Nationality</label>
+        <select
+          value={nationalityFilter}
+          onChange={(e) => setNationalityFilter(e.target.value)}
+          className="px-3 py-2 border rounded-lg"
+        >
+          <option value="">All nationalities</option>
+          {nationalities.map((nationality) => (
+            <option key={nationality} value={nationality}>{displayCountry(nationality)}</option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500">{visibleRules.length} rule{visibleRules.length !== 1 ? 's' : ''}</span>
+      </div>
+
+      {/* Rules List */}
+      {visibleRules.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Nationality → Destination</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Requirement</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Passport / Lead Time</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Valid</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Source</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleRules.map((rule) => (
+                <tr key={rule._id} className="align-top hover:bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {displayCountry(rule.nationality)} → {displayCountry(rule.destination)}
+                    </div>
+                    {rule.updatedBy && <div className="text-xs text-gray-500">Updated by {rule.updatedBy}</div>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${REQUIREMENT_STYLES[rule.visaRequirement]}`}>
+                      {REQUIREMENT_LABELS[rule.visaRequirement]}
+                    </span>
+                    <div className="text-xs text-gray-500 mt-1">
+                      Transit: {rule.transitVisaRequired ? 'visa required' : 'visa-free'}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                    <div>{rule.passportValidityMonths} months validity</div>
+                    <div className="text-xs text-gray-500">{rule.visaLeadDays} days lead time</div>
+                    {(rule.requiredDocuments?.length ?? 0) > 0 && (
+                      <div className="text-xs text-gray-500" title={rule.requiredDocuments!.map((doc) => doc.label).join('\n')}>
+                        {rule.requiredDocuments!.length} required document{rule.requiredDocuments!.length !== 1 ? 's' : ''}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                    {rule.validFrom || rule.validUntil
+                      ? `${formatDay(rule.validFrom)} – ${formatDay(rule.validUntil)}`
+                      : 'Always'}
+                  </td>
+                  <td className="px-4 py-3 max-w-xs text-xs text-gray-600">
+                    {rule.sourceNote && <div className="whitespace-pre-wrap">{rule.sourceNote}</div>}
+                    {rule.sourceUrl && (
+                      <a href={rule.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                        {rule.sourceUrl}
+                      </a>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleEdit(rule)}
+                        className="flex items-center gap-1 px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                      >
+                        <Edit2 size={14} />
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="flex items-center gap-1 px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
+                      >
+                        <Trash2 size={14} />
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {visibleRules.length === 0 && !isCreating && (
+        <div className="text-center py-12 text-gray-500">
+          No visa rules found. Click "Add Rule" to create one; destinations without a rule are treated as visa required.
+        </div>
+      )}
+    </div>
+  );
+}
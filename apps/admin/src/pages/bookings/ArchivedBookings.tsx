@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import type { Booking, BookingFilters, BookingStatus } from '../../types/booking';
+import { BOOKING_STATUS_LABELS } from '../../types/booking';
 import {
   fetchArchivedBookings,
   restoreBooking,
@@ -27,6 +28,9 @@ function getStatusColor(status: BookingStatus): string {
     case 'pending':   return 'bg-yellow-100 text-yellow-800 border-yellow-200';
     case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
     case 'completed': return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'awaiting_payment': return 'bg-orange-100 text-orange-800 border-orange-200';
+    case 'partially_paid':   return 'bg-teal-100 text-teal-800 border-teal-200';
+    case 'refunded':  return 'bg-purple-100 text-purple-800 border-purple-200';
     default:          return 'bg-gray-100 text-gray-800 border-gray-200';
   }
 }
@@ -192,10 +196,9 @@ export default function ArchivedBookings() {
             className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
           >
             <option value="all">All Statuses</option>
-            <option value="confirmed">Confirmed</option>
-            <option value="pending">Pending</option>
-            <option value="completed">Completed</option>
-            <option value="cancelled">Cancelled</option>
+            {(Object.keys(BOOKING_STATUS_LABELS) as BookingStatus[]).map(status => (
+              <option key={status} value={status}>{BOOKING_STATUS_LABELS[status]}</option>
+            ))}
           </select>
         </div>
       </div>
@@ -321,7 +324,7 @@ export default function ArchivedBookings() {
                     {/* Status */}
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(booking.status)}`}>
-                        {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+                        {BOOKING_STATUS_LABELS[booking.status] ?? booking.status}
                       </span>
                     </td>
 
@@ -0,0 +1,342 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { BuilderSession, BuilderSessionStatus, PaymentType } from '../../types/booking';
+import { convertBuilderSession, fetchBuilderSessions } from '../../services/bookingRepo';
+
+// ── Utilities ─────────────────────────────────────────────────────────────────
+function formatDay(dateString?: string): string {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleDateString('en-PH', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function formatCurrency(amount?: number): string {
+  if (typeof amount !== 'number') return '—';
+  return `PHP ${amount.toLocaleString('en-PH', { maximumFractionDigits: 0 })}`;
+}
+
+// Consecutive days in the same city and tour shown as one line, e.g. "Days 3–5"
+function groupDays(session: BuilderSession) {
+  const groups: Array<{ from: number; to: number; city?: string; country?: string; tourTitle: string; custom: boolean }> = [];
+  for (const day of session.days) {
+    const last = groups[groups.length - 1];
+    if (last && last.city === day.city && last.tourTitle === day.tourTitle) {
+      last.to = day.day;
+    } else {
+      groups.push({ from: day.day, to: day.day, city: day.city, country: day.country, tourTitle: day.tourTitle, custom: day.custom });
+    }
+  }
+  return groups;
+}
+
+// ── Convert dialog ────────────────────────────────────────────────────────────
+interface ConvertDialogProps {
+  session: BuilderSession;
+  onClose: () => void;
+  onConverted: (bookingId: string) => void;
+}
+
+function ConvertDialog({ session, onClose, onConverted }: ConvertDialogProps) {
+  const [customerName, setCustomerName] = useState(session.customerName ?? '');
+  const [customerEmail, setCustomerEmail] = useState(session.customerEmail ?? '');
+  const [customerPhone, setCustomerPhone] = useState(session.customerPhone ?? '');
+  const [paymentType, setPaymentType] = useState<PaymentType>('full');
+  const [notes, setNotes] = useState('');
+  const [paidAmount, setPaidAmount] = useState('');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConvert = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const { booking } = await convertBuilderSession(session._id, {
+        customerName,
+        customerEmail,
+        customerPhone: customerPhone || undefined,
+        paymentType,
+        notes: notes || undefined,
+        paidAmount: paidAmount ? Number(paidAmount) : undefined,
+        paymentReference: paymentReference.trim() || undefined,
+      });
+      onConverted(booking.bookingId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create booking.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+        <div className="px-6 py-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">Convert to Booking</h2>
+          <p className="text-sm text-gray-500">
+            {session.baseTourTitle} · {formatDay(session.selectedDate)} · {session.passengers} pax
+          </p>
+        </div>
+        <div className="px-6 py-4 space-y-4">
+          {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>}
+          <label className="block text-sm text-gray-700">
+            Customer name
+            <input value={customerName} onChange={(e) => setCustomerName(e.target.value)} className="mt-1 w-full px-3 py-2 border rounded-lg" />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Customer email
+            <input type="email" value={customerEmail} onChange={(e) => setCustomerEmail(e.target.value)} className="mt-1 w-full px-3 py-2 border rounded-lg" />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Phone
+            <input value={customerPhone} onChange={(e) => setCustomerPhone(e.target.value)} className="mt-1 w-full px-3 py-2 border rounded-lg" />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Payment
+            <select value={paymentType} onChange={(e) => setPaymentType(e.target.value as PaymentType)} className="mt-1 w-full px-3 py-2 border rounded-lg">
+              <option value="full">Full payment</option>
+              <option value="downpayment">Downpayment with installments</option>
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm text-gray-700">
+              Already paid (PHP)
+              <input type="number" min="0" value={paidAmount} onChange={(e) => setPaidAmount(e.target.value)} className="mt-1 w-full px-3 py-2 border rounded-lg" />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Receipt / deposit ref.
+              <input value={paymentReference} onChange={(e) => setPaymentReference(e.target.value)} className="mt-1 w-full px-3 py-2 border rounded-lg" />
+            </label>
+          </div>
+          <label className="block text-sm text-gray-700">
+            Notes
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} className="mt-1 w-full px-3 py-2 border rounded-lg" />
+          </label>
+          <p className="text-xs text-gray-500">
+            The itinerary is re-priced now and seats are held on the departure. The saved quote was{' '}
+            {formatCurrency(session.quote?.totalAmount)}.
+          </p>
+        </div>
+        <div className="px-6 py-4 border-t flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 border rounded-lg text-gray-700 hover:bg-gray-50">Cancel</button>
+          <button
+            onClick={handleConvert}
+            disabled={saving || !customerName.trim() || !customerEmail.trim() || (Number(paidAmount) > 0 && !paymentReference.trim())}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
+          >
+            {saving ? 'Booking…' : 'Create Booking'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ── Page ──────────────────────────────────────────────────────────────────────
+export default function BuilderSessions() {
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<BuilderSession[]>([]);
+  const [status, setStatus] = useState<BuilderSessionStatus | 'all'>('active');
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [converting, setConverting] = useState<BuilderSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSessions(await fetchBuilderSessions({ status, q: search.trim() || undefined }));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading builder sessions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load builder sessions.');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, search]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadSessions, 300);
+    return () => clearTimeout(timer);
+  }, [loadSessions]);
+
+  const copyShareLink = async (session: BuilderSession) => {
+    await navigator.clipboard.writeText(session.shareUrl);
+    setNotice('Quote link copied');
+  };
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate('/bookings')}
+            className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Back to Bookings"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Custom Itineraries</h1>
+            <p className="text-gray-600">Quotes customers saved in the tour builder</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 mt-4 sm:mt-0">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Customer, email, tour or booking"
+            className="px-3 py-2 border rounded-lg text-sm w-64"
+          />
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as BuilderSessionStatus | 'all')}
+            className="px-3 py-2 border rounded-lg text-sm"
+          >
+            <option value="active">Open</option>
+            <option value="converted">Booked</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>}
+      {notice && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg flex justify-between">
+          {notice}
+          <button onClick={() => setNotice(null)} className="text-green-700 hover:text-green-900">×</button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4" />
+            <p className="text-gray-600">Loading itineraries…</p>
+          </div>
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">No itineraries</h3>
+          <p className="text-gray-500 text-sm">No saved builder sessions match these filters.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border divide-y">
+          {sessions.map((session) => (
+            <div key={session._id} className="p-4">
+              <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-gray-900">{session.baseTourTitle}</h3>
+                    {session.customRoutes.length > 0 && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800">
+                        +{session.customRoutes.length} inserted
+                      </span>
+                    )}
+                    {session.status === 'converted' && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                        Booked {session.bookingId}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {formatDay(session.selectedDate)} · {session.days.length} days · {session.passengers} pax
+                    {session.infants > 0 && ` + ${session.infants} infant(s)`}
+                    {' · '}
+                    {session.customerName || session.customerEmail || 'Anonymous'}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    Saved {formatDay(session.updatedAt)}
+                    {session.lastViewedAt && ` · quote last opened ${formatDay(session.lastViewedAt)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="text-right">
+                    <div className="font-semibold text-gray-900">{formatCurrency(session.quote?.totalAmount)}</div>
+                    {session.quoteError && <div className="text-xs text-red-600">{session.quoteError}</div>}
+                  </div>
+                  <button
+                    onClick={() => setExpandedId(expandedId === session._id ? null : session._id)}
+                    className="px-3 py-2 border rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    {expandedId === session._id ? 'Hide' : 'Itinerary'}
+                  </button>
+                  <button
+                    onClick={() => copyShareLink(session)}
+                    className="px-3 py-2 border rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Copy Quote Link
+                  </button>
+                  {session.status === 'active' && (
+                    <button
+                      onClick={() => setConverting(session)}
+                      disabled={!session.selectedDate}
+                      title={session.selectedDate ? undefined : 'The customer has not picked a departure date'}
+                      className="px-3 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Convert to Booking
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {expandedId === session._id && (
+                <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <ol className="space-y-1 text-sm">
+                    {groupDays(session).map((group) => (
+                      <li key={group.from} className={`flex gap-3 ${group.custom ? 'text-purple-800' : 'text-gray-700'}`}>
+                        <span className="w-24 shrink-0 font-medium">
+                          {group.from === group.to ? `Day ${group.from}` : `Days ${group.from}–${group.to}`}
+                        </span>
+                        <span>
+                          {group.city ?? '—'}
+                          {group.country && `, ${group.country}`}
+                          <span className="text-xs text-gray-400"> · {group.tourTitle}</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                  {session.quote && (
+                    <table className="text-sm w-full">
+                      <tbody>
+                        {session.quote.lineItems.map((item, index) => (
+                          <tr key={index} className="border-b last:border-0">
+                            <td className="py-1 text-gray-700">{item.label}</td>
+                            <td className="py-1 text-gray-500 text-right">{item.quantity} × {formatCurrency(item.unitAmount)}</td>
+                            <td className="py-1 text-right font-medium">{formatCurrency(item.amount)}</td>
+                          </tr>
+                        ))}
+                        <tr>
+                          <td className="pt-2 font-semibold" colSpan={2}>Total</td>
+                          <td className="pt-2 text-right font-semibold">{formatCurrency(session.quote.totalAmount)}</td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {converting && (
+        <ConvertDialog
+          session={converting}
+          onClose={() => setConverting(null)}
+          onConverted={(bookingId) => {
+            setConverting(null);
+            setNotice(`Booking ${bookingId} created`);
+            loadSessions();
+          }}
+        />
+      )}
+    </div>
+  );
+}
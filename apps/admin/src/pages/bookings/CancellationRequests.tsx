@@ -0,0 +1,270 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Booking, Refund } from '../../types/booking';
+import {
+  fetchCancellationRequests,
+  approveCancellation,
+  rejectCancellation,
+  markRefundCompleted,
+} from '../../services/bookingRepo';
+
+// ── Utilities ─────────────────────────────────────────────────────────────────
+function formatCurrency(amount: number | undefined | null): string {
+  if (typeof amount !== 'number' || isNaN(amount)) return 'PHP 0.00';
+  return `PHP ${amount.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDay(dateString?: string): string {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleDateString('en-PH', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+const REFUND_STATUS_STYLES: Record<Refund['status'], string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+// ── Component ─────────────────────────────────────────────────────────────────
+export default function CancellationRequests() {
+  const navigate = useNavigate();
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+      setBookings(await fetchCancellationRequests());
+      setError(null);
+    } catch (err) {
+      console.error('Error loading cancellation requests:', err);
+      setError('Failed to load cancellation requests.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const runAction = async (bookingId: string, action: () => Promise<unknown>, fallback: string) => {
+    try {
+      setSavingId(bookingId);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setSavingId(null);
+      await loadRequests();
+    }
+  };
+
+  const handleApprove = (booking: Booking) => {
+    const estimate = booking.cancellation?.estimate;
+    const retry = booking.cancellation?.refund?.status === 'failed';
+    const amount = prompt(
+      `${retry ? 'Retry the refund' : 'Approve cancellation'} for ${booking.bookingId}.\n` +
+      `Policy refund: ${formatCurrency(estimate?.refundAmount)} (${estimate?.refundPercent ?? 0}% of ${formatCurrency(estimate?.paidAmount)} paid, ` +
+      `${formatCurrency(estimate?.nonRefundableAmount)} non-refundable).\nRefund amount (PHP):`,
+      String(estimate?.refundAmount ?? 0)
+    );
+    if (amount === null) return;
+    const parsed = Number(amount);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      setError('Refund amount must be zero or a positive number.');
+      return;
+    }
+    const notes = retry ? '' : prompt('Notes for the customer (optional):');
+    if (notes === null) return;
+
+    runAction(
+      booking.bookingId,
+      () => approveCancellation(booking.bookingId, { amount: parsed, notes: notes.trim() || undefined }),
+      'Failed to approve cancellation.'
+    );
+  };
+
+  const handleReject = (booking: Booking) => {
+    const notes = prompt(`Reject the cancellation request for ${booking.bookingId}.\nReason shown to the customer:`);
+    if (notes === null) return;
+    runAction(
+      booking.bookingId,
+      () => rejectCancellation(booking.bookingId, notes.trim() || undefined),
+      'Failed to reject cancellation.'
+    );
+  };
+
+  const handleRefundCompleted = (booking: Booking) => {
+    const refund = booking.cancellation?.refund;
+    if (!confirm(`Confirm ${formatCurrency(refund?.amount)} has been paid back to ${booking.customerName}?`)) return;
+    runAction(booking.bookingId, () => markRefundCompleted(booking.bookingId), 'Failed to record refund.');
+  };
+
+  const pendingRequests = bookings.filter(b => b.cancellation?.status === 'requested').length;
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500 mx-auto mb-4" />
+          <p className="text-gray-600">Loading cancellation requests…</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate('/bookings')}
+            className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Back to Bookings"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Cancellations &amp; Refunds</h1>
+            <p className="text-gray-600">
+              {pendingRequests} request{pendingRequests !== 1 ? 's' : ''} awaiting a decision · {bookings.length - pendingRequests} refund{bookings.length - pendingRequests !== 1 ? 's' : ''} in progress
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={loadRequests}
+          className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-medium"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        {bookings.length === 0 ? (
+          <div className="p-12 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No cancellation requests</h3>
+            <p className="text-gray-500 text-sm">Every request has been decided and every refund settled.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-orange-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Booking</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Customer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Request</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Policy Refund</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Action</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {bookings.map(booking => {
+                  const cancellation = booking.cancellation;
+                  const estimate = cancellation?.estimate;
+                  const refund = cancellation?.refund;
+                  const saving = savingId === booking.bookingId;
+                  return (
+                    <tr key={booking.bookingId} className="align-top hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{booking.bookingId}</div>
+                        <div className="text-xs text-gray-500">{booking.tour ? booking.tour.title : 'Unknown Tour'}</div>
+                        <div className="text-xs text-gray-400">Departs {formatDay(booking.selectedDate.split(' - ')[0])}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{booking.customerName}</div>
+                        <div className="text-xs text-gray-500">{booking.customerEmail}</div>
+                        {booking.customerPhone && <div className="text-xs text-gray-500">{booking.customerPhone}</div>}
+                      </td>
+                      <td className="px-6 py-4 max-w-xs">
+                        <div className="text-xs text-gray-500">Requested {formatDay(cancellation?.requestedAt)}</div>
+                        <div className="text-sm text-gray-900 whitespace-pre-wrap">{cancellation?.reason || 'No reason given'}</div>
+                        {cancellation?.decisionNotes && (
+                          <div className="text-xs text-gray-500 mt-1">Notes: {cancellation.decisionNotes}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-semibold text-gray-900">{formatCurrency(estimate?.refundAmount)}</div>
+                        <div className="text-xs text-gray-500">
+                          {estimate?.refundPercent ?? 0}% of {formatCurrency(estimate?.paidAmount)} paid · {estimate?.daysBeforeDeparture ?? 0} days out
+                        </div>
+                        {!!estimate?.nonRefundableAmount && (
+                          <div className="text-xs text-gray-500">{formatCurrency(estimate.nonRefundableAmount)} non-refundable</div>
+                        )}
+                        {refund && (
+                          <div className="mt-2 space-y-1">
+                            <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${REFUND_STATUS_STYLES[refund.status]}`}>
+                              {refund.provider === 'manual' ? 'Manual' : 'PayMongo'} refund {refund.status} · {formatCurrency(refund.amount)}
+                            </span>
+                            {refund.error && <div className="text-xs text-red-600">{refund.error}</div>}
+                            {refund.expectedBy && refund.status === 'pending' && (
+                              <div className="text-xs text-gray-500">Expected by {formatDay(refund.expectedBy)}</div>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex flex-col gap-2">
+                          {cancellation?.status === 'requested' && (
+                            <>
+                              <button
+                                onClick={() => handleApprove(booking)}
+                                disabled={saving}
+                                className="text-xs px-3 py-1.5 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors font-medium"
+                              >
+                                {saving ? 'Saving…' : 'Approve & Refund'}
+                              </button>
+                              <button
+                                onClick={() => handleReject(booking)}
+                                disabled={saving}
+                                className="text-xs px-3 py-1.5 bg-white text-red-700 border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50 transition-colors font-medium"
+                              >
+                                Reject
+                              </button>
+                            </>
+                          )}
+                          {refund?.status === 'failed' && (
+                            <button
+                              onClick={() => handleApprove(booking)}
+                              disabled={saving}
+                              className="text-xs px-3 py-1.5 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 transition-colors font-medium"
+                            >
+                              {saving ? 'Saving…' : 'Retry Refund'}
+                            </button>
+                          )}
+                          {refund?.status === 'pending' && refund.provider === 'manual' && (
+                            <button
+                              onClick={() => handleRefundCompleted(booking)}
+                              disabled={saving}
+                              className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium"
+                            >
+                              {saving ? 'Saving…' : 'Mark Refund Paid'}
+                            </button>
+                          )}
+                          {refund?.status === 'pending' && refund.provider !== 'manual' && (
+                            <span className="text-xs text-gray-500">Waiting for PayMongo</span>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,406 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type {
+  Booking,
+  DepartureManifest as DepartureManifestData,
+  RoomSharing,
+  Traveller,
+  VisaReadinessStatus,
+} from '../../types/booking';
+import { fetchBookingById, fetchDepartureManifest, updateBookingTravellers } from '../../services/bookingRepo';
+
+// ── Utilities ─────────────────────────────────────────────────────────────────
+function formatDay(dateString?: string): string {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleDateString('en-PH', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function displayCountry(value?: string): string {
+  return value ? value.replace(/\b\w/g, (c) => c.toUpperCase()) : '—';
+}
+
+const ROOM_SHARING_LABELS: Record<RoomSharing, string> = {
+  any: 'No preference',
+  single: 'Single',
+  twin: 'Twin',
+  double: 'Double',
+  triple: 'Triple',
+};
+
+const READINESS_STYLES: Record<VisaReadinessStatus, string> = {
+  ready: 'bg-green-100 text-green-800',
+  attention: 'bg-amber-100 text-amber-800',
+  not_ready: 'bg-red-100 text-red-800',
+};
+
+const READINESS_LABELS: Record<VisaReadinessStatus, string> = {
+  ready: 'Ready',
+  attention: 'Attention',
+  not_ready: 'Not ready',
+};
+
+const EMPTY_TRAVELLER: Traveller = {
+  fullName: '',
+  nationality: 'philippines',
+  passportNumber: '',
+  passportExpiry: '',
+  dateOfBirth: '',
+  roomSharing: 'any',
+  roomSharingWith: '',
+  dietaryNeeds: '',
+};
+
+// ── Traveller editor ──────────────────────────────────────────────────────────
+interface TravellerEditorProps {
+  booking: Booking;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function TravellerEditor({ booking, onClose, onSaved }: TravellerEditorProps) {
+  const [travellers, setTravellers] = useState<Traveller[]>(() => {
+    const existing = booking.travellers ?? [];
+    if (existing.length > 0) return existing.map(t => ({ ...t }));
+    return [{ ...EMPTY_TRAVELLER, fullName: booking.customerName, nationality: booking.nationality || 'philippines', isLead: true }];
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateTraveller = (index: number, field: keyof Traveller, value: string) => {
+    setTravellers(prev => prev.map((t, i) => (i === index ? { ...t, [field]: value } : t)));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await updateBookingTravellers(booking.bookingId, travellers);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save travellers.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 print:hidden">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Travellers · {booking.bookingId}</h2>
+            <p className="text-sm text-gray-500">{booking.passengers} passenger{booking.passengers !== 1 ? 's' : ''} booked by {booking.customerName}</p>
+          </div>
+          <button onClick={onClose} disabled={saving} className="text-gray-500 hover:text-gray-800 text-xl">×</button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {travellers.map((traveller, index) => (
+            <div key={index} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-gray-700">
+                  Traveller {index + 1}{traveller.isLead ? ' (lead)' : ''}
+                </span>
+                {travellers.length > 1 && (
+                  <button
+                    onClick={() => setTravellers(prev => prev.filter((_, i) => i !== index))}
+                    className="text-xs text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <div className="grid md:grid-cols-3 gap-3">
+                <input
+                  value={traveller.fullName}
+                  onChange={(e) => updateTraveller(index, 'fullName', e.target.value)}
+                  placeholder="Name as in passport"
+                  className="px-3 py-2 border rounded-md text-sm"
+                />
+                <input
+                  value={traveller.nationality ?? ''}
+                  onChange={(e) => updateTraveller(index, 'nationality', e.target.value)}
+                  placeholder="Nationality"
+                  className="px-3 py-2 border rounded-md text-sm"
+                />
+                <input
+                  value={traveller.passportNumber ?? ''}
+                  onChange={(e) => updateTraveller(index, 'passportNumber', e.target.value)}
+                  placeholder="Passport number"
+                  className="px-3 py-2 border rounded-md text-sm"
+                />
+                <label className="text-xs text-gray-500">
+                  Passport expiry
+                  <input
+                    type="date"
+                    value={traveller.passportExpiry ?? ''}
+                    onChange={(e) => updateTraveller(index, 'passportExpiry', e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border rounded-md text-sm text-gray-900"
+                  />
+                </label>
+                <label className="text-xs text-gray-500">
+                  Date of birth
+                  <input
+                    type="date"
+                    value={traveller.dateOfBirth ?? ''}
+                    onChange={(e) => updateTraveller(index, 'dateOfBirth', e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border rounded-md text-sm text-gray-900"
+                  />
+                </label>
+                <label className="text-xs text-gray-500">
+                  Room sharing
+                  <select
+                    value={traveller.roomSharing ?? 'any'}
+                    onChange={(e) => updateTraveller(index, 'roomSharing', e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border rounded-md text-sm text-gray-900"
+                  >
+                    {(Object.keys(ROOM_SHARING_LABELS) as RoomSharing[]).map(value => (
+                      <option key={value} value={value}>{ROOM_SHARING_LABELS[value]}</option>
+                    ))}
+                  </select>
+                </label>
+                <input
+                  value={traveller.roomSharingWith ?? ''}
+                  onChange={(e) => updateTraveller(index, 'roomSharingWith', e.target.value)}
+                  placeholder="Sharing with (optional)"
+                  className="px-3 py-2 border rounded-md text-sm"
+                />
+                <input
+                  value={traveller.dietaryNeeds ?? ''}
+                  onChange={(e) => updateTraveller(index, 'dietaryNeeds', e.target.value)}
+                  placeholder="Dietary needs (optional)"
+                  className="px-3 py-2 border rounded-md text-sm md:col-span-2"
+                />
+              </div>
+            </div>
+          ))}
+
+          {travellers.length < booking.passengers && (
+            <button
+              onClick={() => setTravellers(prev => [...prev, { ...EMPTY_TRAVELLER, nationality: booking.nationality || 'philippines' }])}
+              className="text-sm px-3 py-1.5 border border-dashed border-gray-400 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              + Add traveller
+            </button>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+          >
+            {saving ? 'Saving…' : 'Save Travellers'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────────────
+export default function DepartureManifest() {
+  const navigate = useNavigate();
+  const [manifests, setManifests] = useState<DepartureManifestData[]>([]);
+  const [from, setFrom] = useState(() => new Date().toISOString().slice(0, 10));
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
+
+  const loadManifest = useCallback(async () => {
+    try {
+      setLoading(true);
+      setManifests(await fetchDepartureManifest({ from, to: to || undefined }));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading departure manifest:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load departure manifest.');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    loadManifest();
+  }, [loadManifest]);
+
+  const handleEditTravellers = async (bookingId: string) => {
+    const booking = await fetchBookingById(bookingId);
+    if (!booking) {
+      setError(`Booking ${bookingId} could not be loaded.`);
+      return;
+    }
+    setEditingBooking(booking);
+  };
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between print:hidden">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate('/bookings')}
+            className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Back to Bookings"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Departure Manifest</h1>
+            <p className="text-gray-600">Travellers grouped by tour departure</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 mt-4 sm:mt-0">
+          <label className="text-xs text-gray-600">
+            From
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="block mt-1 px-3 py-2 border rounded-lg text-sm" />
+          </label>
+          <label className="text-xs text-gray-600">
+            To
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="block mt-1 px-3 py-2 border rounded-lg text-sm" />
+          </label>
+          <button
+            onClick={() => window.print()}
+            disabled={manifests.length === 0}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium"
+          >
+            Print
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg print:hidden">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4" />
+            <p className="text-gray-600">Loading departure manifest…</p>
+          </div>
+        </div>
+      ) : manifests.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">No departures</h3>
+          <p className="text-gray-500 text-sm">No bookings travel in the selected date range.</p>
+        </div>
+      ) : (
+        manifests.map(manifest => (
+          <section
+            key={`${manifest.tourSlug}-${manifest.departureDate}`}
+            className="bg-white rounded-lg shadow-sm border overflow-hidden break-inside-avoid print:shadow-none print:break-after-page"
+          >
+            <div className="px-6 py-4 bg-gray-50 border-b flex flex-col sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{manifest.tourTitle}</h2>
+                <p className="text-sm text-gray-600">Departs {formatDay(manifest.departureDate)} · {manifest.selectedDate}</p>
+              </div>
+              <div className="text-sm text-gray-600 mt-2 sm:mt-0 sm:text-right">
+                <div>{manifest.passengerCount} passenger{manifest.passengerCount !== 1 ? 's' : ''} · {manifest.bookingCount} booking{manifest.bookingCount !== 1 ? 's' : ''}</div>
+                {manifest.missingTravellerDetails > 0 && (
+                  <div className="text-amber-700">{manifest.missingTravellerDetails} traveller{manifest.missingTravellerDetails !== 1 ? 's' : ''} without details</div>
+                )}
+                {manifest.notReadyCount > 0 && (
+                  <div className="text-red-700">{manifest.notReadyCount} not visa-ready</div>
+                )}
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
+                    <th className="px-4 py-2">#</th>
+                    <th className="px-4 py-2">Traveller</th>
+                    <th className="px-4 py-2">Nationality</th>
+                    <th className="px-4 py-2">Passport</th>
+                    <th className="px-4 py-2">Date of Birth</th>
+                    <th className="px-4 py-2">Room</th>
+                    <th className="px-4 py-2">Dietary</th>
+                    <th className="px-4 py-2">Visa</th>
+                    <th className="px-4 py-2">Booking</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {manifest.travellers.map((traveller, index) => {
+                    const readiness = traveller.visaReadiness;
+                    return (
+                      <tr key={`${traveller.bookingId}-${index}`} className="align-top">
+                        <td className="px-4 py-2 text-gray-500">{index + 1}</td>
+                        <td className="px-4 py-2">
+                          <div className="font-medium text-gray-900">{traveller.fullName}</div>
+                          {traveller.isLead && <div className="text-xs text-gray-500">Lead · {traveller.contactPhone || traveller.contactEmail}</div>}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap">{displayCountry(traveller.nationality)}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <div>{traveller.passportNumber || '—'}</div>
+                          {traveller.passportExpiry && <div className="text-xs text-gray-500">Exp. {formatDay(traveller.passportExpiry)}</div>}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap">{formatDay(traveller.dateOfBirth)}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <div>{ROOM_SHARING_LABELS[traveller.roomSharing ?? 'any']}</div>
+                          {traveller.roomSharingWith && <div className="text-xs text-gray-500">with {traveller.roomSharingWith}</div>}
+                        </td>
+                        <td className="px-4 py-2 max-w-xs">{traveller.dietaryNeeds || '—'}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {readiness ? (
+                            <span
+                              className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${READINESS_STYLES[readiness.status]}`}
+                              title={[...readiness.blockers, ...readiness.warnings].map(issue => issue.message).join('\n')}
+                            >
+                              {READINESS_LABELS[readiness.status]} · {readiness.score}
+                            </span>
+                          ) : (
+                            <span className="text-xs text-gray-400">Not evaluated</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <div className="text-gray-900">{traveller.bookingId}</div>
+                          {traveller.isLead && (
+                            <button
+                              onClick={() => handleEditTravellers(traveller.bookingId)}
+                              className="text-xs text-blue-600 hover:text-blue-800 print:hidden"
+                            >
+                              Edit travellers
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ))
+      )}
+
+      {editingBooking && (
+        <TravellerEditor
+          booking={editingBooking}
+          onClose={() => setEditingBooking(null)}
+          onSaved={() => {
+            setEditingBooking(null);
+            loadManifest();
+          }}
+        />
+      )}
+    </div>
+  );
+}
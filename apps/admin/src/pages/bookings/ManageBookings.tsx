@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { Booking, BookingFilters, BookingReportData, DashboardStats, BookingStatus } from '../../types/booking';
+import type { Booking, BookingFilters, BookingReportData, DashboardStats, BookingStatus, BookingStatusHistoryEntry, OutboundEmail, OutboundEmailStatus, ResendableBookingEmail } from '../../types/booking';
+import { BOOKING_STATUS_LABELS } from '../../types/booking';
 import { 
   fetchBookings, 
   updateBookingStatus, 
@@ -10,7 +11,15 @@ import {
   archiveBooking,
   batchArchiveBookings,
   batchDeleteBookings,
+  fetchBookingEmails,
+  resendBookingEmail,
+  fetchUndeliveredEmails,
+  retryOutboundEmail,
 } from '../../services/bookingRepo';
+import { assignItem, autoAssignQueue, fetchQueueAgents, type QueueAgent } from '../../services/assignmentService';
+import { authService } from '../../services/authService';
+import { useAuth } from '../../contexts/AuthContext';
+import ActivityFeed from '../../components/ActivityFeed';
 
 // ─── PDF / Print ──────────────────────────────────────────────────────────────
 function printBooking(booking: import('../../types/booking').Booking) {
@@ -19,6 +28,9 @@ function printBooking(booking: import('../../types/booking').Booking) {
     pending:   '#d97706',
     cancelled: '#dc2626',
     completed: '#2563eb',
+    awaiting_payment: '#ea580c',
+    partially_paid:   '#0d9488',
+    refunded:  '#9333ea',
   };
   const statusColor = statusColors[booking.status] ?? '#374151';
 
@@ -47,7 +59,7 @@ function printBooking(booking: import('../../types/booking').Booking) {
 
   const notesBlock = booking.notes ? `
     <div class="section">
-      <div class="section-title">Additional Notes</div>
+      <div class="section-title">Customer Notes</div>
       <p style="color:#374151;font-size:13px;">${booking.notes}</p>
     </div>` : '';
 
@@ -89,7 +101,7 @@ function printBooking(booking: import('../../types/booking').Booking) {
       <p>Official Booking Confirmation</p>
     </div>
     <div style="text-align:right;">
-      <div class="badge">${booking.status}</div>
+      <div class="badge">${BOOKING_STATUS_LABELS[booking.status] ?? booking.status}</div>
       <div class="booking-id">Booking ID: <span>${booking.bookingId}</span></div>
     </div>
   </div>
@@ -180,6 +192,12 @@ function getStatusColor(status: BookingStatus): string {
       return 'bg-red-100 text-red-800 border-red-200';
     case 'completed':
       return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'awaiting_payment':
+      return 'bg-orange-100 text-orange-800 border-orange-200';
+    case 'partially_paid':
+      return 'bg-teal-100 text-teal-800 border-teal-200';
+    case 'refunded':
+      return 'bg-purple-100 text-purple-800 border-purple-200';
     default:
       return 'bg-gray-100 text-gray-800 border-gray-200';
   }
@@ -193,6 +211,9 @@ function StatusBadge({ status }: { status: BookingStatus }) {
       case 'pending': return '⏳';
       case 'cancelled': return '✗';
       case 'completed': return '🎉';
+      case 'awaiting_payment': return '💳';
+      case 'partially_paid': return '◐';
+      case 'refunded': return '↩';
       default: return '?';
     }
   };
@@ -200,11 +221,50 @@ function StatusBadge({ status }: { status: BookingStatus }) {
   return (
     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(status)}`}>
       <span className="mr-1">{getIcon()}</span>
-      {status.charAt(0).toUpperCase() + status.slice(1)}
+      {BOOKING_STATUS_LABELS[status] ?? status}
     </span>
   );
 }
 
+function describeActor(actor: BookingStatusHistoryEntry['actor']): string {
+  switch (actor.type) {
+    case 'admin': return actor.name ? `Admin · ${actor.name}` : 'Admin';
+    case 'customer': return actor.name ? `Customer · ${actor.name}` : 'Customer';
+    case 'payment_gateway': return actor.name ?? 'Payment gateway';
+    default: return 'System';
+  }
+}
+
+// Status History Timeline Component
+function StatusTimeline({ history }: { history: BookingStatusHistoryEntry[] }) {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {[...history].reverse().map((entry, index) => (
+        <li key={`${entry.at}-${index}`} className="mb-4 ml-4 last:mb-0">
+          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white bg-blue-500" />
+          <div className="flex flex-wrap items-center gap-2">
+            {entry.from && entry.from !== entry.to && (
+              <>
+                <StatusBadge status={entry.from} />
+                <span className="text-gray-400">→</span>
+              </>
+            )}
+            <StatusBadge status={entry.to} />
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {formatDate(entry.at)} · {describeActor(entry.actor)}
+          </p>
+          {entry.reason && <p className="mt-1 text-sm text-gray-700">{entry.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
 // Dashboard Stats Component
 function DashboardStatsCard({ stats }: { stats: DashboardStats }) {
   return (
@@ -277,14 +337,34 @@ interface FiltersProps {
   filters: BookingFilters;
   onFiltersChange: (filters: BookingFilters) => void;
   onGenerateReport: (period: 'day' | 'week' | 'month' | 'year') => void;
+  agents: QueueAgent[];
+  // Staff without canViewAllBookings only ever see their own queue
+  canViewAll: boolean;
 }
 
-function BookingFilters({ filters, onFiltersChange, onGenerateReport }: FiltersProps) {
+function BookingFilters({ filters, onFiltersChange, onGenerateReport, agents, canViewAll }: FiltersProps) {
   return (
     <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
       <h3 className="text-lg font-semibold text-gray-900 mb-4">Filters & Reports</h3>
       
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Queue</label>
+          <select
+            value={canViewAll ? filters.assignedTo || '' : 'me'}
+            disabled={!canViewAll}
+            onChange={(e) => onFiltersChange({ ...filters, assignedTo: e.target.value || undefined })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+          >
+            <option value="">All Bookings</option>
+            <option value="me">My Queue</option>
+            <option value="unassigned">Unassigned</option>
+            {agents.map((agent) => (
+              <option key={agent.id} value={agent.id}>{agent.fullName}</option>
+            ))}
+          </select>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
           <input
@@ -313,10 +393,9 @@ function BookingFilters({ filters, onFiltersChange, onGenerateReport }: FiltersP
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
             <option value="all">All Statuses</option>
-            <option value="confirmed">Confirmed</option>
-            <option value="pending">Pending</option>
-            <option value="completed">Completed</option>
-            <option value="cancelled">Cancelled</option>
+            {(Object.keys(BOOKING_STATUS_LABELS) as BookingStatus[]).map((status) => (
+              <option key={status} value={status}>{BOOKING_STATUS_LABELS[status]}</option>
+            ))}
           </select>
         </div>
 
@@ -348,8 +427,140 @@ function BookingFilters({ filters, onFiltersChange, onGenerateReport }: FiltersP
   );
 }
 
+const EMAIL_LABELS: Record<string, string> = {
+  booking_confirmation: 'Booking confirmation',
+  sales_notification: 'Sales alert',
+  installment_reminder: 'Payment reminder',
+  booking_access: 'Booking access link',
+};
+
+const EMAIL_STATUS_STYLES: Record<OutboundEmailStatus, string> = {
+  queued: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  sending: 'bg-blue-100 text-blue-800 border-blue-200',
+  sent: 'bg-green-100 text-green-800 border-green-200',
+  dead: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const EMAIL_STATUS_LABELS: Record<OutboundEmailStatus, string> = {
+  queued: 'Retrying',
+  sending: 'Sending',
+  sent: 'Delivered',
+  dead: 'Failed',
+};
+
+function EmailStatusBadge({ email }: { email: OutboundEmail }) {
+  // A queued email that has not been attempted yet is simply waiting its turn
+  const label = email.status === 'queued' && email.attempts === 0 ? 'Queued' : EMAIL_STATUS_LABELS[email.status];
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${EMAIL_STATUS_STYLES[email.status]}`}>
+      {label}
+    </span>
+  );
+}
+
+// Email Delivery History Component
+function EmailDeliveryHistory({ bookingId }: { bookingId: string }) {
+  const [emails, setEmails] = useState<OutboundEmail[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setEmails(await fetchBookingEmails(bookingId));
+    } catch (err) {
+      console.error('Error loading email history:', err);
+      setMessage({ type: 'error', text: 'Failed to load email history.' });
+      setEmails([]);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      setBusy(true);
+      setMessage(null);
+      await action();
+      setMessage({ type: 'success', text: success });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Something went wrong' });
+    } finally {
+      setBusy(false);
+      load();
+    }
+  };
+
+  const handleResend = (templateKey: ResendableBookingEmail) => {
+    if (!confirm(`Send the ${EMAIL_LABELS[templateKey].toLowerCase()} for ${bookingId} again?`)) return;
+    run(() => resendBookingEmail(bookingId, templateKey), `${EMAIL_LABELS[templateKey]} queued`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {(['booking_confirmation', 'sales_notification'] as const).map((templateKey) => (
+          <button
+            key={templateKey}
+            onClick={() => handleResend(templateKey)}
+            disabled={busy}
+            className="px-3 py-1 text-sm bg-blue-100 text-blue-800 rounded-md hover:bg-blue-200 transition-colors disabled:opacity-50"
+          >
+            Resend {EMAIL_LABELS[templateKey].toLowerCase()}
+          </button>
+        ))}
+      </div>
+      {message && (
+        <p className={`text-sm ${message.type === 'error' ? 'text-red-700' : 'text-green-700'}`}>{message.text}</p>
+      )}
+      {emails === null ? (
+        <p className="text-sm text-gray-500">Loading email history...</p>
+      ) : emails.length === 0 ? (
+        <p className="text-sm text-gray-500">No emails recorded for this booking.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {emails.map((email) => (
+            <li key={email._id} className="py-3 first:pt-0 last:pb-0">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">{EMAIL_LABELS[email.templateKey] ?? email.templateKey}</span>
+                    <EmailStatusBadge email={email} />
+                  </div>
+                  <p className="text-xs text-gray-500 truncate">To {email.to.join(', ')}</p>
+                  <p className="text-xs text-gray-500">
+                    {email.status === 'sent' && email.sentAt
+                      ? `Delivered ${formatDate(email.sentAt)}`
+                      : email.status === 'queued' && email.attempts > 0
+                        ? `Attempt ${email.attempts} of ${email.maxAttempts} failed · next try ${formatDate(email.nextAttemptAt)}`
+                        : `Queued ${formatDate(email.createdAt)}`}
+                    {email.requestedBy && ` · requested by ${email.requestedBy}`}
+                  </p>
+                  {email.status !== 'sent' && email.lastError && (
+                    <p className="text-xs text-red-700 break-words">{email.lastError}</p>
+                  )}
+                </div>
+                {(email.status === 'dead' || (email.status === 'queued' && email.attempts > 0)) && (
+                  <button
+                    onClick={() => run(() => retryOutboundEmail(email._id), 'Email sent for another try')}
+                    disabled={busy}
+                    className="shrink-0 px-3 py-1 text-xs bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+                  >
+                    Retry now
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 // Booking Detail Modal Component
-function BookingDetailModal({ booking, onClose, onPrint }: { booking: Booking; onClose: () => void; onPrint: () => void }) {
+function BookingDetailModal({ booking, canMessage, onClose, onPrint }: { booking: Booking; canMessage: boolean; onClose: () => void; onPrint: () => void }) {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
@@ -385,6 +596,28 @@ function BookingDetailModal({ booking, onClose, onPrint }: { booking: Booking; o
             </div>
           </div>
 
+          {/* Status History */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Status History</h3>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <StatusTimeline history={booking.statusHistory ?? []} />
+            </div>
+          </div>
+
+          {/* Email Delivery */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Emails</h3>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <EmailDeliveryHistory bookingId={booking.bookingId} />
+            </div>
+          </div>
+
+          {/* Notes & Messages */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Notes &amp; Messages</h3>
+            <ActivityFeed subject="bookings" id={booking.bookingId} canMessage={canMessage} />
+          </div>
+
           {/* Customer Information */}
           <div>
             <h3 className="text-lg font-semibold text-gray-900 mb-3">Customer Information</h3>
@@ -513,10 +746,10 @@ function BookingDetailModal({ booking, onClose, onPrint }: { booking: Booking; o
             </div>
           )}
 
-          {/* Notes */}
+          {/* Notes the customer left when booking */}
           {booking.notes && (
             <div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-3">Additional Notes</h3>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Customer Notes</h3>
               <div className="bg-gray-50 rounded-lg p-4">
                 <p className="text-sm text-gray-700">{booking.notes}</p>
               </div>
@@ -558,6 +791,11 @@ export default function ManageBookings() {
   const [showReports, setShowReports] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [undeliveredEmails, setUndeliveredEmails] = useState<OutboundEmail[]>([]);
+  const [agents, setAgents] = useState<QueueAgent[]>([]);
+  const { user } = useAuth();
+  const canViewAll = !!user && authService.hasPermission('canViewAllBookings', user);
+  const canAssign = !!user && authService.hasPermission('canManageBookingStatus', user);
 
   const loadBookings = useCallback(async () => {
     try {
@@ -581,13 +819,74 @@ export default function ManageBookings() {
     loadBookings();
   }, [loadBookings]);
 
+  const loadUndeliveredEmails = useCallback(async () => {
+    try {
+      setUndeliveredEmails(await fetchUndeliveredEmails());
+    } catch (err) {
+      console.error('Error loading undelivered emails:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUndeliveredEmails();
+  }, [loadUndeliveredEmails]);
+
+  // Agents and their open counts, for the assignee pickers
+  const loadAgents = useCallback(async () => {
+    if (!canAssign) return;
+    try {
+      setAgents(await fetchQueueAgents('bookings'));
+    } catch (err) {
+      console.error('Error loading booking agents:', err);
+    }
+  }, [canAssign]);
+
+  useEffect(() => {
+    loadAgents();
+  }, [loadAgents]);
+
+  const handleAssign = async (bookingId: string, assigneeId: string) => {
+    try {
+      await assignItem('bookings', bookingId, assigneeId || null);
+      loadBookings();
+      loadAgents();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign booking.');
+    }
+  };
+
+  const handleAutoAssign = async () => {
+    if (!confirm('Share out every unassigned open booking between the booking team?')) return;
+    try {
+      const { assigned, remaining } = await autoAssignQueue('bookings');
+      alert(`${assigned} booking${assigned === 1 ? '' : 's'} assigned${remaining > 0 ? `, ${remaining} still unassigned` : ''}.`);
+      loadBookings();
+      loadAgents();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign bookings.');
+    }
+  };
+
+  const handleRetryEmail = async (id: string) => {
+    try {
+      await retryOutboundEmail(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry email.');
+    } finally {
+      loadUndeliveredEmails();
+    }
+  };
+
   const handleStatusChange = async (bookingId: string, newStatus: BookingStatus) => {
+    const reason = prompt(`Reason for changing status to "${BOOKING_STATUS_LABELS[newStatus]}" (optional):`);
+    if (reason === null) return; // cancelled
+
     try {
-      await updateBookingStatus(bookingId, newStatus);
+      await updateBookingStatus(bookingId, newStatus, { reason: reason.trim() || undefined });
       loadBookings(); // Reload data
     } catch (err) {
       console.error('Error updating booking status:', err);
-      setError('Failed to update booking status. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to update booking status. Please try again.');
     }
   };
 
@@ -742,6 +1041,42 @@ export default function ManageBookings() {
           <p className="text-gray-600">Monitor and manage all tour bookings</p>
         </div>
         <div className="flex gap-3 mt-4 sm:mt-0">
+          <button
+            onClick={() => navigate('/bookings/manifest')}
+            className="inline-flex items-center px-4 py-2 bg-blue-100 text-blue-800 border border-blue-300 rounded-lg hover:bg-blue-200 transition-colors font-medium"
+          >
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+            </svg>
+            Departure Manifest
+          </button>
+          <button
+            onClick={() => navigate('/bookings/itineraries')}
+            className="inline-flex items-center px-4 py-2 bg-purple-100 text-purple-800 border border-purple-300 rounded-lg hover:bg-purple-200 transition-colors font-medium"
+          >
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+            </svg>
+            Custom Itineraries
+          </button>
+          <button
+            onClick={() => navigate('/bookings/cancellations')}
+            className="inline-flex items-center px-4 py-2 bg-orange-100 text-orange-800 border border-orange-300 rounded-lg hover:bg-orange-200 transition-colors font-medium"
+          >
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+            </svg>
+            Cancellations
+          </button>
+          <button
+            onClick={() => navigate('/bookings/overdue')}
+            className="inline-flex items-center px-4 py-2 bg-red-100 text-red-800 border border-red-300 rounded-lg hover:bg-red-200 transition-colors font-medium"
+          >
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            Overdue Installments
+          </button>
           <button
             onClick={() => navigate('/bookings/archive')}
             className="inline-flex items-center px-4 py-2 bg-amber-100 text-amber-800 border border-amber-300 rounded-lg hover:bg-amber-200 transition-colors font-medium"
@@ -751,6 +1086,17 @@ export default function ManageBookings() {
             </svg>
             View Archive
           </button>
+          {canAssign && (
+            <button
+              onClick={handleAutoAssign}
+              className="inline-flex items-center px-4 py-2 bg-indigo-100 text-indigo-800 border border-indigo-300 rounded-lg hover:bg-indigo-200 transition-colors font-medium"
+            >
+              <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+              Assign Unassigned
+            </button>
+          )}
           <button
             onClick={loadBookings}
             className="inline-flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-medium"
@@ -778,6 +1124,35 @@ export default function ManageBookings() {
         </div>
       )}
 
+      {/* Emails that ran out of delivery attempts */}
+      {undeliveredEmails.length > 0 && (
+        <details className="bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+          <summary className="cursor-pointer text-sm font-medium text-red-800">
+            {undeliveredEmails.length} email{undeliveredEmails.length === 1 ? '' : 's'} could not be delivered
+          </summary>
+          <ul className="mt-3 divide-y divide-red-200">
+            {undeliveredEmails.map((email) => (
+              <li key={email._id} className="py-2 flex items-start justify-between gap-4">
+                <div className="min-w-0 text-sm">
+                  <p className="font-medium text-gray-900 truncate">{email.subject}</p>
+                  <p className="text-xs text-gray-600 truncate">
+                    To {email.to.join(', ')}
+                    {email.bookingId && ` · ${email.bookingId}`} · {email.attempts} attempt{email.attempts === 1 ? '' : 's'}
+                  </p>
+                  {email.lastError && <p className="text-xs text-red-700 break-words">{email.lastError}</p>}
+                </div>
+                <button
+                  onClick={() => handleRetryEmail(email._id)}
+                  className="shrink-0 px-3 py-1 text-xs bg-white text-red-800 border border-red-300 rounded-md hover:bg-red-100"
+                >
+                  Retry now
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
       {/* Batch action toolbar */}
       {selectedIds.size > 0 && (
         <div className="flex items-center gap-3 bg-blue-50 border border-blue-200 rounded-lg px-4 py-3">
@@ -817,6 +1192,8 @@ export default function ManageBookings() {
         filters={filters} 
         onFiltersChange={setFilters} 
         onGenerateReport={handleGenerateReport}
+        agents={agents}
+        canViewAll={canViewAll}
       />
 
       {showReports && reportData.length > 0 && (
@@ -904,6 +1281,7 @@ export default function ManageBookings() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Travel Date</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned To</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                 </tr>
               </thead>
@@ -968,17 +1346,38 @@ export default function ManageBookings() {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="space-y-2">
                         <StatusBadge status={booking.status} />
+                        {(booking.allowedTransitions ?? []).length > 0 && (
+                          <select
+                            value={booking.status}
+                            onChange={(e) => handleStatusChange(booking.bookingId, e.target.value as BookingStatus)}
+                            className="text-xs px-2 py-1 rounded border border-gray-300 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value={booking.status} disabled>Change status…</option>
+                            {(booking.allowedTransitions ?? []).map((status) => (
+                              <option key={status} value={status}>{BOOKING_STATUS_LABELS[status]}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {canAssign ? (
                         <select
-                          value={booking.status}
-                          onChange={(e) => handleStatusChange(booking.bookingId, e.target.value as BookingStatus)}
+                          value={booking.assignedTo || ''}
+                          onChange={(e) => handleAssign(booking.bookingId, e.target.value)}
                           className="text-xs px-2 py-1 rounded border border-gray-300 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                         >
-                          <option value="confirmed">Confirmed</option>
-                          <option value="pending">Pending</option>
-                          <option value="completed">Completed</option>
-                          <option value="cancelled">Cancelled</option>
+                          <option value="">Unassigned</option>
+                          {booking.assignedTo && !agents.some((agent) => agent.id === booking.assignedTo) && (
+                            <option value={booking.assignedTo}>{booking.assignedToName || 'Former staff'}</option>
+                          )}
+                          {agents.map((agent) => (
+                            <option key={agent.id} value={agent.id}>{agent.fullName} ({agent.open})</option>
+                          ))}
                         </select>
-                      </div>
+                      ) : (
+                        <span className="text-sm text-gray-700">{booking.assignedToName || 'Unassigned'}</span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       <div className="flex items-center space-x-2">
@@ -1040,6 +1439,7 @@ export default function ManageBookings() {
       {selectedBooking && (
         <BookingDetailModal
           booking={selectedBooking}
+          canMessage={canAssign}
           onClose={() => setSelectedBooking(null)}
           onPrint={() => printBooking(selectedBooking)}
         />
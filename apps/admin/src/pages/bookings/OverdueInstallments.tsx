@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Installment, OverdueBooking } from '../../types/booking';
+import { fetchOverdueInstallments, markInstallmentPaid } from '../../services/bookingRepo';
+
+// ── Utilities ─────────────────────────────────────────────────────────────────
+function formatCurrency(amount: number | undefined | null): string {
+  if (typeof amount !== 'number' || isNaN(amount)) return 'PHP 0.00';
+  return `PHP ${amount.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDay(dateString?: string): string {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleDateString('en-PH', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function daysOverdue(dueDate: string): number {
+  return Math.max(0, Math.floor((Date.now() - new Date(dueDate).getTime()) / (24 * 60 * 60 * 1000)));
+}
+
+function installmentLabel(installment: Installment): string {
+  return installment.kind === 'final_balance' ? 'Final balance' : `Installment ${installment.sequence}`;
+}
+
+// ── Component ─────────────────────────────────────────────────────────────────
+export default function OverdueInstallments() {
+  const navigate = useNavigate();
+  const [bookings, setBookings] = useState<OverdueBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadOverdue = useCallback(async () => {
+    try {
+      setLoading(true);
+      setBookings(await fetchOverdueInstallments());
+      setError(null);
+    } catch (err) {
+      console.error('Error loading overdue installments:', err);
+      setError('Failed to load overdue installments.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOverdue();
+  }, [loadOverdue]);
+
+  const handleMarkPaid = async (booking: OverdueBooking, installment: Installment) => {
+    const reference = prompt(
+      `Record ${installmentLabel(installment)} (${formatCurrency(installment.amount)}) for ${booking.bookingId} as paid.\nPayment reference (optional):`
+    );
+    if (reference === null) return;
+
+    try {
+      setSavingId(installment.id);
+      await markInstallmentPaid(booking.bookingId, installment.id, reference.trim() || undefined);
+      await loadOverdue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record payment.');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const totalOverdue = bookings.reduce((sum, b) => sum + b.balance.overdueAmount, 0);
+
+  // ── Render ──────────────────────────────────────────────────────────────────
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-500 mx-auto mb-4" />
+          <p className="text-gray-600">Loading overdue installments…</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate('/bookings')}
+            className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Back to Bookings"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Overdue Installments</h1>
+            <p className="text-gray-600">
+              {bookings.length} booking{bookings.length !== 1 ? 's' : ''} behind schedule · {formatCurrency(totalOverdue)} overdue
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={loadOverdue}
+          className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-medium"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        {bookings.length === 0 ? (
+          <div className="p-12 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No overdue installments</h3>
+            <p className="text-gray-500 text-sm">Every installment plan is up to date.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-red-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Booking</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Customer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Overdue</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Outstanding</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Balance Due</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {bookings.map(booking => (
+                  <tr key={booking.bookingId} className="align-top hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{booking.bookingId}</div>
+                      <div className="text-xs text-gray-500">{booking.tour ? booking.tour.title : 'Unknown Tour'}</div>
+                      <div className="text-xs text-gray-400">Departs {formatDay(booking.selectedDate.split(' - ')[0])}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{booking.customerName}</div>
+                      <div className="text-xs text-gray-500">{booking.customerEmail}</div>
+                      {booking.customerPhone && <div className="text-xs text-gray-500">{booking.customerPhone}</div>}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="space-y-2">
+                        {(booking.installmentPlan?.payments ?? [])
+                          .filter(p => p.status === 'overdue')
+                          .map(installment => (
+                            <div key={installment.id} className="flex items-center justify-between gap-4">
+                              <div>
+                                <div className="text-sm text-gray-900">
+                                  {installmentLabel(installment)} · <span className="font-semibold text-red-700">{formatCurrency(installment.amount)}</span>
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                  Due {formatDay(installment.dueDate)} ({daysOverdue(installment.dueDate)} days ago)
+                                  {installment.reminderCount ? ` · ${installment.reminderCount} reminder${installment.reminderCount > 1 ? 's' : ''} sent` : ''}
+                                </div>
+                              </div>
+                              <button
+                                onClick={() => handleMarkPaid(booking, installment)}
+                                disabled={savingId === installment.id}
+                                className="text-xs px-3 py-1.5 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors font-medium"
+                              >
+                                {savingId === installment.id ? 'Saving…' : 'Mark Paid'}
+                              </button>
+                            </div>
+                          ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{formatCurrency(booking.balance.outstanding)}</div>
+                      <div className="text-xs text-gray-500">Paid: {formatCurrency(booking.paidAmount)} of {formatCurrency(booking.totalAmount)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDay(booking.balance.balanceDueDate)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -110,6 +110,9 @@ const CustomerService: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-yellow-600">Active Inquiries</p>
               <p className="text-2xl font-bold text-yellow-900">{stats?.activeInquiries}</p>
+              {!!stats?.slaBreaches && (
+                <p className="text-xs text-yellow-700">{stats.slaBreaches} past response SLA</p>
+              )}
             </div>
           </div>
         </div>
@@ -120,6 +123,9 @@ const CustomerService: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-red-600">Pending Tasks</p>
               <p className="text-2xl font-bold text-red-900">{stats?.pendingTasks}</p>
+              {!!stats?.overdueTasks && (
+                <p className="text-xs text-red-700">{stats.overdueTasks} overdue</p>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,149 @@
+import type { BrochureField, BrochureFieldConfidence, BrochureParseResult } from "@discovergroup/types";
+
+const FIELD_LABELS: Record<BrochureField, string> = {
+  title: "Title",
+  slug: "Slug",
+  line: "Tour Line",
+  continent: "Continent",
+  durationDays: "Duration",
+  departureDates: "Departure Dates",
+  travelWindow: "Travel Window",
+  regularPricePerPerson: "Regular Price",
+  bookingLinks: "Booking Links",
+  optionalTours: "Optional Tours",
+  allowsDownpayment: "Downpayment Allowed",
+  fixedDownpaymentAmount: "Downpayment",
+  balanceDueDaysBeforeTravel: "Balance Due",
+  countriesVisited: "Countries",
+  citiesToVisit: "Cities to Visit",
+  cashFreebies: "Cash Freebies",
+};
+
+const CONFIDENCE_STYLES: Record<BrochureFieldConfidence, string> = {
+  high: "bg-green-100 text-green-800",
+  medium: "bg-amber-100 text-amber-800",
+  low: "bg-red-100 text-red-800",
+};
+
+type Row = Record<string, unknown>;
+
+const peso = (value: unknown) => `₱${Number(value).toLocaleString()}`;
+
+function formatDay(value: unknown): string {
+  return new Date(`${value}T00:00:00`).toLocaleDateString("en-PH", { month: "short", day: "numeric", year: "numeric" });
+}
+
+// One display line per entry so list fields can be compared line by line
+function formatValue(field: BrochureField, value: unknown): string[] {
+  if (value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0)) return [];
+  const rows = Array.isArray(value) ? (value as Row[]) : [];
+
+  switch (field) {
+    case "departureDates":
+      return rows.map((d) => `${formatDay(d.start)} – ${formatDay(d.end)}${d.price ? ` · ${peso(d.price)}` : ""}`);
+    case "travelWindow": {
+      const window = value as Row;
+      return [`${formatDay(window.start)} – ${formatDay(window.end)}`];
+    }
+    case "bookingLinks":
+      return rows.map((link) => `${link.year}: ${(link.urls as string[]).join(" · ")}`);
+    case "optionalTours":
+      return rows.map((tour) => `Day ${tour.day} – ${tour.title}`);
+    case "cashFreebies":
+      return rows.map((f) => `${f.type === "percent_off" ? `${f.value}% off` : "FREE"} — ${f.label}${f.addOn ? ` (${f.addOn} fee)` : ""}`);
+    case "citiesToVisit":
+      return [rows.map((c) => c.city).join(" · ")];
+    case "countriesVisited":
+      return [(value as string[]).join(" · ")];
+    case "regularPricePerPerson":
+    case "fixedDownpaymentAmount":
+      return [peso(value)];
+    case "durationDays":
+      return [`${value} days`];
+    case "balanceDueDaysBeforeTravel":
+      return [`${value} days before travel`];
+    case "allowsDownpayment":
+      return [value ? "Yes" : "No"];
+    default:
+      return [String(value)];
+  }
+}
+
+function ValueCell({ lines }: { lines: string[] }) {
+  if (lines.length === 0) return <span className="text-gray-400">—</span>;
+  return (
+    <ul className="space-y-0.5">
+      {lines.map((line, i) => <li key={i}>{line}</li>)}
+    </ul>
+  );
+}
+
+interface BrochureFieldReviewProps {
+  result: BrochureParseResult;
+  // Editing an existing tour: show its saved values next to the parsed ones
+  compareWithSaved: boolean;
+  selected: Set<BrochureField>;
+  onToggle: (field: BrochureField) => void;
+}
+
+export default function BrochureFieldReview({ result, compareWithSaved, selected, onToggle }: BrochureFieldReviewProps) {
+  if (result.fields.length === 0) {
+    return <p className="text-orange-700">Could not detect any structured fields. Try pasting more formatted text.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-purple-700">
+              <th className="py-2 pr-2" />
+              <th className="py-2 pr-4">Field</th>
+              {compareWithSaved && <th className="py-2 pr-4">Saved Tour</th>}
+              <th className="py-2 pr-4">From Brochure</th>
+              <th className="py-2">Confidence</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-purple-100">
+            {result.fields.map((f) => (
+              <tr key={f.field} className={`align-top ${f.changed === false ? "text-gray-400" : "text-gray-800"}`}>
+                <td className="py-2 pr-2">
+                  <input
+                    type="checkbox"
+                    aria-label={`Apply ${FIELD_LABELS[f.field]}`}
+                    checked={selected.has(f.field)}
+                    onChange={() => onToggle(f.field)}
+                    className="w-4 h-4"
+                  />
+                </td>
+                <td className="py-2 pr-4 font-semibold text-purple-900 whitespace-nowrap">{FIELD_LABELS[f.field]}</td>
+                {compareWithSaved && (
+                  <td className="py-2 pr-4"><ValueCell lines={formatValue(f.field, f.current)} /></td>
+                )}
+                <td className="py-2 pr-4">
+                  <ValueCell lines={formatValue(f.field, f.value)} />
+                  {f.changed === false && <span className="text-xs">No change</span>}
+                </td>
+                <td className="py-2">
+                  <span className={`px-2 py-0.5 rounded text-xs font-semibold ${CONFIDENCE_STYLES[f.confidence]}`}>
+                    {f.confidence}
+                  </span>
+                  <div className="text-xs text-gray-500 mt-1">{f.reason}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {result.unparsedLines.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+          <p className="font-semibold text-amber-900 mb-1">Lines that were not understood — add these by hand if needed</p>
+          <ul className="list-disc list-inside text-amber-800 text-xs space-y-0.5">
+            {result.unparsedLines.map((line, i) => <li key={i}>{line}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
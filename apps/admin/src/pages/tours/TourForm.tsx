@@ -1,6 +1,9 @@
 import React, { JSX, useState, useEffect } from "react";
 import SecureForm from '../../components/SecureForm';
-import { createTour, updateTour, fetchTourById, fetchContinents, type Tour } from "../../services/apiClient";
+import { createTour, updateTour, fetchTourById, fetchContinents, parseTourBrochure, type Tour, type BrochureParseResult } from "../../services/apiClient";
+import type { BrochureField, TourPerk, TourPerkAddOn, TourPerkEligibility } from "@discovergroup/types";
+import BrochureFieldReview from "./BrochureFieldReview";
+import TourPublishingPanel from "./TourPublishingPanel";
 import { useNavigate, useParams } from "react-router-dom";
 import {
   Save,
@@ -12,7 +15,8 @@ import {
   Plus,
   X,
   Check,
-  Wand2
+  Wand2,
+  History
 } from "lucide-react";
 import { buildAdminApiUrl } from "../../config/apiBase";
 import { useToast } from "../../components/Toast";
@@ -55,206 +59,80 @@ async function createImageRecord(label: 'main' | 'gallery'): Promise<{ id: strin
   return { id: `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, label };
 }
 
-// ── Smart-paste tour text parser ───────────────────────────────────────────
-const MONTH_MAP: Record<string, string> = {
-  january:'01', jan:'01', february:'02', feb:'02', march:'03', mar:'03',
-  april:'04',   apr:'04', may:'05',      june:'06', jun:'06', july:'07',
-  jul:'07',     august:'08', aug:'08',   september:'09', sep:'09', sept:'09',
-  october:'10', oct:'10', november:'11', nov:'11', december:'12', dec:'12',
+// ── Perks ──────────────────────────────────────────────────────────────────
+const PERK_ADD_ON_LABELS: Record<TourPerkAddOn, string> = {
+  visa: "Visa assistance",
+  insurance: "Travel insurance",
+  passport: "Passport assistance",
 };
 
-function toISO(month: string, day: number | string, year: number | string): string {
-  const m = MONTH_MAP[month.toLowerCase()] ?? '01';
-  return `${year}-${m}-${String(day).padStart(2, '0')}`;
-}
-
-function parseTourText(raw: string): Partial<TourFormData> {
-  const result: Partial<TourFormData> = {};
-  const lines = raw.split(/\r?\n/);
-
-  // ─ Helper: detect tour line from a string ─────────────────────────────
-  function detectLine(s: string): string | null {
-    const m = s.match(/route\s*([a-z])/i);
-    if (m) return `ROUTE_${m[1].toUpperCase()}`;
-    return null;
-  }
-
-  // ─ Title + duration ───────────────────────────────────────────────────
-  const titleWithDays = raw.match(/^([^\n(]+?)\s*\((\d+)\s*days?\)/im);
-  if (titleWithDays) {
-    result.title = titleWithDays[1].trim();
-    result.durationDays = parseInt(titleWithDays[2]);
-    const detectedLine = detectLine(result.title);
-    if (detectedLine) result.line = detectedLine;
-    if (/europe/i.test(result.title))     result.continent = 'Europe';
-    else if (/asia/i.test(result.title))  result.continent = 'Asia';
-    const slug = result.title.toLowerCase().replace(/[^a-z0-9\s-]/g,'').replace(/\s+/g,'-').replace(/-+/g,'-').trim();
-    result.slug = `${slug}-${result.durationDays ?? 15}-days`;
-  } else {
-    // Fallback: use first non-empty line as title (handles "Route N Advanced" without "(X days)")
-    const firstLine = lines.find(l => l.trim() && !/^(Links?|Liks?|Travel Date|Country|Optional|Full\s*Cash)/i.test(l.trim()));
-    if (firstLine) {
-      result.title = firstLine.trim();
-      const detectedLine = detectLine(result.title);
-      if (detectedLine) result.line = detectedLine;
-      if (/europe/i.test(result.title))     result.continent = 'Europe';
-      else if (/asia/i.test(result.title))  result.continent = 'Asia';
-      const slug = result.title.toLowerCase().replace(/[^a-z0-9\s-]/g,'').replace(/\s+/g,'-').replace(/-+/g,'-').trim();
-      result.slug = slug;
-    }
-  }
-
-  // ─ Booking links (year-tagged) — tolerates typos like "Liks for 2026:" ─
-  const bookingLinks: TourFormData['bookingLinks'] = [];
-  for (const line of lines) {
-    // Match "Links for 2026:", "Liks for 2026:", "Link for 2026:", "links 2026:" etc.
-    const lm = line.match(/Li[a-z]{0,3}s?\s+for\s+(\d{4})\s*:\s*(.+)/i)
-            ?? line.match(/Links?\s+(\d{4})\s*:\s*(.+)/i);
-    if (lm) {
-      const year = lm[1];
-      const urlPart = lm[2];
-      const urls = urlPart.match(/https?:\/\/[^\s,]+/gi) ?? [];
-      if (urls.length) bookingLinks.push({ year, urls });
-    }
-  }
-  if (bookingLinks.length) result.bookingLinks = bookingLinks;
-
-  // ─ Departure dates ───────────────────────────────────────────────
-  const departureDates: TourFormData['departureDates'] = [];
-  const seen = new Set<string>();
-  const addDate = (start: string, end: string, price: number) => {
-    const k = `${start}|${end}`;
-    if (!seen.has(k)) { seen.add(k); departureDates.push({ start, end, price, isAvailable: true, currentBookings: 0 }); }
+// Saved perks from before add-ons and eligibility existed were full-cash-only
+function toFormPerk(perk: TourPerk): TourFormData["cashFreebies"][number] {
+  return {
+    label: perk.label,
+    type: perk.type,
+    value: perk.value ?? "",
+    addOn: perk.addOn ?? "",
+    eligibility: perk.eligibility ?? "full_payment",
   };
+}
 
-  // Pattern A — same month: "May 13 - 27, 2026 (Php 170,000)" or "(Php" with no amount
-  const pA = /([A-Za-z]+)\s+(\d{1,2})\s*[-–]\s*(\d{1,2}),\s*(\d{4})(?:[^\n]*\(Php\s*([\d,]*)\))?/g;
-  let m: RegExpExecArray | null;
-  while ((m = pA.exec(raw))) {
-    const [, mon, d1, d2, yr, ps] = m;
-    if (MONTH_MAP[mon.toLowerCase()]) addDate(toISO(mon,d1,yr), toISO(mon,d2,yr), ps ? parseInt(ps.replace(/,/g,'')) : 0);
-  }
-
-  // Pattern B — different months: "May 25 - June 8, 2026 (Php 170,000)"
-  const pB = /([A-Za-z]+)\s+(\d{1,2})\s*[-–]\s*([A-Za-z]+)\s+(\d{1,2}),\s*(\d{4})(?:[^\n]*\(Php\s*([\d,]*)\))?/g;
-  while ((m = pB.exec(raw))) {
-    const [, m1, d1, m2, d2, yr, ps] = m;
-    if (MONTH_MAP[m1.toLowerCase()] && MONTH_MAP[m2.toLowerCase()])
-      addDate(toISO(m1,d1,yr), toISO(m2,d2,yr), ps ? parseInt(ps.replace(/,/g,'')) : 0);
-  }
-
-  if (departureDates.length) {
-    result.departureDates = departureDates.sort((a, b) => a.start.localeCompare(b.start));
-    result.travelWindow = { start: result.departureDates[0].start, end: result.departureDates[result.departureDates.length - 1].end };
-    const prices = result.departureDates.map(d => d.price ?? 0).filter(Boolean);
-    if (prices.length) result.regularPricePerPerson = Math.max(...prices);
-
-    // Infer duration from first departure date if not already set
-    if (!result.durationDays && result.departureDates.length > 0) {
-      const first = result.departureDates[0];
-      const startMs = new Date(first.start).getTime();
-      const endMs = new Date(first.end).getTime();
-      const diffDays = Math.round((endMs - startMs) / 86400000) + 1;
-      if (diffDays > 0) result.durationDays = diffDays;
-    }
-    // Update slug with duration if we have both
-    if (result.slug && result.durationDays && !result.slug.match(/-\d+-days$/)) {
-      result.slug = `${result.slug}-${result.durationDays}-days`;
-    }
-  }
-
-  // ─ Promo info ───────────────────────────────────────────────────────
-  let promoFlat: number | "" = "";
-  let promoPercent: number | "" = "";
-  const pfM = raw.match(/promo\s+price[^:]*:\s*(?:Php\s*)?(\d[\d,]*)\s*(?:,000)? /i)
-             ?? raw.match(/(\d[\d,]*)\s*(?:,000)?\s*tour\s*packages?/i);
-  if (pfM) promoFlat = parseInt(pfM[1].replace(/,/g,''));
-  const ppM = raw.match(/(\d+)%\s*(?:discount|off)/i);
-  if (ppM) promoPercent = parseInt(ppM[1]);
-
-  // ─ Optional tours ──────────────────────────────────────────────────
-  const optionalTours: TourFormData['optionalTours'] = [];
-  let inOptional = false;
-  for (const line of lines) {
-    const l = line.trim();
-    if (/optional\s*tours?\s*:/i.test(l) || /^optional\s*tours?\s*$/i.test(l)) { inOptional = true; continue; }
-    if (/regular\s*rate|countr(?:y|ies)\s*to\s*visit|cit(?:y|ies)\s*to\s*visit|fullcash|full\s*cash|downpayment/i.test(l)) inOptional = false;
-    if (inOptional) {
-      const dm = l.match(/Day\s*(\d+)\s*[:\-–]\s*(.+)/i);
-      if (dm) {
-        optionalTours.push({
-          day: parseInt(dm[1]),
-          title: dm[2].replace(/^optional\s+(for\s+)?/i,'').trim(),
-          regularPrice: "",
-          promoEnabled: !!(promoFlat || promoPercent),
-          promoType: promoFlat ? "flat" : "percent",
-          promoValue: promoFlat || promoPercent,
-        });
-      }
+// ── Smart-paste brochure import ────────────────────────────────────────────
+// The API parses the brochure text; this merges one accepted field into the
+// form. Seat counters, images and optional-tour prices already on the form are
+// kept for entries the brochure lists again.
+function applyBrochureField(prev: TourFormData, field: BrochureField, value: unknown): TourFormData {
+  switch (field) {
+    case "departureDates": {
+      const dates = value as { start: string; end: string; price?: number }[];
+      return {
+        ...prev,
+        departureDates: dates.map((d) => ({
+          isAvailable: true,
+          currentBookings: 0,
+          ...prev.departureDates.find((existing) => existing.start === d.start),
+          ...d,
+        })),
+      };
     }
-  }
-  if (optionalTours.length) result.optionalTours = optionalTours;
-
-  // ─ Downpayment + balance days ───────────────────────────────────────
-  const dpM = raw.match(/Php\s*([\d,]+)\s*downpayment/i);
-  if (dpM) { result.allowsDownpayment = true; result.fixedDownpaymentAmount = parseInt(dpM[1].replace(/,/g,'')); }
-  const bdM = raw.match(/(\d+)\s*days?\s*before\s*travel/i);
-  if (bdM) result.balanceDueDaysBeforeTravel = parseInt(bdM[1]);
-
-  // ─ Countries ───────────────────────────────────────────────────────────
-  // Matches "Country to Visit:", "Country:", "Countries:" followed by | or , separated list
-  const cM = raw.match(/Countr(?:y|ies)\s*(?:to\s+visit|visited)?\s*:\s*([A-Z][A-Z\s|,&]+)/i);
-  if (cM) {
-    const cs = cM[1].split(/[|,]/).map(c => c.trim()).filter(Boolean)
-      .map(c => c.charAt(0).toUpperCase() + c.slice(1).toLowerCase());
-    if (cs.length) {
-      result.additionalInfo = {
-        countriesVisited: cs,
-        startingPoint: "",
-        endingPoint: "",
-        mainCities: {},
-        countries: cs.map(name => ({ name, image: "" })),
-        citiesToVisit: [],
+    case "optionalTours": {
+      const tours = value as TourFormData["optionalTours"];
+      return {
+        ...prev,
+        optionalTours: tours.map((ot) => {
+          const existing = prev.optionalTours.find((e) => e.day === ot.day && e.title === ot.title);
+          return { ...ot, regularPrice: existing?.regularPrice ?? "", flipbookUrl: existing?.flipbookUrl };
+        }),
       };
     }
-  }
-
-  // ─ Cities to Visit ──────────────────────────────────────────────────────
-  // Matches "City to Visit:", "Cities to Visit:" followed by | or , separated list
-  const cityVisitMatch = raw.match(/Cit(?:y|ies)\s+to\s+[Vv]isit\s*:\s*([^\n]+)/i);
-  if (cityVisitMatch) {
-    const cities = cityVisitMatch[1].split(/[|,]/).map(c => c.trim()).filter(Boolean);
-    if (cities.length) {
-      if (!result.additionalInfo) {
-        result.additionalInfo = {
-          countriesVisited: [],
-          startingPoint: "",
-          endingPoint: "",
-          mainCities: {},
-          countries: [],
-          citiesToVisit: [],
-        };
-      }
-      result.additionalInfo.citiesToVisit = cities.map(city => ({ city, country: "", image: "" }));
+    case "cashFreebies":
+      return { ...prev, cashFreebies: (value as TourPerk[]).map(toFormPerk) };
+    case "countriesVisited": {
+      const countries = value as string[];
+      return {
+        ...prev,
+        additionalInfo: {
+          ...prev.additionalInfo,
+          countriesVisited: countries,
+          countries: countries.map((name) =>
+            prev.additionalInfo.countries?.find((c) => c.name === name) ?? { name, image: "" }),
+        },
+      };
     }
-  }
-
-  // ─ Full cash freebies ────────────────────────────────────────────────
-  const freebies: TourFormData['cashFreebies'] = [];
-  let inFreebies = false;
-  for (const line of lines) {
-    const l = line.trim();
-    if (/fullcash|full\s*cash/i.test(l)) { inFreebies = true; continue; }
-    if (inFreebies && l) {
-      const pctM2 = l.match(/^(\d+)%\s*off\s+(?:on\s+)?(.+)/i);
-      const freeM = l.match(/^free\s+(.+)/i);
-      if (pctM2) freebies.push({ label: pctM2[2].trim(), type: "percent_off", value: parseInt(pctM2[1]) });
-      else if (freeM) freebies.push({ label: freeM[1].trim(), type: "free", value: "" });
+    case "citiesToVisit": {
+      const cities = value as { city: string }[];
+      return {
+        ...prev,
+        additionalInfo: {
+          ...prev.additionalInfo,
+          citiesToVisit: cities.map(({ city }) =>
+            prev.additionalInfo.citiesToVisit?.find((c) => c.city === city) ?? { city, country: "", image: "" }),
+        },
+      };
     }
+    default:
+      return { ...prev, [field]: value } as TourFormData;
   }
-  if (freebies.length) result.cashFreebies = freebies;
-
-  return result;
 }
 
 // ── Route A Preferred pre-fill template ─────────────────────────────────────
@@ -295,11 +173,11 @@ const ROUTE_A_TEMPLATE: Partial<TourFormData> = {
     { day: 13, title: "Pompeii, Amalfi & Positano Tour",      regularPrice: "", promoEnabled: true, promoType: "percent", promoValue: 50 },
   ],
   cashFreebies: [
-    { label: "Visa Processing and Appointment Fee", type: "percent_off", value: 50 },
-    { label: "Permits, City Tax & Tippings in Europe",  type: "percent_off", value: 50 },
-    { label: "Travel Insurance",                       type: "percent_off", value: 50 },
-    { label: "Philippine Travel Tax",                  type: "free",        value: "" },
-    { label: "Ireland ETA",                            type: "free",        value: "" },
+    { label: "Visa Processing and Appointment Fee", type: "percent_off", value: 50, addOn: "visa",      eligibility: "full_payment" },
+    { label: "Permits, City Tax & Tippings in Europe",  type: "percent_off", value: 50, addOn: "",          eligibility: "full_payment" },
+    { label: "Travel Insurance",                       type: "percent_off", value: 50, addOn: "insurance", eligibility: "full_payment" },
+    { label: "Philippine Travel Tax",                  type: "free",        value: "", addOn: "",          eligibility: "full_payment" },
+    { label: "Ireland ETA",                            type: "free",        value: "", addOn: "",          eligibility: "full_payment" },
   ],
   additionalInfo: {
     countriesVisited: ["France", "Switzerland", "Italy", "Vatican"],
@@ -413,6 +291,7 @@ interface TourFormData {
     end: string; 
     maxCapacity?: number;
     currentBookings?: number;
+    heldSeats?: number;
     isAvailable?: boolean;
     price?: number;
   }[];
@@ -454,11 +333,13 @@ interface TourFormData {
     flipbookUrl?: string; // individual optional-tour flipbook/itinerary link
   }[];
 
-  // Full cash payment freebies
+  // Freebies and promo perks; addOn "" means the perk is listed but not priced
   cashFreebies: {
     label: string;
     type: "free" | "percent_off";
     value: number | "";
+    addOn: TourPerkAddOn | "";
+    eligibility: TourPerkEligibility;
   }[];
 
   // Reservation payment rules
@@ -545,28 +426,50 @@ export default function TourForm(): JSX.Element {
   // ── Smart Paste state ───────────────────────────────────────────────────
   const [smartPasteOpen, setSmartPasteOpen] = useState(false);
   const [smartPasteText, setSmartPasteText] = useState("");
-  const [smartPastePreview, setSmartPastePreview] = useState<Partial<TourFormData> | null>(null);
+  const [smartPastePreview, setSmartPastePreview] = useState<BrochureParseResult | null>(null);
+  const [smartPasteSelected, setSmartPasteSelected] = useState<Set<BrochureField>>(new Set());
+  const [smartPasteParsing, setSmartPasteParsing] = useState(false);
 
-  function handleSmartParse() {
+  async function handleSmartParse() {
     if (!smartPasteText.trim()) return;
-    const parsed = parseTourText(smartPasteText);
-    setSmartPastePreview(parsed);
+    try {
+      setSmartPasteParsing(true);
+      const parsed = await parseTourBrochure(smartPasteText, id);
+      setSmartPastePreview(parsed);
+      // Pre-select what would change, except low-confidence guesses
+      setSmartPasteSelected(new Set(
+        parsed.fields.filter((f) => f.changed !== false && f.confidence !== "low").map((f) => f.field)
+      ));
+    } catch (err) {
+      console.error("Brochure parse failed:", err);
+      errorToast(err instanceof Error ? err.message : "Failed to parse brochure text");
+    } finally {
+      setSmartPasteParsing(false);
+    }
+  }
+
+  function toggleSmartPasteField(field: BrochureField) {
+    setSmartPasteSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+  }
+
+  function resetSmartPaste() {
+    setSmartPasteText("");
+    setSmartPastePreview(null);
+    setSmartPasteSelected(new Set());
   }
 
   function applySmartPaste() {
     if (!smartPastePreview) return;
-    setFormData(prev => ({
-      ...prev,
-      ...smartPastePreview,
-      additionalInfo: {
-        ...prev.additionalInfo,
-        ...(smartPastePreview.additionalInfo ?? {}),
-      },
-    } as TourFormData));
+    const accepted = smartPastePreview.fields.filter((f) => smartPasteSelected.has(f.field));
+    setFormData(prev => accepted.reduce((data, f) => applyBrochureField(data, f.field, f.value), prev));
     setSmartPasteOpen(false);
-    setSmartPasteText("");
-    setSmartPastePreview(null);
-    success("Tour data parsed and applied to the form! ✅ Review each section before saving.");
+    resetSmartPaste();
+    success(`${accepted.length} field(s) applied from the brochure ✅ Review each section before saving.`);
   }
 
   // Route A Template Loader
@@ -641,6 +544,10 @@ export default function TourForm(): JSX.Element {
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Revision the form was loaded from; the API rejects the save if the tour moved on since
+  const [loadedRevision, setLoadedRevision] = useState<number | undefined>(undefined);
+  // Publishing state is changed from its own panel, never by saving the form
+  const [publishing, setPublishing] = useState<Partial<Tour> | null>(null);
 
   // Continents for dropdown
   const [continents, setContinents] = useState<string[]>([]);
@@ -695,6 +602,16 @@ export default function TourForm(): JSX.Element {
           setError("Tour not found");
           return;
         }
+        // Tours from before revision history are at the baseline revision
+        setLoadedRevision(tour.revision ?? 1);
+        setPublishing({
+          status: tour.status,
+          publishAt: tour.publishAt,
+          unpublishAt: tour.unpublishAt,
+          publishedAt: tour.publishedAt,
+          statusUpdatedAt: tour.statusUpdatedAt,
+          statusUpdatedBy: tour.statusUpdatedBy,
+        });
 
         // Convert tour to form data and include sale fields if present
         setFormData({
@@ -749,9 +666,7 @@ export default function TourForm(): JSX.Element {
           optionalTours: Array.isArray((tour as Record<string, unknown>).optionalTours)
             ? ((tour as Record<string, unknown>).optionalTours as TourFormData["optionalTours"])
             : [],
-          cashFreebies: Array.isArray((tour as Record<string, unknown>).cashFreebies)
-            ? ((tour as Record<string, unknown>).cashFreebies as TourFormData["cashFreebies"])
-            : [],
+          cashFreebies: Array.isArray(tour.cashFreebies) ? tour.cashFreebies.map(toFormPerk) : [],
           bookingLinks: Array.isArray((tour as Record<string, unknown>).bookingLinks)
             ? ((tour as Record<string, unknown>).bookingLinks as TourFormData["bookingLinks"])
             : [],
@@ -949,7 +864,7 @@ export default function TourForm(): JSX.Element {
       ...prev,
       cashFreebies: [
         ...prev.cashFreebies,
-        { label: "", type: "percent_off", value: 50 },
+        { label: "", type: "percent_off", value: 50, addOn: "", eligibility: "full_payment" },
       ],
     }));
   }
@@ -1035,18 +950,21 @@ export default function TourForm(): JSX.Element {
           ? formData.cashFreebies.map(f => ({
               ...f,
               value: f.value === "" ? undefined : Number(f.value),
+              addOn: f.addOn || undefined,
             }))
           : undefined,
         // Payment rules
         allowsDownpayment: formData.allowsDownpayment,
         fixedDownpaymentAmount: formData.fixedDownpaymentAmount === "" ? undefined : Number(formData.fixedDownpaymentAmount),
         balanceDueDaysBeforeTravel: formData.balanceDueDaysBeforeTravel === "" ? 90 : Number(formData.balanceDueDaysBeforeTravel),
+        revision: isEdit ? loadedRevision : undefined,
       };
 
       if (isEdit && id) {
         await updateTour(id, payload);
       } else {
         await createTour(payload);
+        success("Tour created as a draft. Publish it from the edit page when it is ready.");
       }
 
       navigate("/tours");
@@ -1094,6 +1012,17 @@ export default function TourForm(): JSX.Element {
                   {isEdit ? "Update tour information and details" : "Add a new tour to your collection"}
                 </p>
               </div>
+              {isEdit && (
+                <button
+                  type="button"
+                  onClick={() => navigate(`/tours/${id}/history`)}
+                  className="flex-shrink-0 flex items-center gap-2 px-4 py-2.5 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold rounded-xl text-sm transition-colors"
+                  title="See earlier saves of this tour and restore one"
+                >
+                  <History size={16} />
+                  Revision History
+                </button>
+              )}
               {!isEdit && (
                 <button
                   type="button"
@@ -1114,6 +1043,8 @@ export default function TourForm(): JSX.Element {
           </div>
         </div>
 
+        {isEdit && id && publishing && <TourPublishingPanel tourId={id} initial={publishing} />}
+
         {/* Error Display */}
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
@@ -1121,165 +1052,87 @@ export default function TourForm(): JSX.Element {
           </div>
         )}
 
-        {/* ─── Smart Paste / AI Auto-fill Panel ──────────────────────── */}
-        {!isEdit && (
-          <div className="bg-white rounded-xl shadow-sm border border-purple-200 overflow-hidden mb-2">
-            <button
-              type="button"
-              onClick={() => { setSmartPasteOpen(o => !o); setSmartPastePreview(null); }}
-              className="w-full flex items-center justify-between px-6 py-4 hover:bg-purple-50 transition-colors"
-            >
-              <div className="flex items-center gap-3">
-                <div className="bg-purple-100 p-2 rounded-lg">
-                  <Wand2 className="text-purple-600" size={20} />
-                </div>
-                <div className="text-left">
-                  <p className="font-bold text-gray-900">AI Smart Paste — Auto-fill from Tour Text</p>
-                  <p className="text-sm text-gray-500">Paste your tour brief text and let the form fill itself automatically</p>
-                </div>
+        {/* ─── Smart Paste / Brochure Import Panel ───────────────────── */}
+        <div className="bg-white rounded-xl shadow-sm border border-purple-200 overflow-hidden mb-2">
+          <button
+            type="button"
+            onClick={() => { setSmartPasteOpen(o => !o); setSmartPastePreview(null); }}
+            className="w-full flex items-center justify-between px-6 py-4 hover:bg-purple-50 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <div className="bg-purple-100 p-2 rounded-lg">
+                <Wand2 className="text-purple-600" size={20} />
               </div>
-              <span className="text-purple-600 font-semibold text-sm">{smartPasteOpen ? 'Close ↑' : 'Open ↓'}</span>
-            </button>
-
-            {smartPasteOpen && (
-              <div className="px-6 pb-6 border-t border-purple-100">
-                <p className="text-sm text-gray-600 mt-4 mb-3">
-                  Paste your raw tour description below (dates, prices, optional tours, countries, freebies, downpayment rules — all supported).
+              <div className="text-left">
+                <p className="font-bold text-gray-900">AI Smart Paste — Auto-fill from Tour Text</p>
+                <p className="text-sm text-gray-500">
+                  {isEdit
+                    ? "Paste updated brochure text and compare it with the saved tour before applying"
+                    : "Paste your tour brief text and let the form fill itself automatically"}
                 </p>
-                <textarea
-                  className="w-full border border-gray-300 rounded-xl p-4 text-sm font-mono focus:ring-2 focus:ring-purple-400 focus:border-transparent resize-y min-h-[180px]"
-                  placeholder={`Route A Preferred (15 days)\nLinks for 2026: https://bit.ly/ROUTEAPREF_MAR-JUNE2026 , and https://bit.ly/ROUTEAPREF_OCT-NOV2026\nLinks for 2027: https://bit.ly/ROUTEAPREF_MAR-APR2027\nTravel Date: May 13 - 27, 2026 (Php 170,000)\n             May 25 - June 8, 2026 (Php 170,000)\nOptional Tours:\nDay 4: Disneyland Paris Tour\n...\nCountry to Visit: FRANCE | SWITZERLAND | ITALY | VATICAN\nFULLCASH PAYMENT FREEBIES:\n50% off on Visa Processing and Appointment Fee\nFree Philippine Travel Tax`}
-                  value={smartPasteText}
-                  onChange={e => { setSmartPasteText(e.target.value); setSmartPastePreview(null); }}
-                />
-                <div className="flex gap-3 mt-3">
-                  <button
-                    type="button"
-                    onClick={handleSmartParse}
-                    disabled={!smartPasteText.trim()}
-                    className="px-5 py-2.5 bg-purple-600 hover:bg-purple-700 disabled:opacity-40 text-white font-semibold rounded-xl text-sm flex items-center gap-2 transition-colors"
-                  >
-                    <Wand2 size={16} />
-                    Parse &amp; Preview
-                  </button>
-                  {smartPastePreview && (
-                    <button
-                      type="button"
-                      onClick={applySmartPaste}
-                      className="px-5 py-2.5 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-xl text-sm flex items-center gap-2 transition-colors"
-                    >
-                      <Check size={16} />
-                      Apply to Form
-                    </button>
-                  )}
+              </div>
+            </div>
+            <span className="text-purple-600 font-semibold text-sm">{smartPasteOpen ? 'Close ↑' : 'Open ↓'}</span>
+          </button>
+
+          {smartPasteOpen && (
+            <div className="px-6 pb-6 border-t border-purple-100">
+              <p className="text-sm text-gray-600 mt-4 mb-3">
+                Paste your raw tour description below (dates, prices, optional tours, countries, freebies, downpayment rules — all supported).
+              </p>
+              <textarea
+                className="w-full border border-gray-300 rounded-xl p-4 text-sm font-mono focus:ring-2 focus:ring-purple-400 focus:border-transparent resize-y min-h-[180px]"
+                placeholder={`Route A Preferred (15 days)\nLinks for 2026: https://bit.ly/ROUTEAPREF_MAR-JUNE2026 , and https://bit.ly/ROUTEAPREF_OCT-NOV2026\nLinks for 2027: https://bit.ly/ROUTEAPREF_MAR-APR2027\nTravel Date: May 13 - 27, 2026 (Php 170,000)\n             May 25 - June 8, 2026 (Php 170,000)\nOptional Tours:\nDay 4: Disneyland Paris Tour\n...\nCountry to Visit: FRANCE | SWITZERLAND | ITALY | VATICAN\nFULLCASH PAYMENT FREEBIES:\n50% off on Visa Processing and Appointment Fee\nFree Philippine Travel Tax`}
+                value={smartPasteText}
+                onChange={e => { setSmartPasteText(e.target.value); setSmartPastePreview(null); }}
+              />
+              <div className="flex gap-3 mt-3">
+                <button
+                  type="button"
+                  onClick={handleSmartParse}
+                  disabled={!smartPasteText.trim() || smartPasteParsing}
+                  className="px-5 py-2.5 bg-purple-600 hover:bg-purple-700 disabled:opacity-40 text-white font-semibold rounded-xl text-sm flex items-center gap-2 transition-colors"
+                >
+                  <Wand2 size={16} />
+                  {smartPasteParsing ? 'Parsing…' : <>Parse &amp; Preview</>}
+                </button>
+                {smartPastePreview && (
                   <button
                     type="button"
-                    onClick={() => { setSmartPasteText(""); setSmartPastePreview(null); }}
-                    className="px-4 py-2.5 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold rounded-xl text-sm transition-colors"
+                    onClick={applySmartPaste}
+                    disabled={smartPasteSelected.size === 0}
+                    className="px-5 py-2.5 bg-green-600 hover:bg-green-700 disabled:opacity-40 text-white font-semibold rounded-xl text-sm flex items-center gap-2 transition-colors"
                   >
-                    Clear
+                    <Check size={16} />
+                    Apply {smartPasteSelected.size} Field{smartPasteSelected.size !== 1 ? 's' : ''}
                   </button>
-                </div>
-
-                {/* Parsed Preview */}
-                {smartPastePreview && (
-                  <div className="mt-5 bg-purple-50 border border-purple-200 rounded-xl p-5 space-y-3 text-sm">
-                    <p className="font-bold text-purple-900 text-base">Detected Fields — review before applying</p>
-
-                    {smartPastePreview.title && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-500 font-semibold w-36 flex-shrink-0">Title</span>
-                        <span className="text-gray-800">{smartPastePreview.title} ({smartPastePreview.durationDays} days)</span>
-                      </div>
-                    )}
-                    {smartPastePreview.bookingLinks && smartPastePreview.bookingLinks.length > 0 && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-500 font-semibold w-36 flex-shrink-0">Booking Links</span>
-                        <ul className="space-y-0.5">
-                          {smartPastePreview.bookingLinks.map((bl, i) => (
-                            <li key={i} className="text-gray-800 text-xs">
-                              <strong>{bl.year}:</strong> {bl.urls.join(" · ")}
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-                    {smartPastePreview.line && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-500 font-semibold w-36 flex-shrink-0">Tour Line</span>
-                        <span className="text-gray-800">{smartPastePreview.line}</span>
-                      </div>
-                    )}
-                    {smartPastePreview.regularPricePerPerson !== undefined && smartPastePreview.regularPricePerPerson !== "" && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-500 font-semibold w-36 flex-shrink-0">Regular Price</span>
-                        <span className="text-gray-800">₱{Number(smartPastePreview.regularPricePerPerson).toLocaleString()}</span>
-                      </div>
-                    )}
-                    {smartPastePreview.departureDates && smartPastePreview.departureDates.length > 0 && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-500 font-semibold w-36 flex-shrink-0">Departure Dates</span>
-                        <ul className="space-y-0.5">
-                          {smartPastePreview.departureDates.map((d, i) => (
-                            <li key={i} className="text-gray-800">
-                              {new Date(d.start + 'T00:00:00').toLocaleDateString('en-PH', { month:'short', day:'numeric', year:'numeric' })}
-                              {' – '}
-                              {new Date(d.end + 'T00:00:00').toLocaleDateString('en-PH', { month:'short', day:'numeric', year:'numeric' })}
-                              {d.price ? <span className="ml-2 text-green-700 font-medium">₱{d.price.toLocaleString()}</span> : null}
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-                    {smartPastePreview.optionalTours && smartPastePreview.optionalTours.length > 0 && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-500 font-semibold w-36 flex-shrink-0">Optional Tours</span>
-                        <ul className="space-y-0.5">
-                          {smartPastePreview.optionalTours.map((ot, i) => (
-                            <li key={i} className="text-gray-800">Day {ot.day} – {ot.title}</li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-                    {smartPastePreview.fixedDownpaymentAmount !== undefined && smartPastePreview.fixedDownpaymentAmount !== "" && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-500 font-semibold w-36 flex-shrink-0">Downpayment</span>
-                        <span className="text-gray-800">₱{Number(smartPastePreview.fixedDownpaymentAmount).toLocaleString()}</span>
-                      </div>
-                    )}
-                    {smartPastePreview.balanceDueDaysBeforeTravel !== undefined && smartPastePreview.balanceDueDaysBeforeTravel !== "" && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-500 font-semibold w-36 flex-shrink-0">Balance Due</span>
-                        <span className="text-gray-800">{smartPastePreview.balanceDueDaysBeforeTravel} days before travel</span>
-                      </div>
-                    )}
-                    {smartPastePreview.additionalInfo?.countriesVisited && smartPastePreview.additionalInfo.countriesVisited.length > 0 && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-500 font-semibold w-36 flex-shrink-0">Countries</span>
-                        <span className="text-gray-800">{smartPastePreview.additionalInfo.countriesVisited.join(' · ')}</span>
-                      </div>
-                    )}
-                    {smartPastePreview.cashFreebies && smartPastePreview.cashFreebies.length > 0 && (
-                      <div className="flex gap-2">
-                        <span className="text-purple-500 font-semibold w-36 flex-shrink-0">Cash Freebies</span>
-                        <ul className="space-y-0.5">
-                          {smartPastePreview.cashFreebies.map((f, i) => (
-                            <li key={i} className="text-gray-800">
-                              {f.type === 'percent_off' ? `${f.value}% off — ` : 'FREE — '}{f.label}
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-                    {Object.keys(smartPastePreview).length === 0 && (
-                      <p className="text-orange-700">Could not detect any structured fields. Try pasting more formatted text.</p>
-                    )}
-                  </div>
                 )}
+                <button
+                  type="button"
+                  onClick={resetSmartPaste}
+                  className="px-4 py-2.5 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold rounded-xl text-sm transition-colors"
+                >
+                  Clear
+                </button>
               </div>
-            )}
-          </div>
-        )}
+
+              {/* Parsed Preview */}
+              {smartPastePreview && (
+                <div className="mt-5 bg-purple-50 border border-purple-200 rounded-xl p-5 space-y-3 text-sm">
+                  <p className="font-bold text-purple-900 text-base">
+                    Detected Fields — {isEdit ? 'compare with the saved tour, then tick the ones to apply' : 'tick the ones to apply'}
+                  </p>
+                  <BrochureFieldReview
+                    result={smartPastePreview}
+                    compareWithSaved={isEdit}
+                    selected={smartPasteSelected}
+                    onToggle={toggleSmartPasteField}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
 
         <SecureForm onSubmit={handleSubmit} className="space-y-6">
           {/* Canary tokens — bot/crawler detection, do NOT remove */}
@@ -1975,9 +1828,9 @@ export default function TourForm(): JSX.Element {
                   <Check className="text-green-600" size={26} />
                 </div>
                 <div>
-                  <h2 className="text-2xl font-bold text-gray-900">Full Cash Payment Freebies</h2>
+                  <h2 className="text-2xl font-bold text-gray-900">Freebies &amp; Perks</h2>
                   <p className="text-gray-600 text-sm">
-                    Perks shown to customers who choose full cash payment at booking
+                    Perks linked to an add-on are taken off that add-on's fee in the booking total
                   </p>
                 </div>
               </div>
@@ -2007,7 +1860,7 @@ export default function TourForm(): JSX.Element {
                 <p className="text-gray-500 text-center py-4">No freebies added yet.</p>
               ) : (
                 formData.cashFreebies.map((fb, idx) => (
-                  <div key={idx} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end bg-gray-50 border border-gray-200 rounded-lg p-4">
+                  <div key={idx} className="grid grid-cols-1 md:grid-cols-7 gap-3 items-end bg-gray-50 border border-gray-200 rounded-lg p-4">
                     <div className="md:col-span-2">
                       <label className="block text-xs font-semibold text-gray-600 mb-1">Freebie Label</label>
                       <input
@@ -2044,6 +1897,30 @@ export default function TourForm(): JSX.Element {
                         placeholder={fb.type === "percent_off" ? "50" : "—"}
                       />
                     </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-gray-600 mb-1">Applies To</label>
+                      <select
+                        value={fb.addOn}
+                        onChange={e => updateCashFreebie(idx, "addOn", e.target.value)}
+                        className="w-full border rounded px-3 py-2 text-sm bg-white"
+                      >
+                        <option value="">Not priced</option>
+                        {(Object.keys(PERK_ADD_ON_LABELS) as TourPerkAddOn[]).map(addOn => (
+                          <option key={addOn} value={addOn}>{PERK_ADD_ON_LABELS[addOn]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-gray-600 mb-1">Eligibility</label>
+                      <select
+                        value={fb.eligibility}
+                        onChange={e => updateCashFreebie(idx, "eligibility", e.target.value)}
+                        className="w-full border rounded px-3 py-2 text-sm bg-white"
+                      >
+                        <option value="full_payment">Full payment only</option>
+                        <option value="any">Any payment</option>
+                      </select>
+                    </div>
                     <div className="flex justify-end">
                       <button
                         type="button"
@@ -2232,7 +2109,7 @@ export default function TourForm(): JSX.Element {
             {/* Cash Freebies list */}
             {formData.cashFreebies.length > 0 && (
               <div className="mt-6">
-                <h3 className="font-bold text-gray-700 text-base border-b pb-2 mb-3">Full Cash Payment Freebies</h3>
+                <h3 className="font-bold text-gray-700 text-base border-b pb-2 mb-3">Freebies &amp; Perks</h3>
                 <ul className="space-y-1">
                   {formData.cashFreebies.map((fb, idx) => (
                     <li key={idx} className="flex items-center gap-2 text-sm text-green-800">
@@ -2242,6 +2119,10 @@ export default function TourForm(): JSX.Element {
                         : fb.type === "free"
                           ? `FREE ${fb.label}`
                           : fb.label}
+                      <span className="text-xs text-gray-500">
+                        {fb.addOn ? `· off ${PERK_ADD_ON_LABELS[fb.addOn].toLowerCase()}` : ""}
+                        {fb.eligibility === "full_payment" ? " · full payment only" : ""}
+                      </span>
                     </li>
                   ))}
                 </ul>
@@ -2357,7 +2238,10 @@ export default function TourForm(): JSX.Element {
                       {range.maxCapacity && range.currentBookings !== undefined && (
                         <span className="ml-auto text-xs font-medium text-gray-600">
                           {range.currentBookings} / {range.maxCapacity} booked
-                          {range.currentBookings >= range.maxCapacity && (
+                          {(range.heldSeats ?? 0) > 0 && (
+                            <span className="ml-1 text-amber-600">+ {range.heldSeats} held</span>
+                          )}
+                          {range.currentBookings + (range.heldSeats ?? 0) >= range.maxCapacity && (
                             <span className="ml-2 text-red-600 font-semibold">(FULL)</span>
                           )}
                         </span>
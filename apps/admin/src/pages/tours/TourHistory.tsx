@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, RotateCcw } from "lucide-react";
+import type { TourRevisionAction } from "@discovergroup/types";
+import {
+  fetchTourById,
+  fetchTourRevisionDiff,
+  fetchTourRevisions,
+  restoreTourRevision,
+  type TourRevision,
+  type TourRevisionDiff,
+} from "../../services/apiClient";
+import { useToast } from "../../components/Toast";
+
+const ACTION_LABELS: Record<TourRevisionAction, string> = {
+  create: "Created",
+  update: "Saved",
+  restore: "Restored",
+  baseline: "Before history",
+};
+
+const ACTION_STYLES: Record<TourRevisionAction, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  restore: "bg-amber-100 text-amber-800",
+  baseline: "bg-gray-100 text-gray-700",
+};
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("en-PH", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+// Scalars inline, lists and objects as indented JSON so entries can be compared
+function FieldValue({ value }: { value: unknown }) {
+  if (value === null || value === undefined || value === "") return <span className="text-gray-400">—</span>;
+  if (typeof value === "object") {
+    return <pre className="text-xs whitespace-pre-wrap break-words max-h-64 overflow-auto">{JSON.stringify(value, null, 2)}</pre>;
+  }
+  return <span className="break-words">{String(value)}</span>;
+}
+
+export default function TourHistory() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { success, error: errorToast } = useToast();
+  const [title, setTitle] = useState("");
+  const [revisions, setRevisions] = useState<TourRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<TourRevisionDiff | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const loadHistory = React.useCallback(async () => {
+    if (!id) return;
+    try {
+      const [tour, list] = await Promise.all([fetchTourById(id), fetchTourRevisions(id)]);
+      setTitle(tour?.title ?? "");
+      setRevisions(list);
+      // Start on the latest save compared with the one before it
+      if (list.length > 0) {
+        setTo(list[0].revision);
+        setFrom(list.length > 1 ? list[1].revision : list[0].revision);
+      }
+    } catch (err) {
+      console.error("Failed to load tour history:", err);
+      errorToast(err instanceof Error ? err.message : "Failed to load tour history");
+    } finally {
+      setLoading(false);
+    }
+  }, [id, errorToast]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  useEffect(() => {
+    if (!id || from === null || to === null) return;
+    let mounted = true;
+    fetchTourRevisionDiff(id, from, to)
+      .then((result) => mounted && setDiff(result))
+      .catch((err) => {
+        console.error("Failed to compare revisions:", err);
+        if (mounted) setDiff(null);
+      });
+    return () => { mounted = false; };
+  }, [id, from, to]);
+
+  const selectRevision = (revision: number) => {
+    const index = revisions.findIndex((r) => r.revision === revision);
+    setTo(revision);
+    setFrom(revisions[index + 1]?.revision ?? revision);
+  };
+
+  const handleRestore = async (revision: number) => {
+    if (!id) return;
+    if (!confirm(`Restore revision ${revision}? The current tour is kept in the history and can be restored again.`)) return;
+
+    try {
+      setRestoring(revision);
+      await restoreTourRevision(id, revision);
+      success(`Revision ${revision} restored`);
+      await loadHistory();
+    } catch (err) {
+      console.error("Restore failed:", err);
+      errorToast(err instanceof Error ? err.message : "Failed to restore revision");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading revision history...</div>
+      </div>
+    );
+  }
+
+  const latest = revisions[0]?.revision;
+
+  return (
+    <div className="p-6">
+      <button
+        onClick={() => navigate(`/tours/${id}/edit`)}
+        className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:bg-white hover:shadow-sm rounded-lg transition-all mb-4"
+      >
+        <ArrowLeft size={20} />
+        <span className="font-medium">Back to Tour</span>
+      </button>
+
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Revision History</h1>
+        <p className="text-gray-600 text-sm mt-1">
+          {title ? `${title} — ` : ""}every save is kept. Pick a revision to see what changed, or restore it.
+        </p>
+      </div>
+
+      {revisions.length === 0 ? (
+        <p className="text-gray-500">This tour has no saved revisions yet. One is recorded on its next save.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200 self-start">
+            {revisions.map((rev) => (
+              <div
+                key={rev.revision}
+                className={`p-4 cursor-pointer ${rev.revision === to ? "bg-blue-50" : "hover:bg-gray-50"}`}
+                onClick={() => selectRevision(rev.revision)}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-gray-900">#{rev.revision}</span>
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${ACTION_STYLES[rev.action]}`}>
+                      {ACTION_LABELS[rev.action]}
+                      {rev.restoredFrom ? ` #${rev.restoredFrom}` : ""}
+                    </span>
+                  </div>
+                  {rev.revision !== latest && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRestore(rev.revision);
+                      }}
+                      disabled={restoring !== null}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      {restoring === rev.revision ? "Restoring..." : "Restore"}
+                    </button>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {rev.authorName} · {formatDateTime(rev.createdAt)}
+                </div>
+                {rev.changedFields.length > 0 && (
+                  <div className="text-xs text-gray-600 mt-1 truncate" title={rev.changedFields.join(", ")}>
+                    {rev.changedFields.length} field(s): {rev.changedFields.join(", ")}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="lg:col-span-2 bg-white rounded-lg shadow-md p-4">
+            <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+              <span className="font-semibold text-gray-700">Compare</span>
+              <select
+                value={from ?? ""}
+                onChange={(e) => setFrom(Number(e.target.value))}
+                className="border rounded px-2 py-1"
+              >
+                {revisions.map((rev) => (
+                  <option key={rev.revision} value={rev.revision}>#{rev.revision}</option>
+                ))}
+              </select>
+              <span className="text-gray-500">with</span>
+              <select
+                value={to ?? ""}
+                onChange={(e) => setTo(Number(e.target.value))}
+                className="border rounded px-2 py-1"
+              >
+                {revisions.map((rev) => (
+                  <option key={rev.revision} value={rev.revision}>#{rev.revision}</option>
+                ))}
+              </select>
+            </div>
+
+            {!diff ? (
+              <p className="text-gray-500 text-sm">Select two revisions to compare.</p>
+            ) : diff.changes.length === 0 ? (
+              <p className="text-gray-500 text-sm">
+                {diff.from === diff.to ? "Pick a different revision to compare against." : "No differences between these revisions."}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm table-fixed">
+                  <thead>
+                    <tr className="text-left text-xs uppercase tracking-wider text-gray-600">
+                      <th className="py-2 pr-4 w-1/5">Field</th>
+                      <th className="py-2 pr-4 w-2/5">#{diff.from}</th>
+                      <th className="py-2 w-2/5">#{diff.to}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 align-top">
+                    {diff.changes.map((change) => (
+                      <tr key={change.path}>
+                        <td className="py-2 pr-4 font-mono text-xs text-gray-900 break-words">{change.path}</td>
+                        <td className="py-2 pr-4 bg-red-50 text-red-900"><FieldValue value={change.before} /></td>
+                        <td className="py-2 bg-green-50 text-green-900"><FieldValue value={change.after} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { CalendarClock, Eye, Send } from "lucide-react";
+import type { Tour, TourStatus, TourStatusChange } from "@discovergroup/types";
+import { createTourPreviewLink, updateTourStatus } from "../../services/apiClient";
+import { useToast } from "../../components/Toast";
+import TourStatusBadge from "./TourStatusBadge";
+
+type PublishingState = Pick<Tour, "status" | "publishAt" | "unpublishAt" | "publishedAt" | "statusUpdatedAt" | "statusUpdatedBy">;
+
+// Status buttons offered from each state
+const ACTIONS: Record<TourStatus, Array<{ status: TourStatus; label: string }>> = {
+  draft: [
+    { status: "in_review", label: "Submit for Review" },
+    { status: "published", label: "Publish Now" },
+  ],
+  in_review: [
+    { status: "draft", label: "Back to Draft" },
+    { status: "published", label: "Publish Now" },
+  ],
+  published: [
+    { status: "draft", label: "Unpublish" },
+    { status: "archived", label: "Archive" },
+  ],
+  archived: [
+    { status: "draft", label: "Reopen as Draft" },
+    { status: "published", label: "Publish Now" },
+  ],
+};
+
+const DONE_MESSAGES: Record<TourStatus, string> = {
+  draft: "Tour moved to draft",
+  in_review: "Tour submitted for review",
+  published: "Tour published",
+  archived: "Tour archived",
+};
+
+function formatDateTime(value?: string | null): string {
+  if (!value) return "";
+  return new Date(value).toLocaleString("en-PH", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+// <input type="datetime-local"> works in local time without a zone
+function toLocalInput(value?: string | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+interface TourPublishingPanelProps {
+  tourId: string;
+  initial: PublishingState;
+}
+
+export default function TourPublishingPanel({ tourId, initial }: TourPublishingPanelProps) {
+  const { success, error: errorToast } = useToast();
+  const [state, setState] = useState<PublishingState>(initial);
+  const [publishAt, setPublishAt] = useState(toLocalInput(initial.publishAt));
+  const [unpublishAt, setUnpublishAt] = useState(toLocalInput(initial.unpublishAt));
+  const [busy, setBusy] = useState(false);
+
+  const status = state.status ?? "published";
+  const canSchedulePublish = status === "draft" || status === "in_review";
+
+  const apply = async (change: TourStatusChange, message: string) => {
+    try {
+      setBusy(true);
+      const updated = await updateTourStatus(tourId, change);
+      setState(updated);
+      setPublishAt(toLocalInput(updated.publishAt));
+      setUnpublishAt(toLocalInput(updated.unpublishAt));
+      success(message);
+    } catch (err) {
+      console.error("Tour status update failed:", err);
+      errorToast(err instanceof Error ? err.message : "Failed to update tour status");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveSchedule = () =>
+    apply(
+      {
+        ...(canSchedulePublish && { publishAt: fromLocalInput(publishAt) }),
+        unpublishAt: fromLocalInput(unpublishAt),
+      },
+      "Schedule saved"
+    );
+
+  const copyPreviewLink = async () => {
+    try {
+      const { url, expiresAt } = await createTourPreviewLink(tourId);
+      await navigator.clipboard.writeText(url);
+      success(`Preview link copied — valid until ${formatDateTime(expiresAt)}`);
+    } catch (err) {
+      console.error("Preview link failed:", err);
+      errorToast(err instanceof Error ? err.message : "Failed to create preview link");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <h2 className="text-lg font-bold text-gray-900">Publishing</h2>
+            <TourStatusBadge tour={state} />
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            {status === "published"
+              ? `Listed on the website${state.publishedAt ? ` since ${formatDateTime(state.publishedAt)}` : ""}.`
+              : "Not listed on the website. Share a preview link to review it before publishing."}
+            {state.statusUpdatedBy && ` Last changed by ${state.statusUpdatedBy} on ${formatDateTime(state.statusUpdatedAt)}.`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {ACTIONS[status].map((action) => (
+            <button
+              key={action.status}
+              type="button"
+              disabled={busy}
+              onClick={() => apply({ status: action.status }, DONE_MESSAGES[action.status])}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 ${
+                action.status === "published"
+                  ? "bg-green-600 hover:bg-green-700 text-white"
+                  : "bg-white border border-gray-300 hover:bg-gray-50 text-gray-700"
+              }`}
+            >
+              {action.status === "published" && <Send size={14} />}
+              {action.label}
+            </button>
+          ))}
+          {status !== "published" && (
+            <button
+              type="button"
+              onClick={copyPreviewLink}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+            >
+              <Eye size={14} />
+              Copy Preview Link
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-5 pt-5 border-t border-gray-100">
+        <div className="flex items-center gap-2 mb-3 text-sm font-semibold text-gray-700">
+          <CalendarClock size={16} />
+          Schedule
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <label className="block text-sm">
+            <span className="text-gray-600">Publish at</span>
+            <input
+              type="datetime-local"
+              value={publishAt}
+              onChange={(e) => setPublishAt(e.target.value)}
+              disabled={!canSchedulePublish}
+              className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 disabled:bg-gray-100"
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-600">Unpublish at</span>
+            <input
+              type="datetime-local"
+              value={unpublishAt}
+              onChange={(e) => setUnpublishAt(e.target.value)}
+              disabled={status === "archived"}
+              className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 disabled:bg-gray-100"
+            />
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={saveSchedule}
+              disabled={busy || status === "archived"}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-gray-900 hover:bg-gray-800 text-white disabled:opacity-50"
+            >
+              Save Schedule
+            </button>
+            <button
+              type="button"
+              onClick={() => apply({ publishAt: null, unpublishAt: null }, "Schedule cleared")}
+              disabled={busy || (!state.publishAt && !state.unpublishAt)}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Times are in your local time zone. A scheduled unpublish archives the tour, e.g. when a timed sale ends.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import type { Tour, TourStatus } from "@discovergroup/types";
+
+const STATUS_LABELS: Record<TourStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  published: "Published",
+  archived: "Archived",
+};
+
+const STATUS_STYLES: Record<TourStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  in_review: "bg-amber-100 text-amber-800",
+  published: "bg-green-100 text-green-800",
+  archived: "bg-red-100 text-red-700",
+};
+
+// Tours saved before the publishing workflow have no status and are live
+export default function TourStatusBadge({ tour }: { tour: Pick<Tour, "status" | "publishAt"> }) {
+  const status = tour.status ?? "published";
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[status]}`}>
+      {STATUS_LABELS[status]}
+      {tour.publishAt && status !== "published" ? " · Scheduled" : ""}
+    </span>
+  );
+}
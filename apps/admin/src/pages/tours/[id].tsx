@@ -12,6 +12,7 @@ interface Tour {
   saleEndDate?: string | null;
   regularPricePerPerson?: number;
   promoPricePerPerson?: number | null;
+  revision?: number;
 }
 
 export default function EditTour(): JSX.Element {
@@ -117,6 +118,7 @@ export default function EditTour(): JSX.Element {
                 promoPricePerPerson: tour.promoPricePerPerson,
                 isSaleEnabled: tour.isSaleEnabled,
                 saleEndDate: tour.saleEndDate,
+                revision: tour.revision ?? 1,
               });
               navigate("/");
             } catch (err) {
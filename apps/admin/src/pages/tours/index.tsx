@@ -4,6 +4,7 @@ import { fetchTours, deleteTour } from "../../services/apiClient";
 import { Link } from "react-router-dom";
 import { Plus, Edit2, Trash2, Calendar, DollarSign, MapPin, Loader } from "lucide-react";
 import { useToast } from "../../components/Toast";
+import TourStatusBadge from "./TourStatusBadge";
 
 export default function ToursList(): JSX.Element {
   const [tours, setTours] = useState<Tour[] | null>(null);
@@ -117,7 +118,10 @@ export default function ToursList(): JSX.Element {
           >
             {/* Card Header */}
             <div className="bg-gradient-to-r from-blue-50 to-purple-50 p-4 border-b border-gray-200">
-              <h3 className="text-lg font-bold text-gray-900 truncate">{tour.title}</h3>
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-lg font-bold text-gray-900 truncate">{tour.title}</h3>
+                <TourStatusBadge tour={tour} />
+              </div>
               <p className="text-sm text-gray-600 mt-1 line-clamp-2">{tour.summary || "No description"}</p>
             </div>
 
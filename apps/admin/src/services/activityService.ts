@@ -0,0 +1,82 @@
+import { getAdminApiBaseUrl } from '../config/apiBase';
+import { authFetch } from '../utils/tokenStorage';
+
+const API_BASE_URL = getAdminApiBaseUrl();
+
+// Bookings are addressed by bookingId, visa applications by _id
+export type ActivitySubjectType = 'bookings' | 'visa-applications';
+
+// note: staff only; message: emailed to the customer; reply: the customer's emailed answer
+export type ActivityKind = 'note' | 'message' | 'reply';
+
+export type ActivityEmailStatus = 'queued' | 'sending' | 'sent' | 'dead';
+
+export interface ActivityAttachment {
+  url: string;
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+export interface ActivityEntry {
+  _id: string;
+  kind: ActivityKind;
+  parentId?: string;
+  body: string;
+  authorId?: string;
+  authorName: string;
+  authorEmail?: string;
+  mentions: { userId: string; name: string }[];
+  attachments: ActivityAttachment[];
+  recipient?: string;
+  emailStatus?: ActivityEmailStatus;
+  createdAt: string;
+}
+
+export interface ActivityThread extends ActivityEntry {
+  replies: ActivityEntry[];
+}
+
+export interface MentionableStaff {
+  id: string;
+  fullName: string;
+}
+
+export interface NewActivityEntry {
+  kind: 'note' | 'message';
+  body: string;
+  parentId?: string;
+  mentions?: string[];
+  files?: File[];
+}
+
+export async function fetchActivity(subject: ActivitySubjectType, id: string): Promise<ActivityThread[]> {
+  const res = await authFetch(`${API_BASE_URL}/admin/activity/${subject}/${encodeURIComponent(id)}`);
+  if (!res.ok) throw new Error('Failed to fetch activity');
+  const data = await res.json();
+  return data.threads;
+}
+
+export async function fetchMentionableStaff(): Promise<MentionableStaff[]> {
+  const res = await authFetch(`${API_BASE_URL}/admin/activity/staff`);
+  if (!res.ok) throw new Error('Failed to fetch staff');
+  return await res.json();
+}
+
+// Add a note or message; sent as multipart so files can go with it
+export async function postActivity(subject: ActivitySubjectType, id: string, entry: NewActivityEntry): Promise<ActivityEntry> {
+  const form = new FormData();
+  form.append('kind', entry.kind);
+  form.append('body', entry.body);
+  if (entry.parentId) form.append('parentId', entry.parentId);
+  if (entry.mentions?.length) form.append('mentions', JSON.stringify(entry.mentions));
+  for (const file of entry.files ?? []) form.append('files', file);
+
+  const res = await authFetch(`${API_BASE_URL}/admin/activity/${subject}/${encodeURIComponent(id)}`, {
+    method: 'POST',
+    body: form,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to post');
+  return data;
+}
@@ -1,8 +1,17 @@
 // Browser-safe client used by the Admin UI to call the API.
-import type { Tour } from "@discovergroup/types";
+import type {
+  Tour,
+  BrochureParseResult,
+  TourPreviewLink,
+  TourRevision,
+  TourRevisionDiff,
+  TourStatusChange,
+  RoleDefinition,
+  RoleUpdate,
+} from "@discovergroup/types";
 import { getAdminApiBaseUrl } from "../config/apiBase";
 import { authFetch } from "../utils/tokenStorage";
-export type { Tour };
+export type { Tour, BrochureParseResult, TourPreviewLink, TourRevision, TourRevisionDiff, TourStatusChange };
 export type TourPayload = Partial<Tour>;
 
 const API_BASE = getAdminApiBaseUrl();
@@ -120,6 +129,7 @@ export async function updateTour(id: string | number, data: TourPayload): Promis
   });
   if (!res.ok) {
     if (res.status === 404) throw new Error("not found");
+    if (res.status === 409) return readTourApiError(res, `update tour ${id}`);
     const text = await res.text().catch(() => res.statusText);
     throw new Error(`Failed to update tour ${id}: ${res.status} ${text}`);
   }
@@ -127,6 +137,66 @@ export async function updateTour(id: string | number, data: TourPayload): Promis
   return normalizeTour(raw);
 }
 
+// Parse pasted brochure text into a tour draft; with a tour id the saved
+// value of each field comes back alongside the parsed one
+export async function parseTourBrochure(text: string, tourId?: string | number): Promise<BrochureParseResult> {
+  const res = await authFetch(`${API_BASE}/admin/tours/parse-brochure`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text, tour: tourId }),
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => res.statusText);
+    throw new Error(`Failed to parse brochure: ${res.status} ${detail}`);
+  }
+  return res.json();
+}
+
+// Throws with the API's own error message when it sends one
+async function readTourApiError(res: Response, action: string): Promise<never> {
+  const body = await res.json().catch(() => ({}));
+  throw new Error(body.error || `Failed to ${action}: ${res.status} ${res.statusText}`);
+}
+
+// ── Tour revisions ──────────────────────────────────────────────────────────
+export async function fetchTourRevisions(tourId: string | number): Promise<TourRevision[]> {
+  const res = await authFetch(`${API_BASE}/admin/tours/${tourId}/revisions`);
+  if (!res.ok) return readTourApiError(res, "fetch tour history");
+  return res.json();
+}
+
+export async function fetchTourRevisionDiff(tourId: string | number, from: number, to: number): Promise<TourRevisionDiff> {
+  const res = await authFetch(`${API_BASE}/admin/tours/${tourId}/revisions/diff?from=${from}&to=${to}`);
+  if (!res.ok) return readTourApiError(res, "compare revisions");
+  return res.json();
+}
+
+// Saves the old revision as a new one; returns the tour as restored
+export async function restoreTourRevision(tourId: string | number, revision: number): Promise<Tour> {
+  const res = await authFetch(`${API_BASE}/admin/tours/${tourId}/revisions/${revision}/restore`, { method: "POST" });
+  if (!res.ok) return readTourApiError(res, "restore revision");
+  return normalizeTour(await res.json());
+}
+
+// ── Tour publishing ─────────────────────────────────────────────────────────
+// Change the publishing status and/or schedule; returns the publishing fields only
+export async function updateTourStatus(tourId: string | number, change: TourStatusChange): Promise<Partial<Tour>> {
+  const res = await authFetch(`${API_BASE}/admin/tours/${tourId}/status`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(change),
+  });
+  if (!res.ok) return readTourApiError(res, "update tour status");
+  return res.json();
+}
+
+// Signed link for viewing an unpublished tour on the public site
+export async function createTourPreviewLink(tourId: string | number): Promise<TourPreviewLink> {
+  const res = await authFetch(`${API_BASE}/admin/tours/${tourId}/preview-link`, { method: "POST" });
+  if (!res.ok) return readTourApiError(res, "create preview link");
+  return res.json();
+}
+
 // Delete a tour
 export async function deleteTour(id: string | number): Promise<void> {
   const res = await authFetch(`${API_BASE}/admin/tours/${id}`, {
@@ -213,4 +283,338 @@ export async function updateCountryAdmin(id: string, data: Partial<AdminCountryP
     throw new Error(`Failed to update country: ${res.status} ${errorMessage}`);
   }
   return res.json();
-}
\ No newline at end of file
+}
+
+export async function deleteCountryAdmin(id: string): Promise<void> {
+  const res = await authFetch(`${API_BASE}/api/countries/${id}`, { method: 'DELETE' });
+  if (!res.ok) {
+    let errorMessage = res.statusText;
+    try {
+      const errorBody = await res.json();
+      errorMessage = errorBody.error || errorBody.message || JSON.stringify(errorBody);
+    } catch {
+      errorMessage = await res.text().catch(() => res.statusText);
+    }
+    throw new Error(`Failed to delete country: ${res.status} ${errorMessage}`);
+  }
+}
+
+// ----- Admin Visa Rules (used by admin UI) -----
+export type VisaRequirement = 'required' | 'not_required' | 'evisa';
+
+// A document visa applications for the destination must include; the key is derived from the label when left out
+export interface VisaDocumentRequirement {
+  key?: string;
+  label: string;
+  description?: string;
+}
+
+export interface VisaRule {
+  _id: string;
+  nationality: string;
+  destination: string;
+  visaRequirement: VisaRequirement;
+  passportValidityMonths: number;
+  visaLeadDays: number;
+  transitVisaRequired: boolean;
+  // Empty uses the standard documents for the visa requirement
+  requiredDocuments?: VisaDocumentRequirement[];
+  validFrom?: string | null;
+  validUntil?: string | null;
+  sourceNote?: string;
+  sourceUrl?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export type VisaRulePayload = Omit<VisaRule, '_id' | 'updatedBy' | 'updatedAt'>;
+
+// Saving a rule re-evaluates the upcoming bookings it affects
+export interface VisaRuleSaveResult {
+  rule: VisaRule;
+  reevaluated: number;
+}
+
+async function readVisaRuleError(res: Response, action: string): Promise<never> {
+  let errorMessage = res.statusText;
+  try {
+    const errorBody = await res.json();
+    errorMessage = errorBody.error || errorBody.message || JSON.stringify(errorBody);
+  } catch {
+    errorMessage = await res.text().catch(() => res.statusText);
+  }
+  throw new Error(`Failed to ${action} visa rule: ${res.status} ${errorMessage}`);
+}
+
+export async function fetchVisaRules(filter: { nationality?: string; destination?: string } = {}): Promise<VisaRule[]> {
+  const params = new URLSearchParams();
+  if (filter.nationality) params.set('nationality', filter.nationality);
+  if (filter.destination) params.set('destination', filter.destination);
+  const query = params.toString();
+  const res = await authFetch(`${API_BASE}/admin/visa-rules${query ? `?${query}` : ''}`);
+  if (!res.ok) return readVisaRuleError(res, 'fetch');
+  return res.json();
+}
+
+export async function createVisaRule(data: VisaRulePayload): Promise<VisaRuleSaveResult> {
+  const res = await authFetch(`${API_BASE}/admin/visa-rules`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) return readVisaRuleError(res, 'create');
+  return res.json();
+}
+
+export async function updateVisaRule(id: string, data: Partial<VisaRulePayload>): Promise<VisaRuleSaveResult> {
+  const res = await authFetch(`${API_BASE}/admin/visa-rules/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) return readVisaRuleError(res, 'update');
+  return res.json();
+}
+
+export async function deleteVisaRule(id: string): Promise<{ success: boolean; reevaluated: number }> {
+  const res = await authFetch(`${API_BASE}/admin/visa-rules/${id}`, { method: 'DELETE' });
+  if (!res.ok) return readVisaRuleError(res, 'delete');
+  return res.json();
+}
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface JobRun {
+  _id: string;
+  jobName: string;
+  status: JobRunStatus;
+  trigger: 'schedule' | 'manual';
+  triggeredBy?: string;
+  instanceId: string;
+  attempts: number;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  schedule: string;
+  timeZone: string;
+  maxAttempts: number;
+  nextRunAt: string | null;
+  lastRun: JobRun | null;
+}
+
+async function readJobError(res: Response, action: string): Promise<never> {
+  let errorMessage = res.statusText;
+  try {
+    const errorBody = await res.json();
+    errorMessage = errorBody.error || errorBody.message || JSON.stringify(errorBody);
+  } catch {
+    errorMessage = await res.text().catch(() => res.statusText);
+  }
+  throw new Error(`Failed to ${action}: ${res.status} ${errorMessage}`);
+}
+
+export async function fetchJobs(): Promise<ScheduledJob[]> {
+  const res = await authFetch(`${API_BASE}/admin/jobs`);
+  if (!res.ok) return readJobError(res, 'fetch jobs');
+  return res.json();
+}
+
+export async function fetchJobRuns(name: string, limit = 20): Promise<JobRun[]> {
+  const res = await authFetch(`${API_BASE}/admin/jobs/${encodeURIComponent(name)}/runs?limit=${limit}`);
+  if (!res.ok) return readJobError(res, 'fetch job runs');
+  return res.json();
+}
+
+export async function triggerJob(name: string): Promise<JobRun> {
+  const res = await authFetch(`${API_BASE}/admin/jobs/${encodeURIComponent(name)}/run`, { method: 'POST' });
+  if (!res.ok) return readJobError(res, 'run job');
+  return res.json();
+}
+
+export type EmailLocale = 'en' | 'tl';
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplateSummary {
+  key: string;
+  name: string;
+  description: string;
+  audience: 'customer' | 'internal';
+  // version 0 means the built-in content is live
+  locales: Array<{ locale: EmailLocale; version: number; updatedAt?: string; authorName?: string }>;
+}
+
+export interface EmailTemplateVariable {
+  type: 'string' | 'number' | 'boolean' | 'date' | 'list';
+  description: string;
+  optional?: boolean;
+  fields?: Record<string, EmailTemplateVariable>;
+}
+
+export interface EmailTemplateDetail {
+  key: string;
+  name: string;
+  description: string;
+  audience: 'customer' | 'internal';
+  locale: EmailLocale;
+  variables: Record<string, EmailTemplateVariable>;
+  bookingPreview: boolean;
+  version: number;
+  content: EmailTemplateContent;
+  defaultContent: EmailTemplateContent;
+  updatedAt?: string;
+  authorName?: string;
+}
+
+export interface EmailTemplateVersion extends Partial<EmailTemplateContent> {
+  _id: string;
+  key: string;
+  locale: EmailLocale;
+  version: number;
+  action: 'update' | 'restore';
+  restoredFrom?: number;
+  subject: string;
+  note?: string;
+  authorName: string;
+  createdAt: string;
+}
+
+export interface EmailTemplatePreview extends EmailTemplateContent {
+  locale: EmailLocale;
+}
+
+export interface EmailPreviewBooking {
+  _id: string;
+  bookingId: string;
+  customerName: string;
+  tourSlug?: string;
+  selectedDate?: string;
+  locale?: EmailLocale;
+}
+
+async function readEmailTemplateError(res: Response, action: string): Promise<never> {
+  let errorMessage = res.statusText;
+  try {
+    const errorBody = await res.json();
+    errorMessage = errorBody.error || errorBody.message || JSON.stringify(errorBody);
+  } catch {
+    errorMessage = await res.text().catch(() => res.statusText);
+  }
+  throw new Error(`Failed to ${action}: ${errorMessage}`);
+}
+
+const emailTemplateUrl = (key: string, locale: EmailLocale) =>
+  `${API_BASE}/admin/email-templates/${encodeURIComponent(key)}/${locale}`;
+
+export async function fetchEmailTemplates(): Promise<EmailTemplateSummary[]> {
+  const res = await authFetch(`${API_BASE}/admin/email-templates`);
+  if (!res.ok) return readEmailTemplateError(res, 'fetch email templates');
+  return res.json();
+}
+
+export async function fetchEmailTemplate(key: string, locale: EmailLocale): Promise<EmailTemplateDetail> {
+  const res = await authFetch(emailTemplateUrl(key, locale));
+  if (!res.ok) return readEmailTemplateError(res, 'fetch email template');
+  return res.json();
+}
+
+// `version` is the version the editor loaded; the save is rejected if someone saved since
+export async function saveEmailTemplate(
+  key: string,
+  locale: EmailLocale,
+  data: EmailTemplateContent & { version: number; note?: string }
+): Promise<EmailTemplateVersion> {
+  const res = await authFetch(emailTemplateUrl(key, locale), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) return readEmailTemplateError(res, 'save email template');
+  return res.json();
+}
+
+export async function previewEmailTemplate(
+  key: string,
+  locale: EmailLocale,
+  data: EmailTemplateContent & { bookingId?: string }
+): Promise<EmailTemplatePreview> {
+  const res = await authFetch(`${emailTemplateUrl(key, locale)}/preview`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) return readEmailTemplateError(res, 'render preview');
+  return res.json();
+}
+
+export async function fetchEmailTemplateVersions(key: string, locale: EmailLocale): Promise<EmailTemplateVersion[]> {
+  const res = await authFetch(`${emailTemplateUrl(key, locale)}/versions`);
+  if (!res.ok) return readEmailTemplateError(res, 'fetch versions');
+  return res.json();
+}
+
+export async function fetchEmailTemplateVersion(key: string, locale: EmailLocale, version: number): Promise<EmailTemplateVersion> {
+  const res = await authFetch(`${emailTemplateUrl(key, locale)}/versions/${version}`);
+  if (!res.ok) return readEmailTemplateError(res, 'fetch version');
+  return res.json();
+}
+
+export async function restoreEmailTemplateVersion(key: string, locale: EmailLocale, version: number): Promise<EmailTemplateVersion> {
+  const res = await authFetch(`${emailTemplateUrl(key, locale)}/versions/${version}/restore`, { method: 'POST' });
+  if (!res.ok) return readEmailTemplateError(res, 'restore version');
+  return res.json();
+}
+
+export async function fetchEmailPreviewBookings(): Promise<EmailPreviewBooking[]> {
+  const res = await authFetch(`${API_BASE}/admin/email-templates/sample-bookings`);
+  if (!res.ok) return readEmailTemplateError(res, 'fetch sample bookings');
+  return res.json();
+}
+
+// ----- Roles and permissions -----
+
+async function readRoleError(res: Response, action: string): Promise<never> {
+  let errorMessage = res.statusText;
+  try {
+    const errorBody = await res.json();
+    errorMessage = errorBody.error || errorBody.message || JSON.stringify(errorBody);
+  } catch {
+    errorMessage = await res.text().catch(() => res.statusText);
+  }
+  throw new Error(`Failed to ${action}: ${errorMessage}`);
+}
+
+export async function fetchRoles(): Promise<RoleDefinition[]> {
+  const res = await authFetch(`${API_BASE}/admin/roles`);
+  if (!res.ok) return readRoleError(res, 'fetch roles');
+  return res.json();
+}
+
+export async function saveRole(key: string, update: RoleUpdate): Promise<RoleDefinition> {
+  const res = await authFetch(`${API_BASE}/admin/roles/${encodeURIComponent(key)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+  if (!res.ok) return readRoleError(res, 'save role');
+  return res.json();
+}
+
+// Deletes a custom role; a built-in role goes back to its default permissions
+export async function deleteRole(key: string): Promise<RoleDefinition | null> {
+  const res = await authFetch(`${API_BASE}/admin/roles/${encodeURIComponent(key)}`, { method: 'DELETE' });
+  if (!res.ok) return readRoleError(res, 'delete role');
+  const body = await res.json();
+  return body && 'key' in body ? body : null;
+}
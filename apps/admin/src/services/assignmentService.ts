@@ -0,0 +1,93 @@
+import { getAdminApiBaseUrl } from '../config/apiBase';
+import { authFetch } from '../utils/tokenStorage';
+
+const API_BASE_URL = getAdminApiBaseUrl();
+
+export type AssignmentQueue = 'bookings' | 'visa-applications';
+
+export type AssignmentStrategy = 'manual' | 'round_robin' | 'least_loaded';
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  manual: 'Manual — staff pick up or are given work by hand',
+  round_robin: 'Round robin — in turn, to whoever was assigned least recently',
+  least_loaded: 'Least loaded — to whoever has the fewest open items',
+};
+
+// Staff member who can be given items in a queue
+export interface QueueAgent {
+  id: string;
+  fullName: string;
+  email: string;
+  role: string;
+  open: number;
+  lastAssignedAt?: string;
+  // False for administrators, who only get work by hand
+  autoAssign: boolean;
+}
+
+export interface QueueWorkload {
+  queue: AssignmentQueue;
+  label: string;
+  strategy: AssignmentStrategy;
+  unassigned: number;
+  agents: QueueAgent[];
+}
+
+export type AssignmentSettings = Record<AssignmentQueue, AssignmentStrategy>;
+
+export interface AssignmentChange {
+  resourceId: string;
+  before: { assignedTo?: string; assignedToName?: string };
+  after: { assignedTo?: string; assignedToName?: string };
+}
+
+// Open items per agent for the queues the signed-in user can see
+export async function fetchWorkload(): Promise<QueueWorkload[]> {
+  const res = await authFetch(`${API_BASE_URL}/admin/assignments/workload`);
+  if (!res.ok) throw new Error('Failed to fetch workload');
+  const data = await res.json();
+  return data.queues;
+}
+
+export async function fetchQueueAgents(queue: AssignmentQueue): Promise<QueueAgent[]> {
+  const res = await authFetch(`${API_BASE_URL}/admin/assignments/${queue}/agents`);
+  if (!res.ok) throw new Error('Failed to fetch agents');
+  return await res.json();
+}
+
+// Assign, reassign or (with null) unassign a booking (by bookingId) or visa application (by _id)
+export async function assignItem(queue: AssignmentQueue, id: string, assigneeId: string | null): Promise<AssignmentChange> {
+  const res = await authFetch(`${API_BASE_URL}/admin/assignments/${queue}/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ assigneeId }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to assign');
+  return data;
+}
+
+// Share out every unassigned open item in the queue
+export async function autoAssignQueue(queue: AssignmentQueue): Promise<{ assigned: number; remaining: number }> {
+  const res = await authFetch(`${API_BASE_URL}/admin/assignments/${queue}/auto-assign`, { method: 'POST' });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to assign items');
+  return data;
+}
+
+export async function getAssignmentSettings(): Promise<AssignmentSettings> {
+  const res = await authFetch(`${API_BASE_URL}/admin/assignments/settings`);
+  if (!res.ok) throw new Error('Failed to fetch assignment settings');
+  return await res.json();
+}
+
+export async function updateAssignmentSettings(settings: Partial<AssignmentSettings>): Promise<AssignmentSettings> {
+  const res = await authFetch(`${API_BASE_URL}/admin/assignments/settings`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(settings),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to update assignment settings');
+  return data;
+}
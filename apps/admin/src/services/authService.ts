@@ -187,6 +187,8 @@ class AuthService {
   // Permission checking methods
   hasPermission(permission: keyof import('../types/auth').RolePermissions, user: User): boolean {
     if (!user || !user.role) return false;
+    // Grants sent by the server win; they include custom roles and edited built-in roles
+    if (user.permissions) return user.permissions.includes(permission);
     const rolePermissions = ROLE_PERMISSIONS[user.role];
     if (!rolePermissions) return false;
     // Defensive: check property exists and is boolean
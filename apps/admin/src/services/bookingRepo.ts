@@ -1,4 +1,18 @@
-import type { Booking, BookingFilters, BookingReportData, DashboardStats, BookingStatus } from '../types/booking';
+import type {
+  Booking,
+  BookingFilters,
+  BookingReportData,
+  DashboardStats,
+  BookingStatus,
+  OverdueBooking,
+  DepartureManifest,
+  Traveller,
+  BuilderSession,
+  BuilderSessionConversion,
+  BuilderSessionStatus,
+  OutboundEmail,
+  ResendableBookingEmail,
+} from '../types/booking';
 import { getAdminApiBaseUrl } from '../config/apiBase';
 
 const API_BASE_URL = getAdminApiBaseUrl();
@@ -15,6 +29,7 @@ export async function fetchBookings(filters?: BookingFilters): Promise<Booking[]
     if (filters.status && filters.status !== 'all') params.append('status', filters.status);
     if (filters.tourId) params.append('tourId', filters.tourId);
     if (filters.customerId) params.append('customerId', filters.customerId);
+    if (filters.assignedTo) params.append('assignedTo', filters.assignedTo);
   }
   const res = await fetch(`${API_BASE_URL}/admin/bookings?${params.toString()}`, {
     headers: { 'Authorization': `Bearer ${getToken()}` },
@@ -33,16 +48,132 @@ export async function fetchBookingById(bookingId: string): Promise<Booking | nul
 }
 
 // Update booking status
-export async function updateBookingStatus(bookingId: string, status: BookingStatus, notes?: string): Promise<Booking | null> {
+export async function updateBookingStatus(
+  bookingId: string,
+  status: BookingStatus,
+  options: { notes?: string; reason?: string } = {}
+): Promise<Booking | null> {
   const res = await fetch(`${API_BASE_URL}/admin/bookings/${bookingId}/status`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
-    body: JSON.stringify({ status, notes }),
+    body: JSON.stringify({ status, notes: options.notes, reason: options.reason }),
   });
+  if (res.status === 409) {
+    // Transition not allowed by the booking lifecycle
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'This status change is not allowed');
+  }
   if (!res.ok) return null;
   return await res.json();
 }
 
+// Bookings with at least one overdue installment
+export async function fetchOverdueInstallments(): Promise<OverdueBooking[]> {
+  const res = await fetch(`${API_BASE_URL}/admin/bookings/installments/overdue`, {
+    headers: { 'Authorization': `Bearer ${getToken()}` },
+  });
+  if (!res.ok) throw new Error('Failed to fetch overdue installments');
+  return await res.json();
+}
+
+// Record an installment paid outside the online checkout (cash, bank deposit)
+export async function markInstallmentPaid(bookingId: string, installmentId: string, reference?: string): Promise<Booking> {
+  const res = await fetch(`${API_BASE_URL}/admin/bookings/${bookingId}/installments/${installmentId}/paid`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+    body: JSON.stringify({ reference }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to record installment payment');
+  }
+  return await res.json();
+}
+
+// Cancellation requests waiting for an admin decision
+export async function fetchCancellationRequests(): Promise<Booking[]> {
+  const res = await fetch(`${API_BASE_URL}/admin/bookings/cancellations`, {
+    headers: { 'Authorization': `Bearer ${getToken()}` },
+  });
+  if (!res.ok) throw new Error('Failed to fetch cancellation requests');
+  return await res.json();
+}
+
+// Cancel the booking and refund it; amount defaults to the policy estimate
+export async function approveCancellation(
+  bookingId: string,
+  options: { amount?: number; notes?: string } = {}
+): Promise<Booking> {
+  const res = await fetch(`${API_BASE_URL}/admin/bookings/${bookingId}/cancellation/approve`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+    body: JSON.stringify(options),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to approve cancellation');
+  }
+  return await res.json();
+}
+
+export async function rejectCancellation(bookingId: string, notes?: string): Promise<Booking> {
+  const res = await fetch(`${API_BASE_URL}/admin/bookings/${bookingId}/cancellation/reject`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+    body: JSON.stringify({ notes }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to reject cancellation');
+  }
+  return await res.json();
+}
+
+// Confirm a manual (cash / bank transfer) refund has been paid out
+export async function markRefundCompleted(bookingId: string): Promise<Booking> {
+  const res = await fetch(`${API_BASE_URL}/admin/bookings/${bookingId}/refund/completed`, {
+    method: 'PATCH',
+    headers: { 'Authorization': `Bearer ${getToken()}` },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to record refund');
+  }
+  return await res.json();
+}
+
+// Travellers grouped by tour departure; defaults to departures from today on
+export async function fetchDepartureManifest(
+  filter: { from?: string; to?: string; tourSlug?: string } = {}
+): Promise<DepartureManifest[]> {
+  const params = new URLSearchParams();
+  if (filter.from) params.append('from', filter.from);
+  if (filter.to) params.append('to', filter.to);
+  if (filter.tourSlug) params.append('tourSlug', filter.tourSlug);
+  const res = await fetch(`${API_BASE_URL}/admin/bookings/manifest?${params.toString()}`, {
+    headers: { 'Authorization': `Bearer ${getToken()}` },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to fetch departure manifest');
+  }
+  return await res.json();
+}
+
+// Replace a booking's traveller list; the API re-scores visa readiness for each
+export async function updateBookingTravellers(bookingId: string, travellers: Traveller[]): Promise<Booking> {
+  const res = await fetch(`${API_BASE_URL}/admin/bookings/${bookingId}/travellers`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+    body: JSON.stringify({ travellers }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to update travellers');
+  }
+  return await res.json();
+}
+
 // Delete booking
 export async function deleteBooking(bookingId: string): Promise<boolean> {
   const res = await fetch(`${API_BASE_URL}/admin/bookings/${bookingId}`, {
@@ -138,4 +269,85 @@ export async function batchDeleteBookings(bookingIds: string[]): Promise<{ count
   });
   if (!res.ok) throw new Error('Failed to delete bookings');
   return await res.json();
-}
\ No newline at end of file
+}
+// Itineraries customers saved in the tour builder, most recently edited first
+export async function fetchBuilderSessions(
+  filter: { status?: BuilderSessionStatus | 'all'; q?: string } = {}
+): Promise<BuilderSession[]> {
+  const params = new URLSearchParams();
+  if (filter.status && filter.status !== 'all') params.append('status', filter.status);
+  if (filter.q) params.append('q', filter.q);
+  const res = await fetch(`${API_BASE_URL}/admin/builder-sessions?${params.toString()}`, {
+    headers: { 'Authorization': `Bearer ${getToken()}` },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to fetch builder sessions');
+  }
+  return await res.json();
+}
+
+// Book a saved itinerary for the customer; the API re-prices it and holds seats
+export async function convertBuilderSession(
+  id: string,
+  conversion: BuilderSessionConversion
+): Promise<{ session: BuilderSession; booking: Booking }> {
+  const res = await fetch(`${API_BASE_URL}/admin/builder-sessions/${id}/convert`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+    body: JSON.stringify(conversion),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to create booking');
+  }
+  return await res.json();
+}
+
+// Emails sent for a booking, newest first, including ones still being retried
+export async function fetchBookingEmails(bookingId: string): Promise<OutboundEmail[]> {
+  const res = await fetch(`${API_BASE_URL}/admin/bookings/${bookingId}/emails`, {
+    headers: { 'Authorization': `Bearer ${getToken()}` },
+  });
+  if (!res.ok) throw new Error('Failed to fetch email history');
+  return await res.json();
+}
+
+// Queue the booking's confirmation or sales alert again, rendered from the booking as it is now
+export async function resendBookingEmail(
+  bookingId: string,
+  templateKey: ResendableBookingEmail
+): Promise<{ success: boolean; status?: OutboundEmail['status']; error?: string }> {
+  const res = await fetch(`${API_BASE_URL}/admin/bookings/${bookingId}/emails/resend`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+    body: JSON.stringify({ templateKey }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to resend email');
+  }
+  return await res.json();
+}
+
+// Emails that ran out of delivery attempts
+export async function fetchUndeliveredEmails(): Promise<OutboundEmail[]> {
+  const res = await fetch(`${API_BASE_URL}/admin/email-outbox?status=dead`, {
+    headers: { 'Authorization': `Bearer ${getToken()}` },
+  });
+  if (!res.ok) throw new Error('Failed to fetch undelivered emails');
+  return await res.json();
+}
+
+// Send a dead-lettered email again now, with a fresh set of attempts
+export async function retryOutboundEmail(id: string): Promise<OutboundEmail> {
+  const res = await fetch(`${API_BASE_URL}/admin/email-outbox/${id}/retry`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${getToken()}` },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to retry email');
+  }
+  return await res.json();
+}
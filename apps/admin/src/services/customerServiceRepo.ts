@@ -6,6 +6,7 @@ import {
   CSRTask,
   CustomerTourHistory,
   CustomerServiceStats,
+  CSRAgent,
   TaskFilter,
 } from '../types/customerService';
 import { getAdminApiBaseUrl } from '../config/apiBase';
@@ -32,8 +33,18 @@ export const customerServiceRepo = {
     return await res.json();
   },
 
-  async getAllInquiries(): Promise<CustomerInquiry[]> {
-    const res = await fetch(`${API_BASE_URL}/admin/inquiries`, {
+  async getCustomerById(customerId: string): Promise<Customer | null> {
+    const res = await fetch(`${API_BASE_URL}/admin/customers/${encodeURIComponent(customerId)}`, {
+      headers: { 'Authorization': `Bearer ${getToken()}` },
+    });
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error('Failed to fetch customer');
+    return await res.json();
+  },
+
+  async getAllInquiries(customerId?: string): Promise<CustomerInquiry[]> {
+    const query = customerId ? `?customerId=${encodeURIComponent(customerId)}` : '';
+    const res = await fetch(`${API_BASE_URL}/admin/inquiries${query}`, {
       headers: { 'Authorization': `Bearer ${getToken()}` },
     });
     if (!res.ok) throw new Error('Failed to fetch inquiries');
@@ -50,6 +61,16 @@ export const customerServiceRepo = {
     return await res.json();
   },
 
+  async addInquiryResponse(id: string, message: string, isFromCustomer = false): Promise<CustomerInquiry> {
+    const res = await fetch(`${API_BASE_URL}/admin/inquiries/${id}/responses`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+      body: JSON.stringify({ message, isFromCustomer }),
+    });
+    if (!res.ok) throw new Error('Failed to add response');
+    return await res.json();
+  },
+
   async getAllTasks(filter?: TaskFilter): Promise<CSRTask[]> {
     const res = await fetch(`${API_BASE_URL}/admin/tasks/search`, {
       method: 'POST',
@@ -89,8 +110,16 @@ export const customerServiceRepo = {
     return await res.json();
   },
 
+  async deleteTask(id: string): Promise<void> {
+    const res = await fetch(`${API_BASE_URL}/admin/tasks/${id}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${getToken()}` },
+    });
+    if (!res.ok) throw new Error('Failed to delete task');
+  },
+
   async getCustomerTourHistory(customerId: string): Promise<CustomerTourHistory[]> {
-    const res = await fetch(`${API_BASE_URL}/admin/customers/${customerId}/tour-history`, {
+    const res = await fetch(`${API_BASE_URL}/admin/customers/${encodeURIComponent(customerId)}/tour-history`, {
       headers: { 'Authorization': `Bearer ${getToken()}` },
     });
     if (!res.ok) throw new Error('Failed to fetch tour history');
@@ -104,5 +133,13 @@ export const customerServiceRepo = {
     if (!res.ok) throw new Error('Failed to fetch customer service stats');
     return await res.json();
   },
+
+  async getAgents(): Promise<CSRAgent[]> {
+    const res = await fetch(`${API_BASE_URL}/admin/customer-service/agents`, {
+      headers: { 'Authorization': `Bearer ${getToken()}` },
+    });
+    if (!res.ok) throw new Error('Failed to fetch agents');
+    return await res.json();
+  },
 };
 
@@ -0,0 +1,130 @@
+import { getAdminApiBaseUrl } from '../config/apiBase';
+import { authFetch } from '../utils/tokenStorage';
+
+const API_BASE_URL = getAdminApiBaseUrl();
+
+// Messenger conversations and the transactions read out of them; the Page token stays on the server
+
+export type MessengerConversationStatus = 'new' | 'in-progress' | 'converted' | 'closed';
+
+export type ExtractedTransactionStatus = 'lead' | 'quoted' | 'booked' | 'lost';
+
+export interface MessengerConversation {
+  _id: string;
+  pageId: string;
+  psid: string;
+  threadId?: string;
+  customerName: string;
+  status: MessengerConversationStatus;
+  lastMessageAt: string;
+  lastMessageText?: string;
+  createdAt: string;
+}
+
+export interface MessengerMessage {
+  _id: string;
+  mid: string;
+  // inbound: from the customer; outbound: from the Page
+  direction: 'inbound' | 'outbound';
+  text: string;
+  attachments: { type: string; url?: string }[];
+  sentAt: string;
+  sentBy?: string;
+}
+
+export interface ExtractedTransaction {
+  _id: string;
+  // Populated in the review queue, an id elsewhere
+  conversation: string | Pick<MessengerConversation, '_id' | 'customerName' | 'psid' | 'status'>;
+  status: ExtractedTransactionStatus;
+  customerName: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  tourSlug?: string;
+  tourTitle?: string;
+  selectedDate?: string;
+  preferredDates?: string;
+  numberOfPeople?: number;
+  amounts: number[];
+  editedFields: string[];
+  sourceMessageIds: string[];
+  extractedAt: string;
+  notes?: string;
+  bookingId?: string;
+  convertedAt?: string;
+  convertedBy?: string;
+  updatedAt: string;
+}
+
+export interface ConversationDetail {
+  conversation: MessengerConversation;
+  messages: MessengerMessage[];
+  transactions: ExtractedTransaction[];
+}
+
+export interface TransactionUpdate {
+  customerName?: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  tourSlug?: string;
+  selectedDate?: string;
+  numberOfPeople?: number | null;
+  notes?: string;
+  status?: 'lead' | 'quoted' | 'lost';
+}
+
+async function request<T>(path: string, init: { method?: string; body?: unknown } = {}, failure: string): Promise<T> {
+  const res = await authFetch(`${API_BASE_URL}/admin/messenger${path}`, {
+    method: init.method ?? 'GET',
+    ...(init.body !== undefined && {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(init.body),
+    }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || failure);
+  return data as T;
+}
+
+export async function fetchConversations(status?: MessengerConversationStatus): Promise<MessengerConversation[]> {
+  const query = status ? `?status=${encodeURIComponent(status)}` : '';
+  return request(`/conversations${query}`, {}, 'Failed to fetch conversations');
+}
+
+export async function fetchConversation(id: string): Promise<ConversationDetail> {
+  return request(`/conversations/${encodeURIComponent(id)}`, {}, 'Failed to fetch conversation');
+}
+
+export async function updateConversationStatus(id: string, status: MessengerConversationStatus): Promise<MessengerConversation> {
+  return request(`/conversations/${encodeURIComponent(id)}`, { method: 'PATCH', body: { status } }, 'Failed to update conversation');
+}
+
+export async function sendReply(id: string, text: string): Promise<MessengerMessage> {
+  return request(`/conversations/${encodeURIComponent(id)}/reply`, { method: 'POST', body: { text } }, 'Failed to send reply');
+}
+
+// Re-read the conversation into its open transaction
+export async function extractTransaction(id: string): Promise<ExtractedTransaction> {
+  return request(`/conversations/${encodeURIComponent(id)}/extract`, { method: 'POST' }, 'Failed to extract transaction');
+}
+
+// Pull recent conversations from Meta, for history the webhook did not deliver
+export async function syncConversations(): Promise<{ conversations: number; messages: number }> {
+  return request('/sync', { method: 'POST' }, 'Failed to sync with Meta');
+}
+
+export async function fetchTransactions(status?: ExtractedTransactionStatus): Promise<ExtractedTransaction[]> {
+  const query = status ? `?status=${encodeURIComponent(status)}` : '';
+  return request(`/transactions${query}`, {}, 'Failed to fetch transactions');
+}
+
+export async function updateTransaction(id: string, update: TransactionUpdate): Promise<ExtractedTransaction> {
+  return request(`/transactions/${encodeURIComponent(id)}`, { method: 'PUT', body: update }, 'Failed to update transaction');
+}
+
+export async function convertTransaction(
+  id: string,
+  input: { paymentType: 'full' | 'downpayment'; notes?: string; paidAmount?: number; paymentReference?: string }
+): Promise<{ transaction: ExtractedTransaction; booking: { bookingId: string; totalAmount: number } }> {
+  return request(`/transactions/${encodeURIComponent(id)}/convert`, { method: 'POST', body: input }, 'Failed to create booking');
+}
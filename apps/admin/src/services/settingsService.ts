@@ -1,5 +1,6 @@
 import { getAdminApiBaseUrl } from '../config/apiBase';
 import { authFetch } from '../utils/tokenStorage';
+import type { CancellationPolicy } from '../types/booking';
 
 const API_BASE_URL = getAdminApiBaseUrl();
 
@@ -70,6 +71,24 @@ export async function updateAddonSettings(settings: Partial<AddonSettings>): Pro
   return data.settings;
 }
 
+export async function getCancellationPolicy(): Promise<CancellationPolicy> {
+  const res = await authFetch(`${API_BASE_URL}/admin/settings/cancellation-policy`);
+  if (!res.ok) throw new Error('Failed to fetch cancellation policy');
+  const data = await res.json();
+  return data.policy;
+}
+
+export async function updateCancellationPolicy(policy: Partial<CancellationPolicy>): Promise<CancellationPolicy> {
+  const res = await authFetch(`${API_BASE_URL}/admin/settings/cancellation-policy`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(policy),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to update cancellation policy');
+  return data.policy;
+}
+
 export async function getMetaSettings(): Promise<MetaSettings> {
   const res = await authFetch(`${API_BASE_URL}/admin/settings`);
   if (!res.ok) throw new Error('Failed to fetch Meta settings');
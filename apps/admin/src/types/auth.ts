@@ -1,3 +1,7 @@
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS, type Permission } from '@discovergroup/types';
+
+export type { Permission };
+
 export enum UserRole {
   SUPER_ADMIN = 'super_admin',
   ADMINISTRATOR = 'administrator',
@@ -23,6 +27,8 @@ export interface User {
   age: number;
   birthDate: string;
   role: UserRole;
+  // What the role may do, as granted on the server; custom roles only have this
+  permissions?: Permission[];
   department?: string;
   isActive: boolean;
   isArchived?: boolean;
@@ -54,155 +60,21 @@ export interface AuthState {
   error: string | null;
 }
 
-export interface RolePermissions {
-  canAccessBookings: boolean;
-  canAccessTours: boolean;
-  canAccessVisaAssistance: boolean;
-  canAccessCustomerService: boolean;
-  canAccessSales: boolean;
-  canAccessReports: boolean;
-  canAccessUserManagement: boolean;
-  canAccessSettings: boolean;
-  canManageBookingStatus: boolean;
-  canCreateBookings: boolean;
-  canCancelBookings: boolean;
-  canViewAllBookings: boolean;
-  canCreateTours: boolean;
-  canEditTours: boolean;
-  canDeleteTours: boolean;
-  canProcessVisaApplications: boolean;
-  canUpdateVisaStatus: boolean;
-  canRespondToInquiries: boolean;
-  canAccessCustomerData: boolean;
+// One flag per entry in the shared permission catalogue
+export type RolePermissions = Record<Permission, boolean>;
+
+function toRolePermissions(granted: readonly Permission[]): RolePermissions {
+  return Object.fromEntries(PERMISSIONS.map(({ key }) => [key, granted.includes(key)])) as RolePermissions;
 }
 
+// Default grants of the built-in roles; the API has the live ones (see User.permissions)
 export const ROLE_PERMISSIONS: Record<UserRole, RolePermissions> = {
-  [UserRole.SUPER_ADMIN]: {
-    canAccessBookings: true,
-    canAccessTours: true,
-    canAccessVisaAssistance: true,
-    canAccessCustomerService: true,
-    canAccessSales: true,
-    canAccessReports: true,
-    canAccessUserManagement: true,
-    canAccessSettings: true,
-    canManageBookingStatus: true,
-    canCreateBookings: true,
-    canCancelBookings: true,
-    canViewAllBookings: true,
-    canCreateTours: true,
-    canEditTours: true,
-    canDeleteTours: true,
-    canProcessVisaApplications: true,
-    canUpdateVisaStatus: true,
-    canRespondToInquiries: true,
-    canAccessCustomerData: true,
-  },
-  [UserRole.ADMINISTRATOR]: {
-    canAccessBookings: true,
-    canAccessTours: true,
-    canAccessVisaAssistance: true,
-    canAccessCustomerService: true,
-    canAccessSales: true,
-    canAccessReports: true,
-    canAccessUserManagement: true,
-    canAccessSettings: true,
-    canManageBookingStatus: true,
-    canCreateBookings: true,
-    canCancelBookings: true,
-    canViewAllBookings: true,
-    canCreateTours: true,
-    canEditTours: true,
-    canDeleteTours: true,
-    canProcessVisaApplications: true,
-    canUpdateVisaStatus: true,
-    canRespondToInquiries: true,
-    canAccessCustomerData: true,
-  },
-  [UserRole.WEB_DEVELOPER]: {
-    canAccessBookings: true,
-    canAccessTours: true,
-    canAccessVisaAssistance: true,
-    canAccessCustomerService: true,
-    canAccessSales: true,
-    canAccessReports: true,
-    canAccessUserManagement: true,
-    canAccessSettings: true,
-    canManageBookingStatus: true,
-    canCreateBookings: true,
-    canCancelBookings: true,
-    canViewAllBookings: true,
-    canCreateTours: true,
-    canEditTours: true,
-    canDeleteTours: true,
-    canProcessVisaApplications: true,
-    canUpdateVisaStatus: true,
-    canRespondToInquiries: true,
-    canAccessCustomerData: true,
-  },
-  [UserRole.BOOKING_DEPARTMENT]: {
-    canAccessBookings: true,
-    canAccessTours: true,
-    canAccessVisaAssistance: false,
-    canAccessCustomerService: true,
-    canAccessSales: true,
-    canAccessReports: true,
-    canAccessUserManagement: false,
-    canAccessSettings: false,
-    canManageBookingStatus: true,
-    canCreateBookings: true,
-    canCancelBookings: true,
-    canViewAllBookings: true,
-    canCreateTours: true,
-    canEditTours: true,
-    canDeleteTours: false,
-    canProcessVisaApplications: false,
-    canUpdateVisaStatus: false,
-    canRespondToInquiries: true,
-    canAccessCustomerData: true,
-  },
-  [UserRole.VISA_DEPARTMENT]: {
-    canAccessBookings: false,
-    canAccessTours: false,
-    canAccessVisaAssistance: true,
-    canAccessCustomerService: true,
-    canAccessSales: false,
-    canAccessReports: true,
-    canAccessUserManagement: false,
-    canAccessSettings: false,
-    canManageBookingStatus: false,
-    canCreateBookings: false,
-    canCancelBookings: false,
-    canViewAllBookings: true,
-    canCreateTours: false,
-    canEditTours: false,
-    canDeleteTours: false,
-    canProcessVisaApplications: true,
-    canUpdateVisaStatus: true,
-    canRespondToInquiries: true,
-    canAccessCustomerData: true,
-  },
-  [UserRole.CSR_DEPARTMENT]: {
-    canAccessBookings: true,
-    canAccessTours: false,
-    canAccessVisaAssistance: false,
-    canAccessCustomerService: true,
-    canAccessSales: false,
-    canAccessReports: false,
-    canAccessUserManagement: false,
-    canAccessSettings: false,
-    canManageBookingStatus: true,
-    canCreateBookings: false,
-    canCancelBookings: true,
-    canViewAllBookings: true,
-    canCreateTours: false,
-    canEditTours: false,
-    canDeleteTours: false,
-    canProcessVisaApplications: false,
-    canUpdateVisaStatus: false,
-    canRespondToInquiries: true,
-    canAccessCustomerData: true,
-  },
+  [UserRole.SUPER_ADMIN]: toRolePermissions(DEFAULT_ROLE_PERMISSIONS.super_admin),
+  [UserRole.ADMINISTRATOR]: toRolePermissions(DEFAULT_ROLE_PERMISSIONS.administrator),
+  [UserRole.WEB_DEVELOPER]: toRolePermissions(DEFAULT_ROLE_PERMISSIONS.web_developer),
+  [UserRole.BOOKING_DEPARTMENT]: toRolePermissions(DEFAULT_ROLE_PERMISSIONS.booking_department),
+  [UserRole.VISA_DEPARTMENT]: toRolePermissions(DEFAULT_ROLE_PERMISSIONS.visa_department),
+  [UserRole.CSR_DEPARTMENT]: toRolePermissions(DEFAULT_ROLE_PERMISSIONS.csr_department),
 };
 
 export const ROLE_DISPLAY_NAMES: Record<UserRole, string> = {
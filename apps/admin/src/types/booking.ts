@@ -1,6 +1,35 @@
 // Booking-related types for admin panel
 
-export type BookingStatus = 'confirmed' | 'pending' | 'cancelled' | 'completed';
+export type BookingStatus =
+  | 'pending'
+  | 'awaiting_payment'
+  | 'partially_paid'
+  | 'confirmed'
+  | 'completed'
+  | 'cancelled'
+  | 'refunded';
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'Pending',
+  awaiting_payment: 'Awaiting Payment',
+  partially_paid: 'Partially Paid',
+  confirmed: 'Confirmed',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+export interface BookingStatusHistoryEntry {
+  from: BookingStatus | null;
+  to: BookingStatus;
+  actor: {
+    type: 'customer' | 'admin' | 'system' | 'payment_gateway';
+    id?: string;
+    name?: string;
+  };
+  reason?: string;
+  at: string; // ISO date string
+}
 
 export type PaymentType = 'full' | 'downpayment';
 
@@ -22,6 +51,123 @@ export interface BookingTour {
   };
 }
 
+export type InstallmentStatus = 'pending' | 'paid' | 'overdue';
+
+export interface Installment {
+  id: string;
+  sequence: number;
+  kind: 'installment' | 'final_balance';
+  dueDate: string; // ISO date string
+  amount: number;
+  status: InstallmentStatus;
+  paidDate?: string;
+  paymentIntentId?: string;
+  lastReminderAt?: string;
+  reminderCount?: number;
+}
+
+export interface InstallmentPlan {
+  downpaymentAmount: number;
+  installmentCount: number;
+  monthlyAmount: number;
+  balanceDueDate: string; // ISO date string
+  balanceDueDaysBeforeTravel: number;
+  payments: Installment[];
+}
+
+export interface BalanceSummary {
+  outstanding: number;
+  overdueAmount: number;
+  overdueCount: number;
+  nextDue?: Installment;
+  balanceDueDate?: string;
+}
+
+export interface RefundEstimate {
+  daysBeforeDeparture: number;
+  refundPercent: number;
+  paidAmount: number;
+  nonRefundableAmount: number;
+  refundAmount: number;
+  computedAt: string;
+}
+
+export interface Refund {
+  provider: 'paymongo' | 'manual';
+  refundId?: string;
+  amount: number;
+  status: 'pending' | 'succeeded' | 'failed';
+  expectedBy?: string;
+  processedAt?: string;
+  error?: string;
+}
+
+export interface BookingCancellation {
+  status: 'requested' | 'approved' | 'rejected';
+  reason?: string;
+  requestedAt: string;
+  requestedBy: BookingStatusHistoryEntry['actor'];
+  estimate: RefundEstimate;
+  decidedAt?: string;
+  decidedBy?: BookingStatusHistoryEntry['actor'];
+  decisionNotes?: string;
+  refund?: Refund;
+}
+
+export interface CancellationTier {
+  minDaysBeforeDeparture: number;
+  refundPercent: number;
+}
+
+export interface CancellationPolicy {
+  cancellationPolicyHours: number;
+  refundProcessingDays: number;
+  tiers: CancellationTier[];
+  nonRefundableAddOns: string[];
+}
+
+export type VisaReadinessStatus = 'ready' | 'attention' | 'not_ready';
+
+export interface VisaReadinessIssue {
+  code: string;
+  message: string;
+  level: 'critical' | 'high' | 'medium' | 'low';
+  country?: string;
+}
+
+export interface VisaReadinessSnapshot {
+  score: number;
+  status: VisaReadinessStatus;
+  blockers: VisaReadinessIssue[];
+  warnings: VisaReadinessIssue[];
+  nextActions: string[];
+  ruleSummary: {
+    nationality?: string;
+    countries: string[];
+    transitCountries?: string[];
+    visaRequiredCountries: string[];
+    evisaCountries: string[];
+    transitVisaRequiredCountries?: string[];
+  };
+  evaluatedAt: string;
+}
+
+export type RoomSharing = 'single' | 'twin' | 'double' | 'triple' | 'any';
+
+// One person on the booking; visaReadiness is computed by the API
+export interface Traveller {
+  fullName: string;
+  nationality?: string;
+  passportNumber?: string;
+  passportExpiry?: string;
+  dateOfBirth?: string;
+  roomSharing?: RoomSharing;
+  roomSharingWith?: string;
+  dietaryNeeds?: string;
+  isLead?: boolean;
+  visaReadiness?: VisaReadinessSnapshot;
+}
+
 export interface Booking {
   id: string;
   bookingId: string;
@@ -37,6 +183,8 @@ export interface Booking {
   paidAmount: number;
   paymentType: PaymentType;
   status: BookingStatus;
+  statusHistory?: BookingStatusHistoryEntry[];
+  allowedTransitions?: BookingStatus[]; // legal next statuses, computed by the API
   bookingDate: string; // ISO date string
   paymentIntentId?: string;
   notes?: string;
@@ -45,8 +193,41 @@ export interface Booking {
   appointmentPurpose?: string;
   archived?: boolean;
   archivedAt?: string;
+  installmentPlan?: InstallmentPlan;
+  cancellation?: BookingCancellation;
+  nationality?: string;
+  travellers?: Traveller[];
+  visaReadinessStatus?: VisaReadinessStatus;
+  visaReadinessSnapshot?: VisaReadinessSnapshot;
+  assignedTo?: string; // staff user id
+  assignedToName?: string;
+  assignedAt?: string; // ISO date string
+}
+
+export interface ManifestTraveller extends Traveller {
+  bookingId: string;
+  bookingStatus: BookingStatus;
+  contactName: string;
+  contactEmail: string;
+  contactPhone?: string;
 }
 
+// Travellers for one tour departure, as returned by /admin/bookings/manifest
+export interface DepartureManifest {
+  departureDate: string;
+  selectedDate: string;
+  tourSlug: string;
+  tourTitle: string;
+  bookingCount: number;
+  passengerCount: number;
+  travellers: ManifestTraveller[];
+  missingTravellerDetails: number;
+  notReadyCount: number;
+}
+
+// Row in the admin overdue installments list
+export type OverdueBooking = Booking & { balance: BalanceSummary };
+
 export interface BookingFilters {
   startDate?: string;
   endDate?: string;
@@ -54,6 +235,7 @@ export interface BookingFilters {
   tourId?: string;
   period?: 'day' | 'week' | 'month' | 'year';
   customerId?: string;
+  assignedTo?: 'me' | 'unassigned' | string; // or a staff user id
 }
 
 export interface BookingReportData {
@@ -84,4 +266,103 @@ export interface DashboardStats {
     full: number;
     downpayment: number;
   };
-}
\ No newline at end of file
+}
+// ── Builder sessions ──────────────────────────────────────────────────────────
+// Custom itineraries saved from the customer tour builder
+
+export type BuilderSessionStatus = 'active' | 'converted';
+
+export interface BuilderDay {
+  day: number;
+  date?: string;
+  city?: string;
+  country?: string;
+  tourSlug: string;
+  tourTitle: string;
+  custom: boolean; // from an inserted tour rather than the base tour
+}
+
+export interface BuilderQuote {
+  perPerson: number;
+  basePerPerson: number;
+  customRoutesPerPerson: number;
+  promoBannerDiscountPerPerson: number;
+  passengers: number;
+  lineItems: Array<{ code: string; label: string; unitAmount: number; quantity: number; amount: number }>;
+  totalAmount: number;
+  paidAmount: number;
+  computedAt: string;
+}
+
+export interface BuilderSession {
+  _id: string;
+  shareToken: string;
+  shareUrl: string;
+  status: BuilderSessionStatus;
+  baseTourSlug: string;
+  baseTourTitle: string;
+  selectedDate?: string;
+  passengers: number;
+  infants: number;
+  joinDay?: number;
+  leaveDay?: number;
+  customRoutes: Array<{ tourSlug: string; insertAfterDay: number }>;
+  days: BuilderDay[];
+  quote?: BuilderQuote;
+  quoteError?: string; // why the itinerary could not be priced at the last save
+  customerName?: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  bookingId?: string;
+  convertedAt?: string;
+  convertedBy?: string;
+  lastViewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BuilderSessionConversion {
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  paymentType: PaymentType;
+  notes?: string;
+  // Payment the customer already made; recorded with its receipt or deposit reference
+  paidAmount?: number;
+  paymentReference?: string;
+}
+export type OutboundEmailStatus = 'queued' | 'sending' | 'sent' | 'dead';
+
+// Emails an admin can send again for a booking
+export type ResendableBookingEmail = 'booking_confirmation' | 'sales_notification';
+
+export interface EmailDeliveryAttempt {
+  at: string;
+  transport: string;
+  succeeded: boolean;
+  messageId?: string;
+  error?: string;
+  durationMs: number;
+}
+
+// An entry of the email outbox; message bodies are not included
+export interface OutboundEmail {
+  _id: string;
+  templateKey: string;
+  locale: 'en' | 'tl';
+  bookingId?: string;
+  from: string;
+  to: string[];
+  subject: string;
+  status: OutboundEmailStatus; // dead: out of attempts, waiting for an admin
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  sentAt?: string;
+  messageId?: string;
+  lastError?: string;
+  attemptLog: EmailDeliveryAttempt[];
+  requestedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
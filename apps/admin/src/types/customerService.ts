@@ -87,9 +87,13 @@ export interface CustomerInquiry {
   status: InquiryStatus;
   contactMethod: ContactMethod;
   assignedToCSR?: string;
+  assignedTo?: string; // user id of the assignee
   responses: InquiryResponse[];
   relatedTourId?: string;
   relatedBookingId?: string;
+  slaDueAt?: string; // first staff reply due by
+  firstResponseAt?: string;
+  slaBreached?: boolean;
   createdAt: string;
   updatedAt: string;
   resolvedAt?: string;
@@ -97,7 +101,7 @@ export interface CustomerInquiry {
 
 export interface InquiryResponse {
   id: string;
-  inquiryId: string;
+  inquiryId?: string;
   message: string;
   isFromCustomer: boolean;
   csrName?: string;
@@ -113,6 +117,7 @@ export interface CSRTask {
   priority: Priority;
   status: TaskStatus;
   assignedCSR: string;
+  assignedTo?: string; // user id of the assignee
   customerId: string;
   customerName: string;
   relatedInquiryId?: string;
@@ -120,6 +125,7 @@ export interface CSRTask {
   dueDate: string;
   completedAt?: string;
   notes: string;
+  isOverdue?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -147,11 +153,21 @@ export interface CustomerServiceStats {
   totalCustomers: number;
   activeInquiries: number;
   pendingTasks: number;
+  overdueTasks?: number;
   resolvedToday: number;
-  averageResponseTime: number;
+  averageResponseTime: number; // hours to first reply
+  slaBreaches?: number;
   customerSatisfactionRate: number;
 }
 
+// Desk user that inquiries and tasks can be assigned to
+export interface CSRAgent {
+  id: string;
+  fullName: string;
+  email: string;
+  role: string;
+}
+
 export interface CustomerFilter {
   search?: string;
   nationality?: string;
@@ -178,8 +194,10 @@ export interface TaskFilter {
   category?: string;
   priority?: Priority;
   assignedCSR?: string;
+  customerId?: string;
   dueDateFrom?: string;
   dueDateTo?: string;
+  overdue?: boolean;
 }
 
 export const INQUIRY_STATUS_DISPLAY: Record<InquiryStatus, string> = {
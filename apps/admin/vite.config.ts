@@ -1,5 +1,6 @@
 import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { fileURLToPath } from 'node:url'
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
@@ -7,6 +8,12 @@ export default defineConfig(({ mode }) => {
 
   return {
     plugins: [react()],
+    resolve: {
+      alias: {
+        // Shared types package; it also exports runtime values such as the permission catalogue
+        '@discovergroup/types': fileURLToPath(new URL('../../packages/types/src/index.ts', import.meta.url)),
+      },
+    },
     server: {
       host: true,
       port: 5174,
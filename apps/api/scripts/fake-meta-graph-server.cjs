@@ -0,0 +1,171 @@
+/**
+ * Local stand-in for the Meta Graph API, serving recorded payloads, so the
+ * Messenger inbox can run end to end without a Facebook Page.
+ *
+ * Usage:
+ *   META_APP_SECRET=local_app_secret npm run messenger:fake
+ *   # then start the API with
+ *   META_GRAPH_API_BASE=http://localhost:4020/v19.0 META_PAGE_ID=100000000000001 \
+ *     META_PAGE_ACCESS_TOKEN=local_page_token META_APP_SECRET=local_app_secret npm run dev
+ *
+ * Supported endpoints (same shapes as https://graph.facebook.com/v19.0):
+ *   GET  /v19.0/:pageId/conversations   recorded threads (fixtures/meta-graph/conversations.json)
+ *   GET  /v19.0/:psid                   customer profile (fixtures/meta-graph/profiles.json)
+ *   POST /v19.0/me/messages             Send API; answers with a message_id and
+ *                                       delivers the echo webhook, as Meta does
+ *
+ * Test helpers:
+ *   POST /__deliver/:fixture            deliver fixtures/meta-graph/webhook-<fixture>.json
+ *   GET  /__sent                        list every message sent through the Send API
+ *
+ * Recorded webhooks, in conversation order: booking-inquiry, echo-quote,
+ * contact-details, then delivery-read (ignored by the API). Delivering one
+ * twice should store nothing the second time. Webhooks are signed with
+ * META_APP_SECRET exactly as Meta does (X-Hub-Signature-256: sha256=...).
+ * {{PAGE_ID}} and {{PAGE_NAME}} in the fixtures are filled in from
+ * META_PAGE_ID and FAKE_META_PAGE_NAME.
+ */
+const http = require('http');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const dotenv = require('dotenv');
+
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+const PORT = Number(process.env.FAKE_META_GRAPH_PORT) || 4020;
+const WEBHOOK_URL = process.env.FAKE_META_WEBHOOK_URL
+  || `http://localhost:${process.env.PORT || 4000}/api/messenger/webhook`;
+const APP_SECRET = process.env.META_APP_SECRET;
+const PAGE_ID = process.env.META_PAGE_ID || '100000000000001';
+const PAGE_NAME = process.env.FAKE_META_PAGE_NAME || 'Discover Group';
+const FIXTURES = path.join(__dirname, 'fixtures', 'meta-graph');
+
+if (!APP_SECRET) {
+  console.error('❌ META_APP_SECRET is not set. Use the same value as the API.');
+  process.exit(1);
+}
+
+const sent = [];
+
+function fixture(name) {
+  const file = path.join(FIXTURES, `${name}.json`);
+  if (!fs.existsSync(file)) return null;
+  const raw = fs.readFileSync(file, 'utf8').replace(/{{PAGE_ID}}/g, PAGE_ID).replace(/{{PAGE_NAME}}/g, PAGE_NAME);
+  return JSON.parse(raw);
+}
+
+const sign = (body) => `sha256=${crypto.createHmac('sha256', APP_SECRET).update(body).digest('hex')}`;
+
+async function deliver(payload, label) {
+  const body = JSON.stringify(payload);
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': sign(body) },
+      body,
+    });
+    const text = await response.text();
+    console.log(`📨 ${label} → ${response.status} ${text}`);
+    return { status: response.status, body: text };
+  } catch (error) {
+    console.error(`❌ Could not deliver ${label} to ${WEBHOOK_URL}:`, error.message);
+    return { status: 0, body: error.message };
+  }
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, payload) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+// Graph API errors look like this, including for bad tokens (code 190)
+const graphError = (res, status, message, code = 100, type = 'GraphMethodException') =>
+  send(res, status, { error: { message, type, code, fbtrace_id: crypto.randomBytes(8).toString('base64') } });
+
+const routes = [
+  ['GET', /^\/v19\.0\/([^/]+)\/conversations$/, (req, res, body, [pageId]) => {
+    if (pageId !== PAGE_ID) return graphError(res, 400, `Unsupported get request. Object with ID '${pageId}' does not exist.`);
+    return send(res, 200, fixture('conversations'));
+  }],
+
+  ['GET', /^\/v19\.0\/(\d+)$/, (req, res, body, [psid]) => {
+    const profile = fixture('profiles')[psid];
+    if (!profile) return graphError(res, 400, `Unsupported get request. Object with ID '${psid}' does not exist.`);
+    return send(res, 200, profile);
+  }],
+
+  ['POST', /^\/v19\.0\/me\/messages$/, (req, res, body) => {
+    const psid = body.recipient?.id;
+    const text = body.message?.text;
+    if (!psid || !text) return graphError(res, 400, '(#100) The parameter recipient and message are required', 100, 'OAuthException');
+    const mid = `m_${crypto.randomBytes(16).toString('hex')}`;
+    sent.push({ mid, psid, text, messaging_type: body.messaging_type, at: new Date().toISOString() });
+
+    const timestamp = Date.now();
+    const echo = {
+      object: 'page',
+      entry: [{
+        id: PAGE_ID,
+        time: timestamp,
+        messaging: [{
+          sender: { id: PAGE_ID },
+          recipient: { id: psid },
+          timestamp,
+          message: { mid, is_echo: true, text },
+        }],
+      }],
+    };
+    // Meta sends the echo after answering the Send API call
+    setTimeout(() => deliver(echo, `echo ${mid}`), 50);
+    return send(res, 200, { recipient_id: psid, message_id: mid });
+  }],
+
+  ['POST', /^\/__deliver\/([a-z-]+)$/, async (req, res, body, [name]) => {
+    const payload = fixture(`webhook-${name}`);
+    if (!payload) return graphError(res, 404, `No fixture webhook-${name}.json`);
+    return send(res, 200, await deliver(payload, `webhook-${name}`));
+  }],
+
+  ['GET', /^\/__sent$/, (req, res) => send(res, 200, { data: sent })],
+];
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  for (const [method, pattern, handler] of routes) {
+    const match = req.method === method && url.pathname.match(pattern);
+    if (!match) continue;
+    if (url.pathname.startsWith('/v19.0/') && !url.searchParams.get('access_token')) {
+      return graphError(res, 400, 'An active access token must be used to query information about the current user.', 2500, 'OAuthException');
+    }
+    try {
+      const body = req.method === 'POST' ? await readBody(req) : {};
+      console.log(`➡️  ${req.method} ${url.pathname}`);
+      return handler(req, res, body, match.slice(1));
+    } catch {
+      return graphError(res, 400, 'Request body is not valid JSON.');
+    }
+  }
+  return graphError(res, 404, `${req.method} ${url.pathname} is not supported by the fake server.`);
+});
+
+server.listen(PORT, () => {
+  console.log(`✅ Fake Meta Graph API listening on http://localhost:${PORT}/v19.0 (page ${PAGE_ID})`);
+  console.log(`📨 Webhooks go to ${WEBHOOK_URL}`);
+});
@@ -0,0 +1,294 @@
+/**
+ * Local stand-in for the PayMongo API so the payment flow can run end to end
+ * without real credentials.
+ *
+ * Usage:
+ *   PAYMONGO_WEBHOOK_SECRET=whsk_local npm run paymongo:fake
+ *   # then start the API with
+ *   PAYMONGO_API_BASE=http://localhost:4010/v1 PAYMONGO_SECRET_KEY=sk_test_local \
+ *     PAYMONGO_WEBHOOK_SECRET=whsk_local npm run dev
+ *
+ * Supported endpoints (same shapes as https://api.paymongo.com/v1):
+ *   POST /v1/payment_intents, GET /v1/payment_intents/:id,
+ *   POST /v1/payment_intents/:id/attach, POST /v1/payment_methods,
+ *   POST /v1/sources, POST /v1/payments, POST /v1/refunds
+ *
+ * Test helpers:
+ *   GET  /checkout/:sourceId         authorize a source (fires source.chargeable)
+ *   POST /__fail/:paymentIntentId    fail an intent (fires payment.failed)
+ *   POST /__replay/:eventId          re-deliver an event with the same id
+ *   GET  /__events                   list every event sent
+ *
+ * Attaching a payment method whose card number ends in 0002 fails the payment;
+ * any other card succeeds. Webhooks are signed with PAYMONGO_WEBHOOK_SECRET
+ * exactly as PayMongo does (Paymongo-Signature: t=...,te=...,li=).
+ */
+const http = require('http');
+const crypto = require('crypto');
+const path = require('path');
+const dotenv = require('dotenv');
+
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+const PORT = Number(process.env.FAKE_PAYMONGO_PORT) || 4010;
+const WEBHOOK_URL = process.env.FAKE_PAYMONGO_WEBHOOK_URL
+  || `http://localhost:${process.env.PORT || 4000}/api/paymongo/webhook`;
+const WEBHOOK_SECRET = process.env.PAYMONGO_WEBHOOK_SECRET;
+
+if (!WEBHOOK_SECRET) {
+  console.error('❌ PAYMONGO_WEBHOOK_SECRET is not set. Use the same value as the API.');
+  process.exit(1);
+}
+
+const store = {
+  payment_intents: new Map(),
+  payment_methods: new Map(),
+  sources: new Map(),
+  payments: new Map(),
+  refunds: new Map(),
+  events: new Map(),
+};
+
+const newId = (prefix) => `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+const now = () => Math.floor(Date.now() / 1000);
+
+function resource(type, id, attributes) {
+  return { id, type, attributes: { livemode: false, created_at: now(), updated_at: now(), ...attributes } };
+}
+
+function sign(body, timestamp) {
+  const signature = crypto.createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},te=${signature},li=`;
+}
+
+async function deliver(event) {
+  const body = JSON.stringify(event);
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Paymongo-Signature': sign(body, now()) },
+      body,
+    });
+    const text = await response.text();
+    console.log(`📨 ${event.data.attributes.type} ${event.data.id} → ${response.status} ${text}`);
+  } catch (error) {
+    console.error(`❌ Could not deliver ${event.data.id} to ${WEBHOOK_URL}:`, error.message);
+  }
+}
+
+function emit(type, data) {
+  const event = { data: resource('event', newId('evt'), { type, data, previous_data: {} }) };
+  store.events.set(event.data.id, event);
+  // Deliver after the API response, like PayMongo does
+  setTimeout(() => deliver(event), 50);
+  return event;
+}
+
+function createPayment(attributes) {
+  const failed = attributes.failed === true;
+  const payment = resource('payment', newId('pay'), {
+    amount: attributes.amount,
+    currency: attributes.currency || 'PHP',
+    description: attributes.description,
+    statement_descriptor: attributes.statement_descriptor,
+    metadata: attributes.metadata || {},
+    source: attributes.source,
+    payment_intent_id: attributes.payment_intent_id || null,
+    status: failed ? 'failed' : 'paid',
+    paid_at: failed ? null : now(),
+  });
+  store.payments.set(payment.id, payment);
+  emit(failed ? 'payment.failed' : 'payment.paid', payment);
+  return payment;
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, payload) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+const notFound = (res, detail) => send(res, 404, { errors: [{ code: 'resource_not_found', detail }] });
+const badRequest = (res, detail) => send(res, 400, { errors: [{ code: 'parameter_invalid', detail }] });
+
+const routes = [
+  ['POST', /^\/v1\/payment_intents$/, (req, res, body) => {
+    const attrs = body.data?.attributes || {};
+    if (!attrs.amount || attrs.amount < 2000) return badRequest(res, 'amount should be at least 2000.');
+    const id = newId('pi');
+    const intent = resource('payment_intent', id, {
+      amount: attrs.amount,
+      currency: attrs.currency || 'PHP',
+      description: attrs.description,
+      statement_descriptor: attrs.statement_descriptor,
+      metadata: attrs.metadata || {},
+      payment_method_allowed: attrs.payment_method_allowed || ['card'],
+      client_key: `${id}_client_${crypto.randomBytes(8).toString('hex')}`,
+      status: 'awaiting_payment_method',
+      payments: [],
+      next_action: null,
+    });
+    store.payment_intents.set(id, intent);
+    return send(res, 200, { data: intent });
+  }],
+
+  ['GET', /^\/v1\/payment_intents\/([^/]+)$/, (req, res, body, [id]) => {
+    const intent = store.payment_intents.get(id);
+    return intent ? send(res, 200, { data: intent }) : notFound(res, `No such payment_intent with id ${id}.`);
+  }],
+
+  ['POST', /^\/v1\/payment_methods$/, (req, res, body) => {
+    const attrs = body.data?.attributes || {};
+    if (!attrs.type) return badRequest(res, 'type is required.');
+    const method = resource('payment_method', newId('pm'), {
+      type: attrs.type,
+      billing: attrs.billing || null,
+      details: { last4: String(attrs.details?.card_number || '').slice(-4) },
+    });
+    store.payment_methods.set(method.id, method);
+    return send(res, 200, { data: method });
+  }],
+
+  ['POST', /^\/v1\/payment_intents\/([^/]+)\/attach$/, (req, res, body, [id]) => {
+    const intent = store.payment_intents.get(id);
+    if (!intent) return notFound(res, `No such payment_intent with id ${id}.`);
+    const method = store.payment_methods.get(body.data?.attributes?.payment_method);
+    if (!method) return notFound(res, 'No such payment_method.');
+
+    const failed = method.attributes.details.last4 === '0002';
+    const payment = createPayment({
+      ...intent.attributes,
+      payment_intent_id: id,
+      failed,
+    });
+    intent.attributes.payments.push(payment);
+    intent.attributes.status = failed ? 'awaiting_payment_method' : 'succeeded';
+    intent.attributes.last_payment_error = failed ? { failed_code: 'card_declined' } : null;
+    return send(res, 200, { data: intent });
+  }],
+
+  ['POST', /^\/v1\/sources$/, (req, res, body) => {
+    const attrs = body.data?.attributes || {};
+    if (!['gcash', 'grab_pay'].includes(attrs.type)) return badRequest(res, 'type should be gcash or grab_pay.');
+    const id = newId('src');
+    const source = resource('source', id, {
+      type: attrs.type,
+      amount: attrs.amount,
+      currency: attrs.currency || 'PHP',
+      metadata: attrs.metadata || {},
+      redirect: {
+        checkout_url: `http://localhost:${PORT}/checkout/${id}`,
+        success: attrs.redirect?.success,
+        failed: attrs.redirect?.failed,
+      },
+      status: 'pending',
+    });
+    store.sources.set(id, source);
+    return send(res, 200, { data: source });
+  }],
+
+  ['GET', /^\/checkout\/([^/]+)$/, (req, res, body, [id]) => {
+    const source = store.sources.get(id);
+    if (!source) return notFound(res, `No such source with id ${id}.`);
+    source.attributes.status = 'chargeable';
+    emit('source.chargeable', source);
+    const success = source.attributes.redirect.success;
+    if (success) {
+      res.writeHead(302, { Location: success });
+      return res.end();
+    }
+    return send(res, 200, { data: source });
+  }],
+
+  ['POST', /^\/v1\/payments$/, (req, res, body) => {
+    const attrs = body.data?.attributes || {};
+    const source = store.sources.get(attrs.source?.id);
+    if (!source) return notFound(res, 'No such source.');
+    if (source.attributes.status !== 'chargeable') {
+      return badRequest(res, `Source ${source.id} is ${source.attributes.status}, not chargeable.`);
+    }
+    source.attributes.status = 'consumed';
+    return send(res, 200, { data: createPayment(attrs) });
+  }],
+
+  ['POST', /^\/v1\/refunds$/, (req, res, body) => {
+    const attrs = body.data?.attributes || {};
+    const payment = store.payments.get(attrs.payment_id);
+    if (!payment || payment.attributes.status !== 'paid') return notFound(res, 'No such paid payment.');
+    if (!attrs.amount || attrs.amount > payment.attributes.amount) {
+      return badRequest(res, 'amount should not exceed the payment amount.');
+    }
+    const refund = resource('refund', newId('ref'), {
+      amount: attrs.amount,
+      currency: payment.attributes.currency,
+      payment_id: payment.id,
+      reason: attrs.reason,
+      notes: attrs.notes,
+      metadata: attrs.metadata || {},
+      status: 'pending',
+    });
+    store.refunds.set(refund.id, refund);
+    // Settle shortly afterwards, like a real refund
+    setTimeout(() => {
+      refund.attributes.status = 'succeeded';
+      emit('payment.refund.updated', refund);
+    }, 1000);
+    return send(res, 200, { data: refund });
+  }],
+
+  ['POST', /^\/__fail\/([^/]+)$/, (req, res, body, [id]) => {
+    const intent = store.payment_intents.get(id);
+    if (!intent) return notFound(res, `No such payment_intent with id ${id}.`);
+    const payment = createPayment({ ...intent.attributes, payment_intent_id: id, failed: true });
+    return send(res, 200, { data: payment });
+  }],
+
+  ['POST', /^\/__replay\/([^/]+)$/, (req, res, body, [id]) => {
+    const event = store.events.get(id);
+    if (!event) return notFound(res, `No such event with id ${id}.`);
+    setTimeout(() => deliver(event), 50);
+    return send(res, 200, { replayed: id });
+  }],
+
+  ['GET', /^\/__events$/, (req, res) => {
+    return send(res, 200, {
+      data: [...store.events.values()].map((e) => ({ id: e.data.id, type: e.data.attributes.type })),
+    });
+  }],
+];
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  for (const [method, pattern, handler] of routes) {
+    const match = req.method === method && url.pathname.match(pattern);
+    if (!match) continue;
+    try {
+      const body = req.method === 'POST' ? await readBody(req) : {};
+      console.log(`➡️  ${req.method} ${url.pathname}`);
+      return handler(req, res, body, match.slice(1));
+    } catch {
+      return badRequest(res, 'Request body is not valid JSON.');
+    }
+  }
+  return notFound(res, `${req.method} ${url.pathname} is not supported by the fake server.`);
+});
+
+server.listen(PORT, () => {
+  console.log(`✅ Fake PayMongo listening on http://localhost:${PORT}/v1`);
+  console.log(`📨 Webhooks go to ${WEBHOOK_URL}`);
+});
@@ -0,0 +1,89 @@
+/**
+ * migrate-visa-assignees.cjs
+ *
+ * Idempotent migration — safe to re-run.
+ *
+ * What it does:
+ *   1. Connects to MongoDB via MONGODB_URI
+ *   2. Finds visa applications whose `assignedTo` is still free text (from
+ *      before applications were assigned to staff accounts).
+ *   3. Links each one to the staff user whose full name or email matches the
+ *      text; the name is kept in `assignedToName`.
+ *   4. Text that matches nobody is moved to `assignedToName` and the
+ *      application goes back to the unassigned queue.
+ *   5. Exits 0 on success, exits 1 on unrecoverable error.
+ *
+ * Run standalone:
+ *   node apps/api/scripts/migrate-visa-assignees.cjs
+ *
+ * Called by:
+ *   npm run migrate:visa-assignees   (apps/api/package.json)
+ */
+
+'use strict';
+
+require('dotenv').config({ path: require('path').resolve(__dirname, '../.env') });
+const mongoose = require('mongoose');
+
+async function run() {
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    console.error('❌  MONGODB_URI environment variable is not set.');
+    process.exit(1);
+  }
+
+  console.log('🔗  Connecting to MongoDB…');
+  await mongoose.connect(uri);
+  console.log('✅  Connected.');
+
+  const db = mongoose.connection.db;
+  const applications = db.collection('visaapplications');
+  const users = db.collection('users');
+
+  const staff = await users
+    .find({ role: { $ne: 'client' } }, { projection: { fullName: 1, email: 1 } })
+    .toArray();
+  const byKey = new Map();
+  for (const user of staff) {
+    if (user.fullName) byKey.set(String(user.fullName).trim().toLowerCase(), user);
+    if (user.email) byKey.set(String(user.email).trim().toLowerCase(), user);
+  }
+
+  const legacy = await applications.find({ assignedTo: { $type: 'string' } }).toArray();
+  console.log(`\n🛂  Visa applications with a free-text assignee: ${legacy.length}`);
+
+  let linked = 0;
+  let unmatched = 0;
+
+  for (const doc of legacy) {
+    const text = doc.assignedTo.trim();
+    const user = text ? byKey.get(text.toLowerCase()) : undefined;
+    if (user) {
+      await applications.updateOne(
+        { _id: doc._id },
+        { $set: { assignedTo: user._id, assignedToName: user.fullName, assignedAt: doc.updatedAt || new Date() } }
+      );
+      console.log(`   ✔   ${doc.applicationId}: "${text}" → ${user.fullName}`);
+      linked++;
+    } else {
+      const update = text
+        ? { $set: { assignedToName: text }, $unset: { assignedTo: 1 } }
+        : { $unset: { assignedTo: 1 } };
+      await applications.updateOne({ _id: doc._id }, update);
+      console.warn(`   ⚠   ${doc.applicationId}: "${text}" matches no staff account, left unassigned.`);
+      unmatched++;
+    }
+  }
+
+  console.log(`\n📊  Summary:`);
+  console.log(`   • Linked to a staff account : ${linked}`);
+  console.log(`   • Unmatched / unassigned    : ${unmatched}`);
+
+  await mongoose.disconnect();
+  console.log('\n🎉  Migration complete.\n');
+}
+
+run().catch((err) => {
+  console.error('❌  Migration failed:', err);
+  process.exit(1);
+});
@@ -19,6 +19,7 @@ const DEFAULT_RULE = {
   visaLeadDays: 21,
 };
 
+// Fallback for databases where the API has not yet seeded the visarules collection
 const COUNTRY_RULES = {
   france: { passportValidityMonths: 6, visaRequirement: 'required', visaLeadDays: 21 },
   italy: { passportValidityMonths: 6, visaRequirement: 'required', visaLeadDays: 21 },
@@ -54,13 +55,37 @@ const toDate = (value) => {
 
 const dedupeStrings = (values) => Array.from(new Set(values.filter((v) => typeof v === 'string' && v.trim().length > 0).map((v) => v.trim())));
 
-const getRulesForCountries = (countries) => countries.map((country) => ({
-  country,
-  ...(COUNTRY_RULES[normalizeCountry(country)] || DEFAULT_RULE),
-}));
+const DEFAULT_NATIONALITY = 'philippines';
 
-function evaluateFromBooking(booking, countries) {
-  const rules = getRulesForCountries(countries);
+// Picks the stored rule in effect on the given date; dated rules win over open-ended ones
+const findStoredRule = (storedRules, nationality, country, onDate) => storedRules
+  .filter((rule) => rule.nationality === nationality && rule.destination === normalizeCountry(country))
+  .filter((rule) => (!rule.validFrom || rule.validFrom <= onDate) && (!rule.validUntil || rule.validUntil >= onDate))
+  .sort((a, b) => (b.validFrom ? b.validFrom.getTime() : 0) - (a.validFrom ? a.validFrom.getTime() : 0))[0];
+
+const getRulesForCountries = (countries, nationality, storedRules, onDate) => countries.map((country) => {
+  if (storedRules.length === 0) {
+    return { country, ...(COUNTRY_RULES[normalizeCountry(country)] || DEFAULT_RULE) };
+  }
+  const rule = findStoredRule(storedRules, nationality, country, onDate);
+  if (rule) {
+    return {
+      country,
+      passportValidityMonths: rule.passportValidityMonths,
+      visaRequirement: rule.visaRequirement,
+      visaLeadDays: rule.visaLeadDays,
+    };
+  }
+  if (normalizeCountry(country) === nationality) {
+    return { country, passportValidityMonths: 0, visaRequirement: 'not_required', visaLeadDays: 0 };
+  }
+  return { country, ...DEFAULT_RULE };
+});
+
+function evaluateFromBooking(booking, countries, storedRules) {
+  const nationality = normalizeCountry(booking.nationality) || DEFAULT_NATIONALITY;
+  const departureDate = toDate(String(booking.selectedDate || '').split(' - ')[0]);
+  const rules = getRulesForCountries(countries, nationality, storedRules, departureDate || new Date());
   const strictestPassportValidityMonths = rules.length > 0
     ? Math.max(...rules.map((rule) => rule.passportValidityMonths))
     : DEFAULT_RULE.passportValidityMonths;
@@ -75,7 +100,6 @@ function evaluateFromBooking(booking, countries) {
   const warnings = [];
   let score = 100;
 
-  const departureDate = toDate(booking.selectedDate);
   const passportExpiryDate = toDate(booking.customerPassport);
   const hasPassportDoc = Boolean(booking.customerPassport);
   const hasVisaDoc = Boolean(booking.visaDocumentsProvided);
@@ -167,6 +191,7 @@ function evaluateFromBooking(booking, countries) {
     warnings,
     nextActions,
     ruleSummary: {
+      nationality,
       countries,
       strictestPassportValidityMonths,
       strictestVisaLeadDays,
@@ -183,6 +208,8 @@ async function run() {
 
   const bookingsCollection = mongoose.connection.collection('bookings');
   const toursCollection = mongoose.connection.collection('tours');
+  const storedRules = await mongoose.connection.collection('visarules').find({}).toArray();
+  console.log(`🛂 Visa rules loaded: ${storedRules.length}${storedRules.length === 0 ? ' (using built-in fallback table)' : ''}`);
 
   const query = {
     $or: [
@@ -219,7 +246,7 @@ async function run() {
       countries = tourCountriesCache.get(slug) || [];
     }
 
-    const snapshot = evaluateFromBooking(booking, countries);
+    const snapshot = evaluateFromBooking(booking, countries, storedRules);
 
     bulkOps.push({
       updateOne: {
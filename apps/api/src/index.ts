@@ -33,10 +33,13 @@ import {
 
 import adminToursRouter from "./routes/admin/tours";
 import publicToursRouter from "./routes/public/tours";
-import emailRouter from "./routes/email";
 import authRouter from "./routes/auth";
 import { connectDB } from "./db";
 import { seedDemoAccounts } from "./utils/seedDemoAccounts";
+import { startSeatHoldSweeper } from "./services/seatInventory";
+import { startJobRunner } from "./services/jobRunner";
+import { registerDefaultJobs } from "./jobs";
+import { seedVisaRules } from "./services/visa-readiness";
 import path from "path";
 import uploadsRouter from "./routes/uploads";
 import uploadRouter from "./routes/upload";
@@ -233,6 +236,11 @@ if (process.env.NODE_ENV === 'production') {
   }));
 }
 
+// PayMongo signs the exact request bytes, so its webhook keeps the raw body
+app.use('/api/paymongo/webhook', express.raw({ type: 'application/json', limit: '1mb' }));
+// ...and so does Meta's Messenger webhook (X-Hub-Signature-256)
+app.use('/api/messenger/webhook', express.raw({ type: 'application/json', limit: '1mb' }));
+
 // Body parser with size limits
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -277,16 +285,34 @@ import adminUsersRouter from "./routes/admin/users";
 import adminBookingsRouter from "./routes/admin/bookings";
 import adminReportsRouter from "./routes/admin/reports";
 import adminCustomerServiceRouter from "./routes/admin/customer-service";
+import adminCustomersRouter from "./routes/admin/customers";
+import adminInquiriesRouter from "./routes/admin/inquiries";
+import adminTasksRouter from "./routes/admin/tasks";
 import adminSettingsRouter from "./routes/admin/settings";
 import adminDashboardRouter from "./routes/admin/dashboard";
 import adminReviewsRouter from "./routes/admin/reviews";
 import adminAuditLogsRouter from "./routes/admin/audit-logs";
 import adminFeaturedVideosRouter from "./routes/admin/featured-videos";
 import adminVisaApplicationsRouter from "./routes/admin/visa-applications";
+import adminVisaRulesRouter from "./routes/admin/visa-rules";
+import adminJobsRouter from "./routes/admin/jobs";
+import adminBuilderSessionsRouter from "./routes/admin/builder-sessions";
+import adminEmailTemplatesRouter from "./routes/admin/email-templates";
+import adminEmailOutboxRouter from "./routes/admin/email-outbox";
+import adminRolesRouter from "./routes/admin/roles";
+import adminAssignmentsRouter from "./routes/admin/assignments";
+import adminActivityRouter from "./routes/admin/activity";
+import adminMessengerRouter from "./routes/admin/messenger";
 import apiBookingsRouter from "./routes/api/bookings";
+import apiBuilderSessionsRouter from "./routes/api/builder-sessions";
+import apiMyTripsRouter from "./routes/api/my-trips";
+import apiBookingAccessRouter from "./routes/api/booking-access";
+import paymongoRouter from "./routes/paymongo";
 import apiReviewsRouter from "./routes/api/reviews";
 import apiSettingsRouter from "./routes/api/settings";
 import apiVisaApplicationsRouter from "./routes/api/visa-applications";
+import apiInboundEmailRouter from "./routes/api/inbound-email";
+import apiMessengerRouter from "./routes/api/messenger";
 import favoritesRouter from "./routes/favorites";
 import totpRouter from "./routes/auth/totp";
 import securityStatusRouter from "./routes/security-status";
@@ -303,15 +329,33 @@ app.use("/admin/users", adminUsersRouter);
 app.use("/admin/bookings", adminBookingsRouter);
 app.use("/admin/reports", adminReportsRouter);
 app.use("/admin/customer-service", adminCustomerServiceRouter);
+app.use("/admin/customers", adminCustomersRouter);
+app.use("/admin/inquiries", adminInquiriesRouter);
+app.use("/admin/tasks", adminTasksRouter);
 app.use("/admin/settings", adminSettingsRouter);
 app.use("/admin/dashboard", adminDashboardRouter);
 app.use("/admin/reviews", adminReviewsRouter);
 app.use("/admin/audit-logs", adminAuditLogsRouter);
 app.use("/admin/featured-videos", adminFeaturedVideosRouter);
 app.use("/admin/visa-applications", adminVisaApplicationsRouter);
+app.use("/admin/visa-rules", adminVisaRulesRouter);
+app.use("/admin/jobs", adminJobsRouter);
+app.use("/admin/builder-sessions", adminBuilderSessionsRouter);
+app.use("/admin/email-templates", adminEmailTemplatesRouter);
+app.use("/admin/email-outbox", adminEmailOutboxRouter);
+app.use("/admin/roles", adminRolesRouter);
+app.use("/admin/assignments", adminAssignmentsRouter);
+app.use("/admin/activity", adminActivityRouter);
+app.use("/admin/messenger", adminMessengerRouter);
 app.use("/public/tours", publicToursRouter);
 app.use("/api/bookings", apiBookingsRouter);
+app.use("/api/builder-sessions", apiBuilderSessionsRouter);
+app.use("/api/my-trips", apiMyTripsRouter);
+app.use("/api/booking-access", apiBookingAccessRouter);
+app.use("/api/paymongo", paymongoRouter);
 app.use("/api/visa-applications", apiVisaApplicationsRouter);
+app.use("/api/inbound-email", apiInboundEmailRouter);
+app.use("/api/messenger", apiMessengerRouter);
 app.use("/api/favorites", favoritesRouter);
 app.use("/api/reviews", apiReviewsRouter);
 app.use("/api/homepage-settings", homepageSettingsRouter);
@@ -322,7 +366,6 @@ app.use("/api/security", securityStatusRouter);
 app.use("/api/monitoring", monitoringRouter);
 app.use("/api/visa-readiness", visaReadinessRouter);
 app.use("/api/settings", apiSettingsRouter);
-app.use("/api", emailRouter);
 app.use("/auth", authRouter);
 // 2FA / TOTP routes (nested under /auth/2fa)
 app.use("/auth/2fa", totpRouter);
@@ -344,6 +387,10 @@ async function initializeServer() {
     await connectDB();
     logger.info("✅ Database connection successful");
     await seedDemoAccounts();
+    await seedVisaRules();
+    startSeatHoldSweeper();
+    registerDefaultJobs();
+    startJobRunner();
     
     const PORT = process.env.PORT ? Number(process.env.PORT) : 4000;
     app.listen(PORT, '0.0.0.0', () => {
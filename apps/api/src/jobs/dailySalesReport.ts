@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import Booking from '../models/Booking';
+import { normalizeBookingStatus } from '../services/bookingStatus';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REPORTS_DIR = process.env.REPORTS_DIR || path.resolve(process.cwd(), 'jobs-output');
+// Cancelled and refunded bookings are counted but kept out of the sales totals
+const NON_SALE_STATUSES = ['cancelled', 'refunded'];
+
+interface TourSalesRow {
+  tourSlug: string;
+  bookings: number;
+  passengers: number;
+  totalAmount: number;
+  paidAmount: number;
+}
+
+// Offset of the time zone from UTC at the given instant, in milliseconds
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date).forEach((part) => { parts[part.type] = Number(part.value); });
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Summarise the bookings made on the previous calendar day (in the job time
+ * zone) per tour and write them to a CSV in REPORTS_DIR.
+ */
+export async function generateDailySalesReport(timeZone: string, now: Date = new Date()): Promise<Record<string, unknown>> {
+  const offset = zoneOffsetMs(now, timeZone);
+  const localNow = new Date(now.getTime() + offset);
+  const dayStart = Date.UTC(localNow.getUTCFullYear(), localNow.getUTCMonth(), localNow.getUTCDate() - 1) - offset;
+  const reportDate = new Date(dayStart + offset).toISOString().slice(0, 10);
+
+  const bookings = await Booking.find({
+    bookingDate: {
+      $gte: new Date(dayStart).toISOString(),
+      $lt: new Date(dayStart + DAY_MS).toISOString(),
+    },
+  })
+    .select('tourSlug status passengers totalAmount paidAmount')
+    .lean()
+    .exec();
+
+  const rows = new Map<string, TourSalesRow>();
+  let cancelled = 0;
+  for (const booking of bookings) {
+    if (NON_SALE_STATUSES.includes(normalizeBookingStatus(booking.status))) {
+      cancelled++;
+      continue;
+    }
+    const tourSlug = booking.tourSlug || 'custom';
+    const row = rows.get(tourSlug) ?? { tourSlug, bookings: 0, passengers: 0, totalAmount: 0, paidAmount: 0 };
+    row.bookings += 1;
+    row.passengers += booking.passengers || 0;
+    row.totalAmount += booking.totalAmount || 0;
+    row.paidAmount += booking.paidAmount || 0;
+    rows.set(tourSlug, row);
+  }
+
+  const sorted = Array.from(rows.values()).sort((a, b) => b.totalAmount - a.totalAmount);
+  const lines = [
+    'date,tour_slug,bookings,passengers,total_amount,paid_amount',
+    ...sorted.map((row) =>
+      [reportDate, row.tourSlug, row.bookings, row.passengers, row.totalAmount, row.paidAmount].map(csvCell).join(',')
+    ),
+  ];
+
+  await fs.promises.mkdir(REPORTS_DIR, { recursive: true });
+  const file = path.join(REPORTS_DIR, `daily-sales-${reportDate}.csv`);
+  await fs.promises.writeFile(file, `${lines.join('\n')}\n`);
+
+  return {
+    reportDate,
+    bookings: sorted.reduce((sum, row) => sum + row.bookings, 0),
+    passengers: sorted.reduce((sum, row) => sum + row.passengers, 0),
+    totalAmount: sorted.reduce((sum, row) => sum + row.totalAmount, 0),
+    paidAmount: sorted.reduce((sum, row) => sum + row.paidAmount, 0),
+    cancelled,
+    file,
+  };
+}
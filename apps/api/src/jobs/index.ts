@@ -0,0 +1,59 @@
+import { registerJob, JOB_TIMEZONE } from '../services/jobRunner';
+import { cleanupExpiredTokens } from '../services/tokenService';
+import { markOverdueInstallments, sendInstallmentReminders } from '../services/installmentService';
+import { expireEndedSales } from '../services/pricingService';
+import { applyScheduledPublishing } from '../services/tourPublishing';
+import { processEmailOutbox } from '../services/emailOutbox';
+import { generateDailySalesReport } from './dailySalesReport';
+
+// Recurring API jobs. Schedules are cron expressions in JOB_TIMEZONE.
+export function registerDefaultJobs(): void {
+  registerJob({
+    name: 'daily-sales-report',
+    description: "Summarise yesterday's bookings per tour and write the CSV report",
+    schedule: '15 0 * * *',
+    handler: () => generateDailySalesReport(JOB_TIMEZONE),
+  });
+
+  registerJob({
+    name: 'token-cleanup',
+    description: 'Delete expired refresh tokens and ones revoked over 30 days ago',
+    schedule: '30 3 * * *',
+    handler: async () => ({ deleted: await cleanupExpiredTokens() }),
+  });
+
+  registerJob({
+    name: 'sale-expiry',
+    description: 'Switch off tour sales whose end date has passed',
+    schedule: '*/15 * * * *',
+    handler: async () => ({ expired: await expireEndedSales() }),
+  });
+
+  // Every minute so timed sale launches go live on time
+  registerJob({
+    name: 'tour-publishing',
+    description: 'Publish tours whose scheduled publish time has passed and archive ones past their unpublish time',
+    schedule: '* * * * *',
+    handler: () => applyScheduledPublishing(),
+  });
+
+  // Sends are claimed one at a time, so this never double-sends with a request's first attempt
+  registerJob({
+    name: 'email-outbox',
+    description: 'Retry queued emails whose backoff has passed and dead-letter ones out of attempts',
+    schedule: '* * * * *',
+    handler: () => processEmailOutbox(),
+  });
+
+  // Reminders are only sent once per installment (or per interval when overdue), so retries are safe
+  registerJob({
+    name: 'payment-reminders',
+    description: 'Flag overdue installments and email upcoming and overdue payment reminders',
+    schedule: '0 * * * *',
+    handler: async () => {
+      const markedOverdue = await markOverdueInstallments();
+      const remindersSent = await sendInstallmentReminders();
+      return { markedOverdue, remindersSent };
+    },
+  });
+}
@@ -227,4 +227,42 @@ export async function logSecurityEvent(
   }
 }
 
+/**
+ * Log a domain event that is not tied to a single admin request, such as a
+ * customer cancelling a booking or a refund being issued.
+ */
+export async function logAuditEvent(entry: {
+  userId?: string;
+  userEmail: string;
+  userName: string;
+  action: 'CREATE' | 'UPDATE' | 'DELETE';
+  resource: string;
+  resourceId?: string;
+  req: Request;
+  statusCode?: number;
+  changes?: { before?: Record<string, unknown>; after?: Record<string, unknown> };
+  errorMessage?: string;
+}): Promise<void> {
+  try {
+    await AuditLog.create({
+      userId: entry.userId,
+      userEmail: entry.userEmail,
+      userName: entry.userName,
+      action: entry.action,
+      resource: entry.resource,
+      resourceId: entry.resourceId,
+      method: entry.req.method,
+      path: entry.req.originalUrl || entry.req.path,
+      statusCode: entry.statusCode ?? 200,
+      ipAddress: entry.req.ip || entry.req.socket.remoteAddress,
+      userAgent: entry.req.headers['user-agent'],
+      changes: entry.changes,
+      errorMessage: entry.errorMessage,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    logger.error('Failed to log audit event:', error);
+  }
+}
+
 export default auditLog;
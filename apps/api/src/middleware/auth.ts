@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from "express";
 import User from "../models/User";
 import logger from "../utils/logger";
 import { verifyToken } from "./jwtHardening";
+import { Permission, roleHasPermission } from "../services/permissions";
 
 // Type for authenticated request - use intersection to ensure proper inheritance
 export type AuthenticatedRequest = Request & {
@@ -84,6 +85,38 @@ export async function requireAuth(req: AuthenticatedRequest, res: Response, next
   }
 }
 
+/**
+ * Middleware that attaches the signed-in user when a valid token is sent,
+ * and otherwise lets the request through as a guest.
+ */
+export async function optionalAuth(req: AuthenticatedRequest, _res: Response, next: NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.startsWith('Bearer ')
+      ? authHeader.split(' ')[1]
+      : (req.cookies?.accessToken as string | undefined);
+    if (!token) return next();
+
+    const result = await verifyToken(token, 'access', req);
+    if (!result.valid || !result.payload) return next();
+
+    const userId = result.payload.sub ?? (result.payload as Record<string, unknown>)['id'];
+    const user = await User.findById(userId);
+    if (user && user.isActive && !user.isArchived) {
+      req.user = {
+        id: user._id.toString(),
+        email: user.email,
+        fullName: user.fullName,
+        name: user.fullName,
+        role: user.role,
+      };
+    }
+  } catch (error) {
+    logger.warn('Optional authentication failed, continuing as guest', { error });
+  }
+  next();
+}
+
 /**
  * Middleware to require admin role
  * Must be used AFTER requireAuth middleware
@@ -125,4 +158,28 @@ export function requireRole(...allowedRoles: string[]) {
     
     next();
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Middleware to require a permission of the user's role (any one of several).
+ * Must be used AFTER requireAuth middleware
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required.' });
+    }
+
+    try {
+      if (await roleHasPermission(req.user.role, permissions)) {
+        return next();
+      }
+    } catch (error) {
+      logger.error('Permission check failed:', error);
+      return res.status(500).json({ error: 'Permission check failed. Please try again.' });
+    }
+
+    logger.warn(`Permission denied for user: ${req.user.email} (role: ${req.user.role}, required: ${permissions.join(' or ')})`);
+    return res.status(403).json({ error: 'Access denied. Your role does not allow this action.', required: permissions });
+  };
+}
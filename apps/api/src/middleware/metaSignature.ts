@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import logger from '../utils/logger';
+
+/**
+ * Meta Webhook Signature Verification
+ *
+ * Meta signs every webhook delivery with the app secret:
+ *   X-Hub-Signature-256: sha256=<HMAC-SHA256 of the raw body, hex>
+ * The route must receive the untouched body bytes (express.raw) for the
+ * check to work.
+ */
+
+export function computeMetaSignature(secret: string, rawBody: Buffer | string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+export function verifyMetaSignature(rawBody: Buffer | string, header: string | undefined, secret: string): boolean {
+  if (!header?.startsWith('sha256=')) return false;
+  const expected = Buffer.from(computeMetaSignature(secret, rawBody), 'hex');
+  const provided = Buffer.from(header.slice('sha256='.length), 'hex');
+  return provided.length === expected.length && crypto.timingSafeEqual(expected, provided);
+}
+
+/**
+ * Express middleware for the Messenger webhook: verifies the raw body against
+ * META_APP_SECRET and replaces req.body with the parsed payload.
+ */
+export function requireMetaSignature(req: Request, res: Response, next: NextFunction) {
+  const secret = process.env.META_APP_SECRET;
+  if (!secret) {
+    logger.error('META_APP_SECRET not configured; rejecting Messenger webhook');
+    return res.status(503).json({ error: 'Webhook verification not configured' });
+  }
+
+  if (!Buffer.isBuffer(req.body)) {
+    logger.error('Messenger webhook received without a raw body; check the express.raw mount in index.ts');
+    return res.status(400).json({ error: 'Invalid webhook payload' });
+  }
+
+  if (!verifyMetaSignature(req.body, req.get('X-Hub-Signature-256'), secret)) {
+    logger.warn('Messenger webhook signature verification failed', { ip: req.ip });
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  try {
+    req.body = JSON.parse(req.body.toString('utf8'));
+  } catch {
+    return res.status(400).json({ error: 'Invalid webhook payload' });
+  }
+  next();
+}
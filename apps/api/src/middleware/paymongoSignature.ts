@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import logger from '../utils/logger';
+
+/**
+ * PayMongo Webhook Signature Verification
+ *
+ * PayMongo signs every webhook delivery with the webhook's secret key:
+ *   Paymongo-Signature: t=<unix seconds>,te=<test mode signature>,li=<live mode signature>
+ * where each signature is HMAC-SHA256("<t>.<raw body>") in hex. The route must
+ * receive the untouched body bytes (express.raw) for the check to work.
+ */
+
+// Reject deliveries signed too long ago to limit replays of captured requests
+const SIGNATURE_TOLERANCE_SECONDS = Number(process.env.PAYMONGO_WEBHOOK_TOLERANCE_SECONDS) || 300;
+
+interface ParsedSignature {
+  timestamp: number;
+  test?: string;
+  live?: string;
+}
+
+export function parsePaymongoSignature(header: string): ParsedSignature | null {
+  const parts: Record<string, string> = {};
+  for (const part of header.split(',')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key && rest.length) parts[key] = rest.join('=');
+  }
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || (!parts.te && !parts.li)) return null;
+  return { timestamp, test: parts.te, live: parts.li };
+}
+
+export function computePaymongoSignature(secret: string, timestamp: number, rawBody: Buffer | string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+}
+
+function safeEqualHex(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(actual, 'hex');
+  return a.length > 0 && a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Check a delivery's signature. The live signature is used for live mode
+ * events and the test signature otherwise.
+ */
+export function verifyPaymongoSignature(
+  rawBody: Buffer | string,
+  header: string | undefined,
+  secret: string,
+  livemode: boolean,
+  now: Date = new Date()
+): boolean {
+  if (!header) return false;
+  const parsed = parsePaymongoSignature(header);
+  if (!parsed) return false;
+
+  const ageSeconds = Math.abs(now.getTime() / 1000 - parsed.timestamp);
+  if (ageSeconds > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const provided = livemode ? parsed.live : parsed.test;
+  if (!provided) return false;
+  return safeEqualHex(computePaymongoSignature(secret, parsed.timestamp, rawBody), provided);
+}
+
+/**
+ * Express middleware for the webhook route: verifies the raw body against
+ * PAYMONGO_WEBHOOK_SECRET and replaces req.body with the parsed event.
+ */
+export function requirePaymongoSignature(req: Request, res: Response, next: NextFunction) {
+  const secret = process.env.PAYMONGO_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error('PAYMONGO_WEBHOOK_SECRET not configured; rejecting PayMongo webhook');
+    return res.status(503).json({ error: 'Webhook verification not configured' });
+  }
+
+  if (!Buffer.isBuffer(req.body)) {
+    logger.error('PayMongo webhook received without a raw body; check the express.raw mount in index.ts');
+    return res.status(400).json({ error: 'Invalid webhook payload' });
+  }
+
+  const rawBody: Buffer = req.body;
+  let event: { data?: { attributes?: { livemode?: boolean } } };
+  try {
+    event = JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    return res.status(400).json({ error: 'Invalid webhook payload' });
+  }
+
+  const livemode = event.data?.attributes?.livemode === true;
+  if (!verifyPaymongoSignature(rawBody, req.get('Paymongo-Signature'), secret, livemode)) {
+    logger.warn('PayMongo webhook signature verification failed', { ip: req.ip, livemode });
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  req.body = event;
+  next();
+}
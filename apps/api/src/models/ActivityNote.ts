@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { OutboundEmailStatus } from './OutboundEmail';
+
+// What the feed belongs to: a booking (by bookingId) or visa application (by applicationId)
+export type ActivitySubjectType = 'booking' | 'visa_application';
+
+// note: internal, staff only; message: emailed to the customer; reply: the customer's emailed answer
+export type ActivityNoteKind = 'note' | 'message' | 'reply';
+
+export interface IActivityAttachment {
+  url: string;
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+export interface IActivityMention {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+}
+
+export interface IActivityNote extends Document {
+  subjectType: ActivitySubjectType;
+  subjectId: string;
+  kind: ActivityNoteKind;
+  // Top-level entry this one answers; the feed shows it underneath
+  parentId?: mongoose.Types.ObjectId;
+  body: string;
+  // Staff author; a customer reply only has the sender's name and address
+  authorId?: mongoose.Types.ObjectId;
+  authorName: string;
+  authorEmail?: string;
+  mentions: IActivityMention[];
+  attachments: IActivityAttachment[];
+
+  // Customer messages: where it was sent and how delivery went (see services/emailOutbox)
+  recipient?: string;
+  outboxId?: string;
+  emailStatus?: OutboundEmailStatus;
+  // In the reply address of a message, so an emailed answer finds its thread
+  replyToken?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ActivityAttachmentSchema = new Schema<IActivityAttachment>({
+  url: { type: String, required: true },
+  name: { type: String, required: true },
+  contentType: { type: String, required: true },
+  size: { type: Number, required: true },
+}, { _id: false });
+
+const ActivityNoteSchema = new Schema<IActivityNote>({
+  subjectType: { type: String, enum: ['booking', 'visa_application'], required: true },
+  subjectId: { type: String, required: true },
+  kind: { type: String, enum: ['note', 'message', 'reply'], required: true },
+  parentId: { type: Schema.Types.ObjectId, ref: 'ActivityNote' },
+  body: { type: String, default: '' },
+  authorId: { type: Schema.Types.ObjectId, ref: 'User' },
+  authorName: { type: String, required: true },
+  authorEmail: { type: String },
+  mentions: {
+    type: [{
+      _id: false,
+      userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+      name: { type: String, required: true },
+    }],
+    default: [],
+  },
+  attachments: { type: [ActivityAttachmentSchema], default: [] },
+  recipient: { type: String },
+  outboxId: { type: String },
+  emailStatus: { type: String, enum: ['queued', 'sending', 'sent', 'dead'] },
+  replyToken: { type: String },
+}, { timestamps: true });
+
+ActivityNoteSchema.index({ subjectType: 1, subjectId: 1, createdAt: 1 });
+ActivityNoteSchema.index({ replyToken: 1 }, { unique: true, sparse: true });
+
+export default mongoose.model<IActivityNote>('ActivityNote', ActivityNoteSchema);
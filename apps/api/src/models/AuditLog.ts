@@ -1,7 +1,8 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
 export interface IAuditLog extends Document {
-  userId: mongoose.Types.ObjectId;
+  // Absent for customer and system actions that have no admin account behind them
+  userId?: mongoose.Types.ObjectId;
   userEmail: string;
   userName: string;
   action: string;
@@ -25,7 +26,7 @@ const AuditLogSchema = new Schema<IAuditLog>({
   userId: {
     type: Schema.Types.ObjectId,
     ref: 'User',
-    required: true,
+    required: false,
     index: true,
   },
   userEmail: {
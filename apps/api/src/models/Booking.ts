@@ -10,17 +10,178 @@ export interface ICustomRoute {
   insertAfterDay: number;
 }
 
+// Itemized server-side price quote captured when the booking was created
+export interface IPricingQuote {
+  currency: string;
+  // Tour revision the booking was priced against (see services/tourRevisions)
+  tourRevision?: number;
+  priceSource: 'departure' | 'sale' | 'regular' | 'per_day';
+  basePerPerson: number;
+  promoBannerDiscountPerPerson: number;
+  customRoutesPerPerson: number;
+  optionalToursPerPerson: number;
+  perPerson: number;
+  passengers: number;
+  lineItems: Array<{
+    code: string;
+    label: string;
+    unitAmount: number;
+    quantity: number;
+    amount: number;
+    appliesTo?: string;
+  }>;
+  // Tour perks the booking qualified for (see pricingService.resolvePerks)
+  perks?: Array<{
+    label: string;
+    type: 'free' | 'percent_off';
+    value?: number;
+    addOn?: 'visa' | 'insurance' | 'passport';
+    discountPerPerson: number;
+  }>;
+  totalAmount: number;
+  paidAmount: number;
+  computedAt: string;
+  // Client-submitted amounts that disagreed with the quote, if any
+  adjustments?: Array<{ field: string; submitted: number; expected: number }>;
+}
+
+// Booking lifecycle; allowed moves between these live in services/bookingStatus
+export type BookingStatus =
+  | 'pending'
+  | 'awaiting_payment'
+  | 'partially_paid'
+  | 'confirmed'
+  | 'completed'
+  | 'cancelled'
+  | 'refunded';
+
+export interface IStatusActor {
+  type: 'customer' | 'admin' | 'system' | 'payment_gateway';
+  id?: string;
+  name?: string;
+}
+
+// One entry per status change; `from` is null for the creation entry
+export interface IStatusHistoryEntry {
+  from: BookingStatus | null;
+  to: BookingStatus;
+  actor: IStatusActor;
+  reason?: string;
+  at: Date;
+}
+
+export type InstallmentStatus = 'pending' | 'paid' | 'overdue';
+
+// One scheduled payment after the downpayment; the last one is the final balance
+export interface IInstallment {
+  id: string;
+  sequence: number;
+  kind: 'installment' | 'final_balance';
+  dueDate: Date;
+  amount: number;
+  status: InstallmentStatus;
+  paidDate?: Date;
+  paymentIntentId?: string;
+  lastReminderAt?: Date;
+  reminderCount?: number;
+}
+
+export interface IInstallmentPlan {
+  downpaymentAmount: number;
+  installmentCount: number;
+  monthlyAmount: number;
+  balanceDueDate: Date;
+  balanceDueDaysBeforeTravel: number;
+  payments: IInstallment[];
+  createdAt: Date;
+}
+
+export type CancellationRequestStatus = 'requested' | 'approved' | 'rejected';
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+// Refund amount worked out by services/cancellationPolicy at a point in time
+export interface IRefundEstimate {
+  daysBeforeDeparture: number;
+  refundPercent: number;
+  paidAmount: number;
+  nonRefundableAmount: number;
+  refundAmount: number;
+  computedAt: Date;
+}
+
+export interface IRefund {
+  provider: string;
+  refundId?: string;
+  amount: number;
+  status: RefundStatus;
+  expectedBy?: Date;
+  processedAt?: Date;
+  error?: string;
+}
+
+export interface ICancellation {
+  status: CancellationRequestStatus;
+  reason?: string;
+  requestedAt: Date;
+  requestedBy: IStatusActor;
+  estimate: IRefundEstimate;
+  decidedAt?: Date;
+  decidedBy?: IStatusActor;
+  decisionNotes?: string;
+  refund?: IRefund;
+}
+
+type VisaReadinessLevel = 'critical' | 'high' | 'medium' | 'low';
+
+// Stored result of services/visa-readiness for a booking or a single traveller
+export interface IVisaReadinessSnapshot {
+  score: number;
+  status: 'ready' | 'attention' | 'not_ready';
+  blockers: Array<{ code: string; message: string; level: VisaReadinessLevel; country?: string }>;
+  warnings: Array<{ code: string; message: string; level: VisaReadinessLevel; country?: string }>;
+  nextActions: string[];
+  ruleSummary: {
+    nationality?: string;
+    countries: string[];
+    transitCountries?: string[];
+    strictestPassportValidityMonths: number;
+    strictestVisaLeadDays: number;
+    visaRequiredCountries: string[];
+    evisaCountries: string[];
+    transitVisaRequiredCountries?: string[];
+  };
+  evaluatedAt: string;
+}
+
+export type RoomSharing = 'single' | 'twin' | 'double' | 'triple' | 'any';
+
+// One person travelling on the booking, as printed on the departure manifest
+export interface ITraveller {
+  fullName: string; // exactly as in the passport
+  nationality?: string; // lowercased, like IBooking.nationality
+  passportNumber?: string;
+  passportExpiry?: string; // YYYY-MM-DD
+  dateOfBirth?: string; // YYYY-MM-DD
+  roomSharing?: RoomSharing;
+  roomSharingWith?: string;
+  dietaryNeeds?: string;
+  isLead?: boolean;
+  visaReadiness?: IVisaReadinessSnapshot;
+}
+
 export interface IBooking extends Document {
   user?: mongoose.Types.ObjectId;
   tour?: mongoose.Types.ObjectId; // Make optional for backward compatibility
   tourSlug?: string; // Add tour slug field for when tour isn't in MongoDB
   passengers: number;
   totalAmount: number;
-  status: string;
+  status: BookingStatus;
+  statusHistory?: IStatusHistoryEntry[];
   customerName: string;
   customerEmail: string;
   customerPhone: string;
   customerPassport?: string;
+  nationality?: string; // lowercased country name; visa rules are keyed on it
   passportUrl?: string;  // R2 URL of uploaded passport file
   visaUrl?: string;     // R2 URL of uploaded visa file
   selectedDate: string;
@@ -30,11 +191,19 @@ export interface IBooking extends Document {
   bookingId: string;
   bookingDate: string;
   paymentIntentId?: string;
+  // Payments already added to paidAmount, so retried webhooks count once
+  recordedPaymentIds?: string[];
   notes?: string;
   appointmentDate?: string;
   appointmentTime?: string;
   appointmentPurpose?: string;
+  // Language the customer booked in; their emails are sent in it
+  locale?: 'en' | 'tl';
   customRoutes?: ICustomRoute[]; // Custom routes added to base tour
+  optionalTours?: Array<{ day: number; title: string; pricePerPerson: number }>;
+  pricingQuote?: IPricingQuote;
+  installmentPlan?: IInstallmentPlan;
+  cancellation?: ICancellation;
   // Visa assistance fields
   visaAssistanceRequested?: boolean;
   visaAssistanceFee?: number;
@@ -53,31 +222,12 @@ export interface IBooking extends Document {
   passportPaxDetails?: Array<{name: string; birthday: string}>;
   visaReadinessScore?: number;
   visaReadinessStatus?: 'ready' | 'attention' | 'not_ready';
-  visaReadinessSnapshot?: {
-    score: number;
-    status: 'ready' | 'attention' | 'not_ready';
-    blockers: Array<{
-      code: string;
-      message: string;
-      level: 'critical' | 'high' | 'medium' | 'low';
-      country?: string;
-    }>;
-    warnings: Array<{
-      code: string;
-      message: string;
-      level: 'critical' | 'high' | 'medium' | 'low';
-      country?: string;
-    }>;
-    nextActions: string[];
-    ruleSummary: {
-      countries: string[];
-      strictestPassportValidityMonths: number;
-      strictestVisaLeadDays: number;
-      visaRequiredCountries: string[];
-      evisaCountries: string[];
-    };
-    evaluatedAt: string;
-  };
+  visaReadinessSnapshot?: IVisaReadinessSnapshot;
+  travellers?: ITraveller[];
+  // Staff member working the booking (see services/assignmentQueues)
+  assignedTo?: mongoose.Types.ObjectId;
+  assignedToName?: string;
+  assignedAt?: Date;
   archived?: boolean;
   archivedAt?: Date;
   createdAt: Date;
@@ -85,6 +235,48 @@ export interface IBooking extends Document {
 }
 
 
+const VisaReadinessSnapshotSchema = new Schema<IVisaReadinessSnapshot>({
+  score: { type: Number },
+  status: { type: String, enum: ['ready', 'attention', 'not_ready'] },
+  blockers: [{
+    code: { type: String },
+    message: { type: String },
+    level: { type: String, enum: ['critical', 'high', 'medium', 'low'] },
+    country: { type: String },
+  }],
+  warnings: [{
+    code: { type: String },
+    message: { type: String },
+    level: { type: String, enum: ['critical', 'high', 'medium', 'low'] },
+    country: { type: String },
+  }],
+  nextActions: [{ type: String }],
+  ruleSummary: {
+    nationality: { type: String },
+    countries: [{ type: String }],
+    transitCountries: [{ type: String }],
+    strictestPassportValidityMonths: { type: Number },
+    strictestVisaLeadDays: { type: Number },
+    visaRequiredCountries: [{ type: String }],
+    evisaCountries: [{ type: String }],
+    transitVisaRequiredCountries: [{ type: String }],
+  },
+  evaluatedAt: { type: String },
+}, { _id: false });
+
+const TravellerSchema = new Schema<ITraveller>({
+  fullName: { type: String, required: true, trim: true },
+  nationality: { type: String, trim: true, lowercase: true },
+  passportNumber: { type: String, trim: true, uppercase: true },
+  passportExpiry: { type: String },
+  dateOfBirth: { type: String },
+  roomSharing: { type: String, enum: ['single', 'twin', 'double', 'triple', 'any'], default: 'any' },
+  roomSharingWith: { type: String, trim: true },
+  dietaryNeeds: { type: String, trim: true },
+  isLead: { type: Boolean, default: false },
+  visaReadiness: VisaReadinessSnapshotSchema,
+}, { _id: false });
+
 const BookingSchema = new Schema<IBooking>({
   user: { type: Schema.Types.ObjectId, ref: 'User', required: false },
   tour: { type: Schema.Types.ObjectId, ref: 'Tour', required: false }, // Make optional
@@ -92,10 +284,23 @@ const BookingSchema = new Schema<IBooking>({
   passengers: { type: Number, required: true },
   totalAmount: { type: Number, required: true },
   status: { type: String, default: 'pending' },
+  statusHistory: [{
+    _id: false,
+    from: { type: String, default: null },
+    to: { type: String, required: true },
+    actor: {
+      type: { type: String, enum: ['customer', 'admin', 'system', 'payment_gateway'], required: true },
+      id: { type: String },
+      name: { type: String },
+    },
+    reason: { type: String },
+    at: { type: Date, default: Date.now },
+  }],
   customerName: { type: String, required: true },
   customerEmail: { type: String, required: true },
   customerPhone: { type: String, required: false },
   customerPassport: { type: String },
+  nationality: { type: String, trim: true, lowercase: true },
   passportUrl: { type: String },
   visaUrl: { type: String },
   selectedDate: { type: String, required: true },
@@ -105,10 +310,12 @@ const BookingSchema = new Schema<IBooking>({
   bookingId: { type: String, required: true },
   bookingDate: { type: String, required: true },
   paymentIntentId: { type: String },
+  recordedPaymentIds: { type: [String], default: undefined },
   notes: { type: String },
   appointmentDate: { type: String },
   appointmentTime: { type: String },
   appointmentPurpose: { type: String },
+  locale: { type: String, enum: ['en', 'tl'], default: 'en' },
   customRoutes: [{
     tourSlug: { type: String, required: true },
     tourTitle: { type: String, required: true },
@@ -117,6 +324,103 @@ const BookingSchema = new Schema<IBooking>({
     pricePerPerson: { type: Number, required: true },
     insertAfterDay: { type: Number, required: true }
   }],
+  optionalTours: [{
+    day: { type: Number },
+    title: { type: String },
+    pricePerPerson: { type: Number }
+  }],
+  installmentPlan: {
+    downpaymentAmount: { type: Number },
+    installmentCount: { type: Number },
+    monthlyAmount: { type: Number },
+    balanceDueDate: { type: Date },
+    balanceDueDaysBeforeTravel: { type: Number },
+    payments: [{
+      _id: false,
+      id: { type: String, required: true },
+      sequence: { type: Number, required: true },
+      kind: { type: String, enum: ['installment', 'final_balance'], required: true },
+      dueDate: { type: Date, required: true },
+      amount: { type: Number, required: true },
+      status: { type: String, enum: ['pending', 'paid', 'overdue'], default: 'pending' },
+      paidDate: { type: Date },
+      paymentIntentId: { type: String },
+      lastReminderAt: { type: Date },
+      reminderCount: { type: Number, default: 0 },
+    }],
+    createdAt: { type: Date },
+  },
+  cancellation: {
+    status: { type: String, enum: ['requested', 'approved', 'rejected'] },
+    reason: { type: String },
+    requestedAt: { type: Date },
+    requestedBy: {
+      type: { type: String, enum: ['customer', 'admin', 'system', 'payment_gateway'] },
+      id: { type: String },
+      name: { type: String },
+    },
+    estimate: {
+      daysBeforeDeparture: { type: Number },
+      refundPercent: { type: Number },
+      paidAmount: { type: Number },
+      nonRefundableAmount: { type: Number },
+      refundAmount: { type: Number },
+      computedAt: { type: Date },
+    },
+    decidedAt: { type: Date },
+    decidedBy: {
+      type: { type: String, enum: ['customer', 'admin', 'system', 'payment_gateway'] },
+      id: { type: String },
+      name: { type: String },
+    },
+    decisionNotes: { type: String },
+    refund: {
+      provider: { type: String },
+      refundId: { type: String },
+      amount: { type: Number },
+      status: { type: String, enum: ['pending', 'succeeded', 'failed'] },
+      expectedBy: { type: Date },
+      processedAt: { type: Date },
+      error: { type: String },
+    },
+  },
+  pricingQuote: {
+    currency: { type: String },
+    tourRevision: { type: Number },
+    priceSource: { type: String, enum: ['departure', 'sale', 'regular', 'per_day'] },
+    basePerPerson: { type: Number },
+    promoBannerDiscountPerPerson: { type: Number },
+    customRoutesPerPerson: { type: Number },
+    optionalToursPerPerson: { type: Number },
+    perPerson: { type: Number },
+    passengers: { type: Number },
+    lineItems: [{
+      _id: false,
+      code: { type: String },
+      label: { type: String },
+      unitAmount: { type: Number },
+      quantity: { type: Number },
+      amount: { type: Number },
+      appliesTo: { type: String },
+    }],
+    perks: [{
+      _id: false,
+      label: { type: String },
+      type: { type: String, enum: ['free', 'percent_off'] },
+      value: { type: Number },
+      addOn: { type: String, enum: ['visa', 'insurance', 'passport'] },
+      discountPerPerson: { type: Number },
+    }],
+    totalAmount: { type: Number },
+    paidAmount: { type: Number },
+    computedAt: { type: String },
+    adjustments: [{
+      _id: false,
+      field: { type: String },
+      submitted: { type: Number },
+      expected: { type: Number },
+    }],
+  },
   // Visa assistance fields
   visaAssistanceRequested: { type: Boolean, default: false },
   visaAssistanceFee: { type: Number, default: 0 },
@@ -142,31 +446,11 @@ const BookingSchema = new Schema<IBooking>({
     type: String,
     enum: ['ready', 'attention', 'not_ready'],
   },
-  visaReadinessSnapshot: {
-    score: { type: Number },
-    status: { type: String, enum: ['ready', 'attention', 'not_ready'] },
-    blockers: [{
-      code: { type: String },
-      message: { type: String },
-      level: { type: String, enum: ['critical', 'high', 'medium', 'low'] },
-      country: { type: String },
-    }],
-    warnings: [{
-      code: { type: String },
-      message: { type: String },
-      level: { type: String, enum: ['critical', 'high', 'medium', 'low'] },
-      country: { type: String },
-    }],
-    nextActions: [{ type: String }],
-    ruleSummary: {
-      countries: [{ type: String }],
-      strictestPassportValidityMonths: { type: Number },
-      strictestVisaLeadDays: { type: Number },
-      visaRequiredCountries: [{ type: String }],
-      evisaCountries: [{ type: String }],
-    },
-    evaluatedAt: { type: String },
-  },
+  visaReadinessSnapshot: VisaReadinessSnapshotSchema,
+  travellers: [TravellerSchema],
+  assignedTo: { type: Schema.Types.ObjectId, ref: 'User' },
+  assignedToName: { type: String },
+  assignedAt: { type: Date },
   archived: { type: Boolean, default: false },
   archivedAt: { type: Date },
 }, { timestamps: true });
@@ -178,6 +462,11 @@ BookingSchema.index({ customerEmail: 1, createdAt: -1 });
 BookingSchema.index({ tourSlug: 1, selectedDate: 1 });
 BookingSchema.index({ visaReadinessStatus: 1 });
 BookingSchema.index({ 'visaReadinessSnapshot.evaluatedAt': -1 });
+BookingSchema.index({ 'travellers.nationality': 1 });
 BookingSchema.index({ archived: 1, createdAt: -1 });
+BookingSchema.index({ assignedTo: 1, status: 1 });
+BookingSchema.index({ 'installmentPlan.payments.status': 1, 'installmentPlan.payments.dueDate': 1 });
+BookingSchema.index({ 'cancellation.status': 1, 'cancellation.requestedAt': -1 });
+BookingSchema.index({ 'cancellation.refund.refundId': 1 }, { sparse: true });
 
 export default mongoose.model<IBooking>('Booking', BookingSchema);
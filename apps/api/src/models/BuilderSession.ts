@@ -0,0 +1,94 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IPricingQuote } from './Booking';
+
+// `converted` sessions have become a booking and can no longer be edited
+export type BuilderSessionStatus = 'active' | 'converted';
+
+// A tour inserted into the base itinerary after the given day (1-based)
+export interface IBuilderRoute {
+  tourSlug: string;
+  insertAfterDay: number;
+}
+
+// One day of the combined itinerary; `custom` marks days from an inserted tour
+export interface IBuilderDay {
+  day: number;
+  date?: string;
+  city?: string;
+  country?: string;
+  tourSlug: string;
+  tourTitle: string;
+  custom: boolean;
+}
+
+export interface IBuilderSession extends Document {
+  // Secret edit key held by the customer's browser
+  sessionId: string;
+  // Separate key for the read-only quote link, so sharing it grants no edit access
+  shareToken: string;
+  status: BuilderSessionStatus;
+  baseTourSlug: string;
+  baseTourTitle: string;
+  selectedDate?: string;
+  passengers: number;
+  infants: number;
+  // Optional join/leave days (1-based) within the combined itinerary
+  joinDay?: number;
+  leaveDay?: number;
+  customRoutes: IBuilderRoute[];
+  // Server-computed from the tours at the last save
+  days: IBuilderDay[];
+  quote?: Omit<IPricingQuote, 'adjustments'>;
+  quoteError?: string;
+  customerName?: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  bookingId?: string;
+  convertedAt?: Date;
+  convertedBy?: string;
+  lastViewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BuilderSessionSchema = new Schema<IBuilderSession>({
+  sessionId: { type: String, required: true, unique: true },
+  shareToken: { type: String, required: true, unique: true },
+  status: { type: String, enum: ['active', 'converted'], default: 'active' },
+  baseTourSlug: { type: String, required: true },
+  baseTourTitle: { type: String, required: true },
+  selectedDate: { type: String },
+  passengers: { type: Number, default: 1, min: 1 },
+  infants: { type: Number, default: 0, min: 0 },
+  joinDay: { type: Number, min: 1 },
+  leaveDay: { type: Number, min: 1 },
+  customRoutes: [{
+    _id: false,
+    tourSlug: { type: String, required: true },
+    insertAfterDay: { type: Number, required: true, min: 0 },
+  }],
+  days: [{
+    _id: false,
+    day: { type: Number, required: true },
+    date: { type: String },
+    city: { type: String },
+    country: { type: String },
+    tourSlug: { type: String, required: true },
+    tourTitle: { type: String, required: true },
+    custom: { type: Boolean, default: false },
+  }],
+  quote: { type: Schema.Types.Mixed },
+  quoteError: { type: String },
+  customerName: { type: String },
+  customerEmail: { type: String },
+  customerPhone: { type: String },
+  bookingId: { type: String },
+  convertedAt: { type: Date },
+  convertedBy: { type: String },
+  lastViewedAt: { type: Date },
+}, { timestamps: true });
+
+BuilderSessionSchema.index({ status: 1, updatedAt: -1 });
+BuilderSessionSchema.index({ customerEmail: 1 });
+
+export default mongoose.model<IBuilderSession>('BuilderSession', BuilderSessionSchema);
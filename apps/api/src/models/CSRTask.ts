@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { CSRPriority } from './CustomerInquiry';
+
+export type CSRTaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
+export type CSRTaskCategory =
+  | 'follow_up'
+  | 'tour_guidance'
+  | 'booking_assistance'
+  | 'document_verification'
+  | 'complaint_resolution'
+  | 'general';
+
+export interface ICSRTask extends Document {
+  title: string;
+  description: string;
+  category: CSRTaskCategory;
+  priority: CSRPriority;
+  status: CSRTaskStatus;
+  assignedCSR: string;
+  assignedTo?: mongoose.Types.ObjectId;
+  customerId: string;
+  customerName: string;
+  relatedInquiryId?: string;
+  relatedBookingId?: string;
+  dueDate: Date;
+  completedAt?: Date;
+  notes: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CSRTaskSchema = new Schema<ICSRTask>({
+  title: { type: String, required: true, trim: true },
+  description: { type: String, default: '' },
+  category: {
+    type: String,
+    enum: ['follow_up', 'tour_guidance', 'booking_assistance', 'document_verification', 'complaint_resolution', 'general'],
+    default: 'general',
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high', 'urgent'],
+    default: 'medium',
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'in_progress', 'completed', 'cancelled'],
+    default: 'pending',
+  },
+  assignedCSR: { type: String, required: true },
+  assignedTo: { type: Schema.Types.ObjectId, ref: 'User' },
+  customerId: { type: String, required: true, lowercase: true, trim: true },
+  customerName: { type: String, required: true, trim: true },
+  relatedInquiryId: { type: String },
+  relatedBookingId: { type: String },
+  dueDate: { type: Date, required: true },
+  completedAt: { type: Date },
+  notes: { type: String, default: '' },
+  createdBy: { type: String },
+}, { timestamps: true, toJSON: { virtuals: true } });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Due dates are calendar days, so a task is overdue once its whole due day has passed
+CSRTaskSchema.virtual('isOverdue').get(function (this: ICSRTask) {
+  return ['pending', 'in_progress'].includes(this.status) && Date.now() >= this.dueDate.getTime() + DAY_MS;
+});
+
+CSRTaskSchema.index({ status: 1, dueDate: 1 });
+CSRTaskSchema.index({ customerId: 1 });
+CSRTaskSchema.index({ assignedTo: 1, status: 1 });
+
+export default mongoose.model<ICSRTask>('CSRTask', CSRTaskSchema);
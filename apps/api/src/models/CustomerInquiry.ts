@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type InquiryStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+export type InquiryCategory = 'booking' | 'tour_info' | 'visa' | 'cancellation' | 'complaint' | 'general';
+export type CSRPriority = 'low' | 'medium' | 'high' | 'urgent';
+export type ContactMethod = 'email' | 'phone' | 'whatsapp' | 'walk_in' | 'online_chat';
+
+export interface IInquiryResponse {
+  _id?: mongoose.Types.ObjectId;
+  message: string;
+  isFromCustomer: boolean;
+  csrName?: string;
+  attachments?: string[];
+  createdAt: Date;
+}
+
+export interface ICustomerInquiry extends Document {
+  // Customers are keyed by lowercased email; see services/customerService
+  customerId: string;
+  customerName: string;
+  subject: string;
+  message: string;
+  category: InquiryCategory;
+  priority: CSRPriority;
+  status: InquiryStatus;
+  contactMethod: ContactMethod;
+  assignedToCSR?: string;
+  assignedTo?: mongoose.Types.ObjectId;
+  responses: IInquiryResponse[];
+  relatedTourId?: string;
+  relatedBookingId?: string;
+  // SLA: first staff reply is due by slaDueAt (set from priority)
+  slaDueAt: Date;
+  firstResponseAt?: Date;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InquiryResponseSchema = new Schema<IInquiryResponse>({
+  message: { type: String, required: true },
+  isFromCustomer: { type: Boolean, default: false },
+  csrName: { type: String },
+  attachments: { type: [String], default: undefined },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const CustomerInquirySchema = new Schema<ICustomerInquiry>({
+  customerId: { type: String, required: true, lowercase: true, trim: true },
+  customerName: { type: String, required: true, trim: true },
+  subject: { type: String, required: true, trim: true },
+  message: { type: String, required: true },
+  category: {
+    type: String,
+    enum: ['booking', 'tour_info', 'visa', 'cancellation', 'complaint', 'general'],
+    default: 'general',
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high', 'urgent'],
+    default: 'medium',
+  },
+  status: {
+    type: String,
+    enum: ['open', 'in_progress', 'resolved', 'closed'],
+    default: 'open',
+  },
+  contactMethod: {
+    type: String,
+    enum: ['email', 'phone', 'whatsapp', 'walk_in', 'online_chat'],
+    default: 'email',
+  },
+  assignedToCSR: { type: String },
+  assignedTo: { type: Schema.Types.ObjectId, ref: 'User' },
+  responses: { type: [InquiryResponseSchema], default: [] },
+  relatedTourId: { type: String },
+  relatedBookingId: { type: String },
+  slaDueAt: { type: Date, required: true },
+  firstResponseAt: { type: Date },
+  resolvedAt: { type: Date },
+}, { timestamps: true, toJSON: { virtuals: true } });
+
+// Missed the first-response target, or still waiting past it
+CustomerInquirySchema.virtual('slaBreached').get(function (this: ICustomerInquiry) {
+  if (this.firstResponseAt) return this.firstResponseAt > this.slaDueAt;
+  return ['open', 'in_progress'].includes(this.status) && Date.now() > this.slaDueAt.getTime();
+});
+
+CustomerInquirySchema.index({ customerId: 1, createdAt: -1 });
+CustomerInquirySchema.index({ status: 1, slaDueAt: 1 });
+
+export default mongoose.model<ICustomerInquiry>('CustomerInquiry', CustomerInquirySchema);
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// `restore` versions copy the content of an earlier version
+export type EmailTemplateVersionAction = 'update' | 'restore';
+
+export interface IEmailTemplateVersion extends Document {
+  key: string;
+  locale: string;
+  // Counts up from 1 per key and locale; the highest version is the one sent
+  version: number;
+  action: EmailTemplateVersionAction;
+  restoredFrom?: number;
+  subject: string;
+  html: string;
+  text: string;
+  note?: string;
+  authorId?: string;
+  authorName: string;
+  createdAt: Date;
+}
+
+// Versions are written once and never updated
+const EmailTemplateVersionSchema = new Schema<IEmailTemplateVersion>({
+  key: { type: String, required: true, immutable: true },
+  locale: { type: String, required: true, immutable: true },
+  version: { type: Number, required: true, min: 1, immutable: true },
+  action: { type: String, enum: ['update', 'restore'], required: true, immutable: true },
+  restoredFrom: { type: Number, immutable: true },
+  subject: { type: String, required: true, immutable: true },
+  html: { type: String, required: true, immutable: true },
+  text: { type: String, default: '', immutable: true },
+  note: { type: String, immutable: true },
+  authorId: { type: String, immutable: true },
+  authorName: { type: String, required: true, immutable: true },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+EmailTemplateVersionSchema.index({ key: 1, locale: 1, version: -1 }, { unique: true });
+
+export default mongoose.model<IEmailTemplateVersion>('EmailTemplateVersion', EmailTemplateVersionSchema);
@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// lead: waiting for review; quoted: the Page has sent a price; booked: converted; lost: dismissed
+export type ExtractedTransactionStatus = 'lead' | 'quoted' | 'booked' | 'lost';
+
+// Fields staff can correct; once edited, re-extraction leaves them alone
+export const EXTRACTED_TRANSACTION_FIELDS = [
+  'customerName', 'customerEmail', 'customerPhone', 'tourSlug', 'selectedDate', 'numberOfPeople',
+] as const;
+
+export type ExtractedTransactionField = (typeof EXTRACTED_TRANSACTION_FIELDS)[number];
+
+// A candidate booking read out of a Messenger conversation, for sales to review
+export interface IExtractedTransaction extends Document {
+  conversation: mongoose.Types.ObjectId;
+  status: ExtractedTransactionStatus;
+  customerName: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  tourSlug?: string;
+  tourTitle?: string;
+  // A departure start of the tour, when a date in the chat matched one
+  selectedDate?: string;
+  // Dates as the customer wrote them
+  preferredDates?: string;
+  numberOfPeople?: number;
+  // Peso amounts mentioned in the chat, in order; the last is shown as the budget
+  amounts: number[];
+  editedFields: ExtractedTransactionField[];
+  // Meta ids of the messages the fields were read from
+  sourceMessageIds: string[];
+  extractedAt: Date;
+  notes?: string;
+  bookingId?: string;
+  convertedAt?: Date;
+  convertedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExtractedTransactionSchema = new Schema<IExtractedTransaction>({
+  conversation: { type: Schema.Types.ObjectId, ref: 'MessengerConversation', required: true },
+  status: { type: String, enum: ['lead', 'quoted', 'booked', 'lost'], default: 'lead' },
+  customerName: { type: String, required: true },
+  customerEmail: { type: String, lowercase: true, trim: true },
+  customerPhone: { type: String, trim: true },
+  tourSlug: { type: String },
+  tourTitle: { type: String },
+  selectedDate: { type: String },
+  preferredDates: { type: String },
+  numberOfPeople: { type: Number, min: 1 },
+  amounts: { type: [Number], default: [] },
+  editedFields: { type: [String], enum: EXTRACTED_TRANSACTION_FIELDS, default: [] },
+  sourceMessageIds: { type: [String], default: [] },
+  extractedAt: { type: Date, required: true },
+  notes: { type: String },
+  bookingId: { type: String },
+  convertedAt: { type: Date },
+  convertedBy: { type: String },
+}, { timestamps: true });
+
+ExtractedTransactionSchema.index({ status: 1, updatedAt: -1 });
+ExtractedTransactionSchema.index({ conversation: 1, createdAt: -1 });
+
+export default mongoose.model<IExtractedTransaction>('ExtractedTransaction', ExtractedTransactionSchema);
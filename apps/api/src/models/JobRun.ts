@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+export type JobTrigger = 'schedule' | 'manual';
+
+export interface IJobRun extends Document {
+  jobName: string;
+  status: JobRunStatus;
+  trigger: JobTrigger;
+  triggeredBy?: string;
+  // Host and process that held the lock for this run
+  instanceId: string;
+  attempts: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  // Whatever the job handler returned, e.g. counts of rows touched
+  result?: Record<string, unknown>;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Run history is only needed for troubleshooting; old runs expire on their own
+const RUN_HISTORY_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+const JobRunSchema = new Schema<IJobRun>({
+  jobName: { type: String, required: true, index: true },
+  status: {
+    type: String,
+    enum: ['running', 'succeeded', 'failed'],
+    default: 'running',
+  },
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    required: true,
+  },
+  triggeredBy: { type: String },
+  instanceId: { type: String, required: true },
+  attempts: { type: Number, default: 0 },
+  startedAt: { type: Date, required: true },
+  finishedAt: { type: Date },
+  durationMs: { type: Number },
+  result: { type: Schema.Types.Mixed },
+  error: { type: String },
+}, { timestamps: true });
+
+JobRunSchema.index({ jobName: 1, startedAt: -1 });
+JobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: RUN_HISTORY_TTL_SECONDS });
+
+export default mongoose.model<IJobRun>('JobRun', JobRunSchema);
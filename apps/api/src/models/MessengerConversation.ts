@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// `converted` once a booking came out of it; `closed` when sales are done with it
+export type MessengerConversationStatus = 'new' | 'in-progress' | 'converted' | 'closed';
+
+// One customer's Messenger thread with the Facebook Page
+export interface IMessengerConversation extends Document {
+  pageId: string;
+  // The customer's page-scoped id; messages to them are addressed with it
+  psid: string;
+  // Graph API conversation id, known once the thread has been synced
+  threadId?: string;
+  customerName: string;
+  status: MessengerConversationStatus;
+  lastMessageAt: Date;
+  lastMessageText?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MessengerConversationSchema = new Schema<IMessengerConversation>({
+  pageId: { type: String, required: true },
+  psid: { type: String, required: true },
+  threadId: { type: String },
+  customerName: { type: String, required: true },
+  status: { type: String, enum: ['new', 'in-progress', 'converted', 'closed'], default: 'new' },
+  lastMessageAt: { type: Date, required: true },
+  lastMessageText: { type: String },
+}, { timestamps: true });
+
+MessengerConversationSchema.index({ pageId: 1, psid: 1 }, { unique: true });
+MessengerConversationSchema.index({ lastMessageAt: -1 });
+
+export default mongoose.model<IMessengerConversation>('MessengerConversation', MessengerConversationSchema);
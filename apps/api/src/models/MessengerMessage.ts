@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// inbound: from the customer; outbound: from the Page, sent here or from Meta's own inbox
+export type MessengerDirection = 'inbound' | 'outbound';
+
+export interface IMessengerAttachment {
+  type: string;
+  url?: string;
+}
+
+export interface IMessengerMessage extends Document {
+  conversation: mongoose.Types.ObjectId;
+  // Meta's message id; webhook retries, echoes and syncs of the same message share it
+  mid: string;
+  direction: MessengerDirection;
+  text: string;
+  attachments: IMessengerAttachment[];
+  sentAt: Date;
+  // Staff member who replied from the admin app
+  sentBy?: string;
+  createdAt: Date;
+}
+
+const MessengerAttachmentSchema = new Schema<IMessengerAttachment>({
+  type: { type: String, required: true },
+  url: { type: String },
+}, { _id: false });
+
+const MessengerMessageSchema = new Schema<IMessengerMessage>({
+  conversation: { type: Schema.Types.ObjectId, ref: 'MessengerConversation', required: true },
+  mid: { type: String, required: true, unique: true },
+  direction: { type: String, enum: ['inbound', 'outbound'], required: true },
+  text: { type: String, default: '' },
+  attachments: { type: [MessengerAttachmentSchema], default: [] },
+  sentAt: { type: Date, required: true },
+  sentBy: { type: String },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+MessengerMessageSchema.index({ conversation: 1, sentAt: 1 });
+
+export default mongoose.model<IMessengerMessage>('MessengerMessage', MessengerMessageSchema);
@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { EmailLocale, EmailTemplateKey } from '../templates/email';
+
+// queued: waiting for its first or next attempt; dead: gave up, needs an admin
+export type OutboundEmailStatus = 'queued' | 'sending' | 'sent' | 'dead';
+
+export interface IEmailDeliveryAttempt {
+  at: Date;
+  transport: string;
+  succeeded: boolean;
+  messageId?: string;
+  error?: string;
+  durationMs: number;
+}
+
+export interface IOutboundEmail extends Document {
+  templateKey: EmailTemplateKey;
+  locale: EmailLocale;
+  // Set for emails about a booking, to show its delivery history
+  bookingId?: string;
+  from: string;
+  to: string[];
+  // Set on customer messages so replies thread back (see services/activityFeed)
+  replyTo?: string;
+  // Rendered when queued, so retries send exactly what was first attempted
+  subject: string;
+  html: string;
+  text: string;
+  status: OutboundEmailStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  // Instance sending it; stale locks are taken back by the outbox job
+  lockedAt?: Date;
+  lockedBy?: string;
+  sentAt?: Date;
+  messageId?: string;
+  previewUrl?: string;
+  lastError?: string;
+  attemptLog: IEmailDeliveryAttempt[];
+  // Admin who asked for a resend or retry
+  requestedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailDeliveryAttemptSchema = new Schema<IEmailDeliveryAttempt>({
+  at: { type: Date, required: true },
+  transport: { type: String, required: true },
+  succeeded: { type: Boolean, required: true },
+  messageId: { type: String },
+  error: { type: String },
+  durationMs: { type: Number, required: true },
+}, { _id: false });
+
+const OutboundEmailSchema = new Schema<IOutboundEmail>({
+  templateKey: { type: String, required: true },
+  locale: { type: String, enum: ['en', 'tl'], default: 'en' },
+  bookingId: { type: String },
+  from: { type: String, required: true },
+  to: { type: [String], required: true },
+  replyTo: { type: String },
+  subject: { type: String, required: true },
+  html: { type: String, required: true },
+  text: { type: String, default: '' },
+  status: {
+    type: String,
+    enum: ['queued', 'sending', 'sent', 'dead'],
+    default: 'queued',
+  },
+  attempts: { type: Number, default: 0 },
+  maxAttempts: { type: Number, required: true },
+  nextAttemptAt: { type: Date, required: true },
+  lockedAt: { type: Date },
+  lockedBy: { type: String },
+  sentAt: { type: Date },
+  messageId: { type: String },
+  previewUrl: { type: String },
+  lastError: { type: String },
+  attemptLog: { type: [EmailDeliveryAttemptSchema], default: [] },
+  requestedBy: { type: String },
+}, { timestamps: true });
+
+OutboundEmailSchema.index({ status: 1, nextAttemptAt: 1 });
+OutboundEmailSchema.index({ bookingId: 1, createdAt: -1 });
+
+export default mongoose.model<IOutboundEmail>('OutboundEmail', OutboundEmailSchema);
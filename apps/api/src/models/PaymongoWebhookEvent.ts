@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type PaymongoWebhookEventStatus = 'processing' | 'processed' | 'failed';
+
+export interface IPaymongoWebhookEvent extends Document {
+  eventId: string;
+  type: string;
+  livemode: boolean;
+  status: PaymongoWebhookEventStatus;
+  attempts: number;
+  processedAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymongoWebhookEventSchema = new Schema<IPaymongoWebhookEvent>({
+  // PayMongo event id (evt_...); retried deliveries reuse it
+  eventId: { type: String, required: true, unique: true },
+  type: { type: String, required: true },
+  livemode: { type: Boolean, default: false },
+  status: {
+    type: String,
+    enum: ['processing', 'processed', 'failed'],
+    default: 'processing',
+  },
+  attempts: { type: Number, default: 1 },
+  processedAt: { type: Date },
+  lastError: { type: String },
+}, { timestamps: true });
+
+export default mongoose.model<IPaymongoWebhookEvent>('PaymongoWebhookEvent', PaymongoWebhookEventSchema);
@@ -0,0 +1,22 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A built-in role only has a document once a super-admin has changed its grants
+export interface IRole extends Document {
+  key: string;
+  name: string;
+  permissions: string[];
+  builtIn: boolean;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RoleSchema = new Schema<IRole>({
+  key: { type: String, required: true, unique: true, trim: true },
+  name: { type: String, required: true, trim: true },
+  permissions: { type: [String], default: [] },
+  builtIn: { type: Boolean, default: false },
+  updatedBy: { type: String },
+}, { timestamps: true });
+
+export default mongoose.model<IRole>('Role', RoleSchema);
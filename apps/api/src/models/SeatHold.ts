@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SeatHoldStatus = 'active' | 'confirmed' | 'released' | 'expired';
+
+export interface ISeatHold extends Document {
+  bookingId: string;
+  tour: mongoose.Types.ObjectId;
+  tourSlug: string;
+  departureId: mongoose.Types.ObjectId;
+  departureStart: string;
+  seats: number;
+  status: SeatHoldStatus;
+  expiresAt: Date;
+  confirmedAt?: Date;
+  releasedAt?: Date;
+  releaseReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SeatHoldSchema = new Schema<ISeatHold>({
+  bookingId: { type: String, required: true, unique: true },
+  tour: { type: Schema.Types.ObjectId, ref: 'Tour', required: true },
+  tourSlug: { type: String, required: true },
+  departureId: { type: Schema.Types.ObjectId, required: true },
+  departureStart: { type: String, required: true },
+  seats: { type: Number, required: true, min: 1 },
+  status: {
+    type: String,
+    enum: ['active', 'confirmed', 'released', 'expired'],
+    default: 'active',
+  },
+  expiresAt: { type: Date, required: true },
+  confirmedAt: { type: Date },
+  releasedAt: { type: Date },
+  releaseReason: { type: String },
+}, { timestamps: true });
+
+// Used by the expiry sweeper to find stale holds
+SeatHoldSchema.index({ status: 1, expiresAt: 1 });
+SeatHoldSchema.index({ tourSlug: 1, departureStart: 1, status: 1 });
+
+export default mongoose.model<ISeatHold>('SeatHold', SeatHoldSchema);
@@ -1,5 +1,14 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Refund share for cancellations made at least this many days before departure
+export interface ICancellationTier {
+  minDaysBeforeDeparture: number;
+  refundPercent: number;
+}
+
+// How new work is handed to staff: by hand, in turn, or to whoever has the least open
+export type AssignmentStrategy = 'manual' | 'round_robin' | 'least_loaded';
+
 export interface ISettings extends Document {
   key: string;
   // Add-on pricing
@@ -13,6 +22,14 @@ export interface ISettings extends Document {
   passportAssistanceFee: number;
   passportAssistanceOriginalFee: number;
   passportDiscountEnabled: boolean;
+  // Cancellation & refund policy
+  cancellationPolicyHours: number;
+  refundProcessingDays: number;
+  cancellationTiers: ICancellationTier[];
+  nonRefundableAddOns: string[];
+  // Work queues
+  bookingAssignment: AssignmentStrategy;
+  visaAssignment: AssignmentStrategy;
 }
 
 const SettingsSchema = new Schema<ISettings>(
@@ -30,6 +47,29 @@ const SettingsSchema = new Schema<ISettings>(
     passportAssistanceFee: { type: Number, default: 5000 },
     passportAssistanceOriginalFee: { type: Number, default: 10000 },
     passportDiscountEnabled: { type: Boolean, default: true },
+    // Customers can no longer cancel online this many hours before departure
+    cancellationPolicyHours: { type: Number, default: 48 },
+    refundProcessingDays: { type: Number, default: 7 },
+    cancellationTiers: {
+      type: [{
+        _id: false,
+        minDaysBeforeDeparture: { type: Number, required: true },
+        refundPercent: { type: Number, required: true, min: 0, max: 100 },
+      }],
+      default: [
+        { minDaysBeforeDeparture: 60, refundPercent: 100 },
+        { minDaysBeforeDeparture: 30, refundPercent: 50 },
+        { minDaysBeforeDeparture: 15, refundPercent: 25 },
+      ],
+    },
+    // Pricing line-item codes (see services/pricingService) kept when refunding
+    nonRefundableAddOns: {
+      type: [String],
+      default: ['VISA_ASSISTANCE', 'TRAVEL_INSURANCE', 'PASSPORT_ASSISTANCE'],
+    },
+    // Work queues (see services/assignmentQueues)
+    bookingAssignment: { type: String, enum: ['manual', 'round_robin', 'least_loaded'], default: 'manual' },
+    visaAssignment: { type: String, enum: ['manual', 'round_robin', 'least_loaded'], default: 'manual' },
   },
   { timestamps: true }
 );
@@ -1,5 +1,37 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// A scheduled departure with its own seat inventory. `maxCapacity` unset means
+// the departure is not capacity-managed (unlimited seats).
+export interface IDepartureDate {
+  _id?: mongoose.Types.ObjectId;
+  start: string;
+  end: string;
+  maxCapacity?: number;   // Total seats on this departure
+  currentBookings?: number; // Seats sold (payment received)
+  heldSeats?: number;     // Seats reserved by bookings awaiting payment
+  isAvailable?: boolean;  // Manual override to close the departure
+  price?: number;         // Optional per-departure price override
+}
+
+// Add-on from Settings a perk discounts; must match the fee keys in pricingService
+export type PerkAddOn = 'visa' | 'insurance' | 'passport';
+// `full_payment`: only when the booking is paid in full (online or cash), not on downpayment
+export type PerkEligibility = 'full_payment' | 'any';
+
+// A freebie or promo perk offered with the tour, e.g. "50% off Visa Processing".
+// Perks without an add-on are listed to the customer but carry no price.
+export interface ITourPerk {
+  label: string;
+  type: 'free' | 'percent_off';
+  value?: number;         // Percent off when type is percent_off
+  addOn?: PerkAddOn;
+  eligibility: PerkEligibility;
+}
+
+// Only `published` tours are listed publicly. Tours saved before the workflow
+// existed have no status and are treated as published.
+export type TourStatus = 'draft' | 'in_review' | 'published' | 'archived';
+
 export interface ITour extends Document {
   title: string;
   slug: string;
@@ -13,7 +45,7 @@ export interface ITour extends Document {
   // Year-tagged booking/flipbook links, e.g. [{year: "2026", urls: ["https://..."]}, ...]
   bookingLinks?: Array<{ year: string; urls: string[] }>;
   video_url?: string;
-  departureDates?: string[];
+  departureDates?: IDepartureDate[];
   travelWindow?: {
     start: string;
     end: string;
@@ -46,6 +78,15 @@ export interface ITour extends Document {
   isSaleEnabled?: boolean;
   saleEndDate?: string | null;
   facebookPostUrl?: string;
+  cashFreebies?: ITourPerk[];
+  // Latest TourRevision number; unset on tours not saved since revisions began
+  revision?: number;
+  status?: TourStatus;
+  publishAt?: Date | null;   // Scheduled publish; cleared once published
+  unpublishAt?: Date | null; // Scheduled archive, e.g. the end of a timed sale
+  publishedAt?: Date | null;
+  statusUpdatedAt?: Date;
+  statusUpdatedBy?: string;
   [key: string]: unknown;
 }
 
@@ -66,7 +107,12 @@ const TourSchema = new Schema<ITour>({
   video_url: { type: String },
   departureDates: [{
     start: { type: String, required: true },
-    end: { type: String, required: true }
+    end: { type: String, required: true },
+    maxCapacity: { type: Number, min: 0 },
+    currentBookings: { type: Number, default: 0, min: 0 },
+    heldSeats: { type: Number, default: 0, min: 0 },
+    isAvailable: { type: Boolean, default: true },
+    price: { type: Number }
   }],
   travelWindow: {
     start: { type: String },
@@ -106,6 +152,22 @@ const TourSchema = new Schema<ITour>({
   isSaleEnabled: { type: Boolean, default: false },
   saleEndDate: { type: String, default: null },
   facebookPostUrl: { type: String },
+  cashFreebies: [{
+    _id: false,
+    label: { type: String, required: true },
+    type: { type: String, enum: ['free', 'percent_off'], default: 'free' },
+    value: { type: Number, min: 0, max: 100 },
+    addOn: { type: String, enum: ['visa', 'insurance', 'passport'] },
+    eligibility: { type: String, enum: ['full_payment', 'any'], default: 'full_payment' }
+  }],
+  revision: { type: Number, min: 0 },
+  // No default: legacy tours without a status stay public
+  status: { type: String, enum: ['draft', 'in_review', 'published', 'archived'] },
+  publishAt: { type: Date, default: null },
+  unpublishAt: { type: Date, default: null },
+  publishedAt: { type: Date, default: null },
+  statusUpdatedAt: { type: Date },
+  statusUpdatedBy: { type: String },
 }, { 
   timestamps: true,
   strict: false // Allow additional fields for flexibility
@@ -116,5 +178,7 @@ TourSchema.index({ line: 1, createdAt: -1 });
 TourSchema.index({ durationDays: 1 });
 TourSchema.index({ isSaleEnabled: 1, saleEndDate: 1 });
 TourSchema.index({ 'additionalInfo.countriesVisited': 1 });
+TourSchema.index({ status: 1, publishAt: 1 });
+TourSchema.index({ status: 1, unpublishAt: 1 });
 
 export default mongoose.model<ITour>('Tour', TourSchema);
\ No newline at end of file
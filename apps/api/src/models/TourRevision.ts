@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// `baseline` records a tour as it was before its first tracked save
+export type TourRevisionAction = 'create' | 'update' | 'restore' | 'baseline';
+
+export interface ITourRevision extends Document {
+  tourId: mongoose.Types.ObjectId;
+  // Counts up from 1 per tour; matches Tour.revision after the save
+  revision: number;
+  action: TourRevisionAction;
+  restoredFrom?: number;
+  // Editable tour fields as saved (no ids, timestamps, seat counters or publishing state)
+  snapshot: Record<string, unknown>;
+  // Dotted paths that differ from the previous revision
+  changedFields: string[];
+  authorId?: string;
+  authorName: string;
+  createdAt: Date;
+}
+
+// Revisions are written once and never updated
+const TourRevisionSchema = new Schema<ITourRevision>({
+  tourId: { type: Schema.Types.ObjectId, ref: 'Tour', required: true, immutable: true },
+  revision: { type: Number, required: true, min: 1, immutable: true },
+  action: {
+    type: String,
+    enum: ['create', 'update', 'restore', 'baseline'],
+    required: true,
+    immutable: true,
+  },
+  restoredFrom: { type: Number, immutable: true },
+  snapshot: { type: Schema.Types.Mixed, required: true, immutable: true },
+  changedFields: { type: [String], default: [], immutable: true },
+  authorId: { type: String, immutable: true },
+  authorName: { type: String, required: true, immutable: true },
+}, { timestamps: { createdAt: true, updatedAt: false }, minimize: false });
+
+TourRevisionSchema.index({ tourId: 1, revision: -1 }, { unique: true });
+
+export default mongoose.model<ITourRevision>('TourRevision', TourRevisionSchema);
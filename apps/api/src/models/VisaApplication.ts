@@ -1,9 +1,41 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export type VisaApplicationStatus =
+  | 'pending'
+  | 'under_review'
+  | 'documents_requested'
+  | 'approved'
+  | 'rejected'
+  | 'completed';
+
+export type VisaDocumentStatus = 'missing' | 'uploaded' | 'accepted' | 'rejected';
+
+// A document the application needs, from the visa rules of its destinations (see services/visaApplications)
+export interface IVisaChecklistItem {
+  key: string;
+  label: string;
+  description?: string;
+  // Destinations that ask for it
+  countries: string[];
+  status: VisaDocumentStatus;
+  fileUrl?: string;
+  uploadedAt?: Date;
+  reviewedAt?: Date;
+  reviewedBy?: string;
+  rejectionReason?: string;
+}
+
+export interface IEmbassyAppointment {
+  date: Date;
+  time?: string;
+  location?: string;
+  reference?: string;
+}
+
 export interface IVisaApplication extends Document {
   // Application tracking
   applicationId: string;
-  status: 'pending' | 'under_review' | 'documents_requested' | 'approved' | 'rejected' | 'completed';
+  status: VisaApplicationStatus;
   applicationDate: string;
   source: 'booking' | 'direct'; // came from booking or standalone form
 
@@ -26,10 +58,20 @@ export interface IVisaApplication extends Document {
   bookingId?: string;
   tourTitle?: string;
   destinationCountries?: string;
+  // Lowercased country name, like IBooking.nationality; visa rules are keyed on it
+  nationality?: string;
+  // Language of the status emails
+  locale?: 'en' | 'tl';
+
+  checklist: IVisaChecklistItem[];
+  embassyAppointment?: IEmbassyAppointment;
 
   // Admin-managed
   notes?: string;
-  assignedTo?: string;
+  // Staff member working the application (see services/assignmentQueues)
+  assignedTo?: mongoose.Types.ObjectId;
+  assignedToName?: string;
+  assignedAt?: Date;
 
   createdAt?: Date;
   updatedAt?: Date;
@@ -62,11 +104,44 @@ const VisaApplicationSchema = new Schema<IVisaApplication>(
     bookingId: { type: String },
     tourTitle: { type: String },
     destinationCountries: { type: String },
+    nationality: { type: String, trim: true, lowercase: true },
+    locale: { type: String, enum: ['en', 'tl'], default: 'en' },
+
+    checklist: {
+      type: [{
+        _id: false,
+        key: { type: String, required: true },
+        label: { type: String, required: true },
+        description: { type: String },
+        countries: { type: [String], default: [] },
+        status: { type: String, enum: ['missing', 'uploaded', 'accepted', 'rejected'], default: 'missing' },
+        fileUrl: { type: String },
+        uploadedAt: { type: Date },
+        reviewedAt: { type: Date },
+        reviewedBy: { type: String },
+        rejectionReason: { type: String },
+      }],
+      default: [],
+    },
+    embassyAppointment: {
+      type: new Schema({
+        date: { type: Date, required: true },
+        time: { type: String },
+        location: { type: String },
+        reference: { type: String },
+      }, { _id: false }),
+    },
 
     notes: { type: String },
-    assignedTo: { type: String },
+    assignedTo: { type: Schema.Types.ObjectId, ref: 'User' },
+    assignedToName: { type: String },
+    assignedAt: { type: Date },
   },
   { timestamps: true }
 );
 
+VisaApplicationSchema.index({ assignedTo: 1, status: 1 });
+VisaApplicationSchema.index({ emailAddress: 1 });
+VisaApplicationSchema.index({ bookingId: 1 });
+
 export default mongoose.model<IVisaApplication>('VisaApplication', VisaApplicationSchema);
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type VisaRequirement = 'required' | 'not_required' | 'evisa';
+
+// One line of a visa application's document checklist
+export interface IVisaDocumentRequirement {
+  key: string;
+  label: string;
+  description?: string;
+}
+
+export interface IVisaRule extends Document {
+  // Both keys are stored lowercased, e.g. "philippines" → "japan"
+  nationality: string;
+  destination: string;
+  visaRequirement: VisaRequirement;
+  passportValidityMonths: number;
+  visaLeadDays: number;
+  // Applies when the destination is only passed through on the way somewhere else
+  transitVisaRequired: boolean;
+  // Documents an application for this destination needs; empty uses the defaults for visaRequirement
+  requiredDocuments: IVisaDocumentRequirement[];
+  validFrom?: Date;
+  validUntil?: Date;
+  sourceNote?: string;
+  sourceUrl?: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VisaRuleSchema = new Schema<IVisaRule>({
+  nationality: { type: String, required: true, trim: true, lowercase: true },
+  destination: { type: String, required: true, trim: true, lowercase: true },
+  visaRequirement: {
+    type: String,
+    enum: ['required', 'not_required', 'evisa'],
+    required: true,
+  },
+  passportValidityMonths: { type: Number, required: true, min: 0, default: 6 },
+  visaLeadDays: { type: Number, required: true, min: 0, default: 0 },
+  transitVisaRequired: { type: Boolean, default: false },
+  requiredDocuments: {
+    type: [{
+      _id: false,
+      key: { type: String, required: true, trim: true },
+      label: { type: String, required: true, trim: true },
+      description: { type: String, trim: true },
+    }],
+    default: [],
+  },
+  validFrom: { type: Date },
+  validUntil: { type: Date },
+  sourceNote: { type: String, trim: true },
+  sourceUrl: { type: String, trim: true },
+  updatedBy: { type: String },
+}, { timestamps: true });
+
+VisaRuleSchema.index({ nationality: 1, destination: 1, validFrom: 1 }, { unique: true });
+
+export default mongoose.model<IVisaRule>('VisaRule', VisaRuleSchema);
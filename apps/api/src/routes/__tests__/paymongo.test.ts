@@ -0,0 +1,158 @@
+import { afterAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { computePaymongoSignature } from '../../middleware/paymongoSignature';
+import type { MemoryModel } from '../../testUtils/memoryModel';
+
+jest.mock('../../models/Booking', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return { __esModule: true, default: createMemoryModel({ unique: ['bookingId'] }) };
+});
+jest.mock('../../models/PaymongoWebhookEvent', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return {
+    __esModule: true,
+    default: createMemoryModel({ unique: ['eventId'], defaults: () => ({ status: 'processing', attempts: 1 }) }),
+  };
+});
+jest.mock('../../services/seatInventory', () => ({
+  ...jest.requireActual<object>('../../services/seatInventory'),
+  confirmSeatHold: jest.fn(async () => undefined),
+  releaseSeats: jest.fn(async () => undefined),
+}));
+
+import Booking from '../../models/Booking';
+import PaymongoWebhookEvent from '../../models/PaymongoWebhookEvent';
+import { confirmSeatHold } from '../../services/seatInventory';
+import paymongoRouter from '../paymongo';
+
+const bookings = Booking as unknown as MemoryModel;
+const webhookEvents = PaymongoWebhookEvent as unknown as MemoryModel;
+
+const SECRET = 'whsk_test_secret';
+const originalSecret = process.env.PAYMONGO_WEBHOOK_SECRET;
+
+// Mounted as in index.ts: the webhook keeps its raw body for the signature check
+const app = express();
+app.use('/api/paymongo/webhook', express.raw({ type: 'application/json' }));
+app.use(express.json());
+app.use('/api/paymongo', paymongoRouter);
+
+// A payment.paid delivery as PayMongo sends it (amounts in centavos)
+function paymentPaidEvent(eventId: string, paymentId: string, amount: number) {
+  return {
+    data: {
+      id: eventId,
+      type: 'event',
+      attributes: {
+        type: 'payment.paid',
+        livemode: false,
+        data: {
+          id: paymentId,
+          type: 'payment',
+          attributes: {
+            amount: amount * 100,
+            currency: 'PHP',
+            status: 'paid',
+            metadata: { bookingId: 'BK-1001' },
+          },
+        },
+      },
+    },
+  };
+}
+
+function deliver(event: object, sign = true) {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = computePaymongoSignature(sign ? SECRET : 'whsk_wrong_secret', timestamp, body);
+  return request(app)
+    .post('/api/paymongo/webhook')
+    .set('Content-Type', 'application/json')
+    .set('Paymongo-Signature', `t=${timestamp},te=${signature},li=`)
+    .send(body);
+}
+
+const booking = () => bookings.docs[0];
+
+describe('PayMongo webhook', () => {
+  beforeEach(async () => {
+    process.env.PAYMONGO_WEBHOOK_SECRET = SECRET;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    bookings.reset();
+    webhookEvents.reset();
+    (confirmSeatHold as jest.Mock).mockClear();
+    await bookings.create({
+      bookingId: 'BK-1001',
+      customerName: 'Maria Santos',
+      totalAmount: 50000,
+      paidAmount: 0,
+      paymentType: 'downpayment',
+      status: 'pending',
+      statusHistory: [],
+    });
+  });
+
+  afterAll(() => {
+    process.env.PAYMONGO_WEBHOOK_SECRET = originalSecret;
+    jest.restoreAllMocks();
+  });
+
+  it('rejects deliveries that are not signed with the webhook secret', async () => {
+    const res = await deliver(paymentPaidEvent('evt_1', 'pay_1', 10000), false);
+
+    expect(res.status).toBe(401);
+    expect(booking().paidAmount).toBe(0);
+    expect(booking().status).toBe('pending');
+    expect(webhookEvents.docs).toHaveLength(0);
+  });
+
+  it('records a signed payment against the booking', async () => {
+    const res = await deliver(paymentPaidEvent('evt_1', 'pay_1', 10000));
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ received: true });
+    expect(booking().paidAmount).toBe(10000);
+    expect(booking().status).toBe('partially_paid');
+    expect(booking().paymentIntentId).toBe('pay_1');
+    expect(booking().statusHistory).toEqual([
+      expect.objectContaining({ from: 'pending', to: 'partially_paid', reason: 'Payment pay_1 received' }),
+    ]);
+    expect(confirmSeatHold).toHaveBeenCalledWith('BK-1001');
+    expect(webhookEvents.docs[0]).toMatchObject({ eventId: 'evt_1', status: 'processed' });
+  });
+
+  it('ignores a replayed delivery of the same event', async () => {
+    await deliver(paymentPaidEvent('evt_1', 'pay_1', 10000));
+    const res = await deliver(paymentPaidEvent('evt_1', 'pay_1', 10000));
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ received: true, duplicate: true });
+    expect(booking().paidAmount).toBe(10000);
+  });
+
+  it('counts a payment once even when it arrives under a new event id', async () => {
+    await deliver(paymentPaidEvent('evt_1', 'pay_1', 10000));
+    const res = await deliver(paymentPaidEvent('evt_2', 'pay_1', 10000));
+
+    expect(res.status).toBe(200);
+    expect(booking().paidAmount).toBe(10000);
+    expect(booking().recordedPaymentIds).toEqual(['pay_1']);
+  });
+
+  it('adds later payments to the amount paid and confirms the booking once paid in full', async () => {
+    await deliver(paymentPaidEvent('evt_1', 'pay_1', 10000));
+    await deliver(paymentPaidEvent('evt_2', 'pay_2', 15000));
+    expect(booking().paidAmount).toBe(25000);
+    expect(booking().status).toBe('partially_paid');
+
+    await deliver(paymentPaidEvent('evt_3', 'pay_3', 25000));
+    expect(booking().paidAmount).toBe(50000);
+    expect(booking().status).toBe('confirmed');
+    expect(booking().statusHistory.map((entry: { to: string }) => entry.to)).toEqual([
+      'partially_paid',
+      'partially_paid',
+      'confirmed',
+    ]);
+  });
+});
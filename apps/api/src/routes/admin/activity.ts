@@ -0,0 +1,150 @@
+import express, { Response } from "express";
+import multer from "multer";
+import { requireAuth, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import { logAuditEvent } from "../../middleware/auditLog";
+import { Permission, roleHasPermission } from "../../services/permissions";
+import {
+  ActivityFeedError,
+  ActivitySubject,
+  MAX_ATTACHMENT_BYTES,
+  addInternalNote,
+  getBookingSubject,
+  getVisaApplicationSubject,
+  listActivity,
+  listMentionableStaff,
+  sendCustomerMessage,
+} from "../../services/activityFeed";
+
+const router = express.Router();
+
+// Threaded notes and customer messages on bookings and visa applications; see services/activityFeed
+
+// File types and sizes are checked by the service, which gives clearer errors
+const uploadAttachments = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 5 },
+});
+
+// Same visibility as GET /admin/bookings/:bookingId: the assignee, or anyone who can view all bookings
+async function visibleBookingSubject(req: AuthenticatedRequest): Promise<ActivitySubject> {
+  const subject = await getBookingSubject(req.params.bookingId);
+  if (String(subject.assignedTo) !== req.user!.id && !(await roleHasPermission(req.user!.role, ['canViewAllBookings']))) {
+    throw new ActivityFeedError('Booking not found', 404);
+  }
+  return subject;
+}
+
+// Mentions arrive as repeated form fields or a JSON array string
+function readMentionIds(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string' || !value.trim()) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [value];
+  } catch {
+    return [value];
+  }
+}
+
+function authorOf(req: AuthenticatedRequest) {
+  return {
+    id: req.user!.id,
+    name: req.user!.fullName || req.user!.name || req.user!.email,
+    email: req.user!.email,
+  };
+}
+
+function sendError(res: Response, err: unknown, action: string) {
+  if (err instanceof ActivityFeedError) {
+    return res.status(err.statusCode).json({ error: err.message });
+  }
+  console.error(`Error ${action}:`, err);
+  return res.status(500).json({ error: `Failed ${action}` });
+}
+
+/**
+ * Add a note ({ kind: "note" }) or a message to the customer ({ kind: "message" }).
+ * Messages need `messagePermission` as well as access to the feed.
+ */
+async function postEntry(req: AuthenticatedRequest, res: Response, subject: ActivitySubject, messagePermission: Permission) {
+  const { kind, body, parentId, mentions } = req.body as Record<string, unknown>;
+  if (kind !== 'note' && kind !== 'message') {
+    return res.status(400).json({ error: 'kind must be note or message' });
+  }
+  if (kind === 'message' && !(await roleHasPermission(req.user!.role, [messagePermission]))) {
+    return res.status(403).json({ error: 'You do not have permission to message customers here' });
+  }
+
+  const input = {
+    body,
+    parentId,
+    mentions: readMentionIds(mentions),
+    files: (req.files as Express.Multer.File[] | undefined) ?? [],
+  };
+  const entry = kind === 'message'
+    ? await sendCustomerMessage(subject, authorOf(req), input)
+    : await addInternalNote(subject, authorOf(req), input);
+
+  await logAuditEvent({
+    userId: req.user!.id,
+    userEmail: req.user!.email,
+    userName: req.user!.fullName,
+    action: 'CREATE',
+    resource: 'activity',
+    resourceId: subject.id,
+    req,
+    changes: { after: { kind, noteId: String(entry._id), attachments: entry.attachments.length, recipient: entry.recipient } },
+  });
+
+  // The reply token lets anyone post into the thread, so it never leaves the server
+  const visible = entry.toObject();
+  delete visible.replyToken;
+  res.status(201).json(visible);
+}
+
+// GET /admin/activity/staff - who can be @mentioned in a note
+router.get("/staff", requireAuth, requirePermission('canAccessBookings', 'canAccessVisaAssistance'), async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await listMentionableStaff());
+  } catch (err) {
+    sendError(res, err, "to fetch staff");
+  }
+});
+
+// GET /admin/activity/bookings/:bookingId - the booking's feed
+router.get("/bookings/:bookingId", requireAuth, requirePermission('canAccessBookings'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ threads: await listActivity(await visibleBookingSubject(req)) });
+  } catch (err) {
+    sendError(res, err, "to fetch activity");
+  }
+});
+
+// POST /admin/activity/bookings/:bookingId - multipart: kind, body, parentId?, mentions?, files[]
+router.post("/bookings/:bookingId", requireAuth, requirePermission('canAccessBookings'), uploadAttachments.array('files'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await postEntry(req, res, await visibleBookingSubject(req), 'canManageBookingStatus');
+  } catch (err) {
+    sendError(res, err, "to add to the activity feed");
+  }
+});
+
+// GET /admin/activity/visa-applications/:id - the application's feed
+router.get("/visa-applications/:id", requireAuth, requirePermission('canAccessVisaAssistance'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ threads: await listActivity(await getVisaApplicationSubject(req.params.id)) });
+  } catch (err) {
+    sendError(res, err, "to fetch activity");
+  }
+});
+
+// POST /admin/activity/visa-applications/:id - multipart: kind, body, parentId?, mentions?, files[]
+router.post("/visa-applications/:id", requireAuth, requirePermission('canAccessVisaAssistance'), uploadAttachments.array('files'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await postEntry(req, res, await getVisaApplicationSubject(req.params.id), 'canUpdateVisaStatus');
+  } catch (err) {
+    sendError(res, err, "to add to the activity feed");
+  }
+});
+
+export default router;
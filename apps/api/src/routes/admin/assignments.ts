@@ -0,0 +1,129 @@
+import express, { NextFunction, Response } from "express";
+import { requireAuth, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import { logAuditEvent } from "../../middleware/auditLog";
+import { roleHasPermission } from "../../services/permissions";
+import {
+  ASSIGNMENT_QUEUES,
+  AssignmentError,
+  AssignmentQueue,
+  assignItem,
+  autoAssignUnassigned,
+  getAssignmentSettings,
+  getWorkload,
+  isAssignmentQueue,
+  listQueueAgents,
+  queuePermission,
+  updateAssignmentSettings,
+} from "../../services/assignmentQueues";
+
+const router = express.Router();
+
+// Checks the :queue param and that the user may work that queue
+function requireQueuePermission(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  const { queue } = req.params;
+  if (!isAssignmentQueue(queue)) {
+    return res.status(404).json({ error: `Unknown queue. Use one of: ${ASSIGNMENT_QUEUES.join(', ')}` });
+  }
+  return requirePermission(queuePermission(queue))(req, res, next);
+}
+
+// GET /admin/assignments/workload - open items per agent, for the queues the user can see
+router.get("/workload", requireAuth, requirePermission('canAccessBookings', 'canAccessVisaAssistance'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const [bookings, visa] = await Promise.all([
+      roleHasPermission(req.user!.role, ['canAccessBookings']),
+      roleHasPermission(req.user!.role, ['canAccessVisaAssistance']),
+    ]);
+    const queues = ASSIGNMENT_QUEUES.filter((queue) => (queue === 'bookings' ? bookings : visa));
+    res.json({ queues: await getWorkload(queues) });
+  } catch (err) {
+    console.error("Error fetching workload:", err);
+    res.status(500).json({ error: "Failed to fetch workload" });
+  }
+});
+
+// GET /admin/assignments/settings - how each queue hands out new work
+router.get("/settings", requireAuth, requirePermission('canAccessSettings'), async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await getAssignmentSettings());
+  } catch (err) {
+    console.error("Error fetching assignment settings:", err);
+    res.status(500).json({ error: "Failed to fetch assignment settings" });
+  }
+});
+
+// PUT /admin/assignments/settings - { bookings?, "visa-applications"? }: manual | round_robin | least_loaded
+router.put("/settings", requireAuth, requirePermission('canAccessSettings'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const before = await getAssignmentSettings();
+    const after = await updateAssignmentSettings(req.body);
+    await logAuditEvent({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      userName: req.user!.fullName,
+      action: 'UPDATE',
+      resource: 'settings',
+      resourceId: 'assignment',
+      req,
+      changes: { before, after },
+    });
+    res.json(after);
+  } catch (err) {
+    if (err instanceof AssignmentError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error updating assignment settings:", err);
+    res.status(500).json({ error: "Failed to update assignment settings" });
+  }
+});
+
+// GET /admin/assignments/:queue/agents - staff who can be given items in the queue
+router.get("/:queue/agents", requireAuth, requireQueuePermission, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await listQueueAgents(req.params.queue as AssignmentQueue));
+  } catch (err) {
+    console.error("Error fetching queue agents:", err);
+    res.status(500).json({ error: "Failed to fetch agents" });
+  }
+});
+
+// POST /admin/assignments/:queue/auto-assign - share out every unassigned open item
+router.post("/:queue/auto-assign", requireAuth, requireQueuePermission, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await autoAssignUnassigned(req.params.queue as AssignmentQueue);
+    console.log(`📥 ${result.assigned} ${req.params.queue} auto-assigned by ${req.user!.email}`);
+    res.json(result);
+  } catch (err) {
+    console.error("Error auto-assigning queue:", err);
+    res.status(500).json({ error: "Failed to assign items" });
+  }
+});
+
+// PUT /admin/assignments/:queue/:id - { assigneeId }: assign, reassign or (null) unassign
+router.put("/:queue/:id", requireAuth, requireQueuePermission, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const queue = req.params.queue as AssignmentQueue;
+    const change = await assignItem(queue, req.params.id, req.body?.assigneeId ?? null);
+
+    await logAuditEvent({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      userName: req.user!.fullName,
+      action: 'UPDATE',
+      resource: queue,
+      resourceId: change.resourceId,
+      req,
+      changes: { before: change.before, after: change.after },
+    });
+
+    res.json(change);
+  } catch (err) {
+    if (err instanceof AssignmentError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error assigning item:", err);
+    res.status(500).json({ error: "Failed to assign" });
+  }
+});
+
+export default router;
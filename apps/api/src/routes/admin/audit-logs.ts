@@ -1,6 +1,6 @@
 import express from 'express';
 import AuditLog from '../../models/AuditLog';
-import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { requireAuth, requireAdmin, requirePermission } from '../../middleware/auth';
 import logger from '../../utils/logger';
 
 const router = express.Router();
@@ -237,7 +237,7 @@ router.get('/:id', requireAuth, requireAdmin, async (req, res) => {
  * DELETE /admin/audit-logs/cleanup
  * Clean up old audit logs (optional maintenance endpoint)
  */
-router.delete('/cleanup', requireAuth, requireAdmin, async (req, res) => {
+router.delete('/cleanup', requireAuth, requirePermission('canManageSystem'), async (req, res) => {
   try {
     const { olderThanDays = '90' } = req.query;
 
@@ -1,6 +1,30 @@
 ﻿import express from "express";
-import Booking from "../../models/Booking";
-import { requireAuth, requireAdmin } from "../../middleware/auth";
+import Booking, { IBooking } from "../../models/Booking";
+import { requireAuth, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import { releaseSeats } from "../../services/seatInventory";
+import {
+  transitionBookingStatus,
+  getAllowedTransitions,
+  BookingTransitionError,
+} from "../../services/bookingStatus";
+import { findOverdueBookings, getBalanceSummary, recordBookingPayment } from "../../services/installmentService";
+import {
+  approveCancellation,
+  rejectCancellation,
+  updateRefundStatus,
+  CancellationError,
+} from "../../services/cancellationService";
+import {
+  buildDepartureManifest,
+  updateBookingTravellers,
+  TravellerManifestError,
+} from "../../services/travellerManifest";
+import { logAuditEvent } from "../../middleware/auditLog";
+import { roleHasPermission } from "../../services/permissions";
+import { assignmentFilter } from "../../services/assignmentQueues";
+import { listBookingEmails } from "../../services/emailOutbox";
+import { RESENDABLE_BOOKING_EMAILS, ResendableBookingEmail, resendBookingEmail } from "../../services/emailService";
+import { ActivityFeedError, addInternalNote, getBookingSubject } from "../../services/activityFeed";
 
 // Type definitions for tours
 interface BaseTour {
@@ -59,6 +83,29 @@ const ADMIN_TOURS: BaseTour[] = [
   { id: "1", slug: "route-a-preferred", title: "Route A Preferred - European Adventure", durationDays: 14 }
 ];
 
+function adminActor(req: AuthenticatedRequest) {
+  return {
+    type: 'admin' as const,
+    id: req.user?.id,
+    name: req.user?.fullName || req.user?.name || req.user?.email,
+  };
+}
+
+function auditAdminCancellation(req: AuthenticatedRequest, bookingId: string, after: Record<string, unknown>, errorMessage?: string) {
+  return logAuditEvent({
+    userId: req.user?.id,
+    userEmail: req.user?.email || 'unknown',
+    userName: req.user?.fullName || req.user?.name || 'Admin',
+    action: 'UPDATE',
+    resource: 'cancellations',
+    resourceId: bookingId,
+    req,
+    statusCode: errorMessage ? 502 : 200,
+    changes: { after },
+    errorMessage,
+  });
+}
+
 // Helper: attach tour data to a booking plain object
 function attachTour(booking: ReturnType<(typeof Booking.prototype)['toObject']>): Record<string, unknown> {
   const bookingObj = booking as unknown as Record<string, unknown>;
@@ -80,13 +127,19 @@ function attachTour(booking: ReturnType<(typeof Booking.prototype)['toObject']>)
     };
     bookingObj['tour'] = tourData;
   }
+  bookingObj['allowedTransitions'] = getAllowedTransitions(bookingObj['status'] as string | undefined);
   return bookingObj;
 }
 
 // â”€â”€ GET /admin/bookings - list active (non-archived) bookings â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.get("/", requireAuth, requireAdmin, async (req, res) => {
+router.get("/", requireAuth, requirePermission('canAccessBookings'), async (req: AuthenticatedRequest, res) => {
   try {
-    const query: Record<string, unknown> = { archived: { $ne: true } };
+    // Staff who may not see every booking only get their own queue
+    const assignedTo = await roleHasPermission(req.user!.role, ['canViewAllBookings']) ? req.query.assignedTo : 'me';
+    const query: Record<string, unknown> = {
+      archived: { $ne: true },
+      ...assignmentFilter(assignedTo, req.user!.id),
+    };
     if (req.query.status && req.query.status !== 'all') query.status = req.query.status;
     if (req.query.startDate) query.bookingDate = { $gte: req.query.startDate };
     if (req.query.endDate) {
@@ -108,7 +161,7 @@ router.get("/", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // â”€â”€ GET /admin/bookings/archived - list archived bookings â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.get("/archived", requireAuth, requireAdmin, async (req, res) => {
+router.get("/archived", requireAuth, requirePermission('canAccessBookings'), requirePermission('canViewAllBookings'), async (req, res) => {
   try {
     const query: Record<string, unknown> = { archived: true };
     if (req.query.status && req.query.status !== 'all') query.status = req.query.status;
@@ -127,8 +180,59 @@ router.get("/archived", requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
+// â”€â”€ GET /admin/bookings/installments/overdue â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
+router.get("/installments/overdue", requireAuth, requirePermission('canAccessBookings'), requirePermission('canViewAllBookings'), async (req, res) => {
+  try {
+    const bookings = await findOverdueBookings();
+    res.json(bookings.map(b => ({
+      ...attachTour(b.toObject()),
+      balance: getBalanceSummary(b),
+    })));
+  } catch (error) {
+    console.error('Error fetching overdue installments:', error);
+    res.status(500).json({ error: "Failed to fetch overdue installments" });
+  }
+});
+
+// â”€â”€ GET /admin/bookings/cancellations â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
+// Cancellation requests waiting for a decision, plus approved cancellations whose
+// refund is still pending or failed, oldest first
+router.get("/cancellations", requireAuth, requirePermission('canAccessBookings'), requirePermission('canViewAllBookings'), async (req, res) => {
+  try {
+    const bookings = await Booking.find({
+      $or: [
+        { 'cancellation.status': 'requested' },
+        { 'cancellation.refund.status': { $in: ['pending', 'failed'] } },
+      ],
+    }).sort({ 'cancellation.requestedAt': 1 });
+    res.json(bookings.map(b => attachTour(b.toObject())));
+  } catch (error) {
+    console.error('Error fetching cancellation requests:', error);
+    res.status(500).json({ error: "Failed to fetch cancellation requests" });
+  }
+});
+
+// â”€â”€ GET /admin/bookings/manifest â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
+// Travellers grouped by tour and departure date, for the printable manifest
+router.get("/manifest", requireAuth, requirePermission('canAccessBookings'), requirePermission('canViewAllBookings'), async (req, res) => {
+  try {
+    const manifest = await buildDepartureManifest({
+      tourSlug: typeof req.query.tourSlug === 'string' && req.query.tourSlug ? req.query.tourSlug : undefined,
+      from: typeof req.query.from === 'string' && req.query.from ? req.query.from : undefined,
+      to: typeof req.query.to === 'string' && req.query.to ? req.query.to : undefined,
+    });
+    res.json(manifest);
+  } catch (error) {
+    if (error instanceof TravellerManifestError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error building departure manifest:', error);
+    res.status(500).json({ error: "Failed to build departure manifest" });
+  }
+});
+
 // â”€â”€ GET /admin/bookings/dashboard-stats â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.get("/dashboard-stats", requireAuth, requireAdmin, async (req, res) => {
+router.get("/dashboard-stats", requireAuth, requirePermission('canAccessBookings'), requirePermission('canViewAllBookings'), async (req, res) => {
   try {
     const activeFilter = { archived: { $ne: true } };
     const totalBookings = await Booking.countDocuments(activeFilter);
@@ -177,7 +281,7 @@ router.get("/dashboard-stats", requireAuth, requireAdmin, async (req, res) => {
 
 // â”€â”€ POST /admin/bookings/batch-archive â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 // NOTE: all /batch-* and fixed-path routes MUST come before /:bookingId routes
-router.post("/batch-archive", requireAuth, requireAdmin, async (req, res) => {
+router.post("/batch-archive", requireAuth, requirePermission('canManageBookingStatus'), async (req, res) => {
   try {
     const { bookingIds } = req.body as { bookingIds: string[] };
     if (!Array.isArray(bookingIds) || bookingIds.length === 0) {
@@ -196,7 +300,7 @@ router.post("/batch-archive", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // â”€â”€ POST /admin/bookings/batch-restore â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.post("/batch-restore", requireAuth, requireAdmin, async (req, res) => {
+router.post("/batch-restore", requireAuth, requirePermission('canManageBookingStatus'), async (req, res) => {
   try {
     const { bookingIds } = req.body as { bookingIds: string[] };
     if (!Array.isArray(bookingIds) || bookingIds.length === 0) {
@@ -215,13 +319,16 @@ router.post("/batch-restore", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // â”€â”€ POST /admin/bookings/batch-delete â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.post("/batch-delete", requireAuth, requireAdmin, async (req, res) => {
+router.post("/batch-delete", requireAuth, requirePermission('canDeleteBookings'), async (req, res) => {
   try {
     const { bookingIds } = req.body as { bookingIds: string[] };
     if (!Array.isArray(bookingIds) || bookingIds.length === 0) {
       return res.status(400).json({ error: "bookingIds array required" });
     }
     const result = await Booking.deleteMany({ bookingId: { $in: bookingIds } });
+    for (const bookingId of bookingIds) {
+      await releaseSeats(bookingId, 'Booking deleted by admin');
+    }
     console.log(`ðŸ—‘ï¸ Batch deleted ${result.deletedCount} bookings`);
     res.json({ message: `${result.deletedCount} booking(s) deleted`, count: result.deletedCount });
   } catch (error) {
@@ -231,7 +338,7 @@ router.post("/batch-delete", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // â”€â”€ POST /admin/bookings/sync-tours â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.post("/sync-tours", requireAuth, requireAdmin, async (req, res) => {
+router.post("/sync-tours", requireAuth, requirePermission('canManageSystem'), async (req, res) => {
   try {
     res.json({ message: "Tour sync completed", tours: ADMIN_TOURS });
   } catch {
@@ -240,10 +347,13 @@ router.post("/sync-tours", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // â”€â”€ GET /admin/bookings/:bookingId â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.get("/:bookingId", requireAuth, requireAdmin, async (req, res) => {
+router.get("/:bookingId", requireAuth, requirePermission('canAccessBookings'), async (req: AuthenticatedRequest, res) => {
   try {
     const booking = await Booking.findOne({ bookingId: req.params.bookingId });
     if (!booking) return res.status(404).json({ error: "Booking not found" });
+    if (String(booking.assignedTo) !== req.user!.id && !(await roleHasPermission(req.user!.role, ['canViewAllBookings']))) {
+      return res.status(404).json({ error: "Booking not found" });
+    }
     res.json(attachTour(booking.toObject()));
   } catch (error) {
     console.error('Error fetching booking:', error);
@@ -252,27 +362,231 @@ router.get("/:bookingId", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // â”€â”€ PUT /admin/bookings/:bookingId/status â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.put("/:bookingId/status", requireAuth, requireAdmin, async (req, res) => {
+router.put("/:bookingId/status", requireAuth, requirePermission('canManageBookingStatus'), async (req: AuthenticatedRequest, res) => {
   try {
-    const { status, notes } = req.body as { status?: string; notes?: string };
-    const update: Record<string, unknown> = {};
-    if (status) update.status = status;
-    if (notes !== undefined) update.notes = notes;
-    const booking = await Booking.findOneAndUpdate(
-      { bookingId: req.params.bookingId },
-      { $set: update },
-      { new: true }
-    );
+    const { status, notes, reason } = req.body as { status?: string; notes?: string; reason?: string };
+
+    const current = await Booking.findOne({ bookingId: req.params.bookingId });
+    if (!current) return res.status(404).json({ error: "Booking not found" });
+
+    let booking: IBooking | null = current;
+    if (status && status !== current.status) {
+      booking = await transitionBookingStatus(current.bookingId, status, {
+        actor: {
+          type: 'admin',
+          id: req.user?.id,
+          name: req.user?.fullName || req.user?.name || req.user?.email,
+        },
+        reason: reason || undefined,
+      });
+    }
     if (!booking) return res.status(404).json({ error: "Booking not found" });
+
+    // booking.notes stays as the customer wrote it; staff notes go to the activity feed
+    if (typeof notes === 'string' && notes.trim()) {
+      await addInternalNote(await getBookingSubject(current.bookingId), {
+        id: req.user!.id,
+        name: req.user!.fullName || req.user!.name || req.user!.email,
+        email: req.user!.email,
+      }, { body: notes });
+    }
     res.json(attachTour(booking.toObject()));
   } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      return res.status(error.statusCode).json({ error: error.message, allowedTransitions: error.allowed });
+    }
+    if (error instanceof ActivityFeedError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Error updating booking status:', error);
     res.status(500).json({ error: "Failed to update status" });
   }
 });
 
+// â”€â”€ PUT /admin/bookings/:bookingId/travellers â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
+// Replaces the traveller list and re-scores visa readiness per traveller
+router.put("/:bookingId/travellers", requireAuth, requirePermission('canManageBookingStatus'), async (req, res) => {
+  try {
+    const booking = await updateBookingTravellers(req.params.bookingId, req.body?.travellers);
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+    res.json(attachTour(booking.toObject()));
+  } catch (error) {
+    if (error instanceof TravellerManifestError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error updating travellers:', error);
+    res.status(500).json({ error: "Failed to update travellers" });
+  }
+});
+
+// â”€â”€ PATCH /admin/bookings/:bookingId/installments/:installmentId/paid â”€â”€â”€â”€â”€â”€â”€â”€â”€
+// Records an installment paid offline (cash, bank deposit)
+router.patch("/:bookingId/installments/:installmentId/paid", requireAuth, requirePermission('canManageBookingStatus'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { reference } = req.body as { reference?: string };
+    const booking = await Booking.findOne({ bookingId: req.params.bookingId });
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+
+    const installment = booking.installmentPlan?.payments?.find(p => p.id === req.params.installmentId);
+    if (!installment) return res.status(404).json({ error: "Installment not found" });
+    if (installment.status === 'paid') return res.status(409).json({ error: "Installment is already paid" });
+
+    const label = installment.kind === 'final_balance' ? 'Final balance' : `Installment ${installment.sequence}`;
+    const updated = await recordBookingPayment(booking.bookingId, {
+      paymentId: `installment:${installment.id}`,
+      amount: installment.amount,
+      actor: { type: 'admin', id: req.user?.id, name: req.user?.fullName || req.user?.name || req.user?.email },
+      reason: `${label} recorded as paid${reference ? ` (${reference})` : ''}`,
+      reference,
+    });
+    if (!updated) return res.status(409).json({ error: "Installment is already paid" });
+    res.json(attachTour(updated.toObject()));
+  } catch (error) {
+    console.error('Error recording installment payment:', error);
+    res.status(500).json({ error: "Failed to record installment payment" });
+  }
+});
+
+// â”€â”€ POST /admin/bookings/:bookingId/cancellation/approve â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
+// Cancels the booking (releasing seats) and refunds through the payment provider.
+// Also used to cancel without a customer request, and to retry a failed refund.
+router.post("/:bookingId/cancellation/approve", requireAuth, requirePermission('canCancelBookings'), async (req: AuthenticatedRequest, res) => {
+  const { bookingId } = req.params;
+  try {
+    const { amount, notes } = req.body as { amount?: number | string; notes?: string };
+    const refundAmount = amount === undefined || amount === '' ? undefined : Number(amount);
+
+    const result = await approveCancellation(bookingId, {
+      actor: adminActor(req),
+      amount: refundAmount,
+      notes: notes?.trim() || undefined,
+    });
+    if (!result) return res.status(404).json({ error: "Booking not found" });
+
+    const { booking, refund } = result;
+    await auditAdminCancellation(req, bookingId, {
+      decision: 'approved',
+      status: booking.status,
+      refund: refund ?? null,
+      notes: notes ?? null,
+    }, refund?.status === 'failed' ? refund.error : undefined);
+
+    if (refund?.status === 'failed') {
+      return res.status(502).json({
+        error: `Booking cancelled, but the refund failed: ${refund.error}`,
+        booking: attachTour(booking.toObject()),
+      });
+    }
+    console.log(`💸 Cancellation approved for ${bookingId}${refund ? ` (refund ${refund.refundId}, PHP ${refund.amount})` : ''}`);
+    res.json(attachTour(booking.toObject()));
+  } catch (error) {
+    if (error instanceof CancellationError || error instanceof BookingTransitionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error approving cancellation:', error);
+    res.status(500).json({ error: "Failed to approve cancellation" });
+  }
+});
+
+// â”€â”€ POST /admin/bookings/:bookingId/cancellation/reject â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
+router.post("/:bookingId/cancellation/reject", requireAuth, requirePermission('canCancelBookings'), async (req: AuthenticatedRequest, res) => {
+  const { bookingId } = req.params;
+  try {
+    const { notes } = req.body as { notes?: string };
+    const booking = await rejectCancellation(bookingId, { actor: adminActor(req), notes: notes?.trim() || undefined });
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+
+    await auditAdminCancellation(req, bookingId, { decision: 'rejected', notes: notes ?? null });
+    res.json(attachTour(booking.toObject()));
+  } catch (error) {
+    if (error instanceof CancellationError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error rejecting cancellation:', error);
+    res.status(500).json({ error: "Failed to reject cancellation" });
+  }
+});
+
+// â”€â”€ PATCH /admin/bookings/:bookingId/refund/completed â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
+// Confirms a manual (cash / bank transfer) refund has been paid out
+router.patch("/:bookingId/refund/completed", requireAuth, requirePermission('canCancelBookings'), async (req: AuthenticatedRequest, res) => {
+  const { bookingId } = req.params;
+  try {
+    const current = await Booking.findOne({ bookingId });
+    if (!current) return res.status(404).json({ error: "Booking not found" });
+
+    const refund = current.cancellation?.refund;
+    if (!refund?.refundId || refund.status !== 'pending') {
+      return res.status(409).json({ error: "This booking has no pending refund" });
+    }
+    if (refund.provider !== 'manual') {
+      return res.status(409).json({ error: `Refunds through ${refund.provider} are confirmed by the provider` });
+    }
+
+    const booking = await updateRefundStatus(refund.refundId, 'succeeded');
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+
+    await auditAdminCancellation(req, bookingId, { refundId: refund.refundId, refundStatus: 'succeeded' });
+    res.json(attachTour(booking.toObject()));
+  } catch (error) {
+    console.error('Error completing refund:', error);
+    res.status(500).json({ error: "Failed to record refund" });
+  }
+});
+
+// â”€â”€ GET /admin/bookings/:bookingId/emails â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
+// Every email sent (or still being retried) for the booking, newest first
+router.get("/:bookingId/emails", requireAuth, requirePermission('canAccessBookings'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const booking = await Booking.findOne({ bookingId: req.params.bookingId }).select('assignedTo');
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+    if (String(booking.assignedTo) !== req.user!.id && !(await roleHasPermission(req.user!.role, ['canViewAllBookings']))) {
+      return res.status(404).json({ error: "Booking not found" });
+    }
+    res.json(await listBookingEmails(req.params.bookingId));
+  } catch (error) {
+    console.error('Error fetching booking emails:', error);
+    res.status(500).json({ error: "Failed to fetch booking emails" });
+  }
+});
+
+// â”€â”€ POST /admin/bookings/:bookingId/emails/resend â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
+// Sends the confirmation or sales alert again, rendered from the booking as it is now
+router.post("/:bookingId/emails/resend", requireAuth, requirePermission('canManageBookingStatus'), async (req: AuthenticatedRequest, res) => {
+  const { bookingId } = req.params;
+  try {
+    const { templateKey } = req.body as { templateKey?: string };
+    if (!RESENDABLE_BOOKING_EMAILS.includes(templateKey as ResendableBookingEmail)) {
+      return res.status(400).json({ error: `templateKey must be one of: ${RESENDABLE_BOOKING_EMAILS.join(', ')}` });
+    }
+    const booking = await Booking.findOne({ bookingId });
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+
+    const requestedBy = req.user?.fullName || req.user?.name || req.user?.email || 'Admin';
+    const result = await resendBookingEmail(booking, templateKey as ResendableBookingEmail, requestedBy);
+    if (!result.outboxId) {
+      return res.status(500).json({ error: result.error || "Failed to queue email" });
+    }
+    await logAuditEvent({
+      userId: req.user?.id,
+      userEmail: req.user?.email || 'unknown',
+      userName: requestedBy,
+      action: 'CREATE',
+      resource: 'emails',
+      resourceId: bookingId,
+      req,
+      changes: { after: { templateKey, outboxId: result.outboxId, status: result.status } },
+    });
+    console.log(`📧 ${templateKey} for ${bookingId} resent by ${requestedBy} (${result.status})`);
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error resending booking email:', error);
+    res.status(500).json({ error: "Failed to resend email" });
+  }
+});
+
 // â”€â”€ PATCH /admin/bookings/:bookingId/archive â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.patch("/:bookingId/archive", requireAuth, requireAdmin, async (req, res) => {
+router.patch("/:bookingId/archive", requireAuth, requirePermission('canManageBookingStatus'), async (req, res) => {
   try {
     const booking = await Booking.findOneAndUpdate(
       { bookingId: req.params.bookingId },
@@ -289,7 +603,7 @@ router.patch("/:bookingId/archive", requireAuth, requireAdmin, async (req, res)
 });
 
 // â”€â”€ PATCH /admin/bookings/:bookingId/restore â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.patch("/:bookingId/restore", requireAuth, requireAdmin, async (req, res) => {
+router.patch("/:bookingId/restore", requireAuth, requirePermission('canManageBookingStatus'), async (req, res) => {
   try {
     const booking = await Booking.findOneAndUpdate(
       { bookingId: req.params.bookingId },
@@ -306,10 +620,11 @@ router.patch("/:bookingId/restore", requireAuth, requireAdmin, async (req, res)
 });
 
 // â”€â”€ DELETE /admin/bookings/:bookingId â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
-router.delete("/:bookingId", requireAuth, requireAdmin, async (req, res) => {
+router.delete("/:bookingId", requireAuth, requirePermission('canDeleteBookings'), async (req, res) => {
   try {
     const booking = await Booking.findOneAndDelete({ bookingId: req.params.bookingId });
     if (!booking) return res.status(404).json({ error: "Booking not found" });
+    await releaseSeats(booking.bookingId, 'Booking deleted by admin');
     console.log(`ðŸ—‘ï¸ Deleted booking: ${req.params.bookingId}`);
     res.json({ message: "Booking deleted" });
   } catch (error) {
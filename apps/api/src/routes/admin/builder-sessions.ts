@@ -0,0 +1,71 @@
+import express, { Response } from "express";
+import { requireAuth, requireRole, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import { SeatInventoryError } from "../../services/seatInventory";
+import {
+  BUILDER_SESSION_ROLES,
+  BuilderSessionError,
+  convertBuilderSessionToBooking,
+  getBuilderSessionById,
+  listBuilderSessions,
+} from "../../services/builderSessions";
+
+const router = express.Router();
+
+// Public-site link of the read-only quote
+const shareUrl = (shareToken: string) => {
+  const base = (process.env.CLIENT_URL || process.env.FRONTEND_URL || "").replace(/\/$/, "");
+  return `${base}/quote/${encodeURIComponent(shareToken)}`;
+};
+
+// GET /admin/builder-sessions - saved builder sessions, most recently edited first
+router.get("/", requireAuth, requireRole(...BUILDER_SESSION_ROLES), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sessions = await listBuilderSessions({
+      status: typeof req.query.status === "string" ? req.query.status : undefined,
+      search: typeof req.query.q === "string" ? req.query.q.trim() : undefined,
+      limit: Number(req.query.limit) || undefined,
+    });
+    res.json(sessions.map((session) => ({ ...session, shareUrl: shareUrl(session.shareToken) })));
+  } catch (err) {
+    console.error("Error fetching builder sessions:", err);
+    res.status(500).json({ error: "Failed to fetch builder sessions" });
+  }
+});
+
+// GET /admin/builder-sessions/:id - one session with its itinerary and quote
+router.get("/:id", requireAuth, requireRole(...BUILDER_SESSION_ROLES), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await getBuilderSessionById(req.params.id);
+    res.json({ ...session, shareUrl: shareUrl(session.shareToken) });
+  } catch (err) {
+    if (err instanceof BuilderSessionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching builder session:", err);
+    res.status(500).json({ error: "Failed to fetch builder session" });
+  }
+});
+
+// POST /admin/builder-sessions/:id/convert - book the itinerary for the customer
+router.post("/:id/convert", requireAuth, requirePermission('canCreateBookings'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { session, booking } = await convertBuilderSessionToBooking(req.params.id, req.body ?? {}, {
+      type: "admin",
+      id: req.user?.id,
+      name: req.user?.fullName || req.user?.name || req.user?.email || "Admin",
+    });
+    console.log(`✅ Builder session ${session._id} converted to booking ${booking.bookingId}`);
+    res.status(201).json({ session: { ...session, shareUrl: shareUrl(session.shareToken) }, booking });
+  } catch (err) {
+    if (err instanceof BuilderSessionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    if (err instanceof SeatInventoryError) {
+      return res.status(err.statusCode).json({ error: err.message, code: err.code, remainingSeats: err.remainingSeats });
+    }
+    console.error("Error converting builder session:", err);
+    res.status(500).json({ error: "Failed to create booking" });
+  }
+});
+
+export default router;
@@ -1,18 +1,27 @@
 import express from "express";
-import { requireAuth, requireAdmin } from "../../middleware/auth";
+import { requireAuth, requirePermission } from "../../middleware/auth";
+import { getCustomerServiceStats, listAgents } from "../../services/customerService";
 
 const router = express.Router();
 
-// Dummy stats for customer service dashboard
-router.get("/stats", requireAuth, requireAdmin, async (req, res) => {
-  res.json({
-    totalCustomers: 0,
-    activeInquiries: 0,
-    pendingTasks: 0,
-    resolvedToday: 0,
-    averageResponseTime: 0,
-    customerSatisfactionRate: 0
-  });
+// Stats for the customer service dashboard
+router.get("/stats", requireAuth, requirePermission('canRespondToInquiries'), async (req, res) => {
+  try {
+    res.json(await getCustomerServiceStats());
+  } catch (error) {
+    console.error('Error fetching customer service stats:', error);
+    res.status(500).json({ error: "Failed to fetch customer service stats" });
+  }
+});
+
+// Desk users that inquiries and tasks can be assigned to
+router.get("/agents", requireAuth, requirePermission('canRespondToInquiries'), async (req, res) => {
+  try {
+    res.json(await listAgents());
+  } catch (error) {
+    console.error('Error fetching customer service agents:', error);
+    res.status(500).json({ error: "Failed to fetch agents" });
+  }
 });
 
 export default router;
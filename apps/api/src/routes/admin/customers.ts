@@ -0,0 +1,46 @@
+import express from "express";
+import { requireAuth, requirePermission } from "../../middleware/auth";
+import {
+  getCustomer,
+  getCustomerTourHistory,
+  listCustomers,
+} from "../../services/customerService";
+
+// Customers are derived from bookings and client accounts, keyed by email
+const router = express.Router();
+const csrAccess = requirePermission('canRespondToInquiries');
+
+// GET /admin/customers?search=
+router.get("/", requireAuth, csrAccess, async (req, res) => {
+  try {
+    const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+    res.json(await listCustomers(search));
+  } catch (error) {
+    console.error('Error fetching customers:', error);
+    res.status(500).json({ error: "Failed to fetch customers" });
+  }
+});
+
+// GET /admin/customers/:customerId
+router.get("/:customerId", requireAuth, csrAccess, async (req, res) => {
+  try {
+    const customer = await getCustomer(req.params.customerId);
+    if (!customer) return res.status(404).json({ error: "Customer not found" });
+    res.json(customer);
+  } catch (error) {
+    console.error('Error fetching customer:', error);
+    res.status(500).json({ error: "Failed to fetch customer" });
+  }
+});
+
+// GET /admin/customers/:customerId/tour-history
+router.get("/:customerId/tour-history", requireAuth, csrAccess, async (req, res) => {
+  try {
+    res.json(await getCustomerTourHistory(req.params.customerId));
+  } catch (error) {
+    console.error('Error fetching tour history:', error);
+    res.status(500).json({ error: "Failed to fetch tour history" });
+  }
+});
+
+export default router;
@@ -3,6 +3,7 @@ import { requireAuth, requireAdmin } from '../../middleware/auth';
 import Booking from '../../models/Booking';
 import Tour from '../../models/Tour';
 import User from '../../models/User';
+import { getCustomerServiceStats } from '../../services/customerService';
 
 const router = express.Router();
 
@@ -85,11 +86,12 @@ router.get('/stats', requireAuth, requireAdmin, async (req, res) => {
       rejected: 0
     };
 
-    // Customer Service statistics (dummy data for now as there's no Ticket model yet)
+    // Customer Service statistics
+    const csStats = await getCustomerServiceStats(now);
     const customerService = {
-      openTickets: 0,
-      resolvedToday: 0,
-      avgResponseTime: "N/A"
+      openTickets: csStats.activeInquiries,
+      resolvedToday: csStats.resolvedToday,
+      avgResponseTime: csStats.averageResponseTime ? `${csStats.averageResponseTime}h` : "N/A"
     };
 
     // Sales statistics (dummy data - Meta Messenger integration)
@@ -198,16 +200,17 @@ router.get('/stats/:department', requireAuth, requireAdmin, async (req, res) =>
         };
         break;
       
-      case 'customer-service':
-        // Dummy data for customer service (no Ticket model yet)
+      case 'customer-service': {
+        const csStats = await getCustomerServiceStats();
         departmentStats = {
           customerService: {
-            openTickets: 0,
-            resolvedToday: 0,
-            avgResponseTime: "N/A"
+            openTickets: csStats.activeInquiries,
+            resolvedToday: csStats.resolvedToday,
+            avgResponseTime: csStats.averageResponseTime ? `${csStats.averageResponseTime}h` : "N/A"
           }
         };
         break;
+      }
       
       case 'sales':
         // Dummy data for sales department (Meta Messenger integration)
@@ -0,0 +1,39 @@
+import express, { Response } from "express";
+import { requireAuth, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import type { OutboundEmailStatus } from "../../models/OutboundEmail";
+import { EmailOutboxError, listOutboundEmails, retryOutboundEmail } from "../../services/emailOutbox";
+
+const router = express.Router();
+
+const STATUSES: OutboundEmailStatus[] = ["queued", "sending", "sent", "dead"];
+
+// GET /admin/email-outbox?status=dead - recent outbox entries, without message bodies
+router.get("/", requireAuth, requirePermission('canAccessBookings'), requirePermission('canViewAllBookings'), async (req: AuthenticatedRequest, res: Response) => {
+  const status = typeof req.query.status === "string" && req.query.status ? req.query.status : undefined;
+  if (status && !STATUSES.includes(status as OutboundEmailStatus)) {
+    return res.status(400).json({ error: `status must be one of: ${STATUSES.join(", ")}` });
+  }
+  try {
+    const limit = Number(req.query.limit) || undefined;
+    res.json(await listOutboundEmails({ status: status as OutboundEmailStatus | undefined, limit }));
+  } catch (err) {
+    console.error("Error fetching email outbox:", err);
+    res.status(500).json({ error: "Failed to fetch email outbox" });
+  }
+});
+
+// POST /admin/email-outbox/:id/retry - send a dead-lettered or retrying email again now
+router.post("/:id/retry", requireAuth, requirePermission('canManageBookingStatus'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const requestedBy = req.user?.fullName || req.user?.name || req.user?.email || "Admin";
+    res.json(await retryOutboundEmail(req.params.id, requestedBy));
+  } catch (err) {
+    if (err instanceof EmailOutboxError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error retrying email:", err);
+    res.status(500).json({ error: "Failed to retry email" });
+  }
+});
+
+export default router;
@@ -0,0 +1,158 @@
+import express, { Response } from "express";
+import Booking, { IBooking } from "../../models/Booking";
+import { requireAuth, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import { TemplateRenderError } from "../../services/emailTemplateEngine";
+import { bookingDetailsFromRecord, bookingTemplateData } from "../../services/emailService";
+import {
+  EmailTemplateAuthor,
+  EmailTemplateError,
+  getEmailTemplateForEditing,
+  getEmailTemplateVersion,
+  listEmailTemplates,
+  listEmailTemplateVersions,
+  readEmailTemplateContent,
+  renderEmailTemplateContent,
+  restoreEmailTemplateVersion,
+  saveEmailTemplateVersion,
+} from "../../services/emailTemplates";
+
+const router = express.Router();
+
+const templateAuthor = (req: AuthenticatedRequest): EmailTemplateAuthor => ({
+  id: req.user?.id,
+  name: req.user?.fullName || req.user?.name || req.user?.email || "Admin",
+});
+
+const parseVersion = (value: unknown) => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+// GET /admin/email-templates - every template with its live version per language
+router.get("/", requireAuth, requirePermission('canAccessSettings'), async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await listEmailTemplates());
+  } catch (err) {
+    console.error("Error fetching email templates:", err);
+    res.status(500).json({ error: "Failed to fetch email templates" });
+  }
+});
+
+// GET /admin/email-templates/sample-bookings - recent bookings to preview templates with
+router.get("/sample-bookings", requireAuth, requirePermission('canAccessSettings'), async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const bookings = await Booking.find({ archived: { $ne: true } })
+      .select("bookingId customerName tourSlug selectedDate locale")
+      .sort({ createdAt: -1 })
+      .limit(25)
+      .lean()
+      .exec();
+    res.json(bookings);
+  } catch (err) {
+    console.error("Error fetching sample bookings:", err);
+    res.status(500).json({ error: "Failed to fetch sample bookings" });
+  }
+});
+
+// GET /admin/email-templates/:key/:locale - live content, built-in content and variables
+router.get("/:key/:locale", requireAuth, requirePermission('canAccessSettings'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await getEmailTemplateForEditing(req.params.key, req.params.locale));
+  } catch (err) {
+    if (err instanceof EmailTemplateError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching email template:", err);
+    res.status(500).json({ error: "Failed to fetch email template" });
+  }
+});
+
+// PUT /admin/email-templates/:key/:locale - save a new version; it goes live immediately
+router.put("/:key/:locale", requireAuth, requirePermission('canAccessSettings'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const content = readEmailTemplateContent(req.body);
+    const { version, note } = req.body ?? {};
+    const saved = await saveEmailTemplateVersion(req.params.key, req.params.locale, content, templateAuthor(req), {
+      expectedVersion: typeof version === "number" ? version : undefined,
+      note: typeof note === "string" ? note : undefined,
+    });
+    console.log(`✉️ Email template ${saved.key} (${saved.locale}) saved as version ${saved.version} by ${saved.authorName}`);
+    res.json(saved);
+  } catch (err) {
+    if (err instanceof EmailTemplateError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error saving email template:", err);
+    res.status(500).json({ error: "Failed to save email template" });
+  }
+});
+
+// POST /admin/email-templates/:key/:locale/preview - render unsaved content with sample or booking data
+router.post("/:key/:locale/preview", requireAuth, requirePermission('canAccessSettings'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const template = await getEmailTemplateForEditing(req.params.key, req.params.locale);
+    const content = readEmailTemplateContent(req.body);
+    const bookingId = typeof req.body?.bookingId === "string" ? req.body.bookingId : "";
+
+    let data = template.sample;
+    if (bookingId && template.bookingPreview) {
+      const booking = await Booking.findOne({ bookingId }).lean<IBooking>().exec();
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      data = bookingTemplateData(bookingDetailsFromRecord(booking));
+    }
+    res.json(renderEmailTemplateContent(template.key, content, data, template.locale));
+  } catch (err) {
+    if (err instanceof EmailTemplateError || err instanceof TemplateRenderError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error previewing email template:", err);
+    res.status(500).json({ error: "Failed to preview email template" });
+  }
+});
+
+// GET /admin/email-templates/:key/:locale/versions - version list, newest first, without content
+router.get("/:key/:locale/versions", requireAuth, requirePermission('canAccessSettings'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await listEmailTemplateVersions(req.params.key, req.params.locale));
+  } catch (err) {
+    if (err instanceof EmailTemplateError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching email template versions:", err);
+    res.status(500).json({ error: "Failed to fetch email template versions" });
+  }
+});
+
+// GET /admin/email-templates/:key/:locale/versions/:version - one version with its content
+router.get("/:key/:locale/versions/:version", requireAuth, requirePermission('canAccessSettings'), async (req: AuthenticatedRequest, res: Response) => {
+  const version = parseVersion(req.params.version);
+  if (!version) return res.status(400).json({ error: "Invalid version" });
+  try {
+    res.json(await getEmailTemplateVersion(req.params.key, req.params.locale, version));
+  } catch (err) {
+    if (err instanceof EmailTemplateError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching email template version:", err);
+    res.status(500).json({ error: "Failed to fetch email template version" });
+  }
+});
+
+// POST /admin/email-templates/:key/:locale/versions/:version/restore - make an earlier version live again
+router.post("/:key/:locale/versions/:version/restore", requireAuth, requirePermission('canAccessSettings'), async (req: AuthenticatedRequest, res: Response) => {
+  const version = parseVersion(req.params.version);
+  if (!version) return res.status(400).json({ error: "Invalid version" });
+  try {
+    const restored = await restoreEmailTemplateVersion(req.params.key, req.params.locale, version, templateAuthor(req));
+    console.log(`↩️ Email template ${restored.key} (${restored.locale}) restored to version ${version} by ${restored.authorName}`);
+    res.json(restored);
+  } catch (err) {
+    if (err instanceof EmailTemplateError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error restoring email template version:", err);
+    res.status(500).json({ error: "Failed to restore email template version" });
+  }
+});
+
+export default router;
@@ -2,7 +2,7 @@ import { Router, Response } from 'express';
 import multer from 'multer';
 import { v2 as cloudinary } from 'cloudinary';
 import { Readable } from 'stream';
-import { requireAuth, requireRole, AuthenticatedRequest } from '../../middleware/auth';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../../middleware/auth';
 import FeaturedVideo from '../../models/FeaturedVideo';
 
 // Type for uploaded files (avoid Express namespace issues)
@@ -72,7 +72,7 @@ async function uploadToCloudinary(
  * GET /admin/featured-videos
  * List all featured videos
  */
-router.get('/', requireAuth, requireRole('admin', 'super-admin'), async (req: AuthenticatedRequest, res: Response) => {
+router.get('/', requireAuth, requirePermission('canManageContent'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const videos = await FeaturedVideo.find().sort({ display_order: 1, createdAt: -1 }).lean();
     
@@ -102,7 +102,7 @@ router.get('/', requireAuth, requireRole('admin', 'super-admin'), async (req: Au
 router.post(
   '/',
   requireAuth,
-  requireRole('admin', 'super-admin'),
+  requirePermission('canManageContent'),
   upload.fields([
     { name: 'video', maxCount: 1 },
     { name: 'thumbnail', maxCount: 1 },
@@ -166,7 +166,7 @@ router.post(
  * PUT /admin/featured-videos/:id
  * Update featured video metadata (no file upload)
  */
-router.put('/:id', requireAuth, requireRole('admin', 'super-admin'), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/:id', requireAuth, requirePermission('canManageContent'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
     const { title, description, is_active, display_order } = req.body;
@@ -206,7 +206,7 @@ router.put('/:id', requireAuth, requireRole('admin', 'super-admin'), async (req:
  * DELETE /admin/featured-videos/:id
  * Delete featured video
  */
-router.delete('/:id', requireAuth, requireRole('admin', 'super-admin'), async (req: AuthenticatedRequest, res: Response) => {
+router.delete('/:id', requireAuth, requirePermission('canManageContent'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -0,0 +1,84 @@
+import express from "express";
+import { requireAuth, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import {
+  CustomerServiceError,
+  addInquiryResponse,
+  createInquiry,
+  listInquiries,
+  updateInquiry,
+} from "../../services/customerService";
+
+const router = express.Router();
+const csrAccess = requirePermission('canRespondToInquiries');
+
+function queryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// GET /admin/inquiries?status=&category=&priority=&assignedToCSR=&customerId=&search=
+router.get("/", requireAuth, csrAccess, async (req, res) => {
+  try {
+    const inquiries = await listInquiries({
+      status: queryString(req.query.status),
+      category: queryString(req.query.category),
+      priority: queryString(req.query.priority),
+      assignedToCSR: queryString(req.query.assignedToCSR),
+      customerId: queryString(req.query.customerId),
+      search: queryString(req.query.search),
+    });
+    res.json(inquiries);
+  } catch (error) {
+    console.error('Error fetching inquiries:', error);
+    res.status(500).json({ error: "Failed to fetch inquiries" });
+  }
+});
+
+// POST /admin/inquiries — log an inquiry received by phone, email, walk-in…
+router.post("/", requireAuth, requirePermission('canRespondToInquiries'), async (req, res) => {
+  try {
+    const inquiry = await createInquiry(req.body ?? {});
+    console.log(`📨 Inquiry logged for ${inquiry.customerId}: ${inquiry.subject}`);
+    res.status(201).json(inquiry);
+  } catch (error) {
+    if (error instanceof CustomerServiceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error creating inquiry:', error);
+    res.status(500).json({ error: "Failed to create inquiry" });
+  }
+});
+
+// PATCH /admin/inquiries/:id — status, priority, assignment and details
+router.patch("/:id", requireAuth, requirePermission('canRespondToInquiries'), async (req, res) => {
+  try {
+    const inquiry = await updateInquiry(req.params.id, req.body ?? {});
+    if (!inquiry) return res.status(404).json({ error: "Inquiry not found" });
+    res.json(inquiry);
+  } catch (error) {
+    if (error instanceof CustomerServiceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error updating inquiry:', error);
+    res.status(500).json({ error: "Failed to update inquiry" });
+  }
+});
+
+// POST /admin/inquiries/:id/responses — reply to (or record a reply from) the customer
+router.post("/:id/responses", requireAuth, requirePermission('canRespondToInquiries'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const inquiry = await addInquiryResponse(req.params.id, req.body ?? {}, {
+      id: req.user?.id,
+      name: req.user?.fullName || req.user?.name || req.user?.email || 'Customer Service',
+    });
+    if (!inquiry) return res.status(404).json({ error: "Inquiry not found" });
+    res.status(201).json(inquiry);
+  } catch (error) {
+    if (error instanceof CustomerServiceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error adding inquiry response:', error);
+    res.status(500).json({ error: "Failed to add response" });
+  }
+});
+
+export default router;
@@ -0,0 +1,52 @@
+import express from "express";
+import { requireAuth, requireRole, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import { JobRunnerError, listJobRuns, listJobs, triggerJob } from "../../services/jobRunner";
+
+// Scheduled background jobs: schedule, last outcome and run history, plus a
+// manual trigger for when a run needs to happen before its next slot.
+const router = express.Router();
+const jobRoles = requireRole('super_admin', 'administrator', 'web_developer');
+
+const actorName = (req: AuthenticatedRequest) =>
+  req.user?.fullName || req.user?.name || req.user?.email || 'Admin';
+
+// GET /admin/jobs
+router.get("/", requireAuth, jobRoles, async (_req, res) => {
+  try {
+    res.json(await listJobs());
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    res.status(500).json({ error: "Failed to fetch jobs" });
+  }
+});
+
+// GET /admin/jobs/:name/runs?limit=
+router.get("/:name/runs", requireAuth, jobRoles, async (req, res) => {
+  try {
+    const limit = Number(req.query.limit) || 20;
+    res.json(await listJobRuns(req.params.name, limit));
+  } catch (error) {
+    if (error instanceof JobRunnerError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error fetching job runs:', error);
+    res.status(500).json({ error: "Failed to fetch job runs" });
+  }
+});
+
+// POST /admin/jobs/:name/run — starts the job and returns the run record while it continues
+router.post("/:name/run", requireAuth, requirePermission('canManageSystem'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const run = await triggerJob(req.params.name, actorName(req));
+    console.log(`⏱️ Job ${req.params.name} triggered manually by ${actorName(req)}`);
+    res.status(202).json(run);
+  } catch (error) {
+    if (error instanceof JobRunnerError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error triggering job:', error);
+    res.status(500).json({ error: "Failed to trigger job" });
+  }
+});
+
+export default router;
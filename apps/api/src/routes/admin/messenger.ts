@@ -0,0 +1,149 @@
+import express, { Response } from "express";
+import { requireAuth, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import { logAuditEvent } from "../../middleware/auditLog";
+import { SeatInventoryError } from "../../services/seatInventory";
+import {
+  MessengerError,
+  convertTransactionToBooking,
+  extractConversation,
+  getConversation,
+  listConversations,
+  listTransactions,
+  sendReply,
+  setConversationStatus,
+  syncConversations,
+  updateTransaction,
+} from "../../services/messengerInbox";
+
+const router = express.Router();
+
+// Messenger inbox and extracted transactions for the Sales department; see services/messengerInbox
+
+const staffName = (req: AuthenticatedRequest) => req.user!.fullName || req.user!.name || req.user!.email;
+
+function sendError(res: Response, err: unknown, action: string) {
+  if (err instanceof MessengerError) {
+    return res.status(err.statusCode).json({ error: err.message });
+  }
+  if (err instanceof SeatInventoryError) {
+    return res.status(err.statusCode).json({ error: err.message, code: err.code, remainingSeats: err.remainingSeats });
+  }
+  console.error(`Error ${action}:`, err);
+  return res.status(500).json({ error: `Failed ${action}` });
+}
+
+router.use(requireAuth, requirePermission('canAccessSales'));
+
+// GET /admin/messenger/conversations?status= - most recent first
+router.get("/conversations", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await listConversations({ status: typeof req.query.status === "string" ? req.query.status : undefined }));
+  } catch (err) {
+    sendError(res, err, "to fetch conversations");
+  }
+});
+
+// GET /admin/messenger/conversations/:id - messages and extracted transactions
+router.get("/conversations/:id", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await getConversation(req.params.id));
+  } catch (err) {
+    sendError(res, err, "to fetch conversation");
+  }
+});
+
+// PATCH /admin/messenger/conversations/:id - { status }
+router.patch("/conversations/:id", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await setConversationStatus(req.params.id, req.body?.status));
+  } catch (err) {
+    sendError(res, err, "to update conversation");
+  }
+});
+
+// POST /admin/messenger/conversations/:id/reply - { text }, sent as the Page
+router.post("/conversations/:id/reply", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(201).json(await sendReply(req.params.id, req.body?.text, staffName(req)));
+  } catch (err) {
+    sendError(res, err, "to send reply");
+  }
+});
+
+// POST /admin/messenger/conversations/:id/extract - re-read the conversation into its transaction
+router.post("/conversations/:id/extract", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const transaction = await extractConversation(req.params.id);
+    if (!transaction) {
+      return res.status(422).json({ error: "No tour, dates or party size found in this conversation yet" });
+    }
+    res.json(transaction);
+  } catch (err) {
+    sendError(res, err, "to extract transaction");
+  }
+});
+
+// POST /admin/messenger/sync - pull recent conversations from the Graph API
+router.post("/sync", async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await syncConversations());
+  } catch (err) {
+    sendError(res, err, "to sync conversations");
+  }
+});
+
+// GET /admin/messenger/transactions?status= - the review queue
+router.get("/transactions", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await listTransactions({ status: typeof req.query.status === "string" ? req.query.status : undefined }));
+  } catch (err) {
+    sendError(res, err, "to fetch transactions");
+  }
+});
+
+// PUT /admin/messenger/transactions/:id - correct fields, add notes, or mark quoted/lost
+router.put("/transactions/:id", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const transaction = await updateTransaction(req.params.id, req.body ?? {});
+    await logAuditEvent({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      userName: req.user!.fullName,
+      action: 'UPDATE',
+      resource: 'messenger-transaction',
+      resourceId: String(transaction._id),
+      req,
+      changes: { after: req.body ?? {} },
+    });
+    res.json(transaction);
+  } catch (err) {
+    sendError(res, err, "to update transaction");
+  }
+});
+
+// POST /admin/messenger/transactions/:id/convert - { paymentType, notes, paidAmount, paymentReference }, books it for the customer
+router.post("/transactions/:id/convert", requirePermission('canCreateBookings'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { transaction, booking } = await convertTransactionToBooking(req.params.id, req.body ?? {}, {
+      type: "admin",
+      id: req.user?.id,
+      name: staffName(req) || "Admin",
+    });
+    await logAuditEvent({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      userName: req.user!.fullName,
+      action: 'CREATE',
+      resource: 'booking',
+      resourceId: booking.bookingId,
+      req,
+      changes: { after: { source: 'messenger', transactionId: String(transaction._id), totalAmount: booking.totalAmount } },
+    });
+    console.log(`✅ Messenger transaction ${transaction._id} converted to booking ${booking.bookingId}`);
+    res.status(201).json({ transaction, booking });
+  } catch (err) {
+    sendError(res, err, "to create booking");
+  }
+});
+
+export default router;
@@ -1,6 +1,6 @@
 import express from 'express';
 import Review from '../../models/Review';
-import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { requireAuth, requireAdmin, requirePermission } from '../../middleware/auth';
 
 const router = express.Router();
 
@@ -81,7 +81,7 @@ router.get('/', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // PATCH /admin/reviews/:reviewId/approve - approve a review
-router.patch('/:reviewId/approve', requireAuth, requireAdmin, async (req, res) => {
+router.patch('/:reviewId/approve', requireAuth, requirePermission('canManageContent'), async (req, res) => {
   try {
     const { reviewId } = req.params;
     
@@ -104,7 +104,7 @@ router.patch('/:reviewId/approve', requireAuth, requireAdmin, async (req, res) =
 });
 
 // PATCH /admin/reviews/:reviewId/reject - reject/hide a review
-router.patch('/:reviewId/reject', requireAuth, requireAdmin, async (req, res) => {
+router.patch('/:reviewId/reject', requireAuth, requirePermission('canManageContent'), async (req, res) => {
   try {
     const { reviewId } = req.params;
     
@@ -127,7 +127,7 @@ router.patch('/:reviewId/reject', requireAuth, requireAdmin, async (req, res) =>
 });
 
 // DELETE /admin/reviews/:reviewId - delete a review
-router.delete('/:reviewId', requireAuth, requireAdmin, async (req, res) => {
+router.delete('/:reviewId', requireAuth, requirePermission('canManageContent'), async (req, res) => {
   try {
     const { reviewId } = req.params;
     
@@ -0,0 +1,81 @@
+import express, { Response } from "express";
+import { requireAuth, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import { logAuditEvent } from "../../middleware/auditLog";
+import { RoleError, deleteRole, listRoles, saveRole } from "../../services/permissions";
+
+const router = express.Router();
+
+// GET /admin/roles - built-in and custom roles with their permissions
+router.get("/", requireAuth, requirePermission('canAccessUserManagement', 'canManageRoles'), async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await listRoles());
+  } catch (err) {
+    console.error("Error fetching roles:", err);
+    res.status(500).json({ error: "Failed to fetch roles" });
+  }
+});
+
+// PUT /admin/roles/:key - create a custom role or change a role's permissions
+router.put("/:key", requireAuth, requirePermission('canManageRoles'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { key } = req.params;
+    const before = (await listRoles()).find((role) => role.key === key);
+    const role = await saveRole(key, req.body, req.user!.fullName || req.user!.email);
+
+    await logAuditEvent({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      userName: req.user!.fullName,
+      action: before ? 'UPDATE' : 'CREATE',
+      resource: 'roles',
+      resourceId: key,
+      req,
+      changes: {
+        before: before ? { name: before.name, permissions: before.permissions } : undefined,
+        after: { name: role.name, permissions: role.permissions },
+      },
+    });
+
+    console.log(`🔐 Role ${key} saved by ${req.user!.email}`);
+    res.json(role);
+  } catch (err) {
+    if (err instanceof RoleError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error saving role:", err);
+    res.status(500).json({ error: "Failed to save role" });
+  }
+});
+
+// DELETE /admin/roles/:key - delete a custom role, or reset a built-in role to its defaults
+router.delete("/:key", requireAuth, requirePermission('canManageRoles'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { key } = req.params;
+    const before = (await listRoles()).find((role) => role.key === key);
+    const reset = await deleteRole(key);
+
+    await logAuditEvent({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      userName: req.user!.fullName,
+      action: reset ? 'UPDATE' : 'DELETE',
+      resource: 'roles',
+      resourceId: key,
+      req,
+      changes: {
+        before: before ? { name: before.name, permissions: before.permissions } : undefined,
+        after: reset ? { name: reset.name, permissions: reset.permissions } : undefined,
+      },
+    });
+
+    res.json(reset ?? { message: "Role deleted" });
+  } catch (err) {
+    if (err instanceof RoleError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error deleting role:", err);
+    res.status(500).json({ error: "Failed to delete role" });
+  }
+});
+
+export default router;
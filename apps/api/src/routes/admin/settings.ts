@@ -1,6 +1,7 @@
 import express from 'express';
-import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { requireAuth, requirePermission } from '../../middleware/auth';
 import { Settings } from '../../models/Settings';
+import { getCancellationPolicy, validateCancellationTiers, CancellationError } from '../../services/cancellationService';
 
 const router = express.Router();
 
@@ -17,7 +18,7 @@ const adminSettings = {
 };
 
 // GET /admin/settings - Get all settings
-router.get('/', requireAuth, requireAdmin, async (req, res) => {
+router.get('/', requireAuth, requirePermission('canAccessSettings'), async (req, res) => {
   try {
     res.json({
       success: true,
@@ -33,7 +34,7 @@ router.get('/', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // PUT /admin/settings - Update settings
-router.put('/', requireAuth, requireAdmin, async (req, res) => {
+router.put('/', requireAuth, requirePermission('canAccessSettings'), async (req, res) => {
   try {
     const { bookingDepartmentEmail, salesDepartmentEmail, emailFromAddress, emailFromName,
             metaPageId, metaPageAccessToken, metaNotificationPsid } = req.body;
@@ -78,7 +79,7 @@ router.put('/', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // GET /admin/settings/addons - Get add-on pricing & discount toggles
-router.get('/addons', requireAuth, requireAdmin, async (req, res) => {
+router.get('/addons', requireAuth, requirePermission('canAccessSettings'), async (req, res) => {
   try {
     const settings = await Settings.findOne({ key: 'global' });
     const defaults = {
@@ -100,7 +101,7 @@ router.get('/addons', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // PUT /admin/settings/addons - Update add-on pricing & discount toggles
-router.put('/addons', requireAuth, requireAdmin, async (req, res) => {
+router.put('/addons', requireAuth, requirePermission('canAccessSettings'), async (req, res) => {
   try {
     const {
       visaAssistanceFee,
@@ -160,6 +161,56 @@ router.put('/addons', requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
+// GET /admin/settings/cancellation-policy - Refund tiers and cancellation rules
+router.get('/cancellation-policy', requireAuth, requirePermission('canAccessSettings'), async (req, res) => {
+  try {
+    res.json({ success: true, policy: await getCancellationPolicy() });
+  } catch (error) {
+    console.error('Error fetching cancellation policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch cancellation policy' });
+  }
+});
+
+// PUT /admin/settings/cancellation-policy - Update refund tiers and cancellation rules
+router.put('/cancellation-policy', requireAuth, requirePermission('canAccessSettings'), async (req, res) => {
+  try {
+    const { cancellationPolicyHours, refundProcessingDays, tiers, nonRefundableAddOns } = req.body as {
+      cancellationPolicyHours?: number;
+      refundProcessingDays?: number;
+      tiers?: unknown;
+      nonRefundableAddOns?: unknown;
+    };
+
+    const update: Record<string, unknown> = {};
+    if (typeof cancellationPolicyHours === 'number' && cancellationPolicyHours >= 0) {
+      update.cancellationPolicyHours = cancellationPolicyHours;
+    }
+    if (typeof refundProcessingDays === 'number' && refundProcessingDays >= 0) {
+      update.refundProcessingDays = refundProcessingDays;
+    }
+    if (tiers !== undefined) update.cancellationTiers = validateCancellationTiers(tiers);
+    if (Array.isArray(nonRefundableAddOns)) {
+      update.nonRefundableAddOns = nonRefundableAddOns.filter((code): code is string => typeof code === 'string');
+    }
+
+    await Settings.findOneAndUpdate(
+      { key: 'global' },
+      { $set: update },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    const policy = await getCancellationPolicy();
+    console.log('✅ Cancellation policy updated:', policy);
+    res.json({ success: true, policy });
+  } catch (error) {
+    if (error instanceof CancellationError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error('Error updating cancellation policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to update cancellation policy' });
+  }
+});
+
 // Export the settings so other modules can use them
 export function getBookingDepartmentEmail(): string {
   return adminSettings.bookingDepartmentEmail;
@@ -0,0 +1,91 @@
+import express from "express";
+import { requireAuth, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import {
+  CustomerServiceError,
+  createTask,
+  deleteTask,
+  getTask,
+  searchTasks,
+  updateTask,
+} from "../../services/customerService";
+
+const router = express.Router();
+const csrAccess = requirePermission('canRespondToInquiries');
+
+// POST /admin/tasks/search — filter body mirrors the admin TaskFilter type
+router.post("/search", requireAuth, csrAccess, async (req, res) => {
+  try {
+    res.json(await searchTasks(req.body ?? {}));
+  } catch (error) {
+    if (error instanceof CustomerServiceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error fetching tasks:', error);
+    res.status(500).json({ error: "Failed to fetch tasks" });
+  }
+});
+
+// GET /admin/tasks/:id
+router.get("/:id", requireAuth, csrAccess, async (req, res) => {
+  try {
+    const task = await getTask(req.params.id);
+    if (!task) return res.status(404).json({ error: "Task not found" });
+    res.json(task);
+  } catch (error) {
+    if (error instanceof CustomerServiceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error fetching task:', error);
+    res.status(500).json({ error: "Failed to fetch task" });
+  }
+});
+
+// POST /admin/tasks — unassigned tasks go to the creator
+router.post("/", requireAuth, requirePermission('canRespondToInquiries'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const task = await createTask(req.body ?? {}, {
+      id: req.user?.id,
+      name: req.user?.fullName || req.user?.name || req.user?.email || 'Customer Service',
+    });
+    console.log(`📝 Task "${task.title}" created for ${task.customerId}, assigned to ${task.assignedCSR}`);
+    res.status(201).json(task);
+  } catch (error) {
+    if (error instanceof CustomerServiceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error creating task:', error);
+    res.status(500).json({ error: "Failed to create task" });
+  }
+});
+
+// PATCH /admin/tasks/:id
+router.patch("/:id", requireAuth, requirePermission('canRespondToInquiries'), async (req, res) => {
+  try {
+    const task = await updateTask(req.params.id, req.body ?? {});
+    if (!task) return res.status(404).json({ error: "Task not found" });
+    res.json(task);
+  } catch (error) {
+    if (error instanceof CustomerServiceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error updating task:', error);
+    res.status(500).json({ error: "Failed to update task" });
+  }
+});
+
+// DELETE /admin/tasks/:id
+router.delete("/:id", requireAuth, requirePermission('canRespondToInquiries'), async (req, res) => {
+  try {
+    const deleted = await deleteTask(req.params.id);
+    if (!deleted) return res.status(404).json({ error: "Task not found" });
+    res.json({ message: "Task deleted" });
+  } catch (error) {
+    if (error instanceof CustomerServiceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error deleting task:', error);
+    res.status(500).json({ error: "Failed to delete task" });
+  }
+});
+
+export default router;
@@ -1,9 +1,35 @@
 import express, { Request, Response } from "express";
-import Tour from "../../models/Tour";
-import { requireAuth, requireAdmin } from "../../middleware/auth";
+import Tour, { ITour } from "../../models/Tour";
+import { requireAuth, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import { diffBrochureAgainstTour, parseBrochureText } from "../../services/brochureParser";
+import {
+  TourRevisionAuthor,
+  TourRevisionError,
+  createTourWithRevision,
+  diffTourRevisions,
+  getTourRevision,
+  listTourRevisions,
+  restoreTourRevision,
+  updateTourWithRevision,
+} from "../../services/tourRevisions";
+import {
+  TourPublishingError,
+  createPreviewToken,
+  setTourStatus,
+} from "../../services/tourPublishing";
 
 const router = express.Router();
 
+const revisionAuthor = (req: AuthenticatedRequest): TourRevisionAuthor => ({
+  id: req.user?.id,
+  name: req.user?.fullName || req.user?.name || req.user?.email || "Admin",
+});
+
+const parseRevision = (value: unknown) => {
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+};
+
 // Lightweight plain-tour type used for runtime objects returned by Mongoose -> lean()
 type PlainTour = {
   _id?: unknown;
@@ -13,7 +39,7 @@ type PlainTour = {
 };
 
 // GET /admin/tours - list tours from MongoDB
-router.get("/", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+router.get("/", requireAuth, requirePermission('canAccessTours'), async (req: Request, res: Response) => {
   console.log(`[admin/tours] GET / requested from origin=${req.headers.origin} ip=${req.ip}`);
   try {
     const tours = await Tour.find().sort({ createdAt: -1 }).lean().exec();
@@ -30,11 +56,9 @@ router.get("/", requireAuth, requireAdmin, async (req: Request, res: Response) =
 });
 
 // POST /admin/tours - create a new tour
-router.post("/", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+router.post("/", requireAuth, requirePermission('canCreateTours'), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const payload = req.body;
-    const tour = new Tour(payload);
-    await tour.save();
+    const tour = await createTourWithRevision(req.body, revisionAuthor(req));
     const t = tour.toObject();
     t.id = t.id ?? t.slug ?? String(t._id);
     res.status(201).json(t);
@@ -44,8 +68,35 @@ router.post("/", requireAuth, requireAdmin, async (req: Request, res: Response)
   }
 });
 
+// Brochures are a page or two of text; anything much larger is not one
+const MAX_BROCHURE_LENGTH = 50000;
+
+// POST /admin/tours/parse-brochure - parse pasted brochure text into a tour draft.
+// Pass `tour` (Mongo _id or slug) to get the saved value next to each parsed field.
+router.post("/parse-brochure", requireAuth, requirePermission('canCreateTours', 'canEditTours'), async (req: Request, res: Response) => {
+  const { text, tour: idOrSlug } = req.body ?? {};
+  if (typeof text !== "string" || !text.trim()) {
+    return res.status(400).json({ error: "text is required" });
+  }
+  if (text.length > MAX_BROCHURE_LENGTH) {
+    return res.status(413).json({ error: `Brochure text is limited to ${MAX_BROCHURE_LENGTH} characters` });
+  }
+  try {
+    const result = parseBrochureText(text);
+    if (!idOrSlug) return res.json(result);
+
+    const filter = (/^[0-9a-fA-F]{24}$/.test(String(idOrSlug))) ? { _id: String(idOrSlug) } : { slug: String(idOrSlug) };
+    const tour = await Tour.findOne(filter).lean<Partial<ITour>>().exec();
+    if (!tour) return res.status(404).json({ error: "not found" });
+    res.json(diffBrochureAgainstTour(result, tour));
+  } catch (err) {
+    console.error("Error parsing brochure:", err);
+    res.status(500).json({ error: "Failed to parse brochure" });
+  }
+});
+
 // GET /admin/tours/:idOrSlug - get by Mongo _id or slug
-router.get("/:idOrSlug", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+router.get("/:idOrSlug", requireAuth, requirePermission('canAccessTours'), async (req: Request, res: Response) => {
   const { idOrSlug } = req.params;
   console.log(`[admin/tours] GET /${idOrSlug} requested from origin=${req.headers.origin} ip=${req.ip}`);
   try {
@@ -67,22 +118,127 @@ router.get("/:idOrSlug", requireAuth, requireAdmin, async (req: Request, res: Re
   }
 });
 
-// PUT /admin/tours/:idOrSlug - update existing tour by _id or slug
-router.put("/:idOrSlug", requireAuth, requireAdmin, async (req: Request, res: Response) => {
-  const { idOrSlug } = req.params;
+// PUT /admin/tours/:idOrSlug - update existing tour by _id or slug; every save is a new revision
+router.put("/:idOrSlug", requireAuth, requirePermission('canEditTours'), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const filter = (/^[0-9a-fA-F]{24}$/.test(idOrSlug)) ? { _id: idOrSlug } : { slug: idOrSlug };
-    const updated = await Tour.findOneAndUpdate(filter, req.body, { new: true, runValidators: true }).lean().exec();
-    if (!updated) return res.status(404).json({ error: "not found" });
+    const { revision, ...payload } = req.body ?? {};
+    // Without the revision the editor loaded, a stale save could not be told apart
+    if (!Number.isInteger(revision) || revision < 1) {
+      return res.status(400).json({ error: "revision is required: send the revision of the tour being edited" });
+    }
+    const updated = await updateTourWithRevision(req.params.idOrSlug, payload, revisionAuthor(req), {
+      expectedRevision: revision,
+    });
     res.json(updated);
   } catch (err) {
+    if (err instanceof TourRevisionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
     console.error("Error updating tour:", err);
     res.status(500).json({ error: "Failed to update tour" });
   }
 });
 
+// GET /admin/tours/:idOrSlug/revisions - revision list, newest first, without snapshots
+router.get("/:idOrSlug/revisions", requireAuth, requirePermission('canAccessTours'), async (req: Request, res: Response) => {
+  try {
+    res.json(await listTourRevisions(req.params.idOrSlug));
+  } catch (err) {
+    if (err instanceof TourRevisionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching tour revisions:", err);
+    res.status(500).json({ error: "Failed to fetch tour revisions" });
+  }
+});
+
+// GET /admin/tours/:idOrSlug/revisions/diff?from=&to= - field-level changes between two revisions
+router.get("/:idOrSlug/revisions/diff", requireAuth, requirePermission('canAccessTours'), async (req: Request, res: Response) => {
+  const from = parseRevision(req.query.from);
+  const to = parseRevision(req.query.to);
+  if (!from || !to) {
+    return res.status(400).json({ error: "from and to must be revision numbers" });
+  }
+  try {
+    res.json(await diffTourRevisions(req.params.idOrSlug, from, to));
+  } catch (err) {
+    if (err instanceof TourRevisionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error diffing tour revisions:", err);
+    res.status(500).json({ error: "Failed to compare revisions" });
+  }
+});
+
+// GET /admin/tours/:idOrSlug/revisions/:revision - one revision with its snapshot
+router.get("/:idOrSlug/revisions/:revision", requireAuth, requirePermission('canAccessTours'), async (req: Request, res: Response) => {
+  const revision = parseRevision(req.params.revision);
+  if (!revision) return res.status(400).json({ error: "Invalid revision" });
+  try {
+    res.json(await getTourRevision(req.params.idOrSlug, revision));
+  } catch (err) {
+    if (err instanceof TourRevisionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching tour revision:", err);
+    res.status(500).json({ error: "Failed to fetch tour revision" });
+  }
+});
+
+// POST /admin/tours/:idOrSlug/revisions/:revision/restore - save an earlier revision as the current tour
+router.post("/:idOrSlug/revisions/:revision/restore", requireAuth, requirePermission('canEditTours'), async (req: AuthenticatedRequest, res: Response) => {
+  const revision = parseRevision(req.params.revision);
+  if (!revision) return res.status(400).json({ error: "Invalid revision" });
+  try {
+    const restored = await restoreTourRevision(req.params.idOrSlug, revision, revisionAuthor(req));
+    console.log(`↩️ Tour ${restored.slug} restored to revision ${revision} by ${revisionAuthor(req).name}`);
+    res.json(restored);
+  } catch (err) {
+    if (err instanceof TourRevisionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error restoring tour revision:", err);
+    res.status(500).json({ error: "Failed to restore tour revision" });
+  }
+});
+
+// POST /admin/tours/:idOrSlug/status - change status and/or schedule publish/unpublish
+router.post("/:idOrSlug/status", requireAuth, requirePermission('canEditTours'), async (req: AuthenticatedRequest, res: Response) => {
+  const { status, publishAt, unpublishAt } = req.body ?? {};
+  try {
+    const actor = revisionAuthor(req).name;
+    const updated = await setTourStatus(req.params.idOrSlug, { status, publishAt, unpublishAt }, actor);
+    console.log(`📢 Tour ${updated.slug} is now ${updated.status} (by ${actor})`);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof TourPublishingError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error updating tour status:", err);
+    res.status(500).json({ error: "Failed to update tour status" });
+  }
+});
+
+// POST /admin/tours/:idOrSlug/preview-link - signed public-site URL for viewing an unpublished tour
+router.post("/:idOrSlug/preview-link", requireAuth, requirePermission('canEditTours'), async (req: Request, res: Response) => {
+  const { idOrSlug } = req.params;
+  try {
+    const filter = (/^[0-9a-fA-F]{24}$/.test(idOrSlug)) ? { _id: idOrSlug } : { slug: idOrSlug };
+    const tour = await Tour.findOne(filter).select("slug").lean().exec();
+    if (!tour) return res.status(404).json({ error: "not found" });
+
+    const { token, expiresAt } = createPreviewToken(tour.slug);
+    const base = (process.env.CLIENT_URL || process.env.FRONTEND_URL || "").replace(/\/$/, "");
+    const url = `${base}/tour/${encodeURIComponent(tour.slug)}?preview=${encodeURIComponent(token)}`;
+    res.json({ url, token, expiresAt });
+  } catch (err) {
+    console.error("Error creating tour preview link:", err);
+    res.status(500).json({ error: "Failed to create preview link" });
+  }
+});
+
 // DELETE /admin/tours/:idOrSlug - delete tour by _id or slug
-router.delete("/:idOrSlug", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+router.delete("/:idOrSlug", requireAuth, requirePermission('canDeleteTours'), async (req: Request, res: Response) => {
   const { idOrSlug } = req.params;
   try {
     const filter = (/^[0-9a-fA-F]{24}$/.test(idOrSlug)) ? { _id: idOrSlug } : { slug: idOrSlug };
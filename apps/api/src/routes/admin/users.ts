@@ -1,10 +1,14 @@
 import express from 'express';
 import User from '../../models/User';
-import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../../middleware/auth';
 import { IUser } from '../../models/User';
+import { assertCanAssignRole, RoleError } from '../../services/permissions';
 
 const router = express.Router();
 
+// Fields staff may change on an account; passwords and verification go through their own flows
+const EDITABLE_STRING_FIELDS = ['fullName', 'email', 'role', 'phone', 'birthDate', 'gender'] as const;
+
 // Helper function to transform MongoDB user to API response format
 function transformUser(user: IUser & { toObject: () => Record<string, unknown> }) {
   const userObj = user.toObject();
@@ -16,7 +20,7 @@ function transformUser(user: IUser & { toObject: () => Record<string, unknown> }
 }
 
 // GET /admin/users - List all users (admin only)
-router.get('/', requireAuth, requireAdmin, async (req, res) => {
+router.get('/', requireAuth, requirePermission('canAccessUserManagement'), async (req, res) => {
   try {
     const { includeArchived } = req.query;
     const filter = includeArchived === 'true' ? {} : { isArchived: { $ne: true } };
@@ -29,22 +33,41 @@ router.get('/', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // PUT /admin/users/:id - Update user (admin only)
-router.put('/:id', requireAuth, requireAdmin, async (req, res) => {
+router.put('/:id', requireAuth, requirePermission('canAccessUserManagement'), async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
-    const updates = req.body;
-    if (updates.password) delete updates.password; // Prevent password change here
-    const user = await User.findByIdAndUpdate(id, updates, { new: true, select: '-password' });
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const updates: Record<string, unknown> = {};
+    for (const field of EDITABLE_STRING_FIELDS) {
+      if (body[field] === undefined) continue;
+      if (typeof body[field] !== 'string') return res.status(400).json({ error: `${field} must be a string` });
+      updates[field] = (body[field] as string).trim();
+    }
+    if (body.isActive !== undefined) {
+      if (typeof body.isActive !== 'boolean') return res.status(400).json({ error: 'isActive must be true or false' });
+      updates.isActive = body.isActive;
+    }
+
+    const existing = await User.findById(id).select('role');
+    if (!existing) return res.status(404).json({ error: 'User not found' });
+    if (updates.role !== undefined) {
+      await assertCanAssignRole(req.user!.role, existing.role, updates.role as string);
+    }
+
+    const user = await User.findByIdAndUpdate(id, { $set: updates }, { new: true, select: '-password' });
     if (!user) return res.status(404).json({ error: 'User not found' });
     res.json(transformUser(user));
   } catch (error) {
+    if (error instanceof RoleError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Update user error:', error);
     res.status(500).json({ error: 'Failed to update user' });
   }
 });
 
 // PATCH /admin/users/:id/archive - Archive user (soft delete)
-router.patch('/:id/archive', requireAuth, requireAdmin, async (req, res) => {
+router.patch('/:id/archive', requireAuth, requirePermission('canAccessUserManagement'), async (req, res) => {
   try {
     const { id } = req.params;
     const user = await User.findByIdAndUpdate(
@@ -61,7 +84,7 @@ router.patch('/:id/archive', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // PATCH /admin/users/:id/unarchive - Unarchive user (restore)
-router.patch('/:id/unarchive', requireAuth, requireAdmin, async (req, res) => {
+router.patch('/:id/unarchive', requireAuth, requirePermission('canAccessUserManagement'), async (req, res) => {
   try {
     const { id } = req.params;
     const user = await User.findByIdAndUpdate(
@@ -78,7 +101,7 @@ router.patch('/:id/unarchive', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // DELETE /admin/users/:id - Permanently delete user
-router.delete('/:id', requireAuth, requireAdmin, async (req, res) => {
+router.delete('/:id', requireAuth, requirePermission('canAccessUserManagement'), async (req, res) => {
   try {
     const { id } = req.params;
     const user = await User.findByIdAndDelete(id);
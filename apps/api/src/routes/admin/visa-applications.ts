@@ -1,17 +1,45 @@
 import express from 'express';
-import VisaApplication from '../../models/VisaApplication';
-import { requireAuth, requireRole } from '../../middleware/auth';
+import VisaApplication, { IVisaApplication } from '../../models/VisaApplication';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../../middleware/auth';
+import { logAuditEvent } from '../../middleware/auditLog';
+import { assignmentFilter, autoAssignInBackground } from '../../services/assignmentQueues';
+import { normalizeEmailLocale } from '../../services/emailTemplates';
+import {
+  VisaApplicationError,
+  applicationNationality,
+  changeVisaStatus,
+  getAllowedVisaTransitions,
+  initialVisaChecklist,
+  refreshVisaChecklist,
+  reviewChecklistItem,
+  setEmbassyAppointment,
+  toAdminVisaApplication,
+} from '../../services/visaApplications';
+import { ActivityFeedError, addInternalNote, getVisaApplicationSubject } from '../../services/activityFeed';
 
-// Roles that can access visa application management
-const visaRoles = requireRole('super_admin', 'administrator', 'visa_department', 'web_developer');
+const visaAccess = requirePermission('canAccessVisaAssistance');
 
 const router = express.Router();
 
-// GET /admin/visa-applications — list all visa applications
-router.get('/', requireAuth, visaRoles, async (req, res) => {
+function auditVisaChange(req: AuthenticatedRequest, resourceId: string, before: Record<string, unknown>, after: Record<string, unknown>) {
+  return logAuditEvent({
+    userId: req.user?.id,
+    userEmail: req.user?.email || 'unknown',
+    userName: req.user?.fullName || req.user?.name || 'Admin',
+    action: 'UPDATE',
+    resource: 'visa-applications',
+    resourceId,
+    req,
+    changes: { before, after },
+  });
+}
+
+// GET /admin/visa-applications — list visa applications (?assignedTo=me|unassigned|<userId>)
+router.get('/', requireAuth, visaAccess, async (req: AuthenticatedRequest, res) => {
   try {
-    const applications = await VisaApplication.find().sort({ createdAt: -1 });
-    res.json({ success: true, applications });
+    const applications = await VisaApplication.find(assignmentFilter(req.query.assignedTo, req.user!.id))
+      .sort({ createdAt: -1 });
+    res.json({ success: true, applications: applications.map(toAdminVisaApplication) });
   } catch (error) {
     console.error('Error fetching visa applications:', error);
     res.status(500).json({ success: false, error: 'Failed to fetch visa applications' });
@@ -19,48 +47,124 @@ router.get('/', requireAuth, visaRoles, async (req, res) => {
 });
 
 // GET /admin/visa-applications/:id — single application
-router.get('/:id', requireAuth, visaRoles, async (req, res) => {
+router.get('/:id', requireAuth, visaAccess, async (req, res) => {
   try {
     const application = await VisaApplication.findById(req.params.id);
     if (!application) {
       return res.status(404).json({ success: false, error: 'Visa application not found' });
     }
-    res.json({ success: true, application });
+    res.json({ success: true, application: toAdminVisaApplication(application) });
   } catch {
     res.status(500).json({ success: false, error: 'Failed to fetch visa application' });
   }
 });
 
-// PATCH /admin/visa-applications/:id — update status or notes
-router.patch('/:id', requireAuth, visaRoles, async (req, res) => {
+// PATCH /admin/visa-applications/:id — change status (emails the applicant; `note` goes in the email);
+// `notes` is added to the activity feed as an internal note
+router.patch('/:id', requireAuth, requirePermission('canUpdateVisaStatus'), async (req: AuthenticatedRequest, res) => {
   try {
-    const { status, notes, assignedTo } = req.body;
-    const update: Record<string, unknown> = {};
-    if (status) update.status = status;
-    if (notes !== undefined) update.notes = notes;
-    if (assignedTo !== undefined) update.assignedTo = assignedTo;
-
-    const application = await VisaApplication.findByIdAndUpdate(
-      req.params.id,
-      { $set: update },
-      { new: true }
-    );
-    if (!application) {
+    const { status, notes, note } = req.body;
+    const before = await VisaApplication.findById(req.params.id);
+    if (!before) {
       return res.status(404).json({ success: false, error: 'Visa application not found' });
     }
-    res.json({ success: true, application });
-  } catch {
+
+    let application: IVisaApplication = before;
+    if (status && status !== before.status) {
+      application = await changeVisaStatus(req.params.id, status, typeof note === 'string' ? note : undefined);
+    }
+    if (typeof notes === 'string' && notes.trim()) {
+      await addInternalNote(await getVisaApplicationSubject(req.params.id), {
+        id: req.user!.id,
+        name: req.user!.fullName || req.user!.name || req.user!.email,
+        email: req.user!.email,
+      }, { body: notes });
+    }
+
+    await auditVisaChange(req, before.applicationId, { status: before.status }, { status: application.status });
+    res.json({ success: true, application: toAdminVisaApplication(application) });
+  } catch (error) {
+    if (error instanceof ActivityFeedError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    if (error instanceof VisaApplicationError) {
+      const current = await VisaApplication.findById(req.params.id).select('status').catch(() => null);
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        allowedTransitions: getAllowedVisaTransitions(current?.status),
+      });
+    }
+    console.error('Error updating visa application:', error);
     res.status(500).json({ success: false, error: 'Failed to update visa application' });
   }
 });
 
+// PUT /admin/visa-applications/:id/checklist/:itemKey — accept or reject an uploaded document ({ decision, reason })
+router.put('/:id/checklist/:itemKey', requireAuth, requirePermission('canProcessVisaApplications'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id, itemKey } = req.params;
+    const application = await reviewChecklistItem(
+      id,
+      itemKey,
+      req.body?.decision,
+      req.body?.reason,
+      req.user!.fullName || req.user!.email
+    );
+    const item = application.checklist.find((entry) => entry.key === itemKey);
+    await auditVisaChange(req, application.applicationId, { item: itemKey }, { item: itemKey, status: item?.status, reason: item?.rejectionReason });
+    res.json({ success: true, application: toAdminVisaApplication(application) });
+  } catch (error) {
+    if (error instanceof VisaApplicationError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error('Error reviewing visa document:', error);
+    res.status(500).json({ success: false, error: 'Failed to review document' });
+  }
+});
+
+// POST /admin/visa-applications/:id/checklist/refresh — rebuild the checklist from the current visa rules
+router.post('/:id/checklist/refresh', requireAuth, requirePermission('canProcessVisaApplications'), async (req, res) => {
+  try {
+    const application = await refreshVisaChecklist(req.params.id);
+    res.json({ success: true, application: toAdminVisaApplication(application) });
+  } catch (error) {
+    if (error instanceof VisaApplicationError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error('Error refreshing visa checklist:', error);
+    res.status(500).json({ success: false, error: 'Failed to refresh checklist' });
+  }
+});
+
+// PUT /admin/visa-applications/:id/appointment — set ({ date, time, location, reference }) or clear (null) the embassy appointment
+router.put('/:id/appointment', requireAuth, requirePermission('canUpdateVisaStatus'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const before = await VisaApplication.findById(req.params.id).select('embassyAppointment');
+    const application = await setEmbassyAppointment(req.params.id, req.body?.appointment ?? null);
+    await auditVisaChange(
+      req,
+      application.applicationId,
+      { embassyAppointment: before?.embassyAppointment ?? null },
+      { embassyAppointment: application.embassyAppointment ?? null }
+    );
+    res.json({ success: true, application: toAdminVisaApplication(application) });
+  } catch (error) {
+    if (error instanceof VisaApplicationError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error('Error saving embassy appointment:', error);
+    res.status(500).json({ success: false, error: 'Failed to save appointment' });
+  }
+});
+
 // POST /admin/visa-applications — manually create (admin-entered)
-router.post('/', requireAuth, visaRoles, async (req, res) => {
+router.post('/', requireAuth, requirePermission('canProcessVisaApplications'), async (req, res) => {
   try {
     const {
       completeName, passportNumber, civilStatus, contactNumber, emailAddress,
       presentAddress, travelHistory, companyName, jobTitle, companyLocation,
-      dateHiredOrStarted, destinationCountries, notes, tourTitle, bookingId
+      dateHiredOrStarted, destinationCountries, notes, tourTitle, bookingId, nationality, locale
     } = req.body;
 
     if (!completeName) {
@@ -71,6 +175,7 @@ router.post('/', requireAuth, visaRoles, async (req, res) => {
     const randomSuffix = Math.random().toString(36).slice(2, 8).toUpperCase();
     const applicationId = `VA-${year}-${randomSuffix}`;
 
+    const applicantNationality = applicationNationality(nationality);
     const application = await VisaApplication.create({
       applicationId,
       applicationDate: new Date().toISOString().split('T')[0],
@@ -79,9 +184,13 @@ router.post('/', requireAuth, visaRoles, async (req, res) => {
       completeName, passportNumber, civilStatus, contactNumber, emailAddress,
       presentAddress, travelHistory, companyName, jobTitle, companyLocation,
       dateHiredOrStarted, destinationCountries, notes, tourTitle, bookingId,
+      nationality: applicantNationality,
+      locale: normalizeEmailLocale(locale),
+      checklist: await initialVisaChecklist({ destinationCountries, bookingId, nationality: applicantNationality }),
     });
+    autoAssignInBackground('visa-applications', String(application._id));
 
-    res.status(201).json({ success: true, application });
+    res.status(201).json({ success: true, application: toAdminVisaApplication(application) });
   } catch (error) {
     console.error('Error creating visa application:', error);
     res.status(500).json({ success: false, error: 'Failed to create visa application' });
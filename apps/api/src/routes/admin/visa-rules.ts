@@ -0,0 +1,100 @@
+import express from "express";
+import { requireAuth, requireRole, requirePermission, AuthenticatedRequest } from "../../middleware/auth";
+import {
+  VisaRuleError,
+  createVisaRule,
+  deleteVisaRule,
+  listVisaRules,
+  reevaluateBookingsForRule,
+  updateVisaRule,
+} from "../../services/visa-readiness";
+
+// Visa rules per (nationality, destination). Every change re-scores the
+// upcoming bookings it touches so their readiness snapshot stays current.
+const router = express.Router();
+const visaRoles = requireRole('super_admin', 'administrator', 'visa_department', 'web_developer');
+
+const actorName = (req: AuthenticatedRequest) =>
+  req.user?.fullName || req.user?.name || req.user?.email || 'Admin';
+
+// A failed re-evaluation must not undo a saved rule; it is logged instead
+async function reevaluatePairs(pairs: Array<{ nationality: string; destination: string }>): Promise<number> {
+  const seen = new Set<string>();
+  let total = 0;
+  for (const pair of pairs) {
+    const key = `${pair.nationality}|${pair.destination}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    try {
+      total += await reevaluateBookingsForRule(pair.nationality, pair.destination);
+    } catch (error) {
+      console.error(`Error re-evaluating bookings for ${key}:`, error);
+    }
+  }
+  return total;
+}
+
+// GET /admin/visa-rules?nationality=&destination=
+router.get("/", requireAuth, visaRoles, async (req, res) => {
+  try {
+    const rules = await listVisaRules({
+      nationality: typeof req.query.nationality === 'string' ? req.query.nationality : undefined,
+      destination: typeof req.query.destination === 'string' ? req.query.destination : undefined,
+    });
+    res.json(rules);
+  } catch (error) {
+    console.error('Error fetching visa rules:', error);
+    res.status(500).json({ error: "Failed to fetch visa rules" });
+  }
+});
+
+// POST /admin/visa-rules
+router.post("/", requireAuth, requirePermission('canProcessVisaApplications'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const rule = await createVisaRule(req.body ?? {}, actorName(req));
+    const reevaluated = await reevaluatePairs([rule]);
+    console.log(`🛂 Visa rule ${rule.nationality} → ${rule.destination} created; ${reevaluated} booking(s) re-evaluated`);
+    res.status(201).json({ rule, reevaluated });
+  } catch (error) {
+    if (error instanceof VisaRuleError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error creating visa rule:', error);
+    res.status(500).json({ error: "Failed to create visa rule" });
+  }
+});
+
+// PUT /admin/visa-rules/:id
+router.put("/:id", requireAuth, requirePermission('canProcessVisaApplications'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await updateVisaRule(req.params.id, req.body ?? {}, actorName(req));
+    if (!result) return res.status(404).json({ error: "Visa rule not found" });
+
+    const reevaluated = await reevaluatePairs([result.previous, result.rule]);
+    console.log(`🛂 Visa rule ${result.rule.nationality} → ${result.rule.destination} updated; ${reevaluated} booking(s) re-evaluated`);
+    res.json({ rule: result.rule, reevaluated });
+  } catch (error) {
+    if (error instanceof VisaRuleError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error updating visa rule:', error);
+    res.status(500).json({ error: "Failed to update visa rule" });
+  }
+});
+
+// DELETE /admin/visa-rules/:id
+router.delete("/:id", requireAuth, requirePermission('canProcessVisaApplications'), async (req, res) => {
+  try {
+    const rule = await deleteVisaRule(req.params.id);
+    if (!rule) return res.status(404).json({ error: "Visa rule not found" });
+
+    const reevaluated = await reevaluatePairs([rule]);
+    console.log(`🗑️ Visa rule ${rule.nationality} → ${rule.destination} deleted; ${reevaluated} booking(s) re-evaluated`);
+    res.json({ success: true, reevaluated });
+  } catch (error) {
+    console.error('Error deleting visa rule:', error);
+    res.status(500).json({ error: "Failed to delete visa rule" });
+  }
+});
+
+export default router;
@@ -0,0 +1,80 @@
+import express, { Request, Response } from "express";
+import multer from "multer";
+import { emailLimiter } from "../../middleware/rateLimiter";
+import { logAuditEvent } from "../../middleware/auditLog";
+import {
+  GuestBookingAccessError,
+  attachGuestDocument,
+  getGuestTrip,
+  requestBookingAccessLink,
+} from "../../services/guestBookingAccess";
+import { MAX_UPLOAD_BYTES, TRAVEL_DOCUMENT_MIME_TYPES, TravelDocumentType } from "../../services/documentStorage";
+
+const router = express.Router();
+
+// No account needed: the signed token in the link is the credential; see services/guestBookingAccess
+
+const uploadDocument = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES },
+  fileFilter: (_req, file, cb) => {
+    if (TRAVEL_DOCUMENT_MIME_TYPES.includes(file.mimetype)) cb(null, true);
+    else cb(new Error('Invalid file type. Only PDF and images are allowed.'));
+  },
+});
+
+// POST /api/booking-access - email an access link for a booking ID + email pair
+router.post("/", emailLimiter, async (req: Request, res: Response) => {
+  try {
+    const { bookingId, email } = req.body as { bookingId?: string; email?: string };
+    await requestBookingAccessLink(bookingId, email);
+    res.json({ message: "If the booking ID and email match a booking, we have sent a link to that email address." });
+  } catch (err) {
+    if (err instanceof GuestBookingAccessError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error sending booking access link:", err);
+    res.status(500).json({ error: "Failed to send booking access link" });
+  }
+});
+
+// GET /api/booking-access/:token - the booking the link was issued for, read-only
+router.get("/:token", async (req: Request, res: Response) => {
+  try {
+    res.json(await getGuestTrip(req.params.token));
+  } catch (err) {
+    if (err instanceof GuestBookingAccessError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching guest booking:", err);
+    res.status(500).json({ error: "Failed to fetch booking" });
+  }
+});
+
+// POST /api/booking-access/:token/documents - upload a passport or visa copy (multipart: file, type)
+router.post("/:token/documents", uploadDocument.single('file'), async (req: Request, res: Response) => {
+  try {
+    const { type } = req.body as { type?: string };
+    const trip = await attachGuestDocument(req.params.token, type, req.file);
+
+    await logAuditEvent({
+      userEmail: trip.booking.customerEmail,
+      userName: trip.booking.customerName,
+      action: 'UPDATE',
+      resource: 'bookings',
+      resourceId: trip.booking.bookingId,
+      req,
+      changes: { after: { [`${type}Url`]: trip.booking[`${type as TravelDocumentType}Url`] } },
+    });
+
+    res.json(trip);
+  } catch (err) {
+    if (err instanceof GuestBookingAccessError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error uploading guest document:", err);
+    res.status(500).json({ error: "Failed to upload document" });
+  }
+});
+
+export default router;
@@ -1,10 +1,35 @@
 
 import express from "express";
-import Booking from "../../models/Booking";
+import Booking, { ITraveller } from "../../models/Booking";
 import VisaApplication from "../../models/VisaApplication";
+import { autoAssignInBackground } from "../../services/assignmentQueues";
+import { initialVisaChecklist } from "../../services/visaApplications";
 import { sendBookingConfirmationEmail, sendSalesNotificationEmail } from "../../services/emailService";
+import { normalizeEmailLocale } from "../../services/emailTemplates";
 import { sendMetaBookingNotification } from "../../services/metaService";
-import { evaluateVisaReadiness } from "../../services/visa-readiness";
+import {
+  DEFAULT_NATIONALITY,
+  evaluateBookingVisaReadiness,
+  VisaReadinessResult,
+} from "../../services/visa-readiness";
+import { reserveSeats, releaseSeats, SeatInventoryError } from "../../services/seatInventory";
+import {
+  applySeatSideEffects,
+  buildHistoryEntry,
+  resolveInitialStatus,
+  transitionBookingStatus,
+  BookingTransitionError,
+} from "../../services/bookingStatus";
+import { createInstallmentPlanForBooking } from "../../services/installmentService";
+import {
+  buildBookingQuote,
+  findPriceMismatches,
+  isStrictPricing,
+  PricingError,
+  BookingQuote,
+} from "../../services/pricingService";
+import { sanitizeTravellers, TravellerManifestError } from "../../services/travellerManifest";
+import { requireAuth, requirePermission, optionalAuth, AuthenticatedRequest } from "../../middleware/auth";
 
 const router = express.Router();
 
@@ -17,8 +42,8 @@ const isVisaReadinessEnabled = () => {
   return !['0', 'false', 'off', 'no'].includes(value.toLowerCase());
 };
 
-// GET /api/bookings - get all bookings
-router.get("/", async (req, res) => {
+// GET /api/bookings - get all bookings (staff who see every booking; customers use /api/my-trips)
+router.get("/", requireAuth, requirePermission('canAccessBookings'), requirePermission('canViewAllBookings'), async (req, res) => {
   try {
     // No need to populate tour since we store tourSlug directly
     const bookings = await Booking.find().sort({ createdAt: -1 }); // Sort by newest first
@@ -30,8 +55,8 @@ router.get("/", async (req, res) => {
   }
 });
 
-// POST /api/bookings - create a new booking
-router.post("/", async (req, res) => {
+// POST /api/bookings - create a new booking; signed-in customers become its owner
+router.post("/", optionalAuth, async (req: AuthenticatedRequest, res) => {
   try {
     const {
       tourSlug,
@@ -41,9 +66,9 @@ router.post("/", async (req, res) => {
       customerPassport,
       selectedDate,
       passengers,
-      perPerson,
-      totalAmount,
-      paidAmount,
+      perPerson: submittedPerPerson,
+      totalAmount: submittedTotalAmount,
+      paidAmount: submittedPaidAmount,
       paymentType,
       status,
       bookingId,
@@ -53,7 +78,10 @@ router.post("/", async (req, res) => {
       appointmentDate,
       appointmentTime,
       appointmentPurpose,
+      locale,
       customRoutes,
+      optionalTours,
+      installmentPlan: requestedInstallmentPlan,
       visaAssistanceRequested,
       visaPaxDetails,
       visaDocumentsProvided,
@@ -61,112 +89,202 @@ router.post("/", async (req, res) => {
       visaAssistanceStatus,
       visaAssistanceNotes,
       travelInsuranceRequested,
-      travelInsuranceFee,
       insurancePaxDetails,
       passportAssistanceRequested,
-      passportAssistanceFee,
       passportPaxDetails,
       nationality,
       passportUrl,
       visaUrl,
+      travellers: requestedTravellers,
     } = req.body;
 
-    // Note: Tours are served from JSON files, not MongoDB
-    // So we'll store the tour slug directly instead of a MongoDB reference
     console.log('📝 Creating booking for tour slug:', tourSlug);
     if (customRoutes && customRoutes.length > 0) {
       console.log('📋 Combined tour with', customRoutes.length, 'custom route(s)');
     }
 
+    let travellers: ITraveller[];
+    try {
+      travellers = sanitizeTravellers(requestedTravellers, Number(passengers) || 1);
+    } catch (travellerError) {
+      if (travellerError instanceof TravellerManifestError) {
+        return res.status(travellerError.statusCode).json({ error: travellerError.message, code: 'INVALID_TRAVELLERS' });
+      }
+      throw travellerError;
+    }
+
+    // Recompute the price server-side; the browser's amounts are only compared
+    let quote: BookingQuote;
+    try {
+      quote = await buildBookingQuote({
+        tourSlug,
+        selectedDate,
+        passengers,
+        paymentType,
+        requestedPaidAmount: typeof submittedPaidAmount === 'number' ? submittedPaidAmount : undefined,
+        customRoutes: Array.isArray(customRoutes) ? customRoutes : [],
+        optionalTours: Array.isArray(optionalTours) ? optionalTours : [],
+        visaAssistanceRequested: Boolean(visaAssistanceRequested),
+        travelInsuranceRequested: Boolean(travelInsuranceRequested),
+        passportAssistanceRequested: Boolean(passportAssistanceRequested),
+      });
+    } catch (pricingError) {
+      if (pricingError instanceof PricingError) {
+        return res.status(pricingError.statusCode).json({ error: pricingError.message, code: 'PRICING_ERROR' });
+      }
+      throw pricingError;
+    }
+
+    const priceMismatches = findPriceMismatches(quote, {
+      perPerson: submittedPerPerson,
+      totalAmount: submittedTotalAmount,
+      paidAmount: submittedPaidAmount,
+    });
+    if (priceMismatches.length > 0) {
+      if (isStrictPricing()) {
+        console.warn(`🚫 Price mismatch rejected for booking ${bookingId}:`, priceMismatches);
+        return res.status(409).json({
+          error: 'Submitted prices do not match current tour pricing',
+          code: 'PRICE_MISMATCH',
+          mismatches: priceMismatches,
+          quote,
+        });
+      }
+      console.warn(`⚠️ Price mismatch corrected for booking ${bookingId}:`, priceMismatches);
+    }
+
+    const { perPerson, totalAmount, paidAmount } = quote;
+    const { visaAssistanceFee, travelInsuranceFee, passportAssistanceFee } = quote.addOns;
+    const initialStatus = resolveInitialStatus(status);
+    const installmentPlan = paymentType === 'downpayment'
+      ? await createInstallmentPlanForBooking({
+          bookingId,
+          tourSlug,
+          selectedDate,
+          totalAmount,
+          downpaymentAmount: paidAmount,
+          installmentCount: typeof requestedInstallmentPlan?.totalMonths === 'number'
+            ? requestedInstallmentPlan.totalMonths
+            : undefined,
+        })
+      : null;
+
     let visaReadinessScore: number | undefined;
     let visaReadinessStatus: 'ready' | 'attention' | 'not_ready' | undefined;
-    let visaReadinessSnapshot:
-      | {
-          score: number;
-          status: 'ready' | 'attention' | 'not_ready';
-          blockers: Array<{ code: string; message: string; level: 'critical' | 'high' | 'medium' | 'low'; country?: string }>;
-          warnings: Array<{ code: string; message: string; level: 'critical' | 'high' | 'medium' | 'low'; country?: string }>;
-          nextActions: string[];
-          ruleSummary: {
-            countries: string[];
-            strictestPassportValidityMonths: number;
-            strictestVisaLeadDays: number;
-            visaRequiredCountries: string[];
-            evisaCountries: string[];
-          };
-          evaluatedAt: string;
-        }
-      | undefined;
+    let visaReadinessSnapshot: VisaReadinessResult | undefined;
+    const bookingNationality = typeof nationality === 'string' && nationality.trim()
+      ? nationality.trim().toLowerCase()
+      : DEFAULT_NATIONALITY;
+    const emailLocale = normalizeEmailLocale(locale);
 
     if (isVisaReadinessEnabled() && typeof tourSlug === 'string' && typeof selectedDate === 'string') {
       try {
-        // selectedDate may be a range like '2026-03-18 - 2026-03-27'; use only the start date
-        const departureDateStr = selectedDate.includes(' - ')
-          ? selectedDate.split(' - ')[0].trim()
-          : selectedDate.trim();
-        const readiness = await evaluateVisaReadiness({
+        const result = await evaluateBookingVisaReadiness({
           tourSlug,
-          departureDate: departureDateStr,
-          nationality: typeof nationality === 'string' ? nationality : 'philippines',
-          passportExpiryDate: typeof customerPassport === 'string' ? customerPassport : undefined,
-          documents: {
-            hasPassport: Boolean(customerPassport),
-            hasVisa: Boolean(visaDocumentsProvided),
-            hasSupportingDocuments: Boolean(visaDocumentsProvided),
-          },
+          selectedDate,
+          nationality: bookingNationality,
+          customerPassport: typeof customerPassport === 'string' ? customerPassport : undefined,
+          visaDocumentsProvided: Boolean(visaDocumentsProvided),
+          travellers,
         });
 
-        visaReadinessScore = readiness.score;
-        visaReadinessStatus = readiness.status;
-        visaReadinessSnapshot = readiness;
+        if (result) {
+          visaReadinessScore = result.readiness.score;
+          visaReadinessStatus = result.readiness.status;
+          visaReadinessSnapshot = result.readiness;
+          if (result.travellers.length > 0) travellers = result.travellers;
+        }
       } catch (readinessError) {
         console.warn('⚠️ Visa readiness evaluation failed (non-critical):', readinessError);
       }
     }
 
+    // Reserve seats on the departure before the booking exists so an oversold
+    // departure is rejected up front. The hold lapses if payment never arrives.
+    let seatHold: Awaited<ReturnType<typeof reserveSeats>> = null;
+    if (typeof tourSlug === 'string' && typeof selectedDate === 'string' && bookingId) {
+      try {
+        seatHold = await reserveSeats({
+          tourSlug,
+          selectedDate,
+          seats: Number(passengers) || 1,
+          bookingId,
+          paymentType,
+        });
+      } catch (inventoryError) {
+        if (inventoryError instanceof SeatInventoryError) {
+          console.warn(`🚫 Seat reservation rejected for ${tourSlug} (${selectedDate}):`, inventoryError.message);
+          return res.status(inventoryError.statusCode).json({
+            error: inventoryError.message,
+            code: inventoryError.code,
+            remainingSeats: inventoryError.remainingSeats,
+          });
+        }
+        throw inventoryError;
+      }
+    }
+
     // Create the booking
-    const booking = await Booking.create({
-      tourSlug: tourSlug, // Store slug directly instead of MongoDB reference
-      customerName,
-      customerEmail,
-      customerPhone,
-      customerPassport,
-      selectedDate,
-      passengers,
-      perPerson,
-      totalAmount,
-      paidAmount,
-      paymentType,
-      status,
-      bookingId,
-      bookingDate,
-      paymentIntentId,
-      notes,
-      appointmentDate,
-      appointmentTime,
-      appointmentPurpose,
-      customRoutes: customRoutes || [],
-      visaAssistanceRequested: visaAssistanceRequested || false,
-      visaAssistanceFee: visaAssistanceRequested ? 10000 : 0,
-      visaPaxDetails: visaPaxDetails || [],
-      visaDocumentsProvided: visaDocumentsProvided || false,
-      visaDestinationCountries,
-      visaAssistanceStatus: visaAssistanceRequested ? (visaAssistanceStatus || 'pending') : 'not-needed',
-      visaAssistanceNotes,
-      travelInsuranceRequested: travelInsuranceRequested || false,
-      travelInsuranceFee: travelInsuranceRequested ? (travelInsuranceFee ?? 3000) : 0,
-      insurancePaxDetails: insurancePaxDetails || [],
-      passportAssistanceRequested: passportAssistanceRequested || false,
-      passportAssistanceFee: passportAssistanceRequested ? (passportAssistanceFee ?? 5000) : 0,
-      passportPaxDetails: passportPaxDetails || [],
-      passportUrl: passportUrl || undefined,
-      visaUrl: visaUrl || undefined,
-      visaReadinessScore,
-      visaReadinessStatus,
-      visaReadinessSnapshot
-    });
+    let booking;
+    try {
+      booking = await Booking.create({
+        user: req.user?.id,
+        tourSlug: tourSlug, // Store slug directly instead of MongoDB reference
+        customerName,
+        customerEmail,
+        customerPhone,
+        customerPassport,
+        nationality: bookingNationality,
+        selectedDate,
+        passengers,
+        perPerson,
+        totalAmount,
+        paidAmount: 0,
+        paymentType,
+        status: initialStatus,
+        statusHistory: [
+          buildHistoryEntry(null, initialStatus, { type: 'customer', name: customerName }, 'Booking created'),
+        ],
+        bookingId,
+        bookingDate,
+        paymentIntentId,
+        notes,
+        appointmentDate,
+        appointmentTime,
+        appointmentPurpose,
+        locale: emailLocale,
+        customRoutes: customRoutes || [],
+        optionalTours: quote.optionalTours,
+        pricingQuote: { ...quote, adjustments: priceMismatches },
+        installmentPlan: installmentPlan ?? undefined,
+        visaAssistanceRequested: visaAssistanceRequested || false,
+        visaAssistanceFee,
+        visaPaxDetails: visaPaxDetails || [],
+        visaDocumentsProvided: visaDocumentsProvided || false,
+        visaDestinationCountries,
+        visaAssistanceStatus: visaAssistanceRequested ? (visaAssistanceStatus || 'pending') : 'not-needed',
+        visaAssistanceNotes,
+        travelInsuranceRequested: travelInsuranceRequested || false,
+        travelInsuranceFee,
+        insurancePaxDetails: insurancePaxDetails || [],
+        passportAssistanceRequested: passportAssistanceRequested || false,
+        passportAssistanceFee,
+        passportPaxDetails: passportPaxDetails || [],
+        passportUrl: passportUrl || undefined,
+        visaUrl: visaUrl || undefined,
+        visaReadinessScore,
+        visaReadinessStatus,
+        visaReadinessSnapshot,
+        travellers,
+      });
+    } catch (createError) {
+      if (seatHold) await releaseSeats(bookingId, 'Booking could not be saved');
+      throw createError;
+    }
+    if (seatHold) await applySeatSideEffects(bookingId, initialStatus);
 
     console.log('✅ Booking created successfully:', bookingId);
+    autoAssignInBackground('bookings', bookingId);
 
     // Auto-create a visa application record if visa assistance was requested
     if (visaAssistanceRequested) {
@@ -174,7 +292,7 @@ router.post("/", async (req, res) => {
         const year = new Date().getFullYear();
         const randomSuffix = Math.random().toString(36).slice(2, 8).toUpperCase();
         const applicationId = `VA-${year}-${randomSuffix}`;
-        await VisaApplication.create({
+        const application = await VisaApplication.create({
           applicationId,
           applicationDate: new Date().toISOString().split('T')[0],
           status: 'pending',
@@ -186,8 +304,16 @@ router.post("/", async (req, res) => {
           tourTitle: tourSlug,
           bookingId,
           notes: visaAssistanceNotes || '',
+          nationality: bookingNationality,
+          locale: emailLocale,
+          checklist: await initialVisaChecklist({
+            destinationCountries: visaDestinationCountries || '',
+            bookingId,
+            nationality: bookingNationality,
+          }),
         });
         console.log('✅ Visa application record created for booking:', bookingId);
+        autoAssignInBackground('visa-applications', String(application._id));
       } catch (visaErr) {
         console.warn('⚠️ Could not create visa application record (non-critical):', visaErr);
       }
@@ -213,19 +339,23 @@ router.post("/", async (req, res) => {
         appointmentPurpose,
         customRoutes: customRoutes || [],
         visaAssistanceRequested: visaAssistanceRequested || false,
-        visaAssistanceFee: visaAssistanceRequested ? 10000 : undefined,
+        visaAssistanceFee: visaAssistanceRequested ? visaAssistanceFee : undefined,
         visaPaxDetails: visaPaxDetails || [],
         visaDocumentsProvided: visaDocumentsProvided || false,
         visaDestinationCountries,
         visaAssistanceStatus: visaAssistanceRequested ? (visaAssistanceStatus || 'pending') : 'not-needed',
         visaAssistanceNotes,
         travelInsuranceRequested: travelInsuranceRequested || false,
-        travelInsuranceFee: travelInsuranceRequested ? (travelInsuranceFee ?? 3000) : undefined,
+        travelInsuranceFee: travelInsuranceRequested ? travelInsuranceFee : undefined,
         travelInsurancePax: insurancePaxDetails || [],
+        perks: quote.perks,
+        locale: emailLocale,
       });
 
-      if (emailResult.success) {
+      if (emailResult.status === 'sent') {
         console.log('✅ Confirmation emails sent to customer and booking department');
+      } else if (emailResult.success) {
+        console.warn('⚠️ Confirmation email not sent yet, the outbox will retry:', emailResult.error);
       } else {
         console.warn('⚠️ Failed to send confirmation email:', emailResult.error);
       }
@@ -249,11 +379,11 @@ router.post("/", async (req, res) => {
         appointmentPurpose,
         paymentMethod: paymentType,
         visaAssistanceRequested: visaAssistanceRequested || false,
-        visaAssistanceFee: visaAssistanceRequested ? 10000 : undefined,
+        visaAssistanceFee: visaAssistanceRequested ? visaAssistanceFee : undefined,
         travelInsuranceRequested: travelInsuranceRequested || false,
-        travelInsuranceFee: travelInsuranceRequested ? (travelInsuranceFee ?? 3000) : undefined,
+        travelInsuranceFee: travelInsuranceRequested ? travelInsuranceFee : undefined,
         passportAssistanceRequested: passportAssistanceRequested || false,
-        passportAssistanceFee: passportAssistanceRequested ? (passportAssistanceFee ?? 5000) : undefined,
+        passportAssistanceFee: passportAssistanceRequested ? passportAssistanceFee : undefined,
       });
 
       // Send Meta Messenger notification to sales team
@@ -291,11 +421,53 @@ router.post("/", async (req, res) => {
   }
 });
 
+// POST /api/bookings/quote - itemized server-side price for a prospective booking
+router.post("/quote", async (req, res) => {
+  try {
+    const {
+      tourSlug,
+      selectedDate,
+      passengers,
+      paymentType,
+      paidAmount,
+      customRoutes,
+      optionalTours,
+      visaAssistanceRequested,
+      travelInsuranceRequested,
+      passportAssistanceRequested,
+    } = req.body;
+
+    if (!tourSlug || !selectedDate) {
+      return res.status(400).json({ error: 'tourSlug and selectedDate are required' });
+    }
+
+    const quote = await buildBookingQuote({
+      tourSlug,
+      selectedDate,
+      passengers,
+      paymentType,
+      requestedPaidAmount: typeof paidAmount === 'number' ? paidAmount : undefined,
+      customRoutes: Array.isArray(customRoutes) ? customRoutes : [],
+      optionalTours: Array.isArray(optionalTours) ? optionalTours : [],
+      visaAssistanceRequested: Boolean(visaAssistanceRequested),
+      travelInsuranceRequested: Boolean(travelInsuranceRequested),
+      passportAssistanceRequested: Boolean(passportAssistanceRequested),
+    });
+    res.json(quote);
+  } catch (err) {
+    if (err instanceof PricingError) {
+      return res.status(err.statusCode).json({ error: err.message, code: 'PRICING_ERROR' });
+    }
+    console.error('Error building booking quote:', err);
+    res.status(500).json({ error: 'Failed to build quote' });
+  }
+});
+
 // GET /api/bookings/recent/notification - get most recent confirmed booking
 // NOTE: must be defined BEFORE /:bookingId to avoid 'recent' being matched as a param
 router.get("/recent/notification", async (req, res) => {
   try {
-    const recentBooking = await Booking.findOne({ status: 'confirmed' })
+    const recentBooking = await Booking.findOne({ status: { $in: ['partially_paid', 'confirmed'] } })
       .sort({ createdAt: -1 });
     
     if (!recentBooking) {
@@ -330,8 +502,8 @@ router.get("/recent/notification", async (req, res) => {
   }
 });
 
-// GET /api/bookings/:bookingId - get a specific booking by bookingId
-router.get("/:bookingId", async (req, res) => {
+// GET /api/bookings/:bookingId - get a specific booking by bookingId (staff; customers use /api/my-trips)
+router.get("/:bookingId", requireAuth, requirePermission("canAccessBookings"), async (req, res) => {
   try {
     const { bookingId } = req.params;
     const booking = await Booking.findOne({ bookingId });
@@ -347,61 +519,41 @@ router.get("/:bookingId", async (req, res) => {
   }
 });
 
-// PATCH /api/bookings/:bookingId/payment - update payment details after successful payment
-router.patch("/:bookingId/payment", async (req, res) => {
+// PATCH /api/bookings/:bookingId/status - update booking status (staff)
+router.patch("/:bookingId/status", requireAuth, requirePermission("canManageBookingStatus"), async (req: AuthenticatedRequest, res) => {
   try {
     const { bookingId } = req.params;
-    const { paidAmount, paymentIntentId, status } = req.body;
-
-    const update: Record<string, unknown> = {};
-    if (paidAmount !== undefined) update.paidAmount = paidAmount;
-    if (paymentIntentId) update.paymentIntentId = paymentIntentId;
-    if (status) update.status = status;
+    const { status, reason } = req.body;
 
-    const booking = await Booking.findOneAndUpdate(
-      { bookingId },
-      { $set: update },
-      { new: true }
-    );
-
-    if (!booking) {
-      return res.status(404).json({ error: "Booking not found" });
+    // Cancelling goes through the refund workflow so the policy and admin review apply
+    if (status === 'cancelled' || status === 'refunded') {
+      return res.status(409).json({
+        error: "Use POST /api/my-trips/:bookingId/cancellation to request a cancellation.",
+      });
     }
 
-    console.log(`💳 Updated payment for booking ${bookingId}:`, update);
-    res.json(booking);
-  } catch (err) {
-    console.error("Error updating payment:", err);
-    res.status(500).json({ error: "Failed to update payment" });
-  }
-});
+    const booking = await transitionBookingStatus(bookingId, status, {
+      actor: { type: 'admin', id: req.user?.id, name: req.user?.fullName || req.user?.email },
+      reason,
+    });
 
-// PATCH /api/bookings/:bookingId/status - update booking status
-router.patch("/:bookingId/status", async (req, res) => {
-  try {
-    const { bookingId } = req.params;
-    const { status } = req.body;
-    
-    const booking = await Booking.findOneAndUpdate(
-      { bookingId },
-      { status },
-      { new: true }
-    );
-    
     if (!booking) {
       return res.status(404).json({ error: "Booking not found" });
     }
-    
+
     console.log(`📝 Updated booking ${bookingId} status to: ${status}`);
     res.json(booking);
   } catch (err) {
+    if (err instanceof BookingTransitionError) {
+      return res.status(err.statusCode).json({ error: err.message, allowedTransitions: err.allowed });
+    }
     console.error("Error updating booking status:", err);
     res.status(500).json({ error: "Failed to update booking status" });
   }
 });
 
-// DELETE /api/bookings/:bookingId - delete a booking
-router.delete("/:bookingId", async (req, res) => {
+// DELETE /api/bookings/:bookingId - delete a booking (staff allowed to delete bookings)
+router.delete("/:bookingId", requireAuth, requirePermission("canDeleteBookings"), async (req, res) => {
   try {
     const { bookingId } = req.params;
     
@@ -410,6 +562,8 @@ router.delete("/:bookingId", async (req, res) => {
     if (!booking) {
       return res.status(404).json({ error: "Booking not found" });
     }
+
+    await releaseSeats(bookingId, 'Booking deleted');
     
     console.log(`🗑️ Deleted booking: ${bookingId}`);
     res.json({ message: "Booking deleted successfully", deletedBooking: booking });
@@ -0,0 +1,69 @@
+import express from "express";
+import {
+  BuilderSessionError,
+  createBuilderSession,
+  getBuilderSession,
+  getSharedQuote,
+  updateBuilderSession,
+} from "../../services/builderSessions";
+
+const router = express.Router();
+
+// Builder sessions are anonymous: the random sessionId is the edit key and
+// the shareToken only opens the read-only quote
+
+// POST /api/builder-sessions - save a new builder session
+router.post("/", async (req, res) => {
+  try {
+    const session = await createBuilderSession(req.body ?? {});
+    console.log(`🧭 Builder session created for ${session.baseTourSlug}`);
+    res.status(201).json(session);
+  } catch (err) {
+    if (err instanceof BuilderSessionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error creating builder session:", err);
+    res.status(500).json({ error: "Failed to save itinerary" });
+  }
+});
+
+// GET /api/builder-sessions/share/:shareToken - read-only quote for a shared link
+router.get("/share/:shareToken", async (req, res) => {
+  try {
+    res.json(await getSharedQuote(req.params.shareToken));
+  } catch (err) {
+    if (err instanceof BuilderSessionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching shared quote:", err);
+    res.status(500).json({ error: "Failed to load quote" });
+  }
+});
+
+// GET /api/builder-sessions/:sessionId - restore a session in the builder
+router.get("/:sessionId", async (req, res) => {
+  try {
+    res.json(await getBuilderSession(req.params.sessionId));
+  } catch (err) {
+    if (err instanceof BuilderSessionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching builder session:", err);
+    res.status(500).json({ error: "Failed to load itinerary" });
+  }
+});
+
+// PUT /api/builder-sessions/:sessionId - save the builder's current state
+router.put("/:sessionId", async (req, res) => {
+  try {
+    res.json(await updateBuilderSession(req.params.sessionId, req.body ?? {}));
+  } catch (err) {
+    if (err instanceof BuilderSessionError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error updating builder session:", err);
+    res.status(500).json({ error: "Failed to save itinerary" });
+  }
+});
+
+export default router;
@@ -0,0 +1,33 @@
+import crypto from "crypto";
+import express, { Request, Response } from "express";
+import { parseInboundEmail, recordInboundReply } from "../../services/activityFeed";
+
+const router = express.Router();
+
+// Customer replies to staff messages, posted by the mail provider's inbound webhook; see services/activityFeed
+
+function hasWebhookSecret(req: Request): boolean {
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  if (!secret) return false;
+  const given = req.get("x-webhook-secret") ?? (typeof req.query.token === "string" ? req.query.token : "");
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(given);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// POST /api/inbound-email - one received email; the secret goes in X-Webhook-Secret or ?token=
+router.post("/", async (req: Request, res: Response) => {
+  if (!hasWebhookSecret(req)) {
+    return res.status(401).json({ error: "Invalid webhook secret" });
+  }
+  try {
+    // Mail we cannot thread is still acknowledged, so the provider does not keep retrying it
+    const result = await recordInboundReply(parseInboundEmail(req.body));
+    res.status(202).json(result);
+  } catch (err) {
+    console.error("Error recording inbound email:", err);
+    res.status(500).json({ error: "Failed to record inbound email" });
+  }
+});
+
+export default router;
@@ -0,0 +1,38 @@
+import crypto from "crypto";
+import express, { Request, Response } from "express";
+import { requireMetaSignature } from "../../middleware/metaSignature";
+import { ingestWebhook, MessengerWebhookPayload } from "../../services/messengerInbox";
+
+const router = express.Router();
+
+// Meta's Messenger webhook for the Facebook Page; see services/messengerInbox
+
+function matchesVerifyToken(given: unknown): boolean {
+  const token = process.env.META_VERIFY_TOKEN;
+  if (!token || typeof given !== "string") return false;
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(given);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// GET /api/messenger/webhook - subscription check when the webhook is set up in the Meta app
+router.get("/webhook", (req: Request, res: Response) => {
+  if (req.query["hub.mode"] !== "subscribe" || !matchesVerifyToken(req.query["hub.verify_token"])) {
+    return res.status(403).json({ error: "Invalid verify token" });
+  }
+  res.type("text/plain").send(String(req.query["hub.challenge"] ?? ""));
+});
+
+// POST /api/messenger/webhook - message events, signed with X-Hub-Signature-256; the body arrives raw (see index.ts)
+router.post("/webhook", requireMetaSignature, async (req: Request, res: Response) => {
+  try {
+    const result = await ingestWebhook(req.body as MessengerWebhookPayload);
+    res.json({ received: true, ...result });
+  } catch (err) {
+    // A 500 makes Meta retry the delivery; stored messages are skipped the second time
+    console.error("Error ingesting Messenger webhook:", err);
+    res.status(500).json({ error: "Failed to process webhook" });
+  }
+});
+
+export default router;
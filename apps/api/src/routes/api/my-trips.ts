@@ -0,0 +1,162 @@
+import express, { Response } from "express";
+import { requireAuth, AuthenticatedRequest } from "../../middleware/auth";
+import { logAuditEvent } from "../../middleware/auditLog";
+import {
+  CustomerTripError,
+  attachTripDocument,
+  getCustomerBooking,
+  getCustomerTrip,
+  getTripCancellationQuote,
+  listCustomerTrips,
+  requestTripCancellation,
+  updateTripTravellers,
+} from "../../services/customerTrips";
+import { CancellationError } from "../../services/cancellationService";
+import { TravellerManifestError } from "../../services/travellerManifest";
+import { renderBookingConfirmation } from "../../services/emailService";
+
+const router = express.Router();
+
+// Every route is the signed-in customer's own bookings; see services/customerTrips
+
+// GET /api/my-trips - the customer's bookings with balance and document status
+router.get("/", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await listCustomerTrips(req.user!.id));
+  } catch (err) {
+    if (err instanceof CustomerTripError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching trips:", err);
+    res.status(500).json({ error: "Failed to fetch your trips" });
+  }
+});
+
+// GET /api/my-trips/:bookingId - one trip
+router.get("/:bookingId", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await getCustomerTrip(req.user!.id, req.params.bookingId));
+  } catch (err) {
+    if (err instanceof CustomerTripError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error fetching trip:", err);
+    res.status(500).json({ error: "Failed to fetch trip" });
+  }
+});
+
+// PUT /api/my-trips/:bookingId/travellers - replace traveller details before the cutoff
+router.put("/:bookingId/travellers", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { bookingId } = req.params;
+    const before = await getCustomerBooking(req.user!.id, bookingId);
+    const trip = await updateTripTravellers(req.user!.id, bookingId, req.body?.travellers);
+
+    await logAuditEvent({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      userName: req.user!.fullName,
+      action: 'UPDATE',
+      resource: 'bookings',
+      resourceId: bookingId,
+      req,
+      changes: { before: { travellers: before.travellers ?? [] }, after: { travellers: trip.booking.travellers ?? [] } },
+    });
+
+    res.json(trip);
+  } catch (err) {
+    if (err instanceof CustomerTripError || err instanceof TravellerManifestError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error updating travellers:", err);
+    res.status(500).json({ error: "Failed to update traveller details" });
+  }
+});
+
+// PUT /api/my-trips/:bookingId/documents - attach a passport or visa copy uploaded via /api/upload/document
+router.put("/:bookingId/documents", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { bookingId } = req.params;
+    const { type, url } = req.body as { type?: string; url?: string };
+    const trip = await attachTripDocument(req.user!.id, bookingId, type, url);
+
+    await logAuditEvent({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      userName: req.user!.fullName,
+      action: 'UPDATE',
+      resource: 'bookings',
+      resourceId: bookingId,
+      req,
+      changes: { after: { [`${type}Url`]: url } },
+    });
+
+    res.json(trip);
+  } catch (err) {
+    if (err instanceof CustomerTripError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error attaching travel document:", err);
+    res.status(500).json({ error: "Failed to save document" });
+  }
+});
+
+// GET /api/my-trips/:bookingId/cancellation - refund the customer would get if they cancelled now
+router.get("/:bookingId/cancellation", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await getTripCancellationQuote(req.user!.id, req.params.bookingId));
+  } catch (err) {
+    if (err instanceof CustomerTripError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error building cancellation quote:", err);
+    res.status(500).json({ error: "Failed to load cancellation terms" });
+  }
+});
+
+// POST /api/my-trips/:bookingId/cancellation - { reason }, ask for a cancellation for admin review
+router.post("/:bookingId/cancellation", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { bookingId } = req.params;
+    const summary = await requestTripCancellation(req.user!.id, bookingId, req.body?.reason);
+
+    await logAuditEvent({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      userName: req.user!.fullName,
+      action: 'CREATE',
+      resource: 'cancellations',
+      resourceId: bookingId,
+      req,
+      changes: { after: { reason: summary.reason ?? null, estimate: summary.estimate } },
+    });
+
+    console.log(`🛑 Cancellation requested for booking ${bookingId}`);
+    res.status(201).json(summary);
+  } catch (err) {
+    if (err instanceof CustomerTripError || err instanceof CancellationError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error requesting cancellation:", err);
+    res.status(500).json({ error: "Failed to request cancellation" });
+  }
+});
+
+// GET /api/my-trips/:bookingId/confirmation - booking confirmation as a downloadable page
+router.get("/:bookingId/confirmation", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const booking = await getCustomerBooking(req.user!.id, req.params.bookingId);
+    const confirmation = await renderBookingConfirmation(booking);
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="booking-${booking.bookingId}.html"`);
+    res.send(confirmation.html);
+  } catch (err) {
+    if (err instanceof CustomerTripError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error rendering booking confirmation:", err);
+    res.status(500).json({ error: "Failed to prepare confirmation" });
+  }
+});
+
+export default router;
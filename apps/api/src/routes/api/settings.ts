@@ -1,5 +1,6 @@
 import express from 'express';
 import { Settings } from '../../models/Settings';
+import { getCancellationPolicy } from '../../services/cancellationService';
 
 const router = express.Router();
 
@@ -42,4 +43,15 @@ router.get('/addons', async (req, res) => {
   }
 });
 
+// GET /api/settings/cancellation-policy - Public refund tiers shown before a customer cancels
+router.get('/cancellation-policy', async (req, res) => {
+  try {
+    const policy = await getCancellationPolicy();
+    res.json({ success: true, policy });
+  } catch (error) {
+    console.error('Error fetching public cancellation policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch cancellation policy' });
+  }
+});
+
 export default router;
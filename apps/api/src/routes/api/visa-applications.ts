@@ -1,15 +1,63 @@
 import express from 'express';
 import VisaApplication from '../../models/VisaApplication';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
+import { logAuditEvent } from '../../middleware/auditLog';
+import { autoAssignInBackground } from '../../services/assignmentQueues';
+import { normalizeEmailLocale } from '../../services/emailTemplates';
+import {
+  VisaApplicationError,
+  applicationNationality,
+  attachVisaDocument,
+  initialVisaChecklist,
+  listCustomerVisaApplications,
+} from '../../services/visaApplications';
 
 const router = express.Router();
 
+// GET /api/visa-applications/mine — the signed-in customer's applications with their document checklists
+router.get('/mine', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json({ success: true, applications: await listCustomerVisaApplications(req.user!.id) });
+  } catch (error) {
+    console.error('Error fetching customer visa applications:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch your visa applications' });
+  }
+});
+
+// PUT /api/visa-applications/:applicationId/documents/:itemKey — attach a file uploaded via /api/upload/document
+router.put('/:applicationId/documents/:itemKey', requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { applicationId, itemKey } = req.params;
+    const application = await attachVisaDocument(req.user!.id, applicationId, itemKey, req.body?.url);
+
+    await logAuditEvent({
+      userId: req.user!.id,
+      userEmail: req.user!.email,
+      userName: req.user!.fullName,
+      action: 'UPDATE',
+      resource: 'visa-applications',
+      resourceId: applicationId,
+      req,
+      changes: { after: { item: itemKey, fileUrl: req.body?.url } },
+    });
+
+    res.json({ success: true, application });
+  } catch (error) {
+    if (error instanceof VisaApplicationError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error('Error attaching visa document:', error);
+    res.status(500).json({ success: false, error: 'Failed to attach document' });
+  }
+});
+
 // POST /api/visa-applications — submit from public visa assistance form
 router.post('/', async (req, res) => {
   try {
     const {
       completeName, passportNumber, civilStatus, contactNumber, emailAddress,
       presentAddress, travelHistory, companyName, jobTitle, companyLocation,
-      dateHiredOrStarted, destinationCountries, bookingId, tourTitle,
+      dateHiredOrStarted, destinationCountries, bookingId, tourTitle, nationality, locale,
     } = req.body;
 
     if (!completeName) {
@@ -20,6 +68,7 @@ router.post('/', async (req, res) => {
     const randomSuffix = Math.random().toString(36).slice(2, 8).toUpperCase();
     const applicationId = `VA-${year}-${randomSuffix}`;
 
+    const applicantNationality = applicationNationality(nationality);
     const application = await VisaApplication.create({
       applicationId,
       applicationDate: new Date().toISOString().split('T')[0],
@@ -28,7 +77,11 @@ router.post('/', async (req, res) => {
       completeName, passportNumber, civilStatus, contactNumber, emailAddress,
       presentAddress, travelHistory, companyName, jobTitle, companyLocation,
       dateHiredOrStarted, destinationCountries, bookingId, tourTitle,
+      nationality: applicantNationality,
+      locale: normalizeEmailLocale(locale),
+      checklist: await initialVisaChecklist({ destinationCountries, bookingId, nationality: applicantNationality }),
     });
+    autoAssignInBackground('visa-applications', String(application._id));
 
     res.status(201).json({ success: true, application });
   } catch (error) {
@@ -4,18 +4,28 @@ import { hashPassword, verifyPassword } from '../utils/passwordService';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { sendVerificationEmail } from '../services/emailService';
+import { normalizeEmailLocale } from '../services/emailTemplates';
 import logger from '../utils/logger';
 import * as tokenService from '../services/tokenService';
+import { claimGuestBookings } from '../services/customerTrips';
+import { getRolePermissions, roleHasPermission } from '../services/permissions';
+import { optionalAuth, AuthenticatedRequest } from '../middleware/auth';
 
 const router = express.Router();
 
 // POST /auth/register
-router.post('/register', async (req, res) => {
+router.post('/register', optionalAuth, async (req: AuthenticatedRequest, res) => {
   try {
-  const { email, password, fullName, role, phone, birthDate, gender } = req.body;
+  const { email, password, fullName, role, phone, birthDate, gender, locale } = req.body;
   if (!email || !password || !fullName) {
     return res.status(400).json({ error: 'Email, password, and full name are required' });
   }
+  // Staff accounts are created from User Management; public sign-ups are always customers
+  if (role && role !== 'client') {
+    if (!req.user || !(await roleHasPermission(req.user.role, ['canAccessUserManagement']))) {
+      return res.status(403).json({ error: 'Access denied. Your role does not allow this action.' });
+    }
+  }
   const existing = await User.findOne({ email });
   if (existing) {
     return res.status(409).json({ error: 'Email already registered' });
@@ -42,7 +52,7 @@ router.post('/register', async (req, res) => {
 
   // Send verification email
   try {
-    const emailResult = await sendVerificationEmail(email, fullName, verificationToken);
+    const emailResult = await sendVerificationEmail(email, fullName, verificationToken, normalizeEmailLocale(locale));
     if (!emailResult.success) {
       logger.error('Failed to send verification email:', emailResult.error);
     }
@@ -94,6 +104,10 @@ router.get('/verify-email', async (req, res) => {
     user.emailVerificationToken = undefined;
     user.emailVerificationExpires = undefined;
     await user.save();
+
+    // Guest bookings made with this address now belong to the account
+    const claimed = await claimGuestBookings(user._id.toString());
+    if (claimed > 0) logger.info(`Linked ${claimed} guest booking(s) to ${user.email}`);
     
     // Generate access and refresh tokens
     const ipAddress = req.ip || req.socket.remoteAddress;
@@ -135,7 +149,7 @@ router.get('/verify-email', async (req, res) => {
 
 // POST /auth/resend-verification
 router.post('/resend-verification', async (req, res) => {
-  const { email } = req.body;
+  const { email, locale } = req.body;
   
   if (!email) {
     return res.status(400).json({ error: 'Email is required' });
@@ -162,7 +176,7 @@ router.post('/resend-verification', async (req, res) => {
     
     // Send verification email
     logger.info(`Attempting to send verification email to: ${email}`);
-    const emailResult = await sendVerificationEmail(email, user.fullName, verificationToken);
+    const emailResult = await sendVerificationEmail(email, user.fullName, verificationToken, normalizeEmailLocale(locale));
     
     if (!emailResult.success) {
       logger.error(`Email sending failed: ${emailResult.error}`);
@@ -207,6 +221,7 @@ router.get('/me', async (req, res) => {
       email: user.email,
       fullName: user.fullName,
       role: user.role,
+      permissions: await getRolePermissions(user.role),
       isActive: user.isActive,
       phone: user.phone,
       birthDate: user.birthDate,
@@ -291,6 +306,7 @@ router.post('/login', async (req, res) => {
       email: user.email,
       fullName: user.fullName,
       role: user.role,
+      permissions: await getRolePermissions(user.role),
       isActive: user.isActive,
       isEmailVerified: user.isEmailVerified,
     },
@@ -304,7 +320,7 @@ router.post('/login', async (req, res) => {
 // POST /auth/forgot-password
 router.post('/forgot-password', async (req, res) => {
   try {
-    const { email } = req.body;
+    const { email, locale } = req.body;
 
     if (!email) {
       return res.status(400).json({ error: 'Email is required' });
@@ -332,7 +348,7 @@ router.post('/forgot-password', async (req, res) => {
     // Send reset email
     try {
       const emailService = await import('../services/emailService');
-      const emailResult = await emailService.sendPasswordResetEmail(email, user.fullName, resetUrl);
+      const emailResult = await emailService.sendPasswordResetEmail(email, user.fullName, resetUrl, normalizeEmailLocale(locale));
       if (!emailResult.success) {
         logger.error('Failed to send password reset email:', emailResult.error);
         return res.status(500).json({ error: 'Failed to send reset email' });
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import Country from '../models/Country';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import mongoose from 'mongoose';
 
 const router = Router();
@@ -84,7 +85,7 @@ router.get('/:slug', async (req: Request, res: Response) => {
 });
 
 // Create new country (admin)
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireAuth, requirePermission('canManageContent'), async (req: Request, res: Response) => {
   try {
     console.log('[Country POST] Creating country with data:', JSON.stringify(req.body, null, 2));
     console.log('[Country POST] MongoDB connection state:', mongoose.connection.readyState);
@@ -163,7 +164,7 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // Update country (admin)
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', requireAuth, requirePermission('canManageContent'), async (req: Request, res: Response) => {
   try {
     // @ts-expect-error - Mongoose model type complexity issue
     const country = await Country.findByIdAndUpdate(
@@ -190,7 +191,7 @@ router.put('/:id', async (req: Request, res: Response) => {
 });
 
 // Delete country (admin)
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', requireAuth, requirePermission('canManageContent'), async (req: Request, res: Response) => {
   try {
     // @ts-expect-error - Mongoose model type complexity issue
     const country = await Country.findByIdAndDelete(req.params.id);
@@ -205,7 +206,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
 });
 
 // Add attraction to country
-router.post('/:id/attractions', async (req: Request, res: Response) => {
+router.post('/:id/attractions', requireAuth, requirePermission('canManageContent'), async (req: Request, res: Response) => {
   try {
     // @ts-expect-error - Mongoose model type complexity issue
     const country = await Country.findById(req.params.id);
@@ -223,7 +224,7 @@ router.post('/:id/attractions', async (req: Request, res: Response) => {
 });
 
 // Update attraction
-router.put('/:id/attractions/:attractionId', async (req: Request, res: Response) => {
+router.put('/:id/attractions/:attractionId', requireAuth, requirePermission('canManageContent'), async (req: Request, res: Response) => {
   try {
     // @ts-expect-error - Mongoose model type complexity issue
     const country = await Country.findById(req.params.id);
@@ -246,7 +247,7 @@ router.put('/:id/attractions/:attractionId', async (req: Request, res: Response)
 });
 
 // Delete attraction
-router.delete('/:id/attractions/:attractionId', async (req: Request, res: Response) => {
+router.delete('/:id/attractions/:attractionId', requireAuth, requirePermission('canManageContent'), async (req: Request, res: Response) => {
   try {
     // @ts-expect-error - Mongoose model type complexity issue
     const country = await Country.findById(req.params.id);
@@ -264,7 +265,7 @@ router.delete('/:id/attractions/:attractionId', async (req: Request, res: Respon
 });
 
 // Add testimonial to country
-router.post('/:id/testimonials', async (req: Request, res: Response) => {
+router.post('/:id/testimonials', requireAuth, requirePermission('canManageContent'), async (req: Request, res: Response) => {
   try {
     // @ts-expect-error - Mongoose model type complexity issue
     const country = await Country.findById(req.params.id);
@@ -282,7 +283,7 @@ router.post('/:id/testimonials', async (req: Request, res: Response) => {
 });
 
 // Update testimonial
-router.put('/:id/testimonials/:testimonialId', async (req: Request, res: Response) => {
+router.put('/:id/testimonials/:testimonialId', requireAuth, requirePermission('canManageContent'), async (req: Request, res: Response) => {
   try {
     // @ts-expect-error - Mongoose model type complexity issue
     const country = await Country.findById(req.params.id);
@@ -305,7 +306,7 @@ router.put('/:id/testimonials/:testimonialId', async (req: Request, res: Respons
 });
 
 // Delete testimonial
-router.delete('/:id/testimonials/:testimonialId', async (req: Request, res: Response) => {
+router.delete('/:id/testimonials/:testimonialId', requireAuth, requirePermission('canManageContent'), async (req: Request, res: Response) => {
   try {
     // @ts-expect-error - Mongoose model type complexity issue
     const country = await Country.findById(req.params.id);
@@ -1,5 +1,6 @@
 import express from 'express';
 import HomepageSettings from '../models/HomepageSettings';
+import { requireAuth, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -22,7 +23,7 @@ router.get('/', async (req, res) => {
 });
 
 // Update homepage settings
-router.put('/', async (req, res) => {
+router.put('/', requireAuth, requirePermission('canManageContent'), async (req, res) => {
   try {
     const { statistics, hero, features, testimonials, logo } = req.body;
     
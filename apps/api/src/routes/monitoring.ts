@@ -3,6 +3,7 @@ import axios from 'axios';
 import mongoose from 'mongoose';
 import Tour from '../models/Tour';
 import Country from '../models/Country';
+import { requireAuth, requirePermission } from '../middleware/auth';
 
 const router = Router();
 const CountryModel = Country as mongoose.Model<Record<string, unknown>>;
@@ -484,7 +485,7 @@ router.get('/scan', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/quick-fix', async (req: Request, res: Response) => {
+router.post('/quick-fix', requireAuth, requirePermission('canManageSystem'), async (req: Request, res: Response) => {
   try {
     const action = req.body?.action as QuickFixAction | undefined;
 
@@ -1,11 +1,19 @@
 import express, { Request, Response } from "express";
 import Booking from "../models/Booking";
+import { canTransition, recordStatusEvent, transitionBookingStatus } from "../services/bookingStatus";
+import { recordBookingPayment } from "../services/installmentService";
+import { updateRefundStatus } from "../services/cancellationService";
+import PaymongoWebhookEvent from "../models/PaymongoWebhookEvent";
+import { requirePaymongoSignature } from "../middleware/paymongoSignature";
 
 const router = express.Router();
 
 // PayMongo API Configuration
 const PAYMONGO_SECRET_KEY = process.env.PAYMONGO_SECRET_KEY || '';
-const PAYMONGO_API_BASE = 'https://api.paymongo.com/v1';
+// Overridable so the flow can run against scripts/fake-paymongo-server.cjs
+const PAYMONGO_API_BASE = process.env.PAYMONGO_API_BASE || 'https://api.paymongo.com/v1';
+// An event left "processing" this long is assumed to have crashed and may be retried
+const STALE_WEBHOOK_EVENT_MS = 10 * 60 * 1000;
 
 // Helper to create Basic Auth header
 function getPayMongoAuthHeader(): string {
@@ -332,7 +340,7 @@ router.get('/payment-methods', async (_req: Request, res: Response) => {
  */
 router.post('/source', async (req: Request, res: Response) => {
   try {
-    const { type, amount, currency = 'PHP', redirect: redirectUrls } = req.body;
+    const { type, amount, currency = 'PHP', redirect: redirectUrls, metadata } = req.body;
 
     if (!type || !amount) {
       return res.status(400).json({ error: 'Type and amount are required' });
@@ -365,6 +373,8 @@ router.post('/source', async (req: Request, res: Response) => {
               success: redirectUrls?.success || `${process.env.CLIENT_URL}/booking/success`,
               failed: redirectUrls?.failed || `${process.env.CLIENT_URL}/booking/failed`,
             },
+            // Copied onto the payment when the source becomes chargeable
+            ...(metadata ? { metadata } : {}),
           }
         }
       })
@@ -399,65 +409,194 @@ router.post('/source', async (req: Request, res: Response) => {
   }
 });
 
+interface WebhookResource {
+  id: string;
+  attributes?: {
+    amount?: number;
+    currency?: string;
+    description?: string;
+    metadata?: Record<string, string>;
+    [key: string]: unknown;
+  };
+}
+
 /**
- * POST /api/paymongo/webhook
- * Handle PayMongo webhooks
+ * Charge a source the customer has authorized (GCash / GrabPay). PayMongo
+ * follows up with a payment.paid or payment.failed event for the new payment.
  */
-router.post('/webhook', async (req: Request, res: Response) => {
-  try {
-    const event = req.body;
-
-    console.log('📨 PayMongo webhook received:', event.data?.attributes?.type);
-
-    // Handle different event types
-    switch (event.data?.attributes?.type) {
-      case 'payment.paid': {
-        const paymentData = event.data.attributes.data;
-        const meta = paymentData?.attributes?.metadata || {};
-        const bookingId = meta.bookingId;
-        const paidAmount = paymentData?.attributes?.amount
-          ? paymentData.attributes.amount / 100 // centavos → pesos
-          : undefined;
-        console.log('✅ Payment confirmed:', paymentData?.id, '| bookingId:', bookingId);
-        if (bookingId) {
-          const booking = await Booking.findOne({ bookingId });
-          if (booking) {
-            const updateFields: Record<string, unknown> = { status: 'confirmed' };
-            if (paidAmount !== undefined) updateFields.paidAmount = paidAmount;
-            if (paymentData?.id) updateFields.paymentIntentId = paymentData.id;
-            await Booking.findOneAndUpdate({ bookingId }, { $set: updateFields }, { new: true });
-            console.log('✅ Booking', bookingId, 'updated to confirmed');
+async function createPaymentFromSource(source: WebhookResource): Promise<string | undefined> {
+  const attributes = source.attributes || {};
+  const response = await fetch(`${PAYMONGO_API_BASE}/payments`, {
+    method: 'POST',
+    headers: {
+      'Authorization': getPayMongoAuthHeader(),
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify({
+      data: {
+        attributes: {
+          amount: attributes.amount,
+          currency: attributes.currency || 'PHP',
+          source: { id: source.id, type: 'source' },
+          description: attributes.description || 'Tour Booking Payment',
+          statement_descriptor: 'DISCOVERGRP',
+          metadata: attributes.metadata || {},
+        }
+      }
+    })
+  });
+
+  const data = await response.json() as {
+    data?: { id: string; attributes: Record<string, unknown> };
+    errors?: Array<{ detail: string }>;
+  };
+
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.detail || `Failed to charge source ${source.id}`);
+  }
+  return data.data?.id;
+}
+
+async function handleWebhookEvent(type: string, resource: WebhookResource | undefined): Promise<void> {
+  switch (type) {
+    case 'payment.paid': {
+      const meta = resource?.attributes?.metadata || {};
+      const bookingId = meta.bookingId;
+      const paidAmount = resource?.attributes?.amount
+        ? resource.attributes.amount / 100 // centavos → pesos
+        : undefined;
+      console.log('✅ Payment confirmed:', resource?.id, '| bookingId:', bookingId);
+      if (bookingId && resource?.id && paidAmount !== undefined) {
+        const exists = await Booking.exists({ bookingId });
+        if (exists) {
+          const updated = await recordBookingPayment(bookingId, {
+            paymentId: resource.id,
+            amount: paidAmount,
+            actor: { type: 'payment_gateway', name: 'PayMongo' },
+            reason: `Payment ${resource.id} received`,
+            paymentIntentId: resource.id,
+          });
+          if (updated) {
+            console.log('✅ Booking', bookingId, 'updated to', updated.status, '| paid', updated.paidAmount);
           } else {
-            console.warn('⚠️ Booking not found for bookingId:', bookingId);
+            console.log('ℹ️ Payment', resource.id, 'was already recorded for booking', bookingId);
           }
+        } else {
+          console.warn('⚠️ Booking not found for bookingId:', bookingId);
         }
-        break;
       }
-      case 'payment.failed': {
-        const paymentData = event.data.attributes.data;
-        const meta = paymentData?.attributes?.metadata || {};
-        const bookingId = meta.bookingId;
-        console.log('❌ Payment failed:', paymentData?.id, '| bookingId:', bookingId);
-        if (bookingId) {
-          await Booking.findOneAndUpdate({ bookingId }, { $set: { status: 'payment_failed' } });
-          console.log('📝 Booking', bookingId, 'marked as payment_failed');
+      break;
+    }
+    case 'payment.failed': {
+      const meta = resource?.attributes?.metadata || {};
+      const bookingId = meta.bookingId;
+      console.log('❌ Payment failed:', resource?.id, '| bookingId:', bookingId);
+      if (bookingId) {
+        const actor = { type: 'payment_gateway' as const, name: 'PayMongo' };
+        const reason = resource?.id ? `Payment ${resource.id} failed` : 'Payment failed';
+        const booking = await Booking.findOne({ bookingId }).select('status').lean();
+        if (booking && canTransition(booking.status, 'awaiting_payment')) {
+          await transitionBookingStatus(bookingId, 'awaiting_payment', { actor, reason });
+        } else {
+          await recordStatusEvent(bookingId, actor, reason);
         }
-        break;
+        console.log('📝 Booking', bookingId, 'payment failure recorded');
       }
-      
-      case 'source.chargeable':
-        console.log('⚡ Source chargeable:', event.data.attributes.data.id);
-        // TODO: Create charge for the source
-        break;
-      
-      default:
-        console.log('ℹ️ Unhandled webhook type:', event.data?.attributes?.type);
+      break;
+    }
+
+    case 'source.chargeable': {
+      if (!resource?.id) break;
+      console.log('⚡ Source chargeable:', resource.id);
+      const paymentId = await createPaymentFromSource(resource);
+      console.log('✅ Charge created for source', resource.id, '→', paymentId);
+      break;
+    }
+
+    case 'payment.refund.updated': {
+      // Refunds are created as pending by the cancellation workflow
+      const status = resource?.attributes?.status;
+      if (resource?.id && (status === 'succeeded' || status === 'failed')) {
+        await updateRefundStatus(resource.id, status, status === 'failed' ? 'Refund failed at PayMongo' : undefined);
+        console.log('💸 Refund', resource.id, status);
+      }
+      break;
+    }
+
+    default:
+      console.log('ℹ️ Unhandled webhook type:', type);
+  }
+}
+
+/**
+ * Record that an event is being processed. Returns false when the event was
+ * already handled (or is being handled) so retried deliveries are no-ops;
+ * events whose earlier attempt failed or stalled may be processed again.
+ */
+async function claimWebhookEvent(eventId: string, type: string, livemode: boolean): Promise<boolean> {
+  try {
+    await PaymongoWebhookEvent.create({ eventId, type, livemode });
+    return true;
+  } catch (error: unknown) {
+    if ((error as { code?: number })?.code !== 11000) throw error;
+    const retry = await PaymongoWebhookEvent.findOneAndUpdate(
+      {
+        eventId,
+        $or: [
+          { status: 'failed' },
+          { status: 'processing', updatedAt: { $lt: new Date(Date.now() - STALE_WEBHOOK_EVENT_MS) } },
+        ],
+      },
+      { $set: { status: 'processing' }, $inc: { attempts: 1 } },
+      { new: true }
+    );
+    return !!retry;
+  }
+}
+
+/**
+ * POST /api/paymongo/webhook
+ * Handle PayMongo webhooks. The body arrives raw (see index.ts) so the
+ * Paymongo-Signature header can be verified before anything is trusted.
+ */
+router.post('/webhook', requirePaymongoSignature, async (req: Request, res: Response) => {
+  const event = req.body;
+  const eventId: string | undefined = event.data?.id;
+  const type: string | undefined = event.data?.attributes?.type;
+
+  if (!eventId || !type) {
+    return res.status(400).json({ error: 'Invalid webhook event' });
+  }
+
+  try {
+    console.log('📨 PayMongo webhook received:', type, eventId);
+
+    const claimed = await claimWebhookEvent(eventId, type, event.data.attributes.livemode === true);
+    if (!claimed) {
+      console.log('🔁 Duplicate PayMongo webhook ignored:', eventId);
+      return res.status(200).json({ received: true, duplicate: true });
+    }
+
+    try {
+      await handleWebhookEvent(type, event.data.attributes.data);
+    } catch (error: unknown) {
+      await PaymongoWebhookEvent.updateOne(
+        { eventId },
+        { $set: { status: 'failed', lastError: error instanceof Error ? error.message : String(error) } }
+      );
+      throw error;
     }
 
-    // Always return 200 to acknowledge receipt
+    await PaymongoWebhookEvent.updateOne(
+      { eventId },
+      { $set: { status: 'processed', processedAt: new Date() }, $unset: { lastError: 1 } }
+    );
+
     return res.status(200).json({ received: true });
 
   } catch (error: unknown) {
+    // A non-2xx response makes PayMongo retry the delivery
     console.error('❌ Webhook processing error:', error);
     const message = error instanceof Error ? error.message : 'Internal server error';
     return res.status(500).json({ error: message });
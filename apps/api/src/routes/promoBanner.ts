@@ -1,5 +1,6 @@
 import express from 'express';
 import PromoBanner from '../models/PromoBanner';
+import { requireAuth, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -52,7 +53,7 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new promo banner
-router.post('/', async (req, res) => {
+router.post('/', requireAuth, requirePermission('canManageContent'), async (req, res) => {
   try {
     const banner = new PromoBanner(req.body);
     await banner.save();
@@ -64,7 +65,7 @@ router.post('/', async (req, res) => {
 });
 
 // Update promo banner
-router.put('/:id', async (req, res) => {
+router.put('/:id', requireAuth, requirePermission('canManageContent'), async (req, res) => {
   try {
     const banner = await PromoBanner.findByIdAndUpdate(
       req.params.id,
@@ -84,7 +85,7 @@ router.put('/:id', async (req, res) => {
 });
 
 // Toggle banner status
-router.patch('/:id/toggle', async (req, res) => {
+router.patch('/:id/toggle', requireAuth, requirePermission('canManageContent'), async (req, res) => {
   try {
     const banner = await PromoBanner.findById(req.params.id);
     if (!banner) {
@@ -105,7 +106,7 @@ router.patch('/:id/toggle', async (req, res) => {
 });
 
 // Delete promo banner
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireAuth, requirePermission('canManageContent'), async (req, res) => {
   try {
     const banner = await PromoBanner.findByIdAndDelete(req.params.id);
     if (!banner) {
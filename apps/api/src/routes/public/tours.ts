@@ -1,5 +1,8 @@
 import express, { Request, Response } from "express";
-import Tour from "../../models/Tour";
+import Tour, { IDepartureDate } from "../../models/Tour";
+import { getRemainingSeats } from "../../services/seatInventory";
+import { PUBLIC_TOUR_FILTER, verifyPreviewToken } from "../../services/tourPublishing";
+import { TourSearchError, parseTourSearchQuery, searchTours, suggestTours } from "../../services/tourSearch";
 const router = express.Router();
 
 interface LeanTour {
@@ -21,7 +24,12 @@ function normalizeTourForClient(tour: LeanTour): LeanTour {
   };
 }
 
-// GET /public/tours - return tours from MongoDB only
+// Published tours, plus an unpublished one when the request carries a valid preview token
+function visibleTourFilter(req: Request, slug: string) {
+  return verifyPreviewToken(slug, req.query.preview) ? { slug } : { slug, ...PUBLIC_TOUR_FILTER };
+}
+
+// GET /public/tours - return published tours from MongoDB only
 router.get("/", async (req: Request, res: Response) => {
   try {
     const limitParam = typeof req.query.limit === 'string' ? Number(req.query.limit) : undefined;
@@ -29,7 +37,7 @@ router.get("/", async (req: Request, res: Response) => {
       ? Math.min(Math.floor(limitParam as number), 50)
       : undefined;
 
-    const query = Tour.find().sort({ createdAt: -1 });
+    const query = Tour.find(PUBLIC_TOUR_FILTER).sort({ createdAt: -1 });
 
     if (safeLimit) {
       query.limit(safeLimit);
@@ -47,11 +55,59 @@ router.get("/", async (req: Request, res: Response) => {
   }
 });
 
-// GET /public/tours/:slug - return tour by slug from MongoDB only
+// GET /public/tours/search - filtered, sorted, cursor-paginated tours with facet counts
+router.get("/search", async (req: Request, res: Response) => {
+  try {
+    const params = parseTourSearchQuery(req.query as Record<string, unknown>);
+    return res.json(await searchTours(params));
+  } catch (err) {
+    if (err instanceof TourSearchError) {
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+    console.error("Error searching tours:", err);
+    return res.status(500).json({ error: "Failed to search tours" });
+  }
+});
+
+// GET /public/tours/suggest?q= - typeahead over tour titles, cities and countries
+router.get("/suggest", async (req: Request, res: Response) => {
+  const q = typeof req.query.q === "string" ? req.query.q : "";
+  const limit = typeof req.query.limit === "string" ? Number(req.query.limit) : undefined;
+  try {
+    return res.json(await suggestTours(q, limit));
+  } catch (err) {
+    console.error("Error fetching tour suggestions:", err);
+    return res.status(500).json({ error: "Failed to fetch suggestions" });
+  }
+});
+
+// GET /public/tours/:slug/availability - live seat counts per departure
+router.get("/:slug/availability", async (req: Request, res: Response) => {
+  const { slug } = req.params;
+  try {
+    const tour = await Tour.findOne(visibleTourFilter(req, slug)).select('departureDates').lean().exec();
+    if (!tour) return res.status(404).json({ error: "Tour not found" });
+    const departures = ((tour.departureDates ?? []) as IDepartureDate[]).map((d) => ({
+      start: d.start,
+      end: d.end,
+      maxCapacity: d.maxCapacity,
+      currentBookings: d.currentBookings ?? 0,
+      heldSeats: d.heldSeats ?? 0,
+      isAvailable: d.isAvailable !== false,
+      remainingSeats: getRemainingSeats(d),
+    }));
+    return res.json({ slug, departures });
+  } catch (err) {
+    console.error("Error fetching tour availability:", err);
+    return res.status(500).json({ error: "Failed to fetch availability" });
+  }
+});
+
+// GET /public/tours/:slug?preview= - return tour by slug from MongoDB only
 router.get("/:slug", async (req: Request, res: Response) => {
   const { slug } = req.params;
   try {
-    const tour = await Tour.findOne({ slug }).lean().exec();
+    const tour = await Tour.findOne(visibleTourFilter(req, slug)).lean().exec();
     if (tour) return res.json(tour);
     return res.status(404).json({ error: "Tour not found" });
   } catch (err) {
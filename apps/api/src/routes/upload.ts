@@ -1,59 +1,22 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { v2 as cloudinary } from 'cloudinary';
-import { requireAuth, requireAdmin, AuthenticatedRequest } from '../middleware/auth';
-import { Readable } from 'stream';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import {
+  MAX_UPLOAD_BYTES,
+  TRAVEL_DOCUMENT_MIME_TYPES,
+  TRAVEL_DOCUMENT_TYPES,
+  TravelDocumentType,
+  isCloudinaryConfigured,
+  storeTravelDocument,
+  uploadToCloudinary,
+} from '../services/documentStorage';
 
 const router = Router();
 
-//  Cloudinary configuration 
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_API_SECRET,
-  secure: true,
-});
-
-function isCloudinaryConfigured(): boolean {
-  return !!(
-    process.env.CLOUDINARY_CLOUD_NAME &&
-    process.env.CLOUDINARY_API_KEY &&
-    process.env.CLOUDINARY_API_SECRET
-  );
-}
-
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : 'Upload failed';
 }
 
-/**
- * Upload a buffer to Cloudinary and return the secure URL.
- */
-function uploadToCloudinary(
-  buffer: Buffer,
-  options: {
-    folder: string;
-    publicId?: string;
-    resourceType?: 'image' | 'video' | 'raw' | 'auto';
-    mimeType?: string;
-  }
-): Promise<{ url: string; publicId: string }> {
-  return new Promise((resolve, reject) => {
-    const uploadStream = cloudinary.uploader.upload_stream(
-      {
-        folder: options.folder,
-        public_id: options.publicId,
-        resource_type: options.mimeType === 'application/pdf' ? 'raw' : (options.resourceType ?? 'auto'),
-      },
-      (error, result) => {
-        if (error || !result) return reject(error ?? new Error('Cloudinary upload failed'));
-        resolve({ url: result.secure_url, publicId: result.public_id });
-      }
-    );
-    Readable.from(buffer).pipe(uploadStream);
-  });
-}
-
 //  Multer configs 
 
 // Images + videos (admin only)
@@ -73,10 +36,9 @@ const upload = multer({
 // Documents (any authenticated user)
 const uploadDocument = multer({
   storage: multer.memoryStorage(),
-  limits: { fileSize: 10 * 1024 * 1024 },
+  limits: { fileSize: MAX_UPLOAD_BYTES },
   fileFilter: (_req, file, cb) => {
-    const allowed = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-    if (allowed.includes(file.mimetype)) cb(null, true);
+    if (TRAVEL_DOCUMENT_MIME_TYPES.includes(file.mimetype)) cb(null, true);
     else cb(new Error('Invalid file type. Only PDF and images are allowed.'));
   },
 });
@@ -85,12 +47,12 @@ const uploadDocument = multer({
 
 /**
  * Upload a single image/video to Cloudinary.
- * Admin only.
+ * Staff who edit tours or site content.
  */
 router.post(
   '/single',
   requireAuth,
-  requireAdmin,
+  requirePermission('canEditTours', 'canManageContent'),
   upload.single('file'),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -125,12 +87,12 @@ router.post(
 
 /**
  * Upload multiple images/videos to Cloudinary.
- * Admin only.
+ * Staff who edit tours or site content.
  */
 router.post(
   '/multiple',
   requireAuth,
-  requireAdmin,
+  requirePermission('canEditTours', 'canManageContent'),
   upload.array('files', 10),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -189,35 +151,18 @@ router.post(
       }
 
       const docType = (req.body as { type?: string }).type || 'passport';
-      if (!['passport', 'visa'].includes(docType)) {
+      if (!TRAVEL_DOCUMENT_TYPES.includes(docType as TravelDocumentType)) {
         res.status(400).json({ error: 'Invalid document type. Use "passport" or "visa".' });
         return;
       }
 
       const userId = req.user?.id || 'guest';
-
-      //  Graceful fallback when Cloudinary is not yet configured 
-      if (!isCloudinaryConfigured()) {
-        const stubFileName = `documents/${docType}s/${userId}/${Date.now()}.stub`;
-        console.warn('[Cloudinary Document Upload] Not configured  returning stub URL.', {
-          docType, userId, size: req.file.size,
-        });
-        res.json({
-          success: true,
-          url: `/uploads/stub/${stubFileName}`,
-          publicId: stubFileName,
-          size: req.file.size,
-          type: req.file.mimetype,
-          stub: true,
-        });
+      const { url, publicId, stub } = await storeTravelDocument(req.file, docType as TravelDocumentType, userId);
+      if (stub) {
+        res.json({ success: true, url, publicId, size: req.file.size, type: req.file.mimetype, stub: true });
         return;
       }
 
-      const { url, publicId } = await uploadToCloudinary(req.file.buffer, {
-        folder: `discovergrp/documents/${docType}s/${userId}`,
-        mimeType: req.file.mimetype,
-      });
-
       console.log('[Cloudinary Document Upload] Success:', { docType, publicId, userId, size: req.file.size });
       res.json({ success: true, url, publicId, size: req.file.size, type: req.file.mimetype });
     } catch (error: unknown) {
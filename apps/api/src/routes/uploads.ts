@@ -3,6 +3,7 @@ import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { uploadBufferToS3 } from "../lib/s3Upload";
+import { requireAuth, requirePermission } from "../middleware/auth";
 
 const router = express.Router();
 
@@ -28,7 +29,7 @@ const upload = multer({
   }
 });
 
-router.post("/", upload.single("file"), async (req, res) => {
+router.post("/", requireAuth, requirePermission("canEditTours", "canManageContent"), upload.single("file"), async (req, res) => {
   try {
     // If STORAGE_PROVIDER === 's3' and s3 helper is available, upload to S3
     if (process.env.STORAGE_PROVIDER === "s3" && req.file) {
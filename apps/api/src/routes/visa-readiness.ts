@@ -1,11 +1,13 @@
 import { Router, Request, Response } from 'express';
 import Booking from '../models/Booking';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { spawn } from 'child_process';
 import path from 'path';
 import {
+  DEFAULT_NATIONALITY,
   evaluateVisaReadiness,
   resolveRulesForCountries,
-  resolveTourCountries,
+  resolveTourItinerary,
   VisaReadinessInput,
 } from '../services/visa-readiness';
 
@@ -118,7 +120,7 @@ const runMigrationScript = async (dryRun: boolean): Promise<{
   });
 };
 
-router.post('/migration/run', async (req: Request, res: Response) => {
+router.post('/migration/run', requireAuth, requirePermission('canManageSystem'), async (req: Request, res: Response) => {
   if (!isFeatureEnabled()) {
     return res.status(503).json({
       ok: false,
@@ -347,13 +349,20 @@ router.get('/rules/:tourSlug', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'tourSlug is required' });
     }
 
-    const countries = await resolveTourCountries(tourSlug);
-    const rules = resolveRulesForCountries(countries);
+    const nationality = typeof req.query.nationality === 'string' && req.query.nationality.trim()
+      ? req.query.nationality.trim().toLowerCase()
+      : DEFAULT_NATIONALITY;
+    const departureDate = typeof req.query.departureDate === 'string' ? new Date(req.query.departureDate) : new Date();
+    const onDate = Number.isNaN(departureDate.getTime()) ? new Date() : departureDate;
+
+    const { countries, transitCountries } = await resolveTourItinerary(tourSlug);
+    const rules = await resolveRulesForCountries(countries, nationality, onDate, transitCountries);
 
     return res.json({
       tourSlug,
-      nationality: typeof req.query.nationality === 'string' ? req.query.nationality : undefined,
+      nationality,
       countries,
+      transitCountries,
       rules,
       resolvedAt: new Date().toISOString(),
     });
@@ -0,0 +1,206 @@
+import { describe, expect, it } from '@jest/globals';
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { ITour } from '../../models/Tour';
+import { BrochureField, BrochureParseResult, diffBrochureAgainstTour, parseBrochureText } from '../brochureParser';
+
+// Brochure text as the sales team pastes it into the tour form
+const brochure = (name: string) => readFileSync(path.join(__dirname, 'fixtures', 'brochures', `${name}.txt`), 'utf8');
+
+const field = (result: BrochureParseResult, name: BrochureField) => result.fields.find((parsed) => parsed.field === name);
+
+describe('parseBrochureText', () => {
+  describe('a complete brochure', () => {
+    const result = parseBrochureText(brochure('route-a-preferred'));
+
+    it('reads the title, duration and route line', () => {
+      expect(result.draft).toMatchObject({
+        title: 'Route A Preferred',
+        durationDays: 15,
+        line: 'ROUTE_A',
+        slug: 'route-a-preferred-15-days',
+      });
+      expect(field(result, 'title')?.confidence).toBe('high');
+      expect(field(result, 'slug')?.confidence).toBe('high');
+      expect(field(result, 'continent')).toBeUndefined();
+    });
+
+    it('groups booking links by year, including the misspelt "Liks for" line', () => {
+      expect(result.draft.bookingLinks).toEqual([
+        { year: '2026', urls: ['https://bit.ly/ROUTEAPREF_MAR-JUNE2026', 'https://bit.ly/ROUTEAPREF_OCT-NOV2026'] },
+        { year: '2027', urls: ['https://bit.ly/ROUTEAPREF_MAR-APR2027'] },
+      ]);
+    });
+
+    it('reads priced departures within and across months', () => {
+      expect(result.draft.departureDates).toEqual([
+        { start: '2026-05-13', end: '2026-05-27', price: 170000 },
+        { start: '2026-05-25', end: '2026-06-08', price: 170000 },
+        { start: '2026-10-07', end: '2026-10-21', price: 170000 },
+      ]);
+      expect(field(result, 'departureDates')?.confidence).toBe('high');
+      expect(result.draft.travelWindow).toEqual({ start: '2026-05-13', end: '2026-10-21' });
+      expect(result.draft.regularPricePerPerson).toBe(170000);
+      expect(field(result, 'regularPricePerPerson')?.confidence).toBe('high');
+    });
+
+    it('reads optional tours with the flat promo', () => {
+      const promo = { regularPrice: 0, promoEnabled: true, promoType: 'flat', promoValue: 5000 };
+      expect(result.draft.optionalTours).toEqual([
+        { day: 4, title: 'Disneyland Paris Tour', ...promo },
+        { day: 7, title: 'Jungfraujoch Excursion', ...promo },
+        { day: 10, title: 'Gondola Ride in Venice', ...promo },
+      ]);
+      expect(field(result, 'optionalTours')?.confidence).toBe('medium');
+    });
+
+    it('reads countries and cities without running into the next section', () => {
+      expect(result.draft.additionalInfo).toEqual({
+        countriesVisited: ['France', 'Switzerland', 'Italy', 'Vatican City'],
+        countries: [{ name: 'France' }, { name: 'Switzerland' }, { name: 'Italy' }, { name: 'Vatican City' }],
+        citiesToVisit: ['Paris', 'Lucerne', 'Milan', 'Venice', 'Florence', 'Rome'].map((city) => ({ city })),
+      });
+    });
+
+    it('reads full cash freebies and links them to priced add-ons', () => {
+      expect(result.draft.cashFreebies).toEqual([
+        { label: 'Visa Processing and Appointment Fee', type: 'percent_off', value: 50, addOn: 'visa', eligibility: 'full_payment' },
+        { label: 'Philippine Travel Tax', type: 'free', eligibility: 'full_payment' },
+        { label: 'Travel Insurance', type: 'free', addOn: 'insurance', eligibility: 'full_payment' },
+      ]);
+      expect(field(result, 'cashFreebies')?.confidence).toBe('high');
+    });
+
+    it('reads the downpayment and balance terms', () => {
+      expect(result.draft).toMatchObject({
+        allowsDownpayment: true,
+        fixedDownpaymentAmount: 30000,
+        balanceDueDaysBeforeTravel: 45,
+      });
+    });
+
+    it('leaves no lines unread', () => {
+      expect(result.unparsedLines).toEqual([]);
+    });
+
+    it('gives the same result for Windows line endings', () => {
+      expect(parseBrochureText(brochure('route-a-preferred').replace(/\n/g, '\r\n'))).toEqual(result);
+    });
+  });
+
+  describe('a brochure with gaps', () => {
+    const result = parseBrochureText(brochure('japan-korea'));
+
+    it('falls back to the first line for the title and counts the duration from the dates', () => {
+      expect(field(result, 'title')).toMatchObject({ value: 'Japan & Korea Asia Explorer', confidence: 'low' });
+      expect(field(result, 'durationDays')).toMatchObject({ value: 9, confidence: 'medium' });
+      expect(field(result, 'slug')).toMatchObject({ value: 'japan-korea-asia-explorer-9-days', confidence: 'low' });
+      expect(field(result, 'continent')).toMatchObject({ value: 'Asia', confidence: 'low' });
+      expect(field(result, 'line')).toBeUndefined();
+    });
+
+    it('reads "Links <year>:" lines', () => {
+      expect(result.draft.bookingLinks).toEqual([{ year: '2026', urls: ['https://bit.ly/JPKR-2026'] }]);
+    });
+
+    it('keeps unpriced departures and lowers the confidence', () => {
+      expect(result.draft.departureDates).toEqual([
+        { start: '2026-03-28', end: '2026-04-05', price: 89000 },
+        { start: '2026-04-10', end: '2026-04-18', price: 92000 },
+        { start: '2026-11-03', end: '2026-11-11' },
+      ]);
+      expect(field(result, 'departureDates')).toMatchObject({ confidence: 'medium', reason: '1 of 3 date(s) have no "(Php …)" price' });
+      expect(field(result, 'regularPricePerPerson')).toMatchObject({ value: 92000, confidence: 'medium' });
+      expect(result.draft.travelWindow).toEqual({ start: '2026-03-28', end: '2026-11-11' });
+    });
+
+    it('applies the percent promo to optional tours', () => {
+      const promo = { regularPrice: 0, promoEnabled: true, promoType: 'percent', promoValue: 20 };
+      expect(result.draft.optionalTours).toEqual([
+        { day: 3, title: 'Nami Island and Petite France', ...promo },
+        { day: 6, title: 'Tokyo DisneySea', ...promo },
+      ]);
+    });
+
+    it('splits comma-separated countries and leaves out fields that are not in the text', () => {
+      expect(result.draft.additionalInfo).toEqual({
+        countriesVisited: ['Japan', 'South Korea'],
+        countries: [{ name: 'Japan' }, { name: 'South Korea' }],
+      });
+      expect(result.draft).not.toHaveProperty('allowsDownpayment');
+      expect(result.draft).not.toHaveProperty('fixedDownpaymentAmount');
+      expect(result.draft).not.toHaveProperty('balanceDueDaysBeforeTravel');
+    });
+
+    it('lowers the freebie confidence when a line is not understood', () => {
+      expect(result.draft.cashFreebies).toEqual([
+        { label: 'Pocket WiFi', type: 'free', eligibility: 'full_payment' },
+        { label: 'Travel Insurance', type: 'percent_off', value: 10, addOn: 'insurance', eligibility: 'full_payment' },
+      ]);
+      expect(field(result, 'cashFreebies')).toMatchObject({ confidence: 'medium', reason: '1 line(s) in the section were not understood' });
+    });
+
+    it('returns the lines it could not read', () => {
+      expect(result.unparsedLines).toEqual([
+        'Seoul Tower night tour (schedule to be announced)',
+        'Priority seat selection',
+      ]);
+    });
+  });
+
+  it('returns an empty draft for text without a brochure in it', () => {
+    expect(parseBrochureText('')).toEqual({ draft: {}, fields: [], unparsedLines: [] });
+  });
+});
+
+describe('diffBrochureAgainstTour', () => {
+  const parsed = parseBrochureText(brochure('route-a-preferred'));
+
+  // The saved tour: same dates with inventory counters, an older price and slug
+  const savedTour = {
+    title: 'Route A Preferred',
+    slug: 'route-a-preferred',
+    line: 'ROUTE_A',
+    durationDays: 15,
+    regularPricePerPerson: 165000,
+    departureDates: (parsed.draft.departureDates ?? []).map((date, index) => ({
+      ...date,
+      _id: `dep${index}`,
+      maxCapacity: 40,
+      currentBookings: 12,
+    })),
+    additionalInfo: {
+      countriesVisited: ['France', 'Switzerland', 'Italy', 'Vatican City'],
+      citiesToVisit: [{ city: 'Paris' }, { city: 'Rome' }],
+    },
+  } as unknown as Partial<ITour>;
+
+  const diff = diffBrochureAgainstTour(parsed, savedTour);
+  const diffed = (name: BrochureField) => field(diff, name);
+
+  it('does not flag fields that match the saved tour', () => {
+    expect(diffed('title')).toMatchObject({ changed: false, current: 'Route A Preferred' });
+    expect(diffed('durationDays')).toMatchObject({ changed: false, current: 15 });
+    expect(diffed('countriesVisited')?.changed).toBe(false);
+  });
+
+  it('compares departures on dates and prices only', () => {
+    expect(diffed('departureDates')?.changed).toBe(false);
+    expect(diffed('departureDates')?.current).toEqual(parsed.draft.departureDates);
+  });
+
+  it('flags fields that differ and shows the saved value', () => {
+    expect(diffed('regularPricePerPerson')).toMatchObject({ changed: true, current: 165000, value: 170000 });
+    expect(diffed('citiesToVisit')).toMatchObject({ changed: true, current: [{ city: 'Paris' }, { city: 'Rome' }] });
+    expect(diffed('fixedDownpaymentAmount')).toMatchObject({ changed: true, current: null });
+  });
+
+  it('never suggests renaming the slug with confidence', () => {
+    expect(diffed('slug')).toMatchObject({ changed: true, current: 'route-a-preferred', confidence: 'low' });
+  });
+
+  it('keeps the parsed draft and unread lines', () => {
+    expect(diff.draft).toBe(parsed.draft);
+    expect(diff.unparsedLines).toBe(parsed.unparsedLines);
+  });
+});
@@ -0,0 +1,168 @@
+import { afterAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import type { MemoryModel } from '../../testUtils/memoryModel';
+
+jest.mock('../../models/OutboundEmail', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return { __esModule: true, default: createMemoryModel({ defaults: () => ({ attempts: 0, attemptLog: [] }) }) };
+});
+jest.mock('../../models/Role', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return { __esModule: true, default: createMemoryModel({ unique: ['key'] }) };
+});
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), http: jest.fn(), debug: jest.fn() },
+}));
+
+// Signed-in staff member; permissions are still checked against their role
+const mockStaff = { id: 'u1', email: 'ana.reyes@discovergroup.ph', fullName: 'Ana Reyes', role: 'csr_department' };
+jest.mock('../../middleware/auth', () => ({
+  ...jest.requireActual<object>('../../middleware/auth'),
+  requireAuth: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = { ...mockStaff };
+    next();
+  },
+}));
+
+import OutboundEmail from '../../models/OutboundEmail';
+import adminEmailOutboxRouter from '../../routes/admin/email-outbox';
+import logger from '../../utils/logger';
+import { processEmailOutbox, queueEmail } from '../emailOutbox';
+import { IEmailTransport, setEmailTransport } from '../emailTransports';
+
+const outbox = OutboundEmail as unknown as MemoryModel;
+
+const app = express();
+app.use(express.json());
+app.use('/admin/email-outbox', adminEmailOutboxRouter);
+
+const send = jest.fn<IEmailTransport['send']>();
+setEmailTransport({ name: 'test', send });
+
+const queueConfirmation = () => queueEmail({
+  templateKey: 'booking_confirmation',
+  locale: 'en',
+  bookingId: 'BK-1001',
+  from: 'bookings@discovergroup.ph',
+  to: 'maria.santos@example.com',
+  subject: 'Your booking BK-1001 is confirmed',
+  html: '<p>See you on May 13!</p>',
+  text: 'See you on May 13!',
+  maxAttempts: 3,
+});
+
+// Move every pending retry into the past, as if its delay had passed
+const letRetriesFallDue = () => {
+  outbox.docs.filter((doc) => doc.status === 'queued').forEach((doc) => { doc.nextAttemptAt = new Date(Date.now() - 1000); });
+};
+
+const email = () => outbox.docs[0];
+const minutesUntilRetry = () => Math.round((email().nextAttemptAt.getTime() - Date.now()) / 60000);
+
+describe('email outbox', () => {
+  beforeEach(() => {
+    outbox.reset();
+    send.mockReset();
+    mockStaff.role = 'csr_department';
+  });
+
+  afterAll(() => {
+    setEmailTransport(null);
+  });
+
+  it('sends through a healthy transport on the first attempt', async () => {
+    send.mockResolvedValue({ messageId: '<msg-1@discovergroup.ph>' });
+
+    const queued = await queueConfirmation();
+
+    expect(queued).toMatchObject({ status: 'sent', attempts: 1, messageId: '<msg-1@discovergroup.ph>' });
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ to: ['maria.santos@example.com'] }));
+  });
+
+  it('retries a failing transport, dead-letters the email, and sends it when an admin retries', async () => {
+    send.mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:587'));
+
+    // First attempt when queued; the email stays queued for a retry
+    await queueConfirmation();
+    expect(email()).toMatchObject({ status: 'queued', attempts: 1, lastError: 'connect ECONNREFUSED 127.0.0.1:587' });
+    expect(minutesUntilRetry()).toBe(1);
+
+    // Nothing is due yet
+    expect(await processEmailOutbox()).toEqual({ sent: 0, retrying: 0, dead: 0, released: 0 });
+    expect(send).toHaveBeenCalledTimes(1);
+
+    // Second attempt fails; the delay doubles
+    letRetriesFallDue();
+    expect(await processEmailOutbox()).toEqual({ sent: 0, retrying: 1, dead: 0, released: 0 });
+    expect(email()).toMatchObject({ status: 'queued', attempts: 2 });
+    expect(minutesUntilRetry()).toBe(2);
+
+    // Third and last attempt fails; the email is dead-lettered
+    letRetriesFallDue();
+    expect(await processEmailOutbox()).toEqual({ sent: 0, retrying: 0, dead: 1, released: 0 });
+    expect(email()).toMatchObject({ status: 'dead', attempts: 3 });
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('dead-lettered after 3 attempt(s)'));
+
+    // The job leaves dead letters alone
+    letRetriesFallDue();
+    expect(await processEmailOutbox()).toEqual({ sent: 0, retrying: 0, dead: 0, released: 0 });
+    expect(send).toHaveBeenCalledTimes(3);
+
+    mockStaff.role = 'visa_department';
+    const deadLetters = await request(app).get('/admin/email-outbox?status=dead');
+    expect(deadLetters.status).toBe(403); // the list is for staff who work on bookings
+
+    mockStaff.role = 'csr_department';
+    const listed = await request(app).get('/admin/email-outbox?status=dead');
+    expect(listed.status).toBe(200);
+    expect(listed.body).toEqual([expect.objectContaining({ _id: email()._id, status: 'dead' })]);
+
+    // The transport recovers and an admin retries
+    send.mockResolvedValue({ messageId: '<msg-2@discovergroup.ph>' });
+    const res = await request(app).post(`/admin/email-outbox/${email()._id}/retry`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: 'sent', attempts: 1, messageId: '<msg-2@discovergroup.ph>', requestedBy: 'Ana Reyes' });
+    expect(res.body).not.toHaveProperty('lastError');
+    expect(email().attemptLog.map((attempt: { succeeded: boolean }) => attempt.succeeded)).toEqual([false, false, false, true]);
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+
+  it('dead-letters at once when the server refuses every recipient', async () => {
+    send.mockRejectedValue(Object.assign(new Error('No recipients defined'), { code: 'EENVELOPE' }));
+
+    await queueConfirmation();
+
+    expect(email()).toMatchObject({ status: 'dead', attempts: 1 });
+  });
+
+  it('refuses to retry an email that was delivered', async () => {
+    send.mockResolvedValue({ messageId: '<msg-1@discovergroup.ph>' });
+    await queueConfirmation();
+
+    const res = await request(app).post(`/admin/email-outbox/${email()._id}/retry`);
+
+    expect(res.status).toBe(409);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('only lets staff who manage bookings retry', async () => {
+    send.mockRejectedValue(Object.assign(new Error('No recipients defined'), { code: 'EENVELOPE' }));
+    await queueConfirmation();
+    mockStaff.role = 'visa_department';
+
+    const res = await request(app).post(`/admin/email-outbox/${email()._id}/retry`);
+
+    expect(res.status).toBe(403);
+    expect(email().status).toBe('dead');
+  });
+
+  it('answers 404 for an unknown email', async () => {
+    const res = await request(app).post('/admin/email-outbox/64b000000000000000000000/retry');
+
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ error: 'Email not found' });
+  });
+});
@@ -0,0 +1,246 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { MemoryModel } from '../../testUtils/memoryModel';
+
+jest.mock('../../models/Booking', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return { __esModule: true, default: createMemoryModel({ unique: ['bookingId'] }) };
+});
+jest.mock('../../models/ExtractedTransaction', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return {
+    ...jest.requireActual<object>('../../models/ExtractedTransaction'),
+    __esModule: true,
+    default: createMemoryModel({ defaults: () => ({ status: 'lead', amounts: [], editedFields: [], sourceMessageIds: [] }) }),
+  };
+});
+jest.mock('../../models/MessengerConversation', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return { __esModule: true, default: createMemoryModel({ defaults: () => ({ status: 'new' }) }) };
+});
+jest.mock('../../models/MessengerMessage', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return { __esModule: true, default: createMemoryModel({ unique: ['mid'] }) };
+});
+jest.mock('../../models/Tour', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return { __esModule: true, default: createMemoryModel({ unique: ['slug'] }) };
+});
+jest.mock('../../models/PromoBanner', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return { __esModule: true, default: createMemoryModel() };
+});
+jest.mock('../../models/Settings', () => {
+  const { createMemoryModel } = jest.requireActual<typeof import('../../testUtils/memoryModel')>('../../testUtils/memoryModel');
+  return { Settings: createMemoryModel() };
+});
+jest.mock('../../routes/admin/settings', () => ({
+  getMetaPageId: () => '100000000000001',
+  getMetaPageAccessToken: () => 'test-page-token',
+}));
+jest.mock('../seatInventory', () => ({
+  ...jest.requireActual<object>('../seatInventory'),
+  reserveSeats: jest.fn(async () => ({ seats: 4 })),
+  releaseSeats: jest.fn(async () => undefined),
+  confirmSeatHold: jest.fn(async () => undefined),
+}));
+jest.mock('../assignmentQueues', () => ({
+  ...jest.requireActual<object>('../assignmentQueues'),
+  autoAssignInBackground: jest.fn(),
+}));
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), http: jest.fn(), debug: jest.fn() },
+}));
+
+import Booking from '../../models/Booking';
+import ExtractedTransaction from '../../models/ExtractedTransaction';
+import MessengerConversation from '../../models/MessengerConversation';
+import MessengerMessage from '../../models/MessengerMessage';
+import Tour from '../../models/Tour';
+import { autoAssignInBackground } from '../assignmentQueues';
+import { convertTransactionToBooking, ingestWebhook, MessengerWebhookPayload } from '../messengerInbox';
+import { confirmSeatHold, releaseSeats, reserveSeats } from '../seatInventory';
+
+const bookings = Booking as unknown as MemoryModel;
+const transactions = ExtractedTransaction as unknown as MemoryModel;
+const conversations = MessengerConversation as unknown as MemoryModel;
+const messages = MessengerMessage as unknown as MemoryModel;
+const tours = Tour as unknown as MemoryModel;
+
+// Payloads recorded from Meta, shared with scripts/fake-meta-graph-server.cjs
+const FIXTURES = path.join(__dirname, '../../../scripts/fixtures/meta-graph');
+const PAGE_ID = '100000000000001';
+const fixture = (name: string) => readFileSync(path.join(FIXTURES, `${name}.json`), 'utf8')
+  .replace(/{{PAGE_ID}}/g, PAGE_ID)
+  .replace(/{{PAGE_NAME}}/g, 'Discover Group');
+const deliver = (name: string) => ingestWebhook(JSON.parse(fixture(`webhook-${name}`)) as MessengerWebhookPayload);
+const profiles = JSON.parse(fixture('profiles')) as Record<string, { first_name: string; last_name: string }>;
+
+const ADMIN = { type: 'admin' as const, id: 'u1', name: 'Ana Reyes' };
+
+const transaction = () => transactions.docs[0];
+const conversation = () => conversations.docs[0];
+
+describe('Messenger inbox', () => {
+  beforeAll(() => {
+    // The day the payloads were recorded, so "June 14" is read as the coming June
+    jest.useFakeTimers({ now: new Date('2026-03-03T09:00:00Z'), doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    // Profile lookups on the Graph API answer from the recorded profiles
+    jest.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+      const psid = new URL(String(url)).pathname.split('/').pop() ?? '';
+      const profile = profiles[psid];
+      return new Response(JSON.stringify(profile ?? { error: { message: 'Unknown user' } }), { status: profile ? 200 : 404 });
+    });
+  });
+
+  beforeEach(async () => {
+    [bookings, transactions, conversations, messages, tours].forEach((model) => model.reset());
+    jest.mocked(reserveSeats).mockClear();
+    jest.mocked(releaseSeats).mockClear();
+    jest.mocked(confirmSeatHold).mockClear();
+    jest.mocked(autoAssignInBackground).mockClear();
+    await tours.create([
+      {
+        slug: 'route-a-preferred',
+        title: 'Route A Preferred',
+        status: 'published',
+        regularPricePerPerson: 42000,
+        departureDates: [
+          { start: '2026-06-14', end: '2026-06-28', price: 38500 },
+          { start: '2026-06-21', end: '2026-07-05', price: 38500 },
+        ],
+      },
+      {
+        slug: 'route-b-classic',
+        title: 'Route B Classic',
+        status: 'published',
+        regularPricePerPerson: 36000,
+        departureDates: [{ start: '2026-06-14', end: '2026-06-25' }],
+      },
+    ]);
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('reads a recorded conversation into a transaction and books it', async () => {
+    expect(await deliver('booking-inquiry')).toEqual({ stored: 1, duplicates: 0 });
+    expect(conversation()).toMatchObject({ pageId: PAGE_ID, psid: '7055511122233344', customerName: 'Andrea Cruz', status: 'new' });
+    expect(transaction()).toMatchObject({
+      status: 'lead',
+      customerName: 'Andrea Cruz',
+      tourSlug: 'route-a-preferred',
+      tourTitle: 'Route A Preferred',
+      numberOfPeople: 4,
+      preferredDates: 'June 14, June 21',
+      selectedDate: '2026-06-21',
+    });
+
+    // The Page's quote, echoed back by Meta
+    expect(await deliver('echo-quote')).toEqual({ stored: 1, duplicates: 0 });
+    expect(conversation().status).toBe('in-progress');
+    expect(transaction()).toMatchObject({ status: 'quoted', amounts: [38500, 154000] });
+
+    // The customer settles on a date and sends contact details and a passport photo
+    expect(await deliver('contact-details')).toEqual({ stored: 2, duplicates: 0 });
+    expect(transaction()).toMatchObject({
+      selectedDate: '2026-06-14',
+      customerEmail: 'andrea.cruz@example.com',
+      customerPhone: '+639178884321',
+      sourceMessageIds: ['m_wh_ac_0001', 'm_wh_ac_0002', 'm_wh_ac_0003'],
+    });
+    expect(messages.docs.find((m) => m.mid === 'm_wh_ac_0004')?.attachments).toEqual([
+      { type: 'image', url: 'https://scontent.xx.fbcdn.net/v/t1.15752-9/passport_sample.jpg' },
+    ]);
+
+    // Meta retries, delivery and read receipts change nothing
+    expect(await deliver('booking-inquiry')).toEqual({ stored: 0, duplicates: 1 });
+    expect(await deliver('delivery-read')).toEqual({ stored: 0, duplicates: 0 });
+    expect(transactions.docs).toHaveLength(1);
+    expect(transaction().selectedDate).toBe('2026-06-14');
+
+    const { transaction: booked, booking } = await convertTransactionToBooking(
+      transaction().id,
+      { paymentType: 'full', notes: 'Paying by bank transfer' },
+      ADMIN
+    );
+
+    expect(booking).toMatchObject({
+      tourSlug: 'route-a-preferred',
+      customerName: 'Andrea Cruz',
+      customerEmail: 'andrea.cruz@example.com',
+      customerPhone: '+639178884321',
+      selectedDate: '2026-06-14',
+      passengers: 4,
+      perPerson: 38500,
+      totalAmount: 154000,
+      paidAmount: 0,
+      paymentType: 'full',
+      status: 'pending',
+      notes: 'Paying by bank transfer',
+    });
+    expect(booking.statusHistory).toEqual([
+      expect.objectContaining({ from: null, to: 'pending', reason: 'Booked from a Messenger conversation' }),
+    ]);
+    expect(reserveSeats).toHaveBeenCalledWith({
+      tourSlug: 'route-a-preferred',
+      selectedDate: '2026-06-14',
+      seats: 4,
+      bookingId: booking.bookingId,
+      paymentType: 'full',
+    });
+    expect(booked).toMatchObject({ status: 'booked', bookingId: booking.bookingId, convertedBy: 'Ana Reyes' });
+    expect(conversation().status).toBe('converted');
+    expect(autoAssignInBackground).toHaveBeenCalledWith('bookings', booking.bookingId);
+
+    await expect(convertTransactionToBooking(transaction().id, {}, ADMIN))
+      .rejects.toMatchObject({ statusCode: 409, message: `Already booked as ${booking.bookingId}` });
+    expect(bookings.docs).toHaveLength(1);
+  });
+
+  it('records a payment the customer already made when booking', async () => {
+    await deliver('booking-inquiry');
+    await deliver('contact-details');
+
+    await expect(convertTransactionToBooking(transaction().id, { paidAmount: 50000 }, ADMIN))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Enter the receipt or deposit reference for the payment already made' });
+
+    const { booking } = await convertTransactionToBooking(
+      transaction().id,
+      { paymentType: 'full', paidAmount: 50000, paymentReference: 'BDO deposit 88213' },
+      ADMIN
+    );
+
+    expect(booking).toMatchObject({ totalAmount: 154000, paidAmount: 50000, status: 'partially_paid' });
+    expect(booking.statusHistory[booking.statusHistory.length - 1]).toMatchObject({
+      to: 'partially_paid',
+      reason: 'Payment received before booking (BDO deposit 88213)',
+    });
+    expect(confirmSeatHold).toHaveBeenCalledWith(booking.bookingId);
+  });
+
+  it('does not book before the contact details are in', async () => {
+    await deliver('booking-inquiry');
+
+    await expect(convertTransactionToBooking(transaction().id, {}, ADMIN))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Fill in the customer email before booking' });
+    expect(reserveSeats).not.toHaveBeenCalled();
+  });
+
+  it('releases the claim when the seats cannot be held', async () => {
+    await deliver('booking-inquiry');
+    await deliver('contact-details');
+    jest.mocked(reserveSeats).mockRejectedValueOnce(new Error('Only 2 seats left on this departure'));
+
+    await expect(convertTransactionToBooking(transaction().id, {}, ADMIN)).rejects.toThrow('Only 2 seats left');
+
+    expect(bookings.docs).toHaveLength(0);
+    expect(transaction().status).toBe('lead');
+    expect(transaction()).not.toHaveProperty('bookingId');
+    expect(conversation().status).not.toBe('converted');
+  });
+});
@@ -0,0 +1,484 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import ActivityNote, {
+  ActivitySubjectType,
+  IActivityAttachment,
+  IActivityMention,
+  IActivityNote,
+} from '../models/ActivityNote';
+import Booking from '../models/Booking';
+import OutboundEmail from '../models/OutboundEmail';
+import User from '../models/User';
+import VisaApplication from '../models/VisaApplication';
+import { AppError } from '../middleware/errorHandler';
+import { uploadBufferToS3 } from '../lib/s3Upload';
+import logger from '../utils/logger';
+import { sendCustomerMessageEmail, sendStaffActivityAlert } from './emailService';
+
+/**
+ * Activity Feed
+ * A threaded feed of notes and messages on each booking and visa
+ * application, replacing the single notes field that every save overwrote.
+ * Internal notes stay with staff and can @mention colleagues, who are
+ * emailed. Messages are emailed to the customer from a reply address
+ * carrying a per-message token (INBOUND_EMAIL_ADDRESS, plus-addressed), so
+ * an emailed answer posted to the inbound webhook lands in the same thread.
+ * Attachments are stored in S3.
+ */
+
+const MAX_BODY_LENGTH = 10000;
+const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ACTIVITY_ATTACHMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'text/plain',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// Reply tokens are 32 hex characters after the "+" of the reply address
+const REPLY_TOKEN_PATTERN = /\+([a-f0-9]{32})@/i;
+
+export class ActivityFeedError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'ActivityFeedError';
+  }
+}
+
+// The booking or visa application a feed belongs to
+export interface ActivitySubject {
+  type: ActivitySubjectType;
+  id: string;
+  // e.g. "booking BK-1234", used in emails
+  reference: string;
+  customerName: string;
+  customerEmail?: string;
+  locale?: string;
+  // Emails about it appear in this booking's delivery history
+  bookingId?: string;
+  assignedTo?: mongoose.Types.ObjectId;
+  adminPath: string;
+}
+
+// A file from a multipart upload or an inbound email
+export interface ActivityFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+export interface ActivityAuthor {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+export interface ActivityEntryInput {
+  body?: unknown;
+  parentId?: unknown;
+  mentions?: unknown;
+  files?: ActivityFile[];
+}
+
+export type ActivityEntry = Record<string, unknown>;
+
+export type ActivityThread = ActivityEntry & { replies: ActivityEntry[] };
+
+export async function getBookingSubject(bookingId: string): Promise<ActivitySubject> {
+  const booking = await Booking.findOne({ bookingId })
+    .select('bookingId customerName customerEmail locale assignedTo')
+    .lean()
+    .exec();
+  if (!booking) throw new ActivityFeedError('Booking not found', 404);
+  return {
+    type: 'booking',
+    id: booking.bookingId,
+    reference: `booking ${booking.bookingId}`,
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    locale: booking.locale,
+    bookingId: booking.bookingId,
+    assignedTo: booking.assignedTo,
+    adminPath: `/bookings/${booking.bookingId}`,
+  };
+}
+
+// Looked up by database id, as the admin visa routes are
+export async function getVisaApplicationSubject(id: string): Promise<ActivitySubject> {
+  const application = mongoose.isValidObjectId(id)
+    ? await VisaApplication.findById(id)
+      .select('applicationId completeName emailAddress locale bookingId assignedTo')
+      .lean()
+      .exec()
+    : null;
+  if (!application) throw new ActivityFeedError('Visa application not found', 404);
+  return {
+    type: 'visa_application',
+    id: application.applicationId,
+    reference: `visa application ${application.applicationId}`,
+    customerName: application.completeName,
+    customerEmail: application.emailAddress,
+    locale: application.locale,
+    bookingId: application.bookingId,
+    assignedTo: application.assignedTo,
+    adminPath: '/visa-assistance',
+  };
+}
+
+async function subjectOf(note: IActivityNote): Promise<ActivitySubject> {
+  if (note.subjectType === 'booking') return getBookingSubject(note.subjectId);
+  const application = await VisaApplication.findOne({ applicationId: note.subjectId }).select('_id').lean().exec();
+  if (!application) throw new ActivityFeedError('Visa application not found', 404);
+  return getVisaApplicationSubject(String(application._id));
+}
+
+/**
+ * The feed, oldest first: top-level entries with their replies underneath.
+ * Message delivery status is read from the outbox, as retries update it
+ * after the message was written.
+ */
+export async function listActivity(subject: ActivitySubject): Promise<ActivityThread[]> {
+  const notes = await ActivityNote.find({ subjectType: subject.type, subjectId: subject.id })
+    .select('-replyToken')
+    .sort({ createdAt: 1 })
+    .lean()
+    .exec();
+
+  const outboxIds = notes.map((note) => note.outboxId).filter((id): id is string => Boolean(id));
+  const emails = outboxIds.length > 0
+    ? await OutboundEmail.find({ _id: { $in: outboxIds } }).select('status').lean().exec()
+    : [];
+  const statuses = new Map(emails.map((email) => [String(email._id), email.status]));
+
+  const threads: ActivityThread[] = [];
+  const byId = new Map<string, ActivityThread>();
+  for (const note of notes) {
+    const entry: ActivityEntry = {
+      ...note,
+      emailStatus: (note.outboxId && statuses.get(note.outboxId)) || note.emailStatus,
+    };
+    const parent = note.parentId ? byId.get(String(note.parentId)) : undefined;
+    if (parent) {
+      parent.replies.push(entry);
+    } else {
+      const thread = { ...entry, replies: [] };
+      threads.push(thread);
+      byId.set(String(note._id), thread);
+    }
+  }
+  return threads;
+}
+
+function readBody(value: unknown, hasAttachments: boolean): string {
+  const body = typeof value === 'string' ? value.trim() : '';
+  if (!body && !hasAttachments) throw new ActivityFeedError('Write something or attach a file');
+  if (body.length > MAX_BODY_LENGTH) {
+    throw new ActivityFeedError(`Keep it under ${MAX_BODY_LENGTH} characters`);
+  }
+  return body;
+}
+
+// Replies go under a top-level entry of the same feed
+async function readParent(subject: ActivitySubject, value: unknown): Promise<mongoose.Types.ObjectId | undefined> {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (!mongoose.isValidObjectId(value)) throw new ActivityFeedError('parentId is not valid');
+  const parent = await ActivityNote.findOne({ _id: value, subjectType: subject.type, subjectId: subject.id })
+    .select('parentId')
+    .lean()
+    .exec();
+  if (!parent) throw new ActivityFeedError('The entry you are replying to was not found', 404);
+  return parent.parentId ?? (parent._id as mongoose.Types.ObjectId);
+}
+
+// Who can be @mentioned: active staff accounts
+const MENTIONABLE = { role: { $ne: 'client' }, isActive: true };
+
+export async function listMentionableStaff(): Promise<Array<{ id: string; fullName: string }>> {
+  const users = await User.find(MENTIONABLE).select('fullName').sort({ fullName: 1 }).lean().exec();
+  return users.map((user) => ({ id: String(user._id), fullName: user.fullName }));
+}
+
+// Mentions are staff user ids; anyone who is not an active staff member is left out
+async function readMentions(value: unknown): Promise<IActivityMention[]> {
+  const ids = Array.isArray(value)
+    ? [...new Set(value.filter((id): id is string => typeof id === 'string' && mongoose.isValidObjectId(id)))]
+    : [];
+  if (ids.length === 0) return [];
+  const users = await User.find({ _id: { $in: ids }, ...MENTIONABLE })
+    .select('fullName')
+    .lean()
+    .exec();
+  return users.map((user) => ({ userId: user._id as mongoose.Types.ObjectId, name: user.fullName }));
+}
+
+async function storeAttachments(files: ActivityFile[] = []): Promise<IActivityAttachment[]> {
+  if (files.length > MAX_ATTACHMENTS) {
+    throw new ActivityFeedError(`Attach at most ${MAX_ATTACHMENTS} files`);
+  }
+  for (const file of files) {
+    if (!ACTIVITY_ATTACHMENT_MIME_TYPES.includes(file.mimetype)) {
+      throw new ActivityFeedError(`${file.originalname}: this file type cannot be attached`);
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      throw new ActivityFeedError(`${file.originalname} is larger than 10 MB`);
+    }
+  }
+  try {
+    return await Promise.all(files.map(async (file) => ({
+      url: await uploadBufferToS3(file.buffer, file.originalname, file.mimetype),
+      name: file.originalname,
+      contentType: file.mimetype,
+      size: file.size,
+    })));
+  } catch (error) {
+    logger.error(`Activity attachment upload failed: ${error instanceof Error ? error.message : error}`);
+    throw new ActivityFeedError('Attachments could not be stored; check the S3 settings', 503);
+  }
+}
+
+// Email each mentioned colleague except the author
+async function notifyMentions(subject: ActivitySubject, note: IActivityNote, authorId: string): Promise<void> {
+  const ids = note.mentions.map((mention) => mention.userId).filter((id) => String(id) !== authorId);
+  if (ids.length === 0) return;
+  const users = await User.find({ _id: { $in: ids } }).select('fullName email').lean().exec();
+  await Promise.all(users.map((user) => sendStaffActivityAlert({
+    to: user.email,
+    recipientName: user.fullName,
+    authorName: note.authorName,
+    isReply: false,
+    reference: subject.reference,
+    body: note.body,
+    attachmentCount: note.attachments.length,
+    adminPath: subject.adminPath,
+  })));
+}
+
+/**
+ * Add an internal note, or a reply in an existing thread. Mentioned staff are
+ * emailed a link to the feed.
+ */
+export async function addInternalNote(
+  subject: ActivitySubject,
+  author: ActivityAuthor,
+  input: ActivityEntryInput
+): Promise<IActivityNote> {
+  const body = readBody(input.body, Boolean(input.files?.length));
+  const parentId = await readParent(subject, input.parentId);
+  const mentions = await readMentions(input.mentions);
+  const attachments = await storeAttachments(input.files);
+
+  const note = await ActivityNote.create({
+    subjectType: subject.type,
+    subjectId: subject.id,
+    kind: 'note',
+    parentId,
+    body,
+    authorId: author.id,
+    authorName: author.name,
+    authorEmail: author.email,
+    mentions,
+    attachments,
+  });
+  await notifyMentions(subject, note, author.id);
+  return note;
+}
+
+// "replies@example.com" + token -> "replies+<token>@example.com"
+function replyAddress(token: string): string | undefined {
+  const address = process.env.INBOUND_EMAIL_ADDRESS?.trim();
+  const at = address?.lastIndexOf('@') ?? -1;
+  if (!address || at < 1) return undefined;
+  return `${address.slice(0, at)}+${token}${address.slice(at)}`;
+}
+
+/**
+ * Email a message to the customer and add it to the feed. The delivery
+ * result is kept on the entry; a failed first attempt is retried by the
+ * outbox.
+ */
+export async function sendCustomerMessage(
+  subject: ActivitySubject,
+  author: ActivityAuthor,
+  input: ActivityEntryInput
+): Promise<IActivityNote> {
+  if (!subject.customerEmail) {
+    throw new ActivityFeedError('There is no customer email address to send to', 409);
+  }
+  const body = readBody(input.body, Boolean(input.files?.length));
+  const parentId = await readParent(subject, input.parentId);
+  const attachments = await storeAttachments(input.files);
+  const replyToken = crypto.randomBytes(16).toString('hex');
+
+  const note = await ActivityNote.create({
+    subjectType: subject.type,
+    subjectId: subject.id,
+    kind: 'message',
+    parentId,
+    body,
+    authorId: author.id,
+    authorName: author.name,
+    authorEmail: author.email,
+    attachments,
+    recipient: subject.customerEmail,
+    replyToken,
+  });
+
+  const result = await sendCustomerMessageEmail({
+    to: subject.customerEmail,
+    locale: subject.locale,
+    customerName: subject.customerName,
+    reference: subject.reference,
+    message: body,
+    senderName: author.name,
+    attachments: attachments.map(({ name, url }) => ({ name, url })),
+    replyTo: replyAddress(replyToken),
+    bookingId: subject.bookingId,
+  });
+  note.outboxId = result.outboxId;
+  note.emailStatus = result.status ?? (result.success ? undefined : 'dead');
+  await note.save();
+  return note;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// INBOUND REPLIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface InboundEmail {
+  from: string;
+  fromName?: string;
+  to: string[];
+  subject: string;
+  text: string;
+  attachments: ActivityFile[];
+}
+
+export interface InboundResult {
+  recorded: boolean;
+  reason?: string;
+  noteId?: string;
+}
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+// "Maria Santos <maria@example.com>" -> "maria@example.com"
+export function emailAddressOf(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+function addressList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((item) => (typeof item === 'string' ? item : str((item as Record<string, unknown>)?.Email)));
+  }
+  return str(value).split(',');
+}
+
+/**
+ * Normalise an inbound email webhook. Accepts a plain JSON shape
+ * ({ from, to, subject, text, attachments: [{ filename, contentType, content }] },
+ * content base64) and Postmark's inbound format.
+ */
+export function parseInboundEmail(payload: unknown): InboundEmail {
+  const raw = (payload ?? {}) as Record<string, unknown>;
+  const fromFull = raw.FromFull as Record<string, unknown> | undefined;
+  const from = str(fromFull?.Email) || str(raw.From) || str(raw.from);
+  const to = addressList(raw.ToFull ?? raw.To ?? raw.to)
+    .concat(addressList(raw.CcFull ?? raw.Cc ?? raw.cc))
+    .map((address) => address.trim())
+    .filter(Boolean);
+  const rawAttachments = Array.isArray(raw.Attachments) ? raw.Attachments : Array.isArray(raw.attachments) ? raw.attachments : [];
+
+  const attachments = (rawAttachments as Array<Record<string, unknown>>).map((item) => {
+    const buffer = Buffer.from(str(item.Content) || str(item.content), 'base64');
+    return {
+      buffer,
+      originalname: str(item.Name) || str(item.filename) || 'attachment',
+      mimetype: str(item.ContentType) || str(item.contentType) || 'application/octet-stream',
+      size: buffer.length,
+    };
+  });
+
+  return {
+    from: emailAddressOf(from),
+    fromName: str(fromFull?.Name) || undefined,
+    to,
+    subject: str(raw.Subject) || str(raw.subject),
+    text: str(raw.StrippedTextReply) || stripQuotedReply(str(raw.TextBody) || str(raw.text)),
+    attachments,
+  };
+}
+
+// Keep only what the customer wrote above the quoted message
+export function stripQuotedReply(text: string): string {
+  const kept: string[] = [];
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    if (/^On .+wrote:\s*$/i.test(line.trim()) || /^-+\s*Original Message\s*-+$/i.test(line.trim())) break;
+    if (/^From:\s/i.test(line) && kept.some((previous) => previous.trim())) break;
+    if (line.startsWith('>')) continue;
+    kept.push(line);
+  }
+  return kept.join('\n').trim();
+}
+
+/**
+ * Add an emailed answer to the thread of the message it replies to. Only
+ * mail from the customer's own address is accepted; anything else is
+ * reported back and dropped. The author of the message (and the assignee,
+ * when someone else) is emailed.
+ */
+export async function recordInboundReply(email: InboundEmail): Promise<InboundResult> {
+  const token = email.to.map((address) => address.match(REPLY_TOKEN_PATTERN)?.[1]).find(Boolean);
+  if (!token) return { recorded: false, reason: 'No reply address in the recipients' };
+
+  const message = await ActivityNote.findOne({ replyToken: token.toLowerCase(), kind: 'message' }).exec();
+  if (!message) return { recorded: false, reason: 'Unknown reply address' };
+
+  const subject = await subjectOf(message);
+  if (!subject.customerEmail || emailAddressOf(subject.customerEmail) !== email.from) {
+    logger.warn(`[Activity] Reply to ${subject.reference} from ${email.from} ignored: not the customer's address`);
+    return { recorded: false, reason: 'Sender is not the customer' };
+  }
+  if (!email.text && email.attachments.length === 0) {
+    return { recorded: false, reason: 'Empty reply' };
+  }
+
+  // Signatures and other files we would refuse from staff are dropped rather than failing the reply
+  const attachments = await storeAttachments(email.attachments
+    .filter((file) => ACTIVITY_ATTACHMENT_MIME_TYPES.includes(file.mimetype) && file.size <= MAX_ATTACHMENT_BYTES)
+    .slice(0, MAX_ATTACHMENTS));
+  const reply = await ActivityNote.create({
+    subjectType: subject.type,
+    subjectId: subject.id,
+    kind: 'reply',
+    parentId: message.parentId ?? message._id,
+    body: email.text.slice(0, MAX_BODY_LENGTH),
+    authorName: email.fromName || subject.customerName,
+    authorEmail: email.from,
+    attachments,
+  });
+
+  const staffIds = [message.authorId, subject.assignedTo].filter(Boolean).map(String);
+  const staff = await User.find({ _id: { $in: [...new Set(staffIds)] }, isActive: true }).select('fullName email').lean().exec();
+  await Promise.all(staff.map((user) => sendStaffActivityAlert({
+    to: user.email,
+    recipientName: user.fullName,
+    authorName: reply.authorName,
+    isReply: true,
+    reference: subject.reference,
+    body: reply.body,
+    attachmentCount: attachments.length,
+    adminPath: subject.adminPath,
+  })));
+
+  return { recorded: true, noteId: String(reply._id) };
+}
@@ -0,0 +1,316 @@
+import mongoose from 'mongoose';
+import Booking from '../models/Booking';
+import VisaApplication from '../models/VisaApplication';
+import User from '../models/User';
+import { Settings, AssignmentStrategy } from '../models/Settings';
+import { AppError } from '../middleware/errorHandler';
+import { Permission, rolesWithPermission } from './permissions';
+import logger from '../utils/logger';
+
+/**
+ * Assignment Queues
+ * Bookings and visa applications are owned by one staff member at a time.
+ * Anyone whose role may work the queue can be assigned; new work is handed
+ * out by the queue's strategy (Settings): in turn (round robin, i.e. to whoever
+ * was assigned least recently) or to whoever has the fewest open items.
+ * Automatic assignment prefers department staff and only falls back to
+ * administrators when a department has nobody active.
+ */
+
+export const ASSIGNMENT_QUEUES = ['bookings', 'visa-applications'] as const;
+export type AssignmentQueue = (typeof ASSIGNMENT_QUEUES)[number];
+
+export const ASSIGNMENT_STRATEGIES: AssignmentStrategy[] = ['manual', 'round_robin', 'least_loaded'];
+
+// Roles that can be assigned by hand but are left out of automatic assignment
+const ADMIN_ROLES = ['super_admin', 'administrator', 'web_developer', 'admin', 'superadmin'];
+
+const AUTO_ASSIGN_BATCH = 200;
+
+interface IAssignable {
+  assignedTo?: mongoose.Types.ObjectId;
+  assignedToName?: string;
+  assignedAt?: Date;
+}
+
+type AssignableModel = mongoose.Model<IAssignable>;
+
+interface QueueDefinition {
+  label: string;
+  // Who may work (and be given) items in the queue
+  permission: Permission;
+  setting: 'bookingAssignment' | 'visaAssignment';
+  model: AssignableModel;
+  // Items still needing someone
+  openFilter: Record<string, unknown>;
+  // Route id -> document filter; bookings are addressed by bookingId
+  itemFilter(id: string): Record<string, unknown> | null;
+  // Name used for the item in audit logs
+  resourceId(doc: Record<string, unknown>): string;
+}
+
+const QUEUES: Record<AssignmentQueue, QueueDefinition> = {
+  bookings: {
+    label: 'Bookings',
+    permission: 'canManageBookingStatus',
+    setting: 'bookingAssignment',
+    model: Booking as unknown as AssignableModel,
+    openFilter: { archived: { $ne: true }, status: { $nin: ['completed', 'cancelled', 'refunded'] } },
+    itemFilter: (id) => ({ bookingId: id }),
+    resourceId: (doc) => String(doc.bookingId),
+  },
+  'visa-applications': {
+    label: 'Visa applications',
+    permission: 'canUpdateVisaStatus',
+    setting: 'visaAssignment',
+    model: VisaApplication as unknown as AssignableModel,
+    openFilter: { status: { $nin: ['approved', 'rejected', 'completed'] } },
+    itemFilter: (id) => (mongoose.isValidObjectId(id) ? { _id: id } : null),
+    resourceId: (doc) => String(doc.applicationId ?? doc._id),
+  },
+};
+
+export class AssignmentError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'AssignmentError';
+  }
+}
+
+export interface QueueAgent {
+  id: string;
+  fullName: string;
+  email: string;
+  role: string;
+  open: number;
+  lastAssignedAt?: Date;
+  // False for administrators, who only get work by hand
+  autoAssign: boolean;
+}
+
+export interface QueueWorkload {
+  queue: AssignmentQueue;
+  label: string;
+  strategy: AssignmentStrategy;
+  unassigned: number;
+  agents: QueueAgent[];
+}
+
+export interface AssignmentChange {
+  resourceId: string;
+  before: { assignedTo?: string; assignedToName?: string };
+  after: { assignedTo?: string; assignedToName?: string };
+}
+
+export function isAssignmentQueue(value: unknown): value is AssignmentQueue {
+  return typeof value === 'string' && (ASSIGNMENT_QUEUES as readonly string[]).includes(value);
+}
+
+export function queuePermission(queue: AssignmentQueue): Permission {
+  return QUEUES[queue].permission;
+}
+
+/**
+ * List filter for an `assignedTo` query parameter: "me", "unassigned" or a
+ * user id. Anything else is ignored.
+ */
+export function assignmentFilter(assignedTo: unknown, userId: string): Record<string, unknown> {
+  if (assignedTo === 'me') return { assignedTo: userId };
+  if (assignedTo === 'unassigned') return { assignedTo: null };
+  if (typeof assignedTo === 'string' && mongoose.isValidObjectId(assignedTo)) return { assignedTo };
+  return {};
+}
+
+export async function getAssignmentSettings(): Promise<Record<AssignmentQueue, AssignmentStrategy>> {
+  const settings = await Settings.findOne({ key: 'global' }).lean().exec();
+  return {
+    bookings: settings?.bookingAssignment ?? 'manual',
+    'visa-applications': settings?.visaAssignment ?? 'manual',
+  };
+}
+
+export async function updateAssignmentSettings(input: unknown): Promise<Record<AssignmentQueue, AssignmentStrategy>> {
+  const update: Record<string, AssignmentStrategy> = {};
+  for (const queue of ASSIGNMENT_QUEUES) {
+    const value = (input as Record<string, unknown> | undefined)?.[queue];
+    if (value === undefined) continue;
+    if (!ASSIGNMENT_STRATEGIES.includes(value as AssignmentStrategy)) {
+      throw new AssignmentError(`${queue} must be one of ${ASSIGNMENT_STRATEGIES.join(', ')}`);
+    }
+    update[QUEUES[queue].setting] = value as AssignmentStrategy;
+  }
+  await Settings.findOneAndUpdate({ key: 'global' }, { $set: update }, { upsert: true, setDefaultsOnInsert: true }).exec();
+  return getAssignmentSettings();
+}
+
+/**
+ * Staff who may be given work in the queue, with how many open items each
+ * holds and when they were last assigned one.
+ */
+export async function listQueueAgents(queue: AssignmentQueue): Promise<QueueAgent[]> {
+  const definition = QUEUES[queue];
+  const roles = await rolesWithPermission(definition.permission);
+  const users = await User.find({ role: { $in: roles }, isActive: true, isArchived: { $ne: true } })
+    .select('fullName email role')
+    .sort({ fullName: 1 })
+    .lean();
+  const ids = users.map((u) => u._id);
+
+  const [openCounts, lastAssigned] = await Promise.all([
+    definition.model.aggregate<{ _id: mongoose.Types.ObjectId; open: number }>([
+      { $match: { ...definition.openFilter, assignedTo: { $in: ids } } },
+      { $group: { _id: '$assignedTo', open: { $sum: 1 } } },
+    ]),
+    definition.model.aggregate<{ _id: mongoose.Types.ObjectId; at: Date }>([
+      { $match: { assignedTo: { $in: ids } } },
+      { $group: { _id: '$assignedTo', at: { $max: '$assignedAt' } } },
+    ]),
+  ]);
+  const openById = new Map(openCounts.map((row) => [String(row._id), row.open]));
+  const lastById = new Map(lastAssigned.map((row) => [String(row._id), row.at]));
+
+  return users.map((u) => ({
+    id: String(u._id),
+    fullName: u.fullName,
+    email: u.email,
+    role: u.role,
+    open: openById.get(String(u._id)) ?? 0,
+    lastAssignedAt: lastById.get(String(u._id)) ?? undefined,
+    autoAssign: !ADMIN_ROLES.includes(u.role),
+  }));
+}
+
+export async function getWorkload(queues: readonly AssignmentQueue[] = ASSIGNMENT_QUEUES): Promise<QueueWorkload[]> {
+  const strategies = await getAssignmentSettings();
+  return Promise.all(queues.map(async (queue) => {
+    const definition = QUEUES[queue];
+    const [agents, unassigned] = await Promise.all([
+      listQueueAgents(queue),
+      definition.model.countDocuments({ ...definition.openFilter, assignedTo: null }).exec(),
+    ]);
+    return { queue, label: definition.label, strategy: strategies[queue], unassigned, agents };
+  }));
+}
+
+function lastAssignedMs(agent: QueueAgent): number {
+  return agent.lastAssignedAt ? new Date(agent.lastAssignedAt).getTime() : 0;
+}
+
+// Next agent under the strategy; ties go to whoever waited longest, then by name
+function pickAgent(agents: QueueAgent[], strategy: Exclude<AssignmentStrategy, 'manual'>): QueueAgent | undefined {
+  const department = agents.filter((a) => a.autoAssign);
+  const pool = department.length > 0 ? department : agents;
+  return [...pool].sort((a, b) =>
+    (strategy === 'least_loaded' ? a.open - b.open : 0)
+    || lastAssignedMs(a) - lastAssignedMs(b)
+    || a.fullName.localeCompare(b.fullName)
+  )[0];
+}
+
+function snapshot(doc: IAssignable | null | undefined): AssignmentChange['before'] {
+  return doc?.assignedTo
+    ? { assignedTo: String(doc.assignedTo), assignedToName: doc.assignedToName }
+    : {};
+}
+
+/**
+ * Give an item to a staff member, or take it off them (assigneeId null).
+ */
+export async function assignItem(queue: AssignmentQueue, id: string, assigneeId: unknown): Promise<AssignmentChange> {
+  const definition = QUEUES[queue];
+  const filter = definition.itemFilter(id);
+  if (!filter) throw new AssignmentError('Item not found', 404);
+
+  let update: Record<string, unknown>;
+  if (assigneeId === null || assigneeId === '') {
+    update = { $unset: { assignedTo: 1, assignedToName: 1, assignedAt: 1 } };
+  } else {
+    if (typeof assigneeId !== 'string' || !mongoose.isValidObjectId(assigneeId)) {
+      throw new AssignmentError('assigneeId must be a user id, or null to unassign');
+    }
+    const agent = (await listQueueAgents(queue)).find((a) => a.id === assigneeId);
+    if (!agent) {
+      throw new AssignmentError(`Assignee must be an active staff member who can work ${definition.label.toLowerCase()}`);
+    }
+    update = { $set: { assignedTo: agent.id, assignedToName: agent.fullName, assignedAt: new Date() } };
+  }
+
+  const before = await definition.model.findOneAndUpdate(filter, update).lean().exec();
+  if (!before) throw new AssignmentError('Item not found', 404);
+  const after = await definition.model.findOne(filter).lean().exec();
+
+  return {
+    resourceId: definition.resourceId(before as unknown as Record<string, unknown>),
+    before: snapshot(before),
+    after: snapshot(after),
+  };
+}
+
+async function assignNext(
+  definition: QueueDefinition,
+  filter: Record<string, unknown>,
+  agents: QueueAgent[],
+  strategy: Exclude<AssignmentStrategy, 'manual'>
+): Promise<QueueAgent | null> {
+  const agent = pickAgent(agents, strategy);
+  if (!agent) return null;
+
+  const now = new Date();
+  // Only if still unassigned, so a concurrent manual assignment wins
+  const result = await definition.model.updateOne(
+    { ...filter, assignedTo: null },
+    { $set: { assignedTo: agent.id, assignedToName: agent.fullName, assignedAt: now } }
+  ).exec();
+  if (result.modifiedCount === 0) return null;
+
+  agent.open += 1;
+  agent.lastAssignedAt = now;
+  return agent;
+}
+
+/**
+ * Hand a newly created item to the next agent under the queue's strategy.
+ * Does nothing when the queue is assigned by hand.
+ */
+export async function autoAssignItem(queue: AssignmentQueue, id: string): Promise<QueueAgent | null> {
+  const definition = QUEUES[queue];
+  const strategy = (await getAssignmentSettings())[queue];
+  const filter = definition.itemFilter(id);
+  if (strategy === 'manual' || !filter) return null;
+  return assignNext(definition, filter, await listQueueAgents(queue), strategy);
+}
+
+// Fire-and-forget variant for creation paths; a failure leaves the item unassigned
+export function autoAssignInBackground(queue: AssignmentQueue, id: string): void {
+  autoAssignItem(queue, id)
+    .then((agent) => {
+      if (agent) logger.info(`Assigned ${queue} ${id} to ${agent.fullName}`);
+    })
+    .catch((error) => logger.error(`Auto-assignment failed for ${queue} ${id}:`, error));
+}
+
+/**
+ * Share out every open, unassigned item. Queues assigned by hand are shared
+ * by load.
+ */
+export async function autoAssignUnassigned(queue: AssignmentQueue): Promise<{ assigned: number; remaining: number }> {
+  const definition = QUEUES[queue];
+  const configured = (await getAssignmentSettings())[queue];
+  const strategy = configured === 'manual' ? 'least_loaded' : configured;
+  const agents = await listQueueAgents(queue);
+
+  const items = await definition.model.find({ ...definition.openFilter, assignedTo: null })
+    .sort({ createdAt: 1 })
+    .limit(AUTO_ASSIGN_BATCH)
+    .select('_id')
+    .lean()
+    .exec();
+
+  let assigned = 0;
+  for (const item of items) {
+    if (!(await assignNext(definition, { _id: item._id }, agents, strategy))) break;
+    assigned += 1;
+  }
+  const remaining = await definition.model.countDocuments({ ...definition.openFilter, assignedTo: null }).exec();
+  return { assigned, remaining };
+}
@@ -0,0 +1,183 @@
+import Booking, { IBooking, BookingStatus, IStatusActor, IStatusHistoryEntry } from '../models/Booking';
+import { AppError } from '../middleware/errorHandler';
+import { confirmSeatHold, releaseSeats } from './seatInventory';
+import logger from '../utils/logger';
+
+/**
+ * Booking Status Service
+ * The booking lifecycle as a state machine. Every status change goes through
+ * transitionBookingStatus so it is validated against the allowed moves and
+ * recorded in the booking's statusHistory.
+ *
+ *   pending → awaiting_payment → partially_paid → confirmed → completed
+ *                     any unfinished booking → cancelled → refunded
+ */
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  'pending',
+  'awaiting_payment',
+  'partially_paid',
+  'confirmed',
+  'completed',
+  'cancelled',
+  'refunded',
+];
+
+const TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['awaiting_payment', 'partially_paid', 'confirmed', 'cancelled'],
+  awaiting_payment: ['partially_paid', 'confirmed', 'cancelled'],
+  partially_paid: ['confirmed', 'cancelled', 'refunded'],
+  confirmed: ['completed', 'cancelled', 'refunded'],
+  completed: [],
+  cancelled: ['refunded'],
+  refunded: [],
+};
+
+// Statuses written before the lifecycle existed
+const LEGACY_STATUSES: Record<string, BookingStatus> = {
+  payment_failed: 'awaiting_payment',
+};
+
+// Bookings that are over: nothing more is owed and the customer can no longer change them
+export const CLOSED_STATUSES: BookingStatus[] = ['completed', 'cancelled', 'refunded'];
+
+// Statuses a booking may start in; paid statuses are only reached through recorded payments
+const INITIAL_STATUSES: BookingStatus[] = ['pending', 'awaiting_payment'];
+
+export class BookingTransitionError extends AppError {
+  from: BookingStatus;
+  to: string;
+  allowed: BookingStatus[];
+
+  constructor(from: BookingStatus, to: string) {
+    super(`Cannot change booking status from "${from}" to "${to}".`, 409);
+    this.name = 'BookingTransitionError';
+    this.from = from;
+    this.to = to;
+    this.allowed = getAllowedTransitions(from);
+  }
+}
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === 'string' && (BOOKING_STATUSES as string[]).includes(value);
+}
+
+export function normalizeBookingStatus(status?: string | null): BookingStatus {
+  if (isBookingStatus(status)) return status;
+  return (status && LEGACY_STATUSES[status]) || 'pending';
+}
+
+export function getAllowedTransitions(status?: string | null): BookingStatus[] {
+  return TRANSITIONS[normalizeBookingStatus(status)];
+}
+
+export function canTransition(from: string | null | undefined, to: string): boolean {
+  return isBookingStatus(to) && getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Status a booking should be in after receiving payment, or null when
+ * nothing has been paid yet.
+ */
+export function statusForPayment(paidAmount: number, totalAmount: number): BookingStatus | null {
+  if (!(paidAmount > 0)) return null;
+  return paidAmount >= totalAmount ? 'confirmed' : 'partially_paid';
+}
+
+/**
+ * Starting status for a new booking. Nothing has been paid yet, so a client
+ * asking for a paid status starts as pending like everyone else; the PayMongo
+ * webhook or staff move it on once money arrives.
+ */
+export function resolveInitialStatus(requested: unknown): BookingStatus {
+  return isBookingStatus(requested) && INITIAL_STATUSES.includes(requested) ? requested : 'pending';
+}
+
+export function buildHistoryEntry(
+  from: BookingStatus | null,
+  to: BookingStatus,
+  actor: IStatusActor,
+  reason?: string
+): IStatusHistoryEntry {
+  return { from, to, actor, reason, at: new Date() };
+}
+
+/**
+ * Seats follow the status: paid bookings own their seats, cancelled and
+ * refunded bookings give them back.
+ */
+export async function applySeatSideEffects(bookingId: string, status: BookingStatus, reason?: string): Promise<void> {
+  if (status === 'partially_paid' || status === 'confirmed') {
+    await confirmSeatHold(bookingId);
+  } else if (status === 'cancelled' || status === 'refunded') {
+    await releaseSeats(bookingId, reason || `Booking ${status}`);
+  }
+}
+
+export interface TransitionOptions {
+  actor: IStatusActor;
+  reason?: string;
+  // Extra fields written in the same update as the status change
+  set?: Record<string, unknown>;
+}
+
+const MAX_TRANSITION_ATTEMPTS = 3;
+
+/**
+ * Move a booking to a new status if the lifecycle allows it.
+ * The update only applies while the booking is still in the status we
+ * validated against, so concurrent changes cannot skip a step. Returns null
+ * when the booking does not exist.
+ */
+export async function transitionBookingStatus(
+  bookingId: string,
+  to: string,
+  options: TransitionOptions
+): Promise<IBooking | null> {
+  for (let attempt = 0; attempt < MAX_TRANSITION_ATTEMPTS; attempt++) {
+    const current = await Booking.findOne({ bookingId }).select('status').lean().exec();
+    if (!current) return null;
+
+    const from = normalizeBookingStatus(current.status);
+    if (!canTransition(from, to)) {
+      throw new BookingTransitionError(from, to);
+    }
+    const target = to as BookingStatus;
+
+    const updated = await Booking.findOneAndUpdate(
+      { bookingId, status: current.status },
+      {
+        $set: { ...options.set, status: target },
+        $push: { statusHistory: buildHistoryEntry(from, target, options.actor, options.reason) },
+      },
+      { new: true }
+    ).exec();
+
+    if (updated) {
+      await applySeatSideEffects(bookingId, target, options.reason);
+      logger.info(`[BookingStatus] ${bookingId}: ${from} → ${target} by ${options.actor.type}${options.actor.name ? ` (${options.actor.name})` : ''}`);
+      return updated;
+    }
+  }
+
+  throw new AppError('Booking was modified concurrently, please try again.', 409);
+}
+
+/**
+ * Record an event that did not change the status (e.g. a failed payment
+ * attempt) in the booking's history.
+ */
+export async function recordStatusEvent(
+  bookingId: string,
+  actor: IStatusActor,
+  reason: string
+): Promise<IBooking | null> {
+  const current = await Booking.findOne({ bookingId }).select('status').lean().exec();
+  if (!current) return null;
+  const status = normalizeBookingStatus(current.status);
+  return Booking.findOneAndUpdate(
+    { bookingId },
+    { $push: { statusHistory: buildHistoryEntry(status, status, actor, reason) } },
+    { new: true }
+  ).exec();
+}
@@ -0,0 +1,399 @@
+import { ITour, ITourPerk, PerkAddOn } from '../models/Tour';
+
+/**
+ * Brochure Parser Service
+ * Turns the tour text the sales team pastes from brochures (title, travel
+ * dates with prices, optional tours, countries, full cash freebies, payment
+ * rules) into a tour draft. Every detected field carries a confidence level
+ * and the reason it was picked up, and the draft can be compared field by
+ * field with a saved tour before anything is applied.
+ */
+
+export type FieldConfidence = 'high' | 'medium' | 'low';
+
+export type BrochureField =
+  | 'title'
+  | 'slug'
+  | 'line'
+  | 'continent'
+  | 'durationDays'
+  | 'departureDates'
+  | 'travelWindow'
+  | 'regularPricePerPerson'
+  | 'bookingLinks'
+  | 'optionalTours'
+  | 'allowsDownpayment'
+  | 'fixedDownpaymentAmount'
+  | 'balanceDueDaysBeforeTravel'
+  | 'countriesVisited'
+  | 'citiesToVisit'
+  | 'cashFreebies';
+
+export interface ParsedTourField {
+  field: BrochureField;
+  value: unknown;
+  confidence: FieldConfidence;
+  reason: string;
+  current?: unknown;
+  changed?: boolean;
+}
+
+// Same shape as TourCreate in @discovergroup/types
+export interface TourDraft {
+  title?: string;
+  slug?: string;
+  line?: string;
+  continent?: string;
+  durationDays?: number;
+  departureDates?: Array<{ start: string; end: string; price?: number }>;
+  travelWindow?: { start: string; end: string };
+  regularPricePerPerson?: number;
+  bookingLinks?: Array<{ year: string; urls: string[] }>;
+  optionalTours?: Array<{
+    day: number;
+    title: string;
+    regularPrice: number;
+    promoEnabled: boolean;
+    promoType: 'flat' | 'percent';
+    promoValue: number;
+  }>;
+  allowsDownpayment?: boolean;
+  fixedDownpaymentAmount?: number;
+  balanceDueDaysBeforeTravel?: number;
+  additionalInfo?: {
+    countriesVisited?: string[];
+    countries?: Array<{ name: string }>;
+    citiesToVisit?: Array<{ city: string }>;
+  };
+  cashFreebies?: Array<Pick<ITourPerk, 'label' | 'type' | 'value' | 'addOn' | 'eligibility'>>;
+}
+
+export interface BrochureParseResult {
+  draft: TourDraft;
+  fields: ParsedTourField[];
+  unparsedLines: string[];
+}
+
+const MONTH_MAP: Record<string, string> = {
+  january: '01', jan: '01', february: '02', feb: '02', march: '03', mar: '03',
+  april: '04', apr: '04', may: '05', june: '06', jun: '06', july: '07',
+  jul: '07', august: '08', aug: '08', september: '09', sep: '09', sept: '09',
+  october: '10', oct: '10', november: '11', nov: '11', december: '12', dec: '12',
+};
+
+// Lines that start a brochure section; they end the section before them
+const SECTION_HEADER = /^(links?|liks?|travel\s*dates?|countr(?:y|ies)|cit(?:y|ies)\s+to\s+visit|optional\s*tours?|full\s*cash|fullcash|regular\s*rate|promo\s+price)\b|downpayment/i;
+
+// Perk labels that name a priced add-on from Settings
+const PERK_ADD_ON_PATTERNS: Array<[RegExp, PerkAddOn]> = [
+  [/visa/i, 'visa'],
+  [/insurance/i, 'insurance'],
+  [/passport/i, 'passport'],
+];
+
+// Keys compared when diffing list fields; inventory counters, images and ids
+// on the saved tour are not in brochures and must not count as changes
+const COMPARE_KEYS: Partial<Record<BrochureField, string[]>> = {
+  departureDates: ['start', 'end', 'price'],
+  travelWindow: ['start', 'end'],
+  bookingLinks: ['year', 'urls'],
+  optionalTours: ['day', 'title'],
+  citiesToVisit: ['city'],
+  cashFreebies: ['label', 'type', 'value', 'addOn', 'eligibility'],
+};
+
+const CONFIDENCE_RANK: Record<FieldConfidence, number> = { low: 0, medium: 1, high: 2 };
+
+function toISO(month: string, day: number | string, year: number | string): string {
+  const m = MONTH_MAP[month.toLowerCase()] ?? '01';
+  return `${year}-${m}-${String(day).padStart(2, '0')}`;
+}
+
+function toAmount(text: string): number {
+  return parseInt(text.replace(/,/g, ''), 10);
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9\s-]/g, '').trim().replace(/\s+/g, '-').replace(/-+/g, '-');
+}
+
+// "VATICAN CITY" → "Vatican City"
+function titleCase(name: string): string {
+  return name.toLowerCase().replace(/\b[a-z]/g, (c) => c.toUpperCase());
+}
+
+function splitList(text: string): string[] {
+  return text.split(/[|,]/).map((item) => item.trim()).filter(Boolean);
+}
+
+function lowestConfidence(a: FieldConfidence, b: FieldConfidence): FieldConfidence {
+  return CONFIDENCE_RANK[a] <= CONFIDENCE_RANK[b] ? a : b;
+}
+
+/**
+ * Parse pasted brochure text. Fields that are not found are left out of the
+ * draft; lines inside a recognised section that could not be read are
+ * returned in `unparsedLines` so nothing is dropped silently.
+ */
+export function parseBrochureText(raw: string): BrochureParseResult {
+  const text = raw.replace(/\r\n?/g, '\n');
+  const lines = text.split('\n');
+  const fields: ParsedTourField[] = [];
+  const unparsedLines: string[] = [];
+  const record = (field: BrochureField, value: unknown, confidence: FieldConfidence, reason: string) => {
+    fields.push({ field, value, confidence, reason });
+  };
+
+  // ─ Title + duration ───────────────────────────────────────────────────
+  let title: string | undefined;
+  let titleConfidence: FieldConfidence = 'low';
+  let durationDays: number | undefined;
+  const titleWithDays = text.match(/^([^\n(]+?)\s*\((\d+)\s*days?\)/im);
+  if (titleWithDays) {
+    title = titleWithDays[1].trim();
+    titleConfidence = 'high';
+    durationDays = parseInt(titleWithDays[2], 10);
+    record('title', title, 'high', `Matched "${titleWithDays[0].trim()}"`);
+    record('durationDays', durationDays, 'high', 'Stated in brackets after the title');
+  } else {
+    const firstLine = lines.find((l) => l.trim() && !SECTION_HEADER.test(l.trim()));
+    if (firstLine) {
+      title = firstLine.trim();
+      record('title', title, 'low', 'No "Title (N days)" line; used the first line of the text');
+    }
+  }
+
+  if (title) {
+    const routeMatch = title.match(/route\s*([a-z])\b/i);
+    if (routeMatch) {
+      record('line', `ROUTE_${routeMatch[1].toUpperCase()}`, 'high', `Title mentions "${routeMatch[0]}"`);
+    }
+    if (/europe/i.test(title)) record('continent', 'Europe', 'low', 'Guessed from "Europe" in the title');
+    else if (/asia/i.test(title)) record('continent', 'Asia', 'low', 'Guessed from "Asia" in the title');
+  }
+
+  // ─ Booking links (year-tagged) — tolerates typos like "Liks for 2026:" ─
+  const bookingLinks: Array<{ year: string; urls: string[] }> = [];
+  for (const line of lines) {
+    const lm = line.match(/Li[a-z]{0,3}s?\s+for\s+(\d{4})\s*:\s*(.+)/i)
+            ?? line.match(/Links?\s+(\d{4})\s*:\s*(.+)/i);
+    if (!lm) continue;
+    const urls = lm[2].match(/https?:\/\/[^\s,]+/gi) ?? [];
+    if (urls.length) bookingLinks.push({ year: lm[1], urls });
+  }
+  if (bookingLinks.length) {
+    record('bookingLinks', bookingLinks, 'high', `${bookingLinks.length} "Links for <year>" line(s)`);
+  }
+
+  // ─ Departure dates ───────────────────────────────────────────────────
+  const departureDates: Array<{ start: string; end: string; price?: number }> = [];
+  const seen = new Set<string>();
+  const addDate = (start: string, end: string, price?: string) => {
+    const key = `${start}|${end}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    departureDates.push(price ? { start, end, price: toAmount(price) } : { start, end });
+  };
+
+  // Same month: "May 13 - 27, 2026 (Php 170,000)"
+  const sameMonth = /([A-Za-z]+)\s+(\d{1,2})\s*[-–]\s*(\d{1,2}),\s*(\d{4})(?:[^\n]*\(Php\s*([\d,]*)\))?/g;
+  let m: RegExpExecArray | null;
+  while ((m = sameMonth.exec(text))) {
+    const [, mon, d1, d2, yr, price] = m;
+    if (MONTH_MAP[mon.toLowerCase()]) addDate(toISO(mon, d1, yr), toISO(mon, d2, yr), price);
+  }
+
+  // Across months: "May 25 - June 8, 2026 (Php 170,000)"
+  const acrossMonths = /([A-Za-z]+)\s+(\d{1,2})\s*[-–]\s*([A-Za-z]+)\s+(\d{1,2}),\s*(\d{4})(?:[^\n]*\(Php\s*([\d,]*)\))?/g;
+  while ((m = acrossMonths.exec(text))) {
+    const [, m1, d1, m2, d2, yr, price] = m;
+    if (MONTH_MAP[m1.toLowerCase()] && MONTH_MAP[m2.toLowerCase()]) addDate(toISO(m1, d1, yr), toISO(m2, d2, yr), price);
+  }
+
+  if (departureDates.length) {
+    departureDates.sort((a, b) => a.start.localeCompare(b.start));
+    const unpriced = departureDates.filter((d) => !d.price).length;
+    record(
+      'departureDates',
+      departureDates,
+      unpriced ? 'medium' : 'high',
+      unpriced ? `${unpriced} of ${departureDates.length} date(s) have no "(Php …)" price` : `${departureDates.length} dated range(s) with prices`
+    );
+    record(
+      'travelWindow',
+      { start: departureDates[0].start, end: departureDates[departureDates.length - 1].end },
+      'medium',
+      'From the first departure to the last return date'
+    );
+
+    const prices = departureDates.map((d) => d.price ?? 0).filter(Boolean);
+    if (prices.length) {
+      const samePrice = prices.every((p) => p === prices[0]);
+      record(
+        'regularPricePerPerson',
+        Math.max(...prices),
+        samePrice && !unpriced ? 'high' : 'medium',
+        samePrice ? 'Every priced departure has the same price' : 'Highest of the departure prices'
+      );
+    }
+
+    if (!durationDays) {
+      const first = departureDates[0];
+      const diffDays = Math.round((new Date(first.end).getTime() - new Date(first.start).getTime()) / 86400000) + 1;
+      if (diffDays > 0) {
+        durationDays = diffDays;
+        record('durationDays', durationDays, 'medium', 'Counted from the first departure date range');
+      }
+    }
+  }
+
+  if (title) {
+    const base = slugify(title);
+    const slug = durationDays && !/-\d+-days$/.test(base) ? `${base}-${durationDays}-days` : base;
+    record('slug', slug, titleConfidence, 'Built from the title and duration');
+  }
+
+  // ─ Promo info (applied to optional tours) ─────────────────────────────
+  let promoFlat = 0;
+  let promoPercent = 0;
+  const pfM = text.match(/promo\s+price[^:]*:\s*(?:Php\s*)?(\d[\d,]*)\s*(?:,000)? /i)
+           ?? text.match(/(\d[\d,]*)\s*(?:,000)?\s*tour\s*packages?/i);
+  if (pfM) promoFlat = toAmount(pfM[1]);
+  const ppM = text.match(/(\d+)%\s*(?:discount|off)/i);
+  if (ppM) promoPercent = parseInt(ppM[1], 10);
+
+  // ─ Optional tours ──────────────────────────────────────────────────
+  const optionalTours: NonNullable<TourDraft['optionalTours']> = [];
+  let inOptional = false;
+  for (const line of lines) {
+    const l = line.trim();
+    if (/^optional\s*tours?\s*:?\s*$/i.test(l) || /optional\s*tours?\s*:/i.test(l)) { inOptional = true; continue; }
+    if (SECTION_HEADER.test(l)) inOptional = false;
+    if (!inOptional || !l) continue;
+
+    const dm = l.match(/Day\s*(\d+)\s*[:\-–]\s*(.+)/i);
+    if (dm) {
+      optionalTours.push({
+        day: parseInt(dm[1], 10),
+        title: dm[2].replace(/^optional\s+(for\s+)?/i, '').trim(),
+        regularPrice: 0,
+        promoEnabled: !!(promoFlat || promoPercent),
+        promoType: promoFlat ? 'flat' : 'percent',
+        promoValue: promoFlat || promoPercent,
+      });
+    } else {
+      unparsedLines.push(l);
+    }
+  }
+  if (optionalTours.length) {
+    const promoSource = promoFlat ? pfM?.[0] : promoPercent ? ppM?.[0] : undefined;
+    record(
+      'optionalTours',
+      optionalTours,
+      'medium',
+      `Days and titles only; prices are not in the brochure text${promoSource ? `. Promo taken from "${promoSource.trim()}"` : ''}`
+    );
+  }
+
+  // ─ Downpayment + balance days ───────────────────────────────────────
+  const dpM = text.match(/Php\s*([\d,]+)\s*downpayment/i);
+  if (dpM) {
+    record('allowsDownpayment', true, 'high', `Matched "${dpM[0]}"`);
+    record('fixedDownpaymentAmount', toAmount(dpM[1]), 'high', `Matched "${dpM[0]}"`);
+  }
+  const bdM = text.match(/(\d+)\s*days?\s*before\s*travel/i);
+  if (bdM) record('balanceDueDaysBeforeTravel', parseInt(bdM[1], 10), 'high', `Matched "${bdM[0]}"`);
+
+  // ─ Countries + cities ──────────────────────────────────────────────────
+  // Captures to the end of the line only, so the next section is not swallowed
+  const cM = text.match(/Countr(?:y|ies)\s*(?:to\s+visit|visited)?\s*:[ \t]*([^\n]+)/i);
+  if (cM) {
+    const countries = splitList(cM[1]).map(titleCase);
+    if (countries.length) record('countriesVisited', countries, 'high', `Listed after "${cM[0].split(':')[0].trim()}:"`);
+  }
+
+  const cityMatch = text.match(/Cit(?:y|ies)\s+to\s+visit\s*:[ \t]*([^\n]+)/i);
+  if (cityMatch) {
+    const cities = splitList(cityMatch[1]).map((city) => ({ city }));
+    if (cities.length) record('citiesToVisit', cities, 'high', 'Listed after "Cities to Visit:"');
+  }
+
+  // ─ Full cash freebies ────────────────────────────────────────────────
+  const freebies: NonNullable<TourDraft['cashFreebies']> = [];
+  let inFreebies = false;
+  let skippedFreebies = 0;
+  for (const line of lines) {
+    const l = line.trim();
+    if (/fullcash|full\s*cash/i.test(l)) { inFreebies = true; continue; }
+    if (SECTION_HEADER.test(l)) inFreebies = false;
+    if (!inFreebies || !l) continue;
+
+    const pct = l.match(/^(\d+)%\s*off\s+(?:on\s+)?(.+)/i);
+    const free = l.match(/^free\s+(.+)/i);
+    const perk = pct
+      ? { label: pct[2].trim(), type: 'percent_off' as const, value: parseInt(pct[1], 10) }
+      : free ? { label: free[1].trim(), type: 'free' as const } : null;
+    if (perk) {
+      const addOn = PERK_ADD_ON_PATTERNS.find(([pattern]) => pattern.test(perk.label))?.[1];
+      freebies.push({ ...perk, ...(addOn && { addOn }), eligibility: 'full_payment' });
+    } else {
+      skippedFreebies++;
+      unparsedLines.push(l);
+    }
+  }
+  if (freebies.length) {
+    record(
+      'cashFreebies',
+      freebies,
+      skippedFreebies ? 'medium' : 'high',
+      skippedFreebies ? `${skippedFreebies} line(s) in the section were not understood` : 'Every line in the full cash section was read'
+    );
+  }
+
+  return { draft: buildDraft(fields), fields, unparsedLines };
+}
+
+function buildDraft(fields: ParsedTourField[]): TourDraft {
+  const draft: TourDraft = {};
+  for (const { field, value } of fields) {
+    if (field === 'countriesVisited') {
+      const countries = value as string[];
+      draft.additionalInfo = { ...draft.additionalInfo, countriesVisited: countries, countries: countries.map((name) => ({ name })) };
+    } else if (field === 'citiesToVisit') {
+      draft.additionalInfo = { ...draft.additionalInfo, citiesToVisit: value as Array<{ city: string }> };
+    } else {
+      (draft as Record<string, unknown>)[field] = value;
+    }
+  }
+  return draft;
+}
+
+function comparable(field: BrochureField, value: unknown): unknown {
+  const keys = COMPARE_KEYS[field];
+  if (value === undefined || value === null || value === '') return null;
+  if (!keys || typeof value !== 'object') return value;
+
+  const pick = (item: unknown) => {
+    const source = (item ?? {}) as Record<string, unknown>;
+    return Object.fromEntries(keys.map((key) => [key, source[key] ?? null]));
+  };
+  return Array.isArray(value) ? value.map(pick) : pick(value);
+}
+
+/**
+ * Add the saved tour's value next to each parsed field and flag the ones that
+ * would change. List fields are compared on the keys a brochure can contain.
+ */
+export function diffBrochureAgainstTour(result: BrochureParseResult, tour: Partial<ITour>): BrochureParseResult {
+  const fields = result.fields.map((parsed) => {
+    const raw = parsed.field === 'countriesVisited' || parsed.field === 'citiesToVisit'
+      ? tour.additionalInfo?.[parsed.field]
+      : tour[parsed.field];
+    const current = comparable(parsed.field, raw);
+    const changed = JSON.stringify(current) !== JSON.stringify(comparable(parsed.field, parsed.value));
+    // A rename of an existing tour would break links to it; never suggest it confidently
+    const confidence = parsed.field === 'slug' && changed ? lowestConfidence(parsed.confidence, 'low') : parsed.confidence;
+    return { ...parsed, confidence, current, changed };
+  });
+  return { ...result, fields };
+}
@@ -0,0 +1,481 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import BuilderSession, { IBuilderDay, IBuilderRoute, IBuilderSession } from '../models/BuilderSession';
+import Booking, { IBooking, ICustomRoute, IStatusActor } from '../models/Booking';
+import Tour, { ITour } from '../models/Tour';
+import { AppError } from '../middleware/errorHandler';
+import { buildHistoryEntry, resolveInitialStatus } from './bookingStatus';
+import { createInstallmentPlanForBooking, InitialPayment, recordInitialPayment } from './installmentService';
+import { buildBookingQuote, BookingQuote, PricingError } from './pricingService';
+import { releaseSeats, reserveSeats } from './seatInventory';
+import { PUBLIC_TOUR_FILTER } from './tourPublishing';
+import { autoAssignInBackground } from './assignmentQueues';
+import { escapeRegex } from '../utils/regex';
+
+/**
+ * Builder Session Service
+ * Saves the custom itineraries customers put together in the tour builder
+ * (a base tour with other tours inserted after chosen days), so the work
+ * survives a refresh and can be shared as a read-only quote. The stop list and
+ * price are always rebuilt from the tours, never taken from the browser, and a
+ * sales agent can turn a session into a booking from the admin app.
+ */
+
+// Sales staff who follow up on customer quotes
+export const BUILDER_SESSION_ROLES = [
+  'admin', 'superadmin', 'super_admin', 'administrator', 'web_developer', 'booking_department',
+];
+
+const MAX_CUSTOM_ROUTES = 5;
+const MAX_PASSENGERS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BuilderSessionError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'BuilderSessionError';
+  }
+}
+
+export interface BuilderSessionInput {
+  baseTourSlug?: unknown;
+  selectedDate?: unknown;
+  passengers?: unknown;
+  infants?: unknown;
+  joinDay?: unknown;
+  leaveDay?: unknown;
+  customRoutes?: unknown;
+  customerName?: unknown;
+  customerEmail?: unknown;
+  customerPhone?: unknown;
+}
+
+type ItineraryTour = Pick<ITour, 'slug' | 'title' | 'line' | 'durationDays' | 'itinerary' | 'fullStops'>;
+type SessionRecord = IBuilderSession & { _id: mongoose.Types.ObjectId };
+
+const newToken = () => crypto.randomBytes(18).toString('base64url');
+
+const optionalString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+function optionalDay(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const day = Number(value);
+  if (!Number.isInteger(day) || day < 1) throw new BuilderSessionError(`${field} must be a day number from 1`);
+  return day;
+}
+
+function parseCount(value: unknown, field: string, min: number, fallback: number): number {
+  if (value === undefined || value === null) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min || count > MAX_PASSENGERS) {
+    throw new BuilderSessionError(`${field} must be a whole number between ${min} and ${MAX_PASSENGERS}`);
+  }
+  return count;
+}
+
+function parseRoutes(value: unknown): IBuilderRoute[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new BuilderSessionError('customRoutes must be a list');
+  if (value.length > MAX_CUSTOM_ROUTES) {
+    throw new BuilderSessionError(`At most ${MAX_CUSTOM_ROUTES} tours can be inserted`);
+  }
+  return value.map((route) => {
+    const tourSlug = optionalString(route?.tourSlug);
+    const insertAfterDay = Number(route?.insertAfterDay);
+    if (!tourSlug || !Number.isInteger(insertAfterDay) || insertAfterDay < 0) {
+      throw new BuilderSessionError('Each custom route needs a tourSlug and an insertAfterDay from 0');
+    }
+    return { tourSlug, insertAfterDay };
+  });
+}
+
+const tourLength = (tour: ItineraryTour) => tour.itinerary?.length || tour.durationDays || 0;
+
+/**
+ * The stop of each day of one tour, spreading each full stop over its `days`
+ * (1 if unset) the same way the builder timeline does. Days past the last
+ * stop stay at the last stop.
+ */
+export function mapTourDays(tour: ItineraryTour): Array<{ city?: string; country?: string }> {
+  const stops = tour.fullStops ?? [];
+  const days: Array<{ city?: string; country?: string }> = [];
+  for (const stop of stops) {
+    const span = typeof stop.days === 'number' && stop.days > 0 ? stop.days : 1;
+    for (let i = 0; i < span; i += 1) days.push({ city: stop.city, country: stop.country });
+  }
+  const length = tourLength(tour);
+  const last = days[days.length - 1] ?? {};
+  while (days.length < length) days.push({ ...last });
+  return days.slice(0, length);
+}
+
+/**
+ * Day-by-day stop list of the combined itinerary: the base tour's days with
+ * each inserted tour's days placed after its `insertAfterDay`, dated from the
+ * selected departure.
+ */
+export function buildCombinedDays(
+  base: ItineraryTour,
+  routes: Array<IBuilderRoute & { tour: ItineraryTour }>,
+  selectedDate?: string
+): IBuilderDay[] {
+  const toDay = (tour: ItineraryTour, custom: boolean) => (stop: { city?: string; country?: string }) => ({
+    ...stop,
+    tourSlug: tour.slug,
+    tourTitle: tour.title,
+    custom,
+  });
+  const baseDays = mapTourDays(base).map(toDay(base, false));
+  const inserted = (afterDay: number) => routes
+    .filter((route) => Math.min(route.insertAfterDay, baseDays.length) === afterDay)
+    .flatMap((route) => mapTourDays(route.tour).map(toDay(route.tour, true)));
+
+  const combined = [...inserted(0)];
+  baseDays.forEach((day, index) => combined.push(day, ...inserted(index + 1)));
+
+  const start = selectedDate ? Date.parse(selectedDate.slice(0, 10)) : NaN;
+  return combined.map((day, index) => ({
+    day: index + 1,
+    ...(Number.isFinite(start) && { date: new Date(start + index * DAY_MS).toISOString().slice(0, 10) }),
+    ...day,
+  }));
+}
+
+async function findPublicTour(slug: string): Promise<ItineraryTour | null> {
+  return Tour.findOne({ slug, ...PUBLIC_TOUR_FILTER })
+    .select('slug title line durationDays itinerary fullStops')
+    .lean<ItineraryTour>()
+    .exec();
+}
+
+/**
+ * Validate a builder payload and work out the stop list and quote it leads
+ * to. A tour that can no longer be priced leaves the quote empty with the
+ * reason, so the session itself is still saved.
+ */
+async function resolveSession(input: BuilderSessionInput, now: Date) {
+  const baseTourSlug = optionalString(input.baseTourSlug);
+  if (!baseTourSlug) throw new BuilderSessionError('baseTourSlug is required');
+  const base = await findPublicTour(baseTourSlug);
+  if (!base) throw new BuilderSessionError(`Tour "${baseTourSlug}" not found`, 404);
+
+  const customRoutes = parseRoutes(input.customRoutes);
+  const routes = await Promise.all(customRoutes.map(async (route) => {
+    const tour = await findPublicTour(route.tourSlug);
+    if (!tour) throw new BuilderSessionError(`Tour "${route.tourSlug}" not found`, 404);
+    return { ...route, tour };
+  }));
+
+  const selectedDate = optionalString(input.selectedDate);
+  const passengers = parseCount(input.passengers, 'passengers', 1, 1);
+  const days = buildCombinedDays(base, routes, selectedDate);
+
+  const joinDay = optionalDay(input.joinDay, 'joinDay');
+  const leaveDay = optionalDay(input.leaveDay, 'leaveDay');
+  if ((joinDay && joinDay > days.length) || (leaveDay && leaveDay > days.length)) {
+    throw new BuilderSessionError(`Join and leave days must be within the ${days.length}-day itinerary`);
+  }
+  if (joinDay && leaveDay && leaveDay < joinDay) {
+    throw new BuilderSessionError('leaveDay cannot be before joinDay');
+  }
+
+  let quote: BookingQuote | undefined;
+  let quoteError: string | undefined;
+  try {
+    quote = await buildBookingQuote({
+      tourSlug: base.slug,
+      selectedDate: selectedDate ?? '',
+      passengers,
+      customRoutes,
+    }, now);
+  } catch (err) {
+    if (!(err instanceof PricingError)) throw err;
+    quoteError = err.message;
+  }
+
+  return {
+    baseTourSlug: base.slug,
+    baseTourTitle: base.title,
+    selectedDate,
+    passengers,
+    infants: parseCount(input.infants, 'infants', 0, 0),
+    joinDay,
+    leaveDay,
+    customRoutes,
+    days,
+    quote,
+    quoteError,
+    customerName: optionalString(input.customerName),
+    customerEmail: optionalString(input.customerEmail)?.toLowerCase(),
+    customerPhone: optionalString(input.customerPhone),
+  };
+}
+
+export async function createBuilderSession(input: BuilderSessionInput, now: Date = new Date()): Promise<SessionRecord> {
+  const resolved = await resolveSession(input, now);
+  const session = await BuilderSession.create({ ...resolved, sessionId: newToken(), shareToken: newToken() });
+  return session.toObject() as SessionRecord;
+}
+
+/**
+ * Replace the builder state of a session. Fields left out of the payload are
+ * cleared, matching how the builder sends its whole state on every save.
+ */
+export async function updateBuilderSession(
+  sessionId: string,
+  input: BuilderSessionInput,
+  now: Date = new Date()
+): Promise<SessionRecord> {
+  const existing = await getBuilderSession(sessionId);
+  if (existing.status === 'converted') {
+    throw new BuilderSessionError('This itinerary has already been booked and can no longer be changed', 409);
+  }
+  const resolved = await resolveSession(input, now);
+  const unset = Object.fromEntries(
+    Object.entries(resolved).filter(([, value]) => value === undefined).map(([key]) => [key, 1])
+  );
+  const updated = await BuilderSession.findOneAndUpdate(
+    { sessionId, status: 'active' },
+    { $set: resolved, ...(Object.keys(unset).length && { $unset: unset }) },
+    { new: true }
+  ).lean<SessionRecord>().exec();
+  if (!updated) throw new BuilderSessionError('This itinerary has already been booked and can no longer be changed', 409);
+  return updated;
+}
+
+export async function getBuilderSession(sessionId: string): Promise<SessionRecord> {
+  const session = await BuilderSession.findOne({ sessionId }).lean<SessionRecord>().exec();
+  if (!session) throw new BuilderSessionError('Builder session not found', 404);
+  return session;
+}
+
+function toSharedQuote(session: SessionRecord) {
+  const {
+    baseTourSlug, baseTourTitle, selectedDate, passengers, infants, joinDay, leaveDay,
+    customRoutes, days, quote, quoteError, status, updatedAt,
+  } = session;
+  return {
+    shareToken: session.shareToken,
+    status,
+    baseTourSlug,
+    baseTourTitle,
+    selectedDate,
+    passengers,
+    infants,
+    joinDay,
+    leaveDay,
+    customRoutes,
+    days,
+    quote,
+    quoteError,
+    updatedAt,
+  };
+}
+
+/**
+ * What the read-only quote link shows: the itinerary and price, without the
+ * edit key or the customer's contact details.
+ */
+export async function getSharedQuote(shareToken: string) {
+  const session = await BuilderSession.findOneAndUpdate(
+    { shareToken },
+    { $set: { lastViewedAt: new Date() } },
+    { new: true, timestamps: false }
+  ).lean<SessionRecord>().exec();
+  if (!session) throw new BuilderSessionError('Quote not found', 404);
+  return toSharedQuote(session);
+}
+
+export interface BuilderSessionListOptions {
+  status?: string;
+  search?: string;
+  limit?: number;
+}
+
+export async function listBuilderSessions(options: BuilderSessionListOptions = {}): Promise<SessionRecord[]> {
+  const filter: Record<string, unknown> = {};
+  if (options.status === 'active' || options.status === 'converted') filter.status = options.status;
+  if (options.search) {
+    const pattern = new RegExp(escapeRegex(options.search), 'i');
+    filter.$or = [
+      { customerName: pattern },
+      { customerEmail: pattern },
+      { baseTourTitle: pattern },
+      { bookingId: pattern },
+    ];
+  }
+  return BuilderSession.find(filter)
+    .select('-sessionId')
+    .sort({ updatedAt: -1 })
+    .limit(Math.min(Math.max(options.limit ?? 50, 1), 200))
+    .lean<SessionRecord[]>()
+    .exec();
+}
+
+export async function getBuilderSessionById(id: string): Promise<SessionRecord> {
+  if (!mongoose.isValidObjectId(id)) throw new BuilderSessionError('Builder session not found', 404);
+  const session = await BuilderSession.findById(id).select('-sessionId').lean<SessionRecord>().exec();
+  if (!session) throw new BuilderSessionError('Builder session not found', 404);
+  return session;
+}
+
+export interface ConvertBuilderSessionInput {
+  customerName?: unknown;
+  customerEmail?: unknown;
+  customerPhone?: unknown;
+  paymentType?: unknown;
+  notes?: unknown;
+  // Payment the customer already made, checked by the agent; needs a receipt or deposit reference
+  paidAmount?: unknown;
+  paymentReference?: unknown;
+}
+
+// The payment staff saw before booking, if any, within what the booking costs
+function initialPaymentFrom(input: { paidAmount?: unknown; paymentReference?: unknown }, totalAmount: number): InitialPayment | null {
+  if (input.paidAmount === undefined || input.paidAmount === null || input.paidAmount === '') return null;
+  const amount = Number(input.paidAmount);
+  if (!Number.isFinite(amount) || amount < 0) throw new BuilderSessionError('paidAmount must be a positive number');
+  if (amount === 0) return null;
+  if (amount > totalAmount) throw new BuilderSessionError(`paidAmount cannot be more than the booking total of ${totalAmount}`);
+  const reference = optionalString(input.paymentReference);
+  if (!reference) throw new BuilderSessionError('Enter the receipt or deposit reference for the payment already made');
+  return { amount, reference };
+}
+
+const generateBookingId = () => `BK-${Math.random().toString(36).slice(2, 9).toUpperCase()}`;
+
+/**
+ * Turn a session into a booking on behalf of the customer. The quote is
+ * rebuilt at conversion time, seats are held on the departure like any other
+ * booking, and the session is locked so it cannot be booked twice. A
+ * payment the customer already made is recorded on the new booking.
+ */
+export async function convertBuilderSessionToBooking(
+  id: string,
+  input: ConvertBuilderSessionInput,
+  actor: IStatusActor
+): Promise<{ session: SessionRecord; booking: IBooking }> {
+  const session = await getBuilderSessionById(id);
+  if (session.status === 'converted') {
+    throw new BuilderSessionError(`This itinerary was already booked as ${session.bookingId}`, 409);
+  }
+  if (!session.selectedDate) throw new BuilderSessionError('Pick a departure date before booking');
+
+  const customerName = optionalString(input.customerName) ?? session.customerName;
+  const customerEmail = optionalString(input.customerEmail)?.toLowerCase() ?? session.customerEmail;
+  const customerPhone = optionalString(input.customerPhone) ?? session.customerPhone;
+  if (!customerName || !customerEmail) {
+    throw new BuilderSessionError('Customer name and email are required to create a booking');
+  }
+  const paymentType = input.paymentType === 'downpayment' ? 'downpayment' : 'full';
+
+  let quote: BookingQuote;
+  try {
+    quote = await buildBookingQuote({
+      tourSlug: session.baseTourSlug,
+      selectedDate: session.selectedDate,
+      passengers: session.passengers,
+      paymentType,
+      customRoutes: session.customRoutes,
+    });
+  } catch (err) {
+    if (err instanceof PricingError) throw new BuilderSessionError(err.message, err.statusCode);
+    throw err;
+  }
+
+  const initialPayment = initialPaymentFrom(input, quote.totalAmount);
+
+  // Claim the session first so two agents cannot convert it at the same time
+  const bookingId = generateBookingId();
+  const claimed = await BuilderSession.findOneAndUpdate(
+    { _id: session._id, status: 'active', bookingId: { $exists: false } },
+    { $set: { bookingId } }
+  ).exec();
+  if (!claimed) throw new BuilderSessionError('This itinerary is already being booked', 409);
+
+  let seatHold: Awaited<ReturnType<typeof reserveSeats>> = null;
+  let booking: IBooking;
+  try {
+    seatHold = await reserveSeats({
+      tourSlug: session.baseTourSlug,
+      selectedDate: session.selectedDate,
+      seats: session.passengers,
+      bookingId,
+      paymentType,
+    });
+
+    const routeTours = await Promise.all(session.customRoutes.map((route) =>
+      Tour.findOne({ slug: route.tourSlug }).select('title line durationDays itinerary').lean<ItineraryTour>().exec()
+    ));
+    const routePrices = quote.lineItems.filter((item) => item.code === 'CUSTOM_ROUTE');
+    const customRoutes: ICustomRoute[] = session.customRoutes.map((route, index) => ({
+      tourSlug: route.tourSlug,
+      tourTitle: routeTours[index]?.title ?? route.tourSlug,
+      tourLine: routeTours[index]?.line,
+      durationDays: routeTours[index] ? tourLength(routeTours[index]) : 0,
+      pricePerPerson: routePrices[index]?.unitAmount ?? 0,
+      insertAfterDay: route.insertAfterDay,
+    }));
+
+    const status = resolveInitialStatus(undefined);
+    const installmentPlan = paymentType === 'downpayment'
+      ? await createInstallmentPlanForBooking({
+          bookingId,
+          tourSlug: session.baseTourSlug,
+          selectedDate: session.selectedDate,
+          totalAmount: quote.totalAmount,
+          downpaymentAmount: quote.paidAmount,
+        })
+      : null;
+
+    booking = await Booking.create({
+      bookingId,
+      tourSlug: session.baseTourSlug,
+      customerName,
+      customerEmail,
+      customerPhone,
+      selectedDate: session.selectedDate,
+      passengers: session.passengers,
+      perPerson: quote.perPerson,
+      totalAmount: quote.totalAmount,
+      paidAmount: 0,
+      paymentType,
+      status,
+      statusHistory: [
+        buildHistoryEntry(null, status, actor, `Booked from builder quote ${session.shareToken}`),
+      ],
+      bookingDate: new Date().toISOString(),
+      notes: optionalString(input.notes),
+      customRoutes,
+      pricingQuote: { ...quote, adjustments: [] },
+      installmentPlan: installmentPlan ?? undefined,
+    });
+  } catch (err) {
+    if (seatHold) await releaseSeats(bookingId, 'Builder session conversion failed');
+    await BuilderSession.updateOne({ _id: session._id, bookingId }, { $unset: { bookingId: 1 } }).exec();
+    throw err;
+  }
+
+  const converted = await BuilderSession.findByIdAndUpdate(
+    session._id,
+    {
+      $set: {
+        status: 'converted',
+        convertedAt: new Date(),
+        convertedBy: actor.name,
+        customerName,
+        customerEmail,
+        customerPhone,
+        quote,
+      },
+      $unset: { quoteError: 1 },
+    },
+    { new: true }
+  ).select('-sessionId').lean<SessionRecord>().exec();
+  // Once the booking exists, so the payment moves its status on like any other
+  const paid = initialPayment && (await recordInitialPayment(bookingId, initialPayment, actor));
+  autoAssignInBackground('bookings', bookingId);
+
+  return { session: converted ?? session, booking: paid || booking };
+}
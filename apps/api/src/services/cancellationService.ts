@@ -0,0 +1,379 @@
+import Booking, { CancellationRequestStatus, IBooking, ICancellation, IRefund, IRefundEstimate, IStatusActor, RefundStatus } from '../models/Booking';
+import { Settings, ICancellationTier } from '../models/Settings';
+import { AppError } from '../middleware/errorHandler';
+import { CLOSED_STATUSES, normalizeBookingStatus, recordStatusEvent, transitionBookingStatus } from './bookingStatus';
+import { getRefundProviderForBooking } from './refundProviders';
+import { parseDepartureStart } from './seatInventory';
+import logger from '../utils/logger';
+
+/**
+ * Cancellation Service
+ * Works out how much of a booking is refundable under the cancellation policy
+ * in Settings (tiered by days before departure, with some add-ons kept), and
+ * runs the request → approve/reject → refund workflow.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Matches the Settings schema defaults for databases without a settings document
+const DEFAULT_TIERS: ICancellationTier[] = [
+  { minDaysBeforeDeparture: 60, refundPercent: 100 },
+  { minDaysBeforeDeparture: 30, refundPercent: 50 },
+  { minDaysBeforeDeparture: 15, refundPercent: 25 },
+];
+const DEFAULT_NON_REFUNDABLE_ADD_ONS = ['VISA_ASSISTANCE', 'TRAVEL_INSURANCE', 'PASSPORT_ASSISTANCE'];
+
+export class CancellationError extends AppError {
+  constructor(message: string, statusCode = 409) {
+    super(message, statusCode);
+    this.name = 'CancellationError';
+  }
+}
+
+export interface CancellationPolicy {
+  cancellationPolicyHours: number;
+  refundProcessingDays: number;
+  tiers: ICancellationTier[];
+  nonRefundableAddOns: string[];
+}
+
+export async function getCancellationPolicy(): Promise<CancellationPolicy> {
+  const settings = await Settings.findOne({ key: 'global' }).lean().exec();
+  const tiers = settings?.cancellationTiers?.length ? settings.cancellationTiers : DEFAULT_TIERS;
+  return {
+    cancellationPolicyHours: settings?.cancellationPolicyHours ?? 48,
+    refundProcessingDays: settings?.refundProcessingDays ?? 7,
+    tiers: [...tiers]
+      .map(({ minDaysBeforeDeparture, refundPercent }) => ({ minDaysBeforeDeparture, refundPercent }))
+      .sort((a, b) => b.minDaysBeforeDeparture - a.minDaysBeforeDeparture),
+    nonRefundableAddOns: settings?.nonRefundableAddOns ?? DEFAULT_NON_REFUNDABLE_ADD_ONS,
+  };
+}
+
+/**
+ * Validate an admin-submitted policy. Tiers must have distinct day thresholds
+ * and percentages between 0 and 100.
+ */
+export function validateCancellationTiers(tiers: unknown): ICancellationTier[] {
+  if (!Array.isArray(tiers)) {
+    throw new CancellationError('Cancellation tiers must be a list.', 400);
+  }
+  const parsed = tiers.map((tier) => ({
+    minDaysBeforeDeparture: Math.floor(Number(tier?.minDaysBeforeDeparture)),
+    refundPercent: Number(tier?.refundPercent),
+  }));
+  for (const tier of parsed) {
+    if (!Number.isFinite(tier.minDaysBeforeDeparture) || tier.minDaysBeforeDeparture < 0) {
+      throw new CancellationError('Each tier needs a number of days before departure (0 or more).', 400);
+    }
+    if (!Number.isFinite(tier.refundPercent) || tier.refundPercent < 0 || tier.refundPercent > 100) {
+      throw new CancellationError('Refund percentages must be between 0 and 100.', 400);
+    }
+  }
+  if (new Set(parsed.map((t) => t.minDaysBeforeDeparture)).size !== parsed.length) {
+    throw new CancellationError('Two tiers cannot start on the same day.', 400);
+  }
+  return parsed.sort((a, b) => b.minDaysBeforeDeparture - a.minDaysBeforeDeparture);
+}
+
+export function departureDate(booking: Pick<IBooking, 'selectedDate'>): Date | null {
+  const departure = new Date(`${parseDepartureStart(booking.selectedDate)}T00:00:00`);
+  return Number.isNaN(departure.getTime()) ? null : departure;
+}
+
+/**
+ * Amount of the booking spent on add-ons the policy keeps. Uses the pricing
+ * quote's line items; older bookings fall back to the per-person fee fields.
+ */
+export function getNonRefundableAmount(
+  booking: Pick<IBooking, 'pricingQuote' | 'passengers' | 'visaAssistanceFee' | 'travelInsuranceFee' | 'passportAssistanceFee'
+    | 'visaAssistanceRequested' | 'travelInsuranceRequested' | 'passportAssistanceRequested'>,
+  codes: string[]
+): number {
+  const lineItems = booking.pricingQuote?.lineItems;
+  if (lineItems?.length) {
+    return lineItems
+      // Perk discounts on a kept add-on reduce what is kept
+      .filter((item) => codes.includes(item.code) || (item.appliesTo !== undefined && codes.includes(item.appliesTo)))
+      .reduce((sum, item) => sum + item.amount, 0);
+  }
+
+  const legacyFees: Record<string, number> = {
+    VISA_ASSISTANCE: booking.visaAssistanceRequested ? booking.visaAssistanceFee ?? 0 : 0,
+    TRAVEL_INSURANCE: booking.travelInsuranceRequested ? booking.travelInsuranceFee ?? 0 : 0,
+    PASSPORT_ASSISTANCE: booking.passportAssistanceRequested ? booking.passportAssistanceFee ?? 0 : 0,
+  };
+  return codes.reduce((sum, code) => sum + (legacyFees[code] ?? 0) * booking.passengers, 0);
+}
+
+/**
+ * Refund due if the booking were cancelled now: the tier's share of what was
+ * paid, after setting aside non-refundable add-ons.
+ */
+export function estimateRefund(booking: IBooking, policy: CancellationPolicy, now: Date = new Date()): IRefundEstimate {
+  const departure = departureDate(booking);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const daysBeforeDeparture = departure ? Math.floor((departure.getTime() - today.getTime()) / DAY_MS) : 0;
+
+  const tier = policy.tiers.find((t) => daysBeforeDeparture >= t.minDaysBeforeDeparture);
+  const refundPercent = tier?.refundPercent ?? 0;
+  const paidAmount = Math.max(0, booking.paidAmount || 0);
+  const nonRefundableAmount = Math.min(paidAmount, getNonRefundableAmount(booking, policy.nonRefundableAddOns));
+
+  return {
+    daysBeforeDeparture,
+    refundPercent,
+    paidAmount,
+    nonRefundableAmount,
+    refundAmount: Math.round((paidAmount - nonRefundableAmount) * (refundPercent / 100)),
+    computedAt: now,
+  };
+}
+
+export interface CancellationQuote {
+  estimate: IRefundEstimate;
+  canRequest: boolean;
+  blockedReason?: string;
+  selfCancelDeadline?: Date;
+  refundProcessingDays: number;
+  tiers: ICancellationTier[];
+  nonRefundableAddOns: string[];
+}
+
+export function buildCancellationQuote(booking: IBooking, policy: CancellationPolicy, now: Date = new Date()): CancellationQuote {
+  const departure = departureDate(booking);
+  const selfCancelDeadline = departure
+    ? new Date(departure.getTime() - policy.cancellationPolicyHours * HOUR_MS)
+    : undefined;
+
+  let blockedReason: string | undefined;
+  const status = normalizeBookingStatus(booking.status);
+  if (CLOSED_STATUSES.includes(status)) {
+    blockedReason = `This booking is already ${status}.`;
+  } else if (booking.cancellation?.status === 'requested') {
+    blockedReason = 'A cancellation request is already being reviewed.';
+  } else if (selfCancelDeadline && now >= selfCancelDeadline) {
+    blockedReason = `Online cancellation closes ${policy.cancellationPolicyHours} hours before departure. Please contact us.`;
+  }
+
+  return {
+    estimate: estimateRefund(booking, policy, now),
+    canRequest: !blockedReason,
+    blockedReason,
+    selfCancelDeadline,
+    refundProcessingDays: policy.refundProcessingDays,
+    tiers: policy.tiers,
+    nonRefundableAddOns: policy.nonRefundableAddOns,
+  };
+}
+
+export async function getCancellationQuote(bookingId: string): Promise<CancellationQuote | null> {
+  const booking = await Booking.findOne({ bookingId }).exec();
+  if (!booking) return null;
+  return buildCancellationQuote(booking, await getCancellationPolicy());
+}
+
+// What the customer gets back after asking to cancel; the booking itself is staff data
+export interface CancellationRequestSummary {
+  bookingId: string;
+  status: CancellationRequestStatus;
+  reason?: string;
+  requestedAt: Date;
+  estimate: IRefundEstimate;
+}
+
+/**
+ * Customer asks to cancel. The booking keeps its status until an admin
+ * approves; the request and the refund estimate are stored on the booking.
+ * Callers check that the booking is the customer's first (see customerTrips).
+ */
+export async function requestCancellation(
+  bookingId: string,
+  options: { actor: IStatusActor; reason?: string }
+): Promise<CancellationRequestSummary | null> {
+  const booking = await Booking.findOne({ bookingId }).exec();
+  if (!booking) return null;
+
+  const quote = buildCancellationQuote(booking, await getCancellationPolicy());
+  if (!quote.canRequest) {
+    throw new CancellationError(quote.blockedReason || 'This booking cannot be cancelled online.');
+  }
+
+  const cancellation: ICancellation = {
+    status: 'requested',
+    reason: options.reason?.trim() || undefined,
+    requestedAt: new Date(),
+    requestedBy: options.actor,
+    estimate: quote.estimate,
+  };
+
+  const updated = await Booking.findOneAndUpdate(
+    { bookingId, 'cancellation.status': { $nin: ['requested', 'approved'] } },
+    { $set: { cancellation } },
+    { new: true }
+  ).exec();
+  if (!updated) {
+    throw new CancellationError('A cancellation request is already being reviewed.');
+  }
+
+  await recordStatusEvent(bookingId, options.actor, `Cancellation requested${cancellation.reason ? `: ${cancellation.reason}` : ''}`);
+  logger.info(`[Cancellations] ${bookingId}: requested, estimated refund PHP ${quote.estimate.refundAmount}`);
+  const { status, reason, requestedAt, estimate } = cancellation;
+  return { bookingId, status, reason, requestedAt, estimate };
+}
+
+export interface ApprovalResult {
+  booking: IBooking;
+  refund?: IRefund;
+}
+
+/**
+ * Approve a cancellation (or cancel directly when no request exists): the
+ * booking moves to cancelled, which releases its seats, then the refund is
+ * sent through the provider that took the payment and the booking moves to
+ * refunded. A failed refund leaves the booking cancelled so it can be retried.
+ */
+export async function approveCancellation(
+  bookingId: string,
+  options: { actor: IStatusActor; amount?: number; notes?: string }
+): Promise<ApprovalResult | null> {
+  const booking = await Booking.findOne({ bookingId }).exec();
+  if (!booking) return null;
+
+  const status = normalizeBookingStatus(booking.status);
+  if (status === 'completed' || status === 'refunded') {
+    throw new CancellationError(`This booking is already ${status}.`);
+  }
+
+  const policy = await getCancellationPolicy();
+  const estimate = estimateRefund(booking, policy);
+  const amount = options.amount ?? booking.cancellation?.estimate?.refundAmount ?? estimate.refundAmount;
+  if (!Number.isFinite(amount) || amount < 0 || amount > estimate.paidAmount) {
+    throw new CancellationError(`Refund must be between PHP 0 and the PHP ${estimate.paidAmount} paid.`, 400);
+  }
+
+  const existing = booking.cancellation;
+  const now = new Date();
+  const cancellation: ICancellation = {
+    status: 'approved',
+    reason: existing?.reason,
+    requestedAt: existing?.requestedAt ?? now,
+    requestedBy: existing?.requestedBy ?? options.actor,
+    estimate: existing?.estimate ?? estimate,
+    decidedAt: now,
+    decidedBy: options.actor,
+    decisionNotes: options.notes ?? existing?.decisionNotes,
+  };
+
+  // Only one approval at a time; an approval whose refund failed may be retried
+  const claimed = await Booking.findOneAndUpdate(
+    {
+      bookingId,
+      $or: [{ 'cancellation.status': { $ne: 'approved' } }, { 'cancellation.refund.status': 'failed' }],
+    },
+    { $set: { cancellation } },
+    { new: true }
+  ).exec();
+  if (!claimed) {
+    throw new CancellationError('This cancellation has already been approved.');
+  }
+
+  const reason = options.notes || existing?.reason || 'Cancellation approved';
+  if (status !== 'cancelled') {
+    await transitionBookingStatus(bookingId, 'cancelled', { actor: options.actor, reason });
+  }
+
+  if (amount <= 0) {
+    logger.info(`[Cancellations] ${bookingId}: cancelled with no refund due`);
+    return { booking: (await Booking.findOne({ bookingId }).exec()) ?? claimed };
+  }
+
+  const provider = getRefundProviderForBooking(booking);
+  let refund: IRefund;
+  try {
+    const result = await provider.refundPayment({
+      bookingId,
+      paymentIntentId: booking.paymentIntentId,
+      amount,
+      reason,
+    });
+    refund = {
+      provider: result.provider,
+      refundId: result.id,
+      amount,
+      status: result.status,
+      expectedBy: new Date(now.getTime() + policy.refundProcessingDays * DAY_MS),
+      processedAt: result.status === 'succeeded' ? now : undefined,
+    };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[Cancellations] ${bookingId}: ${provider.name} refund failed`, { error: message });
+    refund = { provider: provider.name, amount, status: 'failed', error: message };
+  }
+
+  if (refund.status === 'failed') {
+    const updated = await Booking.findOneAndUpdate(
+      { bookingId },
+      { $set: { 'cancellation.refund': refund } },
+      { new: true }
+    ).exec();
+    return { booking: updated ?? claimed, refund };
+  }
+
+  const refunded = await transitionBookingStatus(bookingId, 'refunded', {
+    actor: options.actor,
+    reason: `Refund of PHP ${amount.toLocaleString('en-PH')} issued via ${refund.provider}`,
+    set: { 'cancellation.refund': refund },
+  });
+  logger.info(`[Cancellations] ${bookingId}: refund ${refund.refundId} (${refund.status}) for PHP ${amount}`);
+  return { booking: refunded ?? claimed, refund };
+}
+
+export async function rejectCancellation(
+  bookingId: string,
+  options: { actor: IStatusActor; notes?: string }
+): Promise<IBooking | null> {
+  const booking = await Booking.findOne({ bookingId }).select('bookingId').lean().exec();
+  if (!booking) return null;
+
+  const updated = await Booking.findOneAndUpdate(
+    { bookingId, 'cancellation.status': 'requested' },
+    {
+      $set: {
+        'cancellation.status': 'rejected',
+        'cancellation.decidedAt': new Date(),
+        'cancellation.decidedBy': options.actor,
+        'cancellation.decisionNotes': options.notes,
+      },
+    },
+    { new: true }
+  ).exec();
+  if (!updated) {
+    throw new CancellationError('There is no pending cancellation request for this booking.');
+  }
+
+  await recordStatusEvent(bookingId, options.actor, `Cancellation request declined${options.notes ? `: ${options.notes}` : ''}`);
+  return Booking.findOne({ bookingId }).exec();
+}
+
+/**
+ * Record the outcome of a refund reported later by the provider (PayMongo
+ * webhook) or confirmed by staff for manual refunds.
+ */
+export async function updateRefundStatus(refundId: string, status: RefundStatus, error?: string): Promise<IBooking | null> {
+  const update: Record<string, unknown> = { 'cancellation.refund.status': status };
+  if (status === 'succeeded') update['cancellation.refund.processedAt'] = new Date();
+  if (error) update['cancellation.refund.error'] = error;
+
+  const booking = await Booking.findOneAndUpdate(
+    { 'cancellation.refund.refundId': refundId },
+    { $set: update },
+    { new: true }
+  ).exec();
+  if (booking) {
+    logger.info(`[Cancellations] ${booking.bookingId}: refund ${refundId} is now ${status}`);
+  }
+  return booking;
+}
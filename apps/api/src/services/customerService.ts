@@ -0,0 +1,597 @@
+import mongoose from 'mongoose';
+import Booking, { IBooking } from '../models/Booking';
+import CustomerInquiry, {
+  ICustomerInquiry,
+  CSRPriority,
+  InquiryStatus,
+} from '../models/CustomerInquiry';
+import CSRTask, { ICSRTask, CSRTaskStatus } from '../models/CSRTask';
+import Review from '../models/Review';
+import Tour from '../models/Tour';
+import User from '../models/User';
+import { AppError } from '../middleware/errorHandler';
+import { normalizeBookingStatus } from './bookingStatus';
+import { Permission, rolesWithPermission } from './permissions';
+import { parseDepartureStart } from './seatInventory';
+import { escapeRegex } from '../utils/regex';
+
+/**
+ * Customer Service
+ * Backs the admin customer service desk: inquiries with first-response SLAs,
+ * CSR tasks with assignment and due dates, and customer profiles. There is no
+ * separate customer collection; customers are derived from Booking records
+ * (plus registered client accounts) and keyed by lowercased email.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Hours allowed for the first staff reply, by priority
+export const SLA_RESPONSE_HOURS: Record<CSRPriority, number> = {
+  urgent: 2,
+  high: 8,
+  medium: 24,
+  low: 48,
+};
+
+// Staff with this permission work the customer service desk and can be assigned work
+const CSR_PERMISSION: Permission = 'canRespondToInquiries';
+
+const INQUIRY_STATUSES: InquiryStatus[] = ['open', 'in_progress', 'resolved', 'closed'];
+const OPEN_INQUIRY_STATUSES: InquiryStatus[] = ['open', 'in_progress'];
+const TASK_STATUSES: CSRTaskStatus[] = ['pending', 'in_progress', 'completed', 'cancelled'];
+const OPEN_TASK_STATUSES: CSRTaskStatus[] = ['pending', 'in_progress'];
+const PRIORITIES: CSRPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+export class CustomerServiceError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'CustomerServiceError';
+  }
+}
+
+export interface CSRActor {
+  id?: string;
+  name: string;
+}
+
+export function customerKey(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function computeSlaDueAt(priority: CSRPriority, from: Date = new Date()): Date {
+  return new Date(from.getTime() + SLA_RESPONSE_HOURS[priority] * HOUR_MS);
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = new Date(String(value));
+  if (value === undefined || value === null || value === '' || Number.isNaN(date.getTime())) {
+    throw new CustomerServiceError(`${field} must be a valid date`);
+  }
+  return date;
+}
+
+function parsePriority(value: unknown): CSRPriority {
+  if (!PRIORITIES.includes(value as CSRPriority)) {
+    throw new CustomerServiceError(`priority must be one of ${PRIORITIES.join(', ')}`);
+  }
+  return value as CSRPriority;
+}
+
+function parseStatus<T extends string>(value: unknown, allowed: T[]): T {
+  if (!allowed.includes(value as T)) {
+    throw new CustomerServiceError(`status must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Resolve an assignment to a desk user. Accepts a user id (assignedTo) or,
+ * for older clients, a display name (assignedCSR) which is kept as-is.
+ */
+async function resolveAssignee(assignedTo?: unknown, assignedCSR?: unknown): Promise<{ id?: mongoose.Types.ObjectId; name?: string }> {
+  if (assignedTo) {
+    if (!mongoose.isValidObjectId(assignedTo)) {
+      throw new CustomerServiceError('assignedTo must be a user id');
+    }
+    const roles = await rolesWithPermission(CSR_PERMISSION);
+    const user = await User.findOne({ _id: assignedTo, role: { $in: roles }, isActive: true }).select('fullName').lean();
+    if (!user) {
+      throw new CustomerServiceError('Assignee must be an active customer service user', 404);
+    }
+    return { id: user._id as mongoose.Types.ObjectId, name: user.fullName };
+  }
+  if (typeof assignedCSR === 'string' && assignedCSR.trim()) {
+    return { name: assignedCSR.trim() };
+  }
+  return {};
+}
+
+export async function listAgents() {
+  const roles = await rolesWithPermission(CSR_PERMISSION);
+  const users = await User.find({ role: { $in: roles }, isActive: true, isArchived: { $ne: true } })
+    .select('fullName email role')
+    .sort({ fullName: 1 })
+    .lean();
+  return users.map((u) => ({ id: String(u._id), fullName: u.fullName, email: u.email, role: u.role }));
+}
+
+// ── Customers ─────────────────────────────────────────────────────────────────
+
+interface BookingSummary {
+  _id: string;
+  customerName: string;
+  customerPhone?: string;
+  customerPassport?: string;
+  firstBookingAt: Date;
+  totalBookings: number;
+  totalSpent: number;
+}
+
+function toCustomer(
+  id: string,
+  summary: Partial<BookingSummary>,
+  user?: { fullName?: string; phone?: string; birthDate?: string; isActive?: boolean; createdAt?: Date },
+  lastContactAt?: Date
+) {
+  const phone = user?.phone || summary.customerPhone || '';
+  const registeredAt = user?.createdAt ?? summary.firstBookingAt;
+  return {
+    id,
+    fullName: user?.fullName || summary.customerName || id,
+    email: id,
+    phone,
+    nationality: '',
+    passportNumber: summary.customerPassport,
+    dateOfBirth: user?.birthDate || '',
+    address: { street: '', city: '', state: '', country: '', zipCode: '' },
+    contact: {
+      id: `contact-${id}`,
+      customerId: id,
+      primaryPhone: phone,
+      email: id,
+      preferredContactMethod: 'email',
+    },
+    preferences: {
+      tourTypes: [],
+      budgetRange: { min: 0, max: 0 },
+      groupSize: 0,
+      accessibility: [],
+      dietary: [],
+    },
+    notes: '',
+    isActive: user?.isActive ?? true,
+    registrationDate: registeredAt ? new Date(registeredAt).toISOString() : '',
+    lastContactDate: lastContactAt?.toISOString(),
+    totalBookings: summary.totalBookings ?? 0,
+    totalSpent: summary.totalSpent ?? 0,
+  };
+}
+
+async function summarizeBookings(match: Record<string, unknown> = {}): Promise<BookingSummary[]> {
+  return Booking.aggregate<BookingSummary>([
+    { $match: { customerEmail: { $type: 'string', $ne: '' }, ...match } },
+    { $sort: { createdAt: -1 } },
+    {
+      $group: {
+        _id: { $toLower: { $trim: { input: '$customerEmail' } } },
+        customerName: { $first: '$customerName' },
+        customerPhone: { $first: '$customerPhone' },
+        customerPassport: { $first: '$customerPassport' },
+        firstBookingAt: { $min: '$createdAt' },
+        totalBookings: { $sum: 1 },
+        // Money actually kept: refunded bookings don't count towards spend
+        totalSpent: {
+          $sum: { $cond: [{ $eq: ['$status', 'refunded'] }, 0, { $ifNull: ['$paidAmount', 0] }] },
+        },
+      },
+    },
+  ]);
+}
+
+async function lastContactByCustomer(customerIds?: string[]): Promise<Map<string, Date>> {
+  const rows = await CustomerInquiry.aggregate<{ _id: string; last: Date }>([
+    ...(customerIds ? [{ $match: { customerId: { $in: customerIds } } }] : []),
+    { $group: { _id: '$customerId', last: { $max: '$updatedAt' } } },
+  ]);
+  return new Map(rows.map((r) => [r._id, r.last]));
+}
+
+export async function listCustomers(search?: string) {
+  const [summaries, users, lastContact] = await Promise.all([
+    summarizeBookings(),
+    User.find({ role: 'client', isArchived: { $ne: true } })
+      .select('email fullName phone birthDate isActive createdAt')
+      .lean<Array<{ email: string; fullName: string; phone?: string; birthDate?: string; isActive: boolean; createdAt: Date }>>(),
+    lastContactByCustomer(),
+  ]);
+
+  const usersByEmail = new Map(users.map((u) => [customerKey(u.email), u]));
+  const customers = summaries.map((s) => toCustomer(s._id, s, usersByEmail.get(s._id), lastContact.get(s._id)));
+  const seen = new Set(summaries.map((s) => s._id));
+  for (const [email, user] of usersByEmail) {
+    if (!seen.has(email)) customers.push(toCustomer(email, {}, user, lastContact.get(email)));
+  }
+
+  const term = search?.trim().toLowerCase();
+  const filtered = term
+    ? customers.filter((c) => c.fullName.toLowerCase().includes(term) || c.email.includes(term) || c.phone.includes(term))
+    : customers;
+  return filtered.sort((a, b) => b.registrationDate.localeCompare(a.registrationDate));
+}
+
+export async function getCustomer(customerId: string) {
+  const id = customerKey(customerId);
+  const emailMatch = { $regex: `^\\s*${escapeRegex(id)}\\s*$`, $options: 'i' };
+  const [[summary], user, lastContact] = await Promise.all([
+    summarizeBookings({ customerEmail: emailMatch }),
+    User.findOne({ email: emailMatch, role: 'client' })
+      .select('email fullName phone birthDate isActive createdAt')
+      .lean<{ email: string; fullName: string; phone?: string; birthDate?: string; isActive: boolean; createdAt: Date }>(),
+    lastContactByCustomer([id]),
+  ]);
+  if (!summary && !user) return null;
+  return toCustomer(id, summary ?? {}, user ?? undefined, lastContact.get(id));
+}
+
+type TourHistoryStatus = 'booked' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
+
+function tourHistoryStatus(booking: IBooking, durationDays: number | undefined, now: Date): TourHistoryStatus {
+  const status = normalizeBookingStatus(booking.status);
+  if (status === 'cancelled' || status === 'refunded') return 'cancelled';
+  if (status === 'completed') return 'completed';
+  if (status !== 'confirmed') return 'booked';
+
+  const start = new Date(`${parseDepartureStart(booking.selectedDate)}T00:00:00`);
+  if (!Number.isNaN(start.getTime()) && start <= now) {
+    const end = new Date(start.getTime() + (durationDays ?? 1) * DAY_MS);
+    return now < end ? 'in_progress' : 'completed';
+  }
+  return 'confirmed';
+}
+
+/**
+ * A customer's trips, newest travel date first, built from their bookings
+ * with the tour's title/countries and any review they left for the booking.
+ */
+export async function getCustomerTourHistory(customerId: string, now: Date = new Date()) {
+  const id = customerKey(customerId);
+  const bookings = await Booking.find({
+    customerEmail: { $regex: `^\\s*${escapeRegex(id)}\\s*$`, $options: 'i' },
+  }).exec();
+  if (bookings.length === 0) return [];
+
+  const slugs = [...new Set(bookings.map((b) => b.tourSlug).filter((s): s is string => Boolean(s)))];
+  const [tours, reviews] = await Promise.all([
+    Tour.find({ slug: { $in: slugs } }).select('slug title durationDays additionalInfo').lean(),
+    Review.find({ bookingId: { $in: bookings.map((b) => b.bookingId) } }).select('bookingId rating comment createdAt').lean(),
+  ]);
+  const toursBySlug = new Map(tours.map((t) => [t.slug, t]));
+  const reviewsByBooking = new Map(reviews.map((r) => [r.bookingId, r]));
+
+  return bookings
+    .map((booking) => {
+      const tour = booking.tourSlug ? toursBySlug.get(booking.tourSlug) : undefined;
+      const countries = tour?.additionalInfo?.countriesVisited
+        ?? tour?.additionalInfo?.countries?.map((c) => c.name)
+        ?? [];
+      const review = reviewsByBooking.get(booking.bookingId);
+      return {
+        id: booking.bookingId,
+        customerId: id,
+        tourId: booking.tourSlug ?? '',
+        tourName: tour?.title ?? booking.tourSlug ?? 'Unknown tour',
+        tourDestination: countries.join(', '),
+        bookingDate: booking.bookingDate,
+        travelDate: parseDepartureStart(booking.selectedDate),
+        status: tourHistoryStatus(booking, tour?.durationDays, now),
+        amount: booking.totalAmount,
+        guests: booking.passengers,
+        specialRequests: booking.notes,
+        feedback: review
+          ? { rating: review.rating, comment: review.comment, date: new Date(review.createdAt).toISOString() }
+          : undefined,
+      };
+    })
+    .sort((a, b) => b.travelDate.localeCompare(a.travelDate));
+}
+
+// ── Inquiries ─────────────────────────────────────────────────────────────────
+
+export interface InquiryFilter {
+  search?: string;
+  status?: string;
+  category?: string;
+  priority?: string;
+  assignedToCSR?: string;
+  customerId?: string;
+}
+
+export async function listInquiries(filter: InquiryFilter = {}) {
+  const query: Record<string, unknown> = {};
+  if (filter.status) query.status = filter.status;
+  if (filter.category) query.category = filter.category;
+  if (filter.priority) query.priority = filter.priority;
+  if (filter.assignedToCSR) query.assignedToCSR = filter.assignedToCSR;
+  if (filter.customerId) query.customerId = customerKey(filter.customerId);
+  if (filter.search?.trim()) {
+    const term = { $regex: escapeRegex(filter.search.trim()), $options: 'i' };
+    query.$or = [{ subject: term }, { message: term }, { customerName: term }];
+  }
+  return CustomerInquiry.find(query).sort({ createdAt: -1 }).exec();
+}
+
+export async function createInquiry(input: Record<string, unknown>): Promise<ICustomerInquiry> {
+  const customerId = typeof input.customerId === 'string' ? customerKey(input.customerId) : '';
+  if (!customerId || !input.subject || !input.message) {
+    throw new CustomerServiceError('customerId, subject and message are required');
+  }
+  const priority = input.priority === undefined ? 'medium' : parsePriority(input.priority);
+  const assignee = await resolveAssignee(input.assignedTo, input.assignedToCSR);
+  const customer = input.customerName ? null : await getCustomer(customerId);
+
+  return CustomerInquiry.create({
+    customerId,
+    customerName: input.customerName || customer?.fullName || customerId,
+    subject: input.subject,
+    message: input.message,
+    category: input.category,
+    priority,
+    status: 'open',
+    contactMethod: input.contactMethod,
+    assignedToCSR: assignee.name,
+    assignedTo: assignee.id,
+    relatedTourId: input.relatedTourId,
+    relatedBookingId: input.relatedBookingId,
+    slaDueAt: computeSlaDueAt(priority),
+    responses: [],
+  });
+}
+
+/**
+ * Apply an update from the desk. Resolving stamps resolvedAt; changing the
+ * priority before anyone has replied moves the SLA deadline with it.
+ */
+export async function updateInquiry(id: string, updates: Record<string, unknown>): Promise<ICustomerInquiry | null> {
+  if (!mongoose.isValidObjectId(id)) return null;
+  const inquiry = await CustomerInquiry.findById(id).exec();
+  if (!inquiry) return null;
+
+  for (const field of ['subject', 'message', 'category', 'contactMethod', 'relatedTourId', 'relatedBookingId'] as const) {
+    if (updates[field] !== undefined) inquiry.set(field, updates[field]);
+  }
+
+  if (updates.priority !== undefined && updates.priority !== inquiry.priority) {
+    inquiry.priority = parsePriority(updates.priority);
+    if (!inquiry.firstResponseAt) inquiry.slaDueAt = computeSlaDueAt(inquiry.priority, inquiry.createdAt);
+  }
+
+  if (updates.assignedTo !== undefined || updates.assignedToCSR !== undefined) {
+    const assignee = await resolveAssignee(updates.assignedTo, updates.assignedToCSR);
+    inquiry.assignedToCSR = assignee.name;
+    inquiry.assignedTo = assignee.id;
+  }
+
+  if (updates.status !== undefined && updates.status !== inquiry.status) {
+    inquiry.status = parseStatus(updates.status, INQUIRY_STATUSES);
+    if (inquiry.status === 'resolved' || inquiry.status === 'closed') {
+      inquiry.resolvedAt = inquiry.resolvedAt ?? new Date();
+    } else {
+      inquiry.resolvedAt = undefined;
+    }
+  }
+
+  return inquiry.save();
+}
+
+/**
+ * Add a reply to the thread. The first staff reply settles the SLA and moves
+ * an open inquiry to in progress; a customer reply reopens a resolved one.
+ */
+export async function addInquiryResponse(
+  id: string,
+  input: { message?: string; isFromCustomer?: boolean; attachments?: string[] },
+  actor: CSRActor
+): Promise<ICustomerInquiry | null> {
+  if (!input.message?.trim()) {
+    throw new CustomerServiceError('message is required');
+  }
+  if (!mongoose.isValidObjectId(id)) return null;
+  const inquiry = await CustomerInquiry.findById(id).exec();
+  if (!inquiry) return null;
+
+  const now = new Date();
+  const isFromCustomer = input.isFromCustomer === true;
+  inquiry.responses.push({
+    message: input.message.trim(),
+    isFromCustomer,
+    csrName: isFromCustomer ? undefined : actor.name,
+    attachments: input.attachments,
+    createdAt: now,
+  });
+
+  if (isFromCustomer) {
+    if (inquiry.status === 'resolved') {
+      inquiry.status = 'open';
+      inquiry.resolvedAt = undefined;
+    }
+  } else {
+    inquiry.firstResponseAt = inquiry.firstResponseAt ?? now;
+    if (inquiry.status === 'open') inquiry.status = 'in_progress';
+  }
+
+  return inquiry.save();
+}
+
+// ── Tasks ─────────────────────────────────────────────────────────────────────
+
+export interface TaskFilter {
+  search?: string;
+  status?: string;
+  category?: string;
+  priority?: string;
+  assignedCSR?: string;
+  customerId?: string;
+  dueDateFrom?: string;
+  dueDateTo?: string;
+  overdue?: boolean;
+}
+
+export async function searchTasks(filter: TaskFilter = {}, now: Date = new Date()) {
+  const query: Record<string, unknown> = {};
+  if (filter.status) query.status = filter.status;
+  if (filter.category) query.category = filter.category;
+  if (filter.priority) query.priority = filter.priority;
+  if (filter.assignedCSR) query.assignedCSR = filter.assignedCSR;
+  if (filter.customerId) query.customerId = customerKey(filter.customerId);
+
+  const due: Record<string, Date> = {};
+  if (filter.dueDateFrom) due.$gte = parseDate(filter.dueDateFrom, 'dueDateFrom');
+  if (filter.dueDateTo) due.$lte = parseDate(filter.dueDateTo, 'dueDateTo');
+  if (filter.overdue) {
+    query.status = { $in: OPEN_TASK_STATUSES };
+    due.$lte = new Date(now.getTime() - DAY_MS);
+  }
+  if (Object.keys(due).length) query.dueDate = due;
+
+  if (filter.search?.trim()) {
+    const term = { $regex: escapeRegex(filter.search.trim()), $options: 'i' };
+    query.$or = [{ title: term }, { description: term }, { customerName: term }, { notes: term }];
+  }
+  return CSRTask.find(query).sort({ dueDate: 1 }).exec();
+}
+
+export async function getTask(id: string): Promise<ICSRTask | null> {
+  if (!mongoose.isValidObjectId(id)) return null;
+  return CSRTask.findById(id).exec();
+}
+
+export async function createTask(input: Record<string, unknown>, actor: CSRActor): Promise<ICSRTask> {
+  const customerId = typeof input.customerId === 'string' ? customerKey(input.customerId) : '';
+  if (!input.title || !customerId) {
+    throw new CustomerServiceError('title and customerId are required');
+  }
+  const dueDate = parseDate(input.dueDate, 'dueDate');
+  const priority = input.priority === undefined ? 'medium' : parsePriority(input.priority);
+  // Unassigned tasks land with whoever created them
+  const assignee = await resolveAssignee(input.assignedTo, input.assignedCSR);
+  const customer = input.customerName ? null : await getCustomer(customerId);
+
+  return CSRTask.create({
+    title: input.title,
+    description: input.description ?? '',
+    category: input.category,
+    priority,
+    status: 'pending',
+    assignedCSR: assignee.name ?? actor.name,
+    assignedTo: assignee.id ?? (actor.id && mongoose.isValidObjectId(actor.id) ? actor.id : undefined),
+    customerId,
+    customerName: input.customerName || customer?.fullName || customerId,
+    relatedInquiryId: input.relatedInquiryId,
+    relatedBookingId: input.relatedBookingId,
+    dueDate,
+    notes: input.notes ?? '',
+    createdBy: actor.name,
+  });
+}
+
+export async function updateTask(id: string, updates: Record<string, unknown>): Promise<ICSRTask | null> {
+  const task = await getTask(id);
+  if (!task) return null;
+
+  for (const field of ['title', 'description', 'category', 'notes', 'relatedInquiryId', 'relatedBookingId'] as const) {
+    if (updates[field] !== undefined) task.set(field, updates[field]);
+  }
+  if (updates.priority !== undefined) task.priority = parsePriority(updates.priority);
+  if (updates.dueDate !== undefined) task.dueDate = parseDate(updates.dueDate, 'dueDate');
+
+  if (updates.assignedTo !== undefined || updates.assignedCSR !== undefined) {
+    const assignee = await resolveAssignee(updates.assignedTo, updates.assignedCSR);
+    if (!assignee.name) throw new CustomerServiceError('A task must stay assigned to someone');
+    task.assignedCSR = assignee.name;
+    task.assignedTo = assignee.id;
+  }
+
+  if (updates.status !== undefined && updates.status !== task.status) {
+    task.status = parseStatus(updates.status, TASK_STATUSES);
+    task.completedAt = task.status === 'completed' ? new Date() : undefined;
+  }
+
+  return task.save();
+}
+
+export async function deleteTask(id: string): Promise<boolean> {
+  if (!mongoose.isValidObjectId(id)) return false;
+  const result = await CSRTask.deleteOne({ _id: id }).exec();
+  return result.deletedCount > 0;
+}
+
+// ── Stats ─────────────────────────────────────────────────────────────────────
+
+export interface CustomerServiceStats {
+  totalCustomers: number;
+  activeInquiries: number;
+  pendingTasks: number;
+  overdueTasks: number;
+  resolvedToday: number;
+  averageResponseTime: number; // hours to first staff reply
+  slaBreaches: number;
+  customerSatisfactionRate: number; // average review rating out of 5
+}
+
+export async function getCustomerServiceStats(now: Date = new Date()): Promise<CustomerServiceStats> {
+  const todayStart = new Date(now);
+  todayStart.setHours(0, 0, 0, 0);
+
+  const [
+    bookingEmails,
+    clientEmails,
+    activeInquiries,
+    pendingTasks,
+    overdueTasks,
+    resolvedToday,
+    responseTimes,
+    openBreaches,
+    answeredBreaches,
+    ratings,
+  ] = await Promise.all([
+    Booking.distinct('customerEmail'),
+    User.distinct('email', { role: 'client', isArchived: { $ne: true } }),
+    CustomerInquiry.countDocuments({ status: { $in: OPEN_INQUIRY_STATUSES } }),
+    CSRTask.countDocuments({ status: { $in: OPEN_TASK_STATUSES } }),
+    CSRTask.countDocuments({ status: { $in: OPEN_TASK_STATUSES }, dueDate: { $lte: new Date(now.getTime() - DAY_MS) } }),
+    CustomerInquiry.countDocuments({ resolvedAt: { $gte: todayStart } }),
+    CustomerInquiry.aggregate<{ avgMs: number }>([
+      { $match: { firstResponseAt: { $exists: true } } },
+      { $group: { _id: null, avgMs: { $avg: { $subtract: ['$firstResponseAt', '$createdAt'] } } } },
+    ]),
+    CustomerInquiry.countDocuments({
+      status: { $in: OPEN_INQUIRY_STATUSES },
+      firstResponseAt: { $exists: false },
+      slaDueAt: { $lt: now },
+    }),
+    CustomerInquiry.countDocuments({ $expr: { $gt: ['$firstResponseAt', '$slaDueAt'] } }),
+    Review.aggregate<{ avgRating: number }>([
+      { $match: { isApproved: true } },
+      { $group: { _id: null, avgRating: { $avg: '$rating' } } },
+    ]),
+  ]);
+
+  const customers = new Set(
+    [...bookingEmails, ...clientEmails]
+      .filter((e): e is string => typeof e === 'string' && e.trim() !== '')
+      .map(customerKey)
+  );
+  const avgMs = responseTimes[0]?.avgMs ?? 0;
+
+  return {
+    totalCustomers: customers.size,
+    activeInquiries,
+    pendingTasks,
+    overdueTasks,
+    resolvedToday,
+    averageResponseTime: Math.round((avgMs / HOUR_MS) * 10) / 10,
+    slaBreaches: openBreaches + answeredBreaches,
+    customerSatisfactionRate: Math.round((ratings[0]?.avgRating ?? 0) * 10) / 10,
+  };
+}
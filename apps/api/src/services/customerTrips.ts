@@ -0,0 +1,198 @@
+import Booking, { IBooking } from '../models/Booking';
+import User from '../models/User';
+import { AppError } from '../middleware/errorHandler';
+import { CLOSED_STATUSES, normalizeBookingStatus } from './bookingStatus';
+import {
+  CancellationQuote,
+  CancellationRequestSummary,
+  departureDate,
+  getCancellationQuote,
+  requestCancellation,
+} from './cancellationService';
+import { getBalanceSummary, BalanceSummary } from './installmentService';
+import { updateBookingTravellers } from './travellerManifest';
+import { TRAVEL_DOCUMENT_TYPES, TravelDocumentType, isOwnTravelDocument } from './documentStorage';
+import { escapeRegex } from '../utils/regex';
+
+/**
+ * Customer Trips
+ * A signed-in customer's own bookings ("My Trips"). A booking belongs to a
+ * customer when it was made while signed in, or when it was made as a guest
+ * with the address the customer has verified. Travellers can be edited up to
+ * a cutoff before departure; passport and visa copies can be added any time
+ * before the trip, and a cancellation can be requested until the online
+ * cutoff.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRAVELLER_EDIT_CUTOFF_DAYS = Number(process.env.TRAVELLER_EDIT_CUTOFF_DAYS) || 14;
+
+// Admin-only history, staff notes, assignment and bookkeeping the customer does not see
+export const TRIP_PROJECTION = [
+  '-statusHistory', '-archived', '-archivedAt',
+  '-notes', '-visaAssistanceNotes', '-assignedTo', '-assignedToName',
+  '-recordedPaymentIds', '-pricingQuote',
+].join(' ');
+
+export class CustomerTripError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'CustomerTripError';
+  }
+}
+
+export interface CustomerTrip {
+  booking: IBooking;
+  balance: BalanceSummary;
+  travellerEditCutoff?: Date;
+  canEditTravellers: boolean;
+  missingDocuments: TravelDocumentType[];
+}
+
+// customerEmail is stored as typed, so match it case-insensitively
+export function customerEmailMatch(email: string): Record<string, string> {
+  return { $regex: `^\\s*${escapeRegex(email.trim())}\\s*$`, $options: 'i' };
+}
+
+// Query for the customer's bookings; also decides which visa applications are theirs
+export async function ownershipFilter(userId: string): Promise<Record<string, unknown>> {
+  const user = await User.findById(userId).select('email isEmailVerified').lean().exec();
+  if (!user) throw new CustomerTripError('Account not found', 404);
+
+  const owners: Record<string, unknown>[] = [{ user: userId }];
+  // An unverified address could belong to someone else's guest bookings
+  if (user.isEmailVerified) {
+    owners.push({ customerEmail: customerEmailMatch(user.email) });
+  }
+  return { $or: owners, archived: { $ne: true } };
+}
+
+export function travellerEditCutoff(booking: Pick<IBooking, 'selectedDate'>): Date | undefined {
+  const departure = departureDate(booking);
+  return departure ? new Date(departure.getTime() - TRAVELLER_EDIT_CUTOFF_DAYS * DAY_MS) : undefined;
+}
+
+export function isTripClosed(booking: Pick<IBooking, 'status'>): boolean {
+  return CLOSED_STATUSES.includes(normalizeBookingStatus(booking.status));
+}
+
+export function toCustomerTrip(booking: IBooking, now: Date = new Date()): CustomerTrip {
+  const cutoff = travellerEditCutoff(booking);
+  return {
+    booking,
+    balance: getBalanceSummary(booking),
+    travellerEditCutoff: cutoff,
+    canEditTravellers: !isTripClosed(booking) && (!cutoff || now < cutoff),
+    missingDocuments: TRAVEL_DOCUMENT_TYPES.filter((type) => !booking[`${type}Url`]),
+  };
+}
+
+export async function listCustomerTrips(userId: string): Promise<CustomerTrip[]> {
+  const bookings = await Booking.find(await ownershipFilter(userId))
+    .select(TRIP_PROJECTION)
+    .sort({ createdAt: -1 })
+    .exec();
+  return bookings.map((booking) => toCustomerTrip(booking));
+}
+
+// Someone else's booking is reported as missing rather than forbidden
+export async function getCustomerBooking(userId: string, bookingId: string): Promise<IBooking> {
+  const booking = await Booking.findOne({ ...(await ownershipFilter(userId)), bookingId })
+    .select(TRIP_PROJECTION)
+    .exec();
+  if (!booking) throw new CustomerTripError('Booking not found', 404);
+  return booking;
+}
+
+export async function getCustomerTrip(userId: string, bookingId: string): Promise<CustomerTrip> {
+  return toCustomerTrip(await getCustomerBooking(userId, bookingId));
+}
+
+/**
+ * Replace the traveller list on one of the customer's trips. Closes
+ * TRAVELLER_EDIT_CUTOFF_DAYS before departure, when rooming and tickets are
+ * being finalised.
+ */
+export async function updateTripTravellers(userId: string, bookingId: string, input: unknown): Promise<CustomerTrip> {
+  const trip = await getCustomerTrip(userId, bookingId);
+  if (!trip.canEditTravellers) {
+    throw new CustomerTripError(
+      isTripClosed(trip.booking)
+        ? `This booking is ${normalizeBookingStatus(trip.booking.status)} and can no longer be changed.`
+        : `Traveller details can only be changed online until ${TRAVELLER_EDIT_CUTOFF_DAYS} days before departure. Please contact us.`,
+      409
+    );
+  }
+
+  await updateBookingTravellers(bookingId, input);
+  return getCustomerTrip(userId, bookingId);
+}
+
+/**
+ * Attach an uploaded passport or visa copy to one of the customer's trips.
+ * Only files from the document upload route are accepted, and only from the
+ * customer's own upload folder.
+ */
+export async function attachTripDocument(
+  userId: string,
+  bookingId: string,
+  type: unknown,
+  url: unknown
+): Promise<CustomerTrip> {
+  if (!TRAVEL_DOCUMENT_TYPES.includes(type as TravelDocumentType)) {
+    throw new CustomerTripError(`type must be one of: ${TRAVEL_DOCUMENT_TYPES.join(', ')}`);
+  }
+  if (!isOwnTravelDocument(url, userId, [type as TravelDocumentType])) {
+    throw new CustomerTripError('Upload the file with the document upload first and send the URL it returned');
+  }
+
+  const trip = await getCustomerTrip(userId, bookingId);
+  if (isTripClosed(trip.booking)) {
+    throw new CustomerTripError(`This booking is ${normalizeBookingStatus(trip.booking.status)} and can no longer be changed.`, 409);
+  }
+
+  await setTripDocument(bookingId, type as TravelDocumentType, url);
+  return getCustomerTrip(userId, bookingId);
+}
+
+// Refund the customer would get if they cancelled one of their trips now
+export async function getTripCancellationQuote(userId: string, bookingId: string): Promise<CancellationQuote> {
+  await getCustomerBooking(userId, bookingId);
+  const quote = await getCancellationQuote(bookingId);
+  if (!quote) throw new CustomerTripError('Booking not found', 404);
+  return quote;
+}
+
+// Ask staff to cancel one of the customer's trips; see cancellationService
+export async function requestTripCancellation(
+  userId: string,
+  bookingId: string,
+  reason: unknown
+): Promise<CancellationRequestSummary> {
+  const booking = await getCustomerBooking(userId, bookingId);
+  const summary = await requestCancellation(bookingId, {
+    actor: { type: 'customer', id: userId, name: booking.customerName },
+    reason: typeof reason === 'string' ? reason : undefined,
+  });
+  if (!summary) throw new CustomerTripError('Booking not found', 404);
+  return summary;
+}
+
+export async function setTripDocument(bookingId: string, type: TravelDocumentType, url: string): Promise<void> {
+  await Booking.updateOne({ bookingId }, { $set: { [`${type}Url`]: url } }).exec();
+}
+
+/**
+ * Make a verified customer the owner of the guest bookings made with their
+ * email address, so they stay theirs if the account email changes later.
+ */
+export async function claimGuestBookings(userId: string): Promise<number> {
+  const user = await User.findById(userId).select('email isEmailVerified').lean().exec();
+  if (!user?.isEmailVerified) return 0;
+
+  const { modifiedCount } = await Booking.updateMany(
+    { customerEmail: customerEmailMatch(user.email), user: null },
+    { $set: { user: userId } }
+  ).exec();
+  return modifiedCount;
+}
@@ -0,0 +1,98 @@
+import { v2 as cloudinary } from 'cloudinary';
+import { Readable } from 'stream';
+
+/**
+ * Document Storage
+ * Cloudinary uploads shared by the admin media routes and the customer
+ * travel-document uploads (signed-in or through a booking access link).
+ */
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+  secure: true,
+});
+
+export type TravelDocumentType = 'passport' | 'visa';
+
+export const TRAVEL_DOCUMENT_TYPES: TravelDocumentType[] = ['passport', 'visa'];
+export const TRAVEL_DOCUMENT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export interface StoredDocument {
+  url: string;
+  publicId: string;
+  // Cloudinary is not configured; nothing was stored
+  stub?: boolean;
+}
+
+export function isCloudinaryConfigured(): boolean {
+  return !!(
+    process.env.CLOUDINARY_CLOUD_NAME &&
+    process.env.CLOUDINARY_API_KEY &&
+    process.env.CLOUDINARY_API_SECRET
+  );
+}
+
+/**
+ * True when the URL is a file stored by storeTravelDocument in the owner's
+ * folder for one of the given types, i.e. one the owner uploaded themselves.
+ */
+export function isOwnTravelDocument(url: unknown, owner: string, types: TravelDocumentType[] = TRAVEL_DOCUMENT_TYPES): url is string {
+  return typeof url === 'string'
+    && (url.startsWith('https://res.cloudinary.com/') || url.startsWith('/uploads/stub/'))
+    && types.some((type) => url.includes(`/documents/${type}s/${owner}/`));
+}
+
+/**
+ * Upload a buffer to Cloudinary and return the secure URL.
+ */
+export function uploadToCloudinary(
+  buffer: Buffer,
+  options: {
+    folder: string;
+    publicId?: string;
+    resourceType?: 'image' | 'video' | 'raw' | 'auto';
+    mimeType?: string;
+  }
+): Promise<{ url: string; publicId: string }> {
+  return new Promise((resolve, reject) => {
+    const uploadStream = cloudinary.uploader.upload_stream(
+      {
+        folder: options.folder,
+        public_id: options.publicId,
+        resource_type: options.mimeType === 'application/pdf' ? 'raw' : (options.resourceType ?? 'auto'),
+      },
+      (error, result) => {
+        if (error || !result) return reject(error ?? new Error('Cloudinary upload failed'));
+        resolve({ url: result.secure_url, publicId: result.public_id });
+      }
+    );
+    Readable.from(buffer).pipe(uploadStream);
+  });
+}
+
+/**
+ * Store a passport or visa copy under documents/<type>s/<owner>. The owner
+ * folder is what later proves who uploaded a file. When Cloudinary is not yet
+ * configured a stub URL is returned so the booking flow can continue.
+ */
+export async function storeTravelDocument(
+  file: { buffer: Buffer; mimetype: string; size: number },
+  type: TravelDocumentType,
+  owner: string
+): Promise<StoredDocument> {
+  if (!isCloudinaryConfigured()) {
+    const stubFileName = `documents/${type}s/${owner}/${Date.now()}.stub`;
+    console.warn('[Cloudinary Document Upload] Not configured  returning stub URL.', {
+      docType: type, owner, size: file.size,
+    });
+    return { url: `/uploads/stub/${stubFileName}`, publicId: stubFileName, stub: true };
+  }
+
+  return uploadToCloudinary(file.buffer, {
+    folder: `discovergrp/documents/${type}s/${owner}`,
+    mimeType: file.mimetype,
+  });
+}
@@ -0,0 +1,227 @@
+import os from 'os';
+import { Types } from 'mongoose';
+import OutboundEmail, { IEmailDeliveryAttempt, IOutboundEmail, OutboundEmailStatus } from '../models/OutboundEmail';
+import { AppError } from '../middleware/errorHandler';
+import type { EmailLocale, EmailTemplateKey } from '../templates/email';
+import { getEmailTransport } from './emailTransports';
+import logger from '../utils/logger';
+
+/**
+ * Email Outbox
+ * Every outgoing email is stored before it is sent, then handed to the
+ * configured transport. A failed send stays queued and is retried by the
+ * email-outbox job with a growing delay; once it runs out of attempts it is
+ * dead-lettered until an admin retries it. Emails about a booking keep their
+ * bookingId, which gives each booking a delivery history.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = MINUTE_MS;
+const RETRY_MAX_DELAY_MS = 60 * MINUTE_MS;
+// A send still unfinished after this is assumed to have died with its process
+const STALE_LOCK_MS = 10 * MINUTE_MS;
+const BATCH_SIZE = 50;
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+// Message bodies can hold one-time links (password resets); lists leave them out
+const LIST_PROJECTION = '-html -text';
+
+export class EmailOutboxError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'EmailOutboxError';
+  }
+}
+
+export interface QueueEmailInput {
+  templateKey: EmailTemplateKey;
+  locale: EmailLocale;
+  bookingId?: string;
+  from: string;
+  to: string | string[];
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+  requestedBy?: string;
+  maxAttempts?: number;
+}
+
+export type OutboxRunResult = {
+  sent: number;
+  retrying: number;
+  dead: number;
+  // Emails taken back from an instance that stopped mid-send
+  released: number;
+};
+
+// Wait after the nth failed attempt: 1, 2, 4 … minutes, at most an hour
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+// The server refused every recipient; sending the same message again cannot succeed
+const isPermanentFailure = (err: unknown) => (err as { code?: string } | null)?.code === 'EENVELOPE';
+
+/**
+ * Store an email and make the first attempt straight away, so a healthy
+ * transport adds no delay. Resolves once the email is safely queued, whether
+ * or not that attempt succeeded.
+ */
+export async function queueEmail(input: QueueEmailInput): Promise<IOutboundEmail> {
+  const email = await OutboundEmail.create({
+    templateKey: input.templateKey,
+    locale: input.locale,
+    bookingId: input.bookingId,
+    from: input.from,
+    to: Array.isArray(input.to) ? input.to : [input.to],
+    replyTo: input.replyTo,
+    subject: input.subject,
+    html: input.html,
+    text: input.text,
+    status: 'queued',
+    maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    nextAttemptAt: new Date(),
+    requestedBy: input.requestedBy,
+  });
+  return (await deliverOutboundEmail(email.id)) ?? email;
+}
+
+/**
+ * Send one queued email and record the attempt. Returns the email as it
+ * ended up, or null when it was not queued (already sent, or being sent
+ * by another instance).
+ */
+export async function deliverOutboundEmail(id: Types.ObjectId | string): Promise<IOutboundEmail | null> {
+  const email = await OutboundEmail.findOneAndUpdate(
+    { _id: id, status: 'queued' },
+    { $set: { status: 'sending', lockedAt: new Date(), lockedBy: INSTANCE_ID } },
+    { new: true }
+  ).exec();
+  if (!email) return null;
+
+  const transport = getEmailTransport();
+  const attempts = email.attempts + 1;
+  const startedAt = Date.now();
+  try {
+    const result = await transport.send({
+      from: email.from,
+      to: email.to,
+      replyTo: email.replyTo,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+    const attempt: IEmailDeliveryAttempt = {
+      at: new Date(startedAt),
+      transport: transport.name,
+      succeeded: true,
+      messageId: result.messageId,
+      durationMs: Date.now() - startedAt,
+    };
+    logger.info(`[Email] ${email.templateKey} sent to ${email.to.join(', ')} via ${transport.name} (${result.messageId})`);
+    if (result.previewUrl) logger.info(`[Email] Preview: ${result.previewUrl}`);
+    return await OutboundEmail.findByIdAndUpdate(email._id, {
+      $set: { status: 'sent', attempts, sentAt: new Date(), messageId: result.messageId, previewUrl: result.previewUrl },
+      $unset: { lockedAt: 1, lockedBy: 1, lastError: 1 },
+      $push: { attemptLog: attempt },
+    }, { new: true }).exec();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const attempt: IEmailDeliveryAttempt = {
+      at: new Date(startedAt),
+      transport: transport.name,
+      succeeded: false,
+      error: message,
+      durationMs: Date.now() - startedAt,
+    };
+    const dead = attempts >= email.maxAttempts || isPermanentFailure(err);
+    const nextAttemptAt = new Date(Date.now() + retryDelayMs(attempts));
+    if (dead) {
+      logger.error(`[Email] ${email.templateKey} to ${email.to.join(', ')} dead-lettered after ${attempts} attempt(s): ${message}`);
+    } else {
+      logger.warn(`[Email] ${email.templateKey} to ${email.to.join(', ')} failed (attempt ${attempts}/${email.maxAttempts}), retrying at ${nextAttemptAt.toISOString()}: ${message}`);
+    }
+    return await OutboundEmail.findByIdAndUpdate(email._id, {
+      $set: { status: dead ? 'dead' : 'queued', attempts, lastError: message, ...(dead ? {} : { nextAttemptAt }) },
+      $unset: { lockedAt: 1, lockedBy: 1 },
+      $push: { attemptLog: attempt },
+    }, { new: true }).exec();
+  }
+}
+
+/**
+ * Send every email whose retry is due. Emails left mid-send by a stopped
+ * instance are queued again first; one of those may already have gone out,
+ * so a rare duplicate is preferred over a lost email.
+ */
+export async function processEmailOutbox(): Promise<OutboxRunResult> {
+  const now = new Date();
+  const { modifiedCount: released } = await OutboundEmail.updateMany(
+    { status: 'sending', lockedAt: { $lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+    { $set: { status: 'queued', nextAttemptAt: now }, $unset: { lockedAt: 1, lockedBy: 1 } }
+  ).exec();
+
+  const due = await OutboundEmail.find({ status: 'queued', nextAttemptAt: { $lte: now } })
+    .sort({ nextAttemptAt: 1 })
+    .limit(BATCH_SIZE)
+    .select('_id')
+    .lean<Array<{ _id: Types.ObjectId }>>()
+    .exec();
+
+  const result: OutboxRunResult = { sent: 0, retrying: 0, dead: 0, released };
+  for (const { _id } of due) {
+    const email = await deliverOutboundEmail(_id);
+    if (email?.status === 'sent') result.sent++;
+    else if (email?.status === 'queued') result.retrying++;
+    else if (email?.status === 'dead') result.dead++;
+  }
+  return result;
+}
+
+// Delivery history of one booking, newest first, without message bodies
+export async function listBookingEmails(bookingId: string): Promise<IOutboundEmail[]> {
+  return OutboundEmail.find({ bookingId })
+    .select(LIST_PROJECTION)
+    .sort({ createdAt: -1 })
+    .exec();
+}
+
+export async function listOutboundEmails(
+  filter: { status?: OutboundEmailStatus; limit?: number } = {}
+): Promise<IOutboundEmail[]> {
+  return OutboundEmail.find(filter.status ? { status: filter.status } : {})
+    .select(LIST_PROJECTION)
+    .sort({ updatedAt: -1 })
+    .limit(Math.min(filter.limit ?? 100, 500))
+    .exec();
+}
+
+// One email without its bodies
+export async function getOutboundEmail(id: string): Promise<IOutboundEmail> {
+  const email = Types.ObjectId.isValid(id) ? await OutboundEmail.findById(id).select(LIST_PROJECTION).exec() : null;
+  if (!email) throw new EmailOutboxError('Email not found', 404);
+  return email;
+}
+
+/**
+ * Send a dead-lettered (or still retrying) email again now, with a fresh set
+ * of attempts. The attempt log keeps the earlier failures.
+ */
+export async function retryOutboundEmail(id: string, requestedBy: string): Promise<IOutboundEmail> {
+  const email = await getOutboundEmail(id);
+  if (email.status === 'sent') throw new EmailOutboxError('This email was already delivered; send it again instead', 409);
+  if (email.status === 'sending') throw new EmailOutboxError('This email is being sent right now', 409);
+
+  const requeued = await OutboundEmail.findOneAndUpdate(
+    { _id: email._id, status: email.status },
+    { $set: { status: 'queued', attempts: 0, nextAttemptAt: new Date(), requestedBy } },
+    { new: true }
+  ).exec();
+  if (!requeued) throw new EmailOutboxError('This email changed while retrying; reload and try again', 409);
+
+  logger.info(`[Email] ${email.templateKey} to ${email.to.join(', ')} requeued by ${requestedBy}`);
+  await deliverOutboundEmail(requeued.id);
+  return getOutboundEmail(id);
+}
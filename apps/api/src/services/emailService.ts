@@ -1,5 +1,10 @@
-import nodemailer from 'nodemailer';
-
+import type { AppliedPerk } from './pricingService';
+import type { IBooking } from '../models/Booking';
+import type { IVisaApplication, VisaApplicationStatus } from '../models/VisaApplication';
+import type { OutboundEmailStatus } from '../models/OutboundEmail';
+import type { EmailLocale, EmailTemplateKey } from '../templates/email';
+import { normalizeEmailLocale, renderEmail, RenderedEmail } from './emailTemplates';
+import { queueEmail } from './emailOutbox';
 import { getBookingDepartmentEmail, getSalesDepartmentEmail, getEmailFromAddress, getEmailFromName } from '../routes/admin/settings';
 
 interface CustomRoute {
@@ -11,7 +16,7 @@ interface CustomRoute {
   insertAfterDay: number;
 }
 
-interface BookingDetails {
+export interface BookingDetails {
   bookingId: string;
   customerName: string;
   customerEmail: string;
@@ -48,472 +53,168 @@ interface BookingDetails {
   // Passport assistance
   passportAssistanceRequested?: boolean;
   passportAssistanceFee?: number;
+  // Tour freebies and promo perks applied to the booking
+  perks?: Array<Pick<AppliedPerk, 'label' | 'discountPerPerson'>>;
+  // Language of the customer's emails; English when not given
+  locale?: EmailLocale;
 }
 
-// Create transporter - using Gmail for real email sending
-const createTransporter = async () => {
-  // Use Gmail SMTP for sending real emails
-  if (process.env.GMAIL_USER && process.env.GMAIL_APP_PASSWORD) {
-    console.log('📧 Using Gmail SMTP for real email delivery to:', process.env.GMAIL_USER);
-    return nodemailer.createTransport({
-      service: 'gmail',
-      auth: {
-        user: process.env.GMAIL_USER,
-        pass: process.env.GMAIL_APP_PASSWORD,
-      },
-    });
-  }
-
-  // Fallback to Ethereal Email for development testing
-  console.warn('⚠️ GMAIL_USER/GMAIL_APP_PASSWORD not set — falling back to Ethereal (fake SMTP). Emails will NOT be delivered to real inboxes!');
-  const testAccount = await nodemailer.createTestAccount();
-  console.log('📧 Ethereal test credentials:', testAccount.user);
-  
-  return nodemailer.createTransport({
-    host: 'smtp.ethereal.email',
-    port: 587,
-    secure: false,
-    auth: {
-      user: testAccount.user,
-      pass: testAccount.pass,
-    },
-  });
+const clientUrl = () => process.env.CLIENT_URL || 'https://discover-grp.netlify.app';
+const adminUrl = () => process.env.ADMIN_URL || 'https://admin.discovergrp.com';
+
+// Template variables for a booking (see templates/email/bookingVariables)
+export const bookingTemplateData = (booking: BookingDetails): Record<string, unknown> => {
+  const visaAssistanceFee = booking.visaAssistanceFee ?? 10000;
+  const travelInsuranceFee = booking.travelInsuranceFee ?? 3000;
+  const downpaymentAmount = booking.isDownpaymentOnly ? booking.downpaymentAmount ?? 0 : null;
+  return {
+    bookingId: booking.bookingId,
+    bookingUrl: `${clientUrl()}/booking-confirmation/${booking.bookingId}`,
+    adminBookingUrl: `${adminUrl()}/bookings/${booking.bookingId}`,
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    customerPhone: booking.customerPhone || null,
+    tourTitle: booking.tourTitle,
+    tourDate: booking.tourDate || null,
+    passengers: booking.passengers,
+    singlePassenger: booking.passengers === 1,
+    pricePerPerson: booking.pricePerPerson,
+    totalAmount: booking.totalAmount,
+    isDownpaymentOnly: Boolean(booking.isDownpaymentOnly),
+    downpaymentAmount,
+    remainingBalance: downpaymentAmount === null ? null : booking.remainingBalance ?? booking.totalAmount - downpaymentAmount,
+    paymentMethod: booking.paymentMethod || null,
+    paymentMethodIcon: booking.paymentMethodIcon ?? '💳',
+    paymentMethodDescription: booking.paymentMethodDescription || null,
+    paymentGateway: booking.paymentGateway || null,
+    hasAppointment: Boolean(booking.appointmentDate && booking.appointmentTime),
+    appointmentDate: booking.appointmentDate || null,
+    appointmentTime: booking.appointmentTime || null,
+    appointmentPurpose: booking.appointmentPurpose || null,
+    hasAddOns: Boolean(booking.visaAssistanceRequested || booking.travelInsuranceRequested || booking.passportAssistanceRequested),
+    visaAssistanceRequested: Boolean(booking.visaAssistanceRequested),
+    visaAssistanceFee,
+    visaAssistanceTotal: visaAssistanceFee * booking.passengers,
+    visaPax: booking.visaPaxDetails ?? [],
+    travelInsuranceRequested: Boolean(booking.travelInsuranceRequested),
+    travelInsuranceFee,
+    travelInsuranceTotal: travelInsuranceFee * booking.passengers,
+    insurancePax: booking.travelInsurancePax ?? [],
+    passportAssistanceRequested: Boolean(booking.passportAssistanceRequested),
+    passportAssistanceFee: booking.passportAssistanceFee ?? null,
+    perks: (booking.perks ?? []).map((perk) => ({
+      label: perk.label,
+      discountTotal: perk.discountPerPerson * booking.passengers,
+      included: perk.discountPerPerson <= 0,
+    })),
+  };
 };
 
-// Format a tour date (handles single dates and "YYYY-MM-DD - YYYY-MM-DD" ranges)
-const formatTourDate = (tourDate: string): string => {
-  if (!tourDate || tourDate === '') return 'Date to be confirmed';
-  if (tourDate.includes(' - ')) {
-    const [s, e] = tourDate.split(' - ').map(d => d.trim());
-    const start = new Date(s);
-    const end = new Date(e);
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) return tourDate;
-    const fmt = (d: Date) => d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-    return `${fmt(start)} – ${fmt(end)}`;
-  }
-  const d = new Date(tourDate);
-  if (isNaN(d.getTime())) return tourDate;
-  return d.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+// Email details for a stored booking, e.g. to preview templates with real data
+export const bookingDetailsFromRecord = (booking: IBooking): BookingDetails => {
+  const isDownpaymentOnly = booking.paidAmount < booking.totalAmount;
+  return {
+    bookingId: booking.bookingId,
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    customerPhone: booking.customerPhone,
+    tourTitle: booking.tourSlug ?? '',
+    tourDate: booking.selectedDate,
+    passengers: booking.passengers,
+    pricePerPerson: booking.perPerson,
+    totalAmount: booking.totalAmount,
+    downpaymentAmount: isDownpaymentOnly ? booking.paidAmount : undefined,
+    remainingBalance: isDownpaymentOnly ? booking.totalAmount - booking.paidAmount : undefined,
+    isDownpaymentOnly,
+    appointmentDate: booking.appointmentDate,
+    appointmentTime: booking.appointmentTime,
+    appointmentPurpose: booking.appointmentPurpose,
+    paymentMethod: booking.paymentType,
+    customRoutes: booking.customRoutes,
+    visaAssistanceRequested: booking.visaAssistanceRequested,
+    visaAssistanceFee: booking.visaAssistanceFee,
+    visaPaxDetails: booking.visaPaxDetails,
+    travelInsuranceRequested: booking.travelInsuranceRequested,
+    travelInsuranceFee: booking.travelInsuranceFee,
+    travelInsurancePax: booking.insurancePaxDetails,
+    passportAssistanceRequested: booking.passportAssistanceRequested,
+    passportAssistanceFee: booking.passportAssistanceFee,
+    perks: booking.pricingQuote?.perks,
+    locale: normalizeEmailLocale(booking.locale),
+  };
 };
 
-const fmtPHP = (amount: number) =>
-  `PHP ${amount.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
-const fmtPurpose = (purpose?: string): string => {
-  if (!purpose) return 'Consultation';
-  return purpose.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
-};
+export interface EmailSendResult {
+  // The email is queued; a failed first attempt is retried by the outbox
+  success: boolean;
+  outboxId?: string;
+  status?: OutboundEmailStatus;
+  messageId?: string;
+  previewUrl?: string;
+  error?: string;
+}
+
+interface QueueOptions {
+  bookingId?: string;
+  replyTo?: string;
+  // Admin who asked for the email to be sent again
+  requestedBy?: string;
+}
 
-// Generate booking confirmation email HTML
-const generateBookingConfirmationEmail = (booking: BookingDetails): string => {
-  const bookingDetailsUrl = `${process.env.CLIENT_URL || 'https://discover-grp.netlify.app'}/booking-confirmation/${booking.bookingId}`;
-
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Booking Confirmation - Discover Group</title>
-    <style>
-        * { margin: 0; padding: 0; box-sizing: border-box; }
-        body {
-            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-            line-height: 1.6; color: #333; background-color: #f5f5f5; padding: 20px;
-        }
-        .email-container {
-            max-width: 650px; margin: 0 auto; background: #ffffff;
-            border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);
-        }
-        .header {
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 50%, #f093fb 100%);
-            color: white; padding: 40px 30px; text-align: center;
-        }
-        .header h1 { font-size: 32px; margin-bottom: 10px; font-weight: 700; }
-        .header p { font-size: 16px; opacity: 0.95; }
-        .content { padding: 40px 30px; }
-        .greeting { font-size: 20px; font-weight: 600; color: #1a202c; margin-bottom: 20px; }
-        .intro-text { color: #4a5568; margin-bottom: 30px; font-size: 15px; line-height: 1.7; }
-        .booking-card {
-            background: linear-gradient(135deg, #f7fafc 0%, #edf2f7 100%);
-            padding: 25px; border-radius: 12px; border-left: 5px solid #667eea; margin: 25px 0;
-        }
-        .booking-card h3 { color: #2d3748; font-size: 18px; margin-bottom: 20px; }
-        .detail-row {
-            display: flex; justify-content: space-between;
-            padding: 12px 0; border-bottom: 1px solid #e2e8f0;
-        }
-        .detail-row:last-child { border-bottom: none; }
-        .detail-label { font-weight: 600; color: #4a5568; font-size: 14px; }
-        .detail-value { color: #1a202c; font-size: 14px; text-align: right; max-width: 60%; }
-        .payment-method-card {
-            background: linear-gradient(135deg, #667eea15 0%, #764ba215 100%);
-            border: 2px solid #667eea40; padding: 20px; border-radius: 10px; margin: 20px 0;
-        }
-        .payment-method-card h4 { color: #667eea; font-size: 16px; margin-bottom: 15px; }
-        .payment-terms {
-            background: #fff7ed; border: 2px solid #fed7aa; border-radius: 10px;
-            padding: 20px; margin: 20px 0;
-        }
-        .payment-terms h4 { color: #ea580c; font-size: 16px; margin-bottom: 12px; }
-        .payment-terms ul { margin-left: 20px; color: #7c2d12; }
-        .payment-terms li { margin: 8px 0; font-size: 14px; }
-        .appointment-card {
-            background: #fffbeb; border: 2px solid #fcd34d; border-radius: 10px;
-            padding: 20px; margin: 20px 0;
-        }
-        .appointment-card h4 { color: #d97706; font-size: 16px; margin-bottom: 15px; }
-        .total-section {
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            color: white; padding: 20px; border-radius: 10px; margin: 25px 0;
-        }
-        .total-section .total-row { display: flex; justify-content: space-between; align-items: center; }
-        .total-section .total-label { font-size: 16px; font-weight: 600; }
-        .total-section .total-amount { font-size: 32px; font-weight: 700; }
-        .info-card {
-            background: #f0fdf4; border-left: 4px solid #10b981;
-            padding: 20px; border-radius: 8px; margin: 25px 0;
-        }
-        .info-card h3 { color: #065f46; font-size: 18px; margin-bottom: 15px; }
-        .info-card ul { list-style: none; padding: 0; }
-        .info-card li {
-            padding: 8px 0 8px 25px; position: relative;
-            color: #047857; font-size: 14px;
-        }
-        .info-card li:before { content: "✓"; position: absolute; left: 0; color: #10b981; font-weight: bold; }
-        .contact-card {
-            background: #eff6ff; border-left: 4px solid #3b82f6;
-            padding: 20px; border-radius: 8px; margin: 25px 0;
-        }
-        .contact-card h3 { color: #1e40af; font-size: 18px; margin-bottom: 15px; }
-        .contact-card ul { list-style: none; padding: 0; }
-        .contact-card li { padding: 6px 0; color: #1e40af; font-size: 14px; }
-        .contact-card a { color: #2563eb; text-decoration: none; }
-        .button {
-            display: inline-block;
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px;
-            font-weight: 600; font-size: 15px; text-align: center; margin: 20px 0;
-            box-shadow: 0 4px 6px rgba(102,126,234,0.3);
-        }
-        .closing { margin-top: 30px; color: #4a5568; font-size: 15px; line-height: 1.7; }
-        .signature { margin-top: 20px; color: #1a202c; font-weight: 600; }
-        .footer {
-            background: #f7fafc; text-align: center; padding: 30px;
-            border-top: 1px solid #e2e8f0; color: #718096; font-size: 13px;
-        }
-        .footer p { margin: 8px 0; }
-        .footer .social-links { margin: 15px 0; }
-        .footer .social-links a { color: #667eea; text-decoration: none; margin: 0 10px; }
-        .badge {
-            display: inline-block; padding: 4px 12px; border-radius: 12px;
-            font-size: 12px; font-weight: 600; margin-left: 8px;
-        }
-        .badge-success { background: #d1fae5; color: #065f46; }
-        .badge-warning { background: #fed7aa; color: #7c2d12; }
-        .badge-info { background: #dbeafe; color: #1e40af; }
-        @media only screen and (max-width: 600px) {
-            .email-container { border-radius: 0; }
-            .header { padding: 30px 20px; }
-            .header h1 { font-size: 26px; }
-            .content { padding: 25px 20px; }
-            .detail-row { flex-direction: column; gap: 4px; }
-            .detail-value { text-align: left; max-width: 100%; }
-            .total-section .total-amount { font-size: 26px; }
-        }
-    </style>
-</head>
-<body>
-    <div class="email-container">
-        <div class="header">
-            <h1>🎉 Booking Confirmed!</h1>
-            <p>Thank you for choosing Discover Group for your adventure</p>
-        </div>
-
-        <div class="content">
-            <div class="greeting">Hi ${booking.customerName},</div>
-
-            <p class="intro-text">
-                We're thrilled to confirm your booking! Your adventure awaits, and we can't wait to help you create unforgettable memories. Below are your complete booking details.
-            </p>
-
-            <!-- Payment Pending Notice -->
-            <div style="background:#fff7ed;border:2px solid #fed7aa;border-radius:10px;padding:20px;margin:20px 0;">
-                <h4 style="color:#ea580c;font-size:16px;margin-bottom:10px;">⏳ Payment Pending — We'll Contact You Shortly</h4>
-                <p style="color:#78350f;font-size:14px;">Online payment is coming soon! We accept cash, bank transfer, GCash, Maya, and card payments. Our team will contact you within <strong>24–48 hours</strong> to arrange this.</p>
-            </div>
-
-            <!-- Booking Details Card -->
-            <div class="booking-card">
-                <h3>📋 Booking Information</h3>
-                <div class="detail-row">
-                    <span class="detail-label">Booking ID:</span>
-                    <span class="detail-value"><strong>${booking.bookingId}</strong></span>
-                </div>
-                <div class="detail-row">
-                    <span class="detail-label">Tour Package:</span>
-                    <span class="detail-value"><strong>${booking.tourTitle}</strong></span>
-                </div>
-                <div class="detail-row">
-                    <span class="detail-label">Travel Date:</span>
-                    <span class="detail-value">${formatTourDate(booking.tourDate)}</span>
-                </div>
-                <div class="detail-row">
-                    <span class="detail-label">Number of Passengers:</span>
-                    <span class="detail-value">${booking.passengers} ${booking.passengers === 1 ? 'person' : 'people'}</span>
-                </div>
-                <div class="detail-row">
-                    <span class="detail-label">Price per Person:</span>
-                    <span class="detail-value">${fmtPHP(booking.pricePerPerson)}</span>
-                </div>
-                ${booking.visaAssistanceRequested ? `
-                <div class="detail-row">
-                    <span class="detail-label">Visa Assistance (${booking.passengers} pax):</span>
-                    <span class="detail-value">${fmtPHP((booking.visaAssistanceFee ?? 10000) * booking.passengers)}</span>
-                </div>` : ''}
-                ${booking.travelInsuranceRequested ? `
-                <div class="detail-row">
-                    <span class="detail-label">Travel Insurance (${booking.passengers} pax):</span>
-                    <span class="detail-value">${fmtPHP((booking.travelInsuranceFee ?? 3000) * booking.passengers)}</span>
-                </div>` : ''}
-            </div>
-
-            ${booking.paymentMethod ? `
-            <!-- Payment Method Card -->
-            <div class="payment-method-card">
-                <h4>${booking.paymentMethodIcon ?? '💳'} Payment Method</h4>
-                <div class="detail-row">
-                    <span class="detail-label">Selected Method:</span>
-                    <span class="detail-value"><strong>${booking.paymentMethod}</strong></span>
-                </div>
-                <div class="detail-row">
-                    <span class="detail-label">Gateway:</span>
-                    <span class="detail-value">${booking.paymentGateway ?? ''}</span>
-                </div>
-                ${booking.paymentMethodDescription ? `
-                <div class="detail-row">
-                    <span class="detail-label">Details:</span>
-                    <span class="detail-value">${booking.paymentMethodDescription}</span>
-                </div>` : ''}
-            </div>` : ''}
-
-            ${booking.isDownpaymentOnly ? `
-            <!-- Downpayment Terms -->
-            <div class="payment-terms">
-                <h4>💰 Payment Terms — Downpayment Option</h4>
-                <div class="detail-row">
-                    <span class="detail-label">Downpayment Amount:</span>
-                    <span class="detail-value"><strong>${fmtPHP(booking.downpaymentAmount ?? 0)}</strong></span>
-                </div>
-                <div class="detail-row">
-                    <span class="detail-label">Remaining Balance:</span>
-                    <span class="detail-value"><strong>${fmtPHP(booking.remainingBalance ?? 0)}</strong></span>
-                </div>
-                <ul style="margin-top:15px;">
-                    <li>The downpayment secures your booking and holds your reservation</li>
-                    <li>Remaining balance must be paid <strong>30 days before departure</strong></li>
-                    <li>Payment reminders will be sent via email and SMS</li>
-                    <li>You can pay the balance online or visit our office</li>
-                    <li>Flexible payment options available for the remaining balance</li>
-                </ul>
-            </div>` : ''}
-
-            ${booking.appointmentDate && booking.appointmentTime ? `
-            <!-- Office Appointment -->
-            <div class="appointment-card">
-                <h4>🏢 Office Appointment Scheduled</h4>
-                <div class="detail-row">
-                    <span class="detail-label">Date:</span>
-                    <span class="detail-value"><strong>${(() => { const d = new Date(booking.appointmentDate!); return isNaN(d.getTime()) ? booking.appointmentDate! : d.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }); })()}</strong></span>
-                </div>
-                <div class="detail-row">
-                    <span class="detail-label">Time:</span>
-                    <span class="detail-value"><strong>${booking.appointmentTime}</strong></span>
-                </div>
-                <div class="detail-row">
-                    <span class="detail-label">Purpose:</span>
-                    <span class="detail-value">${fmtPurpose(booking.appointmentPurpose)}</span>
-                </div>
-                <p style="margin-top:15px;color:#92400e;font-size:14px;">
-                    📍 <strong>Office Address:</strong> Quezon Avenue cor. Sct. Reyes St, Diliman, Quezon City, 1103 Metro Manila<br>
-                    💰 Please bring <strong>${fmtPHP(booking.totalAmount)}</strong> in cash. Credit/debit cards also accepted at our office.
-                </p>
-            </div>` : ''}
-
-            <!-- Total Amount Section -->
-            <div class="total-section">
-                <div class="total-row">
-                    <div>
-                        <div class="total-label">
-                            Total Amount
-                            ${booking.isDownpaymentOnly
-                              ? '<span class="badge badge-warning">Downpayment</span>'
-                              : '<span class="badge badge-success">Full Payment</span>'}
-                        </div>
-                    </div>
-                    <div class="total-amount">${fmtPHP(booking.totalAmount)}</div>
-                </div>
-            </div>
-
-            ${booking.visaAssistanceRequested ? `
-            <!-- Visa Assistance -->
-            <div style="background:#eff6ff;border-left:4px solid #3b82f6;padding:20px;border-radius:8px;margin:25px 0;">
-                <h3 style="color:#1e40af;font-size:18px;margin-bottom:15px;">🛂 Visa Assistance Included</h3>
-                <p style="color:#1e3a8a;font-size:14px;">Your booking includes our <strong>Visa Assistance Service</strong> (${fmtPHP(booking.visaAssistanceFee ?? 10000)}/pax). Our visa team will contact you to guide you through the required documents and application process.</p>
-                ${booking.visaPaxDetails && booking.visaPaxDetails.length > 0 ? `
-                <ul style="margin-top:10px;padding-left:20px;color:#1e40af;font-size:14px;">
-                    ${booking.visaPaxDetails.map((p: {name: string; birthday: string}) => `<li><strong>${p.name}</strong> — DOB: ${p.birthday}</li>`).join('')}
-                </ul>` : ''}
-                <p style="margin-top:10px;font-size:14px;color:#1e40af;">Questions? Email <a href="mailto:visa@discovergrp.com" style="color:#2563eb;">visa@discovergrp.com</a></p>
-            </div>` : ''}
-
-            ${booking.travelInsuranceRequested ? `
-            <!-- Travel Insurance -->
-            <div style="background:#f0fdf4;border-left:4px solid #10b981;padding:20px;border-radius:8px;margin:25px 0;">
-                <h3 style="color:#065f46;font-size:18px;margin-bottom:15px;">🛡️ Travel Insurance Included</h3>
-                <p style="color:#047857;font-size:14px;">Your booking includes <strong>Travel Insurance</strong> (${fmtPHP(booking.travelInsuranceFee ?? 3000)}/pax). Coverage includes trip cancellation, medical emergencies, lost baggage &amp; delays.</p>
-                ${booking.travelInsurancePax && booking.travelInsurancePax.length > 0 ? `
-                <ul style="margin-top:10px;padding-left:20px;color:#047857;font-size:14px;">
-                    ${booking.travelInsurancePax.map((p: {name: string; birthday: string}) => `<li><strong>${p.name}</strong> — DOB: ${p.birthday}</li>`).join('')}
-                </ul>` : ''}
-            </div>` : ''}
-
-            <!-- What's Next Section -->
-            <div class="info-card">
-                <h3>📍 What's Next?</h3>
-                <ul>
-                    <li><strong>Payment Arrangement:</strong> Our team will contact you within 24–48 hours to process payment</li>
-                    <li><strong>Documentation:</strong> Ensure your passport is valid for at least 6 months from travel date</li>
-                    <li><strong>Preparation:</strong> We'll send you a detailed itinerary 2 weeks before departure</li>
-                    <li><strong>Contact:</strong> Our team will reach out with important travel information</li>
-                    ${booking.isDownpaymentOnly ? '<li><strong>Balance Payment:</strong> Reminder will be sent 45 days before departure</li>' : ''}
-                    <li><strong>Cancellation:</strong> Free cancellation up to 30 days before departure</li>
-                    <li><strong>Travel Insurance:</strong> Included in your package for peace of mind</li>
-                </ul>
-            </div>
-
-            <!-- View Booking Button -->
-            <div style="text-align:center;">
-                <a href="${bookingDetailsUrl}" class="button">View Booking Details</a>
-            </div>
-
-            <!-- Contact Section -->
-            <div class="contact-card">
-                <h3>📞 Need Help?</h3>
-                <p style="margin-bottom:15px;color:#1e3a8a;">Our customer service team is here to assist you:</p>
-                <ul>
-                    <li>📧 Email: <a href="mailto:reservations@discovergrp.com">reservations@discovergrp.com</a></li>
-                    <li>📱 Phone: <a href="tel:+63285551234">+63 02 8555 1234</a></li>
-                    <li>💬 Live Chat: Available on our website</li>
-                    <li>🕒 Hours: Monday – Friday, 9:00 AM – 6:00 PM (PHT)</li>
-                    <li>📍 Office: Quezon Avenue cor. Sct. Reyes St, Diliman, QC</li>
-                </ul>
-            </div>
-
-            <p class="closing">
-                Thank you for trusting us with your travel dreams. We're committed to making this an incredible experience you'll treasure forever!
-            </p>
-            <p class="signature">
-                Safe travels,<br>
-                <strong>The Discover Group Team</strong>
-            </p>
-        </div>
-
-        <div class="footer">
-            <p><strong>Discover Group — European Travel Specialists</strong></p>
-            <div class="social-links">
-                <a href="https://facebook.com/discovergroup">Facebook</a> |
-                <a href="https://instagram.com/discovergroup">Instagram</a> |
-                <a href="https://twitter.com/discovergroup">Twitter</a>
-            </div>
-            <p>© 2026 Discover Group. All rights reserved.</p>
-            <p style="margin-top:15px;font-size:12px;">
-                This is an automated confirmation email. Please do not reply to this message.<br>
-                If you did not make this booking, please contact us immediately.
-            </p>
-        </div>
-    </div>
-</body>
-</html>`;
+const fromAddress = () => `"${getEmailFromName()}" <${getEmailFromAddress()}>`;
+
+const failedResult = (error: unknown): EmailSendResult => ({
+  success: false,
+  error: error instanceof Error ? error.message : 'Unknown error',
+});
+
+// Render a template and hand it to the outbox, which makes the first attempt right away
+const queueTemplatedEmail = async (
+  key: EmailTemplateKey,
+  data: Record<string, unknown>,
+  locale: EmailLocale | undefined,
+  to: string | string[],
+  options: QueueOptions = {}
+): Promise<EmailSendResult> => {
+  const rendered = await renderEmail(key, data, locale);
+  const email = await queueEmail({
+    templateKey: key,
+    locale: rendered.locale,
+    from: fromAddress(),
+    to,
+    subject: rendered.subject,
+    html: rendered.html,
+    text: rendered.text,
+    ...options,
+  });
+  return {
+    success: email.status !== 'dead',
+    outboxId: email.id,
+    status: email.status,
+    messageId: email.messageId,
+    previewUrl: email.previewUrl,
+    error: email.lastError,
+  };
 };
 
-export const sendBookingConfirmationEmail = async (booking: BookingDetails): Promise<{ success: boolean; messageId?: string; previewUrl?: string; error?: string }> => {
+export const sendBookingConfirmationEmail = async (
+  booking: BookingDetails,
+  options: QueueOptions = {}
+): Promise<EmailSendResult> => {
   try {
-    console.log('📧 Attempting to send booking confirmation email to:', booking.customerEmail);
-    console.log('📋 Booking details received:', {
-      bookingId: booking.bookingId,
-      tourDate: booking.tourDate,
-      appointmentDate: booking.appointmentDate,
-      appointmentTime: booking.appointmentTime,
-      appointmentPurpose: booking.appointmentPurpose
-    });
-    
-    console.log('🔧 Environment check:');
-    console.log('- GMAIL_USER:', process.env.GMAIL_USER ? `✅ Set (${process.env.GMAIL_USER})` : '❌ Not set (emails will go to Ethereal fake SMTP!)');
-    console.log('- GMAIL_APP_PASSWORD:', process.env.GMAIL_APP_PASSWORD ? '✅ Set' : '❌ Not set');
-
-    try {
-      const transporter = await createTransporter();
-      
-      // Get current settings
-      const bookingDeptEmail = getBookingDepartmentEmail();
-      const fromEmail = getEmailFromAddress();
-      const fromName = getEmailFromName();
-    
-    const mailOptions = {
-      from: `"${fromName}" <${fromEmail}>`,
-      to: [booking.customerEmail, bookingDeptEmail], // Send to both customer and booking department
-      subject: `Tour Reservation Confirmed - ${booking.tourTitle} (${booking.bookingId})`,
-      html: generateBookingConfirmationEmail(booking),
-      text: `
-Tour Reservation Confirmed - ${booking.tourTitle}
-
-Dear ${booking.customerName},
-
-Your tour reservation is confirmed! Our team will contact you within 24-48 hours to arrange payment.
-
-Booking ID: ${booking.bookingId}
-Tour: ${booking.tourTitle}
-Date: ${new Date(booking.tourDate).toLocaleDateString()}
-Passengers: ${booking.passengers}
-Total Amount: PHP ${booking.totalAmount.toLocaleString()}
-
-We'll be in touch shortly with payment details.
-
-Thank you for choosing Discover Group!
-
-The Discover Group Team
-Email: reservations@discovergroup.com
-Phone: +63 02 8555 1234
-      `.trim(),
-    };
-
-      const info = await transporter.sendMail(mailOptions);
-      const previewUrl = nodemailer.getTestMessageUrl(info);
-      
-      if (previewUrl) {
-        console.log('📧 Email Preview URL: %s', previewUrl);
-      }
-
-      console.log('✅ Email sent successfully! Message ID:', info.messageId);
-
-      return {
-        success: true,
-        messageId: info.messageId,
-        previewUrl: previewUrl || undefined,
-      };
-    } catch (nodemailerError) {
-      console.error('❌ Nodemailer also failed:', nodemailerError);
-      return {
-        success: false,
-        error: nodemailerError instanceof Error ? nodemailerError.message : 'Failed to send email via Nodemailer',
-      };
-    }
+    console.log('📧 Queueing booking confirmation email to:', booking.customerEmail);
+    // Customer and booking department get the same email
+    return await queueTemplatedEmail(
+      'booking_confirmation',
+      bookingTemplateData(booking),
+      booking.locale,
+      [booking.customerEmail, getBookingDepartmentEmail()],
+      { bookingId: booking.bookingId, ...options }
+    );
   } catch (error) {
-    console.error('❌ Email sending failed with critical error:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    console.error('❌ Booking confirmation email could not be queued:', error);
+    return failedResult(error);
   }
 };
 
@@ -523,228 +224,31 @@ Phone: +63 02 8555 1234
 export const sendVerificationEmail = async (
   email: string,
   fullName: string,
-  verificationToken: string
-): Promise<{ success: boolean; messageId?: string; previewUrl?: string; error?: string }> => {
+  verificationToken: string,
+  locale?: EmailLocale
+): Promise<EmailSendResult> => {
   try {
-    console.log('📧 Sending verification email to:', email);
-    console.log('- GMAIL_USER:', process.env.GMAIL_USER ? '✅ Set' : '❌ Not set (will use Ethereal fake SMTP)');
-
+    console.log('📧 Queueing verification email to:', email);
     const verificationUrl = `${process.env.CLIENT_URL || 'http://localhost:5173'}/verify-email?token=${verificationToken}`;
-
-    try {
-      const transporter = await createTransporter();
-    
-    const fromEmail = getEmailFromAddress();
-    const fromName = getEmailFromName();
-    
-    const mailOptions = {
-      from: `"${fromName}" <${fromEmail}>`,
-      to: email,
-      subject: 'Verify Your Email - Discover Group',
-      html: `
-<!DOCTYPE html>
-<html>
-<head>
-    <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background: linear-gradient(135deg, #3b82f6, #8b5cf6); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
-        .content { background: #f8fafc; padding: 30px; }
-        .verify-btn { display: inline-block; background: #3b82f6; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; margin: 20px 0; }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <div class="header">
-            <h1>✉️ Verify Your Email</h1>
-        </div>
-        <div class="content">
-            <p>Hello ${fullName},</p>
-            <p>Thank you for registering with Discover Group! Please verify your email address:</p>
-            <div style="text-align: center;">
-                <a href="${verificationUrl}" class="verify-btn">Verify Email Address</a>
-            </div>
-            <p>This link will expire in 24 hours.</p>
-        </div>
-    </div>
-</body>
-</html>
-      `,
-      text: `
-Hello ${fullName},
-
-Please verify your email address by clicking this link:
-${verificationUrl}
-
-This link will expire in 24 hours.
-
-Best regards,
-The Discover Group Team
-      `.trim(),
-    };
-
-      const info = await transporter.sendMail(mailOptions);
-      const previewUrl = nodemailer.getTestMessageUrl(info);
-      
-      if (previewUrl) {
-        console.log('📧 Verification Email Preview URL: %s', previewUrl);
-      }
-
-      console.log('✅ Verification email sent! Message ID:', info.messageId);
-
-      return {
-        success: true,
-        messageId: info.messageId,
-        previewUrl: previewUrl || undefined,
-      };
-    } catch (nodemailerError) {
-      console.error('❌ Nodemailer verification email also failed:', nodemailerError);
-      return {
-        success: false,
-        error: nodemailerError instanceof Error ? nodemailerError.message : 'Failed to send verification email via Nodemailer',
-      };
-    }
+    return await queueTemplatedEmail('email_verification', { fullName, verificationUrl }, locale, email);
   } catch (error) {
-    console.error('❌ Verification email sending failed with critical error:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    console.error('❌ Verification email could not be queued:', error);
+    return failedResult(error);
   }
 };
 
 export const sendPasswordResetEmail = async (
   email: string,
   fullName: string,
-  resetUrl: string
-): Promise<{ success: boolean; messageId?: string; previewUrl?: string; error?: string }> => {
+  resetUrl: string,
+  locale?: EmailLocale
+): Promise<EmailSendResult> => {
   try {
-    console.log('📧 Sending password reset email to:', email);
-    console.log('- GMAIL_USER:', process.env.GMAIL_USER ? '✅ Set' : '❌ Not set (will use Ethereal fake SMTP)');
-    
-    const passwordResetHtml = `
-    <style>
-        body { 
-            font-family: Arial, sans-serif; 
-            line-height: 1.6; 
-            color: #333; 
-            max-width: 600px; 
-            margin: 0 auto; 
-            padding: 20px; 
-        }
-        .container { 
-            background: #f5f5f5; 
-            border-radius: 8px; 
-            padding: 30px; 
-            box-shadow: 0 2px 4px rgba(0,0,0,0.1); 
-        }
-        .header { 
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); 
-            color: white; 
-            padding: 20px; 
-            border-radius: 8px 8px 0 0; 
-            text-align: center; 
-        }
-        .content { 
-            background: white; 
-            padding: 20px; 
-            border-radius: 0 0 8px 8px; 
-        }
-        .reset-btn { 
-            display: inline-block; 
-            padding: 12px 30px; 
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); 
-            color: white; 
-            text-decoration: none; 
-            border-radius: 8px; 
-            margin: 20px 0; 
-            font-weight: bold; 
-        }
-        .reset-btn:hover { 
-            opacity: 0.9; 
-        }
-        .footer { 
-            margin-top: 20px; 
-            font-size: 12px; 
-            color: #666; 
-            border-top: 1px solid #eee; 
-            padding-top: 10px; 
-        }
-    </style>
-    <div class="container">
-        <div class="header">
-            <h1>🔐 Password Reset</h1>
-        </div>
-        <div class="content">
-            <p>Hello ${fullName},</p>
-            <p>We received a request to reset your password. Click the button below to set a new password:</p>
-            <div style="text-align: center;">
-                <a href="${resetUrl}" class="reset-btn">Reset Password</a>
-            </div>
-            <p style="color: #666; font-size: 14px;">Or copy this link: <br><code>${resetUrl}</code></p>
-            <p style="color: #d32f2f;">This link will expire in 1 hour.</p>
-            <p style="color: #666;">If you didn't request a password reset, you can ignore this email.</p>
-        </div>
-        <div class="footer">
-            <p>© Discover Group. All rights reserved.</p>
-        </div>
-    </div>
-    `;
-
-    const passwordResetText = `
-Hello ${fullName},
-
-We received a request to reset your password. Click the link below to set a new password:
-${resetUrl}
-
-This link will expire in 1 hour.
-
-If you didn't request a password reset, you can ignore this email.
-
-Best regards,
-The Discover Group Team
-    `.trim();
-
-    try {
-      const transporter = await createTransporter();
-      const fromEmail = getEmailFromAddress();
-      const fromName = getEmailFromName();
-
-      const mailOptions = {
-        from: `"${fromName}" <${fromEmail}>`,
-        to: email,
-        subject: 'Password Reset Request - Discover Group',
-        html: passwordResetHtml,
-        text: passwordResetText,
-      };
-
-      const info = await transporter.sendMail(mailOptions);
-      const previewUrl = nodemailer.getTestMessageUrl(info);
-
-      if (previewUrl) {
-        console.log('📧 Password Reset Email Preview URL: %s', previewUrl);
-      }
-
-      console.log('✅ Password reset email sent via Nodemailer! Message ID:', info.messageId);
-
-      return {
-        success: true,
-        messageId: info.messageId,
-        previewUrl: previewUrl || undefined,
-      };
-    } catch (nodemailerError) {
-      console.error('❌ Nodemailer also failed:', nodemailerError);
-      return {
-        success: false,
-        error: nodemailerError instanceof Error ? nodemailerError.message : 'Failed to send password reset email via Nodemailer',
-      };
-    }
+    console.log('📧 Queueing password reset email to:', email);
+    return await queueTemplatedEmail('password_reset', { fullName, resetUrl }, locale, email);
   } catch (error) {
-    console.error('❌ Password reset email sending failed with critical error:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    console.error('❌ Password reset email could not be queued:', error);
+    return failedResult(error);
   }
 };
 
@@ -752,184 +256,10 @@ The Discover Group Team
 // SALES DEPARTMENT NOTIFICATION — internal action-alert sent on every new booking
 // ─────────────────────────────────────────────────────────────────────────────
 
-const generateSalesNotificationEmail = (booking: BookingDetails): string => {
-  const fmt = (n: number) => `₱${n.toLocaleString('en-PH', { minimumFractionDigits: 2 })}`;
-  const paymentType = booking.isDownpaymentOnly ? 'DOWNPAYMENT' : 'FULL PAYMENT';
-  const paymentColor = booking.isDownpaymentOnly ? '#e67e22' : '#27ae60';
-
-  const addOns: string[] = [];
-  if (booking.visaAssistanceRequested)    addOns.push(`Visa Assistance${booking.visaAssistanceFee ? ` (${fmt(booking.visaAssistanceFee)})` : ''}`);
-  if (booking.travelInsuranceRequested)   addOns.push(`Travel Insurance${booking.travelInsuranceFee ? ` (${fmt(booking.travelInsuranceFee)})` : ''}`);
-  if (booking.passportAssistanceRequested) addOns.push(`Passport Assistance${booking.passportAssistanceFee ? ` (${fmt(booking.passportAssistanceFee)})` : ''}`);
-
-  const addOnsHtml = addOns.length
-    ? addOns.map(a => `<li style="margin:4px 0;">✅ ${a}</li>`).join('')
-    : '<li style="color:#888;">None</li>';
-
-  const appointmentHtml = booking.appointmentDate
-    ? `<tr><td style="padding:6px 12px;color:#555;font-size:13px;">Appointment</td><td style="padding:6px 12px;font-size:13px;font-weight:600;">${booking.appointmentDate}${booking.appointmentTime ? ' @ ' + booking.appointmentTime : ''}${booking.appointmentPurpose ? ' — ' + booking.appointmentPurpose : ''}</td></tr>`
-    : '';
-
-  const adminUrl = process.env.ADMIN_URL || 'https://admin.discovergrp.com';
-
-  return `<!DOCTYPE html>
-<html>
-<head><meta charset="UTF-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"></head>
-<body style="margin:0;padding:0;background:#f0f2f5;font-family:Arial,Helvetica,sans-serif;">
-  <table width="100%" cellpadding="0" cellspacing="0" style="background:#f0f2f5;padding:24px 0;">
-    <tr><td align="center">
-      <table width="600" cellpadding="0" cellspacing="0" style="background:#fff;border-radius:10px;overflow:hidden;box-shadow:0 2px 12px rgba(0,0,0,0.10);max-width:600px;">
-
-        <!-- HEADER -->
-        <tr>
-          <td style="background:linear-gradient(135deg,#c0392b,#e74c3c);padding:28px 32px;text-align:center;">
-            <p style="margin:0 0 6px 0;font-size:12px;color:rgba(255,255,255,0.8);letter-spacing:2px;text-transform:uppercase;">Discover Group Travel</p>
-            <h1 style="margin:0;color:#fff;font-size:26px;font-weight:700;">🔔 New Booking Alert</h1>
-            <p style="margin:8px 0 0 0;color:rgba(255,255,255,0.9);font-size:14px;">A customer just completed a tour reservation</p>
-          </td>
-        </tr>
-
-        <!-- BOOKING ID BADGE -->
-        <tr>
-          <td style="background:#fdf3f2;padding:16px 32px;border-bottom:1px solid #f5c6c2;text-align:center;">
-            <span style="font-size:13px;color:#888;">Booking ID: </span>
-            <span style="font-size:15px;font-weight:700;color:#c0392b;letter-spacing:1px;">${booking.bookingId}</span>
-            &nbsp;&nbsp;
-            <span style="display:inline-block;padding:4px 14px;background:${paymentColor};color:#fff;border-radius:20px;font-size:12px;font-weight:700;">${paymentType}</span>
-          </td>
-        </tr>
-
-        <!-- CUSTOMER DETAILS -->
-        <tr>
-          <td style="padding:24px 32px 0 32px;">
-            <h2 style="margin:0 0 14px 0;font-size:15px;font-weight:700;color:#2c3e50;text-transform:uppercase;letter-spacing:1px;border-bottom:2px solid #e74c3c;padding-bottom:8px;">👤 Customer Details</h2>
-            <table width="100%" cellpadding="0" cellspacing="0">
-              <tr>
-                <td style="padding:6px 0;color:#555;font-size:13px;width:140px;">Name</td>
-                <td style="padding:6px 0;font-size:14px;font-weight:600;color:#1a1a1a;">${booking.customerName}</td>
-              </tr>
-              <tr>
-                <td style="padding:6px 0;color:#555;font-size:13px;">Email</td>
-                <td style="padding:6px 0;font-size:14px;"><a href="mailto:${booking.customerEmail}" style="color:#2980b9;text-decoration:none;">${booking.customerEmail}</a></td>
-              </tr>
-              ${booking.customerPhone ? `<tr>
-                <td style="padding:6px 0;color:#555;font-size:13px;">Phone</td>
-                <td style="padding:6px 0;font-size:14px;font-weight:600;color:#1a1a1a;">
-                  <a href="tel:${booking.customerPhone}" style="color:#2980b9;text-decoration:none;">${booking.customerPhone}</a>
-                </td>
-              </tr>` : ''}
-            </table>
-          </td>
-        </tr>
-
-        <!-- TOUR DETAILS -->
-        <tr>
-          <td style="padding:20px 32px 0 32px;">
-            <h2 style="margin:0 0 14px 0;font-size:15px;font-weight:700;color:#2c3e50;text-transform:uppercase;letter-spacing:1px;border-bottom:2px solid #e74c3c;padding-bottom:8px;">🗺️ Tour Details</h2>
-            <table width="100%" cellpadding="0" cellspacing="0" style="background:#f8f9fa;border-radius:8px;">
-              <tr>
-                <td style="padding:10px 12px;color:#555;font-size:13px;width:140px;">Tour</td>
-                <td style="padding:10px 12px;font-size:14px;font-weight:700;color:#2c3e50;">${booking.tourTitle}</td>
-              </tr>
-              <tr>
-                <td style="padding:6px 12px;color:#555;font-size:13px;">Date</td>
-                <td style="padding:6px 12px;font-size:13px;font-weight:600;">${formatTourDate(booking.tourDate)}</td>
-              </tr>
-              <tr>
-                <td style="padding:6px 12px;color:#555;font-size:13px;">Passengers</td>
-                <td style="padding:6px 12px;font-size:13px;font-weight:600;">${booking.passengers} pax</td>
-              </tr>
-              ${appointmentHtml}
-            </table>
-          </td>
-        </tr>
-
-        <!-- PAYMENT SUMMARY -->
-        <tr>
-          <td style="padding:20px 32px 0 32px;">
-            <h2 style="margin:0 0 14px 0;font-size:15px;font-weight:700;color:#2c3e50;text-transform:uppercase;letter-spacing:1px;border-bottom:2px solid #e74c3c;padding-bottom:8px;">💰 Payment Summary</h2>
-            <table width="100%" cellpadding="0" cellspacing="0" style="background:#f8f9fa;border-radius:8px;">
-              <tr>
-                <td style="padding:10px 12px;color:#555;font-size:13px;width:140px;">Per Person</td>
-                <td style="padding:10px 12px;font-size:13px;">${fmt(booking.pricePerPerson)}</td>
-              </tr>
-              <tr>
-                <td style="padding:6px 12px;color:#555;font-size:13px;">Total Amount</td>
-                <td style="padding:6px 12px;font-size:15px;font-weight:700;color:#2c3e50;">${fmt(booking.totalAmount)}</td>
-              </tr>
-              ${booking.isDownpaymentOnly && booking.downpaymentAmount != null ? `
-              <tr>
-                <td style="padding:6px 12px;color:#555;font-size:13px;">Paid (Downpayment)</td>
-                <td style="padding:6px 12px;font-size:13px;font-weight:700;color:#27ae60;">${fmt(booking.downpaymentAmount!)}</td>
-              </tr>
-              <tr>
-                <td style="padding:6px 12px;color:#555;font-size:13px;">Balance Due</td>
-                <td style="padding:6px 12px;font-size:13px;font-weight:700;color:#e67e22;">${fmt(booking.remainingBalance ?? (booking.totalAmount - booking.downpaymentAmount!))}</td>
-              </tr>` : ''}
-              ${booking.paymentMethod ? `
-              <tr>
-                <td style="padding:6px 12px;color:#555;font-size:13px;">Payment Method</td>
-                <td style="padding:6px 12px;font-size:13px;">${booking.paymentMethodDescription || booking.paymentMethod}</td>
-              </tr>` : ''}
-            </table>
-          </td>
-        </tr>
-
-        <!-- ADD-ONS -->
-        <tr>
-          <td style="padding:20px 32px 0 32px;">
-            <h2 style="margin:0 0 10px 0;font-size:15px;font-weight:700;color:#2c3e50;text-transform:uppercase;letter-spacing:1px;border-bottom:2px solid #e74c3c;padding-bottom:8px;">🧳 Add-On Services</h2>
-            <ul style="margin:0;padding:0 0 0 4px;list-style:none;font-size:13px;color:#333;">
-              ${addOnsHtml}
-            </ul>
-          </td>
-        </tr>
-
-        <!-- ACTION BUTTONS -->
-        <tr>
-          <td style="padding:28px 32px;">
-            <table width="100%" cellpadding="0" cellspacing="0">
-              <tr>
-                <td align="center" style="padding:0 6px;">
-                  <a href="${adminUrl}/bookings/${booking.bookingId}"
-                     style="display:inline-block;padding:12px 22px;background:#c0392b;color:#fff;text-decoration:none;border-radius:6px;font-size:13px;font-weight:700;">
-                    📋 Open in Admin Panel
-                  </a>
-                </td>
-                <td align="center" style="padding:0 6px;">
-                  <a href="mailto:${booking.customerEmail}"
-                     style="display:inline-block;padding:12px 22px;background:#2980b9;color:#fff;text-decoration:none;border-radius:6px;font-size:13px;font-weight:700;">
-                    ✉️ Email Customer
-                  </a>
-                </td>
-                ${booking.customerPhone ? `<td align="center" style="padding:0 6px;">
-                  <a href="tel:${booking.customerPhone}"
-                     style="display:inline-block;padding:12px 22px;background:#27ae60;color:#fff;text-decoration:none;border-radius:6px;font-size:13px;font-weight:700;">
-                    📞 Call Customer
-                  </a>
-                </td>` : ''}
-              </tr>
-            </table>
-          </td>
-        </tr>
-
-        <!-- FOOTER -->
-        <tr>
-          <td style="background:#f8f9fa;padding:14px 32px;text-align:center;border-top:1px solid #eee;">
-            <p style="margin:0;font-size:11px;color:#aaa;">This is an internal sales alert — do not forward to customers.</p>
-          </td>
-        </tr>
-
-      </table>
-    </td></tr>
-  </table>
-</body>
-</html>`;
-};
-
 export const sendSalesNotificationEmail = async (
-  booking: BookingDetails
-): Promise<{ success: boolean; messageId?: string; error?: string }> => {
+  booking: BookingDetails,
+  options: QueueOptions = {}
+): Promise<EmailSendResult> => {
   try {
     const salesEmail = getSalesDepartmentEmail();
     if (!salesEmail) {
@@ -937,24 +267,217 @@ export const sendSalesNotificationEmail = async (
       return { success: false, error: 'No sales department email configured' };
     }
 
-    const transporter = await createTransporter();
-    const fromEmail = getEmailFromAddress();
-    const fromName  = getEmailFromName();
-
-    const result = await transporter.sendMail({
-      from: `"${fromName}" <${fromEmail}>`,
-      to: salesEmail,
-      subject: `[NEW BOOKING] ${booking.customerName} — ${booking.tourTitle} (${booking.bookingId})`,
-      html: generateSalesNotificationEmail(booking),
+    // Internal alert: always in the default language, whatever the customer reads
+    return await queueTemplatedEmail('sales_notification', bookingTemplateData(booking), undefined, salesEmail, {
+      bookingId: booking.bookingId,
+      ...options,
     });
+  } catch (error) {
+    console.error('❌ Sales notification email could not be queued (non-critical):', error);
+    return failedResult(error);
+  }
+};
+
+// Emails an admin can send again from a booking
+export type ResendableBookingEmail = 'booking_confirmation' | 'sales_notification';
+
+export const RESENDABLE_BOOKING_EMAILS: ResendableBookingEmail[] = ['booking_confirmation', 'sales_notification'];
+
+// Rendered from the booking as it is now, so corrections made since are included
+export const resendBookingEmail = (
+  booking: IBooking,
+  templateKey: ResendableBookingEmail,
+  requestedBy: string
+): Promise<EmailSendResult> => {
+  const details = bookingDetailsFromRecord(booking);
+  return templateKey === 'sales_notification'
+    ? sendSalesNotificationEmail(details, { requestedBy })
+    : sendBookingConfirmationEmail(details, { requestedBy });
+};
+
+// The confirmation email as a standalone page, for customers to download or print
+export const renderBookingConfirmation = (booking: IBooking): Promise<RenderedEmail> =>
+  renderEmail('booking_confirmation', bookingTemplateData(bookingDetailsFromRecord(booking)), normalizeEmailLocale(booking.locale));
+
+// ─────────────────────────────────────────────────────────────────────────────
+// INSTALLMENT REMINDERS — sent by the installment scheduler
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface InstallmentReminderDetails {
+  bookingId: string;
+  customerName: string;
+  customerEmail: string;
+  tourTitle: string;
+  tourDate: string;
+  installmentLabel: string;
+  amount: number;
+  dueDate: Date;
+  isOverdue: boolean;
+  outstandingBalance: number;
+  locale?: EmailLocale;
+}
+
+export const sendInstallmentReminderEmail = async (
+  reminder: InstallmentReminderDetails
+): Promise<EmailSendResult> => {
+  try {
+    return await queueTemplatedEmail('installment_reminder', {
+      bookingId: reminder.bookingId,
+      bookingUrl: `${clientUrl()}/bookings`,
+      customerName: reminder.customerName,
+      tourTitle: reminder.tourTitle,
+      tourDate: reminder.tourDate || null,
+      installmentLabel: reminder.installmentLabel,
+      amount: reminder.amount,
+      dueDate: reminder.dueDate,
+      isOverdue: reminder.isOverdue,
+      outstandingBalance: reminder.outstandingBalance,
+    }, reminder.locale, reminder.customerEmail, { bookingId: reminder.bookingId });
+  } catch (error) {
+    console.error('❌ Installment reminder email could not be queued:', error);
+    return failedResult(error);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BOOKING ACCESS — magic link for customers who booked without an account
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const sendBookingAccessEmail = async (
+  booking: IBooking,
+  accessUrl: string,
+  expiresInHours: number
+): Promise<EmailSendResult> => {
+  try {
+    return await queueTemplatedEmail('booking_access', {
+      bookingId: booking.bookingId,
+      customerName: booking.customerName,
+      tourTitle: booking.tourSlug ?? '',
+      tourDate: booking.selectedDate || null,
+      accessUrl,
+      expiresInHours,
+    }, normalizeEmailLocale(booking.locale), booking.customerEmail, { bookingId: booking.bookingId });
+  } catch (error) {
+    console.error('❌ Booking access email could not be queued:', error);
+    return failedResult(error);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// VISA APPLICATIONS — sent on every status change
+// ─────────────────────────────────────────────────────────────────────────────
+
+const VISA_STATUS_LABELS: Record<EmailLocale, Record<VisaApplicationStatus, string>> = {
+  en: {
+    pending: 'Received',
+    under_review: 'Under Review',
+    documents_requested: 'Documents Requested',
+    approved: 'Approved',
+    rejected: 'Not Approved',
+    completed: 'Completed',
+  },
+  tl: {
+    pending: 'Natanggap',
+    under_review: 'Sinusuri',
+    documents_requested: 'May Hinihinging Dokumento',
+    approved: 'Aprubado',
+    rejected: 'Hindi Naaprubahan',
+    completed: 'Tapos Na',
+  },
+};
 
-    console.log('✅ Sales notification sent to:', salesEmail, '| Message ID:', result.messageId);
-    return { success: true, messageId: result.messageId };
+export const sendVisaStatusEmail = async (
+  application: IVisaApplication,
+  note?: string
+): Promise<EmailSendResult> => {
+  try {
+    if (!application.emailAddress) {
+      return { success: false, error: 'The application has no email address' };
+    }
+    const locale = normalizeEmailLocale(application.locale);
+    const appointment = application.embassyAppointment;
+    return await queueTemplatedEmail('visa_status_update', {
+      applicationId: application.applicationId,
+      customerName: application.completeName,
+      statusLabel: VISA_STATUS_LABELS[locale][application.status],
+      isApproved: application.status === 'approved',
+      isRejected: application.status === 'rejected',
+      destinationCountries: application.destinationCountries || null,
+      note: note?.trim() || null,
+      outstandingDocuments: (application.checklist ?? [])
+        .filter((item) => item.status === 'missing' || item.status === 'rejected')
+        .map((item) => ({ label: item.label, rejectionReason: item.status === 'rejected' ? item.rejectionReason || null : null })),
+      appointmentDate: appointment?.date ?? null,
+      appointmentTime: appointment?.time || null,
+      appointmentLocation: appointment?.location || null,
+      appointmentReference: appointment?.reference || null,
+      applicationUrl: `${clientUrl()}/my-trips`,
+    }, locale, application.emailAddress, { bookingId: application.bookingId });
   } catch (error) {
-    console.error('❌ Sales notification email failed (non-critical):', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    console.error('❌ Visa status email could not be queued:', error);
+    return failedResult(error);
   }
-};
\ No newline at end of file
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ACTIVITY FEED — staff messages to customers, and alerts to staff
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CustomerMessageEmail {
+  to: string;
+  locale?: string;
+  customerName: string;
+  // e.g. "booking BK-1234"
+  reference: string;
+  message: string;
+  senderName: string;
+  attachments: Array<{ name: string; url: string }>;
+  // Address that threads replies back into the feed; without it replies go to the sender address
+  replyTo?: string;
+  bookingId?: string;
+}
+
+export const sendCustomerMessageEmail = async (email: CustomerMessageEmail): Promise<EmailSendResult> => {
+  try {
+    return await queueTemplatedEmail('customer_message', {
+      customerName: email.customerName,
+      reference: email.reference,
+      message: email.message,
+      senderName: email.senderName,
+      attachments: email.attachments,
+      canReply: Boolean(email.replyTo),
+    }, normalizeEmailLocale(email.locale), email.to, { bookingId: email.bookingId, replyTo: email.replyTo });
+  } catch (error) {
+    console.error('❌ Customer message email could not be queued:', error);
+    return failedResult(error);
+  }
+};
+
+export interface StaffActivityAlert {
+  to: string;
+  recipientName: string;
+  authorName: string;
+  isReply: boolean;
+  reference: string;
+  body: string;
+  attachmentCount: number;
+  // Admin page of the booking or application, e.g. "/bookings/BK-1234"
+  adminPath: string;
+}
+
+export const sendStaffActivityAlert = async (alert: StaffActivityAlert): Promise<EmailSendResult> => {
+  try {
+    return await queueTemplatedEmail('staff_activity_alert', {
+      recipientName: alert.recipientName,
+      authorName: alert.authorName,
+      isReply: alert.isReply,
+      reference: alert.reference,
+      body: alert.body,
+      attachmentCount: alert.attachmentCount,
+      activityUrl: `${adminUrl()}${alert.adminPath}`,
+    }, undefined, alert.to);
+  } catch (error) {
+    console.error('❌ Activity alert email could not be queued:', error);
+    return failedResult(error);
+  }
+};
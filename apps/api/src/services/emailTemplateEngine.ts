@@ -0,0 +1,279 @@
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Email Template Engine
+ * A deliberately small, logic-less syntax that marketing can edit safely:
+ *
+ *   {{customerName}}                 value (HTML-escaped in HTML bodies)
+ *   {{totalAmount | currency}}       value through a formatter
+ *   {{#if visaRequested}}…{{else}}…{{/if}}, {{#unless …}}…{{/unless}}
+ *   {{#each perks}}{{label}}{{/each}} inner names resolve against the item first;
+ *                                    {{this}} is the item itself
+ *
+ * Templates are parsed once and rendered strictly: a name that is not in the
+ * data fails the render instead of producing a silently broken email. Pass
+ * `null` for optional values that are absent.
+ */
+
+export type TemplateOutput = 'html' | 'text';
+
+export class TemplateSyntaxError extends AppError {
+  constructor(message: string) {
+    super(message, 400);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+export class TemplateRenderError extends AppError {
+  constructor(message: string) {
+    super(message, 422);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+type Formatter = (value: unknown, locale: string) => string;
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string[]; formatters: string[]; line: number }
+  | { kind: 'if'; path: string[]; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+  | { kind: 'each'; path: string[]; body: TemplateNode[]; line: number };
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+}
+
+// Intl locale used for dates and numbers in each template language
+const INTL_LOCALES: Record<string, string> = { en: 'en-US', tl: 'fil-PH' };
+
+const intlLocale = (locale: string) => INTL_LOCALES[locale] ?? INTL_LOCALES.en;
+
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const formatDateWith = (options: Intl.DateTimeFormatOptions): Formatter => (value, locale) => {
+  const date = toDate(value);
+  return date ? date.toLocaleDateString(intlLocale(locale), options) : String(value ?? '');
+};
+
+const FORMATTERS: Record<string, Formatter> = {
+  currency: (value) =>
+    `PHP ${Number(value ?? 0).toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+  // Tour dates may be a single day or a "YYYY-MM-DD - YYYY-MM-DD" range
+  date: (value, locale) => {
+    if (typeof value === 'string' && value.includes(' - ')) {
+      const [start, end] = value.split(' - ').map((part) => toDate(part.trim()));
+      if (!start || !end) return value;
+      const short = formatDateWith({ month: 'short', day: 'numeric', year: 'numeric' });
+      return `${short(start, locale)} – ${short(end, locale)}`;
+    }
+    return formatDateWith({ weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })(value, locale);
+  },
+  shortDate: formatDateWith({ year: 'numeric', month: 'long', day: 'numeric' }),
+  lower: (value) => String(value ?? '').toLowerCase(),
+  upper: (value) => String(value ?? '').toUpperCase(),
+  // "visa-consultation" -> "Visa Consultation"
+  titleCase: (value) =>
+    String(value ?? '')
+      .split(/[-_\s]+/)
+      .filter(Boolean)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' '),
+};
+
+export const TEMPLATE_FORMATTERS = Object.keys(FORMATTERS);
+
+const TAG = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const PATH = /^(this|[A-Za-z_][A-Za-z0-9_]*)(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+const lineAt = (source: string, index: number) => source.slice(0, index).split('\n').length;
+
+function parsePath(raw: string, line: number): string[] {
+  if (!PATH.test(raw)) {
+    throw new TemplateSyntaxError(`Invalid variable name "${raw}" on line ${line}`);
+  }
+  return raw.split('.');
+}
+
+type OpenBlock =
+  | { kind: 'if'; node: Extract<TemplateNode, { kind: 'if' }>; tag: 'if' | 'unless'; inElse: boolean }
+  | { kind: 'each'; node: Extract<TemplateNode, { kind: 'each' }> };
+
+/**
+ * Parse a template, rejecting unknown formatters and unbalanced blocks.
+ */
+export function parseTemplate(source: string): ParsedTemplate {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const target = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    if (open.kind === 'each') return open.node.body;
+    return open.inElse ? open.node.otherwise : open.node.then;
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(TAG)) {
+    const index = match.index ?? 0;
+    const line = lineAt(source, index);
+    if (index > cursor) target().push({ kind: 'text', text: source.slice(cursor, index) });
+    cursor = index + match[0].length;
+
+    const tag = match[1];
+    if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.kind !== 'if' || open.inElse) {
+        throw new TemplateSyntaxError(`Unexpected {{else}} on line ${line}`);
+      }
+      open.inElse = true;
+      continue;
+    }
+
+    const block = /^([#/])(if|unless|each)(?:\s+(.*))?$/.exec(tag);
+    if (block) {
+      const [, marker, name, argument = ''] = block;
+      if (marker === '#') {
+        const path = parsePath(argument.trim(), line);
+        if (name === 'each') {
+          const node: Extract<TemplateNode, { kind: 'each' }> = { kind: 'each', path, body: [], line };
+          target().push(node);
+          stack.push({ kind: 'each', node });
+        } else {
+          const node: Extract<TemplateNode, { kind: 'if' }> = {
+            kind: 'if', path, negate: name === 'unless', then: [], otherwise: [], line,
+          };
+          target().push(node);
+          stack.push({ kind: 'if', node, tag: name as 'if' | 'unless', inElse: false });
+        }
+        continue;
+      }
+      const open = stack.pop();
+      const openTag = open ? (open.kind === 'each' ? 'each' : open.tag) : null;
+      if (openTag !== name) {
+        throw new TemplateSyntaxError(`Unexpected {{/${name}}} on line ${line}`);
+      }
+      continue;
+    }
+
+    const [rawPath, ...formatters] = tag.split('|').map((part) => part.trim());
+    const path = parsePath(rawPath, line);
+    for (const formatter of formatters) {
+      if (!FORMATTERS[formatter]) {
+        throw new TemplateSyntaxError(`Unknown formatter "${formatter}" on line ${line}`);
+      }
+    }
+    target().push({ kind: 'value', path, formatters, line });
+  }
+  if (cursor < source.length) target().push({ kind: 'text', text: source.slice(cursor) });
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    const tag = unclosed.kind === 'each' ? 'each' : unclosed.tag;
+    throw new TemplateSyntaxError(`{{#${tag}}} on line ${unclosed.node.line} is never closed`);
+  }
+  return { nodes: root };
+}
+
+export interface TemplateReference {
+  // Root variable name
+  name: string;
+  // Enclosing {{#each}} roots, innermost first; empty at the top level
+  scopes: string[];
+}
+
+/**
+ * Root variable names a template uses, with the loops they appear in,
+ * so an editor can check them against the declared variables.
+ */
+export function templateReferences(template: ParsedTemplate): TemplateReference[] {
+  const references: TemplateReference[] = [];
+  const visit = (nodes: TemplateNode[], scopes: string[]) => {
+    for (const node of nodes) {
+      if (node.kind === 'text') continue;
+      if (node.path[0] !== 'this') references.push({ name: node.path[0], scopes });
+      if (node.kind === 'if') {
+        visit(node.then, scopes);
+        visit(node.otherwise, scopes);
+      } else if (node.kind === 'each') {
+        visit(node.body, [node.path[0], ...scopes]);
+      }
+    }
+  };
+  visit(template.nodes, []);
+  return references;
+}
+
+const ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (char) => ESCAPES[char]);
+
+const isTruthy = (value: unknown) =>
+  Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+function resolve(path: string[], scopes: unknown[], line: number): unknown {
+  const [head, ...rest] = path;
+  let value: unknown;
+  if (head === 'this') {
+    value = scopes[0];
+  } else {
+    const scope = scopes.find((candidate) =>
+      candidate !== null && typeof candidate === 'object' && head in (candidate as Record<string, unknown>));
+    if (!scope) throw new TemplateRenderError(`Missing variable "${path.join('.')}" on line ${line}`);
+    value = (scope as Record<string, unknown>)[head];
+  }
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object' || !(key in (value as Record<string, unknown>))) {
+      throw new TemplateRenderError(`Missing variable "${path.join('.')}" on line ${line}`);
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  if (value === undefined) {
+    throw new TemplateRenderError(`Missing variable "${path.join('.')}" on line ${line}`);
+  }
+  return value;
+}
+
+/**
+ * Render a parsed template. Throws TemplateRenderError when a variable is
+ * missing or a {{#each}} target is not a list.
+ */
+export function renderTemplate(
+  template: ParsedTemplate,
+  data: Record<string, unknown>,
+  options: { locale: string; output: TemplateOutput }
+): string {
+  const render = (nodes: TemplateNode[], scopes: unknown[]): string => {
+    let out = '';
+    for (const node of nodes) {
+      if (node.kind === 'text') {
+        out += node.text;
+      } else if (node.kind === 'value') {
+        let value = resolve(node.path, scopes, node.line);
+        let text: string;
+        if (node.formatters.length === 0) {
+          text = value === null ? '' : String(value);
+        } else {
+          for (const formatter of node.formatters) value = FORMATTERS[formatter](value, options.locale);
+          text = String(value);
+        }
+        out += options.output === 'html' ? escapeHtml(text) : text;
+      } else if (node.kind === 'if') {
+        const test = isTruthy(resolve(node.path, scopes, node.line));
+        out += render(test !== node.negate ? node.then : node.otherwise, scopes);
+      } else {
+        const list = resolve(node.path, scopes, node.line);
+        if (list === null) continue;
+        if (!Array.isArray(list)) {
+          throw new TemplateRenderError(`"${node.path.join('.')}" on line ${node.line} is not a list`);
+        }
+        for (const item of list) out += render(node.body, [item, ...scopes]);
+      }
+    }
+    return out;
+  };
+  return render(template.nodes, [data]);
+}
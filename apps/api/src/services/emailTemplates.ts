@@ -0,0 +1,359 @@
+import EmailTemplateVersion, { IEmailTemplateVersion } from '../models/EmailTemplateVersion';
+import { AppError } from '../middleware/errorHandler';
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LOCALES,
+  EMAIL_TEMPLATES,
+  EmailLocale,
+  EmailTemplateContent,
+  EmailTemplateDefinition,
+  EmailTemplateKey,
+} from '../templates/email';
+import {
+  TemplateRenderError,
+  TemplateSyntaxError,
+  parseTemplate,
+  renderTemplate,
+  templateReferences,
+} from './emailTemplateEngine';
+
+/**
+ * Email Template Service
+ * Resolves which version of a template is sent and renders it. Admin saves
+ * never overwrite a template: each one adds a version per template and
+ * language, and the highest version is live. Until a language has a saved
+ * version, the built-in content from templates/email is sent.
+ */
+
+const STALE_MESSAGE = 'This template was saved by someone else in the meantime. Reload it and try again.';
+const CONTENT_PARTS: Array<keyof EmailTemplateContent> = ['subject', 'html', 'text'];
+
+export interface EmailTemplateAuthor {
+  id?: string;
+  name: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  locale: EmailLocale;
+  // 0 when the built-in content was used
+  version: number;
+}
+
+export interface ActiveEmailTemplate {
+  key: EmailTemplateKey;
+  locale: EmailLocale;
+  version: number;
+  content: EmailTemplateContent;
+  updatedAt?: Date;
+  authorName?: string;
+}
+
+export class EmailTemplateError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'EmailTemplateError';
+  }
+}
+
+export function isEmailTemplateKey(value: unknown): value is EmailTemplateKey {
+  return typeof value === 'string' && value in EMAIL_TEMPLATES;
+}
+
+/**
+ * Map a requested language ("tl", "fil-PH", "en-US", …) to a template locale.
+ */
+export function normalizeEmailLocale(value: unknown): EmailLocale {
+  if (typeof value !== 'string') return DEFAULT_EMAIL_LOCALE;
+  const lang = value.trim().toLowerCase().split(/[-_]/)[0];
+  if (lang === 'fil') return 'tl';
+  return (EMAIL_LOCALES as string[]).includes(lang) ? (lang as EmailLocale) : DEFAULT_EMAIL_LOCALE;
+}
+
+function getDefinition(key: string): EmailTemplateDefinition {
+  if (!isEmailTemplateKey(key)) throw new EmailTemplateError(`Unknown email template "${key}"`, 404);
+  return EMAIL_TEMPLATES[key];
+}
+
+// Internal templates are written once, in the default language
+function editableLocales(definition: EmailTemplateDefinition): EmailLocale[] {
+  return definition.audience === 'internal' ? [DEFAULT_EMAIL_LOCALE] : EMAIL_LOCALES;
+}
+
+function assertEditableLocale(definition: EmailTemplateDefinition, locale: string): EmailLocale {
+  const allowed = editableLocales(definition);
+  if (!(allowed as string[]).includes(locale)) {
+    throw new EmailTemplateError(`"${definition.name}" is not available in "${locale}"`, 404);
+  }
+  return locale as EmailLocale;
+}
+
+async function latestVersion(key: string, locale: string): Promise<IEmailTemplateVersion | null> {
+  return EmailTemplateVersion.findOne({ key, locale }).sort({ version: -1 }).lean<IEmailTemplateVersion>().exec();
+}
+
+async function resolveTemplate(definition: EmailTemplateDefinition, locale: EmailLocale): Promise<ActiveEmailTemplate | null> {
+  const saved = await latestVersion(definition.key, locale);
+  if (saved) {
+    return {
+      key: definition.key,
+      locale,
+      version: saved.version,
+      content: { subject: saved.subject, html: saved.html, text: saved.text },
+      updatedAt: saved.createdAt,
+      authorName: saved.authorName,
+    };
+  }
+  const builtIn = definition.defaults[locale];
+  return builtIn ? { key: definition.key, locale, version: 0, content: builtIn } : null;
+}
+
+/**
+ * The template that would be sent in a language, falling back to the default
+ * language when the requested one has neither a saved version nor built-in content.
+ */
+export async function getActiveEmailTemplate(key: EmailTemplateKey, locale: EmailLocale): Promise<ActiveEmailTemplate> {
+  const definition = getDefinition(key);
+  const requested = (editableLocales(definition) as string[]).includes(locale) ? locale : DEFAULT_EMAIL_LOCALE;
+  const active = (await resolveTemplate(definition, requested)) ?? (await resolveTemplate(definition, DEFAULT_EMAIL_LOCALE));
+  if (!active) throw new EmailTemplateError(`"${definition.name}" has no content`, 500);
+  return active;
+}
+
+/**
+ * Parse every part of a template and check it only uses declared variables,
+ * so a typo is caught when the template is saved rather than when it is sent.
+ */
+export function validateEmailTemplateContent(definition: EmailTemplateDefinition, content: EmailTemplateContent): void {
+  for (const part of CONTENT_PARTS) {
+    let parsed;
+    try {
+      parsed = parseTemplate(content[part]);
+    } catch (err) {
+      if (err instanceof TemplateSyntaxError) throw new EmailTemplateError(`${part}: ${err.message}`);
+      throw err;
+    }
+    const unknown = new Set<string>();
+    for (const reference of templateReferences(parsed)) {
+      if (definition.variables[reference.name]) continue;
+      const loopField = reference.scopes.some((scope) => definition.variables[scope]?.fields?.[reference.name]);
+      if (!loopField) unknown.add(reference.name);
+    }
+    if (unknown.size) {
+      throw new EmailTemplateError(`${part}: unknown variable${unknown.size === 1 ? '' : 's'} ${[...unknown].join(', ')}`);
+    }
+  }
+}
+
+// Required variables must be present and non-null; optional ones must at least be present
+function assertTemplateData(definition: EmailTemplateDefinition, data: Record<string, unknown>): void {
+  const missing = Object.entries(definition.variables)
+    .filter(([name, variable]) => data[name] === undefined || (data[name] === null && !variable.optional))
+    .map(([name]) => name);
+  if (missing.length) {
+    throw new TemplateRenderError(`Missing variables for "${definition.key}": ${missing.join(', ')}`);
+  }
+}
+
+/**
+ * Render template content with the given data. Throws TemplateRenderError
+ * when a variable is missing.
+ */
+export function renderEmailTemplateContent(
+  key: EmailTemplateKey,
+  content: EmailTemplateContent,
+  data: Record<string, unknown>,
+  locale: EmailLocale
+): Omit<RenderedEmail, 'version'> {
+  const definition = getDefinition(key);
+  assertTemplateData(definition, data);
+  const render = (source: string, output: 'html' | 'text') =>
+    renderTemplate(parseTemplate(source), data, { locale, output });
+  return {
+    subject: render(content.subject, 'text').replace(/\s+/g, ' ').trim(),
+    html: render(content.html, 'html'),
+    text: render(content.text, 'text').trim(),
+    locale,
+  };
+}
+
+/**
+ * Render the live version of a template in the recipient's language.
+ */
+export async function renderEmail(
+  key: EmailTemplateKey,
+  data: Record<string, unknown>,
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE
+): Promise<RenderedEmail> {
+  const active = await getActiveEmailTemplate(key, locale);
+  return { ...renderEmailTemplateContent(key, active.content, data, active.locale), version: active.version };
+}
+
+export interface EmailTemplateSummary {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  audience: EmailTemplateDefinition['audience'];
+  locales: Array<{ locale: EmailLocale; version: number; updatedAt?: Date; authorName?: string }>;
+}
+
+export async function listEmailTemplates(): Promise<EmailTemplateSummary[]> {
+  const latest = await EmailTemplateVersion.aggregate<{
+    _id: { key: string; locale: string };
+    version: number;
+    createdAt: Date;
+    authorName: string;
+  }>([
+    { $sort: { version: -1 } },
+    {
+      $group: {
+        _id: { key: '$key', locale: '$locale' },
+        version: { $first: '$version' },
+        createdAt: { $first: '$createdAt' },
+        authorName: { $first: '$authorName' },
+      },
+    },
+  ]).exec();
+  const byKey = new Map(latest.map((entry) => [`${entry._id.key}:${entry._id.locale}`, entry]));
+
+  return Object.values(EMAIL_TEMPLATES).map((definition) => ({
+    key: definition.key,
+    name: definition.name,
+    description: definition.description,
+    audience: definition.audience,
+    locales: editableLocales(definition).map((locale) => {
+      const saved = byKey.get(`${definition.key}:${locale}`);
+      return saved
+        ? { locale, version: saved.version, updatedAt: saved.createdAt, authorName: saved.authorName }
+        : { locale, version: 0 };
+    }),
+  }));
+}
+
+/**
+ * Everything the editor needs for one template language: the live content,
+ * the built-in content to start over from, and the declared variables.
+ */
+export async function getEmailTemplateForEditing(key: string, locale: string) {
+  const definition = getDefinition(key);
+  const editable = assertEditableLocale(definition, locale);
+  const active = await resolveTemplate(definition, editable);
+  return {
+    key: definition.key,
+    name: definition.name,
+    description: definition.description,
+    audience: definition.audience,
+    locale: editable,
+    variables: definition.variables,
+    sample: definition.sample,
+    bookingPreview: Boolean(definition.bookingPreview),
+    version: active?.version ?? 0,
+    content: active?.content ?? definition.defaults.en,
+    defaultContent: definition.defaults[editable] ?? definition.defaults.en,
+    updatedAt: active?.updatedAt,
+    authorName: active?.authorName,
+  };
+}
+
+export async function listEmailTemplateVersions(key: string, locale: string): Promise<IEmailTemplateVersion[]> {
+  const definition = getDefinition(key);
+  const editable = assertEditableLocale(definition, locale);
+  return EmailTemplateVersion.find({ key: definition.key, locale: editable })
+    .select('-html -text')
+    .sort({ version: -1 })
+    .lean<IEmailTemplateVersion[]>()
+    .exec();
+}
+
+export async function getEmailTemplateVersion(key: string, locale: string, version: number): Promise<IEmailTemplateVersion> {
+  const definition = getDefinition(key);
+  const editable = assertEditableLocale(definition, locale);
+  const found = await EmailTemplateVersion.findOne({ key: definition.key, locale: editable, version })
+    .lean<IEmailTemplateVersion>()
+    .exec();
+  if (!found) throw new EmailTemplateError(`Version ${version} not found`, 404);
+  return found;
+}
+
+export function readEmailTemplateContent(body: unknown): EmailTemplateContent {
+  const input = (body ?? {}) as Partial<Record<keyof EmailTemplateContent, unknown>>;
+  if (typeof input.subject !== 'string' || !input.subject.trim()) {
+    throw new EmailTemplateError('subject is required');
+  }
+  if (typeof input.html !== 'string' || !input.html.trim()) {
+    throw new EmailTemplateError('html is required');
+  }
+  const text = input.text ?? '';
+  if (typeof text !== 'string') {
+    throw new EmailTemplateError('text must be a string');
+  }
+  return { subject: input.subject, html: input.html, text };
+}
+
+interface SaveOptions {
+  // Version the editor loaded; a save based on an older one is rejected
+  expectedVersion?: number;
+  note?: string;
+  restoredFrom?: number;
+}
+
+/**
+ * Save template content as the next version, which goes live immediately.
+ * Rejects with 409 when someone else saved after the editor loaded.
+ */
+export async function saveEmailTemplateVersion(
+  key: string,
+  locale: string,
+  content: EmailTemplateContent,
+  author: EmailTemplateAuthor,
+  options: SaveOptions = {}
+): Promise<IEmailTemplateVersion> {
+  const definition = getDefinition(key);
+  const editable = assertEditableLocale(definition, locale);
+  validateEmailTemplateContent(definition, content);
+
+  const current = (await latestVersion(definition.key, editable))?.version ?? 0;
+  if (options.expectedVersion !== undefined && options.expectedVersion !== current) {
+    throw new EmailTemplateError(STALE_MESSAGE, 409);
+  }
+  try {
+    const saved = await EmailTemplateVersion.create({
+      key: definition.key,
+      locale: editable,
+      version: current + 1,
+      action: options.restoredFrom ? 'restore' : 'update',
+      restoredFrom: options.restoredFrom,
+      ...content,
+      note: options.note?.trim() || undefined,
+      authorId: author.id,
+      authorName: author.name,
+    });
+    return saved.toObject();
+  } catch (err) {
+    // Unique (key, locale, version): a concurrent save took this version number
+    if ((err as { code?: number }).code === 11000) throw new EmailTemplateError(STALE_MESSAGE, 409);
+    throw err;
+  }
+}
+
+/**
+ * Make an earlier version live again. The restore is itself a new version,
+ * so it can be undone the same way.
+ */
+export async function restoreEmailTemplateVersion(
+  key: string,
+  locale: string,
+  version: number,
+  author: EmailTemplateAuthor
+): Promise<IEmailTemplateVersion> {
+  const target = await getEmailTemplateVersion(key, locale, version);
+  return saveEmailTemplateVersion(
+    key,
+    locale,
+    { subject: target.subject, html: target.html, text: target.text },
+    author,
+    { restoredFrom: version, note: `Restored version ${version}` }
+  );
+}
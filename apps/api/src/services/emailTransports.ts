@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import logger from '../utils/logger';
+
+/**
+ * Email Transports
+ * The email outbox hands every message to one transport. Which one is picked
+ * by EMAIL_TRANSPORT; without it, Gmail is used when its credentials are set
+ * and Ethereal (a fake SMTP inbox) otherwise. `smtp` talks to any SMTP server,
+ * including local sinks such as MailHog, and `file` writes each message as an
+ * .eml file, so scripts and tests can send without a mail server.
+ */
+
+export type EmailTransportName = 'gmail' | 'smtp' | 'ethereal' | 'file';
+
+export interface OutgoingEmail {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface EmailTransportResult {
+  messageId: string;
+  // Link to view the message, for Ethereal and file deliveries
+  previewUrl?: string;
+}
+
+export interface IEmailTransport {
+  readonly name: EmailTransportName | string;
+  send(email: OutgoingEmail): Promise<EmailTransportResult>;
+}
+
+class GmailTransport implements IEmailTransport {
+  readonly name = 'gmail' as const;
+  private transporter: Transporter | null = null;
+
+  async send(email: OutgoingEmail): Promise<EmailTransportResult> {
+    this.transporter ??= nodemailer.createTransport({
+      service: 'gmail',
+      auth: {
+        user: process.env.GMAIL_USER,
+        pass: process.env.GMAIL_APP_PASSWORD,
+      },
+    });
+    const info = await this.transporter.sendMail(email);
+    return { messageId: info.messageId };
+  }
+}
+
+class SmtpTransport implements IEmailTransport {
+  readonly name = 'smtp' as const;
+  private transporter: Transporter | null = null;
+
+  async send(email: OutgoingEmail): Promise<EmailTransportResult> {
+    if (!this.transporter) {
+      if (!process.env.SMTP_HOST) throw new Error('SMTP_HOST is not set');
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+      });
+    }
+    const info = await this.transporter.sendMail(email);
+    return { messageId: info.messageId };
+  }
+}
+
+class EtherealTransport implements IEmailTransport {
+  readonly name = 'ethereal' as const;
+  private transporter: Promise<Transporter> | null = null;
+
+  private createTransporter(): Promise<Transporter> {
+    logger.warn('[Email] GMAIL_USER/GMAIL_APP_PASSWORD not set — sending to Ethereal (fake SMTP). Emails will NOT reach real inboxes!');
+    return nodemailer.createTestAccount().then((account) => {
+      logger.info(`[Email] Ethereal test credentials: ${account.user}`);
+      return nodemailer.createTransport({
+        host: 'smtp.ethereal.email',
+        port: 587,
+        secure: false,
+        auth: { user: account.user, pass: account.pass },
+      });
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<EmailTransportResult> {
+    this.transporter ??= this.createTransporter();
+    try {
+      const info = await (await this.transporter).sendMail(email);
+      return { messageId: info.messageId, previewUrl: nodemailer.getTestMessageUrl(info) || undefined };
+    } catch (err) {
+      // Creating the test account needs the network; try again next time
+      this.transporter = null;
+      throw err;
+    }
+  }
+}
+
+class FileTransport implements IEmailTransport {
+  readonly name = 'file' as const;
+  private readonly builder = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  private get directory(): string {
+    return process.env.EMAIL_OUTBOX_DIR || path.resolve(process.cwd(), 'jobs-output', 'emails');
+  }
+
+  async send(email: OutgoingEmail): Promise<EmailTransportResult> {
+    const info = await this.builder.sendMail(email);
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const id = String(info.messageId).replace(/[<>]/g, '').replace(/[^\w.@-]/g, '_');
+    const file = path.join(this.directory, `${Date.now()}-${id}.eml`);
+    await fs.promises.writeFile(file, info.message as Buffer);
+    return { messageId: info.messageId, previewUrl: `file://${file}` };
+  }
+}
+
+const transports: Record<EmailTransportName, IEmailTransport> = {
+  gmail: new GmailTransport(),
+  smtp: new SmtpTransport(),
+  ethereal: new EtherealTransport(),
+  file: new FileTransport(),
+};
+
+let override: IEmailTransport | null = null;
+
+const isTransportName = (name: string): name is EmailTransportName => name in transports;
+
+export function getEmailTransport(): IEmailTransport {
+  if (override) return override;
+  const configured = (process.env.EMAIL_TRANSPORT || '').trim().toLowerCase();
+  if (configured) {
+    if (isTransportName(configured)) return transports[configured];
+    logger.warn(`[Email] Unknown EMAIL_TRANSPORT "${configured}"; using the default transport`);
+  }
+  return process.env.GMAIL_USER && process.env.GMAIL_APP_PASSWORD ? transports.gmail : transports.ethereal;
+}
+
+// Send through the given transport instead of the configured one; null undoes it
+export function setEmailTransport(transport: IEmailTransport | null): void {
+  override = transport;
+}
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import Booking, { IBooking } from '../models/Booking';
+import { AppError } from '../middleware/errorHandler';
+import { normalizeBookingStatus } from './bookingStatus';
+import {
+  CustomerTrip,
+  TRIP_PROJECTION,
+  customerEmailMatch,
+  isTripClosed,
+  setTripDocument,
+  toCustomerTrip,
+} from './customerTrips';
+import { TRAVEL_DOCUMENT_TYPES, TravelDocumentType, storeTravelDocument } from './documentStorage';
+import { sendBookingAccessEmail } from './emailService';
+
+/**
+ * Guest Booking Access
+ * "Find my booking" for customers who booked without an account. The customer
+ * gives the booking ID and the email on the booking and is emailed a signed,
+ * time-limited link. The link opens the booking read-only, with passport and
+ * visa upload. Registering and verifying the same email claims the booking
+ * (see claimGuestBookings).
+ */
+
+const BOOKING_ACCESS_TTL_HOURS = Number(process.env.BOOKING_ACCESS_TTL_HOURS) || 24;
+
+const clientUrl = () => process.env.CLIENT_URL || 'https://discover-grp.netlify.app';
+
+export class GuestBookingAccessError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'GuestBookingAccessError';
+  }
+}
+
+export interface GuestTrip extends CustomerTrip {
+  accessExpiresAt: Date;
+}
+
+function getAccessSecret(): string {
+  const secret = process.env.BOOKING_ACCESS_SECRET || process.env.JWT_SECRET;
+  if (!secret) throw new Error('BOOKING_ACCESS_SECRET or JWT_SECRET must be set to sign booking access links');
+  return secret;
+}
+
+// The email is part of the signature, so correcting it on the booking invalidates earlier links
+function signAccess(bookingId: string, customerEmail: string, expiresAt: number): string {
+  return crypto
+    .createHmac('sha256', getAccessSecret())
+    .update(`${bookingId}.${customerEmail.trim().toLowerCase()}.${expiresAt}`)
+    .digest('base64url');
+}
+
+export function createBookingAccessToken(
+  booking: Pick<IBooking, 'bookingId' | 'customerEmail'>,
+  ttlHours: number = BOOKING_ACCESS_TTL_HOURS,
+  now: Date = new Date()
+): { token: string; expiresAt: Date } {
+  const expiresAt = now.getTime() + ttlHours * 60 * 60 * 1000;
+  const encodedId = Buffer.from(booking.bookingId).toString('base64url');
+  return {
+    token: `${encodedId}.${expiresAt}.${signAccess(booking.bookingId, booking.customerEmail, expiresAt)}`,
+    expiresAt: new Date(expiresAt),
+  };
+}
+
+/**
+ * Email an access link when the booking ID and email match. Always resolves
+ * the same way so the form cannot be used to find out which bookings exist.
+ */
+export async function requestBookingAccessLink(bookingId: unknown, email: unknown): Promise<void> {
+  if (typeof bookingId !== 'string' || !bookingId.trim() || typeof email !== 'string' || !email.trim()) {
+    throw new GuestBookingAccessError('bookingId and email are required');
+  }
+
+  const booking = await Booking.findOne({
+    bookingId: bookingId.trim(),
+    customerEmail: customerEmailMatch(email),
+    archived: { $ne: true },
+  }).exec();
+  if (!booking) return;
+
+  const { token } = createBookingAccessToken(booking);
+  const accessUrl = `${clientUrl()}/my-booking?token=${encodeURIComponent(token)}`;
+  await sendBookingAccessEmail(booking, accessUrl, BOOKING_ACCESS_TTL_HOURS);
+}
+
+async function getTokenBooking(token: unknown, now: Date = new Date()): Promise<{ booking: IBooking; expiresAt: Date }> {
+  const invalid = new GuestBookingAccessError('This link is invalid or has expired. Please request a new one.', 401);
+  if (typeof token !== 'string') throw invalid;
+
+  const [encodedId, expiresPart, signature] = token.split('.');
+  const expiresAt = Number(expiresPart);
+  if (!encodedId || !signature || !Number.isFinite(expiresAt) || expiresAt <= now.getTime()) throw invalid;
+
+  const bookingId = Buffer.from(encodedId, 'base64url').toString();
+  const booking = await Booking.findOne({ bookingId, archived: { $ne: true } }).select(TRIP_PROJECTION).exec();
+  if (!booking) throw invalid;
+
+  const expected = Buffer.from(signAccess(booking.bookingId, booking.customerEmail, expiresAt));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) throw invalid;
+
+  return { booking, expiresAt: new Date(expiresAt) };
+}
+
+// Guests can look but not edit travellers; that needs an account or a call to us
+function toGuestTrip(booking: IBooking, expiresAt: Date): GuestTrip {
+  return { ...toCustomerTrip(booking), canEditTravellers: false, accessExpiresAt: expiresAt };
+}
+
+export async function getGuestTrip(token: unknown): Promise<GuestTrip> {
+  const { booking, expiresAt } = await getTokenBooking(token);
+  return toGuestTrip(booking, expiresAt);
+}
+
+/**
+ * Store a passport or visa copy sent through an access link and attach it to
+ * the booking. Files go to a per-booking guest folder, apart from account uploads.
+ */
+export async function attachGuestDocument(
+  token: unknown,
+  type: unknown,
+  file: { buffer: Buffer; mimetype: string; size: number } | undefined
+): Promise<GuestTrip> {
+  const { booking } = await getTokenBooking(token);
+  if (!TRAVEL_DOCUMENT_TYPES.includes(type as TravelDocumentType)) {
+    throw new GuestBookingAccessError(`type must be one of: ${TRAVEL_DOCUMENT_TYPES.join(', ')}`);
+  }
+  if (!file) throw new GuestBookingAccessError('No file provided');
+  if (isTripClosed(booking)) {
+    throw new GuestBookingAccessError(`This booking is ${normalizeBookingStatus(booking.status)} and can no longer be changed.`, 409);
+  }
+
+  const stored = await storeTravelDocument(file, type as TravelDocumentType, `guest-${booking.bookingId}`);
+  await setTripDocument(booking.bookingId, type as TravelDocumentType, stored.url);
+  return getGuestTrip(token);
+}
@@ -0,0 +1,357 @@
+import Booking, { IBooking, IInstallment, IInstallmentPlan, IStatusActor } from '../models/Booking';
+import Tour from '../models/Tour';
+import { sendInstallmentReminderEmail } from './emailService';
+import { normalizeEmailLocale } from './emailTemplates';
+import {
+  BookingTransitionError,
+  CLOSED_STATUSES,
+  canTransition,
+  normalizeBookingStatus,
+  recordStatusEvent,
+  statusForPayment,
+  transitionBookingStatus,
+} from './bookingStatus';
+import { confirmSeatHold, parseDepartureStart } from './seatInventory';
+import logger from '../utils/logger';
+
+/**
+ * Installment Service
+ * Builds the payment schedule for downpayment bookings (downpayment, monthly
+ * installments, then a final balance due a set number of days before
+ * departure), records payments against the booking, keeps each
+ * installment's status in step with the amount paid, and emails reminders
+ * for upcoming and overdue installments.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_BALANCE_DUE_DAYS = 90;
+const DEFAULT_INSTALLMENT_COUNT = 3;
+const MAX_INSTALLMENT_COUNT = 12;
+// Installments fall on this day of each month, matching the booking page
+const INSTALLMENT_DAY_OF_MONTH = 15;
+const REMINDER_DAYS_BEFORE = Number(process.env.INSTALLMENT_REMINDER_DAYS_BEFORE) || 7;
+const OVERDUE_REMINDER_INTERVAL_DAYS = Number(process.env.INSTALLMENT_OVERDUE_REMINDER_INTERVAL_DAYS) || 7;
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+export interface BuildInstallmentPlanInput {
+  bookingId: string;
+  totalAmount: number;
+  downpaymentAmount: number;
+  selectedDate: string;
+  installmentCount?: number;
+  balanceDueDaysBeforeTravel?: number;
+}
+
+/**
+ * Split the balance after the downpayment into monthly installments plus a
+ * final balance. Only installments that fall before the balance due date are
+ * scheduled, so a departure that is close gets fewer (or no) installments.
+ * Returns null when nothing is left to pay after the downpayment.
+ */
+export function buildInstallmentPlan(input: BuildInstallmentPlanInput, now: Date = new Date()): IInstallmentPlan | null {
+  const remaining = Math.round(input.totalAmount - input.downpaymentAmount);
+  if (remaining <= 0) return null;
+
+  const balanceDueDaysBeforeTravel = input.balanceDueDaysBeforeTravel ?? DEFAULT_BALANCE_DUE_DAYS;
+  const today = startOfDay(now);
+  const departure = new Date(`${parseDepartureStart(input.selectedDate)}T00:00:00`);
+  const latestDue = Number.isNaN(departure.getTime())
+    ? today
+    : new Date(departure.getTime() - balanceDueDaysBeforeTravel * DAY_MS);
+  const balanceDueDate = latestDue > today ? latestDue : today;
+
+  const requested = Math.floor(input.installmentCount ?? DEFAULT_INSTALLMENT_COUNT);
+  const maxInstallments = Math.max(0, Math.min(MAX_INSTALLMENT_COUNT, requested));
+  const dueDates: Date[] = [];
+  for (let month = 1; dueDates.length < maxInstallments; month++) {
+    const due = new Date(today.getFullYear(), today.getMonth() + month, INSTALLMENT_DAY_OF_MONTH);
+    if (due >= balanceDueDate) break;
+    dueDates.push(due);
+  }
+
+  const monthlyAmount = Math.floor(remaining / (dueDates.length + 1));
+  const payments: IInstallment[] = dueDates.map((dueDate, index) => ({
+    id: `inst_${input.bookingId}_${index + 1}`,
+    sequence: index + 1,
+    kind: 'installment',
+    dueDate,
+    amount: monthlyAmount,
+    status: 'pending',
+  }));
+  payments.push({
+    id: `inst_${input.bookingId}_${dueDates.length + 1}`,
+    sequence: dueDates.length + 1,
+    kind: 'final_balance',
+    dueDate: balanceDueDate,
+    amount: remaining - monthlyAmount * dueDates.length,
+    status: 'pending',
+  });
+
+  return {
+    downpaymentAmount: input.downpaymentAmount,
+    installmentCount: dueDates.length,
+    monthlyAmount,
+    balanceDueDate,
+    balanceDueDaysBeforeTravel,
+    payments,
+    createdAt: now,
+  };
+}
+
+/**
+ * Build a plan using the tour's own balance-due rule.
+ */
+export async function createInstallmentPlanForBooking(
+  input: Omit<BuildInstallmentPlanInput, 'balanceDueDaysBeforeTravel'> & { tourSlug: string }
+): Promise<IInstallmentPlan | null> {
+  const tour = await Tour.findOne({ slug: input.tourSlug }).select('balanceDueDaysBeforeTravel').lean<{ balanceDueDaysBeforeTravel?: number }>().exec();
+  return buildInstallmentPlan({
+    ...input,
+    balanceDueDaysBeforeTravel: typeof tour?.balanceDueDaysBeforeTravel === 'number'
+      ? tour.balanceDueDaysBeforeTravel
+      : undefined,
+  });
+}
+
+/**
+ * Mark installments paid in schedule order for everything paid beyond the
+ * downpayment; unpaid ones are pending or overdue depending on their due date.
+ */
+export function allocatePayments(
+  plan: IInstallmentPlan,
+  paidAmount: number,
+  paymentIntentId?: string,
+  now: Date = new Date()
+): IInstallment[] {
+  let covered = paidAmount - plan.downpaymentAmount;
+  return [...plan.payments]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map((payment) => {
+      if (covered >= payment.amount) {
+        covered -= payment.amount;
+        return payment.status === 'paid'
+          ? payment
+          : { ...payment, status: 'paid', paidDate: now, paymentIntentId };
+      }
+      covered = 0;
+      const status = new Date(payment.dueDate) < startOfDay(now) ? 'overdue' : 'pending';
+      return { ...payment, status, paidDate: undefined };
+    });
+}
+
+/**
+ * Recompute installment statuses after the booking's paid amount changed.
+ */
+export async function syncInstallmentPlan(bookingId: string, paymentIntentId?: string): Promise<IBooking | null> {
+  const booking = await Booking.findOne({ bookingId }).exec();
+  if (!booking?.installmentPlan?.payments?.length) return booking;
+
+  const payments = allocatePayments(booking.installmentPlan, booking.paidAmount, paymentIntentId);
+  return Booking.findOneAndUpdate(
+    { bookingId },
+    { $set: { 'installmentPlan.payments': payments } },
+    { new: true }
+  ).exec();
+}
+
+export interface RecordPaymentOptions {
+  // Provider payment id or offline reference; each is counted once
+  paymentId: string;
+  amount: number;
+  actor: IStatusActor;
+  reason?: string;
+  // Written to the booking for gateway payments
+  paymentIntentId?: string;
+  // Shown on the installments the payment covers, defaults to paymentId
+  reference?: string;
+}
+
+/**
+ * Add a payment to the booking's paid amount, move the status on to
+ * partially paid or confirmed, and bring the installment plan up to date.
+ * Webhook retries and replays of the same payment change nothing. Returns
+ * null when the booking does not exist or the payment was already recorded.
+ */
+export async function recordBookingPayment(
+  bookingId: string,
+  options: RecordPaymentOptions
+): Promise<IBooking | null> {
+  const updated = await Booking.findOneAndUpdate(
+    { bookingId, recordedPaymentIds: { $ne: options.paymentId } },
+    {
+      $inc: { paidAmount: options.amount },
+      $push: { recordedPaymentIds: options.paymentId },
+      ...(options.paymentIntentId && { $set: { paymentIntentId: options.paymentIntentId } }),
+    },
+    { new: true }
+  ).exec();
+  if (!updated) return null;
+
+  const reason = options.reason || `Payment ${options.paymentId} received`;
+  const status = normalizeBookingStatus(updated.status);
+  const nextStatus = statusForPayment(updated.paidAmount, updated.totalAmount);
+  try {
+    if (nextStatus && nextStatus !== status && canTransition(status, nextStatus)) {
+      await transitionBookingStatus(bookingId, nextStatus, { actor: options.actor, reason });
+    } else {
+      await recordStatusEvent(bookingId, options.actor, reason);
+      if (status === 'partially_paid' || status === 'confirmed') await confirmSeatHold(bookingId);
+    }
+  } catch (error) {
+    // A payment recorded side by side already moved the status on
+    if (!(error instanceof BookingTransitionError)) throw error;
+  }
+  logger.info(`[Installments] ${bookingId}: recorded payment ${options.paymentId} of ${options.amount}, ${updated.paidAmount} paid`);
+
+  return syncInstallmentPlan(bookingId, options.reference || options.paymentId);
+}
+
+// A payment the customer made before staff booked for them, e.g. a bank deposit sent in a chat
+export interface InitialPayment {
+  amount: number;
+  // Deposit slip or receipt number the agent checked the payment against
+  reference: string;
+}
+
+/**
+ * Record the payment staff verified while booking on the customer's behalf
+ * as the booking's first payment, so the status and installment plan move on
+ * with it like any other payment.
+ */
+export function recordInitialPayment(
+  bookingId: string,
+  payment: InitialPayment,
+  actor: IStatusActor
+): Promise<IBooking | null> {
+  return recordBookingPayment(bookingId, {
+    paymentId: `initial:${bookingId}`,
+    amount: payment.amount,
+    actor,
+    reason: `Payment received before booking (${payment.reference})`,
+    reference: payment.reference,
+  });
+}
+
+export interface BalanceSummary {
+  outstanding: number;
+  overdueAmount: number;
+  overdueCount: number;
+  nextDue?: IInstallment;
+  balanceDueDate?: Date;
+}
+
+export function getBalanceSummary(booking: Pick<IBooking, 'totalAmount' | 'paidAmount' | 'installmentPlan'>): BalanceSummary {
+  const payments = booking.installmentPlan?.payments ?? [];
+  const overdue = payments.filter((p) => p.status === 'overdue');
+  return {
+    outstanding: Math.max(0, booking.totalAmount - booking.paidAmount),
+    overdueAmount: overdue.reduce((sum, p) => sum + p.amount, 0),
+    overdueCount: overdue.length,
+    nextDue: payments.find((p) => p.status !== 'paid'),
+    balanceDueDate: booking.installmentPlan?.balanceDueDate,
+  };
+}
+
+/**
+ * Flag every pending installment whose due date has passed.
+ */
+export async function markOverdueInstallments(now: Date = new Date()): Promise<number> {
+  const cutoff = startOfDay(now);
+  const result = await Booking.updateMany(
+    {
+      status: { $nin: CLOSED_STATUSES },
+      'installmentPlan.payments': { $elemMatch: { status: 'pending', dueDate: { $lt: cutoff } } },
+    },
+    { $set: { 'installmentPlan.payments.$[due].status': 'overdue' } },
+    { arrayFilters: [{ 'due.status': 'pending', 'due.dueDate': { $lt: cutoff } }] }
+  ).exec();
+  return result.modifiedCount;
+}
+
+/**
+ * Active bookings with at least one overdue installment, oldest debt first.
+ */
+export async function findOverdueBookings(): Promise<IBooking[]> {
+  return Booking.find({
+    status: { $nin: CLOSED_STATUSES },
+    archived: { $ne: true },
+    'installmentPlan.payments.status': 'overdue',
+  })
+    .sort({ 'installmentPlan.balanceDueDate': 1 })
+    .exec();
+}
+
+function pickReminder(payments: IInstallment[], now: Date): IInstallment | undefined {
+  const upcomingCutoff = new Date(now.getTime() + REMINDER_DAYS_BEFORE * DAY_MS);
+  const overdueCutoff = new Date(now.getTime() - OVERDUE_REMINDER_INTERVAL_DAYS * DAY_MS);
+  return payments.find((p) => {
+    if (p.status === 'overdue') {
+      return !p.lastReminderAt || new Date(p.lastReminderAt) <= overdueCutoff;
+    }
+    return p.status === 'pending' && new Date(p.dueDate) <= upcomingCutoff && !p.lastReminderAt;
+  });
+}
+
+/**
+ * Email one reminder per booking: an installment coming due within the
+ * reminder window (sent once), or an overdue one (repeated at an interval).
+ */
+export async function sendInstallmentReminders(now: Date = new Date()): Promise<number> {
+  const upcomingCutoff = new Date(now.getTime() + REMINDER_DAYS_BEFORE * DAY_MS);
+  const bookings = await Booking.find({
+    status: { $nin: CLOSED_STATUSES },
+    archived: { $ne: true },
+    'installmentPlan.payments': {
+      $elemMatch: {
+        $or: [
+          { status: 'overdue' },
+          { status: 'pending', dueDate: { $lte: upcomingCutoff } },
+        ],
+      },
+    },
+  }).exec();
+
+  let sent = 0;
+  for (const booking of bookings) {
+    const payment = pickReminder(booking.installmentPlan?.payments ?? [], now);
+    if (!payment) continue;
+
+    const result = await sendInstallmentReminderEmail({
+      bookingId: booking.bookingId,
+      customerName: booking.customerName,
+      customerEmail: booking.customerEmail,
+      tourTitle: booking.tourSlug || 'your tour',
+      tourDate: booking.selectedDate,
+      installmentLabel: payment.kind === 'final_balance' ? 'Final balance' : `Installment ${payment.sequence}`,
+      amount: payment.amount,
+      dueDate: new Date(payment.dueDate),
+      isOverdue: payment.status === 'overdue',
+      outstandingBalance: getBalanceSummary(booking).outstanding,
+      locale: normalizeEmailLocale(booking.locale),
+    });
+    if (!result.success) {
+      logger.warn(`[Installments] Reminder for ${booking.bookingId} not sent: ${result.error}`);
+      continue;
+    }
+
+    await Booking.updateOne(
+      { bookingId: booking.bookingId },
+      {
+        $set: { 'installmentPlan.payments.$[p].lastReminderAt': now },
+        $inc: { 'installmentPlan.payments.$[p].reminderCount': 1 },
+      },
+      { arrayFilters: [{ 'p.id': payment.id }] }
+    ).exec();
+    sent++;
+  }
+
+  if (sent > 0) {
+    logger.info(`[Installments] Sent ${sent} payment reminder(s)`);
+  }
+  return sent;
+}
@@ -0,0 +1,265 @@
+import os from 'os';
+import mongoose from 'mongoose';
+import JobRun, { IJobRun, JobTrigger } from '../models/JobRun';
+import { AppError } from '../middleware/errorHandler';
+import { CronSchedule, cronMatches, nextCronRun, parseCron } from '../utils/cron';
+import { getRedis } from '../utils/redisClient';
+import logger from '../utils/logger';
+
+/**
+ * Job Runner Service
+ * In-process scheduler for recurring API work. Every instance checks the cron
+ * schedules once per tick, but a job only runs where its Redis lock was
+ * acquired, so a scaled-out API still runs each job once. Every run is
+ * recorded in MongoDB, and failed attempts are retried with a growing delay.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const TICK_INTERVAL_MS = 30 * 1000;
+export const JOB_TIMEZONE = process.env.JOB_TIMEZONE || 'Asia/Manila';
+const LOCK_PREFIX = 'lock:job:';
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 30 * 1000;
+const DEFAULT_TIMEOUT_MS = 10 * MINUTE_MS;
+
+export type JobResult = Record<string, unknown> | void;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // Five-field cron expression, evaluated in JOB_TIMEZONE
+  schedule: string;
+  handler: () => Promise<JobResult>;
+  maxAttempts?: number;
+  // Wait before retry n is retryDelayMs × n
+  retryDelayMs?: number;
+  timeoutMs?: number;
+}
+
+interface RegisteredJob extends Required<JobDefinition> {
+  cron: CronSchedule;
+}
+
+export interface JobSummary {
+  name: string;
+  description: string;
+  schedule: string;
+  timeZone: string;
+  maxAttempts: number;
+  nextRunAt: Date | null;
+  lastRun: IJobRun | null;
+}
+
+export class JobRunnerError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'JobRunnerError';
+  }
+}
+
+const jobs = new Map<string, RegisteredJob>();
+// Minute each job was last considered in, so two ticks in one minute start it once
+const lastScheduledSlot = new Map<string, number>();
+let ticker: NodeJS.Timeout | null = null;
+
+export function registerJob(definition: JobDefinition): void {
+  if (jobs.has(definition.name)) {
+    throw new Error(`Job "${definition.name}" is already registered`);
+  }
+  jobs.set(definition.name, {
+    ...definition,
+    maxAttempts: definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    retryDelayMs: definition.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+    timeoutMs: definition.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    cron: parseCron(definition.schedule),
+  });
+}
+
+// Long enough to cover every attempt and retry delay, plus the schedule slot
+function lockTtlMs(job: RegisteredJob): number {
+  const retryDelays = job.retryDelayMs * (job.maxAttempts * (job.maxAttempts - 1)) / 2;
+  return job.timeoutMs * job.maxAttempts + retryDelays + MINUTE_MS;
+}
+
+async function acquireLock(job: RegisteredJob): Promise<string | null> {
+  const token = `${INSTANCE_ID}:${Date.now()}`;
+  const acquired = await getRedis().set(`${LOCK_PREFIX}${job.name}`, token, 'PX', lockTtlMs(job), 'NX');
+  return acquired ? token : null;
+}
+
+/**
+ * Scheduled runs keep the lock until their minute is over, so an instance
+ * whose tick lands later in the same minute does not start the job again.
+ */
+async function releaseLock(job: RegisteredJob, token: string, holdUntil?: number): Promise<void> {
+  const redis = getRedis();
+  const key = `${LOCK_PREFIX}${job.name}`;
+  // The lock expired and another instance took it; leave theirs alone
+  if (await redis.get(key) !== token) return;
+
+  const remainingMs = holdUntil ? holdUntil - Date.now() : 0;
+  if (remainingMs > 0) {
+    await redis.expire(key, Math.ceil(remainingMs / 1000));
+  } else {
+    await redis.del(key);
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, jobName: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${jobName} timed out after ${Math.round(timeoutMs / 1000)}s`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function executeRun(job: RegisteredJob, run: IJobRun, token: string, holdUntil?: number): Promise<void> {
+  try {
+    for (let attempt = 1; ; attempt++) {
+      run.attempts = attempt;
+      try {
+        const result = await withTimeout(job.handler(), job.timeoutMs, job.name);
+        run.status = 'succeeded';
+        run.result = result || undefined;
+        run.error = undefined;
+        break;
+      } catch (err) {
+        run.error = err instanceof Error ? err.message : String(err);
+        if (attempt >= job.maxAttempts) {
+          run.status = 'failed';
+          logger.error(`[Jobs] ${job.name} failed after ${attempt} attempt(s)`, { error: run.error });
+          break;
+        }
+        logger.warn(`[Jobs] ${job.name} attempt ${attempt} failed; retrying`, { error: run.error });
+        await delay(job.retryDelayMs * attempt);
+      }
+    }
+
+    run.finishedAt = new Date();
+    run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime();
+    await run.save();
+    if (run.status === 'succeeded') {
+      logger.info(`[Jobs] ${job.name} succeeded in ${run.durationMs}ms`, { result: run.result });
+    }
+  } finally {
+    await releaseLock(job, token, holdUntil).catch((err) => {
+      logger.warn(`[Jobs] Could not release lock for ${job.name}`, { error: err instanceof Error ? err.message : String(err) });
+    });
+  }
+}
+
+/**
+ * Take the lock and record the run, then carry on in the background.
+ * Returns null when another run of the job holds the lock.
+ */
+async function startRun(job: RegisteredJob, trigger: JobTrigger, triggeredBy?: string, holdUntil?: number): Promise<IJobRun | null> {
+  const token = await acquireLock(job);
+  if (!token) return null;
+
+  let run: IJobRun;
+  try {
+    run = await JobRun.create({
+      jobName: job.name,
+      status: 'running',
+      trigger,
+      triggeredBy,
+      instanceId: INSTANCE_ID,
+      startedAt: new Date(),
+    });
+  } catch (err) {
+    await releaseLock(job, token);
+    throw err;
+  }
+
+  executeRun(job, run, token, holdUntil).catch((err) => {
+    logger.error(`[Jobs] Could not record the outcome of ${job.name}`, { error: err instanceof Error ? err.message : String(err) });
+  });
+  return run;
+}
+
+async function tick(now: Date = new Date()): Promise<void> {
+  if (mongoose.connection.readyState !== 1) return;
+  const slot = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+
+  for (const job of jobs.values()) {
+    if (lastScheduledSlot.get(job.name) === slot) continue;
+    if (!cronMatches(job.cron, now, JOB_TIMEZONE)) continue;
+    lastScheduledSlot.set(job.name, slot);
+
+    try {
+      const run = await startRun(job, 'schedule', undefined, slot + MINUTE_MS);
+      if (!run) logger.debug(`[Jobs] ${job.name} skipped; lock held by another run`);
+    } catch (err) {
+      logger.error(`[Jobs] Could not start ${job.name}`, { error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+}
+
+// A run left "running" past its lock lifetime belonged to a process that died
+async function failInterruptedRuns(now: Date = new Date()): Promise<void> {
+  for (const job of jobs.values()) {
+    await JobRun.updateMany(
+      { jobName: job.name, status: 'running', startedAt: { $lt: new Date(now.getTime() - lockTtlMs(job)) } },
+      { $set: { status: 'failed', error: 'Interrupted before finishing', finishedAt: now } }
+    ).exec();
+  }
+}
+
+export function startJobRunner(): void {
+  if (ticker) return;
+  failInterruptedRuns().catch((err) => {
+    logger.warn('[Jobs] Could not clean up interrupted runs', { error: err instanceof Error ? err.message : String(err) });
+  });
+  ticker = setInterval(() => {
+    void tick();
+  }, TICK_INTERVAL_MS);
+  ticker.unref();
+  logger.info(`[Jobs] Runner started with ${jobs.size} job(s) on ${INSTANCE_ID} (${JOB_TIMEZONE})`);
+}
+
+/**
+ * Run a job now on behalf of an admin. Throws 404 for an unknown job and 409
+ * while it is already running.
+ */
+export async function triggerJob(name: string, triggeredBy: string): Promise<IJobRun> {
+  const job = jobs.get(name);
+  if (!job) throw new JobRunnerError(`Unknown job "${name}"`, 404);
+
+  const run = await startRun(job, 'manual', triggeredBy);
+  if (!run) throw new JobRunnerError(`${name} is already running`, 409);
+  logger.info(`[Jobs] ${name} triggered by ${triggeredBy}`);
+  return run;
+}
+
+export async function listJobs(now: Date = new Date()): Promise<JobSummary[]> {
+  const names = Array.from(jobs.keys());
+  const latest = await JobRun.aggregate<{ _id: string; run: IJobRun }>([
+    { $match: { jobName: { $in: names } } },
+    { $sort: { startedAt: -1 } },
+    { $group: { _id: '$jobName', run: { $first: '$$ROOT' } } },
+  ]).exec();
+  const lastRuns = new Map(latest.map((entry) => [entry._id, entry.run]));
+
+  return Array.from(jobs.values()).map((job) => ({
+    name: job.name,
+    description: job.description,
+    schedule: job.schedule,
+    timeZone: JOB_TIMEZONE,
+    maxAttempts: job.maxAttempts,
+    nextRunAt: nextCronRun(job.cron, now, JOB_TIMEZONE),
+    lastRun: lastRuns.get(job.name) ?? null,
+  }));
+}
+
+export async function listJobRuns(name: string, limit = 20): Promise<IJobRun[]> {
+  if (!jobs.has(name)) throw new JobRunnerError(`Unknown job "${name}"`, 404);
+  return JobRun.find({ jobName: name })
+    .sort({ startedAt: -1 })
+    .limit(Math.min(Math.max(limit, 1), 100))
+    .lean<IJobRun[]>()
+    .exec();
+}
@@ -0,0 +1,202 @@
+/**
+ * Messenger Extraction
+ * Reads booking details out of chat text: which tour, when, how many people,
+ * peso amounts and contact details. Plain pattern matching, tuned for how
+ * customers write to the Page in English and Taglish; anything it gets wrong
+ * is corrected by sales before the candidate becomes a booking.
+ */
+
+export interface ExtractionTour {
+  slug: string;
+  title: string;
+  departureDates?: Array<{ start: string }>;
+}
+
+export interface ExtractionMessage {
+  mid: string;
+  text: string;
+  // Customer messages give the booking details; the Page's own give quotes
+  fromCustomer: boolean;
+}
+
+export interface ExtractedFields {
+  tourSlug?: string;
+  tourTitle?: string;
+  selectedDate?: string;
+  preferredDates?: string;
+  numberOfPeople?: number;
+  amounts: number[];
+  // True when the Page mentioned a price
+  quoted: boolean;
+  customerEmail?: string;
+  customerPhone?: string;
+  sourceMessageIds: string[];
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = `(${MONTHS.join('|')})[a-z]*\\.?`;
+
+// Words that appear in most tour titles and say nothing about which tour it is
+const TITLE_STOP_WORDS = new Set([
+  'tour', 'tours', 'package', 'days', 'day', 'nights', 'night', 'with', 'and', 'the', 'from', 'to', 'of', 'in', 'trip',
+]);
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  isa: 1, dalawa: 2, tatlo: 3, apat: 4, lima: 5, anim: 6, pito: 7, walo: 8, siyam: 9, sampu: 10,
+};
+const COUNT = `(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+const MAX_PARTY_SIZE = 50;
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+// Philippine mobile numbers: 09xx xxx xxxx or +63 9xx xxx xxxx
+const PHONE_PATTERN = /(?:\+?63|0)\s?9\d{2}[\s-]?\d{3}[\s-]?\d{4}/;
+
+const toCount = (value: string) => NUMBER_WORDS[value.toLowerCase()] ?? Number(value);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function titleKeywords(title: string): string[] {
+  return title.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word.length > 2 && !TITLE_STOP_WORDS.has(word));
+}
+
+/**
+ * The tour the text talks about: a full title wins, otherwise the tour with
+ * the most distinctive title words present (at least two, or its only one).
+ */
+export function matchTour<T extends ExtractionTour>(text: string, tours: T[]): T | undefined {
+  const lower = text.toLowerCase();
+  const words = new Set(lower.split(/[^a-z0-9]+/));
+  let best: { tour: T; score: number } | undefined;
+  for (const tour of tours) {
+    if (lower.includes(tour.title.toLowerCase())) return tour;
+    const keywords = titleKeywords(tour.title);
+    const hits = keywords.filter((word) => words.has(word)).length;
+    const needed = Math.min(2, keywords.length);
+    if (needed > 0 && hits >= needed && (!best || hits > best.score)) best = { tour, score: hits };
+  }
+  return best?.tour;
+}
+
+// Dates in the text as YYYY-MM-DD; a date without a year is its next occurrence
+export function findDates(text: string, now: Date = new Date()): Array<{ iso: string; raw: string }> {
+  const found: Array<{ iso: string; raw: string }> = [];
+  const add = (raw: string, year: number | undefined, month: number, day: number) => {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return;
+    let y = year ?? now.getFullYear();
+    if (!year && new Date(y, month - 1, day) < new Date(now.getFullYear(), now.getMonth(), now.getDate())) y += 1;
+    found.push({ iso: `${y}-${pad(month)}-${pad(day)}`, raw: raw.trim() });
+  };
+
+  for (const m of text.matchAll(/\b(20\d{2})-(\d{1,2})-(\d{1,2})\b/g)) {
+    add(m[0], Number(m[1]), Number(m[2]), Number(m[3]));
+  }
+  // Month-first, as Filipino customers write it: 5/10/2026 is May 10
+  for (const m of text.matchAll(/\b(\d{1,2})\/(\d{1,2})\/(20\d{2})\b/g)) {
+    add(m[0], Number(m[3]), Number(m[1]), Number(m[2]));
+  }
+  for (const m of text.matchAll(new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s*(20\\d{2}))?\\b`, 'gi'))) {
+    add(m[0], m[3] ? Number(m[3]) : undefined, MONTHS.indexOf(m[1].toLowerCase()) + 1, Number(m[2]));
+  }
+  for (const m of text.matchAll(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}(?:,?\\s*(20\\d{2}))?\\b`, 'gi'))) {
+    add(m[0], m[3] ? Number(m[3]) : undefined, MONTHS.indexOf(m[2].toLowerCase()) + 1, Number(m[1]));
+  }
+  return found;
+}
+
+// Party size: "4 pax", "3 adults and 2 kids", "dalawang tao"
+export function findPartySize(text: string): number | undefined {
+  const lower = text.toLowerCase();
+  const adults = [...lower.matchAll(new RegExp(`\\b${COUNT}(?:ng)?\\s*(?:adults?|matanda)\\b`, 'g'))];
+  const children = [...lower.matchAll(new RegExp(`\\b${COUNT}(?:ng)?\\s*(?:kids?|child(?:ren)?|bata)\\b`, 'g'))];
+  if (adults.length > 0 || children.length > 0) {
+    const sum = (matches: RegExpMatchArray[]) => matches.reduce((total, m) => total + toCount(m[1]), 0);
+    const size = sum(adults) + sum(children);
+    return size > 0 && size <= MAX_PARTY_SIZE ? size : undefined;
+  }
+  const pax = [...lower.matchAll(new RegExp(`\\b${COUNT}(?:ng)?\\s*(?:pax|persons?|people|travell?ers?|guests?|tao)\\b`, 'g'))];
+  const last = pax[pax.length - 1];
+  const size = last ? toCount(last[1]) : undefined;
+  return size && size <= MAX_PARTY_SIZE ? size : undefined;
+}
+
+// Peso amounts: "₱45,000", "PHP 45000", "P45k", "45k"
+export function findAmounts(text: string): number[] {
+  const amounts: number[] = [];
+  const pattern = /(?:₱|\bphp\s?|\bp(?=\d))\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?\s?(k\b)?|\b(\d+(?:\.\d+)?)k\b/gi;
+  for (const m of text.matchAll(pattern)) {
+    const value = m[1] !== undefined
+      ? Number(m[1].replace(/,/g, '')) * (m[2] ? 1000 : 1)
+      : Number(m[3]) * 1000;
+    if (Number.isFinite(value) && value > 0) amounts.push(Math.round(value));
+  }
+  return amounts;
+}
+
+/**
+ * Everything the conversation says about a booking. Later messages win, so
+ * a customer who changes their mind is read correctly. A date is only taken
+ * as the departure when the matched tour departs that day.
+ */
+export function extractBookingFields(
+  messages: ExtractionMessage[],
+  tours: ExtractionTour[],
+  now: Date = new Date()
+): ExtractedFields {
+  const fields: ExtractedFields = { amounts: [], quoted: false, sourceMessageIds: [] };
+  const sources = new Set<string>();
+  const dates: Array<{ iso: string; raw: string }> = [];
+
+  for (const message of messages) {
+    const text = message.text;
+    if (!text) continue;
+    let used = false;
+
+    const amounts = findAmounts(text);
+    if (amounts.length > 0) {
+      fields.amounts.push(...amounts);
+      if (!message.fromCustomer) fields.quoted = true;
+      used = true;
+    }
+
+    if (message.fromCustomer) {
+      const tour = matchTour(text, tours);
+      if (tour) {
+        fields.tourSlug = tour.slug;
+        fields.tourTitle = tour.title;
+        used = true;
+      }
+      const found = findDates(text, now);
+      if (found.length > 0) {
+        dates.push(...found);
+        used = true;
+      }
+      const size = findPartySize(text);
+      if (size) {
+        fields.numberOfPeople = size;
+        used = true;
+      }
+      const email = text.match(EMAIL_PATTERN)?.[0];
+      if (email) {
+        fields.customerEmail = email.toLowerCase();
+        used = true;
+      }
+      const phone = text.match(PHONE_PATTERN)?.[0];
+      if (phone) {
+        fields.customerPhone = phone.replace(/[\s-]/g, '');
+        used = true;
+      }
+    }
+    if (used) sources.add(message.mid);
+  }
+
+  if (dates.length > 0) {
+    fields.preferredDates = [...new Set(dates.map((date) => date.raw))].join(', ');
+    const tour = tours.find((t) => t.slug === fields.tourSlug);
+    const starts = new Set(tour?.departureDates?.map((d) => d.start) ?? []);
+    fields.selectedDate = [...dates].reverse().find((date) => starts.has(date.iso))?.iso;
+  }
+  fields.sourceMessageIds = [...sources];
+  return fields;
+}
@@ -0,0 +1,594 @@
+import mongoose from 'mongoose';
+import Booking, { IBooking, IStatusActor } from '../models/Booking';
+import ExtractedTransaction, {
+  EXTRACTED_TRANSACTION_FIELDS,
+  ExtractedTransactionField,
+  ExtractedTransactionStatus,
+  IExtractedTransaction,
+} from '../models/ExtractedTransaction';
+import MessengerConversation, { IMessengerConversation, MessengerConversationStatus } from '../models/MessengerConversation';
+import MessengerMessage, { IMessengerAttachment, IMessengerMessage, MessengerDirection } from '../models/MessengerMessage';
+import Tour from '../models/Tour';
+import { AppError } from '../middleware/errorHandler';
+import { getMetaPageAccessToken, getMetaPageId } from '../routes/admin/settings';
+import logger from '../utils/logger';
+import { autoAssignInBackground } from './assignmentQueues';
+import { buildHistoryEntry, resolveInitialStatus } from './bookingStatus';
+import { createInstallmentPlanForBooking, InitialPayment, recordInitialPayment } from './installmentService';
+import { ExtractionTour, extractBookingFields } from './messengerExtraction';
+import { GRAPH_API_BASE } from './metaService';
+import { buildBookingQuote, BookingQuote, PricingError } from './pricingService';
+import { releaseSeats, reserveSeats } from './seatInventory';
+import { PUBLIC_TOUR_FILTER } from './tourPublishing';
+
+/**
+ * Messenger Inbox
+ * Customer conversations with the Facebook Page, kept in MongoDB. Meta's
+ * webhook delivers each message as it happens (see routes/api/messenger);
+ * a sync fills in history from the Graph API. After every new message the
+ * conversation is read for booking details (services/messengerExtraction)
+ * into an extracted transaction that sales review, correct and convert into
+ * a booking. Replies go out through the Send API with the Page token, which
+ * never leaves the server.
+ */
+
+// Messages read when extracting; older ones rarely change the booking
+const EXTRACTION_WINDOW = 100;
+const MAX_REPLY_LENGTH = 2000;
+const MAX_PASSENGERS = 50;
+const OPEN_TRANSACTION_STATUSES: ExtractedTransactionStatus[] = ['lead', 'quoted'];
+const CONVERSATION_STATUSES: MessengerConversationStatus[] = ['new', 'in-progress', 'converted', 'closed'];
+
+export class MessengerError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'MessengerError';
+  }
+}
+
+const optionalString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const isDuplicateKey = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GRAPH API
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface GraphError { error?: { message?: string } }
+
+function pageAccessToken(): string {
+  const token = getMetaPageAccessToken();
+  if (!token) throw new MessengerError('Messenger is not connected: set the Page access token in Settings', 503);
+  return token;
+}
+
+async function graphRequest<T>(path: string, init: { query?: Record<string, string>; body?: unknown } = {}): Promise<T> {
+  const params = new URLSearchParams({ ...init.query, access_token: pageAccessToken() });
+  const response = await fetch(`${GRAPH_API_BASE}${path}?${params}`, init.body === undefined ? undefined : {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(init.body),
+  });
+  const data = (await response.json().catch(() => ({}))) as T & GraphError;
+  if (!response.ok) {
+    throw new MessengerError(`Meta: ${data.error?.message || `Graph API error ${response.status}`}`, 502);
+  }
+  return data;
+}
+
+async function customerName(psid: string): Promise<string> {
+  try {
+    const profile = await graphRequest<{ first_name?: string; last_name?: string; name?: string }>(
+      `/${encodeURIComponent(psid)}`,
+      { query: { fields: 'first_name,last_name' } }
+    );
+    return profile.name || [profile.first_name, profile.last_name].filter(Boolean).join(' ') || 'Messenger customer';
+  } catch (error) {
+    logger.warn(`[Messenger] Profile lookup for ${psid} failed: ${error instanceof Error ? error.message : error}`);
+    return 'Messenger customer';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// STORING MESSAGES
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface IncomingMessage {
+  mid: string;
+  direction: MessengerDirection;
+  text: string;
+  attachments: IMessengerAttachment[];
+  sentAt: Date;
+  sentBy?: string;
+}
+
+async function findOrCreateConversation(
+  pageId: string,
+  psid: string,
+  sentAt: Date,
+  known: { name?: string; threadId?: string } = {}
+): Promise<IMessengerConversation> {
+  const existing = await MessengerConversation.findOne({ pageId, psid }).exec();
+  if (existing) {
+    if (known.threadId && !existing.threadId) {
+      existing.threadId = known.threadId;
+      await existing.save();
+    }
+    return existing;
+  }
+  const name = known.name || await customerName(psid);
+  // Upsert, as Meta can deliver a customer's first messages side by side
+  return MessengerConversation.findOneAndUpdate(
+    { pageId, psid },
+    {
+      $setOnInsert: { customerName: name, status: 'new', lastMessageAt: sentAt },
+      ...(known.threadId && { $set: { threadId: known.threadId } }),
+    },
+    { upsert: true, new: true }
+  ).exec();
+}
+
+// False when the message is already stored (webhook retry, echo of our own reply, re-sync)
+async function storeMessage(conversation: IMessengerConversation, message: IncomingMessage): Promise<boolean> {
+  try {
+    await MessengerMessage.create({ conversation: conversation._id, ...message });
+  } catch (error) {
+    if (isDuplicateKey(error)) return false;
+    throw error;
+  }
+
+  const preview = message.text || (message.attachments.length > 0 ? `(${message.attachments[0].type})` : '');
+  await MessengerConversation.updateOne(
+    { _id: conversation._id, lastMessageAt: { $lte: message.sentAt } },
+    { $set: { lastMessageAt: message.sentAt, lastMessageText: preview.slice(0, 200) } }
+  ).exec();
+  // A customer writing again reopens a closed conversation; a reply means someone is on it
+  if (message.direction === 'inbound') {
+    await MessengerConversation.updateOne({ _id: conversation._id, status: 'closed' }, { $set: { status: 'new' } }).exec();
+  } else {
+    await MessengerConversation.updateOne({ _id: conversation._id, status: 'new' }, { $set: { status: 'in-progress' } }).exec();
+  }
+  return true;
+}
+
+interface MessagingEvent {
+  sender?: { id?: string };
+  recipient?: { id?: string };
+  timestamp?: number;
+  message?: {
+    mid?: string;
+    text?: string;
+    is_echo?: boolean;
+    attachments?: Array<{ type?: string; payload?: { url?: string } }>;
+  };
+}
+
+export interface MessengerWebhookPayload {
+  object?: string;
+  entry?: Array<{ id?: string; time?: number; messaging?: MessagingEvent[] }>;
+}
+
+/**
+ * Store the messages in a webhook delivery and re-extract the conversations
+ * they belong to. Echoes (messages the Page sent, from here or from Meta's
+ * inbox) are stored as outbound. Deliveries, reads and other events are
+ * ignored.
+ */
+export async function ingestWebhook(payload: MessengerWebhookPayload): Promise<{ stored: number; duplicates: number }> {
+  const result = { stored: 0, duplicates: 0 };
+  if (payload?.object !== 'page') return result;
+
+  const touched = new Set<string>();
+  for (const entry of payload.entry ?? []) {
+    for (const event of entry.messaging ?? []) {
+      const message = event.message;
+      if (!entry.id || !message?.mid) continue;
+      const echo = message.is_echo === true;
+      const psid = echo ? event.recipient?.id : event.sender?.id;
+      if (!psid) continue;
+
+      const sentAt = new Date(event.timestamp ?? entry.time ?? Date.now());
+      const conversation = await findOrCreateConversation(entry.id, psid, sentAt);
+      const stored = await storeMessage(conversation, {
+        mid: message.mid,
+        direction: echo ? 'outbound' : 'inbound',
+        text: message.text ?? '',
+        attachments: (message.attachments ?? []).map((a) => ({ type: a.type || 'file', url: a.payload?.url })),
+        sentAt,
+      });
+      if (stored) {
+        result.stored++;
+        touched.add(String(conversation._id));
+      } else {
+        result.duplicates++;
+      }
+    }
+  }
+
+  for (const id of touched) await refreshTransaction(id);
+  return result;
+}
+
+interface GraphConversation {
+  id: string;
+  updated_time?: string;
+  participants?: { data: Array<{ id: string; name?: string }> };
+  messages?: { data: Array<{ id: string; message?: string; from?: { id: string }; created_time: string }> };
+}
+
+/**
+ * Pull recent conversations from the Graph API, for history from before the
+ * webhook was set up or deliveries Meta gave up on.
+ */
+export async function syncConversations(): Promise<{ conversations: number; messages: number }> {
+  const pageId = getMetaPageId();
+  if (!pageId) throw new MessengerError('Messenger is not connected: set the Page ID in Settings', 503);
+
+  const data = await graphRequest<{ data?: GraphConversation[] }>(`/${encodeURIComponent(pageId)}/conversations`, {
+    query: { fields: 'id,participants,updated_time,messages.limit(30){message,from,created_time}', limit: '25' },
+  });
+
+  const result = { conversations: 0, messages: 0 };
+  for (const thread of data.data ?? []) {
+    const customer = thread.participants?.data.find((p) => String(p.id) !== String(pageId));
+    if (!customer) continue;
+    const history = (thread.messages?.data ?? []).slice().reverse();
+    const firstAt = new Date(history[0]?.created_time ?? thread.updated_time ?? Date.now());
+    const conversation = await findOrCreateConversation(pageId, customer.id, firstAt, {
+      name: customer.name,
+      threadId: thread.id,
+    });
+    result.conversations++;
+
+    let added = 0;
+    for (const message of history) {
+      const stored = await storeMessage(conversation, {
+        mid: message.id,
+        direction: String(message.from?.id) === String(pageId) ? 'outbound' : 'inbound',
+        text: message.message ?? '',
+        attachments: [],
+        sentAt: new Date(message.created_time),
+      });
+      if (stored) added++;
+    }
+    result.messages += added;
+    if (added > 0) await refreshTransaction(String(conversation._id));
+  }
+  return result;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONVERSATIONS
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function findConversation(id: string): Promise<IMessengerConversation> {
+  const conversation = mongoose.isValidObjectId(id) ? await MessengerConversation.findById(id).exec() : null;
+  if (!conversation) throw new MessengerError('Conversation not found', 404);
+  return conversation;
+}
+
+export async function listConversations(options: { status?: string } = {}) {
+  const filter: Record<string, unknown> = {};
+  if (options.status && CONVERSATION_STATUSES.includes(options.status as MessengerConversationStatus)) {
+    filter.status = options.status;
+  }
+  return MessengerConversation.find(filter).sort({ lastMessageAt: -1 }).limit(200).lean().exec();
+}
+
+// A conversation with its messages, oldest first, and everything extracted from it
+export async function getConversation(id: string) {
+  const conversation = await findConversation(id);
+  const [messages, transactions] = await Promise.all([
+    MessengerMessage.find({ conversation: conversation._id }).sort({ sentAt: 1 }).lean().exec(),
+    ExtractedTransaction.find({ conversation: conversation._id }).sort({ createdAt: -1 }).lean().exec(),
+  ]);
+  return { conversation: conversation.toObject(), messages, transactions };
+}
+
+export async function setConversationStatus(id: string, status: unknown): Promise<IMessengerConversation> {
+  if (!CONVERSATION_STATUSES.includes(status as MessengerConversationStatus)) {
+    throw new MessengerError(`status must be one of ${CONVERSATION_STATUSES.join(', ')}`);
+  }
+  const conversation = await findConversation(id);
+  conversation.status = status as MessengerConversationStatus;
+  return conversation.save();
+}
+
+/**
+ * Reply to the customer through the Send API. Meta only accepts replies
+ * within 24 hours of the customer's last message; its refusal is passed on.
+ */
+export async function sendReply(id: string, text: unknown, staffName: string): Promise<IMessengerMessage> {
+  const body = typeof text === 'string' ? text.trim() : '';
+  if (!body) throw new MessengerError('Write a message to send');
+  if (body.length > MAX_REPLY_LENGTH) throw new MessengerError(`Keep it under ${MAX_REPLY_LENGTH} characters`);
+
+  const conversation = await findConversation(id);
+  const sent = await graphRequest<{ message_id?: string }>('/me/messages', {
+    body: { recipient: { id: conversation.psid }, messaging_type: 'RESPONSE', message: { text: body } },
+  });
+  const mid = sent.message_id || `local_${Date.now()}`;
+  await storeMessage(conversation, { mid, direction: 'outbound', text: body, attachments: [], sentAt: new Date(), sentBy: staffName });
+  await refreshTransaction(String(conversation._id));
+
+  const message = await MessengerMessage.findOne({ mid }).exec();
+  if (!message) throw new MessengerError('Reply was sent but could not be stored', 500);
+  return message;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EXTRACTED TRANSACTIONS
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function bookableTours(): Promise<ExtractionTour[]> {
+  return Tour.find(PUBLIC_TOUR_FILTER).select('slug title departureDates.start').lean<ExtractionTour[]>().exec();
+}
+
+/**
+ * Re-read a conversation into its open transaction, creating one when the
+ * chat first looks like a booking. Fields sales corrected are kept. After a
+ * transaction is booked or lost, only later messages can start a new one.
+ */
+async function refreshTransaction(conversationId: string): Promise<IExtractedTransaction | null> {
+  const conversation = await MessengerConversation.findById(conversationId).exec();
+  if (!conversation) return null;
+
+  const open = await ExtractedTransaction.findOne({
+    conversation: conversation._id,
+    status: { $in: OPEN_TRANSACTION_STATUSES },
+  }).sort({ createdAt: -1 }).exec();
+  const closed = open ? null : await ExtractedTransaction.findOne({ conversation: conversation._id })
+    .sort({ updatedAt: -1 })
+    .select('updatedAt')
+    .lean()
+    .exec();
+
+  const recent = await MessengerMessage.find({
+    conversation: conversation._id,
+    ...(closed && { sentAt: { $gt: closed.updatedAt } }),
+  }).sort({ sentAt: -1 }).limit(EXTRACTION_WINDOW).lean().exec();
+  const fields = extractBookingFields(
+    recent.reverse().map((m) => ({ mid: m.mid, text: m.text, fromCustomer: m.direction === 'inbound' })),
+    await bookableTours()
+  );
+
+  if (!open) {
+    // Greetings and questions are not a booking yet
+    if (!fields.tourSlug && !fields.numberOfPeople && !fields.preferredDates) return null;
+    return ExtractedTransaction.create({
+      conversation: conversation._id,
+      status: fields.quoted ? 'quoted' : 'lead',
+      customerName: conversation.customerName,
+      customerEmail: fields.customerEmail,
+      customerPhone: fields.customerPhone,
+      tourSlug: fields.tourSlug,
+      tourTitle: fields.tourTitle,
+      selectedDate: fields.selectedDate,
+      preferredDates: fields.preferredDates,
+      numberOfPeople: fields.numberOfPeople,
+      amounts: fields.amounts,
+      sourceMessageIds: fields.sourceMessageIds,
+      extractedAt: new Date(),
+    });
+  }
+
+  const edited = new Set(open.editedFields);
+  for (const field of EXTRACTED_TRANSACTION_FIELDS) {
+    const value = field === 'customerName' ? undefined : fields[field];
+    if (value !== undefined && !edited.has(field)) open.set(field, value);
+  }
+  if (!edited.has('tourSlug') && fields.tourTitle) open.tourTitle = fields.tourTitle;
+  open.preferredDates = fields.preferredDates ?? open.preferredDates;
+  open.amounts = fields.amounts;
+  open.sourceMessageIds = fields.sourceMessageIds;
+  open.extractedAt = new Date();
+  if (fields.quoted && open.status === 'lead') open.status = 'quoted';
+  return open.save();
+}
+
+// Run extraction again on request, e.g. after the tour list changed
+export async function extractConversation(id: string): Promise<IExtractedTransaction | null> {
+  const conversation = await findConversation(id);
+  return refreshTransaction(String(conversation._id));
+}
+
+export async function listTransactions(options: { status?: string } = {}) {
+  const filter: Record<string, unknown> = {};
+  if (options.status && ['lead', 'quoted', 'booked', 'lost'].includes(options.status)) filter.status = options.status;
+  return ExtractedTransaction.find(filter)
+    .populate('conversation', 'customerName psid status')
+    .sort({ updatedAt: -1 })
+    .limit(200)
+    .lean()
+    .exec();
+}
+
+async function findTransaction(id: string): Promise<IExtractedTransaction> {
+  const transaction = mongoose.isValidObjectId(id) ? await ExtractedTransaction.findById(id).exec() : null;
+  if (!transaction) throw new MessengerError('Transaction not found', 404);
+  return transaction;
+}
+
+export interface TransactionUpdate {
+  customerName?: unknown;
+  customerEmail?: unknown;
+  customerPhone?: unknown;
+  tourSlug?: unknown;
+  selectedDate?: unknown;
+  numberOfPeople?: unknown;
+  notes?: unknown;
+  status?: unknown;
+}
+
+/**
+ * Correct what extraction read, or mark the transaction quoted, lost or back
+ * to lead. Corrected fields stop following the conversation.
+ */
+export async function updateTransaction(id: string, input: TransactionUpdate): Promise<IExtractedTransaction> {
+  const transaction = await findTransaction(id);
+  if (transaction.status === 'booked') {
+    throw new MessengerError(`Already booked as ${transaction.bookingId}`, 409);
+  }
+
+  const edited = new Set<ExtractedTransactionField>(transaction.editedFields);
+  const setField = (field: ExtractedTransactionField, value: string | number | undefined) => {
+    transaction.set(field, value);
+    edited.add(field);
+  };
+
+  if (input.customerName !== undefined) {
+    const name = optionalString(input.customerName);
+    if (!name) throw new MessengerError('Customer name cannot be empty');
+    setField('customerName', name);
+  }
+  if (input.customerEmail !== undefined) setField('customerEmail', optionalString(input.customerEmail)?.toLowerCase());
+  if (input.customerPhone !== undefined) setField('customerPhone', optionalString(input.customerPhone));
+  if (input.tourSlug !== undefined) {
+    const slug = optionalString(input.tourSlug);
+    const tour = slug ? await Tour.findOne({ slug, ...PUBLIC_TOUR_FILTER }).select('title').lean().exec() : null;
+    if (slug && !tour) throw new MessengerError(`Tour "${slug}" is not bookable`);
+    setField('tourSlug', slug);
+    transaction.tourTitle = tour?.title;
+  }
+  if (input.selectedDate !== undefined) setField('selectedDate', optionalString(input.selectedDate));
+  if (input.numberOfPeople !== undefined) {
+    const people = input.numberOfPeople === null || input.numberOfPeople === '' ? undefined : Number(input.numberOfPeople);
+    if (people !== undefined && (!Number.isInteger(people) || people < 1 || people > MAX_PASSENGERS)) {
+      throw new MessengerError(`Number of people must be between 1 and ${MAX_PASSENGERS}`);
+    }
+    setField('numberOfPeople', people);
+  }
+  if (input.notes !== undefined) transaction.notes = optionalString(input.notes);
+  if (input.status !== undefined) {
+    if (!['lead', 'quoted', 'lost'].includes(input.status as string)) {
+      throw new MessengerError('status must be lead, quoted or lost; convert to book it');
+    }
+    transaction.status = input.status as ExtractedTransactionStatus;
+  }
+
+  transaction.editedFields = [...edited];
+  return transaction.save();
+}
+
+export interface ConvertTransactionInput {
+  paymentType?: unknown;
+  notes?: unknown;
+  // Payment the customer already made, checked by the agent; needs a receipt or deposit reference
+  paidAmount?: unknown;
+  paymentReference?: unknown;
+}
+
+// The payment staff saw before booking, if any, within what the booking costs
+function initialPaymentFrom(input: { paidAmount?: unknown; paymentReference?: unknown }, totalAmount: number): InitialPayment | null {
+  if (input.paidAmount === undefined || input.paidAmount === null || input.paidAmount === '') return null;
+  const amount = Number(input.paidAmount);
+  if (!Number.isFinite(amount) || amount < 0) throw new MessengerError('paidAmount must be a positive number');
+  if (amount === 0) return null;
+  if (amount > totalAmount) throw new MessengerError(`paidAmount cannot be more than the booking total of ${totalAmount}`);
+  const reference = optionalString(input.paymentReference);
+  if (!reference) throw new MessengerError('Enter the receipt or deposit reference for the payment already made');
+  return { amount, reference };
+}
+
+const generateBookingId = () => `BK-${Math.random().toString(36).slice(2, 9).toUpperCase()}`;
+
+/**
+ * Book a reviewed transaction for the customer. As with builder quotes, the
+ * price is rebuilt from the tour (amounts in the chat are only a guide),
+ * seats are held on the departure, and the transaction is claimed first so
+ * it cannot be booked twice. A payment the customer already made is recorded
+ * on the new booking.
+ */
+export async function convertTransactionToBooking(
+  id: string,
+  input: ConvertTransactionInput,
+  actor: IStatusActor
+): Promise<{ transaction: IExtractedTransaction; booking: IBooking }> {
+  const transaction = await findTransaction(id);
+  if (transaction.status === 'booked') {
+    throw new MessengerError(`Already booked as ${transaction.bookingId}`, 409);
+  }
+  if (transaction.status === 'lost') throw new MessengerError('Reopen this transaction before booking it', 409);
+
+  const { tourSlug, selectedDate, numberOfPeople, customerName, customerEmail, customerPhone } = transaction;
+  const missing = [
+    !tourSlug && 'tour',
+    !selectedDate && 'departure date',
+    !numberOfPeople && 'number of people',
+    !customerEmail && 'customer email',
+  ].filter(Boolean);
+  if (missing.length > 0) throw new MessengerError(`Fill in the ${missing.join(', ')} before booking`);
+  const paymentType = input.paymentType === 'downpayment' ? 'downpayment' : 'full';
+
+  let quote: BookingQuote;
+  try {
+    quote = await buildBookingQuote({ tourSlug, selectedDate, passengers: numberOfPeople, paymentType });
+  } catch (err) {
+    if (err instanceof PricingError) throw new MessengerError(err.message, err.statusCode);
+    throw err;
+  }
+
+  const initialPayment = initialPaymentFrom(input, quote.totalAmount);
+
+  const bookingId = generateBookingId();
+  const claimed = await ExtractedTransaction.findOneAndUpdate(
+    { _id: transaction._id, status: { $in: OPEN_TRANSACTION_STATUSES }, bookingId: { $exists: false } },
+    { $set: { bookingId } }
+  ).exec();
+  if (!claimed) throw new MessengerError('This transaction is already being booked', 409);
+
+  let seatHold: Awaited<ReturnType<typeof reserveSeats>> = null;
+  let booking: IBooking;
+  try {
+    seatHold = await reserveSeats({ tourSlug, selectedDate, seats: numberOfPeople, bookingId, paymentType });
+
+    const status = resolveInitialStatus(undefined);
+    const installmentPlan = paymentType === 'downpayment'
+      ? await createInstallmentPlanForBooking({
+          bookingId,
+          tourSlug,
+          selectedDate,
+          totalAmount: quote.totalAmount,
+          downpaymentAmount: quote.paidAmount,
+        })
+      : null;
+
+    booking = await Booking.create({
+      bookingId,
+      tourSlug,
+      customerName,
+      customerEmail,
+      customerPhone,
+      selectedDate,
+      passengers: numberOfPeople,
+      perPerson: quote.perPerson,
+      totalAmount: quote.totalAmount,
+      paidAmount: 0,
+      paymentType,
+      status,
+      statusHistory: [buildHistoryEntry(null, status, actor, 'Booked from a Messenger conversation')],
+      bookingDate: new Date().toISOString(),
+      notes: optionalString(input.notes),
+      pricingQuote: { ...quote, adjustments: [] },
+      installmentPlan: installmentPlan ?? undefined,
+    });
+  } catch (err) {
+    if (seatHold) await releaseSeats(bookingId, 'Messenger conversion failed');
+    await ExtractedTransaction.updateOne({ _id: transaction._id, bookingId }, { $unset: { bookingId: 1 } }).exec();
+    throw err;
+  }
+
+  const converted = await ExtractedTransaction.findByIdAndUpdate(
+    transaction._id,
+    { $set: { status: 'booked', convertedAt: new Date(), convertedBy: actor.name } },
+    { new: true }
+  ).exec();
+  await MessengerConversation.updateOne({ _id: transaction.conversation }, { $set: { status: 'converted' } }).exec();
+  // Once the booking exists, so the payment moves its status on like any other
+  const paid = initialPayment && (await recordInitialPayment(bookingId, initialPayment, actor));
+  autoAssignInBackground('bookings', bookingId);
+
+  return { transaction: converted ?? transaction, booking: paid || booking };
+}
@@ -17,7 +17,8 @@
 import { getMetaPageAccessToken, getMetaNotificationPsid } from '../routes/admin/settings';
 
 const GRAPH_API_VERSION = 'v19.0';
-const GRAPH_API_BASE = `https://graph.facebook.com/${GRAPH_API_VERSION}`;
+// Overridable so Messenger can run against scripts/fake-meta-graph-server.cjs
+export const GRAPH_API_BASE = process.env.META_GRAPH_API_BASE || `https://graph.facebook.com/${GRAPH_API_VERSION}`;
 
 interface MetaBookingPayload {
   bookingId: string;
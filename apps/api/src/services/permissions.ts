@@ -0,0 +1,222 @@
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS as PERMISSION_CATALOGUE,
+  SUPER_ADMIN_ROLE,
+  BuiltInRole,
+  Permission,
+} from '@discovergroup/types';
+import Role, { IRole } from '../models/Role';
+import User from '../models/User';
+import { AppError } from '../middleware/errorHandler';
+
+export type { Permission };
+
+/**
+ * Permissions
+ * Staff roles and what each may do. The catalogue and default grants come
+ * from @discovergroup/types, shared with the admin app. Super-admins can
+ * change the grants of built-in roles and add custom roles; those are stored
+ * as Role documents.
+ */
+
+const BUILT_IN_ROLE_NAMES: Record<BuiltInRole, string> = {
+  super_admin: 'Super Admin',
+  administrator: 'Administrator',
+  web_developer: 'Web Developer',
+  booking_department: 'Booking Department',
+  visa_department: 'Visa Department',
+  csr_department: 'Customer Service Representative',
+};
+
+const PERMISSIONS: Permission[] = PERMISSION_CATALOGUE.map((p) => p.key);
+const ALL_PERMISSIONS: Permission[] = [...PERMISSIONS];
+
+// Role names from older seeds that are still on some accounts
+const LEGACY_ROLE_ALIASES: Record<string, BuiltInRole> = {
+  admin: 'administrator',
+  superadmin: 'super_admin',
+};
+
+const CUSTOM_ROLE_KEY = /^[a-z][a-z0-9_]{2,39}$/;
+
+// Customer accounts; never a staff role
+const CUSTOMER_ROLE = 'client';
+
+// Grants are read on every guarded request; edits on another instance show up within this time
+const CACHE_TTL_MS = 60 * 1000;
+
+export class RoleError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'RoleError';
+  }
+}
+
+export interface RoleDefinition {
+  key: string;
+  name: string;
+  permissions: Permission[];
+  builtIn: boolean;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+const cache = new Map<string, { permissions: Permission[]; loadedAt: number }>();
+
+function isBuiltInRole(key: string): key is BuiltInRole {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_ROLE_PERMISSIONS, key);
+}
+
+function canonicalRole(role: string): string {
+  return LEGACY_ROLE_ALIASES[role] ?? role;
+}
+
+function toPermissions(values: string[]): Permission[] {
+  return PERMISSIONS.filter((p) => values.includes(p));
+}
+
+function toDefinition(key: string, doc?: Pick<IRole, 'name' | 'permissions' | 'updatedAt' | 'updatedBy'> | null): RoleDefinition {
+  const builtIn = isBuiltInRole(key);
+  return {
+    key,
+    name: builtIn ? BUILT_IN_ROLE_NAMES[key] : doc?.name ?? key,
+    permissions: key === SUPER_ADMIN_ROLE
+      ? ALL_PERMISSIONS
+      : doc ? toPermissions(doc.permissions) : builtIn ? DEFAULT_ROLE_PERMISSIONS[key] : [],
+    builtIn,
+    updatedAt: doc?.updatedAt,
+    updatedBy: doc?.updatedBy,
+  };
+}
+
+/**
+ * What a user's role may do. Unknown roles (including customer accounts)
+ * have no permissions.
+ */
+export async function getRolePermissions(role: string): Promise<Permission[]> {
+  const key = canonicalRole(role);
+  if (key === SUPER_ADMIN_ROLE) return ALL_PERMISSIONS;
+
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.permissions;
+
+  const doc = await Role.findOne({ key }).lean().exec();
+  const { permissions } = toDefinition(key, doc);
+  cache.set(key, { permissions, loadedAt: Date.now() });
+  return permissions;
+}
+
+// True when the role holds at least one of the permissions
+export async function roleHasPermission(role: string, permissions: Permission[]): Promise<boolean> {
+  const granted = await getRolePermissions(role);
+  return permissions.some((p) => granted.includes(p));
+}
+
+// Every role key that holds the permission, old role names included
+export async function rolesWithPermission(permission: Permission): Promise<string[]> {
+  const keys = (await listRoles()).filter((role) => role.permissions.includes(permission)).map((role) => role.key);
+  const aliases = Object.entries(LEGACY_ROLE_ALIASES).filter(([, role]) => keys.includes(role)).map(([alias]) => alias);
+  return [...keys, ...aliases];
+}
+
+// Customer, built-in or custom role
+export async function isKnownRole(role: string): Promise<boolean> {
+  const key = canonicalRole(role);
+  return key === CUSTOMER_ROLE || isBuiltInRole(key) || !!(await Role.exists({ key }));
+}
+
+// Roles that can change what every role may do; giving one out is as strong as holding it
+async function managesRoles(role: string): Promise<boolean> {
+  return canonicalRole(role) === SUPER_ADMIN_ROLE || roleHasPermission(role, ['canManageRoles']);
+}
+
+/**
+ * Check that staff with `actorRole` may move an account from role `from` to
+ * `to`. Only staff who can manage roles may give out or take away a role
+ * that manages roles, so user management cannot be used to become super-admin.
+ */
+export async function assertCanAssignRole(actorRole: string, from: string | undefined, to: string): Promise<void> {
+  if (!(await isKnownRole(to))) throw new RoleError(`Unknown role: ${to}`);
+  if (from === to) return;
+  const sensitive = (await managesRoles(to)) || (from !== undefined && (await managesRoles(from)));
+  if (sensitive && !(await roleHasPermission(actorRole, ['canManageRoles']))) {
+    throw new RoleError('Only staff who can manage roles can give or take away a role that manages roles', 403);
+  }
+}
+
+export async function listRoles(): Promise<RoleDefinition[]> {
+  const docs = await Role.find().sort({ createdAt: 1 }).lean().exec();
+  const byKey = new Map(docs.map((doc) => [doc.key, doc]));
+  const builtIn = (Object.keys(DEFAULT_ROLE_PERMISSIONS) as BuiltInRole[]).map((key) => toDefinition(key, byKey.get(key)));
+  const custom = docs.filter((doc) => !isBuiltInRole(doc.key)).map((doc) => toDefinition(doc.key, doc));
+  return [...builtIn, ...custom];
+}
+
+/**
+ * Create a custom role or replace the grants of an existing one. The
+ * super-admin role always has every permission and cannot be changed.
+ */
+export async function saveRole(key: string, input: unknown, updatedBy: string): Promise<RoleDefinition> {
+  const { name, permissions } = (input ?? {}) as { name?: unknown; permissions?: unknown };
+  if (key === SUPER_ADMIN_ROLE) {
+    throw new RoleError('The Super Admin role always has every permission and cannot be changed', 409);
+  }
+  if (LEGACY_ROLE_ALIASES[key]) {
+    throw new RoleError(`"${key}" is an old name for ${LEGACY_ROLE_ALIASES[key]}; edit that role instead`);
+  }
+  if (key === CUSTOMER_ROLE) {
+    throw new RoleError('Customer accounts cannot be given staff permissions');
+  }
+  if (!isBuiltInRole(key) && !CUSTOM_ROLE_KEY.test(key)) {
+    throw new RoleError('Role keys are 3-40 lowercase letters, digits or underscores, starting with a letter');
+  }
+  if (!Array.isArray(permissions) || permissions.some((p) => !PERMISSIONS.includes(p as Permission))) {
+    throw new RoleError(`permissions must be a list of: ${PERMISSIONS.join(', ')}`);
+  }
+
+  const existing = await Role.findOne({ key }).exec();
+  const displayName = typeof name === 'string' && name.trim() ? name.trim() : existing?.name;
+  if (!isBuiltInRole(key) && !displayName) {
+    throw new RoleError('A name is required for a new role');
+  }
+
+  const doc = await Role.findOneAndUpdate(
+    { key },
+    {
+      $set: {
+        name: isBuiltInRole(key) ? BUILT_IN_ROLE_NAMES[key] : displayName,
+        permissions: toPermissions(permissions as string[]),
+        builtIn: isBuiltInRole(key),
+        updatedBy,
+      },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).lean().exec();
+
+  cache.delete(key);
+  return toDefinition(key, doc);
+}
+
+/**
+ * Delete a custom role, or put a built-in role back to its default grants.
+ * A custom role still assigned to staff cannot be deleted.
+ */
+export async function deleteRole(key: string): Promise<RoleDefinition | null> {
+  if (key === SUPER_ADMIN_ROLE) {
+    throw new RoleError('The Super Admin role cannot be changed', 409);
+  }
+  if (isBuiltInRole(key)) {
+    await Role.deleteOne({ key }).exec();
+    cache.delete(key);
+    return toDefinition(key);
+  }
+
+  if (!(await Role.exists({ key }))) throw new RoleError('Role not found', 404);
+  const assignedUsers = await User.countDocuments({ role: key }).exec();
+  if (assignedUsers > 0) {
+    throw new RoleError(`${assignedUsers} user(s) still have this role; give them another role first`, 409);
+  }
+  await Role.deleteOne({ key }).exec();
+  cache.delete(key);
+  return null;
+}
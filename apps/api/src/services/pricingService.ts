@@ -0,0 +1,388 @@
+import Tour, { ITour, IDepartureDate, ITourPerk, PerkAddOn } from '../models/Tour';
+import PromoBanner from '../models/PromoBanner';
+import { Settings } from '../models/Settings';
+import { AppError } from '../middleware/errorHandler';
+import { parseDepartureStart } from './seatInventory';
+import { PUBLIC_TOUR_FILTER } from './tourPublishing';
+
+/**
+ * Pricing Service
+ * Server-side source of truth for booking prices. Every quote is rebuilt from
+ * the Tour record, the active promo banner and the add-on fees in Settings,
+ * so amounts sent by the browser are only ever compared, never trusted.
+ */
+
+// Amounts may differ by rounding on the client; anything beyond this is a mismatch
+const PRICE_TOLERANCE = 1;
+const DEFAULT_DOWNPAYMENT_PERCENT = 30;
+const MIN_DOWNPAYMENT_PERCENT = 10;
+const MAX_DOWNPAYMENT_PERCENT = 90;
+
+export class PricingError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'PricingError';
+  }
+}
+
+export type PriceSource = 'departure' | 'sale' | 'regular' | 'per_day';
+
+export interface QuoteLineItem {
+  code: string;
+  label: string;
+  unitAmount: number;
+  quantity: number;
+  amount: number;
+  // Line item a discount belongs to, e.g. VISA_ASSISTANCE for a visa perk
+  appliesTo?: string;
+}
+
+// A tour perk the booking qualifies for; discountPerPerson is 0 for unpriced perks
+export interface AppliedPerk {
+  label: string;
+  type: ITourPerk['type'];
+  value?: number;
+  addOn?: PerkAddOn;
+  discountPerPerson: number;
+}
+
+export interface BookingQuote {
+  currency: 'PHP';
+  tourSlug: string;
+  // Tour revision the prices were read from; unset for tours not saved since revisions began
+  tourRevision?: number;
+  selectedDate: string;
+  passengers: number;
+  priceSource: PriceSource;
+  basePerPerson: number;
+  promoBannerDiscountPerPerson: number;
+  customRoutesPerPerson: number;
+  optionalToursPerPerson: number;
+  optionalTours: Array<{ day: number; title: string; pricePerPerson: number }>;
+  perPerson: number;
+  addOns: {
+    visaAssistanceFee: number;
+    travelInsuranceFee: number;
+    passportAssistanceFee: number;
+  };
+  perks: AppliedPerk[];
+  lineItems: QuoteLineItem[];
+  totalAmount: number;
+  paidAmount: number;
+  computedAt: string;
+}
+
+export interface QuoteRequest {
+  tourSlug: string;
+  selectedDate: string;
+  passengers: number;
+  paymentType?: string;
+  requestedPaidAmount?: number;
+  customRoutes?: Array<{ tourSlug: string }>;
+  optionalTours?: Array<{ day: number; title: string }>;
+  visaAssistanceRequested?: boolean;
+  travelInsuranceRequested?: boolean;
+  passportAssistanceRequested?: boolean;
+}
+
+interface OptionalTourConfig {
+  day: number;
+  title: string;
+  regularPrice: number;
+  promoEnabled?: boolean;
+  promoType?: 'flat' | 'percent';
+  promoValue?: number;
+}
+
+type PricedTour = Pick<ITour, 'slug' | 'title' | 'durationDays' | 'itinerary' | 'departureDates' | 'basePricePerDay'
+  | 'regularPricePerPerson' | 'promoPricePerPerson' | 'isSaleEnabled' | 'saleEndDate' | 'revision'> & {
+  optionalTours?: OptionalTourConfig[];
+  cashFreebies?: ITourPerk[];
+  fixedDownpaymentAmount?: number;
+};
+
+export interface AddonFees {
+  visaAssistanceFee: number;
+  insuranceFee: number;
+  passportAssistanceFee: number;
+}
+
+/**
+ * Current add-on fees from the global Settings document (same defaults as the
+ * public /api/settings/addons endpoint).
+ */
+export async function getAddonFees(): Promise<AddonFees> {
+  const settings = await Settings.findOne({ key: 'global' }).lean().exec();
+  return {
+    visaAssistanceFee: settings?.visaAssistanceFee ?? 10000,
+    insuranceFee: settings?.insuranceFee ?? 3000,
+    passportAssistanceFee: settings?.passportAssistanceFee ?? 5000,
+  };
+}
+
+export function isSaleActive(tour: Pick<ITour, 'isSaleEnabled' | 'saleEndDate'>, now: Date = new Date()): boolean {
+  if (!tour.isSaleEnabled) return false;
+  return !tour.saleEndDate || new Date(tour.saleEndDate) > now;
+}
+
+/**
+ * Switch off the sale flag on tours whose sale end date has passed, so the
+ * tour editor and listings stop showing a sale that quotes already ignore.
+ */
+export async function expireEndedSales(now: Date = new Date()): Promise<number> {
+  const tours = await Tour.find({ isSaleEnabled: true, saleEndDate: { $nin: [null, ''] } })
+    .select('isSaleEnabled saleEndDate')
+    .lean()
+    .exec();
+  const endedIds = tours.filter((tour) => !isSaleActive(tour, now)).map((tour) => tour._id);
+  if (endedIds.length === 0) return 0;
+
+  const result = await Tour.updateMany({ _id: { $in: endedIds } }, { $set: { isSaleEnabled: false } }).exec();
+  return result.modifiedCount;
+}
+
+/**
+ * Per-person tour price, mirroring the precedence used on the booking page:
+ * departure override → active sale → regular → promo → per-day rate.
+ */
+export function resolveBasePrice(
+  tour: PricedTour,
+  selectedDate?: string,
+  now: Date = new Date()
+): { amount: number; source: PriceSource } {
+  if (selectedDate) {
+    const start = parseDepartureStart(selectedDate);
+    const departure = (tour.departureDates as IDepartureDate[] | undefined)?.find((d) => d.start === start);
+    if (departure && typeof departure.price === 'number') {
+      return { amount: departure.price, source: 'departure' };
+    }
+  }
+
+  const promo = typeof tour.promoPricePerPerson === 'number' ? tour.promoPricePerPerson : undefined;
+  if (isSaleActive(tour, now) && promo !== undefined) {
+    return { amount: promo, source: 'sale' };
+  }
+  if (typeof tour.regularPricePerPerson === 'number') {
+    return { amount: tour.regularPricePerPerson, source: 'regular' };
+  }
+  if (promo !== undefined) {
+    return { amount: promo, source: 'sale' };
+  }
+  const days = tour.durationDays ?? tour.itinerary?.length ?? 0;
+  return { amount: Math.round((tour.basePricePerDay ?? 0) * days), source: 'per_day' };
+}
+
+function optionalTourPrice(optionalTour: OptionalTourConfig, saleActive: boolean): number {
+  if (optionalTour.promoEnabled && saleActive && typeof optionalTour.promoValue === 'number') {
+    return optionalTour.promoType === 'flat'
+      ? optionalTour.promoValue
+      : Math.round(optionalTour.regularPrice * (1 - optionalTour.promoValue / 100));
+  }
+  return optionalTour.regularPrice;
+}
+
+/**
+ * Percentage discount from the active promo banner, if it covers this tour.
+ */
+export async function getPromoBannerDiscountPercent(tourSlug: string, now: Date = new Date()): Promise<number> {
+  const banner = await PromoBanner.findOne({ isEnabled: true }).lean().exec();
+  if (!banner) return 0;
+  if (banner.startDate && now < new Date(banner.startDate)) return 0;
+  if (banner.endDate && now > new Date(banner.endDate)) return 0;
+  if (!Array.isArray(banner.discountedTours) || !banner.discountedTours.includes(tourSlug)) return 0;
+  return Math.max(0, Math.min(100, banner.discountPercentage ?? 0));
+}
+
+const PERK_ADD_ONS: Record<PerkAddOn, { code: string; fee: keyof BookingQuote['addOns'] }> = {
+  visa: { code: 'VISA_ASSISTANCE', fee: 'visaAssistanceFee' },
+  insurance: { code: 'TRAVEL_INSURANCE', fee: 'travelInsuranceFee' },
+  passport: { code: 'PASSPORT_ASSISTANCE', fee: 'passportAssistanceFee' },
+};
+
+// Anything but a downpayment settles the whole amount, online or in cash
+function isFullPayment(paymentType?: string): boolean {
+  return paymentType !== 'downpayment';
+}
+
+/**
+ * Tour perks the booking qualifies for. A perk tied to an add-on only counts
+ * when that add-on was requested, and takes its discount off the add-on fee
+ * currently charged, so it can never exceed what the customer pays for it.
+ */
+function resolvePerks(
+  perks: ITourPerk[] | undefined,
+  paymentType: string | undefined,
+  addOns: BookingQuote['addOns']
+): Array<AppliedPerk & { appliesTo?: string }> {
+  const applied: Array<AppliedPerk & { appliesTo?: string }> = [];
+  for (const perk of perks ?? []) {
+    if (!perk?.label) continue;
+    if ((perk.eligibility ?? 'full_payment') === 'full_payment' && !isFullPayment(paymentType)) continue;
+
+    const entry = { label: perk.label, type: perk.type, value: perk.value, addOn: perk.addOn, discountPerPerson: 0 };
+    const target = perk.addOn ? PERK_ADD_ONS[perk.addOn] : undefined;
+    if (!target) {
+      applied.push(entry);
+      continue;
+    }
+
+    const fee = addOns[target.fee];
+    if (fee <= 0) continue;
+    const percent = perk.type === 'percent_off' ? Math.max(0, Math.min(100, perk.value ?? 0)) : 100;
+    applied.push({ ...entry, discountPerPerson: Math.round(fee * (percent / 100)), appliesTo: target.code });
+  }
+  return applied;
+}
+
+function resolvePaidAmount(tour: PricedTour, request: QuoteRequest, totalAmount: number): number {
+  switch (request.paymentType) {
+    case 'cash-appointment':
+      return 0;
+    case 'downpayment': {
+      if (typeof tour.fixedDownpaymentAmount === 'number') {
+        return Math.min(tour.fixedDownpaymentAmount, totalAmount);
+      }
+      const min = Math.round(totalAmount * (MIN_DOWNPAYMENT_PERCENT / 100));
+      const max = Math.round(totalAmount * (MAX_DOWNPAYMENT_PERCENT / 100));
+      const requested = request.requestedPaidAmount;
+      if (typeof requested === 'number' && requested >= min && requested <= max) {
+        return Math.round(requested);
+      }
+      return Math.round(totalAmount * (DEFAULT_DOWNPAYMENT_PERCENT / 100));
+    }
+    default:
+      return totalAmount;
+  }
+}
+
+/**
+ * Build an itemized quote for a booking request from server-side data only.
+ */
+export async function buildBookingQuote(request: QuoteRequest, now: Date = new Date()): Promise<BookingQuote> {
+  if (typeof request.tourSlug !== 'string' || !request.tourSlug) {
+    throw new PricingError('A tour is required to build a quote.');
+  }
+  const passengers = Math.floor(Number(request.passengers));
+  if (!Number.isFinite(passengers) || passengers < 1) {
+    throw new PricingError('Passengers must be at least 1.');
+  }
+
+  // Unpublished tours (drafts, previews, archived) cannot be booked
+  const tour = await Tour.findOne({ slug: request.tourSlug, ...PUBLIC_TOUR_FILTER }).lean<PricedTour>().exec();
+  if (!tour) {
+    throw new PricingError(`Tour "${request.tourSlug}" not found; price cannot be verified.`, 404);
+  }
+
+  const lineItems: QuoteLineItem[] = [];
+  const addItem = (code: string, label: string, unitAmount: number, quantity: number, appliesTo?: string) => {
+    if (unitAmount === 0) return;
+    lineItems.push({ code, label, unitAmount, quantity, amount: unitAmount * quantity, ...(appliesTo && { appliesTo }) });
+  };
+
+  const base = resolveBasePrice(tour, request.selectedDate, now);
+  addItem('TOUR_BASE', tour.title, base.amount, passengers);
+
+  const discountPercent = await getPromoBannerDiscountPercent(tour.slug, now);
+  const promoBannerDiscountPerPerson = Math.round(base.amount * (discountPercent / 100));
+  addItem('PROMO_BANNER', `Promo discount (${discountPercent}%)`, -promoBannerDiscountPerPerson, passengers);
+
+  let customRoutesPerPerson = 0;
+  for (const route of request.customRoutes ?? []) {
+    const routeTour = await Tour.findOne({ slug: route.tourSlug, ...PUBLIC_TOUR_FILTER }).lean<PricedTour>().exec();
+    if (!routeTour) {
+      throw new PricingError(`Custom route tour "${route.tourSlug}" not found; price cannot be verified.`);
+    }
+    const routePrice = resolveBasePrice(routeTour, undefined, now).amount;
+    customRoutesPerPerson += routePrice;
+    addItem('CUSTOM_ROUTE', routeTour.title, routePrice, passengers);
+  }
+
+  const saleActive = isSaleActive(tour, now);
+  let optionalToursPerPerson = 0;
+  const optionalTours: BookingQuote['optionalTours'] = [];
+  for (const selection of request.optionalTours ?? []) {
+    const optionalTour = tour.optionalTours?.find((o) => o.day === selection.day && o.title === selection.title);
+    if (!optionalTour) {
+      throw new PricingError(`Optional tour "${selection.title}" is not offered on this tour.`);
+    }
+    const price = optionalTourPrice(optionalTour, saleActive);
+    optionalToursPerPerson += price;
+    optionalTours.push({ day: optionalTour.day, title: optionalTour.title, pricePerPerson: price });
+    addItem('OPTIONAL_TOUR', `Day ${optionalTour.day}: ${optionalTour.title}`, price, passengers);
+  }
+
+  const fees = await getAddonFees();
+  const addOns = {
+    visaAssistanceFee: request.visaAssistanceRequested ? fees.visaAssistanceFee : 0,
+    travelInsuranceFee: request.travelInsuranceRequested ? fees.insuranceFee : 0,
+    passportAssistanceFee: request.passportAssistanceRequested ? fees.passportAssistanceFee : 0,
+  };
+  addItem('VISA_ASSISTANCE', 'Visa assistance', addOns.visaAssistanceFee, passengers);
+  addItem('TRAVEL_INSURANCE', 'Travel insurance', addOns.travelInsuranceFee, passengers);
+  addItem('PASSPORT_ASSISTANCE', 'Passport assistance', addOns.passportAssistanceFee, passengers);
+
+  const perks = resolvePerks(tour.cashFreebies, request.paymentType, addOns).map(({ appliesTo, ...perk }) => {
+    addItem('PERK', perk.label, -perk.discountPerPerson, passengers, appliesTo);
+    return perk;
+  });
+
+  const perPerson = base.amount - promoBannerDiscountPerPerson + customRoutesPerPerson;
+  const totalAmount = lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+  return {
+    currency: 'PHP',
+    tourSlug: tour.slug,
+    tourRevision: tour.revision,
+    selectedDate: request.selectedDate,
+    passengers,
+    priceSource: base.source,
+    basePerPerson: base.amount,
+    promoBannerDiscountPerPerson,
+    customRoutesPerPerson,
+    optionalToursPerPerson,
+    optionalTours,
+    perPerson,
+    addOns,
+    perks,
+    lineItems,
+    totalAmount,
+    paidAmount: resolvePaidAmount(tour, request, totalAmount),
+    computedAt: now.toISOString(),
+  };
+}
+
+export interface PriceMismatch {
+  field: 'perPerson' | 'totalAmount' | 'paidAmount';
+  submitted: number;
+  expected: number;
+}
+
+/**
+ * Compare the amounts a client submitted against the server quote.
+ */
+export function findPriceMismatches(
+  quote: BookingQuote,
+  submitted: { perPerson?: unknown; totalAmount?: unknown; paidAmount?: unknown }
+): PriceMismatch[] {
+  const mismatches: PriceMismatch[] = [];
+  const check = (field: PriceMismatch['field'], expected: number) => {
+    const value = submitted[field];
+    if (value === undefined || value === null) return;
+    const numeric = Number(value);
+    if (!Number.isFinite(numeric) || Math.abs(numeric - expected) > PRICE_TOLERANCE) {
+      mismatches.push({ field, submitted: Number.isFinite(numeric) ? numeric : NaN, expected });
+    }
+  };
+  check('perPerson', quote.perPerson);
+  check('totalAmount', quote.totalAmount);
+  check('paidAmount', quote.paidAmount);
+  return mismatches;
+}
+
+/**
+ * Whether a price mismatch rejects the booking (strict) or is silently
+ * corrected to the server quote. Controlled by PRICING_MISMATCH_MODE.
+ */
+export function isStrictPricing(): boolean {
+  return (process.env.PRICING_MISMATCH_MODE || 'correct').toLowerCase() === 'reject';
+}
@@ -0,0 +1,162 @@
+import { IBooking, RefundStatus } from '../models/Booking';
+import logger from '../utils/logger';
+
+/**
+ * Refund Providers
+ * Server-side counterpart of the client payment provider abstraction
+ * (src/services/providers): each provider knows how to send money back for a
+ * booking paid through it. Bookings paid offline (cash, bank transfer) use
+ * the manual provider, which only records that the office will pay it out.
+ */
+
+export type RefundProviderName = 'paymongo' | 'manual';
+
+export interface RefundRequest {
+  bookingId: string;
+  paymentIntentId?: string;
+  amount: number; // pesos
+  reason?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface RefundResponse {
+  id: string;
+  provider: RefundProviderName;
+  amount: number;
+  currency: 'PHP';
+  status: RefundStatus;
+  reason?: string;
+  createdAt: Date;
+}
+
+export interface IRefundProvider {
+  readonly name: RefundProviderName;
+  readonly isEnabled: boolean;
+  refundPayment(request: RefundRequest): Promise<RefundResponse>;
+}
+
+type PayMongoResponse = {
+  data?: { id: string; attributes: Record<string, unknown> };
+  errors?: Array<{ detail: string }>;
+};
+
+class PayMongoRefundProvider implements IRefundProvider {
+  readonly name = 'paymongo' as const;
+
+  private get secretKey(): string {
+    return process.env.PAYMONGO_SECRET_KEY || '';
+  }
+
+  private get baseUrl(): string {
+    return process.env.PAYMONGO_API_BASE || 'https://api.paymongo.com/v1';
+  }
+
+  get isEnabled(): boolean {
+    return Boolean(this.secretKey);
+  }
+
+  private async request(path: string, init: { method: string; body?: unknown }): Promise<PayMongoResponse> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: init.method,
+      headers: {
+        'Authorization': `Basic ${Buffer.from(this.secretKey + ':').toString('base64')}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+    const data = await response.json() as PayMongoResponse;
+    if (!response.ok) {
+      throw new Error(data.errors?.[0]?.detail || `PayMongo request to ${path} failed (${response.status})`);
+    }
+    return data;
+  }
+
+  /**
+   * Refunds are issued against a payment (pay_...). Bookings paid by card
+   * store the payment intent (pi_...), so look up its latest paid payment.
+   */
+  private async resolvePaymentId(reference: string): Promise<string> {
+    if (!reference.startsWith('pi_')) return reference;
+    const intent = await this.request(`/payment_intents/${reference}`, { method: 'GET' });
+    const payments = (intent.data?.attributes.payments ?? []) as Array<{ id: string; attributes?: { status?: string } }>;
+    const paid = payments.filter((p) => p.attributes?.status === 'paid');
+    const payment = paid[paid.length - 1];
+    if (!payment) {
+      throw new Error(`Payment intent ${reference} has no paid payment to refund`);
+    }
+    return payment.id;
+  }
+
+  async refundPayment(request: RefundRequest): Promise<RefundResponse> {
+    if (!request.paymentIntentId) {
+      throw new Error(`Booking ${request.bookingId} has no PayMongo payment to refund`);
+    }
+    const paymentId = await this.resolvePaymentId(request.paymentIntentId);
+    const data = await this.request('/refunds', {
+      method: 'POST',
+      body: {
+        data: {
+          attributes: {
+            amount: Math.round(request.amount * 100), // pesos → centavos
+            payment_id: paymentId,
+            reason: 'requested_by_customer',
+            notes: request.reason,
+            metadata: { bookingId: request.bookingId, ...request.metadata },
+          },
+        },
+      },
+    });
+
+    const status = data.data?.attributes.status;
+    return {
+      id: data.data?.id ?? '',
+      provider: this.name,
+      amount: request.amount,
+      currency: 'PHP',
+      status: status === 'succeeded' ? 'succeeded' : status === 'failed' ? 'failed' : 'pending',
+      reason: request.reason,
+      createdAt: new Date(),
+    };
+  }
+}
+
+class ManualRefundProvider implements IRefundProvider {
+  readonly name = 'manual' as const;
+  readonly isEnabled = true;
+
+  async refundPayment(request: RefundRequest): Promise<RefundResponse> {
+    logger.info(`[Refunds] Manual refund of PHP ${request.amount} recorded for ${request.bookingId}`);
+    return {
+      id: `manual_${request.bookingId}_${Date.now()}`,
+      provider: this.name,
+      amount: request.amount,
+      currency: 'PHP',
+      status: 'pending',
+      reason: request.reason,
+      createdAt: new Date(),
+    };
+  }
+}
+
+const providers: Record<RefundProviderName, IRefundProvider> = {
+  paymongo: new PayMongoRefundProvider(),
+  manual: new ManualRefundProvider(),
+};
+
+export function getRefundProvider(name: RefundProviderName): IRefundProvider {
+  return providers[name];
+}
+
+/**
+ * Pick the provider that took the booking's payment. PayMongo payments are
+ * recognised by their pay_/pi_ reference; everything else is refunded by hand.
+ */
+export function getRefundProviderForBooking(booking: Pick<IBooking, 'paymentIntentId'>): IRefundProvider {
+  const reference = booking.paymentIntentId || '';
+  const paymongo = providers.paymongo;
+  if (paymongo.isEnabled && /^(pay|pi)_/.test(reference)) {
+    return paymongo;
+  }
+  return providers.manual;
+}
@@ -0,0 +1,277 @@
+import mongoose from 'mongoose';
+import Tour, { IDepartureDate } from '../models/Tour';
+import SeatHold, { ISeatHold } from '../models/SeatHold';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+
+/**
+ * Seat Inventory Service
+ * Tracks sold and held seats per tour departure. Seats are reserved as a
+ * time-limited hold when a booking is created and move to "sold" once
+ * payment arrives; unpaid holds are released by the expiry sweeper.
+ */
+
+const DEFAULT_HOLD_MINUTES = Number(process.env.SEAT_HOLD_MINUTES) || 30;
+const CASH_APPOINTMENT_HOLD_HOURS = Number(process.env.CASH_APPOINTMENT_HOLD_HOURS) || 72;
+const MAX_RESERVE_ATTEMPTS = 5;
+
+export type SeatInventoryErrorCode = 'SOLD_OUT' | 'INSUFFICIENT_SEATS' | 'DEPARTURE_CLOSED';
+
+export class SeatInventoryError extends AppError {
+  code: SeatInventoryErrorCode;
+  remainingSeats: number;
+
+  constructor(code: SeatInventoryErrorCode, message: string, remainingSeats: number) {
+    super(message, 409);
+    this.name = 'SeatInventoryError';
+    this.code = code;
+    this.remainingSeats = remainingSeats;
+  }
+}
+
+/**
+ * Bookings store the departure as "YYYY-MM-DD" or "YYYY-MM-DD - YYYY-MM-DD";
+ * the start date identifies the departure.
+ */
+export function parseDepartureStart(selectedDate: string): string {
+  return selectedDate.includes(' - ')
+    ? selectedDate.split(' - ')[0].trim()
+    : selectedDate.trim();
+}
+
+/**
+ * Remaining seats for a departure, or null when it is not capacity-managed.
+ */
+export function getRemainingSeats(departure: Pick<IDepartureDate, 'maxCapacity' | 'currentBookings' | 'heldSeats'>): number | null {
+  if (typeof departure.maxCapacity !== 'number') return null;
+  const remaining = departure.maxCapacity - (departure.currentBookings ?? 0) - (departure.heldSeats ?? 0);
+  return Math.max(0, remaining);
+}
+
+/**
+ * Hold duration depends on how the customer pays: online payments settle in
+ * minutes, cash appointments need a few days to reach the office.
+ */
+export function getHoldExpiry(paymentType?: string, from: Date = new Date()): Date {
+  const ms = paymentType === 'cash-appointment'
+    ? CASH_APPOINTMENT_HOLD_HOURS * 60 * 60 * 1000
+    : DEFAULT_HOLD_MINUTES * 60 * 1000;
+  return new Date(from.getTime() + ms);
+}
+
+// Departures saved before inventory tracking have no counters stored at all
+const counterMatch = (value?: number) => (value ? value : { $in: [0, null] });
+
+export interface ReserveSeatsInput {
+  tourSlug: string;
+  selectedDate: string;
+  seats: number;
+  bookingId: string;
+  paymentType?: string;
+}
+
+/**
+ * Atomically reserve seats on a departure as a hold.
+ * Uses compare-and-set on the departure's counters so two concurrent bookings
+ * can never both take the last seats. Returns null when the tour or departure
+ * is not tracked in MongoDB (legacy tours keep working without inventory).
+ */
+export async function reserveSeats(input: ReserveSeatsInput): Promise<ISeatHold | null> {
+  const departureStart = parseDepartureStart(input.selectedDate);
+  const seats = Math.max(1, Math.floor(input.seats));
+
+  for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+    const tour = await Tour.findOne({ slug: input.tourSlug }).lean().exec();
+    const departure = (tour?.departureDates as IDepartureDate[] | undefined)
+      ?.find((d) => d.start === departureStart);
+    if (!tour || !departure || !departure._id) {
+      return null;
+    }
+
+    const remaining = getRemainingSeats(departure);
+    if (departure.isAvailable === false) {
+      throw new SeatInventoryError('DEPARTURE_CLOSED', 'This departure is no longer available for booking.', remaining ?? 0);
+    }
+    if (remaining !== null && remaining < seats) {
+      throw remaining === 0
+        ? new SeatInventoryError('SOLD_OUT', 'This departure is sold out.', 0)
+        : new SeatInventoryError('INSUFFICIENT_SEATS', `Only ${remaining} seat(s) left on this departure.`, remaining);
+    }
+
+    // Only apply the increment if nobody changed the counters since we read them
+    const updated = await Tour.updateOne(
+      {
+        _id: tour._id,
+        departureDates: {
+          $elemMatch: {
+            _id: departure._id,
+            currentBookings: counterMatch(departure.currentBookings),
+            heldSeats: counterMatch(departure.heldSeats),
+            maxCapacity: departure.maxCapacity ?? null,
+          },
+        },
+      },
+      { $inc: { 'departureDates.$.heldSeats': seats } }
+    ).exec();
+
+    if (updated.modifiedCount === 1) {
+      try {
+        return await SeatHold.create({
+          bookingId: input.bookingId,
+          tour: tour._id,
+          tourSlug: input.tourSlug,
+          departureId: departure._id,
+          departureStart,
+          seats,
+          status: 'active',
+          expiresAt: getHoldExpiry(input.paymentType),
+        });
+      } catch (err) {
+        // Hand the seats back so a failed hold record cannot leak inventory
+        await adjustDepartureCounters({ tour: tour._id as mongoose.Types.ObjectId, departureId: departure._id }, { heldSeats: -seats });
+        throw err;
+      }
+    }
+  }
+
+  throw new AppError('Seat inventory is busy, please try again.', 503);
+}
+
+async function adjustDepartureCounters(
+  hold: Pick<ISeatHold, 'tour' | 'departureId'>,
+  inc: { heldSeats?: number; currentBookings?: number }
+): Promise<void> {
+  const update: Record<string, number> = {};
+  if (inc.heldSeats) update['departureDates.$.heldSeats'] = inc.heldSeats;
+  if (inc.currentBookings) update['departureDates.$.currentBookings'] = inc.currentBookings;
+  await Tour.updateOne(
+    { _id: hold.tour, 'departureDates._id': hold.departureId },
+    { $inc: update }
+  ).exec();
+}
+
+/**
+ * Convert a booking's hold into sold seats once payment has arrived.
+ * If the hold already lapsed the customer has still paid, so the seats are
+ * sold anyway and the possible overbooking is logged for the booking team.
+ */
+export async function confirmSeatHold(bookingId: string): Promise<ISeatHold | null> {
+  const hold = await SeatHold.findOneAndUpdate(
+    { bookingId, status: 'active' },
+    { $set: { status: 'confirmed', confirmedAt: new Date() } },
+    { new: true }
+  ).exec();
+
+  if (hold) {
+    await adjustDepartureCounters(hold, { heldSeats: -hold.seats, currentBookings: hold.seats });
+    logger.info(`[SeatInventory] Confirmed ${hold.seats} seat(s) for booking ${bookingId}`);
+    return hold;
+  }
+
+  const lapsed = await SeatHold.findOneAndUpdate(
+    { bookingId, status: { $in: ['expired', 'released'] } },
+    { $set: { status: 'confirmed', confirmedAt: new Date() }, $unset: { releasedAt: '', releaseReason: '' } },
+    { new: true }
+  ).exec();
+
+  if (lapsed) {
+    await adjustDepartureCounters(lapsed, { currentBookings: lapsed.seats });
+    logger.warn(`[SeatInventory] Payment arrived after hold lapsed for booking ${bookingId}; departure may be overbooked`);
+  }
+  return lapsed;
+}
+
+/**
+ * Give a booking's seats back to the departure, whether still held or sold.
+ */
+export async function releaseSeats(
+  bookingId: string,
+  reason: string,
+  status: 'released' | 'expired' = 'released'
+): Promise<ISeatHold | null> {
+  const hold = await SeatHold.findOne({ bookingId, status: { $in: ['active', 'confirmed'] } }).exec();
+  if (!hold) return null;
+
+  const previousStatus = hold.status;
+  const released = await SeatHold.findOneAndUpdate(
+    { _id: hold._id, status: previousStatus },
+    { $set: { status, releasedAt: new Date(), releaseReason: reason } },
+    { new: true }
+  ).exec();
+  if (!released) return null;
+
+  await adjustDepartureCounters(
+    released,
+    previousStatus === 'active' ? { heldSeats: -released.seats } : { currentBookings: -released.seats }
+  );
+  logger.info(`[SeatInventory] Released ${released.seats} seat(s) for booking ${bookingId} (${reason})`);
+  return released;
+}
+
+/**
+ * Release every active hold whose payment window has passed.
+ */
+export async function expireStaleHolds(now: Date = new Date()): Promise<number> {
+  const stale = await SeatHold.find({ status: 'active', expiresAt: { $lte: now } }).select('bookingId').lean().exec();
+  let expired = 0;
+  for (const hold of stale) {
+    const released = await releaseSeats(hold.bookingId, 'Payment not received before hold expired', 'expired');
+    if (released) expired++;
+  }
+  if (expired > 0) {
+    logger.info(`[SeatInventory] Expired ${expired} unpaid seat hold(s)`);
+  }
+  return expired;
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+export function startSeatHoldSweeper(intervalMs: number = 60 * 1000): void {
+  if (sweeper) return;
+  sweeper = setInterval(() => {
+    if (mongoose.connection.readyState !== 1) return;
+    expireStaleHolds().catch((err) => {
+      logger.error('[SeatInventory] Hold expiry sweep failed', { error: err instanceof Error ? err.message : String(err) });
+    });
+  }, intervalMs);
+  sweeper.unref();
+}
+
+/**
+ * Sold and held counters are owned by the booking flow, not the tour editor.
+ * When an admin saves a tour, keep each existing departure's _id and counters
+ * (matched by start date) so saving the form cannot wipe live inventory.
+ */
+export function mergeDepartureInventory(
+  existing: IDepartureDate[] = [],
+  incoming: IDepartureDate[]
+): IDepartureDate[] {
+  const byStart = new Map(existing.map((d) => [d.start, d]));
+  return incoming.map((departure) => {
+    const current = byStart.get(departure.start);
+    if (!current) return departure;
+    return {
+      ...departure,
+      _id: current._id,
+      currentBookings: current.currentBookings ?? 0,
+      heldSeats: current.heldSeats ?? 0,
+    };
+  });
+}
+
+/**
+ * Query conditions that only match while every departure still has the
+ * counters it was read with. Saves that rewrite the departure list with
+ * mergeDepartureInventory add these, so a booking taken in between is never
+ * overwritten by the counters the save copied.
+ */
+export function departureCountersUnchanged(departures: IDepartureDate[] = []): Record<string, unknown> {
+  const conditions = departures
+    .filter((d) => d._id)
+    .map((d) => ({
+      departureDates: {
+        $elemMatch: { _id: d._id, currentBookings: counterMatch(d.currentBookings), heldSeats: counterMatch(d.heldSeats) },
+      },
+    }));
+  return conditions.length ? { $and: conditions } : {};
+}
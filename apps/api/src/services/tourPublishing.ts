@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Tour, { ITour, TourStatus } from '../models/Tour';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Tour Publishing Service
+ * Draft → in review → published → archived workflow for tours, with optional
+ * scheduled publish/unpublish times for timed sale launches, and signed
+ * preview links so staff can check an unpublished tour on the public site.
+ */
+
+export const TOUR_STATUSES: TourStatus[] = ['draft', 'in_review', 'published', 'archived'];
+
+// Tours without a status predate the workflow and were already live
+export const PUBLIC_TOUR_FILTER = { status: { $nin: ['draft', 'in_review', 'archived'] } };
+
+const DEFAULT_PREVIEW_TTL_HOURS = 72;
+const SCHEDULED_ACTOR = 'Scheduled';
+
+export class TourPublishingError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'TourPublishingError';
+  }
+}
+
+type PublishingFields = Pick<ITour, 'slug' | 'status' | 'publishAt' | 'unpublishAt' | 'publishedAt'>;
+type PublishingRecord = PublishingFields & { _id: mongoose.Types.ObjectId };
+
+export function getTourStatus(tour: Pick<ITour, 'status'>): TourStatus {
+  return tour.status ?? 'published';
+}
+
+export function isTourPublic(tour: Pick<ITour, 'status'>): boolean {
+  return getTourStatus(tour) === 'published';
+}
+
+function tourFilter(idOrSlug: string) {
+  return /^[0-9a-fA-F]{24}$/.test(idOrSlug) ? { _id: idOrSlug } : { slug: idOrSlug };
+}
+
+// undefined: leave as is, null or '': clear, anything else must be a valid date
+function parseSchedule(value: unknown, field: string): Date | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const date = new Date(value as string);
+  if (Number.isNaN(date.getTime())) {
+    throw new TourPublishingError(`${field} must be a valid date and time`);
+  }
+  return date;
+}
+
+export interface TourStatusChange {
+  status?: TourStatus;
+  publishAt?: string | Date | null;
+  unpublishAt?: string | Date | null;
+}
+
+/**
+ * Change a tour's status and/or its publish schedule. A scheduled publish
+ * applies to drafts and tours in review; a scheduled unpublish archives the
+ * tour once it is live.
+ */
+export async function setTourStatus(
+  idOrSlug: string,
+  change: TourStatusChange,
+  actor: string,
+  now: Date = new Date()
+): Promise<PublishingRecord> {
+  const tour = await Tour.findOne(tourFilter(idOrSlug))
+    .select('slug status publishAt unpublishAt publishedAt')
+    .lean<PublishingRecord>()
+    .exec();
+  if (!tour) throw new TourPublishingError('Tour not found', 404);
+
+  if (change.status !== undefined && !TOUR_STATUSES.includes(change.status)) {
+    throw new TourPublishingError(`Status must be one of: ${TOUR_STATUSES.join(', ')}`);
+  }
+  const status = change.status ?? getTourStatus(tour);
+  const requestedPublishAt = parseSchedule(change.publishAt, 'publishAt');
+  const requestedUnpublishAt = parseSchedule(change.unpublishAt, 'unpublishAt');
+
+  let publishAt = requestedPublishAt === undefined ? tour.publishAt ?? null : requestedPublishAt;
+  let unpublishAt = requestedUnpublishAt === undefined ? tour.unpublishAt ?? null : requestedUnpublishAt;
+
+  if (requestedPublishAt && requestedPublishAt <= now) {
+    throw new TourPublishingError('Scheduled publish time must be in the future');
+  }
+  if (requestedUnpublishAt && requestedUnpublishAt <= now) {
+    throw new TourPublishingError('Scheduled unpublish time must be in the future');
+  }
+  if (requestedPublishAt && (status === 'published' || status === 'archived')) {
+    throw new TourPublishingError('Only drafts and tours in review can be scheduled to publish');
+  }
+
+  // A live tour has nothing left to publish, an archived one nothing to run
+  if (status === 'published') publishAt = null;
+  if (status === 'archived') {
+    publishAt = null;
+    unpublishAt = null;
+  }
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    throw new TourPublishingError('Scheduled unpublish time must be after the publish time');
+  }
+
+  const set: Record<string, unknown> = {
+    status,
+    publishAt,
+    unpublishAt,
+    statusUpdatedAt: now,
+    statusUpdatedBy: actor,
+  };
+  if (status === 'published' && getTourStatus(tour) !== 'published') {
+    set.publishedAt = now;
+  }
+
+  const updated = await Tour.findByIdAndUpdate(tour._id, { $set: set }, { new: true })
+    .select('slug status publishAt unpublishAt publishedAt statusUpdatedAt statusUpdatedBy')
+    .lean<PublishingRecord>()
+    .exec();
+  if (!updated) throw new TourPublishingError('Tour not found', 404);
+  return updated;
+}
+
+/**
+ * Publish tours whose scheduled time has come and archive live tours past
+ * their unpublish time. Run by the `tour-publishing` job.
+ */
+export async function applyScheduledPublishing(now: Date = new Date()): Promise<{ published: number; archived: number }> {
+  const published = await Tour.updateMany(
+    { status: { $in: ['draft', 'in_review'] }, publishAt: { $ne: null, $lte: now } },
+    {
+      $set: {
+        status: 'published',
+        publishedAt: now,
+        publishAt: null,
+        statusUpdatedAt: now,
+        statusUpdatedBy: SCHEDULED_ACTOR,
+      },
+    }
+  ).exec();
+
+  const archived = await Tour.updateMany(
+    { ...PUBLIC_TOUR_FILTER, unpublishAt: { $ne: null, $lte: now } },
+    {
+      $set: {
+        status: 'archived',
+        unpublishAt: null,
+        statusUpdatedAt: now,
+        statusUpdatedBy: SCHEDULED_ACTOR,
+      },
+    }
+  ).exec();
+
+  return { published: published.modifiedCount, archived: archived.modifiedCount };
+}
+
+function getPreviewSecret(): string {
+  const secret = process.env.TOUR_PREVIEW_SECRET || process.env.JWT_SECRET;
+  if (!secret) throw new Error('TOUR_PREVIEW_SECRET or JWT_SECRET must be set to sign preview links');
+  return secret;
+}
+
+function signPreview(slug: string, expiresAt: number): string {
+  return crypto.createHmac('sha256', getPreviewSecret()).update(`${slug}.${expiresAt}`).digest('base64url');
+}
+
+/**
+ * Token for viewing one unpublished tour on the public site. It is bound to
+ * the slug, so renaming the tour invalidates earlier links.
+ */
+export function createPreviewToken(
+  slug: string,
+  ttlHours: number = DEFAULT_PREVIEW_TTL_HOURS,
+  now: Date = new Date()
+): { token: string; expiresAt: Date } {
+  const expiresAt = now.getTime() + ttlHours * 60 * 60 * 1000;
+  return { token: `${expiresAt}.${signPreview(slug, expiresAt)}`, expiresAt: new Date(expiresAt) };
+}
+
+export function verifyPreviewToken(slug: string, token: unknown, now: Date = new Date()): boolean {
+  if (typeof token !== 'string') return false;
+  const [expiresPart, signature] = token.split('.');
+  const expiresAt = Number(expiresPart);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt <= now.getTime()) return false;
+
+  const expected = Buffer.from(signPreview(slug, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
@@ -0,0 +1,286 @@
+import mongoose from 'mongoose';
+import Tour, { ITour } from '../models/Tour';
+import TourRevision, { ITourRevision, TourRevisionAction } from '../models/TourRevision';
+import { AppError } from '../middleware/errorHandler';
+import { departureCountersUnchanged, mergeDepartureInventory } from './seatInventory';
+
+/**
+ * Tour Revision Service
+ * Every admin save of a tour goes through here and leaves an immutable
+ * snapshot behind, so a bad save can be compared field by field with earlier
+ * ones and rolled back. Seat counters are live booking data and are never part
+ * of a snapshot; restoring a revision keeps the current counters.
+ */
+
+// Maintained by Mongo, by this service or by the publishing workflow
+// (tourPublishing), never taken from an editor payload
+const NON_EDITABLE_KEYS = [
+  '_id', '__v', 'id', 'createdAt', 'updatedAt', 'revision',
+  'status', 'publishAt', 'unpublishAt', 'publishedAt', 'statusUpdatedAt', 'statusUpdatedBy',
+];
+const INVENTORY_KEYS = ['currentBookings', 'heldSeats'];
+const BASELINE_AUTHOR = 'System (before revision history)';
+const STALE_MESSAGE = 'This tour was saved by someone else in the meantime. Reload it and try again.';
+// Saves retried because a booking moved the seat counters between read and write
+const MAX_SAVE_ATTEMPTS = 5;
+
+export interface TourRevisionAuthor {
+  id?: string;
+  name: string;
+}
+
+export interface TourFieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface TourRevisionDiff {
+  from: number;
+  to: number;
+  changes: TourFieldChange[];
+}
+
+export class TourRevisionError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'TourRevisionError';
+  }
+}
+
+type TourRecord = Partial<ITour> & { _id: mongoose.Types.ObjectId; revision?: number };
+
+function tourFilter(idOrSlug: string) {
+  return /^[0-9a-fA-F]{24}$/.test(idOrSlug) ? { _id: idOrSlug } : { slug: idOrSlug };
+}
+
+async function findTour(idOrSlug: string): Promise<TourRecord> {
+  const tour = await Tour.findOne(tourFilter(idOrSlug)).lean<TourRecord>().exec();
+  if (!tour) throw new TourRevisionError('Tour not found', 404);
+  return tour;
+}
+
+// Plain JSON without subdocument ids, which change on every save of an array
+function toPlain(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof mongoose.Types.ObjectId) return String(value);
+  if (value && typeof value === 'object') {
+    const plain: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (key === '_id' || entry === undefined) continue;
+      plain[key] = toPlain(entry);
+    }
+    return plain;
+  }
+  return value;
+}
+
+/**
+ * The editable part of a tour, as stored in a revision.
+ */
+export function toTourSnapshot(tour: Record<string, unknown>): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(tour)) {
+    if (NON_EDITABLE_KEYS.includes(key) || value === undefined) continue;
+    snapshot[key] = toPlain(value);
+  }
+  if (Array.isArray(snapshot.departureDates)) {
+    snapshot.departureDates = (snapshot.departureDates as Array<Record<string, unknown>>).map((departure) => {
+      const copy = { ...departure };
+      INVENTORY_KEYS.forEach((key) => delete copy[key]);
+      return copy;
+    });
+  }
+  return snapshot;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Missing, null and empty lists all mean "not set" to an editor
+const orNull = (value: unknown) =>
+  value === undefined || value === null || (Array.isArray(value) && value.length === 0) ? null : value;
+
+/**
+ * Field-level differences between two snapshots. Nested objects such as
+ * additionalInfo are compared key by key; arrays are compared as a whole.
+ */
+export function diffTourSnapshots(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix = ''
+): TourFieldChange[] {
+  const changes: TourFieldChange[] = [];
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  for (const key of keys) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const a = orNull(before[key]);
+    const b = orNull(after[key]);
+    if (isPlainObject(a) && isPlainObject(b)) {
+      changes.push(...diffTourSnapshots(a, b, path));
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ path, before: a, after: b });
+    }
+  }
+  return changes;
+}
+
+function editableFields(payload: Record<string, unknown>): Record<string, unknown> {
+  const fields = { ...payload };
+  NON_EDITABLE_KEYS.forEach((key) => delete fields[key]);
+  return fields;
+}
+
+async function recordRevision(
+  tour: TourRecord,
+  action: TourRevisionAction,
+  author: TourRevisionAuthor,
+  previous?: Record<string, unknown>,
+  restoredFrom?: number
+): Promise<ITourRevision> {
+  const snapshot = toTourSnapshot(tour as Record<string, unknown>);
+  return TourRevision.create({
+    tourId: tour._id,
+    revision: tour.revision,
+    action,
+    restoredFrom,
+    snapshot,
+    changedFields: previous ? diffTourSnapshots(previous, snapshot).map((change) => change.path) : [],
+    authorId: author.id,
+    authorName: author.name,
+  });
+}
+
+/**
+ * Tours saved before revisions existed get their current state recorded as
+ * revision 1, so the first tracked save can still be rolled back.
+ */
+async function ensureBaseline(tour: TourRecord, snapshot: Record<string, unknown>): Promise<number> {
+  if (tour.revision) return tour.revision;
+  await TourRevision.updateOne(
+    { tourId: tour._id, revision: 1 },
+    {
+      $setOnInsert: {
+        tourId: tour._id,
+        revision: 1,
+        action: 'baseline',
+        snapshot,
+        changedFields: [],
+        authorName: BASELINE_AUTHOR,
+      },
+    },
+    { upsert: true }
+  ).exec();
+  return 1;
+}
+
+// New tours start as drafts and stay off the public site until published
+export async function createTourWithRevision(payload: Record<string, unknown>, author: TourRevisionAuthor) {
+  const tour = new Tour({ ...editableFields(payload), revision: 1, status: 'draft' });
+  await tour.save();
+  await recordRevision(tour.toObject() as TourRecord, 'create', author);
+  return tour;
+}
+
+interface SaveOptions {
+  action?: Extract<TourRevisionAction, 'update' | 'restore'>;
+  // Revision the editor loaded; a save based on an older one is rejected. Defaults to the current one
+  expectedRevision?: number;
+  restoredFrom?: number;
+  // Unset fields the payload leaves out, so a restore drops fields added later
+  replace?: boolean;
+}
+
+/**
+ * Apply an admin edit and record it as the next revision. Rejects with 409
+ * when the tour was saved by someone else after the editor loaded it; the
+ * update only applies while the tour is still at the expected revision. When
+ * the departures are rewritten, it also only applies while their seat
+ * counters are as read, and is retried when a booking changed them.
+ */
+export async function updateTourWithRevision(
+  idOrSlug: string,
+  payload: Record<string, unknown>,
+  author: TourRevisionAuthor,
+  options: SaveOptions = {}
+): Promise<TourRecord> {
+  let expectedRevision = options.expectedRevision;
+
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+    const existing = await findTour(idOrSlug);
+    // Tours saved before revisions were recorded are at the baseline, revision 1
+    expectedRevision ??= existing.revision ?? 1;
+    if (expectedRevision !== (existing.revision ?? 1)) {
+      throw new TourRevisionError(STALE_MESSAGE, 409);
+    }
+    const previous = toTourSnapshot(existing as Record<string, unknown>);
+    const currentRevision = await ensureBaseline(existing, previous);
+
+    const fields = editableFields(payload);
+    const departures = fields.departureDates;
+    if (Array.isArray(departures)) {
+      fields.departureDates = mergeDepartureInventory(existing.departureDates, departures);
+    }
+    const update: Record<string, unknown> = { $set: { ...fields, revision: currentRevision + 1 } };
+    if (options.replace) {
+      const dropped = Object.keys(previous).filter((key) => !(key in fields));
+      if (dropped.length) update.$unset = Object.fromEntries(dropped.map((key) => [key, 1]));
+    }
+
+    const updated = await Tour.findOneAndUpdate(
+      {
+        _id: existing._id,
+        revision: expectedRevision === 1 ? { $in: [1, null] } : expectedRevision,
+        ...(Array.isArray(departures) && departureCountersUnchanged(existing.departureDates)),
+      },
+      update,
+      { new: true, runValidators: true }
+    ).lean<TourRecord>().exec();
+    if (updated) {
+      await recordRevision(updated, options.action ?? 'update', author, previous, options.restoredFrom);
+      return updated;
+    }
+    // Either someone saved the tour, caught on the next read, or a booking moved the counters
+  }
+
+  throw new TourRevisionError('Seat inventory is busy, please try again.', 503);
+}
+
+export async function listTourRevisions(idOrSlug: string): Promise<ITourRevision[]> {
+  const tour = await findTour(idOrSlug);
+  return TourRevision.find({ tourId: tour._id })
+    .select('-snapshot')
+    .sort({ revision: -1 })
+    .lean<ITourRevision[]>()
+    .exec();
+}
+
+export async function getTourRevision(idOrSlug: string, revision: number): Promise<ITourRevision> {
+  const tour = await findTour(idOrSlug);
+  const found = await TourRevision.findOne({ tourId: tour._id, revision }).lean<ITourRevision>().exec();
+  if (!found) throw new TourRevisionError(`Revision ${revision} not found`, 404);
+  return found;
+}
+
+export async function diffTourRevisions(idOrSlug: string, from: number, to: number): Promise<TourRevisionDiff> {
+  const [before, after] = await Promise.all([getTourRevision(idOrSlug, from), getTourRevision(idOrSlug, to)]);
+  return { from, to, changes: diffTourSnapshots(before.snapshot, after.snapshot) };
+}
+
+/**
+ * Make an earlier revision the current tour again. The restore itself becomes
+ * a new revision, so it can be undone the same way.
+ */
+export async function restoreTourRevision(
+  idOrSlug: string,
+  revision: number,
+  author: TourRevisionAuthor
+): Promise<TourRecord> {
+  const target = await getTourRevision(idOrSlug, revision);
+  return updateTourWithRevision(idOrSlug, target.snapshot, author, {
+    action: 'restore',
+    restoredFrom: revision,
+    replace: true,
+  });
+}
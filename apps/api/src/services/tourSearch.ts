@@ -0,0 +1,450 @@
+import mongoose from 'mongoose';
+import Tour from '../models/Tour';
+import Country from '../models/Country';
+import { AppError } from '../middleware/errorHandler';
+import { PUBLIC_TOUR_FILTER } from './tourPublishing';
+import { escapeRegex } from '../utils/regex';
+
+/**
+ * Tour Search Service
+ * Faceted search over published tours: filters, sorting, keyset (cursor)
+ * pagination and facet counts in a single aggregation, plus typeahead
+ * suggestions over tour titles, cities and countries.
+ */
+
+export type TourSearchSort = 'newest' | 'price_asc' | 'price_desc' | 'duration_asc' | 'duration_desc' | 'title';
+
+export interface TourSearchParams {
+  q?: string;
+  countries: string[];
+  continents: string[];
+  lines: string[];
+  months: string[]; // YYYY-MM of an upcoming departure
+  minDays?: number;
+  maxDays?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  onSale: boolean;
+  guaranteed: boolean;
+  sort: TourSearchSort;
+  limit: number;
+  cursor?: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface RangeFacetCount {
+  min: number;
+  max: number | null; // Exclusive; null for the open-ended top bucket
+  count: number;
+}
+
+export interface TourSearchFacets {
+  lines: FacetCount[];
+  countries: FacetCount[];
+  continents: FacetCount[];
+  months: FacetCount[];
+  durations: RangeFacetCount[];
+  prices: RangeFacetCount[];
+  onSale: number;
+  guaranteed: number;
+}
+
+export interface TourSearchResult {
+  tours: Array<Record<string, unknown>>;
+  total: number;
+  nextCursor: string | null;
+  facets: TourSearchFacets;
+}
+
+export interface TourSuggestion {
+  type: 'tour' | 'city' | 'country';
+  label: string;
+  slug?: string;     // tours only
+  subtitle?: string; // countries of a tour, or "N tours"
+}
+
+export class TourSearchError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'TourSearchError';
+  }
+}
+
+const SORTS: TourSearchSort[] = ['newest', 'price_asc', 'price_desc', 'duration_asc', 'duration_desc', 'title'];
+const DEFAULT_LIMIT = 12;
+const MAX_LIMIT = 50;
+const MAX_SUGGESTIONS = 8;
+// Lower bounds of the duration (days) and per-person price (PHP) buckets
+const DURATION_BOUNDARIES = [1, 8, 13, 17];
+const PRICE_BOUNDARIES = [0, 100000, 150000, 200000, 250000, 300000];
+
+const exactIgnoreCase = (value: string) => new RegExp(`^${escapeRegex(value)}$`, 'i');
+
+function toList(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return Array.from(new Set(raw.map((entry) => String(entry).trim()).filter(Boolean)));
+}
+
+function toNumber(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new TourSearchError(`${field} must be a non-negative number`);
+  }
+  return number;
+}
+
+const toFlag = (value: unknown) => value === 'true' || value === '1' || value === true;
+
+/**
+ * Read search parameters from a query string. Lists accept repeated keys or
+ * comma-separated values; `countries` is also accepted as `country`.
+ */
+export function parseTourSearchQuery(query: Record<string, unknown>): TourSearchParams {
+  const months = toList(query.month);
+  const invalidMonth = months.find((month) => !/^\d{4}-(0[1-9]|1[0-2])$/.test(month));
+  if (invalidMonth) throw new TourSearchError(`month must be YYYY-MM, got "${invalidMonth}"`);
+
+  const sort = (typeof query.sort === 'string' && query.sort) || 'newest';
+  if (!SORTS.includes(sort as TourSearchSort)) {
+    throw new TourSearchError(`sort must be one of: ${SORTS.join(', ')}`);
+  }
+
+  const limit = toNumber(query.limit, 'limit') ?? DEFAULT_LIMIT;
+  const params: TourSearchParams = {
+    q: typeof query.q === 'string' && query.q.trim() ? query.q.trim() : undefined,
+    countries: toList(query.countries ?? query.country),
+    continents: toList(query.continent),
+    lines: toList(query.line),
+    months,
+    minDays: toNumber(query.minDays, 'minDays'),
+    maxDays: toNumber(query.maxDays, 'maxDays'),
+    minPrice: toNumber(query.minPrice, 'minPrice'),
+    maxPrice: toNumber(query.maxPrice, 'maxPrice'),
+    onSale: toFlag(query.onSale),
+    guaranteed: toFlag(query.guaranteed),
+    sort: sort as TourSearchSort,
+    limit: Math.min(Math.max(Math.floor(limit), 1), MAX_LIMIT),
+    cursor: typeof query.cursor === 'string' && query.cursor ? query.cursor : undefined,
+  };
+  if (params.minDays !== undefined && params.maxDays !== undefined && params.minDays > params.maxDays) {
+    throw new TourSearchError('minDays cannot be greater than maxDays');
+  }
+  if (params.minPrice !== undefined && params.maxPrice !== undefined && params.minPrice > params.maxPrice) {
+    throw new TourSearchError('minPrice cannot be greater than maxPrice');
+  }
+  return params;
+}
+
+// Countries a tour visits, from its country list and its stops
+const TOUR_COUNTRIES = {
+  $setUnion: [{ $ifNull: ['$additionalInfo.countriesVisited', []] }, { $ifNull: ['$fullStops.country', []] }],
+};
+
+// isSaleActive from pricingService as an aggregation expression
+function saleActiveExpression(now: Date) {
+  const saleEnd = { $convert: { input: '$saleEndDate', to: 'date', onError: null, onNull: null } };
+  return {
+    $and: [
+      { $eq: ['$isSaleEnabled', true] },
+      { $or: [{ $in: [{ $ifNull: ['$saleEndDate', ''] }, ['']] }, { $gt: [saleEnd, now] }] },
+    ],
+  };
+}
+
+// Same precedence as resolveBasePrice in pricingService, without a departure override
+const EFFECTIVE_PRICE = {
+  $switch: {
+    branches: [
+      { case: { $and: ['$saleActive', { $isNumber: '$promoPricePerPerson' }] }, then: '$promoPricePerPerson' },
+      { case: { $isNumber: '$regularPricePerPerson' }, then: '$regularPricePerPerson' },
+      { case: { $isNumber: '$promoPricePerPerson' }, then: '$promoPricePerPerson' },
+    ],
+    default: {
+      $round: [{ $multiply: [{ $ifNull: ['$basePricePerDay', 0] }, { $ifNull: ['$durationDays', 0] }] }, 0],
+    },
+  },
+};
+
+const SORT_FIELDS: Record<TourSearchSort, { field: string; direction: 1 | -1 }> = {
+  newest: { field: 'createdAt', direction: -1 },
+  price_asc: { field: 'effectivePrice', direction: 1 },
+  price_desc: { field: 'effectivePrice', direction: -1 },
+  duration_asc: { field: 'durationDays', direction: 1 },
+  duration_desc: { field: 'durationDays', direction: -1 },
+  title: { field: 'title', direction: 1 },
+};
+
+interface CursorPayload {
+  v: string | number;
+  id: string;
+  d?: boolean; // v is an ISO date
+}
+
+function encodeCursor(value: unknown, id: unknown): string {
+  const payload: CursorPayload = value instanceof Date
+    ? { v: value.toISOString(), id: String(id), d: true }
+    : { v: value as string | number, id: String(id) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function cursorMatch(cursor: string, sort: TourSearchSort) {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new TourSearchError('Invalid cursor');
+  }
+  if (!payload || !mongoose.isValidObjectId(payload.id)) throw new TourSearchError('Invalid cursor');
+
+  const { direction } = SORT_FIELDS[sort];
+  const value = payload.d ? new Date(payload.v) : payload.v;
+  const id = new mongoose.Types.ObjectId(payload.id);
+  const op = direction === 1 ? '$gt' : '$lt';
+  return { $or: [{ sortValue: { [op]: value } }, { sortValue: value, _id: { [op]: id } }] };
+}
+
+async function countryNamesForContinents(continents: string[]): Promise<string[]> {
+  if (continents.length === 0) return [];
+  // @ts-expect-error - Mongoose model type complexity issue
+  const countries: Array<{ name: string }> = await Country.find({
+    isActive: true,
+    continent: { $in: continents.map(exactIgnoreCase) },
+  }).select('name -_id').lean();
+  return countries.map((country) => country.name);
+}
+
+type FilterKey = 'text' | 'countries' | 'continents' | 'lines' | 'months' | 'duration' | 'price' | 'onSale' | 'guaranteed';
+
+/**
+ * One $match per filter, so each facet can be counted with every filter
+ * except its own (selecting "Italy" still shows how many tours visit France).
+ */
+async function buildFilters(params: TourSearchParams, now: Date): Promise<Partial<Record<FilterKey, Record<string, unknown>>>> {
+  const filters: Partial<Record<FilterKey, Record<string, unknown>>> = {};
+  if (params.q) {
+    const pattern = new RegExp(escapeRegex(params.q), 'i');
+    filters.text = {
+      $or: [
+        { title: pattern },
+        { summary: pattern },
+        { countries: pattern },
+        { 'fullStops.city': pattern },
+        { 'additionalInfo.citiesToVisit.city': pattern },
+      ],
+    };
+  }
+  if (params.countries.length) {
+    filters.countries = { countries: { $in: params.countries.map(exactIgnoreCase) } };
+  }
+  if (params.continents.length) {
+    const names = await countryNamesForContinents(params.continents);
+    filters.continents = { countries: { $in: names.map(exactIgnoreCase) } };
+  }
+  if (params.lines.length) {
+    filters.lines = { line: { $in: params.lines.map(exactIgnoreCase) } };
+  }
+  if (params.months.length) {
+    const today = now.toISOString().slice(0, 10);
+    filters.months = {
+      departureDates: {
+        $elemMatch: {
+          start: { $gte: today, $in: params.months.map((month) => new RegExp(`^${month}`)) },
+          isAvailable: { $ne: false },
+        },
+      },
+    };
+  }
+  if (params.minDays !== undefined || params.maxDays !== undefined) {
+    filters.duration = {
+      durationDays: {
+        ...(params.minDays !== undefined && { $gte: params.minDays }),
+        ...(params.maxDays !== undefined && { $lte: params.maxDays }),
+      },
+    };
+  }
+  if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+    filters.price = {
+      effectivePrice: {
+        ...(params.minPrice !== undefined && { $gte: params.minPrice }),
+        ...(params.maxPrice !== undefined && { $lte: params.maxPrice }),
+      },
+    };
+  }
+  if (params.onSale) filters.onSale = { saleActive: true };
+  if (params.guaranteed) filters.guaranteed = { guaranteedDeparture: true };
+  return filters;
+}
+
+function matchExcept(filters: Partial<Record<FilterKey, Record<string, unknown>>>, ...skip: FilterKey[]) {
+  const stages = (Object.keys(filters) as FilterKey[])
+    .filter((key) => !skip.includes(key))
+    .map((key) => filters[key] as Record<string, unknown>);
+  return { $match: stages.length ? { $and: stages } : {} };
+}
+
+const byCount = (a: FacetCount, b: FacetCount) => b.count - a.count || a.value.localeCompare(b.value);
+
+// $bucket stage over the given lower bounds; values below the first land in "other"
+const bucketStage = (groupBy: string, boundaries: number[]) => ({
+  $bucket: { groupBy, boundaries: [...boundaries, Number.MAX_SAFE_INTEGER], default: 'other' },
+});
+
+function toRangeFacet(buckets: Array<{ _id: number | string; count: number }>, boundaries: number[]): RangeFacetCount[] {
+  return boundaries
+    .map((min, i) => ({
+      min,
+      max: boundaries[i + 1] ?? null,
+      count: buckets.find((bucket) => bucket._id === min)?.count ?? 0,
+    }))
+    .filter((bucket) => bucket.count > 0);
+}
+
+/**
+ * Search published tours. Facets are computed over the whole match, not just
+ * the returned page.
+ */
+export async function searchTours(params: TourSearchParams, now: Date = new Date()): Promise<TourSearchResult> {
+  const filters = await buildFilters(params, now);
+  const { field, direction } = SORT_FIELDS[params.sort];
+  const today = now.toISOString().slice(0, 10);
+
+  const [result] = await Tour.aggregate([
+    { $match: PUBLIC_TOUR_FILTER },
+    { $addFields: { saleActive: saleActiveExpression(now), countries: TOUR_COUNTRIES } },
+    { $addFields: { effectivePrice: EFFECTIVE_PRICE, sortValue: { $ifNull: [`$${field}`, ''] } } },
+    {
+      $facet: {
+        results: [
+          matchExcept(filters),
+          ...(params.cursor ? [{ $match: cursorMatch(params.cursor, params.sort) }] : []),
+          { $sort: { sortValue: direction, _id: direction } },
+          { $limit: params.limit + 1 },
+          { $project: { itinerary: 0, countries: 0, sortValue: 0 } },
+        ],
+        total: [matchExcept(filters), { $count: 'count' }],
+        lines: [
+          matchExcept(filters, 'lines'),
+          { $match: { line: { $nin: [null, ''] } } },
+          { $group: { _id: '$line', count: { $sum: 1 } } },
+        ],
+        countries: [
+          matchExcept(filters, 'countries'),
+          { $unwind: '$countries' },
+          { $group: { _id: '$countries', count: { $sum: 1 } } },
+        ],
+        // Continents are resolved from country names after the query
+        continentCountries: [matchExcept(filters, 'continents'), { $project: { _id: 0, countries: 1 } }],
+        months: [
+          matchExcept(filters, 'months'),
+          { $unwind: '$departureDates' },
+          { $match: { 'departureDates.start': { $gte: today }, 'departureDates.isAvailable': { $ne: false } } },
+          { $group: { _id: { tour: '$_id', month: { $substrCP: ['$departureDates.start', 0, 7] } } } },
+          { $group: { _id: '$_id.month', count: { $sum: 1 } } },
+        ],
+        durations: [matchExcept(filters, 'duration'), bucketStage('$durationDays', DURATION_BOUNDARIES)],
+        prices: [matchExcept(filters, 'price'), bucketStage('$effectivePrice', PRICE_BOUNDARIES)],
+        onSale: [matchExcept(filters, 'onSale'), { $match: { saleActive: true } }, { $count: 'count' }],
+        guaranteed: [matchExcept(filters, 'guaranteed'), { $match: { guaranteedDeparture: true } }, { $count: 'count' }],
+      },
+    },
+  ]).exec();
+
+  const rows = result.results as Array<Record<string, unknown>>;
+  const hasMore = rows.length > params.limit;
+  const page = hasMore ? rows.slice(0, params.limit) : rows;
+  const last = page[page.length - 1];
+
+  const continents = await continentFacet(result.continentCountries as Array<{ countries: string[] }>);
+  const toFacet = (entries: Array<{ _id: string; count: number }>) =>
+    entries.map((entry) => ({ value: entry._id, count: entry.count })).sort(byCount);
+
+  return {
+    tours: page.map((tour) => ({ ...tour, id: String(tour._id) })),
+    total: result.total[0]?.count ?? 0,
+    nextCursor: hasMore && last ? encodeCursor(last[field] ?? '', last._id) : null,
+    facets: {
+      lines: toFacet(result.lines),
+      countries: toFacet(result.countries),
+      continents,
+      months: toFacet(result.months).sort((a, b) => a.value.localeCompare(b.value)),
+      durations: toRangeFacet(result.durations, DURATION_BOUNDARIES),
+      prices: toRangeFacet(result.prices, PRICE_BOUNDARIES),
+      onSale: result.onSale[0]?.count ?? 0,
+      guaranteed: result.guaranteed[0]?.count ?? 0,
+    },
+  };
+}
+
+async function continentFacet(tours: Array<{ countries: string[] }>): Promise<FacetCount[]> {
+  // @ts-expect-error - Mongoose model type complexity issue
+  const countries: Array<{ name: string; continent?: string }> = await Country.find({
+    isActive: true,
+    continent: { $nin: [null, ''] },
+  }).select('name continent -_id').lean();
+  const continentOf = new Map(countries.map((country) => [country.name.toLowerCase(), country.continent as string]));
+
+  const counts = new Map<string, number>();
+  for (const tour of tours) {
+    const tourContinents = new Set(
+      (tour.countries ?? []).map((name) => continentOf.get(String(name).toLowerCase())).filter(Boolean) as string[]
+    );
+    tourContinents.forEach((continent) => counts.set(continent, (counts.get(continent) ?? 0) + 1));
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(byCount);
+}
+
+/**
+ * Typeahead suggestions for a partial query (at least 2 characters): matching
+ * tours first, then countries and cities with how many tours visit them.
+ */
+export async function suggestTours(q: string, limit: number = MAX_SUGGESTIONS): Promise<TourSuggestion[]> {
+  const text = q.trim();
+  if (text.length < 2) return [];
+  const pattern = new RegExp(escapeRegex(text), 'i');
+  const max = Math.min(Math.max(Math.floor(limit) || MAX_SUGGESTIONS, 1), MAX_SUGGESTIONS * 2);
+
+  const tours = await Tour.aggregate<{ title: string; slug: string; countries: string[]; cities: string[] }>([
+    { $match: PUBLIC_TOUR_FILTER },
+    {
+      $project: {
+        title: 1,
+        slug: 1,
+        countries: TOUR_COUNTRIES,
+        cities: {
+          $setUnion: [{ $ifNull: ['$fullStops.city', []] }, { $ifNull: ['$additionalInfo.citiesToVisit.city', []] }],
+        },
+      },
+    },
+    { $match: { $or: [{ title: pattern }, { countries: pattern }, { cities: pattern }] } },
+  ]).exec();
+
+  const countryCounts = new Map<string, number>();
+  const cityCounts = new Map<string, number>();
+  const count = (map: Map<string, number>, values: string[]) =>
+    values.filter((value) => typeof value === 'string' && pattern.test(value))
+      .forEach((value) => map.set(value, (map.get(value) ?? 0) + 1));
+
+  const suggestions: TourSuggestion[] = [];
+  for (const tour of tours) {
+    if (pattern.test(tour.title)) {
+      suggestions.push({ type: 'tour', label: tour.title, slug: tour.slug, subtitle: (tour.countries ?? []).join(', ') || undefined });
+    }
+    count(countryCounts, tour.countries ?? []);
+    count(cityCounts, tour.cities ?? []);
+  }
+
+  // Names starting with the query rank above ones that merely contain it
+  const starts = (label: string) => (label.toLowerCase().startsWith(text.toLowerCase()) ? 0 : 1);
+  const ranked = (map: Map<string, number>, type: 'country' | 'city'): TourSuggestion[] =>
+    Array.from(map, ([label, n]) => ({ label, n }))
+      .sort((a, b) => starts(a.label) - starts(b.label) || b.n - a.n || a.label.localeCompare(b.label))
+      .map(({ label, n }) => ({ type, label, subtitle: `${n} tour${n === 1 ? '' : 's'}` }));
+
+  suggestions.sort((a, b) => starts(a.label) - starts(b.label) || a.label.localeCompare(b.label));
+  return [...ranked(countryCounts, 'country'), ...suggestions, ...ranked(cityCounts, 'city')].slice(0, max);
+}
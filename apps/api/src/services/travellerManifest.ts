@@ -0,0 +1,225 @@
+import Booking, { IBooking, ITraveller, RoomSharing } from '../models/Booking';
+import Tour from '../models/Tour';
+import { AppError } from '../middleware/errorHandler';
+import { normalizeBookingStatus } from './bookingStatus';
+import { parseDepartureStart } from './seatInventory';
+import { evaluateBookingVisaReadiness, visaReadinessUpdate } from './visa-readiness';
+
+/**
+ * Traveller Manifest Service
+ * Validates the per-passenger traveller list on a booking, re-scores visa
+ * readiness for each traveller when it changes, and assembles the departure
+ * manifest the operations team prints before a group leaves.
+ */
+
+const ROOM_SHARING: RoomSharing[] = ['single', 'twin', 'double', 'triple', 'any'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Bookings that will not travel are left off the manifest
+const NON_TRAVELLING_STATUSES = ['cancelled', 'refunded'];
+
+export class TravellerManifestError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'TravellerManifestError';
+  }
+}
+
+function optionalText(value: unknown, maxLength = 200): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text ? text.slice(0, maxLength) : undefined;
+}
+
+function optionalDate(value: unknown, field: string, index: number): string | undefined {
+  const text = optionalText(value, 10);
+  if (!text) return undefined;
+  if (!DATE_PATTERN.test(text) || Number.isNaN(new Date(text).getTime())) {
+    throw new TravellerManifestError(`Traveller ${index + 1}: ${field} must be a YYYY-MM-DD date`);
+  }
+  return text;
+}
+
+/**
+ * Validate a submitted traveller list. Unknown fields and any client-sent
+ * readiness are dropped; the first traveller is the lead unless one is marked.
+ */
+export function sanitizeTravellers(input: unknown, maxTravellers?: number): ITraveller[] {
+  if (input === undefined || input === null) return [];
+  if (!Array.isArray(input)) {
+    throw new TravellerManifestError('travellers must be an array');
+  }
+  if (maxTravellers !== undefined && input.length > maxTravellers) {
+    throw new TravellerManifestError(`A booking for ${maxTravellers} passenger(s) cannot list ${input.length} travellers`);
+  }
+
+  const travellers = input.map((raw, index): ITraveller => {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    const fullName = optionalText(item.fullName, 120);
+    if (!fullName) {
+      throw new TravellerManifestError(`Traveller ${index + 1}: fullName is required`);
+    }
+
+    const roomSharing = optionalText(item.roomSharing, 20) as RoomSharing | undefined;
+    if (roomSharing && !ROOM_SHARING.includes(roomSharing)) {
+      throw new TravellerManifestError(`Traveller ${index + 1}: roomSharing must be one of ${ROOM_SHARING.join(', ')}`);
+    }
+
+    return {
+      fullName,
+      nationality: optionalText(item.nationality, 80)?.toLowerCase(),
+      passportNumber: optionalText(item.passportNumber, 20)?.toUpperCase(),
+      passportExpiry: optionalDate(item.passportExpiry, 'passportExpiry', index),
+      dateOfBirth: optionalDate(item.dateOfBirth, 'dateOfBirth', index),
+      roomSharing: roomSharing ?? 'any',
+      roomSharingWith: optionalText(item.roomSharingWith, 120),
+      dietaryNeeds: optionalText(item.dietaryNeeds, 500),
+      isLead: item.isLead === true,
+    };
+  });
+
+  if (travellers.length > 0 && !travellers.some((t) => t.isLead)) {
+    travellers[0].isLead = true;
+  }
+  return travellers;
+}
+
+/**
+ * Replace a booking's traveller list and re-evaluate visa readiness for each
+ * traveller. Returns null when the booking does not exist.
+ */
+export async function updateBookingTravellers(bookingId: string, input: unknown): Promise<IBooking | null> {
+  const booking = await Booking.findOne({ bookingId });
+  if (!booking) return null;
+
+  const travellers = sanitizeTravellers(input, booking.passengers);
+  const set: Record<string, unknown> = { travellers };
+
+  const result = await evaluateBookingVisaReadiness({
+    tourSlug: booking.tourSlug,
+    selectedDate: booking.selectedDate,
+    nationality: booking.nationality,
+    customerPassport: booking.customerPassport,
+    visaDocumentsProvided: booking.visaDocumentsProvided,
+    travellers,
+  });
+  if (result) Object.assign(set, visaReadinessUpdate(result));
+
+  return Booking.findOneAndUpdate({ bookingId }, { $set: set }, { new: true });
+}
+
+export interface ManifestFilter {
+  tourSlug?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ManifestTraveller extends ITraveller {
+  bookingId: string;
+  bookingStatus: string;
+  contactName: string;
+  contactEmail: string;
+  contactPhone?: string;
+}
+
+export interface DepartureManifest {
+  departureDate: string;
+  selectedDate: string;
+  tourSlug: string;
+  tourTitle: string;
+  bookingCount: number;
+  passengerCount: number;
+  travellers: ManifestTraveller[];
+  // Passengers paid for but not yet named on their booking
+  missingTravellerDetails: number;
+  notReadyCount: number;
+}
+
+/**
+ * Travellers of every booking that will travel, grouped by tour and departure
+ * date (earliest first). Defaults to departures from today onwards.
+ */
+export async function buildDepartureManifest(filter: ManifestFilter = {}): Promise<DepartureManifest[]> {
+  const from = filter.from || new Date().toISOString().slice(0, 10);
+  const to = filter.to;
+  if (!DATE_PATTERN.test(from) || (to && !DATE_PATTERN.test(to))) {
+    throw new TravellerManifestError('from and to must be YYYY-MM-DD dates');
+  }
+
+  const query: Record<string, unknown> = {
+    archived: { $ne: true },
+    status: { $nin: NON_TRAVELLING_STATUSES },
+    tourSlug: { $exists: true, $ne: null },
+  };
+  if (filter.tourSlug) query.tourSlug = filter.tourSlug;
+
+  const bookings = await Booking.find(query)
+    .select('bookingId status tourSlug selectedDate passengers customerName customerEmail customerPhone nationality customerPassport travellers visaReadinessSnapshot')
+    .lean()
+    .exec();
+
+  const groups = new Map<string, DepartureManifest>();
+  for (const booking of bookings) {
+    if (NON_TRAVELLING_STATUSES.includes(normalizeBookingStatus(booking.status))) continue;
+    const departureDate = parseDepartureStart(booking.selectedDate);
+    if (departureDate < from || (to && departureDate > to)) continue;
+
+    const key = `${booking.tourSlug}|${departureDate}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        departureDate,
+        selectedDate: booking.selectedDate,
+        tourSlug: booking.tourSlug as string,
+        tourTitle: booking.tourSlug as string,
+        bookingCount: 0,
+        passengerCount: 0,
+        travellers: [],
+        missingTravellerDetails: 0,
+        notReadyCount: 0,
+      };
+      groups.set(key, group);
+    }
+
+    const contact = {
+      bookingId: booking.bookingId,
+      bookingStatus: normalizeBookingStatus(booking.status),
+      contactName: booking.customerName,
+      contactEmail: booking.customerEmail,
+      contactPhone: booking.customerPhone,
+    };
+    // Older bookings have no traveller list; show the lead booker so the row is not lost
+    const travellers: ITraveller[] = booking.travellers?.length
+      ? booking.travellers
+      : [{
+          fullName: booking.customerName,
+          nationality: booking.nationality,
+          isLead: true,
+          visaReadiness: booking.visaReadinessSnapshot,
+        }];
+
+    group.bookingCount += 1;
+    group.passengerCount += booking.passengers;
+    group.missingTravellerDetails += Math.max(0, booking.passengers - (booking.travellers?.length ?? 0));
+    travellers.forEach((traveller) => {
+      group!.travellers.push({ ...traveller, ...contact });
+      if (traveller.visaReadiness?.status === 'not_ready') group!.notReadyCount += 1;
+    });
+  }
+
+  const manifests = Array.from(groups.values());
+  const slugs = Array.from(new Set(manifests.map((m) => m.tourSlug)));
+  const tours = await Tour.find({ slug: { $in: slugs } }).select('slug title').lean().exec();
+  const titles = new Map(tours.map((tour) => [tour.slug, tour.title]));
+
+  manifests.forEach((manifest) => {
+    manifest.tourTitle = titles.get(manifest.tourSlug) || manifest.tourSlug;
+    manifest.travellers.sort((a, b) =>
+      a.bookingId.localeCompare(b.bookingId) || Number(Boolean(b.isLead)) - Number(Boolean(a.isLead))
+    );
+  });
+
+  return manifests.sort((a, b) =>
+    a.departureDate.localeCompare(b.departureDate) || a.tourTitle.localeCompare(b.tourTitle)
+  );
+}
@@ -1,12 +1,27 @@
+import Booking, { IBooking, ITraveller } from '../models/Booking';
 import Tour from '../models/Tour';
+import VisaRule, { IVisaDocumentRequirement, IVisaRule, VisaRequirement } from '../models/VisaRule';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { escapeRegex } from '../utils/regex';
+import { normalizeBookingStatus } from './bookingStatus';
+import { parseDepartureStart } from './seatInventory';
 
-export type VisaRequirement = 'required' | 'not_required' | 'evisa';
+export type { VisaRequirement };
 
 export interface CountryVisaRule {
   country: string;
   passportValidityMonths: number;
   visaRequirement: VisaRequirement;
   visaLeadDays: number;
+  // True when the country is only a stopover on the itinerary
+  transit: boolean;
+  source: 'rule' | 'home' | 'default';
+  ruleId?: string;
+  sourceNote?: string;
+  validUntil?: string;
+  // From the stored rule; empty when the rule does not list its documents
+  requiredDocuments?: IVisaDocumentRequirement[];
 }
 
 export interface VisaReadinessInput {
@@ -29,11 +44,14 @@ export interface VisaReadinessIssue {
 }
 
 export interface VisaReadinessRuleSummary {
+  nationality: string;
   countries: string[];
+  transitCountries: string[];
   strictestPassportValidityMonths: number;
   strictestVisaLeadDays: number;
   visaRequiredCountries: string[];
   evisaCountries: string[];
+  transitVisaRequiredCountries: string[];
 }
 
 export interface VisaReadinessResult {
@@ -46,13 +64,19 @@ export interface VisaReadinessResult {
   evaluatedAt: string;
 }
 
-const DEFAULT_RULE: Omit<CountryVisaRule, 'country'> = {
+// Nationality assumed for bookings made before it was collected
+export const DEFAULT_NATIONALITY = 'philippines';
+
+// Used when no rule exists for a nationality/destination pair
+const DEFAULT_RULE: Pick<CountryVisaRule, 'passportValidityMonths' | 'visaRequirement' | 'visaLeadDays'> = {
   passportValidityMonths: 6,
   visaRequirement: 'required',
   visaLeadDays: 21,
 };
 
-const NORMALIZED_COUNTRY_RULES: Record<string, Omit<CountryVisaRule, 'country'>> = {
+// Starting rules for Philippine passport holders, written to the database
+// on first start. Edit them through /admin/visa-rules afterwards.
+const SEED_RULES: Record<string, Pick<IVisaRule, 'passportValidityMonths' | 'visaRequirement' | 'visaLeadDays'>> = {
   france: { passportValidityMonths: 6, visaRequirement: 'required', visaLeadDays: 21 },
   italy: { passportValidityMonths: 6, visaRequirement: 'required', visaLeadDays: 21 },
   spain: { passportValidityMonths: 6, visaRequirement: 'required', visaLeadDays: 21 },
@@ -69,7 +93,19 @@ const NORMALIZED_COUNTRY_RULES: Record<string, Omit<CountryVisaRule, 'country'>>
   philippines: { passportValidityMonths: 6, visaRequirement: 'not_required', visaLeadDays: 0 },
 };
 
-const normalizeCountryKey = (value: string): string => value.trim().toLowerCase();
+// Bookings in these statuses no longer need their readiness kept current
+const SETTLED_STATUSES = ['completed', 'cancelled', 'refunded'];
+
+const VISA_REQUIREMENTS: VisaRequirement[] = ['required', 'not_required', 'evisa'];
+
+export class VisaRuleError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'VisaRuleError';
+  }
+}
+
+export const normalizeCountryKey = (value: string): string => value.trim().toLowerCase();
 
 const addMonths = (date: Date, months: number): Date => {
   const out = new Date(date.getTime());
@@ -77,31 +113,122 @@ const addMonths = (date: Date, months: number): Date => {
   return out;
 };
 
-export async function resolveTourCountries(tourSlug: string): Promise<string[]> {
+const dedupeCountries = (values: unknown[]): string[] => {
+  const seen = new Map<string, string>();
+  values
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .forEach((item) => {
+      const key = normalizeCountryKey(item);
+      if (!seen.has(key)) seen.set(key, item.trim());
+    });
+  return Array.from(seen.values());
+};
+
+/**
+ * Insert the starter rule set when the collection is empty. Called once at
+ * server startup — safe to re-run.
+ */
+export async function seedVisaRules(): Promise<void> {
+  try {
+    if (await VisaRule.estimatedDocumentCount() > 0) return;
+
+    await VisaRule.insertMany(Object.entries(SEED_RULES).map(([destination, rule]) => ({
+      nationality: DEFAULT_NATIONALITY,
+      destination,
+      ...rule,
+      sourceNote: 'Initial rule set carried over from the built-in table',
+    })));
+    logger.info(`✅ Seeded ${Object.keys(SEED_RULES).length} visa rules for ${DEFAULT_NATIONALITY} passport holders`);
+  } catch (error) {
+    logger.warn(`⚠️  seedVisaRules warning: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Countries a tour visits, plus transit countries: stops in fullStops whose
+ * country is not one of the visited countries (e.g. a layover hub).
+ */
+export async function resolveTourItinerary(tourSlug: string): Promise<{ countries: string[]; transitCountries: string[] }> {
   const tour = await Tour.findOne({ slug: tourSlug }).lean().exec();
   if (!tour) {
-    return [];
+    return { countries: [], transitCountries: [] };
   }
 
   const additionalInfo = (tour as { additionalInfo?: { countriesVisited?: unknown } }).additionalInfo;
-  const countriesVisited = Array.isArray(additionalInfo?.countriesVisited)
-    ? additionalInfo?.countriesVisited
-    : [];
+  const countries = dedupeCountries(Array.isArray(additionalInfo?.countriesVisited) ? additionalInfo.countriesVisited : []);
 
-  const normalizedCountries = countriesVisited
-    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
-    .map((item) => item.trim());
+  const visited = new Set(countries.map(normalizeCountryKey));
+  const transitCountries = dedupeCountries((tour.fullStops || []).map((stop) => stop.country))
+    .filter((country) => !visited.has(normalizeCountryKey(country)));
 
-  return Array.from(new Set(normalizedCountries));
+  return { countries, transitCountries };
 }
 
-export function resolveRulesForCountries(countries: string[]): CountryVisaRule[] {
-  return countries.map((country) => {
-    const rule = NORMALIZED_COUNTRY_RULES[normalizeCountryKey(country)] || DEFAULT_RULE;
-    return {
-      country,
-      ...rule,
-    };
+export async function resolveTourCountries(tourSlug: string): Promise<string[]> {
+  const { countries } = await resolveTourItinerary(tourSlug);
+  return countries;
+}
+
+/**
+ * Rules in effect on `onDate` for each country. A dated rule beats an
+ * open-ended one for the same pair; pairs without a rule fall back to no
+ * requirements for the traveller's own country and DEFAULT_RULE elsewhere.
+ */
+export async function resolveRulesForCountries(
+  countries: string[],
+  nationality: string = DEFAULT_NATIONALITY,
+  onDate: Date = new Date(),
+  transitCountries: string[] = []
+): Promise<CountryVisaRule[]> {
+  const nationalityKey = normalizeCountryKey(nationality || DEFAULT_NATIONALITY);
+  const all = [
+    ...countries.map((country) => ({ country, transit: false })),
+    ...transitCountries.map((country) => ({ country, transit: true })),
+  ];
+  if (all.length === 0) return [];
+
+  const stored = await VisaRule.find({
+    nationality: nationalityKey,
+    destination: { $in: all.map(({ country }) => normalizeCountryKey(country)) },
+    $and: [
+      { $or: [{ validFrom: null }, { validFrom: { $lte: onDate } }] },
+      { $or: [{ validUntil: null }, { validUntil: { $gte: onDate } }] },
+    ],
+  }).sort({ validFrom: -1 }).lean().exec();
+
+  const byDestination = new Map<string, (typeof stored)[number]>();
+  stored.forEach((rule) => {
+    if (!byDestination.has(rule.destination)) byDestination.set(rule.destination, rule);
+  });
+
+  return all.map(({ country, transit }) => {
+    const key = normalizeCountryKey(country);
+    const rule = byDestination.get(key);
+
+    if (rule) {
+      const transitVisa = transit ? rule.transitVisaRequired : undefined;
+      return {
+        country,
+        transit,
+        source: 'rule' as const,
+        ruleId: String(rule._id),
+        sourceNote: rule.sourceNote,
+        validUntil: rule.validUntil ? new Date(rule.validUntil).toISOString() : undefined,
+        passportValidityMonths: rule.passportValidityMonths,
+        visaRequirement: transit ? (transitVisa ? 'required' : 'not_required') : rule.visaRequirement,
+        visaLeadDays: transit && !transitVisa ? 0 : rule.visaLeadDays,
+        requiredDocuments: rule.requiredDocuments ?? [],
+      };
+    }
+
+    if (key === nationalityKey) {
+      return { country, transit, source: 'home' as const, passportValidityMonths: 0, visaRequirement: 'not_required' as const, visaLeadDays: 0 };
+    }
+
+    // Without a rule a stopover is assumed visa-free; evaluation flags it for checking
+    return transit
+      ? { country, transit, source: 'default' as const, passportValidityMonths: DEFAULT_RULE.passportValidityMonths, visaRequirement: 'not_required' as const, visaLeadDays: 0 }
+      : { country, transit, source: 'default' as const, ...DEFAULT_RULE };
   });
 }
 
@@ -109,8 +236,14 @@ export async function evaluateVisaReadiness(input: VisaReadinessInput): Promise<
   const departureDate = new Date(input.departureDate);
   const today = new Date();
 
-  const countries = await resolveTourCountries(input.tourSlug);
-  const rules = resolveRulesForCountries(countries);
+  const nationality = normalizeCountryKey(input.nationality || DEFAULT_NATIONALITY);
+  const { countries, transitCountries } = await resolveTourItinerary(input.tourSlug);
+  const rules = await resolveRulesForCountries(
+    countries,
+    nationality,
+    Number.isNaN(departureDate.getTime()) ? today : departureDate,
+    transitCountries
+  );
 
   const strictestPassportValidityMonths = rules.length > 0
     ? Math.max(...rules.map((rule) => rule.passportValidityMonths))
@@ -121,11 +254,19 @@ export async function evaluateVisaReadiness(input: VisaReadinessInput): Promise<
     : DEFAULT_RULE.visaLeadDays;
 
   const visaRequiredCountries = rules
-    .filter((rule) => rule.visaRequirement === 'required')
+    .filter((rule) => !rule.transit && rule.visaRequirement === 'required')
     .map((rule) => rule.country);
 
   const evisaCountries = rules
-    .filter((rule) => rule.visaRequirement === 'evisa')
+    .filter((rule) => !rule.transit && rule.visaRequirement === 'evisa')
+    .map((rule) => rule.country);
+
+  const transitVisaRequiredCountries = rules
+    .filter((rule) => rule.transit && rule.visaRequirement === 'required')
+    .map((rule) => rule.country);
+
+  const uncheckedTransitCountries = rules
+    .filter((rule) => rule.transit && rule.source === 'default')
     .map((rule) => rule.country);
 
   let score = 100;
@@ -172,6 +313,24 @@ export async function evaluateVisaReadiness(input: VisaReadinessInput): Promise<
     score -= 60;
   }
 
+  if (transitVisaRequiredCountries.length > 0 && !hasVisaDoc) {
+    blockers.push({
+      code: 'TRANSIT_VISA_REQUIRED',
+      message: `Transit visa required for: ${transitVisaRequiredCountries.join(', ')}.`,
+      level: 'high',
+    });
+    score -= 40;
+  }
+
+  if (uncheckedTransitCountries.length > 0) {
+    warnings.push({
+      code: 'TRANSIT_RULE_UNKNOWN',
+      message: `No transit rule on file for: ${uncheckedTransitCountries.join(', ')}. Confirm transit requirements before travel.`,
+      level: 'low',
+    });
+    score -= 5;
+  }
+
   if (evisaCountries.length > 0 && !hasVisaDoc) {
     warnings.push({
       code: 'EVISA_RECOMMENDED',
@@ -216,6 +375,9 @@ export async function evaluateVisaReadiness(input: VisaReadinessInput): Promise<
   if (blockers.some((b) => b.code === 'VISA_REQUIRED_MISSING')) {
     nextActions.push('Start visa application for required destinations before payment confirmation.');
   }
+  if (blockers.some((b) => b.code === 'TRANSIT_VISA_REQUIRED')) {
+    nextActions.push('Apply for transit visas for stopover countries, or ask us about an alternative routing.');
+  }
   if (warnings.some((w) => w.code === 'SHORT_LEAD_TIME')) {
     nextActions.push('Use priority processing or choose a later departure date if possible.');
   }
@@ -233,12 +395,302 @@ export async function evaluateVisaReadiness(input: VisaReadinessInput): Promise<
     warnings,
     nextActions,
     ruleSummary: {
+      nationality,
       countries,
+      transitCountries,
       strictestPassportValidityMonths,
       strictestVisaLeadDays,
       visaRequiredCountries,
       evisaCountries,
+      transitVisaRequiredCountries,
     },
     evaluatedAt: new Date().toISOString(),
   };
 }
+
+type BookingReadinessFields = Pick<
+  IBooking,
+  'tourSlug' | 'selectedDate' | 'nationality' | 'customerPassport' | 'visaDocumentsProvided' | 'travellers'
+>;
+
+export interface BookingVisaReadiness {
+  // Booking-level result: the least ready traveller, or the lead booker when
+  // no traveller list was given
+  readiness: VisaReadinessResult;
+  travellers: ITraveller[];
+}
+
+function evaluateForBooking(
+  booking: BookingReadinessFields,
+  nationality: string | undefined,
+  passportExpiryDate: string | undefined,
+  hasPassport: boolean
+): Promise<VisaReadinessResult> {
+  return evaluateVisaReadiness({
+    tourSlug: booking.tourSlug as string,
+    departureDate: parseDepartureStart(booking.selectedDate),
+    nationality: nationality || booking.nationality || DEFAULT_NATIONALITY,
+    passportExpiryDate,
+    documents: {
+      hasPassport,
+      hasVisa: Boolean(booking.visaDocumentsProvided),
+      hasSupportingDocuments: Boolean(booking.visaDocumentsProvided),
+    },
+  });
+}
+
+/**
+ * Evaluate readiness from what a booking stores: one evaluation per traveller
+ * using their own nationality and passport expiry. Bookings without a
+ * traveller list fall back to the lead booker, where customerPassport doubles
+ * as the passport expiry date.
+ */
+export async function evaluateBookingVisaReadiness(booking: BookingReadinessFields): Promise<BookingVisaReadiness | null> {
+  if (!booking.tourSlug || !booking.selectedDate) return null;
+
+  const travellers = booking.travellers ?? [];
+  if (travellers.length === 0) {
+    const readiness = await evaluateForBooking(
+      booking,
+      undefined,
+      booking.customerPassport || undefined,
+      Boolean(booking.customerPassport)
+    );
+    return { readiness, travellers: [] };
+  }
+
+  const evaluated: ITraveller[] = [];
+  for (const traveller of travellers) {
+    const visaReadiness = await evaluateForBooking(
+      booking,
+      traveller.nationality,
+      traveller.passportExpiry || undefined,
+      Boolean(traveller.passportNumber)
+    );
+    evaluated.push({ ...traveller, visaReadiness });
+  }
+
+  const readiness = evaluated
+    .map((traveller) => traveller.visaReadiness as VisaReadinessResult)
+    .reduce((worst, next) => (next.score < worst.score ? next : worst));
+  return { readiness, travellers: evaluated };
+}
+
+// Fields to $set on a booking after evaluateBookingVisaReadiness
+export function visaReadinessUpdate(result: BookingVisaReadiness): Record<string, unknown> {
+  const update: Record<string, unknown> = {
+    visaReadinessScore: result.readiness.score,
+    visaReadinessStatus: result.readiness.status,
+    visaReadinessSnapshot: result.readiness,
+  };
+  if (result.travellers.length > 0) update.travellers = result.travellers;
+  return update;
+}
+
+/**
+ * Refresh the stored readiness of upcoming bookings a rule change can affect:
+ * the booking or one of its travellers holds that nationality, and the
+ * destination is visited or transited. Returns the number re-evaluated.
+ */
+export async function reevaluateBookingsForRule(nationality: string, destination: string): Promise<number> {
+  const nationalityKey = normalizeCountryKey(nationality);
+  const destinationPattern = new RegExp(`^${escapeRegex(normalizeCountryKey(destination))}$`, 'i');
+
+  const bookings = await Booking.find({
+    archived: { $ne: true },
+    tourSlug: { $exists: true, $ne: null },
+    status: { $nin: SETTLED_STATUSES },
+    $and: [
+      {
+        $or: [
+          nationalityKey === DEFAULT_NATIONALITY
+            ? { nationality: { $in: [null, nationalityKey] } }
+            : { nationality: nationalityKey },
+          { 'travellers.nationality': nationalityKey },
+        ],
+      },
+      {
+        $or: [
+          { 'visaReadinessSnapshot.ruleSummary.countries': destinationPattern },
+          { 'visaReadinessSnapshot.ruleSummary.transitCountries': destinationPattern },
+        ],
+      },
+    ],
+  }).select('bookingId status tourSlug selectedDate nationality customerPassport visaDocumentsProvided travellers').lean().exec();
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  let updated = 0;
+
+  for (const booking of bookings) {
+    if (SETTLED_STATUSES.includes(normalizeBookingStatus(booking.status))) continue;
+    const departure = new Date(parseDepartureStart(booking.selectedDate));
+    if (!Number.isNaN(departure.getTime()) && departure < today) continue;
+
+    try {
+      const result = await evaluateBookingVisaReadiness(booking);
+      if (!result) continue;
+      await Booking.updateOne({ _id: booking._id }, { $set: visaReadinessUpdate(result) }).exec();
+      updated += 1;
+    } catch (error) {
+      logger.warn(`[VisaReadiness] Could not re-evaluate booking ${booking.bookingId}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  logger.info(`[VisaReadiness] Re-evaluated ${updated} booking(s) after rule change for ${nationalityKey} → ${normalizeCountryKey(destination)}`);
+  return updated;
+}
+
+// ── Rule administration ──────────────────────────────────────────────────────
+
+export interface VisaRuleFilter {
+  nationality?: string;
+  destination?: string;
+}
+
+export type VisaRuleInput = Partial<Pick<IVisaRule,
+  | 'nationality'
+  | 'destination'
+  | 'visaRequirement'
+  | 'passportValidityMonths'
+  | 'visaLeadDays'
+  | 'transitVisaRequired'
+  | 'sourceNote'
+  | 'sourceUrl'
+>> & {
+  validFrom?: string | Date | null;
+  validUntil?: string | Date | null;
+  requiredDocuments?: unknown;
+};
+
+function parseOptionalDate(value: unknown, field: string): Date | null {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new VisaRuleError(`${field} must be a valid date`);
+  }
+  return date;
+}
+
+function parseNonNegative(value: unknown, field: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new VisaRuleError(`${field} must be zero or a positive number`);
+  }
+  return Math.floor(parsed);
+}
+
+// "Bank statement (6 months)" -> "bank_statement_6_months"
+const toDocumentKey = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60);
+
+function parseRequiredDocuments(value: unknown): IVisaDocumentRequirement[] {
+  if (!Array.isArray(value)) throw new VisaRuleError('requiredDocuments must be a list');
+  const documents: IVisaDocumentRequirement[] = [];
+  for (const item of value) {
+    const { key, label, description } = (item ?? {}) as Record<string, unknown>;
+    if (typeof label !== 'string' || !label.trim()) {
+      throw new VisaRuleError('Every required document needs a label');
+    }
+    const documentKey = toDocumentKey(typeof key === 'string' && key.trim() ? key : label);
+    if (!documentKey) throw new VisaRuleError(`"${label}" cannot be used as a document name`);
+    if (documents.some((doc) => doc.key === documentKey)) {
+      throw new VisaRuleError(`"${label}" is listed twice`);
+    }
+    documents.push({
+      key: documentKey,
+      label: label.trim(),
+      description: typeof description === 'string' && description.trim() ? description.trim() : undefined,
+    });
+  }
+  return documents;
+}
+
+// Validates a full rule; `current` supplies fields an update leaves out
+function buildRuleFields(input: VisaRuleInput, current?: IVisaRule) {
+  const nationality = normalizeCountryKey(String(input.nationality ?? current?.nationality ?? ''));
+  const destination = normalizeCountryKey(String(input.destination ?? current?.destination ?? ''));
+  if (!nationality) throw new VisaRuleError('nationality is required');
+  if (!destination) throw new VisaRuleError('destination is required');
+
+  const visaRequirement = input.visaRequirement ?? current?.visaRequirement;
+  if (!VISA_REQUIREMENTS.includes(visaRequirement as VisaRequirement)) {
+    throw new VisaRuleError(`visaRequirement must be one of ${VISA_REQUIREMENTS.join(', ')}`);
+  }
+
+  const validFrom = 'validFrom' in input ? parseOptionalDate(input.validFrom, 'validFrom') : current?.validFrom ?? null;
+  const validUntil = 'validUntil' in input ? parseOptionalDate(input.validUntil, 'validUntil') : current?.validUntil ?? null;
+  if (validFrom && validUntil && validUntil < validFrom) {
+    throw new VisaRuleError('validUntil must be on or after validFrom');
+  }
+
+  return {
+    nationality,
+    destination,
+    visaRequirement,
+    passportValidityMonths: parseNonNegative(
+      input.passportValidityMonths ?? current?.passportValidityMonths ?? DEFAULT_RULE.passportValidityMonths,
+      'passportValidityMonths'
+    ),
+    visaLeadDays: parseNonNegative(input.visaLeadDays ?? current?.visaLeadDays ?? 0, 'visaLeadDays'),
+    transitVisaRequired: Boolean(input.transitVisaRequired ?? current?.transitVisaRequired ?? false),
+    requiredDocuments: input.requiredDocuments !== undefined
+      ? parseRequiredDocuments(input.requiredDocuments)
+      : current?.requiredDocuments ?? [],
+    validFrom,
+    validUntil,
+    sourceNote: input.sourceNote ?? current?.sourceNote,
+    sourceUrl: input.sourceUrl ?? current?.sourceUrl,
+  };
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+}
+
+export async function listVisaRules(filter: VisaRuleFilter = {}): Promise<IVisaRule[]> {
+  const query: Record<string, unknown> = {};
+  if (filter.nationality) query.nationality = normalizeCountryKey(filter.nationality);
+  if (filter.destination) query.destination = normalizeCountryKey(filter.destination);
+  return VisaRule.find(query).sort({ nationality: 1, destination: 1, validFrom: -1 }).exec();
+}
+
+export async function createVisaRule(input: VisaRuleInput, updatedBy?: string): Promise<IVisaRule> {
+  try {
+    return await VisaRule.create({ ...buildRuleFields(input), updatedBy });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new VisaRuleError('A rule for this nationality and destination already starts on that date', 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the updated rule and the pair it covered before the change, so
+ * bookings under the old pair can be re-evaluated too.
+ */
+export async function updateVisaRule(
+  id: string,
+  input: VisaRuleInput,
+  updatedBy?: string
+): Promise<{ rule: IVisaRule; previous: Pick<IVisaRule, 'nationality' | 'destination'> } | null> {
+  const rule = await VisaRule.findById(id).exec();
+  if (!rule) return null;
+
+  const previous = { nationality: rule.nationality, destination: rule.destination };
+  rule.set({ ...buildRuleFields(input, rule), updatedBy });
+  try {
+    await rule.save();
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new VisaRuleError('A rule for this nationality and destination already starts on that date', 409);
+    }
+    throw error;
+  }
+  return { rule, previous };
+}
+
+export async function deleteVisaRule(id: string): Promise<IVisaRule | null> {
+  return VisaRule.findByIdAndDelete(id).exec();
+}
@@ -0,0 +1,378 @@
+import Booking from '../models/Booking';
+import User from '../models/User';
+import VisaApplication, {
+  IEmbassyAppointment,
+  IVisaApplication,
+  IVisaChecklistItem,
+  VisaApplicationStatus,
+} from '../models/VisaApplication';
+import { IVisaDocumentRequirement, VisaRequirement } from '../models/VisaRule';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { customerEmailMatch, ownershipFilter } from './customerTrips';
+import { isOwnTravelDocument } from './documentStorage';
+import { sendVisaStatusEmail } from './emailService';
+import { DEFAULT_NATIONALITY, normalizeCountryKey, resolveRulesForCountries, resolveTourItinerary } from './visa-readiness';
+
+/**
+ * Visa Applications
+ * The processing workflow for a visa application. Each application carries a
+ * document checklist built from the visa rules of its destinations; the
+ * customer uploads each item from My Trips and staff accept or reject it.
+ * Status changes go through changeVisaStatus, which checks the move against
+ * the allowed transitions and emails the applicant.
+ *
+ *   pending → under_review ⇄ documents_requested
+ *   under_review → approved → completed
+ *   any open application → rejected → under_review (reopened)
+ */
+
+export const VISA_APPLICATION_STATUSES: VisaApplicationStatus[] = [
+  'pending',
+  'under_review',
+  'documents_requested',
+  'approved',
+  'rejected',
+  'completed',
+];
+
+const TRANSITIONS: Record<VisaApplicationStatus, VisaApplicationStatus[]> = {
+  pending: ['under_review', 'documents_requested', 'rejected'],
+  under_review: ['documents_requested', 'approved', 'rejected'],
+  documents_requested: ['under_review', 'rejected'],
+  approved: ['completed'],
+  rejected: ['under_review'],
+  completed: [],
+};
+
+// Used when the visa rule for a destination does not list its documents
+const PASSPORT: IVisaDocumentRequirement = {
+  key: 'passport',
+  label: 'Passport',
+  description: 'Scan of the photo page, valid for at least 6 months after your return',
+};
+const PHOTO: IVisaDocumentRequirement = {
+  key: 'photo',
+  label: 'Passport photo',
+  description: 'White background, taken within the last 6 months',
+};
+const DEFAULT_DOCUMENTS: Record<VisaRequirement, IVisaDocumentRequirement[]> = {
+  required: [
+    PASSPORT,
+    PHOTO,
+    { key: 'bank_statement', label: 'Bank statement', description: 'Last 6 months, with the bank\'s stamp or certification' },
+    { key: 'employment_certificate', label: 'Certificate of employment', description: 'Showing position, salary and approved leave' },
+    { key: 'income_tax_return', label: 'Income tax return (ITR)', description: 'Latest year' },
+  ],
+  evisa: [PASSPORT, PHOTO],
+  not_required: [PASSPORT],
+};
+
+// Admin-only fields the customer does not see
+const CUSTOMER_PROJECTION = '-notes -assignedTo -assignedToName -assignedAt -checklist.reviewedBy';
+
+export class VisaApplicationError extends AppError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+    this.name = 'VisaApplicationError';
+  }
+}
+
+export function isVisaApplicationStatus(value: unknown): value is VisaApplicationStatus {
+  return typeof value === 'string' && (VISA_APPLICATION_STATUSES as string[]).includes(value);
+}
+
+export function getAllowedVisaTransitions(status?: string | null): VisaApplicationStatus[] {
+  return isVisaApplicationStatus(status) ? TRANSITIONS[status] : [];
+}
+
+// Plain object for admin responses, with the statuses it can move to
+export function toAdminVisaApplication(application: IVisaApplication): Record<string, unknown> {
+  return { ...application.toObject(), allowedTransitions: getAllowedVisaTransitions(application.status) };
+}
+
+// "Italy, France and Spain" -> ['Italy', 'France', 'Spain']
+function splitCountries(value?: string): string[] {
+  return (value || '')
+    .split(/[,;/]|\band\b|&/i)
+    .map((country) => country.trim())
+    .filter(Boolean);
+}
+
+export interface VisaChecklistSource {
+  destinationCountries?: string;
+  bookingId?: string;
+  nationality?: string;
+}
+
+/**
+ * Documents the application needs, merged across its destinations. Countries
+ * come from destinationCountries, or from the booked tour when that is blank.
+ * Items already on `existing` keep their upload and review; items that are no
+ * longer needed are dropped unless a file was uploaded for them.
+ */
+export async function buildVisaChecklist(
+  source: VisaChecklistSource,
+  existing: IVisaChecklistItem[] = []
+): Promise<IVisaChecklistItem[]> {
+  let countries = splitCountries(source.destinationCountries);
+  let transitCountries: string[] = [];
+  let nationality = source.nationality;
+
+  if (source.bookingId && (countries.length === 0 || !nationality)) {
+    const booking = await Booking.findOne({ bookingId: source.bookingId }).select('tourSlug nationality').lean().exec();
+    nationality = nationality || booking?.nationality;
+    if (countries.length === 0 && booking?.tourSlug) {
+      ({ countries, transitCountries } = await resolveTourItinerary(booking.tourSlug));
+    }
+  }
+
+  const rules = await resolveRulesForCountries(countries, nationality || DEFAULT_NATIONALITY, new Date(), transitCountries);
+  const byKey = new Map<string, IVisaChecklistItem>();
+  for (const rule of rules) {
+    if (rule.source === 'home' || (rule.transit && rule.visaRequirement === 'not_required')) continue;
+    const documents = rule.requiredDocuments?.length ? rule.requiredDocuments : DEFAULT_DOCUMENTS[rule.visaRequirement];
+    for (const document of documents) {
+      const item = byKey.get(document.key);
+      if (item) {
+        if (!item.countries.includes(rule.country)) item.countries.push(rule.country);
+        continue;
+      }
+      byKey.set(document.key, {
+        key: document.key,
+        label: document.label,
+        description: document.description,
+        countries: [rule.country],
+        status: 'missing',
+      });
+    }
+  }
+
+  const previous = new Map(existing.map((item) => [item.key, item]));
+  const checklist = Array.from(byKey.values()).map((item) => {
+    const prior = previous.get(item.key);
+    if (!prior) return item;
+    return {
+      ...item,
+      status: prior.status,
+      fileUrl: prior.fileUrl,
+      uploadedAt: prior.uploadedAt,
+      reviewedAt: prior.reviewedAt,
+      reviewedBy: prior.reviewedBy,
+      rejectionReason: prior.rejectionReason,
+    };
+  });
+  const kept = existing.filter((item) => !byKey.has(item.key) && item.fileUrl);
+  return [...checklist, ...kept];
+}
+
+// Checklist for a new application; never holds up the application itself
+export async function initialVisaChecklist(source: VisaChecklistSource): Promise<IVisaChecklistItem[]> {
+  try {
+    return await buildVisaChecklist(source);
+  } catch (error) {
+    logger.warn(`⚠️  Visa checklist could not be built: ${error instanceof Error ? error.message : error}`);
+    return [];
+  }
+}
+
+async function findApplication(id: string): Promise<IVisaApplication> {
+  const application = await VisaApplication.findById(id).exec();
+  if (!application) throw new VisaApplicationError('Visa application not found', 404);
+  return application;
+}
+
+function findItem(application: IVisaApplication, itemKey: string): IVisaChecklistItem {
+  const item = application.checklist.find((entry) => entry.key === itemKey);
+  if (!item) throw new VisaApplicationError('Checklist item not found', 404);
+  return item;
+}
+
+async function notifyApplicant(application: IVisaApplication, note?: string): Promise<void> {
+  if (!application.emailAddress) return;
+  const result = await sendVisaStatusEmail(application, note);
+  if (!result.success) {
+    logger.warn(`⚠️  Visa status email for ${application.applicationId} failed: ${result.error}`);
+  }
+}
+
+async function moveTo(application: IVisaApplication, status: VisaApplicationStatus, note?: string): Promise<void> {
+  application.status = status;
+  await application.save();
+  await notifyApplicant(application, note);
+}
+
+// Rebuild the checklist after the destinations or the visa rules changed
+export async function refreshVisaChecklist(id: string): Promise<IVisaApplication> {
+  const application = await findApplication(id);
+  application.checklist = await buildVisaChecklist(application, application.checklist);
+  await application.save();
+  return application;
+}
+
+/**
+ * Move an application to a new status and email the applicant. `note` is
+ * included in the email.
+ */
+export async function changeVisaStatus(id: string, status: unknown, note?: string): Promise<IVisaApplication> {
+  const application = await findApplication(id);
+  if (!isVisaApplicationStatus(status)) {
+    throw new VisaApplicationError(`status must be one of: ${VISA_APPLICATION_STATUSES.join(', ')}`);
+  }
+  if (!getAllowedVisaTransitions(application.status).includes(status)) {
+    throw new VisaApplicationError(`Cannot change visa application status from "${application.status}" to "${status}".`, 409);
+  }
+
+  await moveTo(application, status, note);
+  return application;
+}
+
+/**
+ * Accept or reject an uploaded checklist document. Rejecting asks the
+ * applicant for a new copy, moving an application under review to
+ * documents_requested.
+ */
+export async function reviewChecklistItem(
+  id: string,
+  itemKey: string,
+  decision: unknown,
+  reason: unknown,
+  reviewedBy: string
+): Promise<IVisaApplication> {
+  if (decision !== 'accepted' && decision !== 'rejected') {
+    throw new VisaApplicationError('decision must be accepted or rejected');
+  }
+  const rejectionReason = typeof reason === 'string' ? reason.trim() : '';
+  if (decision === 'rejected' && !rejectionReason) {
+    throw new VisaApplicationError('Give a reason so the applicant knows what to fix');
+  }
+
+  const application = await findApplication(id);
+  const item = findItem(application, itemKey);
+  if (!item.fileUrl) throw new VisaApplicationError('Nothing has been uploaded for this document yet', 409);
+
+  item.status = decision;
+  item.reviewedAt = new Date();
+  item.reviewedBy = reviewedBy;
+  item.rejectionReason = decision === 'rejected' ? rejectionReason : undefined;
+
+  if (decision === 'rejected' && getAllowedVisaTransitions(application.status).includes('documents_requested')) {
+    await moveTo(application, 'documents_requested');
+  } else {
+    await application.save();
+  }
+  return application;
+}
+
+function optionalText(value: unknown, field: string, max = 200): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.trim().length > max) {
+    throw new VisaApplicationError(`${field} must be text of at most ${max} characters`);
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Record the embassy or visa centre appointment, or clear it with null. A new
+ * or moved appointment is emailed to the applicant.
+ */
+export async function setEmbassyAppointment(id: string, input: unknown): Promise<IVisaApplication> {
+  const application = await findApplication(id);
+
+  if (input === null) {
+    application.embassyAppointment = undefined;
+    await application.save();
+    return application;
+  }
+
+  const { date, time, location, reference } = (input ?? {}) as Record<string, unknown>;
+  const parsed = typeof date === 'string' ? new Date(date) : undefined;
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    throw new VisaApplicationError('date must be a valid date');
+  }
+  const appointment: IEmbassyAppointment = {
+    date: parsed,
+    time: optionalText(time, 'time', 20),
+    location: optionalText(location, 'location'),
+    reference: optionalText(reference, 'reference', 60),
+  };
+
+  const previous = application.embassyAppointment;
+  application.embassyAppointment = appointment;
+  await application.save();
+
+  const moved = !previous
+    || previous.date.getTime() !== appointment.date.getTime()
+    || previous.time !== appointment.time
+    || previous.location !== appointment.location;
+  if (moved) await notifyApplicant(application);
+  return application;
+}
+
+// Applications made with the customer's verified address or for one of their bookings
+async function customerApplicationFilter(userId: string): Promise<Record<string, unknown>> {
+  const [user, bookingIds] = await Promise.all([
+    User.findById(userId).select('email isEmailVerified').lean().exec(),
+    Booking.find(await ownershipFilter(userId)).distinct('bookingId').exec(),
+  ]);
+  const owners: Record<string, unknown>[] = [{ bookingId: { $in: bookingIds } }];
+  if (user?.isEmailVerified) {
+    owners.push({ emailAddress: customerEmailMatch(user.email) });
+  }
+  return { $or: owners };
+}
+
+export async function listCustomerVisaApplications(userId: string): Promise<IVisaApplication[]> {
+  return VisaApplication.find(await customerApplicationFilter(userId))
+    .select(CUSTOMER_PROJECTION)
+    .sort({ createdAt: -1 })
+    .exec();
+}
+
+/**
+ * Attach a file uploaded via /api/upload/document to a checklist item on one
+ * of the customer's applications. Once every document is in, an application
+ * waiting on documents goes back under review.
+ */
+export async function attachVisaDocument(
+  userId: string,
+  applicationId: string,
+  itemKey: string,
+  url: unknown
+): Promise<IVisaApplication> {
+  if (!isOwnTravelDocument(url, userId)) {
+    throw new VisaApplicationError('Upload the file with the document upload first and send the URL it returned');
+  }
+
+  const application = await VisaApplication.findOne({ ...(await customerApplicationFilter(userId)), applicationId }).exec();
+  if (!application) throw new VisaApplicationError('Visa application not found', 404);
+  if (application.status === 'completed' || application.status === 'approved') {
+    throw new VisaApplicationError(`This application is ${application.status} and no longer takes documents.`, 409);
+  }
+
+  const item = findItem(application, itemKey);
+  if (item.status === 'accepted') {
+    throw new VisaApplicationError('This document has already been accepted', 409);
+  }
+  item.status = 'uploaded';
+  item.fileUrl = url;
+  item.uploadedAt = new Date();
+  item.reviewedAt = undefined;
+  item.reviewedBy = undefined;
+  item.rejectionReason = undefined;
+
+  const outstanding = application.checklist.some((entry) => entry.status === 'missing' || entry.status === 'rejected');
+  if (!outstanding && application.status === 'documents_requested') {
+    await moveTo(application, 'under_review');
+  } else {
+    await application.save();
+  }
+
+  const saved = await VisaApplication.findById(application._id).select(CUSTOMER_PROJECTION).exec();
+  return saved ?? application;
+}
+
+// Normalised nationality for a new application
+export function applicationNationality(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? normalizeCountryKey(value) : undefined;
+}
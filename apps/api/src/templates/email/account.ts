@@ -0,0 +1,165 @@
+import type { EmailTemplateDefinition } from './types';
+
+const VERIFICATION_STYLES = `
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #3b82f6, #8b5cf6); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+        .content { background: #f8fafc; padding: 30px; }
+        .verify-btn { display: inline-block; background: #3b82f6; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; margin: 20px 0; }
+`;
+
+const verificationHtml = (heading: string, body: string) => `<!DOCTYPE html>
+<html>
+<head>
+    <style>${VERIFICATION_STYLES}    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>✉️ ${heading}</h1>
+        </div>
+        <div class="content">
+${body}
+        </div>
+    </div>
+</body>
+</html>`;
+
+export const emailVerification: EmailTemplateDefinition = {
+  key: 'email_verification',
+  name: 'Email verification',
+  description: 'Sent after registration with the link that verifies the account email',
+  audience: 'customer',
+  variables: {
+    fullName: { type: 'string', description: 'Name the customer registered with' },
+    verificationUrl: { type: 'string', description: 'Verification link, valid for 24 hours' },
+  },
+  sample: {
+    fullName: 'Maria Santos',
+    verificationUrl: 'https://discover-grp.netlify.app/verify-email?token=sample-token',
+  },
+  defaults: {
+    en: {
+      subject: 'Verify Your Email - Discover Group',
+      html: verificationHtml('Verify Your Email', `            <p>Hello {{fullName}},</p>
+            <p>Thank you for registering with Discover Group! Please verify your email address:</p>
+            <div style="text-align: center;">
+                <a href="{{verificationUrl}}" class="verify-btn">Verify Email Address</a>
+            </div>
+            <p>This link will expire in 24 hours.</p>`),
+      text: `Hello {{fullName}},
+
+Please verify your email address by clicking this link:
+{{verificationUrl}}
+
+This link will expire in 24 hours.
+
+Best regards,
+The Discover Group Team`,
+    },
+    tl: {
+      subject: 'I-verify ang Iyong Email - Discover Group',
+      html: verificationHtml('I-verify ang Iyong Email', `            <p>Kumusta {{fullName}},</p>
+            <p>Salamat sa pagrehistro sa Discover Group! Pakiverify ang iyong email address:</p>
+            <div style="text-align: center;">
+                <a href="{{verificationUrl}}" class="verify-btn">I-verify ang Email</a>
+            </div>
+            <p>Mag-e-expire ang link na ito sa loob ng 24 oras.</p>`),
+      text: `Kumusta {{fullName}},
+
+Pakiverify ang iyong email address sa pag-click sa link na ito:
+{{verificationUrl}}
+
+Mag-e-expire ang link na ito sa loob ng 24 oras.
+
+Lubos na gumagalang,
+Ang Discover Group Team`,
+    },
+  },
+};
+
+const RESET_STYLES = `
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+        .container { background: #f5f5f5; border-radius: 8px; padding: 30px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center; }
+        .content { background: white; padding: 20px; border-radius: 0 0 8px 8px; }
+        .reset-btn { display: inline-block; padding: 12px 30px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; text-decoration: none; border-radius: 8px; margin: 20px 0; font-weight: bold; }
+        .reset-btn:hover { opacity: 0.9; }
+        .footer { margin-top: 20px; font-size: 12px; color: #666; border-top: 1px solid #eee; padding-top: 10px; }
+`;
+
+const resetHtml = (heading: string, body: string, footer: string) => `<style>${RESET_STYLES}</style>
+<div class="container">
+    <div class="header">
+        <h1>🔐 ${heading}</h1>
+    </div>
+    <div class="content">
+${body}
+    </div>
+    <div class="footer">
+        <p>${footer}</p>
+    </div>
+</div>`;
+
+export const passwordReset: EmailTemplateDefinition = {
+  key: 'password_reset',
+  name: 'Password reset',
+  description: 'Sent when a customer asks to reset a forgotten password',
+  audience: 'customer',
+  variables: {
+    fullName: { type: 'string', description: 'Name on the account' },
+    resetUrl: { type: 'string', description: 'Password reset link, valid for 1 hour' },
+  },
+  sample: {
+    fullName: 'Maria Santos',
+    resetUrl: 'https://discover-grp.netlify.app/reset-password?token=sample-token',
+  },
+  defaults: {
+    en: {
+      subject: 'Password Reset Request - Discover Group',
+      html: resetHtml('Password Reset', `        <p>Hello {{fullName}},</p>
+        <p>We received a request to reset your password. Click the button below to set a new password:</p>
+        <div style="text-align: center;">
+            <a href="{{resetUrl}}" class="reset-btn">Reset Password</a>
+        </div>
+        <p style="color: #666; font-size: 14px;">Or copy this link: <br><code>{{resetUrl}}</code></p>
+        <p style="color: #d32f2f;">This link will expire in 1 hour.</p>
+        <p style="color: #666;">If you didn't request a password reset, you can ignore this email.</p>`,
+      '© Discover Group. All rights reserved.'),
+      text: `Hello {{fullName}},
+
+We received a request to reset your password. Click the link below to set a new password:
+{{resetUrl}}
+
+This link will expire in 1 hour.
+
+If you didn't request a password reset, you can ignore this email.
+
+Best regards,
+The Discover Group Team`,
+    },
+    tl: {
+      subject: 'Kahilingang I-reset ang Password - Discover Group',
+      html: resetHtml('Pag-reset ng Password', `        <p>Kumusta {{fullName}},</p>
+        <p>Nakatanggap kami ng kahilingang i-reset ang iyong password. I-click ang button sa ibaba para magtakda ng bagong password:</p>
+        <div style="text-align: center;">
+            <a href="{{resetUrl}}" class="reset-btn">I-reset ang Password</a>
+        </div>
+        <p style="color: #666; font-size: 14px;">O kopyahin ang link na ito: <br><code>{{resetUrl}}</code></p>
+        <p style="color: #d32f2f;">Mag-e-expire ang link na ito sa loob ng 1 oras.</p>
+        <p style="color: #666;">Kung hindi ikaw ang humiling nito, maaari mong balewalain ang email na ito.</p>`,
+      '© Discover Group. Nakalaan ang lahat ng karapatan.'),
+      text: `Kumusta {{fullName}},
+
+Nakatanggap kami ng kahilingang i-reset ang iyong password. I-click ang link sa ibaba para magtakda ng bagong password:
+{{resetUrl}}
+
+Mag-e-expire ang link na ito sa loob ng 1 oras.
+
+Kung hindi ikaw ang humiling nito, maaari mong balewalain ang email na ito.
+
+Lubos na gumagalang,
+Ang Discover Group Team`,
+    },
+  },
+};
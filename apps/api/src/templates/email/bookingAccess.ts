@@ -0,0 +1,102 @@
+import type { EmailTemplateDefinition } from './types';
+
+const accessHtml = (copy: {
+  heading: string;
+  greeting: string;
+  intro: string;
+  labels: [string, string, string];
+  button: string;
+  expiry: string;
+  closing: string;
+}) => `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: #2563eb; color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 22px;">${copy.heading}</h1>
+  </div>
+  <div style="background: white; padding: 24px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+    <p>${copy.greeting}</p>
+    <p>${copy.intro}</p>
+    <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">
+      <tr><td style="padding: 6px 0; color: #666;">${copy.labels[0]}</td><td style="padding: 6px 0; text-align: right;"><strong>{{bookingId}}</strong></td></tr>
+      <tr><td style="padding: 6px 0; color: #666;">${copy.labels[1]}</td><td style="padding: 6px 0; text-align: right;">{{tourTitle}}</td></tr>
+      <tr><td style="padding: 6px 0; color: #666;">${copy.labels[2]}</td><td style="padding: 6px 0; text-align: right;">{{#if tourDate}}{{tourDate | date}}{{else}}—{{/if}}</td></tr>
+    </table>
+    <p style="text-align: center;">
+      <a href="{{accessUrl}}" style="display: inline-block; padding: 12px 28px; background: #2563eb; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">${copy.button}</a>
+    </p>
+    <p style="color: #d32f2f; font-size: 14px;">${copy.expiry}</p>
+    <p style="color: #666; font-size: 14px;">${copy.closing}</p>
+  </div>
+</body>
+</html>`;
+
+export const bookingAccess: EmailTemplateDefinition = {
+  key: 'booking_access',
+  name: 'Booking access link',
+  description: 'Sent when a guest uses "Find my booking"; the link opens the booking without an account',
+  audience: 'customer',
+  variables: {
+    bookingId: { type: 'string', description: 'Booking reference' },
+    customerName: { type: 'string', description: 'Full name of the lead passenger' },
+    tourTitle: { type: 'string', description: 'Tour name' },
+    tourDate: { type: 'date', description: 'Departure date or date range', optional: true },
+    accessUrl: { type: 'string', description: 'Link that opens the booking; anyone with it can view the booking' },
+    expiresInHours: { type: 'number', description: 'Hours until the link stops working' },
+  },
+  sample: {
+    bookingId: 'BK-20260314-0042',
+    customerName: 'Maria Santos',
+    tourTitle: 'Italy Highlights',
+    tourDate: '2026-05-03',
+    accessUrl: 'https://discover-grp.netlify.app/my-booking?token=sample-token',
+    expiresInHours: 24,
+  },
+  defaults: {
+    en: {
+      subject: 'Your booking {{bookingId}} - Discover Group',
+      html: accessHtml({
+        heading: 'View Your Booking',
+        greeting: 'Dear {{customerName}},',
+        intro: 'Here is the link you asked for to view your booking and upload your travel documents.',
+        labels: ['Booking ID', 'Tour', 'Departure'],
+        button: 'Open My Booking',
+        expiry: 'This link will expire in {{expiresInHours}} hours. Do not forward it: anyone with the link can see your booking.',
+        closing: 'If you did not ask for this link, you can ignore this email. Create an account with this email address to see all your bookings any time.',
+      }),
+      text: `Dear {{customerName}},
+
+Open booking {{bookingId}} ({{tourTitle}}) with this link:
+{{accessUrl}}
+
+This link will expire in {{expiresInHours}} hours. Do not forward it: anyone with the link can see your booking.
+
+If you did not ask for this link, you can ignore this email.
+
+The Discover Group Team`,
+    },
+    tl: {
+      subject: 'Ang iyong booking {{bookingId}} - Discover Group',
+      html: accessHtml({
+        heading: 'Tingnan ang Iyong Booking',
+        greeting: 'Mahal na {{customerName}},',
+        intro: 'Narito ang link na hiniling mo para makita ang iyong booking at mag-upload ng iyong mga dokumento sa paglalakbay.',
+        labels: ['Booking ID', 'Tour', 'Alis'],
+        button: 'Buksan ang Aking Booking',
+        expiry: 'Mag-e-expire ang link na ito sa loob ng {{expiresInHours}} oras. Huwag itong ipasa: makikita ng sinumang may link ang iyong booking.',
+        closing: 'Kung hindi ikaw ang humiling ng link na ito, maaari mong balewalain ang email na ito. Gumawa ng account gamit ang email address na ito para makita ang lahat ng iyong booking anumang oras.',
+      }),
+      text: `Mahal na {{customerName}},
+
+Buksan ang booking {{bookingId}} ({{tourTitle}}) gamit ang link na ito:
+{{accessUrl}}
+
+Mag-e-expire ang link na ito sa loob ng {{expiresInHours}} oras. Huwag itong ipasa: makikita ng sinumang may link ang iyong booking.
+
+Kung hindi ikaw ang humiling ng link na ito, maaari mong balewalain ang email na ito.
+
+Ang Discover Group Team`,
+    },
+  },
+};
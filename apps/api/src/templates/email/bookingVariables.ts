@@ -0,0 +1,107 @@
+import type { TemplateVariable } from './types';
+
+// Variables shared by every template rendered from a booking
+// (built by bookingTemplateData in services/emailService)
+export const BOOKING_VARIABLES: Record<string, TemplateVariable> = {
+  bookingId: { type: 'string', description: 'Booking reference, e.g. BK-20260314-0042' },
+  bookingUrl: { type: 'string', description: 'Link to the booking on the customer site' },
+  adminBookingUrl: { type: 'string', description: 'Link to the booking in the admin panel' },
+  customerName: { type: 'string', description: 'Full name of the lead passenger' },
+  customerEmail: { type: 'string', description: 'Customer email address' },
+  customerPhone: { type: 'string', description: 'Customer phone number', optional: true },
+  tourTitle: { type: 'string', description: 'Tour name' },
+  tourDate: { type: 'date', description: 'Departure date or date range; null until a date is chosen', optional: true },
+  passengers: { type: 'number', description: 'Number of passengers' },
+  singlePassenger: { type: 'boolean', description: 'True when there is exactly one passenger' },
+  pricePerPerson: { type: 'number', description: 'Tour price per person' },
+  totalAmount: { type: 'number', description: 'Total booking amount' },
+  isDownpaymentOnly: { type: 'boolean', description: 'True when the customer is paying a downpayment first' },
+  downpaymentAmount: { type: 'number', description: 'Downpayment amount', optional: true },
+  remainingBalance: { type: 'number', description: 'Balance left after the downpayment', optional: true },
+  paymentMethod: { type: 'string', description: 'Selected payment method', optional: true },
+  paymentMethodIcon: { type: 'string', description: 'Emoji shown next to the payment method' },
+  paymentMethodDescription: { type: 'string', description: 'Extra payment method details', optional: true },
+  paymentGateway: { type: 'string', description: 'Payment gateway name', optional: true },
+  hasAppointment: { type: 'boolean', description: 'True when an office appointment was booked' },
+  appointmentDate: { type: 'date', description: 'Office appointment date', optional: true },
+  appointmentTime: { type: 'string', description: 'Office appointment time', optional: true },
+  appointmentPurpose: { type: 'string', description: 'Appointment purpose, e.g. visa-consultation', optional: true },
+  hasAddOns: { type: 'boolean', description: 'True when any paid add-on was requested' },
+  visaAssistanceRequested: { type: 'boolean', description: 'Visa assistance was requested' },
+  visaAssistanceFee: { type: 'number', description: 'Visa assistance fee per person' },
+  visaAssistanceTotal: { type: 'number', description: 'Visa assistance fee for all passengers' },
+  visaPax: {
+    type: 'list',
+    description: 'Passengers needing visa assistance',
+    fields: {
+      name: { type: 'string', description: 'Passenger name' },
+      birthday: { type: 'string', description: 'Date of birth' },
+    },
+  },
+  travelInsuranceRequested: { type: 'boolean', description: 'Travel insurance was requested' },
+  travelInsuranceFee: { type: 'number', description: 'Travel insurance fee per person' },
+  travelInsuranceTotal: { type: 'number', description: 'Travel insurance fee for all passengers' },
+  insurancePax: {
+    type: 'list',
+    description: 'Insured passengers',
+    fields: {
+      name: { type: 'string', description: 'Passenger name' },
+      birthday: { type: 'string', description: 'Date of birth' },
+    },
+  },
+  passportAssistanceRequested: { type: 'boolean', description: 'Passport assistance was requested' },
+  passportAssistanceFee: { type: 'number', description: 'Passport assistance fee', optional: true },
+  perks: {
+    type: 'list',
+    description: 'Freebies and promo perks applied to the booking',
+    fields: {
+      label: { type: 'string', description: 'Perk name' },
+      discountTotal: { type: 'number', description: 'Discount for all passengers; 0 for included freebies' },
+      included: { type: 'boolean', description: 'True for freebies without a discount' },
+    },
+  },
+};
+
+export const BOOKING_SAMPLE: Record<string, unknown> = {
+  bookingId: 'BK-20260314-0042',
+  bookingUrl: 'https://discover-grp.netlify.app/booking-confirmation/BK-20260314-0042',
+  adminBookingUrl: 'https://admin.discovergrp.com/bookings/BK-20260314-0042',
+  customerName: 'Maria Santos',
+  customerEmail: 'maria.santos@example.com',
+  customerPhone: '+63 917 555 0101',
+  tourTitle: 'Italy Highlights',
+  tourDate: '2026-05-03',
+  passengers: 2,
+  singlePassenger: false,
+  pricePerPerson: 125000,
+  totalAmount: 264000,
+  isDownpaymentOnly: true,
+  downpaymentAmount: 50000,
+  remainingBalance: 214000,
+  paymentMethod: 'Bank Transfer',
+  paymentMethodIcon: '🏦',
+  paymentMethodDescription: 'BDO / BPI deposit',
+  paymentGateway: 'Manual',
+  hasAppointment: true,
+  appointmentDate: '2026-03-20',
+  appointmentTime: '10:00 AM',
+  appointmentPurpose: 'visa-consultation',
+  hasAddOns: true,
+  visaAssistanceRequested: true,
+  visaAssistanceFee: 10000,
+  visaAssistanceTotal: 20000,
+  visaPax: [
+    { name: 'Maria Santos', birthday: '1988-04-12' },
+    { name: 'Jose Santos', birthday: '1986-09-30' },
+  ],
+  travelInsuranceRequested: false,
+  travelInsuranceFee: 3000,
+  travelInsuranceTotal: 6000,
+  insurancePax: [],
+  passportAssistanceRequested: false,
+  passportAssistanceFee: null,
+  perks: [
+    { label: 'Free airport transfer', discountTotal: 0, included: true },
+    { label: 'Early bird promo', discountTotal: 6000, included: false },
+  ],
+};
@@ -0,0 +1,111 @@
+import type { EmailTemplateDefinition } from './types';
+
+const messageHtml = (copy: {
+  greeting: string;
+  intro: string;
+  attachments: string;
+  replyHint: string;
+  signOff: string;
+}) => `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: #2563eb; color: white; padding: 16px 20px; border-radius: 8px 8px 0 0;">
+    <h1 style="margin: 0; font-size: 20px;">Discover Group Travel</h1>
+    <p style="margin: 4px 0 0; font-size: 13px; opacity: 0.85;">{{reference}}</p>
+  </div>
+  <div style="background: white; padding: 24px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+    <p>${copy.greeting}</p>
+    <p>${copy.intro}</p>
+    <div style="white-space: pre-line; background: #f9fafb; border-left: 4px solid #2563eb; padding: 12px 16px; margin: 16px 0;">{{message}}</div>
+    {{#if attachments}}
+    <p style="margin-bottom: 4px;"><strong>${copy.attachments}</strong></p>
+    <ul style="margin-top: 0;">
+      {{#each attachments}}<li><a href="{{url}}" style="color: #2563eb;">{{name}}</a></li>{{/each}}
+    </ul>
+    {{/if}}
+    {{#if canReply}}<p style="color: #666; font-size: 14px;">${copy.replyHint}</p>{{/if}}
+    <p>${copy.signOff}<br>{{senderName}}</p>
+  </div>
+</body>
+</html>`;
+
+export const customerMessage: EmailTemplateDefinition = {
+  key: 'customer_message',
+  name: 'Message from staff',
+  description: 'A message a staff member writes to the customer from the activity feed of a booking or visa application',
+  audience: 'customer',
+  variables: {
+    customerName: { type: 'string', description: 'Customer name' },
+    reference: { type: 'string', description: 'What the message is about, e.g. "booking BK-1234"' },
+    message: { type: 'string', description: 'The message, as written by staff' },
+    senderName: { type: 'string', description: 'Staff member who wrote it' },
+    attachments: {
+      type: 'list',
+      description: 'Attached files; empty when none',
+      fields: {
+        name: { type: 'string', description: 'File name' },
+        url: { type: 'string', description: 'Download link' },
+      },
+    },
+    canReply: { type: 'boolean', description: 'Replies to this email are added to the conversation' },
+  },
+  sample: {
+    customerName: 'Maria Santos',
+    reference: 'booking BK-20260414-0012',
+    message: 'Hi Maria,\n\nYour hotel in Rome has been upgraded to a sea-view room at no extra cost.',
+    senderName: 'Ana Reyes',
+    attachments: [{ name: 'hotel-voucher.pdf', url: 'https://example.com/hotel-voucher.pdf' }],
+    canReply: true,
+  },
+  defaults: {
+    en: {
+      subject: 'A message about your {{reference}}',
+      html: messageHtml({
+        greeting: 'Dear {{customerName}},',
+        intro: 'Our team sent you a message:',
+        attachments: 'Attachments:',
+        replyHint: 'You can reply to this email directly; your answer goes straight to our team.',
+        signOff: 'Kind regards,',
+      }),
+      text: `Dear {{customerName}},
+
+Our team sent you a message about your {{reference}}:
+
+{{message}}
+{{#if attachments}}
+Attachments:
+{{#each attachments}}- {{name}}: {{url}}
+{{/each}}{{/if}}{{#if canReply}}
+You can reply to this email directly; your answer goes straight to our team.
+{{/if}}
+Kind regards,
+{{senderName}}
+The Discover Group Team`,
+    },
+    tl: {
+      subject: 'Mensahe tungkol sa iyong {{reference}}',
+      html: messageHtml({
+        greeting: 'Mahal na {{customerName}},',
+        intro: 'May mensahe para sa iyo ang aming team:',
+        attachments: 'Mga kalakip:',
+        replyHint: 'Maaari kang sumagot nang direkta sa email na ito; diretso ito sa aming team.',
+        signOff: 'Lubos na gumagalang,',
+      }),
+      text: `Mahal na {{customerName}},
+
+May mensahe para sa iyo ang aming team tungkol sa iyong {{reference}}:
+
+{{message}}
+{{#if attachments}}
+Mga kalakip:
+{{#each attachments}}- {{name}}: {{url}}
+{{/each}}{{/if}}{{#if canReply}}
+Maaari kang sumagot nang direkta sa email na ito; diretso ito sa aming team.
+{{/if}}
+Lubos na gumagalang,
+{{senderName}}
+Ang Discover Group Team`,
+    },
+  },
+};
@@ -0,0 +1,24 @@
+import type { EmailTemplateDefinition, EmailTemplateKey } from './types';
+import { bookingConfirmation } from './bookingConfirmation';
+import { salesNotification } from './salesNotification';
+import { emailVerification, passwordReset } from './account';
+import { installmentReminder } from './installmentReminder';
+import { bookingAccess } from './bookingAccess';
+import { visaStatusUpdate } from './visaStatusUpdate';
+import { customerMessage } from './customerMessage';
+import { staffActivityAlert } from './staffActivityAlert';
+
+export * from './types';
+
+// Every email the API sends; editable copies are stored as EmailTemplate versions
+export const EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  booking_confirmation: bookingConfirmation,
+  sales_notification: salesNotification,
+  email_verification: emailVerification,
+  password_reset: passwordReset,
+  installment_reminder: installmentReminder,
+  booking_access: bookingAccess,
+  visa_status_update: visaStatusUpdate,
+  customer_message: customerMessage,
+  staff_activity_alert: staffActivityAlert,
+};
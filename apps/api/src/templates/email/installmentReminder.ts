@@ -0,0 +1,106 @@
+import type { EmailTemplateDefinition } from './types';
+
+const ACCENT = '{{#if isOverdue}}#dc2626{{else}}#2563eb{{/if}}';
+
+const reminderHtml = (copy: {
+  heading: string;
+  greeting: string;
+  intro: string;
+  labels: [string, string, string, string, string];
+  button: string;
+  closing: string;
+}) => `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: ${ACCENT}; color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 22px;">${copy.heading}</h1>
+  </div>
+  <div style="background: white; padding: 24px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+    <p>${copy.greeting}</p>
+    <p>${copy.intro}</p>
+    <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">
+      <tr><td style="padding: 6px 0; color: #666;">${copy.labels[0]}</td><td style="padding: 6px 0; text-align: right;"><strong>{{bookingId}}</strong></td></tr>
+      <tr><td style="padding: 6px 0; color: #666;">${copy.labels[1]}</td><td style="padding: 6px 0; text-align: right;">{{tourTitle}}</td></tr>
+      <tr><td style="padding: 6px 0; color: #666;">${copy.labels[2]}</td><td style="padding: 6px 0; text-align: right;">{{#if tourDate}}{{tourDate | date}}{{else}}—{{/if}}</td></tr>
+      <tr><td style="padding: 6px 0; color: #666;">${copy.labels[3]}</td><td style="padding: 6px 0; text-align: right; color: ${ACCENT};"><strong>{{amount | currency}}</strong></td></tr>
+      <tr><td style="padding: 6px 0; color: #666;">${copy.labels[4]}</td><td style="padding: 6px 0; text-align: right;">{{outstandingBalance | currency}}</td></tr>
+    </table>
+    <p style="text-align: center;">
+      <a href="{{bookingUrl}}" style="display: inline-block; padding: 12px 28px; background: ${ACCENT}; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">${copy.button}</a>
+    </p>
+    <p style="color: #666; font-size: 14px;">${copy.closing}</p>
+  </div>
+</body>
+</html>`;
+
+export const installmentReminder: EmailTemplateDefinition = {
+  key: 'installment_reminder',
+  name: 'Installment reminder',
+  description: 'Sent by the installment scheduler before an installment is due and when it is overdue',
+  audience: 'customer',
+  variables: {
+    bookingId: { type: 'string', description: 'Booking reference' },
+    bookingUrl: { type: 'string', description: 'Link to the customer\'s bookings' },
+    customerName: { type: 'string', description: 'Full name of the lead passenger' },
+    tourTitle: { type: 'string', description: 'Tour name' },
+    tourDate: { type: 'date', description: 'Departure date or date range', optional: true },
+    installmentLabel: { type: 'string', description: 'Installment name, e.g. Second installment' },
+    amount: { type: 'number', description: 'Amount due for this installment' },
+    dueDate: { type: 'date', description: 'Installment due date' },
+    isOverdue: { type: 'boolean', description: 'True once the due date has passed' },
+    outstandingBalance: { type: 'number', description: 'Unpaid balance of the whole booking' },
+  },
+  sample: {
+    bookingId: 'BK-20260314-0042',
+    bookingUrl: 'https://discover-grp.netlify.app/bookings',
+    customerName: 'Maria Santos',
+    tourTitle: 'Italy Highlights',
+    tourDate: '2026-05-03',
+    installmentLabel: 'Second installment',
+    amount: 107000,
+    dueDate: '2026-04-03',
+    isOverdue: false,
+    outstandingBalance: 214000,
+  },
+  defaults: {
+    en: {
+      subject: '{{#if isOverdue}}Overdue{{else}}Reminder{{/if}}: {{installmentLabel}} for booking {{bookingId}}',
+      html: reminderHtml({
+        heading: '{{#if isOverdue}}Payment Overdue{{else}}Upcoming Payment{{/if}}',
+        greeting: 'Dear {{customerName}},',
+        intro: '{{#if isOverdue}}Our records show that your {{installmentLabel | lower}} was due on <strong>{{dueDate | shortDate}}</strong> and has not been received yet.{{else}}This is a friendly reminder that your {{installmentLabel | lower}} is due on <strong>{{dueDate | shortDate}}</strong>.{{/if}}',
+        labels: ['Booking ID', 'Tour', 'Departure', 'Amount due', 'Remaining balance'],
+        button: 'View My Booking',
+        closing: 'If you have already paid, please disregard this message. For questions, reply to our booking team at reservations@discovergroup.com.',
+      }),
+      text: `Dear {{customerName}},
+
+{{installmentLabel}} of {{amount | currency}} for booking {{bookingId}} {{#if isOverdue}}was due{{else}}is due{{/if}} on {{dueDate | shortDate}}.
+Remaining balance: {{outstandingBalance | currency}}
+
+If you have already paid, please disregard this message.
+
+The Discover Group Team`,
+    },
+    tl: {
+      subject: '{{#if isOverdue}}Lampas na sa Takdang Petsa{{else}}Paalala{{/if}}: {{installmentLabel}} para sa booking {{bookingId}}',
+      html: reminderHtml({
+        heading: '{{#if isOverdue}}Lampas na ang Bayad{{else}}Paparating na Bayad{{/if}}',
+        greeting: 'Mahal na {{customerName}},',
+        intro: '{{#if isOverdue}}Ayon sa aming talaan, ang iyong {{installmentLabel | lower}} ay dapat nabayaran noong <strong>{{dueDate | shortDate}}</strong> at hindi pa namin natatanggap.{{else}}Paalala lamang na ang iyong {{installmentLabel | lower}} ay dapat bayaran sa <strong>{{dueDate | shortDate}}</strong>.{{/if}}',
+        labels: ['Booking ID', 'Tour', 'Alis', 'Halagang dapat bayaran', 'Natitirang balanse'],
+        button: 'Tingnan ang Aking Booking',
+        closing: 'Kung nakapagbayad ka na, mangyaring balewalain ang mensaheng ito. Para sa mga tanong, sumulat sa aming booking team sa reservations@discovergroup.com.',
+      }),
+      text: `Mahal na {{customerName}},
+
+Ang {{installmentLabel}} na {{amount | currency}} para sa booking {{bookingId}} ay {{#if isOverdue}}dapat nabayaran noong{{else}}dapat bayaran sa{{/if}} {{dueDate | shortDate}}.
+Natitirang balanse: {{outstandingBalance | currency}}
+
+Kung nakapagbayad ka na, mangyaring balewalain ang mensaheng ito.
+
+Ang Discover Group Team`,
+    },
+  },
+};
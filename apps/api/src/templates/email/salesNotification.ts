@@ -0,0 +1,186 @@
+import type { EmailTemplateDefinition } from './types';
+import { BOOKING_SAMPLE, BOOKING_VARIABLES } from './bookingVariables';
+
+const SECTION_HEADING = 'margin:0 0 14px 0;font-size:15px;font-weight:700;color:#2c3e50;text-transform:uppercase;letter-spacing:1px;border-bottom:2px solid #e74c3c;padding-bottom:8px;';
+
+const HTML = `<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"></head>
+<body style="margin:0;padding:0;background:#f0f2f5;font-family:Arial,Helvetica,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background:#f0f2f5;padding:24px 0;">
+    <tr><td align="center">
+      <table width="600" cellpadding="0" cellspacing="0" style="background:#fff;border-radius:10px;overflow:hidden;box-shadow:0 2px 12px rgba(0,0,0,0.10);max-width:600px;">
+
+        <!-- HEADER -->
+        <tr>
+          <td style="background:linear-gradient(135deg,#c0392b,#e74c3c);padding:28px 32px;text-align:center;">
+            <p style="margin:0 0 6px 0;font-size:12px;color:rgba(255,255,255,0.8);letter-spacing:2px;text-transform:uppercase;">Discover Group Travel</p>
+            <h1 style="margin:0;color:#fff;font-size:26px;font-weight:700;">🔔 New Booking Alert</h1>
+            <p style="margin:8px 0 0 0;color:rgba(255,255,255,0.9);font-size:14px;">A customer just completed a tour reservation</p>
+          </td>
+        </tr>
+
+        <!-- BOOKING ID BADGE -->
+        <tr>
+          <td style="background:#fdf3f2;padding:16px 32px;border-bottom:1px solid #f5c6c2;text-align:center;">
+            <span style="font-size:13px;color:#888;">Booking ID: </span>
+            <span style="font-size:15px;font-weight:700;color:#c0392b;letter-spacing:1px;">{{bookingId}}</span>
+            &nbsp;&nbsp;
+            {{#if isDownpaymentOnly}}<span style="display:inline-block;padding:4px 14px;background:#e67e22;color:#fff;border-radius:20px;font-size:12px;font-weight:700;">DOWNPAYMENT</span>{{else}}<span style="display:inline-block;padding:4px 14px;background:#27ae60;color:#fff;border-radius:20px;font-size:12px;font-weight:700;">FULL PAYMENT</span>{{/if}}
+          </td>
+        </tr>
+
+        <!-- CUSTOMER DETAILS -->
+        <tr>
+          <td style="padding:24px 32px 0 32px;">
+            <h2 style="${SECTION_HEADING}">👤 Customer Details</h2>
+            <table width="100%" cellpadding="0" cellspacing="0">
+              <tr>
+                <td style="padding:6px 0;color:#555;font-size:13px;width:140px;">Name</td>
+                <td style="padding:6px 0;font-size:14px;font-weight:600;color:#1a1a1a;">{{customerName}}</td>
+              </tr>
+              <tr>
+                <td style="padding:6px 0;color:#555;font-size:13px;">Email</td>
+                <td style="padding:6px 0;font-size:14px;"><a href="mailto:{{customerEmail}}" style="color:#2980b9;text-decoration:none;">{{customerEmail}}</a></td>
+              </tr>
+              {{#if customerPhone}}<tr>
+                <td style="padding:6px 0;color:#555;font-size:13px;">Phone</td>
+                <td style="padding:6px 0;font-size:14px;font-weight:600;color:#1a1a1a;">
+                  <a href="tel:{{customerPhone}}" style="color:#2980b9;text-decoration:none;">{{customerPhone}}</a>
+                </td>
+              </tr>{{/if}}
+            </table>
+          </td>
+        </tr>
+
+        <!-- TOUR DETAILS -->
+        <tr>
+          <td style="padding:20px 32px 0 32px;">
+            <h2 style="${SECTION_HEADING}">🗺️ Tour Details</h2>
+            <table width="100%" cellpadding="0" cellspacing="0" style="background:#f8f9fa;border-radius:8px;">
+              <tr>
+                <td style="padding:10px 12px;color:#555;font-size:13px;width:140px;">Tour</td>
+                <td style="padding:10px 12px;font-size:14px;font-weight:700;color:#2c3e50;">{{tourTitle}}</td>
+              </tr>
+              <tr>
+                <td style="padding:6px 12px;color:#555;font-size:13px;">Date</td>
+                <td style="padding:6px 12px;font-size:13px;font-weight:600;">{{#if tourDate}}{{tourDate | date}}{{else}}Date to be confirmed{{/if}}</td>
+              </tr>
+              <tr>
+                <td style="padding:6px 12px;color:#555;font-size:13px;">Passengers</td>
+                <td style="padding:6px 12px;font-size:13px;font-weight:600;">{{passengers}} pax</td>
+              </tr>
+              {{#if hasAppointment}}<tr><td style="padding:6px 12px;color:#555;font-size:13px;">Appointment</td><td style="padding:6px 12px;font-size:13px;font-weight:600;">{{appointmentDate | date}} @ {{appointmentTime}}{{#if appointmentPurpose}} — {{appointmentPurpose | titleCase}}{{/if}}</td></tr>{{/if}}
+            </table>
+          </td>
+        </tr>
+
+        <!-- PAYMENT SUMMARY -->
+        <tr>
+          <td style="padding:20px 32px 0 32px;">
+            <h2 style="${SECTION_HEADING}">💰 Payment Summary</h2>
+            <table width="100%" cellpadding="0" cellspacing="0" style="background:#f8f9fa;border-radius:8px;">
+              <tr>
+                <td style="padding:10px 12px;color:#555;font-size:13px;width:140px;">Per Person</td>
+                <td style="padding:10px 12px;font-size:13px;">{{pricePerPerson | currency}}</td>
+              </tr>
+              <tr>
+                <td style="padding:6px 12px;color:#555;font-size:13px;">Total Amount</td>
+                <td style="padding:6px 12px;font-size:15px;font-weight:700;color:#2c3e50;">{{totalAmount | currency}}</td>
+              </tr>
+              {{#if isDownpaymentOnly}}
+              <tr>
+                <td style="padding:6px 12px;color:#555;font-size:13px;">Paid (Downpayment)</td>
+                <td style="padding:6px 12px;font-size:13px;font-weight:700;color:#27ae60;">{{downpaymentAmount | currency}}</td>
+              </tr>
+              <tr>
+                <td style="padding:6px 12px;color:#555;font-size:13px;">Balance Due</td>
+                <td style="padding:6px 12px;font-size:13px;font-weight:700;color:#e67e22;">{{remainingBalance | currency}}</td>
+              </tr>{{/if}}
+              {{#if paymentMethod}}
+              <tr>
+                <td style="padding:6px 12px;color:#555;font-size:13px;">Payment Method</td>
+                <td style="padding:6px 12px;font-size:13px;">{{#if paymentMethodDescription}}{{paymentMethodDescription}}{{else}}{{paymentMethod}}{{/if}}</td>
+              </tr>{{/if}}
+            </table>
+          </td>
+        </tr>
+
+        <!-- ADD-ONS -->
+        <tr>
+          <td style="padding:20px 32px 0 32px;">
+            <h2 style="${SECTION_HEADING}">🧳 Add-On Services</h2>
+            <ul style="margin:0;padding:0 0 0 4px;list-style:none;font-size:13px;color:#333;">
+              {{#if visaAssistanceRequested}}<li style="margin:4px 0;">✅ Visa Assistance ({{visaAssistanceFee | currency}})</li>{{/if}}
+              {{#if travelInsuranceRequested}}<li style="margin:4px 0;">✅ Travel Insurance ({{travelInsuranceFee | currency}})</li>{{/if}}
+              {{#if passportAssistanceRequested}}<li style="margin:4px 0;">✅ Passport Assistance{{#if passportAssistanceFee}} ({{passportAssistanceFee | currency}}){{/if}}</li>{{/if}}
+              {{#unless hasAddOns}}<li style="color:#888;">None</li>{{/unless}}
+            </ul>
+          </td>
+        </tr>
+
+        <!-- ACTION BUTTONS -->
+        <tr>
+          <td style="padding:28px 32px;">
+            <table width="100%" cellpadding="0" cellspacing="0">
+              <tr>
+                <td align="center" style="padding:0 6px;">
+                  <a href="{{adminBookingUrl}}"
+                     style="display:inline-block;padding:12px 22px;background:#c0392b;color:#fff;text-decoration:none;border-radius:6px;font-size:13px;font-weight:700;">
+                    📋 Open in Admin Panel
+                  </a>
+                </td>
+                <td align="center" style="padding:0 6px;">
+                  <a href="mailto:{{customerEmail}}"
+                     style="display:inline-block;padding:12px 22px;background:#2980b9;color:#fff;text-decoration:none;border-radius:6px;font-size:13px;font-weight:700;">
+                    ✉️ Email Customer
+                  </a>
+                </td>
+                {{#if customerPhone}}<td align="center" style="padding:0 6px;">
+                  <a href="tel:{{customerPhone}}"
+                     style="display:inline-block;padding:12px 22px;background:#27ae60;color:#fff;text-decoration:none;border-radius:6px;font-size:13px;font-weight:700;">
+                    📞 Call Customer
+                  </a>
+                </td>{{/if}}
+              </tr>
+            </table>
+          </td>
+        </tr>
+
+        <!-- FOOTER -->
+        <tr>
+          <td style="background:#f8f9fa;padding:14px 32px;text-align:center;border-top:1px solid #eee;">
+            <p style="margin:0;font-size:11px;color:#aaa;">This is an internal sales alert — do not forward to customers.</p>
+          </td>
+        </tr>
+
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+
+const TEXT = `New booking {{bookingId}} ({{#if isDownpaymentOnly}}downpayment{{else}}full payment{{/if}})
+
+Customer: {{customerName}} <{{customerEmail}}>{{#if customerPhone}}, {{customerPhone}}{{/if}}
+Tour: {{tourTitle}}, {{#if tourDate}}{{tourDate | date}}{{else}}date to be confirmed{{/if}}, {{passengers}} pax
+Total: {{totalAmount | currency}}
+
+Open in admin: {{adminBookingUrl}}`;
+
+export const salesNotification: EmailTemplateDefinition = {
+  key: 'sales_notification',
+  name: 'Sales new-booking alert',
+  description: 'Internal alert to the sales department for every new booking',
+  audience: 'internal',
+  variables: BOOKING_VARIABLES,
+  sample: BOOKING_SAMPLE,
+  bookingPreview: true,
+  defaults: {
+    en: {
+      subject: '[NEW BOOKING] {{customerName}} — {{tourTitle}} ({{bookingId}})',
+      html: HTML,
+      text: TEXT,
+    },
+  },
+};
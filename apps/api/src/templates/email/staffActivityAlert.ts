@@ -0,0 +1,53 @@
+import type { EmailTemplateDefinition } from './types';
+
+const HTML = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <p>Hi {{recipientName}},</p>
+  <p>{{#if isReply}}The customer replied on <strong>{{reference}}</strong>:{{else}}<strong>{{authorName}}</strong> mentioned you in a note on <strong>{{reference}}</strong>:{{/if}}</p>
+  <div style="white-space: pre-line; background: #f9fafb; border-left: 4px solid #6366f1; padding: 12px 16px; margin: 16px 0;">{{body}}</div>
+  {{#if attachmentCount}}<p style="color: #666; font-size: 13px;">{{attachmentCount}} attachment(s)</p>{{/if}}
+  <p><a href="{{activityUrl}}" style="display: inline-block; padding: 10px 20px; background: #4f46e5; color: white; text-decoration: none; border-radius: 6px;">Open {{reference}}</a></p>
+</body>
+</html>`;
+
+export const staffActivityAlert: EmailTemplateDefinition = {
+  key: 'staff_activity_alert',
+  name: 'Activity alert (staff)',
+  description: 'Tells a staff member they were @mentioned in a note, or that a customer replied to their message',
+  audience: 'internal',
+  variables: {
+    recipientName: { type: 'string', description: 'Staff member being told' },
+    authorName: { type: 'string', description: 'Who wrote the note or reply' },
+    isReply: { type: 'boolean', description: 'A customer reply rather than a mention' },
+    reference: { type: 'string', description: 'Booking or visa application, e.g. "Booking BK-1234"' },
+    body: { type: 'string', description: 'The note or reply' },
+    attachmentCount: { type: 'number', description: 'Number of attached files' },
+    activityUrl: { type: 'string', description: 'Admin page of the booking or application' },
+  },
+  sample: {
+    recipientName: 'Ana Reyes',
+    authorName: 'Jose Cruz',
+    isReply: false,
+    reference: 'Booking BK-20260414-0012',
+    body: '@Ana Reyes the hotel confirmed the upgrade, can you let the customer know?',
+    attachmentCount: 1,
+    activityUrl: 'https://admin.discovergrp.com/bookings/BK-20260414-0012',
+  },
+  defaults: {
+    en: {
+      subject: '{{#if isReply}}Customer reply on {{reference}}{{else}}{{authorName}} mentioned you on {{reference}}{{/if}}',
+      html: HTML,
+      text: `Hi {{recipientName}},
+
+{{#if isReply}}The customer replied on {{reference}}:{{else}}{{authorName}} mentioned you in a note on {{reference}}:{{/if}}
+
+{{body}}
+{{#if attachmentCount}}
+{{attachmentCount}} attachment(s)
+{{/if}}
+Open it: {{activityUrl}}`,
+    },
+  },
+};
@@ -0,0 +1,48 @@
+// Languages an email template can be written in; matches the customer site's languages
+export type EmailLocale = 'en' | 'tl';
+
+export const EMAIL_LOCALES: EmailLocale[] = ['en', 'tl'];
+
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en';
+
+export type EmailTemplateKey =
+  | 'booking_confirmation'
+  | 'sales_notification'
+  | 'email_verification'
+  | 'password_reset'
+  | 'installment_reminder'
+  | 'booking_access'
+  | 'visa_status_update'
+  | 'customer_message'
+  | 'staff_activity_alert';
+
+export type TemplateVariableType = 'string' | 'number' | 'boolean' | 'date' | 'list';
+
+export interface TemplateVariable {
+  type: TemplateVariableType;
+  description: string;
+  // Optional variables are always present but may be null
+  optional?: boolean;
+  // Fields of each item of a `list` variable
+  fields?: Record<string, TemplateVariable>;
+}
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplateDefinition {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  // `internal` templates go to staff and are only written in the default language
+  audience: 'customer' | 'internal';
+  variables: Record<string, TemplateVariable>;
+  // Preview data; templates with `bookingPreview` can also be previewed with a real booking
+  sample: Record<string, unknown>;
+  bookingPreview?: boolean;
+  // Built-in content, used until an admin saves a version
+  defaults: Partial<Record<EmailLocale, EmailTemplateContent>> & { en: EmailTemplateContent };
+}
@@ -0,0 +1,170 @@
+import type { EmailTemplateDefinition } from './types';
+
+const statusHtml = (copy: {
+  heading: string;
+  greeting: string;
+  intro: string;
+  labels: [string, string, string];
+  approved: string;
+  rejected: string;
+  outstanding: string;
+  appointment: string;
+  appointmentLabels: [string, string, string];
+  button: string;
+  closing: string;
+}) => `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: #2563eb; color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 22px;">${copy.heading}</h1>
+  </div>
+  <div style="background: white; padding: 24px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+    <p>${copy.greeting}</p>
+    <p>${copy.intro}</p>
+    <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">
+      <tr><td style="padding: 6px 0; color: #666;">${copy.labels[0]}</td><td style="padding: 6px 0; text-align: right;"><strong>{{applicationId}}</strong></td></tr>
+      <tr><td style="padding: 6px 0; color: #666;">${copy.labels[1]}</td><td style="padding: 6px 0; text-align: right;"><strong>{{statusLabel}}</strong></td></tr>
+      {{#if destinationCountries}}<tr><td style="padding: 6px 0; color: #666;">${copy.labels[2]}</td><td style="padding: 6px 0; text-align: right;">{{destinationCountries}}</td></tr>{{/if}}
+    </table>
+    {{#if isApproved}}<p style="background: #f0fdf4; border: 1px solid #bbf7d0; padding: 12px; border-radius: 8px;">${copy.approved}</p>{{/if}}
+    {{#if isRejected}}<p style="background: #fef2f2; border: 1px solid #fecaca; padding: 12px; border-radius: 8px;">${copy.rejected}</p>{{/if}}
+    {{#if note}}<p style="white-space: pre-line;">{{note}}</p>{{/if}}
+    {{#if outstandingDocuments}}
+    <p><strong>${copy.outstanding}</strong></p>
+    <ul>
+      {{#each outstandingDocuments}}<li>{{label}}{{#if rejectionReason}} — <span style="color: #d32f2f;">{{rejectionReason}}</span>{{/if}}</li>{{/each}}
+    </ul>
+    {{/if}}
+    {{#if appointmentDate}}
+    <div style="background: #eff6ff; border: 1px solid #bfdbfe; padding: 12px; border-radius: 8px; margin: 16px 0;">
+      <p style="margin: 0 0 8px;"><strong>${copy.appointment}</strong></p>
+      <p style="margin: 0;">${copy.appointmentLabels[0]}: {{appointmentDate | date}}{{#if appointmentTime}}, {{appointmentTime}}{{/if}}</p>
+      {{#if appointmentLocation}}<p style="margin: 0;">${copy.appointmentLabels[1]}: {{appointmentLocation}}</p>{{/if}}
+      {{#if appointmentReference}}<p style="margin: 0;">${copy.appointmentLabels[2]}: {{appointmentReference}}</p>{{/if}}
+    </div>
+    {{/if}}
+    <p style="text-align: center;">
+      <a href="{{applicationUrl}}" style="display: inline-block; padding: 12px 28px; background: #2563eb; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">${copy.button}</a>
+    </p>
+    <p style="color: #666; font-size: 14px;">${copy.closing}</p>
+  </div>
+</body>
+</html>`;
+
+export const visaStatusUpdate: EmailTemplateDefinition = {
+  key: 'visa_status_update',
+  name: 'Visa application update',
+  description: 'Sent to the applicant whenever staff change the status of a visa application',
+  audience: 'customer',
+  variables: {
+    applicationId: { type: 'string', description: 'Visa application reference' },
+    customerName: { type: 'string', description: 'Name on the application' },
+    statusLabel: { type: 'string', description: 'New status, in the email language' },
+    isApproved: { type: 'boolean', description: 'The visa was approved' },
+    isRejected: { type: 'boolean', description: 'The application was refused' },
+    destinationCountries: { type: 'string', description: 'Countries applied for', optional: true },
+    note: { type: 'string', description: 'Message from the visa team', optional: true },
+    outstandingDocuments: {
+      type: 'list',
+      description: 'Checklist documents still missing or rejected; empty when none',
+      fields: {
+        label: { type: 'string', description: 'Document name' },
+        rejectionReason: { type: 'string', description: 'Why the last upload was rejected', optional: true },
+      },
+    },
+    appointmentDate: { type: 'date', description: 'Embassy appointment date', optional: true },
+    appointmentTime: { type: 'string', description: 'Embassy appointment time', optional: true },
+    appointmentLocation: { type: 'string', description: 'Embassy or visa centre', optional: true },
+    appointmentReference: { type: 'string', description: 'Appointment booking reference', optional: true },
+    applicationUrl: { type: 'string', description: 'Page where the applicant uploads documents' },
+  },
+  sample: {
+    applicationId: 'VA-2026-K3J9QZ',
+    customerName: 'Maria Santos',
+    statusLabel: 'Documents Requested',
+    isApproved: false,
+    isRejected: false,
+    destinationCountries: 'Italy, France',
+    note: 'Please send a clearer copy of your bank statement.',
+    outstandingDocuments: [
+      { label: 'Bank statement (last 6 months)', rejectionReason: 'The last page is missing' },
+      { label: 'Certificate of employment', rejectionReason: null },
+    ],
+    appointmentDate: '2026-04-14',
+    appointmentTime: '09:30',
+    appointmentLocation: 'VFS Global, Makati',
+    appointmentReference: 'ITA-778213',
+    applicationUrl: 'https://discover-grp.netlify.app/my-trips',
+  },
+  defaults: {
+    en: {
+      subject: 'Visa application {{applicationId}}: {{statusLabel}}',
+      html: statusHtml({
+        heading: 'Visa Application Update',
+        greeting: 'Dear {{customerName}},',
+        intro: 'There is news on your visa application.',
+        labels: ['Application', 'Status', 'Destination'],
+        approved: 'Your visa has been approved. We will let you know how to collect your passport.',
+        rejected: 'Unfortunately the application was not approved. Our visa team will contact you about the next steps.',
+        outstanding: 'Documents we still need:',
+        appointment: 'Embassy appointment',
+        appointmentLabels: ['Date', 'Place', 'Reference'],
+        button: 'View My Application',
+        closing: 'Sign in with this email address to upload documents. Reply to this email if you have any questions.',
+      }),
+      text: `Dear {{customerName}},
+
+Your visa application {{applicationId}} is now: {{statusLabel}}.
+{{#if isApproved}}
+Your visa has been approved. We will let you know how to collect your passport.
+{{/if}}{{#if isRejected}}
+Unfortunately the application was not approved. Our visa team will contact you about the next steps.
+{{/if}}{{#if note}}
+{{note}}
+{{/if}}{{#if outstandingDocuments}}
+Documents we still need:
+{{#each outstandingDocuments}}- {{label}}{{#if rejectionReason}} ({{rejectionReason}}){{/if}}
+{{/each}}{{/if}}{{#if appointmentDate}}
+Embassy appointment: {{appointmentDate | date}}{{#if appointmentTime}}, {{appointmentTime}}{{/if}}{{#if appointmentLocation}} at {{appointmentLocation}}{{/if}}{{#if appointmentReference}} (reference {{appointmentReference}}){{/if}}
+{{/if}}
+Sign in with this email address to upload documents: {{applicationUrl}}
+
+The Discover Group Team`,
+    },
+    tl: {
+      subject: 'Visa application {{applicationId}}: {{statusLabel}}',
+      html: statusHtml({
+        heading: 'Balita sa Iyong Visa Application',
+        greeting: 'Mahal na {{customerName}},',
+        intro: 'May bagong balita tungkol sa iyong visa application.',
+        labels: ['Application', 'Status', 'Destinasyon'],
+        approved: 'Naaprubahan na ang iyong visa. Ipapaalam namin sa iyo kung paano kunin ang iyong passport.',
+        rejected: 'Ikinalulungkot naming hindi naaprubahan ang application. Makikipag-ugnayan sa iyo ang aming visa team tungkol sa susunod na hakbang.',
+        outstanding: 'Mga dokumentong kailangan pa namin:',
+        appointment: 'Appointment sa embahada',
+        appointmentLabels: ['Petsa', 'Lugar', 'Reference'],
+        button: 'Tingnan ang Aking Application',
+        closing: 'Mag-sign in gamit ang email address na ito para mag-upload ng mga dokumento. Sumagot sa email na ito kung may tanong ka.',
+      }),
+      text: `Mahal na {{customerName}},
+
+Ang iyong visa application {{applicationId}} ay ngayon: {{statusLabel}}.
+{{#if isApproved}}
+Naaprubahan na ang iyong visa. Ipapaalam namin sa iyo kung paano kunin ang iyong passport.
+{{/if}}{{#if isRejected}}
+Ikinalulungkot naming hindi naaprubahan ang application. Makikipag-ugnayan sa iyo ang aming visa team tungkol sa susunod na hakbang.
+{{/if}}{{#if note}}
+{{note}}
+{{/if}}{{#if outstandingDocuments}}
+Mga dokumentong kailangan pa namin:
+{{#each outstandingDocuments}}- {{label}}{{#if rejectionReason}} ({{rejectionReason}}){{/if}}
+{{/each}}{{/if}}{{#if appointmentDate}}
+Appointment sa embahada: {{appointmentDate | date}}{{#if appointmentTime}}, {{appointmentTime}}{{/if}}{{#if appointmentLocation}} sa {{appointmentLocation}}{{/if}}{{#if appointmentReference}} (reference {{appointmentReference}}){{/if}}
+{{/if}}
+Mag-sign in gamit ang email address na ito para mag-upload ng mga dokumento: {{applicationUrl}}
+
+Ang Discover Group Team`,
+    },
+  },
+};
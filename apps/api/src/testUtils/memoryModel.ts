@@ -0,0 +1,263 @@
+/**
+ * In-memory stand-in for a Mongoose model, for tests that run services and
+ * routes without a database. Supports the queries and update operators the
+ * services use; anything else throws so a test cannot pass by accident.
+ */
+
+// Documents are untyped here, as they are to MongoDB
+/* eslint-disable @typescript-eslint/no-explicit-any */
+type Doc = Record<string, any>;
+type Filter = Record<string, any>;
+
+const OPERATORS = new Set(['$ne', '$in', '$nin', '$lt', '$lte', '$gt', '$gte', '$exists']);
+
+function getPath(doc: Doc, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), doc);
+}
+
+function setPath(doc: Doc, path: string, value: any) {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce((target, key) => (target[key] ??= {}), doc);
+  parent[last] = value;
+}
+
+function unsetPath(doc: Doc, path: string) {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = getPath(doc, keys.join('.')) ?? (keys.length ? undefined : doc);
+  if (parent) delete parent[last];
+}
+
+const comparable = (value: any) => (value instanceof Date ? value.getTime() : value);
+
+function equals(actual: any, expected: any): boolean {
+  if (Array.isArray(actual) && !Array.isArray(expected)) return actual.some((item) => equals(item, expected));
+  if (expected && typeof expected === 'object' && typeof expected.toString === 'function' && expected.constructor?.name === 'ObjectId') {
+    return String(actual) === String(expected);
+  }
+  return comparable(actual) === comparable(expected);
+}
+
+function matchesCondition(actual: any, condition: any): boolean {
+  const isOperatorObject = condition && typeof condition === 'object' && !Array.isArray(condition)
+    && !(condition instanceof Date) && Object.keys(condition).some((key) => key.startsWith('$'));
+  if (!isOperatorObject) return equals(actual, condition);
+
+  return Object.entries(condition).every(([op, expected]: [string, any]) => {
+    if (!OPERATORS.has(op)) throw new Error(`memoryModel: unsupported operator ${op}`);
+    switch (op) {
+      case '$ne': return !equals(actual, expected);
+      case '$in': return expected.some((value: any) => equals(actual, value));
+      case '$nin': return !expected.some((value: any) => equals(actual, value));
+      case '$lt': return actual != null && comparable(actual) < comparable(expected);
+      case '$lte': return actual != null && comparable(actual) <= comparable(expected);
+      case '$gt': return actual != null && comparable(actual) > comparable(expected);
+      case '$gte': return actual != null && comparable(actual) >= comparable(expected);
+      default: return (actual !== undefined) === expected;
+    }
+  });
+}
+
+export function matches(doc: Doc, filter: Filter = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$or') return (condition as Filter[]).some((branch) => matches(doc, branch));
+    if (key === '$and') return (condition as Filter[]).every((branch) => matches(doc, branch));
+    if (key.startsWith('$')) throw new Error(`memoryModel: unsupported operator ${key}`);
+    return matchesCondition(getPath(doc, key), condition);
+  });
+}
+
+function applyUpdate(doc: Doc, update: Doc, inserting: boolean) {
+  const hasOperators = Object.keys(update).some((key) => key.startsWith('$'));
+  if (!hasOperators) {
+    Object.entries(update).forEach(([path, value]) => setPath(doc, path, value));
+    return;
+  }
+  for (const [op, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as Doc)) {
+      switch (op) {
+        case '$set': setPath(doc, path, value); break;
+        case '$setOnInsert': if (inserting) setPath(doc, path, value); break;
+        case '$unset': unsetPath(doc, path); break;
+        case '$inc': setPath(doc, path, (getPath(doc, path) ?? 0) + value); break;
+        case '$push': {
+          const list = getPath(doc, path) ?? [];
+          const items = value && typeof value === 'object' && '$each' in value ? value.$each : [value];
+          setPath(doc, path, [...list, ...items]);
+          break;
+        }
+        case '$addToSet': {
+          const list: any[] = getPath(doc, path) ?? [];
+          setPath(doc, path, list.some((item) => equals(item, value)) ? list : [...list, value]);
+          break;
+        }
+        default: throw new Error(`memoryModel: unsupported update ${op}`);
+      }
+    }
+  }
+}
+
+// Plain fields of a filter become the fields of an upserted document
+function fieldsFromFilter(filter: Filter): Doc {
+  const doc: Doc = {};
+  Object.entries(filter).forEach(([key, value]) => {
+    if (!key.startsWith('$') && !(value && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value))) {
+      setPath(doc, key, value);
+    }
+  });
+  return doc;
+}
+
+type UpdateResult = { matchedCount: number; modifiedCount: number };
+type SortOrder = Record<string, 1 | -1 | 'asc' | 'desc'>;
+
+function compareBy(order: SortOrder) {
+  return (a: Doc, b: Doc) => {
+    for (const [path, direction] of Object.entries(order)) {
+      const x = comparable(getPath(a, path));
+      const y = comparable(getPath(b, path));
+      if (x === y) continue;
+      // Missing values sort first, as in MongoDB
+      const ascending = x == null ? -1 : y == null ? 1 : x < y ? -1 : 1;
+      return direction === -1 || direction === 'desc' ? -ascending : ascending;
+    }
+    return 0;
+  };
+}
+
+// Runs a lookup on exec; sort and limit apply to lists, and pick the first match of findOne
+class MemoryQuery<T> implements PromiseLike<T> {
+  private order?: SortOrder;
+  private max?: number;
+
+  constructor(private readonly run: () => unknown, private readonly first = false) {}
+
+  select() { return this; }
+  lean() { return this; }
+  populate() { return this; }
+  session() { return this; }
+
+  sort(order: SortOrder) {
+    this.order = order;
+    return this;
+  }
+
+  limit(max: number) {
+    this.max = max;
+    return this;
+  }
+
+  exec(): Promise<T> {
+    try {
+      let result = this.run();
+      if (Array.isArray(result)) {
+        if (this.order) result = [...result].sort(compareBy(this.order));
+        if (this.max) result = (result as Doc[]).slice(0, this.max);
+        if (this.first) result = (result as Doc[])[0] ?? null;
+      }
+      return Promise.resolve(result as T);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  then<R1 = T, R2 = never>(
+    onFulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this.exec().then(onFulfilled, onRejected);
+  }
+}
+
+let nextId = 1;
+
+// Valid ObjectId hex, so code that checks ids with Types.ObjectId.isValid accepts them
+const newId = () => (nextId++).toString(16).padStart(24, '0');
+
+export interface MemoryModelOptions {
+  // Fields that must be unique, as with a unique index (duplicates throw code 11000)
+  unique?: string[];
+  // Defaults for created documents
+  defaults?: () => Doc;
+}
+
+export function createMemoryModel(options: MemoryModelOptions = {}) {
+  const docs: Doc[] = [];
+
+  const withMethods = (doc: Doc) => {
+    Object.defineProperties(doc, {
+      id: { get: () => String(doc._id), configurable: true },
+      set: { value: (path: string, value: any) => setPath(doc, path, value), configurable: true },
+      toObject: { value: () => doc, configurable: true },
+      save: { value: async () => doc, configurable: true },
+    });
+    return doc;
+  };
+
+  const checkUnique = (candidate: Doc) => {
+    for (const field of options.unique ?? []) {
+      const value = getPath(candidate, field);
+      if (value !== undefined && docs.some((doc) => equals(getPath(doc, field), value))) {
+        throw Object.assign(new Error(`E11000 duplicate key error: ${field}`), { code: 11000 });
+      }
+    }
+  };
+
+  const insert = (fields: Doc) => {
+    const now = new Date();
+    const doc = withMethods({ _id: newId(), ...options.defaults?.(), createdAt: now, updatedAt: now, ...fields });
+    checkUnique(doc);
+    docs.push(doc);
+    return doc;
+  };
+
+  const update = (doc: Doc, changes: Doc) => {
+    applyUpdate(doc, changes, false);
+    doc.updatedAt = new Date();
+    return doc;
+  };
+
+  const model = {
+    docs,
+    reset() {
+      docs.length = 0;
+    },
+    async create(input: Doc | Doc[]) {
+      return Array.isArray(input) ? input.map(insert) : insert(input);
+    },
+    find: (filter?: Filter) => new MemoryQuery<Doc[]>(() => docs.filter((doc) => matches(doc, filter))),
+    findOne: (filter?: Filter) => new MemoryQuery<Doc | null>(() => docs.filter((doc) => matches(doc, filter)), true),
+    findById: (id: unknown) => new MemoryQuery<Doc | null>(() => docs.find((doc) => String(doc._id) === String(id)) ?? null),
+    exists: (filter?: Filter) => new MemoryQuery<{ _id: any } | null>(() => {
+      const doc = docs.find((candidate) => matches(candidate, filter));
+      return doc ? { _id: doc._id } : null;
+    }),
+    countDocuments: (filter?: Filter) => new MemoryQuery<number>(() => docs.filter((doc) => matches(doc, filter)).length),
+    findOneAndUpdate: (filter: Filter, changes: Doc, opts: { upsert?: boolean } = {}) => new MemoryQuery<Doc | null>(() => {
+      const doc = docs.find((candidate) => matches(candidate, filter));
+      if (doc) return update(doc, changes);
+      if (!opts.upsert) return null;
+      const created = fieldsFromFilter(filter);
+      applyUpdate(created, changes, true);
+      return insert(created);
+    }),
+    findByIdAndUpdate: (id: unknown, changes: Doc) => new MemoryQuery<Doc | null>(() => {
+      const doc = docs.find((candidate) => String(candidate._id) === String(id));
+      return doc ? update(doc, changes) : null;
+    }),
+    updateOne: (filter: Filter, changes: Doc) => new MemoryQuery<UpdateResult>(() => {
+      const doc = docs.find((candidate) => matches(candidate, filter));
+      if (doc) update(doc, changes);
+      return { matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+    }),
+    updateMany: (filter: Filter, changes: Doc) => new MemoryQuery<UpdateResult>(() => {
+      const matched = docs.filter((doc) => matches(doc, filter));
+      matched.forEach((doc) => update(doc, changes));
+      return { matchedCount: matched.length, modifiedCount: matched.length };
+    }),
+  };
+  return model;
+}
+
+export type MemoryModel = ReturnType<typeof createMemoryModel>;
@@ -0,0 +1,134 @@
+import { describe, expect, it } from '@jest/globals';
+import { cronMatches, isValidCron, nextCronRun, parseCron } from '../cron';
+
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+describe('parseCron', () => {
+  it('expands wildcards to the whole field', () => {
+    const schedule = parseCron('* * * * *');
+    expect(schedule.minutes.size).toBe(60);
+    expect(schedule.hours.size).toBe(24);
+    expect(sorted(schedule.daysOfMonth)).toEqual(Array.from({ length: 31 }, (_, i) => i + 1));
+    expect(schedule.months.size).toBe(12);
+    expect(sorted(schedule.daysOfWeek)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(schedule.dayOfMonthRestricted).toBe(false);
+    expect(schedule.dayOfWeekRestricted).toBe(false);
+  });
+
+  it('reads ranges, lists and steps', () => {
+    const schedule = parseCron('*/15 9-17 1,15,28-31 1-12/3 1-5');
+    expect(sorted(schedule.minutes)).toEqual([0, 15, 30, 45]);
+    expect(sorted(schedule.hours)).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect(sorted(schedule.daysOfMonth)).toEqual([1, 15, 28, 29, 30, 31]);
+    expect(sorted(schedule.months)).toEqual([1, 4, 7, 10]);
+    expect(sorted(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('steps through a range, or from a single value to the end of the field', () => {
+    expect(sorted(parseCron('0-30/10 * * * *').minutes)).toEqual([0, 10, 20, 30]);
+    expect(sorted(parseCron('5/20 * * * *').minutes)).toEqual([5, 25, 45]);
+  });
+
+  it('treats day-of-week 7 as Sunday', () => {
+    expect(sorted(parseCron('0 0 * * 7').daysOfWeek)).toEqual([0]);
+    expect(sorted(parseCron('0 0 * * 5-7').daysOfWeek)).toEqual([0, 5, 6]);
+  });
+
+  it('rejects malformed expressions', () => {
+    for (const expression of [
+      '0 0 * *',       // too few fields
+      '0 0 * * * *',   // too many fields
+      '60 * * * *',    // minute out of range
+      '0 24 * * *',    // hour out of range
+      '0 0 0 * *',     // day of month starts at 1
+      '0 0 * 13 *',    // month out of range
+      '0 0 * * 8',     // day of week out of range
+      '0 0 5-1 * *',   // backwards range
+      '*/0 * * * *',   // zero step
+      'a * * * *',     // not a number
+      '1,,2 * * * *',  // empty list item
+      '-1 * * * *',    // missing range start
+      '1-2-3 * * * *', // range with three ends
+    ]) {
+      expect(() => parseCron(expression)).toThrow(/Invalid cron expression/);
+      expect(isValidCron(expression)).toBe(false);
+    }
+    expect(isValidCron('0 2 * * *')).toBe(true);
+  });
+});
+
+describe('cronMatches', () => {
+  it('compares in the given time zone', () => {
+    const schedule = parseCron('0 2 * * *');
+    // 02:00 in Manila (UTC+8) is 18:00 UTC the day before
+    expect(cronMatches(schedule, utc('2026-10-18T18:00:00'), 'Asia/Manila')).toBe(true);
+    expect(cronMatches(schedule, utc('2026-10-18T18:00:00'), 'UTC')).toBe(false);
+    expect(cronMatches(schedule, utc('2026-10-19T02:00:00'), 'UTC')).toBe(true);
+    expect(cronMatches(schedule, utc('2026-10-19T02:01:00'), 'UTC')).toBe(false);
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // Every 13th and every Friday
+    const schedule = parseCron('0 0 13 * 5');
+    expect(cronMatches(schedule, utc('2026-10-13T00:00:00'), 'UTC')).toBe(true); // Tuesday 13th
+    expect(cronMatches(schedule, utc('2026-10-16T00:00:00'), 'UTC')).toBe(true); // Friday 16th
+    expect(cronMatches(schedule, utc('2026-10-14T00:00:00'), 'UTC')).toBe(false); // Wednesday 14th
+  });
+
+  it('requires the restricted day field when only one is', () => {
+    const fridays = parseCron('0 0 * * 5');
+    expect(cronMatches(fridays, utc('2026-10-16T00:00:00'), 'UTC')).toBe(true);
+    expect(cronMatches(fridays, utc('2026-10-13T00:00:00'), 'UTC')).toBe(false);
+
+    const thirteenths = parseCron('0 0 13 * *');
+    expect(cronMatches(thirteenths, utc('2026-10-13T00:00:00'), 'UTC')).toBe(true);
+    expect(cronMatches(thirteenths, utc('2026-10-16T00:00:00'), 'UTC')).toBe(false);
+  });
+
+  it('honours the month field', () => {
+    const schedule = parseCron('0 0 1 1,7 *');
+    expect(cronMatches(schedule, utc('2026-07-01T00:00:00'), 'UTC')).toBe(true);
+    expect(cronMatches(schedule, utc('2026-08-01T00:00:00'), 'UTC')).toBe(false);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('returns the first matching minute strictly after the start', () => {
+    const schedule = parseCron('*/15 * * * *');
+    expect(nextCronRun(schedule, utc('2026-10-19T10:07:30'), 'UTC')).toEqual(utc('2026-10-19T10:15:00'));
+    expect(nextCronRun(schedule, utc('2026-10-19T10:15:00'), 'UTC')).toEqual(utc('2026-10-19T10:30:00'));
+  });
+
+  it('rolls over the hour and the day', () => {
+    expect(nextCronRun(parseCron('5 * * * *'), utc('2026-10-19T10:30:00'), 'UTC')).toEqual(utc('2026-10-19T11:05:00'));
+    expect(nextCronRun(parseCron('0 2 * * *'), utc('2026-10-19T03:00:00'), 'UTC')).toEqual(utc('2026-10-20T02:00:00'));
+  });
+
+  it('rolls over the month and the year', () => {
+    const firstOfMonth = parseCron('0 2 1 * *');
+    expect(nextCronRun(firstOfMonth, utc('2026-01-31T20:00:00'), 'UTC')).toEqual(utc('2026-02-01T02:00:00'));
+    expect(nextCronRun(firstOfMonth, utc('2026-12-15T00:00:00'), 'UTC')).toEqual(utc('2027-01-01T02:00:00'));
+  });
+
+  it('skips months without the day', () => {
+    const thirtyFirst = parseCron('0 0 31 * *');
+    expect(nextCronRun(thirtyFirst, utc('2026-04-01T00:00:00'), 'UTC')).toEqual(utc('2026-05-31T00:00:00'));
+    const leapDay = parseCron('0 0 29 2 *');
+    expect(nextCronRun(leapDay, utc('2026-03-01T00:00:00'), 'UTC')).toEqual(utc('2028-02-29T00:00:00'));
+  });
+
+  it('finds the next weekday run', () => {
+    // Monday 2026-10-19 → Friday 2026-10-23
+    expect(nextCronRun(parseCron('30 9 * * 5'), utc('2026-10-19T12:00:00'), 'UTC')).toEqual(utc('2026-10-23T09:30:00'));
+  });
+
+  it('works out runs in the job time zone', () => {
+    // 02:00 Manila on 20 October is 18:00 UTC on the 19th
+    expect(nextCronRun(parseCron('0 2 * * *'), utc('2026-10-19T00:00:00'), 'Asia/Manila')).toEqual(utc('2026-10-19T18:00:00'));
+  });
+
+  it('returns null for schedules that never run', () => {
+    expect(nextCronRun(parseCron('0 0 31 2 *'), utc('2026-10-19T00:00:00'), 'UTC')).toBeNull();
+  });
+});
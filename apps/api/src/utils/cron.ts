@@ -0,0 +1,168 @@
+/**
+ * CRON — Five-field cron expressions evaluated in a fixed time zone
+ * ==================================================================
+ * Supports `*`, lists (`1,15`), ranges (`1-5`) and steps (`*\/15`, `0-30/10`)
+ * in the usual fields: minute hour day-of-month month day-of-week.
+ * Day-of-week accepts 0-7 (0 and 7 = Sunday). As in classic cron, when both
+ * day fields are restricted a day matches if either one does.
+ *
+ * Usage:
+ *   const schedule = parseCron('0 2 * * *');
+ *   cronMatches(schedule, new Date(), 'Asia/Manila');
+ *   nextCronRun(schedule, new Date(), 'Asia/Manila');
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface ZonedParts {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7],  // day of week
+];
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const MINUTE_MS = 60 * 1000;
+// Enough to walk a little over a year of non-matching days and hours
+const MAX_SEARCH_STEPS = 50000;
+
+// Number('') is 0, so empty list items and stray dashes need their own check
+const toNumber = (value: string) => (/^\d+$/.test(value) ? Number(value) : NaN);
+
+function parseField(field: string, [min, max]: [number, number], expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...extraSteps] = part.split('/');
+    const step = stepPart === undefined ? 1 : toNumber(stepPart);
+    let start = min;
+    let end = max;
+    let extraBounds: string[] = [];
+
+    if (rangePart !== '*') {
+      const [from, to, ...rest] = rangePart.split('-');
+      start = toNumber(from);
+      end = to === undefined ? (stepPart === undefined ? start : max) : toNumber(to);
+      extraBounds = rest;
+    }
+
+    if (extraSteps.length || extraBounds.length
+      || ![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron expression "${expression}": bad field "${field}"`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i], expression)
+  );
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(date).forEach((part) => { parts[part.type] = part.value; });
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: WEEKDAYS[parts.weekday],
+  };
+}
+
+function dayMatches(schedule: CronSchedule, parts: ZonedParts): boolean {
+  if (!schedule.months.has(parts.month)) return false;
+  const domMatch = schedule.daysOfMonth.has(parts.day);
+  const dowMatch = schedule.daysOfWeek.has(parts.weekday);
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date, timeZone: string): boolean {
+  const parts = zonedParts(date, timeZone);
+  return dayMatches(schedule, parts) && schedule.hours.has(parts.hour) && schedule.minutes.has(parts.minute);
+}
+
+/**
+ * First minute strictly after `from` that matches the schedule, or null if
+ * nothing matches within roughly a year (e.g. "0 0 31 2 *").
+ */
+export function nextCronRun(schedule: CronSchedule, from: Date, timeZone: string): Date | null {
+  let time = Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const parts = zonedParts(new Date(time), timeZone);
+    if (!dayMatches(schedule, parts)) {
+      time += (24 * 60 - (parts.hour * 60 + parts.minute)) * MINUTE_MS;
+    } else if (!schedule.hours.has(parts.hour)) {
+      time += (60 - parts.minute) * MINUTE_MS;
+    } else if (!schedule.minutes.has(parts.minute)) {
+      time += MINUTE_MS;
+    } else {
+      return new Date(time);
+    }
+  }
+  return null;
+}
@@ -57,7 +57,7 @@ class InMemoryRedis implements RedisLike {
     return entry.value;
   }
 
-  async set(key: string, value: string, ...args: (string | number)[]): Promise<'OK'> {
+  async set(key: string, value: string, ...args: (string | number)[]): Promise<'OK' | null> {
     let expiresAt: number | null = null;
 
     // Parse EX <seconds> or PX <milliseconds>
@@ -68,6 +68,11 @@ class InMemoryRedis implements RedisLike {
       if (flag === 'PX')  { expiresAt = Date.now() + val; i++; }
     }
 
+    // NX: only set when the key is absent (used for locks), like real Redis
+    if (args.some((arg) => String(arg).toUpperCase() === 'NX') && await this.exists(key)) {
+      return null;
+    }
+
     this.store.set(key, { value, expiresAt });
     return 'OK';
   }
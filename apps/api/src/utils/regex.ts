@@ -0,0 +1,4 @@
+// Escape user input for use inside a RegExp or a MongoDB $regex
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,21 +1,55 @@
+const testMatch = [
+  '**/__tests__/**/*.[jt]s?(x)',
+  '**/?(*.)+(spec|test).[jt]s?(x)'
+];
+// Ignore test files that don't exist yet
+const testPathIgnorePatterns = [
+  '/node_modules/',
+  '/dist/',
+  '/build/'
+];
+
 /** @type {import('jest').Config} */
 module.exports = {
-  preset: 'ts-jest',
-  testEnvironment: 'jsdom',
-  roots: ['<rootDir>/src', '<rootDir>/apps'],
-  setupFilesAfterEnv: ['<rootDir>/jest.setup.cjs'],
-  moduleNameMapper: {
-    '\\.(css|less|scss|sass)$': 'identity-obj-proxy',
-    '^@/(.*)$': '<rootDir>/src/$1',
-    '^@discovergroup/types$': '<rootDir>/packages/types/src',
-  },
-  transform: {
-    '^.+\\.tsx?$': ['ts-jest', {
-      tsconfig: {
-        jsx: 'react-jsx',
+  projects: [
+    {
+      displayName: 'web',
+      preset: 'ts-jest',
+      testEnvironment: 'jsdom',
+      roots: ['<rootDir>/src', '<rootDir>/apps/admin'],
+      setupFilesAfterEnv: ['<rootDir>/jest.setup.cjs'],
+      moduleNameMapper: {
+        '\\.(css|less|scss|sass)$': 'identity-obj-proxy',
+        '^@/(.*)$': '<rootDir>/src/$1',
+        '^@discovergroup/types$': '<rootDir>/packages/types/src',
       },
-    }],
-  },
+      transform: {
+        '^.+\\.tsx?$': ['ts-jest', {
+          tsconfig: {
+            jsx: 'react-jsx',
+          },
+        }],
+      },
+      testMatch,
+      testPathIgnorePatterns,
+    },
+    {
+      // The API runs on Node and compiles with its own tsconfig
+      displayName: 'api',
+      testEnvironment: 'node',
+      roots: ['<rootDir>/apps/api'],
+      moduleNameMapper: {
+        '^@discovergroup/types$': '<rootDir>/packages/types/src',
+      },
+      transform: {
+        '^.+\\.ts$': ['ts-jest', {
+          tsconfig: '<rootDir>/apps/api/tsconfig.json',
+        }],
+      },
+      testMatch,
+      testPathIgnorePatterns,
+    },
+  ],
   collectCoverageFrom: [
     'src/**/*.{ts,tsx}',
     'apps/**/*.{ts,tsx}',
@@ -31,14 +65,4 @@ module.exports = {
       statements: 50,
     },
   },
-  testMatch: [
-    '**/__tests__/**/*.[jt]s?(x)',
-    '**/?(*.)+(spec|test).[jt]s?(x)'
-  ],
-  // Ignore test files that don't exist yet
-  testPathIgnorePatterns: [
-    '/node_modules/',
-    '/dist/',
-    '/build/'
-  ],
 };
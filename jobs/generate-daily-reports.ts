@@ -1,14 +0,0 @@
-import fs from "fs";
-import path from "path";
-
-async function main() {
-  console.log("Generating daily reports (placeholder)...");
-  const out = path.resolve(process.cwd(), "jobs-output");
-  if (!fs.existsSync(out)) fs.mkdirSync(out);
-  fs.writeFileSync(path.join(out, `daily-report-${Date.now()}.csv`), "date,tx_count,total_amount\n");
-  console.log("Wrote placeholder report to jobs-output directory");
-}
-
-if (require.main === module) {
-  void main();
-}
\ No newline at end of file
@@ -10,6 +10,16 @@ export type ItineraryItem = {
   description?: string;
 };
 
+export type DepartureDate = {
+  start: string; // ISO date string
+  end: string;
+  maxCapacity?: number;
+  currentBookings?: number;
+  heldSeats?: number;
+  isAvailable?: boolean;
+  price?: number; // per-departure price override
+};
+
 export type FullStop = {
   city: string;
   country: string;
@@ -25,6 +35,20 @@ export type AdditionalInfo = {
   [key: string]: unknown;
 };
 
+// Add-on fee from Settings that a perk discounts
+export type TourPerkAddOn = "visa" | "insurance" | "passport";
+// "full_payment": only when the booking is paid in full (online or cash), not on downpayment
+export type TourPerkEligibility = "full_payment" | "any";
+
+// Perks without an add-on are listed to customers but do not change the price
+export type TourPerk = {
+  label: string;
+  type: "free" | "percent_off";
+  value?: number; // percent off when type is "percent_off"
+  addOn?: TourPerkAddOn;
+  eligibility?: TourPerkEligibility; // defaults to "full_payment"
+};
+
 export type Tour = {
   // ID in your mock is a string like "1" or a slug-based id; choose string for compatibility
   id: string;
@@ -43,6 +67,7 @@ export type Tour = {
   facebookPostUrl?: string; // Facebook post URL to embed on tour detail page
 
   travelWindow?: TravelWindow | null;
+  departureDates?: DepartureDate[];
   itinerary?: ItineraryItem[];
   fullStops?: FullStop[];
 
@@ -72,18 +97,25 @@ export type Tour = {
     flipbookUrl?: string; // individual flipbook link for this optional tour
   }[];
 
-  // Full cash payment freebies
-  cashFreebies?: {
-    label: string;
-    type: "free" | "percent_off";
-    value?: number;
-  }[];
+  // Freebies and promo perks, e.g. "50% off Visa Processing"
+  cashFreebies?: TourPerk[];
 
   // Reservation payment rules
   fixedDownpaymentAmount?: number;     // e.g. 50000 PHP — fixed downpayment amount
   balanceDueDaysBeforeTravel?: number; // e.g. 90 days before departure
   allowsDownpayment?: boolean;
 
+  // Latest revision number; unset until the tour is first saved with history
+  revision?: number;
+
+  // Publishing workflow; a tour without a status predates it and is published
+  status?: TourStatus;
+  publishAt?: string | null;
+  unpublishAt?: string | null;
+  publishedAt?: string | null;
+  statusUpdatedAt?: string;
+  statusUpdatedBy?: string;
+
   // allow future fields without breaking consumers
   [key: string]: unknown;
 };
@@ -103,5 +135,194 @@ export type TourCreate = Partial<
     | "additionalInfo"
     | "isSaleEnabled"
     | "saleEndDate"
+    | "travelWindow"
+    | "departureDates"
+    | "bookingLinks"
+    | "optionalTours"
+    | "cashFreebies"
+    | "fixedDownpaymentAmount"
+    | "balanceDueDaysBeforeTravel"
+    | "allowsDownpayment"
   >
->;
\ No newline at end of file
+> & {
+  continent?: string;
+};
+
+// ── Brochure import ──────────────────────────────────────────────────────────
+// The API parses pasted brochure text into a TourCreate draft and reports
+// what it found per field, so admins can review guesses before applying them.
+
+export type BrochureFieldConfidence = "high" | "medium" | "low";
+
+export type BrochureField =
+  | "title"
+  | "slug"
+  | "line"
+  | "continent"
+  | "durationDays"
+  | "departureDates"
+  | "travelWindow"
+  | "regularPricePerPerson"
+  | "bookingLinks"
+  | "optionalTours"
+  | "allowsDownpayment"
+  | "fixedDownpaymentAmount"
+  | "balanceDueDaysBeforeTravel"
+  | "countriesVisited"
+  | "citiesToVisit"
+  | "cashFreebies";
+
+export type ParsedTourField = {
+  field: BrochureField;
+  value: unknown;
+  confidence: BrochureFieldConfidence;
+  reason: string; // what in the text the value came from
+  // Only present when the draft was compared with a saved tour
+  current?: unknown;
+  changed?: boolean;
+};
+
+export type BrochureParseResult = {
+  draft: TourCreate;
+  fields: ParsedTourField[];
+  unparsedLines: string[]; // lines inside a known section that were not understood
+};
+
+// ── Tour publishing ──────────────────────────────────────────────────────────
+// Only published tours are listed on the public site; publish and unpublish can
+// be scheduled for timed sale launches.
+
+export type TourStatus = "draft" | "in_review" | "published" | "archived";
+
+// Body of POST /admin/tours/:id/status; null clears a schedule
+export type TourStatusChange = {
+  status?: TourStatus;
+  publishAt?: string | null;
+  unpublishAt?: string | null;
+};
+
+export type TourPreviewLink = {
+  url: string;
+  token: string;
+  expiresAt: string;
+};
+
+// ── Tour revisions ───────────────────────────────────────────────────────────
+// Every admin save of a tour is kept as an immutable snapshot that can be
+// compared with other revisions and restored.
+
+// "baseline" is the state of a tour from before revision history began
+export type TourRevisionAction = "create" | "update" | "restore" | "baseline";
+
+export type TourRevision = {
+  _id: string;
+  tourId: string;
+  revision: number;
+  action: TourRevisionAction;
+  restoredFrom?: number;
+  changedFields: string[]; // dotted paths changed since the previous revision
+  authorName: string;
+  createdAt: string;
+  snapshot?: Record<string, unknown>; // only when a single revision is fetched
+};
+
+export type TourFieldChange = {
+  path: string; // e.g. "regularPricePerPerson" or "additionalInfo.countriesVisited"
+  before: unknown;
+  after: unknown;
+};
+
+export type TourRevisionDiff = {
+  from: number;
+  to: number;
+  changes: TourFieldChange[];
+};
+// ── Permissions ──────────────────────────────────────────────────────────────
+// What staff roles may do. The API checks these on every mutating route and the
+// admin app uses them to show only what a role can use. Super-admins can change
+// the grants of the other roles and add custom roles.
+
+export const PERMISSIONS = [
+  { key: "canAccessBookings", group: "Bookings", label: "Open bookings" },
+  { key: "canViewAllBookings", group: "Bookings", label: "See every customer's bookings" },
+  { key: "canCreateBookings", group: "Bookings", label: "Create bookings and convert quotes" },
+  { key: "canManageBookingStatus", group: "Bookings", label: "Change status, payments and travellers" },
+  { key: "canCancelBookings", group: "Bookings", label: "Approve cancellations and refunds" },
+  { key: "canDeleteBookings", group: "Bookings", label: "Delete bookings permanently" },
+  { key: "canAccessTours", group: "Tours", label: "Open tours" },
+  { key: "canCreateTours", group: "Tours", label: "Create tours" },
+  { key: "canEditTours", group: "Tours", label: "Edit, publish and restore tours" },
+  { key: "canDeleteTours", group: "Tours", label: "Delete tours" },
+  { key: "canAccessVisaAssistance", group: "Visa", label: "Open visa assistance" },
+  { key: "canProcessVisaApplications", group: "Visa", label: "Process applications and visa rules" },
+  { key: "canUpdateVisaStatus", group: "Visa", label: "Update visa application status" },
+  { key: "canAccessCustomerService", group: "Customers", label: "Open customer service" },
+  { key: "canRespondToInquiries", group: "Customers", label: "Handle inquiries and tasks" },
+  { key: "canAccessCustomerData", group: "Customers", label: "See customer details" },
+  { key: "canAccessSales", group: "Customers", label: "Open sales" },
+  { key: "canManageContent", group: "Content", label: "Edit homepage, banners, countries, videos and reviews" },
+  { key: "canAccessReports", group: "Administration", label: "Run reports" },
+  { key: "canAccessSettings", group: "Administration", label: "Change settings and email templates" },
+  { key: "canAccessUserManagement", group: "Administration", label: "Manage staff accounts" },
+  { key: "canManageSystem", group: "Administration", label: "Run jobs, maintenance and monitoring fixes" },
+  { key: "canManageRoles", group: "Administration", label: "Edit roles and permissions" },
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number]["key"];
+
+export type PermissionGroup = (typeof PERMISSIONS)[number]["group"];
+
+export const BUILT_IN_ROLES = [
+  "super_admin",
+  "administrator",
+  "web_developer",
+  "booking_department",
+  "visa_department",
+  "csr_department",
+] as const;
+
+export type BuiltInRole = (typeof BUILT_IN_ROLES)[number];
+
+// Super-admins always hold every permission so they cannot lock themselves out
+export const SUPER_ADMIN_ROLE: BuiltInRole = "super_admin";
+
+const ALL_PERMISSIONS: Permission[] = PERMISSIONS.map((p) => p.key);
+
+// Grants a built-in role has until a super-admin changes them
+export const DEFAULT_ROLE_PERMISSIONS: Record<BuiltInRole, Permission[]> = {
+  super_admin: ALL_PERMISSIONS,
+  administrator: ALL_PERMISSIONS.filter((p) => p !== "canManageRoles"),
+  web_developer: ALL_PERMISSIONS.filter((p) => p !== "canManageRoles"),
+  booking_department: [
+    "canAccessBookings", "canViewAllBookings", "canCreateBookings", "canManageBookingStatus", "canCancelBookings",
+    "canAccessTours", "canCreateTours", "canEditTours",
+    "canAccessCustomerService", "canRespondToInquiries", "canAccessCustomerData", "canAccessSales",
+    "canAccessReports",
+  ],
+  visa_department: [
+    "canViewAllBookings",
+    "canAccessVisaAssistance", "canProcessVisaApplications", "canUpdateVisaStatus",
+    "canAccessCustomerService", "canRespondToInquiries", "canAccessCustomerData",
+    "canAccessReports",
+  ],
+  csr_department: [
+    "canAccessBookings", "canViewAllBookings", "canManageBookingStatus", "canCancelBookings",
+    "canAccessCustomerService", "canRespondToInquiries", "canAccessCustomerData",
+  ],
+};
+
+// A role as returned by GET /admin/roles; built-in roles cannot be renamed or deleted
+export type RoleDefinition = {
+  key: string;
+  name: string;
+  permissions: Permission[];
+  builtIn: boolean;
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+// Body of PUT /admin/roles/:key; custom role keys are lowercase with underscores
+export type RoleUpdate = {
+  name?: string;
+  permissions: Permission[];
+};
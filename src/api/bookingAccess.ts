@@ -0,0 +1,49 @@
+// Booking Access API Client
+// "Find my booking" for guests: request an emailed access link, then view the
+// booking and upload passport/visa copies with the token from that link
+import { buildApiUrl } from '../config/apiBase';
+import { mapTrip, type Trip, type TripDocumentType } from './trips';
+
+export type GuestTrip = Trip & {
+  // When the access link stops working
+  accessExpiresAt: string;
+};
+
+async function readGuestTrip(res: Response, fallbackError: string): Promise<GuestTrip> {
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error || fallbackError);
+  }
+  return { ...mapTrip(body), accessExpiresAt: String(body.accessExpiresAt) };
+}
+
+// Resolves the same way whether or not the booking exists
+export async function requestBookingAccessLink(bookingId: string, email: string): Promise<string> {
+  const res = await fetch(buildApiUrl('/api/booking-access'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ bookingId, email }),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error || (res.status === 429 ? 'Too many requests, please try again later.' : 'Failed to send the link'));
+  }
+  return body.message;
+}
+
+export async function fetchGuestTrip(token: string): Promise<GuestTrip> {
+  const res = await fetch(buildApiUrl(`/api/booking-access/${encodeURIComponent(token)}`));
+  return readGuestTrip(res, 'Failed to load your booking');
+}
+
+export async function uploadGuestTripDocument(token: string, type: TripDocumentType, file: File): Promise<GuestTrip> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('type', type);
+
+  const res = await fetch(buildApiUrl(`/api/booking-access/${encodeURIComponent(token)}/documents`), {
+    method: 'POST',
+    body: formData,
+  });
+  return readGuestTrip(res, 'Upload failed');
+}
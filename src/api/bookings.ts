@@ -1,5 +1,6 @@
-import type { Booking, Tour, BookingStatus, PaymentType, CustomRoute } from "../types";
+import type { Booking, Tour, BookingStatus, PaymentType, CustomRoute, InstallmentPlan, InstallmentPayment, BookingCancellation, Traveller } from "../types";
 import { buildApiUrl } from "../config/apiBase";
+import type { AppliedPerk } from "../utils/perks";
 
 // Helper function to generate a booking ID
 function generateBookingId(): string {
@@ -19,6 +20,93 @@ function getTourTitleFromSlug(slug: string): string {
 
 // Removed initializeSampleData to prevent dummy bookings from being created
 
+export type SelectedOptionalTour = { day: number; title: string; pricePerPerson: number };
+
+export type BookingQuoteLineItem = {
+  code: string;
+  label: string;
+  unitAmount: number;
+  quantity: number;
+  amount: number;
+  appliesTo?: string;
+};
+
+export type BookingQuote = {
+  currency: 'PHP';
+  tourSlug: string;
+  tourRevision?: number;
+  selectedDate: string;
+  passengers: number;
+  priceSource: 'departure' | 'sale' | 'regular' | 'per_day';
+  basePerPerson: number;
+  promoBannerDiscountPerPerson: number;
+  customRoutesPerPerson: number;
+  optionalToursPerPerson: number;
+  optionalTours: SelectedOptionalTour[];
+  perPerson: number;
+  addOns: {
+    visaAssistanceFee: number;
+    travelInsuranceFee: number;
+    passportAssistanceFee: number;
+  };
+  perks: AppliedPerk[];
+  lineItems: BookingQuoteLineItem[];
+  totalAmount: number;
+  paidAmount: number;
+  computedAt: string;
+};
+
+// Ask the backend for the authoritative, itemized price of a booking
+export async function fetchBookingQuote(request: {
+  tourSlug: string;
+  selectedDate: string;
+  passengers: number;
+  paymentType?: PaymentType;
+  paidAmount?: number;
+  customRoutes?: Array<{ tourSlug: string }>;
+  optionalTours?: Array<{ day: number; title: string }>;
+  visaAssistanceRequested?: boolean;
+  travelInsuranceRequested?: boolean;
+  passportAssistanceRequested?: boolean;
+}): Promise<BookingQuote> {
+  const res = await fetch(buildApiUrl('/api/bookings/quote'), {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Failed to fetch booking quote: ${res.status}`);
+  }
+  return res.json();
+}
+
+// Map the backend's installment plan onto the customer-facing shape
+function mapInstallmentPlan(raw: unknown): InstallmentPlan | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const plan = raw as Record<string, unknown>;
+  if (!Array.isArray(plan.payments) || plan.payments.length === 0) return undefined;
+  const payments = (plan.payments as Array<Record<string, unknown>>).map((p) => ({
+    id: String(p.id ?? ''),
+    sequence: typeof p.sequence === 'number' ? p.sequence : undefined,
+    kind: p.kind === 'final_balance' ? 'final_balance' as const : 'installment' as const,
+    dueDate: typeof p.dueDate === 'string' ? p.dueDate : '',
+    amount: typeof p.amount === 'number' ? p.amount : 0,
+    status: (p.status === 'paid' || p.status === 'overdue' ? p.status : 'pending') as InstallmentPayment['status'],
+    paidDate: typeof p.paidDate === 'string' ? p.paidDate : undefined,
+    paymentIntentId: typeof p.paymentIntentId === 'string' ? p.paymentIntentId : undefined,
+  }));
+  return {
+    totalMonths: typeof plan.installmentCount === 'number' ? plan.installmentCount : payments.length,
+    monthlyAmount: typeof plan.monthlyAmount === 'number' ? plan.monthlyAmount : 0,
+    startDate: payments[0].dueDate,
+    downpaymentAmount: typeof plan.downpaymentAmount === 'number' ? plan.downpaymentAmount : undefined,
+    balanceDueDate: typeof plan.balanceDueDate === 'string' ? plan.balanceDueDate : undefined,
+    payments,
+  };
+}
+
 // Create a new booking (POST to backend)
 export async function createBooking(bookingData: {
   tour: Tour;
@@ -26,6 +114,8 @@ export async function createBooking(bookingData: {
   customerEmail: string;
   customerPhone: string;
   customerPassport?: string;
+  nationality?: string;
+  travellers?: Traveller[];
   selectedDate: string;
   passengers: number;
   perPerson: number;
@@ -35,6 +125,7 @@ export async function createBooking(bookingData: {
   appointmentTime?: string;
   appointmentPurpose?: string;
   customRoutes?: CustomRoute[];
+  optionalTours?: SelectedOptionalTour[];
   installmentPlan?: unknown;
   visaAssistanceRequested?: boolean;
   visaAssistanceFee?: number;
@@ -47,9 +138,12 @@ export async function createBooking(bookingData: {
   passportPaxDetails?: Array<{name: string; birthday: string}>;
   passportUrl?: string;
   visaUrl?: string;
+  // Site language; the confirmation and later reminder emails are sent in it
+  locale?: 'en' | 'tl';
 }): Promise<Booking> {
   const bookingId = generateBookingId();
-  const baseTotalAmount = bookingData.perPerson * bookingData.passengers;
+  const optionalToursPerPerson = (bookingData.optionalTours || []).reduce((sum, ot) => sum + ot.pricePerPerson, 0);
+  const baseTotalAmount = (bookingData.perPerson + optionalToursPerPerson) * bookingData.passengers;
   const visaFee = bookingData.visaAssistanceRequested ? (bookingData.visaAssistanceFee ?? 10000) * bookingData.passengers : 0;
   const insuranceFee = bookingData.travelInsuranceRequested ? (bookingData.travelInsuranceFee ?? 3000) * bookingData.passengers : 0;
   const passportFee = bookingData.passportAssistanceRequested ? (bookingData.passportAssistanceFee ?? 5000) * bookingData.passengers : 0;
@@ -64,6 +158,8 @@ export async function createBooking(bookingData: {
     customerEmail: bookingData.customerEmail,
     customerPhone: bookingData.customerPhone,
     customerPassport: bookingData.customerPassport,
+    nationality: bookingData.nationality,
+    travellers: bookingData.travellers,
     selectedDate: bookingData.selectedDate,
     passengers: bookingData.passengers,
     perPerson: bookingData.perPerson,
@@ -79,6 +175,9 @@ export async function createBooking(bookingData: {
     appointmentTime: bookingData.appointmentTime,
     appointmentPurpose: bookingData.appointmentPurpose,
     customRoutes: bookingData.customRoutes || [],
+    optionalTours: (bookingData.optionalTours || []).map(({ day, title }) => ({ day, title })),
+    // The server builds the authoritative schedule; it only uses the requested number of months
+    installmentPlan: bookingData.installmentPlan,
     visaAssistanceRequested: bookingData.visaAssistanceRequested || false,
     visaAssistanceFee: bookingData.visaAssistanceRequested ? (bookingData.visaAssistanceFee ?? 10000) : 0,
     visaPaxDetails: bookingData.visaPaxDetails || [],
@@ -90,12 +189,18 @@ export async function createBooking(bookingData: {
     passportPaxDetails: bookingData.passportPaxDetails || [],
     passportUrl: bookingData.passportUrl || undefined,
     visaUrl: bookingData.visaUrl || undefined,
+    locale: bookingData.locale,
   };
 
+  // Signed-in customers become the booking's owner, so it shows in My Trips
+  const token = localStorage.getItem('token');
   const res = await fetch(buildApiUrl('/api/bookings'), {
     method: 'POST',
     credentials: 'include',
-    headers: { 'Content-Type': 'application/json' },
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    },
     body: JSON.stringify(payload),
   });
   
@@ -120,117 +225,63 @@ export async function createBooking(bookingData: {
   };
 }
 
-// Get all bookings
-export async function fetchAllBookings(): Promise<Booking[]> {
-  // Try to fetch from backend
-  try {
-    const res = await fetch(buildApiUrl('/api/bookings'));
-    if (!res.ok) throw new Error('Failed to fetch bookings');
-    const data = await res.json();
-    // If backend returns bookings, map them to Booking type
-    return (data as Array<Record<string, unknown>>).map((b) => {
-      // Create a minimal tour object from tourSlug since full tour data isn't stored in MongoDB
-      const tour: Tour = {
-        id: typeof b.tourSlug === 'string' ? b.tourSlug : '',
-        slug: typeof b.tourSlug === 'string' ? b.tourSlug : '',
-        title: getTourTitleFromSlug(typeof b.tourSlug === 'string' ? b.tourSlug : ''),
-        summary: '',
-        line: 'ROUTE_A',
-        durationDays: 14,
-        highlights: [],
-        images: [],
-        guaranteedDeparture: true,
-        regularPricePerPerson: typeof b.perPerson === 'number' ? b.perPerson : 0,
-        promoPricePerPerson: typeof b.perPerson === 'number' ? b.perPerson : 0,
-        allowsDownpayment: true,
-        additionalInfo: {
-          countriesVisited: [],
-          startingPoint: 'Manila, Philippines',
-          endingPoint: 'Manila, Philippines'
-        },
-        itinerary: [],
-        fullStops: [],
-        departureDates: [],
-        travelWindow: { start: '', end: '' }
-      };
-      
-      const booking: Booking = {
-        id: typeof b._id === 'string' ? b._id : (typeof b.bookingId === 'string' ? b.bookingId : ''),
-        bookingId: typeof b.bookingId === 'string' ? b.bookingId : '',
-        tour,
-        customerName: typeof b.customerName === 'string' ? b.customerName : '',
-        customerEmail: typeof b.customerEmail === 'string' ? b.customerEmail : '',
-        customerPhone: typeof b.customerPhone === 'string' ? b.customerPhone : '',
-        customerPassport: typeof b.customerPassport === 'string' ? b.customerPassport : undefined,
-        selectedDate: typeof b.selectedDate === 'string' ? b.selectedDate : '',
-        passengers: typeof b.passengers === 'number' ? b.passengers : 0,
-        perPerson: typeof b.perPerson === 'number' ? b.perPerson : 0,
-        totalAmount: typeof b.totalAmount === 'number' ? b.totalAmount : 0,
-        paidAmount: typeof b.paidAmount === 'number' ? b.paidAmount : 0,
-        paymentType: (typeof b.paymentType === 'string' ? b.paymentType : 'full') as PaymentType,
-        status: (typeof b.status === 'string' ? b.status : 'confirmed') as BookingStatus,
-        bookingDate: typeof b.bookingDate === 'string' ? b.bookingDate : '',
-        paymentIntentId: typeof b.paymentIntentId === 'string' ? b.paymentIntentId : undefined,
-        notes: typeof b.notes === 'string' ? b.notes : undefined,
-        appointmentDate: typeof b.appointmentDate === 'string' ? b.appointmentDate : undefined,
-        appointmentTime: typeof b.appointmentTime === 'string' ? b.appointmentTime : undefined,
-        appointmentPurpose: typeof b.appointmentPurpose === 'string' ? b.appointmentPurpose : undefined,
-      };
-      return booking;
-    }).sort((a, b) => new Date(b.bookingDate).getTime() - new Date(a.bookingDate).getTime());
-  } catch {
-    throw new Error('Failed to fetch bookings from backend');
-  }
-}
-
-// Get booking by ID
-export async function fetchBookingById(bookingId: string): Promise<Booking | null> {
-  const bookings = await fetchAllBookings();
-  return bookings.find(booking => booking.bookingId === bookingId) || null;
-}
-
-// Update booking status (must be implemented via backend API)
-export async function updateBookingStatus(bookingId: string, status: BookingStatus): Promise<Booking | null> {
-  // Call backend to update status for the given bookingId
-  const res = await fetch(buildApiUrl(`/api/bookings/${encodeURIComponent(bookingId)}/status`), {
-    method: 'PATCH',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ status }),
-  });
-
-  if (!res.ok) {
-    if (res.status === 404) return null;
-    throw new Error('Failed to update booking status');
-  }
-
-  // Return the updated booking from backend (refresh via fetchBookingById)
-  return fetchBookingById(bookingId);
-}
-
-// Delete booking (must be implemented via backend API)
-export async function deleteBooking(bookingId: string): Promise<boolean> {
-  const res = await fetch(buildApiUrl(`/api/bookings/${encodeURIComponent(bookingId)}`), {
-    method: 'DELETE',
-    headers: { 'Content-Type': 'application/json' },
-  });
-
-  if (res.status === 404) return false;
-  if (!res.ok) throw new Error('Failed to delete booking');
-  return true;
-}
-
-// Search bookings by customer email
-export async function searchBookingsByEmail(email: string): Promise<Booking[]> {
-  const bookings = await fetchAllBookings();
-  return bookings.filter(booking => 
-    booking.customerEmail.toLowerCase().includes(email.toLowerCase())
-  );
-}
-
-// Get bookings by status
-export async function fetchBookingsByStatus(status: BookingStatus): Promise<Booking[]> {
-  const bookings = await fetchAllBookings();
-  return bookings.filter(booking => booking.status === status);
+// Map a booking document from the API onto the frontend Booking type
+export function mapBookingRecord(b: Record<string, unknown>): Booking {
+  // Create a minimal tour object from tourSlug since full tour data isn't stored in MongoDB
+  const tour: Tour = {
+    id: typeof b.tourSlug === 'string' ? b.tourSlug : '',
+    slug: typeof b.tourSlug === 'string' ? b.tourSlug : '',
+    title: getTourTitleFromSlug(typeof b.tourSlug === 'string' ? b.tourSlug : ''),
+    summary: '',
+    line: 'ROUTE_A',
+    durationDays: 14,
+    highlights: [],
+    images: [],
+    guaranteedDeparture: true,
+    regularPricePerPerson: typeof b.perPerson === 'number' ? b.perPerson : 0,
+    promoPricePerPerson: typeof b.perPerson === 'number' ? b.perPerson : 0,
+    allowsDownpayment: true,
+    additionalInfo: {
+      countriesVisited: [],
+      startingPoint: 'Manila, Philippines',
+      endingPoint: 'Manila, Philippines'
+    },
+    itinerary: [],
+    fullStops: [],
+    departureDates: [],
+    travelWindow: { start: '', end: '' }
+  };
+  
+  const booking: Booking = {
+    id: typeof b._id === 'string' ? b._id : (typeof b.bookingId === 'string' ? b.bookingId : ''),
+    bookingId: typeof b.bookingId === 'string' ? b.bookingId : '',
+    tour,
+    customerName: typeof b.customerName === 'string' ? b.customerName : '',
+    customerEmail: typeof b.customerEmail === 'string' ? b.customerEmail : '',
+    customerPhone: typeof b.customerPhone === 'string' ? b.customerPhone : '',
+    customerPassport: typeof b.customerPassport === 'string' ? b.customerPassport : undefined,
+    selectedDate: typeof b.selectedDate === 'string' ? b.selectedDate : '',
+    passengers: typeof b.passengers === 'number' ? b.passengers : 0,
+    perPerson: typeof b.perPerson === 'number' ? b.perPerson : 0,
+    totalAmount: typeof b.totalAmount === 'number' ? b.totalAmount : 0,
+    paidAmount: typeof b.paidAmount === 'number' ? b.paidAmount : 0,
+    paymentType: (typeof b.paymentType === 'string' ? b.paymentType : 'full') as PaymentType,
+    status: (typeof b.status === 'string' ? b.status : 'confirmed') as BookingStatus,
+    bookingDate: typeof b.bookingDate === 'string' ? b.bookingDate : '',
+    paymentIntentId: typeof b.paymentIntentId === 'string' ? b.paymentIntentId : undefined,
+    notes: typeof b.notes === 'string' ? b.notes : undefined,
+    appointmentDate: typeof b.appointmentDate === 'string' ? b.appointmentDate : undefined,
+    appointmentTime: typeof b.appointmentTime === 'string' ? b.appointmentTime : undefined,
+    appointmentPurpose: typeof b.appointmentPurpose === 'string' ? b.appointmentPurpose : undefined,
+    installmentPlan: mapInstallmentPlan(b.installmentPlan),
+    cancellation: b.cancellation && typeof b.cancellation === 'object'
+      ? b.cancellation as BookingCancellation
+      : undefined,
+    travellers: Array.isArray(b.travellers) ? b.travellers as Traveller[] : undefined,
+    passportUrl: typeof b.passportUrl === 'string' ? b.passportUrl : undefined,
+    visaUrl: typeof b.visaUrl === 'string' ? b.visaUrl : undefined,
+  };
+  return booking;
 }
 
 // Review system integration
@@ -0,0 +1,58 @@
+// Builder Sessions API Client
+// Saves tour builder itineraries on the server and loads shared quotes
+import type { BuilderSession, BuilderSessionInput, SharedBuilderQuote } from '../types';
+import { buildApiUrl } from '../config/apiBase';
+
+async function readJson<T>(response: Response, fallback: string): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(errorData.error || `${fallback}: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Save a new builder session; keep the returned sessionId to update it later
+ */
+export async function createBuilderSession(input: BuilderSessionInput): Promise<BuilderSession> {
+  const response = await fetch(buildApiUrl('/api/builder-sessions'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  return readJson(response, 'Failed to save itinerary');
+}
+
+/**
+ * Replace the saved state of a builder session
+ */
+export async function updateBuilderSession(sessionId: string, input: BuilderSessionInput): Promise<BuilderSession> {
+  const response = await fetch(buildApiUrl(`/api/builder-sessions/${encodeURIComponent(sessionId)}`), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  return readJson(response, 'Failed to save itinerary');
+}
+
+/**
+ * Load a builder session to restore it; null when it no longer exists
+ */
+export async function fetchBuilderSession(sessionId: string): Promise<BuilderSession | null> {
+  const response = await fetch(buildApiUrl(`/api/builder-sessions/${encodeURIComponent(sessionId)}`));
+  if (response.status === 404) return null;
+  return readJson(response, 'Failed to load itinerary');
+}
+
+/**
+ * Read-only quote behind a shared link; null when the link is unknown
+ */
+export async function fetchSharedQuote(shareToken: string): Promise<SharedBuilderQuote | null> {
+  const response = await fetch(buildApiUrl(`/api/builder-sessions/share/${encodeURIComponent(shareToken)}`));
+  if (response.status === 404) return null;
+  return readJson(response, 'Failed to load quote');
+}
+
+export function sharedQuoteUrl(shareToken: string): string {
+  return `${window.location.origin}/quote/${encodeURIComponent(shareToken)}`;
+}
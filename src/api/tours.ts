@@ -1,4 +1,4 @@
-import type { Tour } from "../types/index.js";
+import type { Tour, TourSearchParams, TourSearchResult, TourSuggestion } from "../types/index.js";
 import { buildApiUrl } from "../config/apiBase";
 
 const API_TIMEOUT_MS = 10000;
@@ -49,9 +49,11 @@ export async function fetchFeaturedTours(limit: number = 6): Promise<Tour[]> {
   }
 }
 
-export async function fetchTourBySlug(slug: string): Promise<Tour | null> {
+// `preview` is a signed token from the admin preview link; it lets an unpublished tour load
+export async function fetchTourBySlug(slug: string, preview?: string): Promise<Tour | null> {
   try {
-    const response = await fetchWithTimeout(buildApiUrl(`/public/tours/${slug}`));
+    const query = preview ? `?preview=${encodeURIComponent(preview)}` : '';
+    const response = await fetchWithTimeout(buildApiUrl(`/public/tours/${slug}${query}`));
     if (!response.ok) {
       if (response.status === 404) return null;
       throw new Error(`Failed to fetch tour: ${response.status}`);
@@ -67,6 +69,51 @@ export async function fetchTourBySlug(slug: string): Promise<Tour | null> {
   }
 }
 
+function toSearchQuery(params: TourSearchParams): string {
+  const query = new URLSearchParams();
+  const lists: Array<[string, string[] | undefined]> = [
+    ['countries', params.countries],
+    ['continent', params.continents],
+    ['line', params.lines],
+    ['month', params.months],
+  ];
+  lists.forEach(([key, values]) => values?.forEach((value) => query.append(key, value)));
+  const scalars = {
+    q: params.q,
+    minDays: params.minDays,
+    maxDays: params.maxDays,
+    minPrice: params.minPrice,
+    maxPrice: params.maxPrice,
+    onSale: params.onSale || undefined,
+    guaranteed: params.guaranteed || undefined,
+    sort: params.sort,
+    limit: params.limit,
+    cursor: params.cursor,
+  };
+  Object.entries(scalars).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  });
+  return query.toString();
+}
+
+// Server-side filtered search with facet counts; pass nextCursor back as `cursor` for the next page
+export async function searchTours(params: TourSearchParams): Promise<TourSearchResult> {
+  const response = await fetchWithTimeout(buildApiUrl(`/public/tours/search?${toSearchQuery(params)}`));
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Failed to search tours: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Typeahead suggestions; the API returns none for fewer than 2 characters
+export async function fetchTourSuggestions(q: string): Promise<TourSuggestion[]> {
+  if (q.trim().length < 2) return [];
+  const response = await fetchWithTimeout(buildApiUrl(`/public/tours/suggest?q=${encodeURIComponent(q.trim())}`));
+  if (!response.ok) throw new Error(`Failed to fetch suggestions: ${response.status}`);
+  return response.json();
+}
+
 export async function fetchContinents(): Promise<string[]> {
   try {
     const tours = await fetchTours();
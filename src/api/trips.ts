@@ -0,0 +1,233 @@
+// My Trips API Client
+// The signed-in customer's own bookings: balance, traveller details,
+// passport/visa uploads and the downloadable confirmation; also their visa
+// applications and the document checklist on each
+import { buildApiUrl } from '../config/apiBase';
+import { isTokenExpired, refreshAuthToken } from '../utils/auth-validation';
+import { mapBookingRecord } from './bookings';
+import type { Booking, RefundEstimate, Traveller } from '../types';
+
+export type TripDocumentType = 'passport' | 'visa';
+
+export type TripBalance = {
+  outstanding: number;
+  overdueAmount: number;
+  overdueCount: number;
+  balanceDueDate?: string;
+};
+
+export type Trip = {
+  booking: Booking;
+  balance: TripBalance;
+  // Traveller details can be changed online until this date
+  travellerEditCutoff?: string;
+  canEditTravellers: boolean;
+  missingDocuments: TripDocumentType[];
+};
+
+export type CancellationQuote = {
+  estimate: RefundEstimate;
+  canRequest: boolean;
+  blockedReason?: string;
+  selfCancelDeadline?: string;
+  refundProcessingDays: number;
+  tiers: Array<{ minDaysBeforeDeparture: number; refundPercent: number }>;
+  nonRefundableAddOns: string[];
+};
+
+export type VisaApplicationStatus =
+  | 'pending'
+  | 'under_review'
+  | 'documents_requested'
+  | 'approved'
+  | 'rejected'
+  | 'completed';
+
+export type VisaDocumentStatus = 'missing' | 'uploaded' | 'accepted' | 'rejected';
+
+export type VisaChecklistItem = {
+  key: string;
+  label: string;
+  description?: string;
+  countries: string[];
+  status: VisaDocumentStatus;
+  fileUrl?: string;
+  uploadedAt?: string;
+  // Shown when the visa team rejected the last upload
+  rejectionReason?: string;
+};
+
+export type VisaApplication = {
+  applicationId: string;
+  status: VisaApplicationStatus;
+  applicationDate: string;
+  completeName: string;
+  bookingId?: string;
+  tourTitle?: string;
+  destinationCountries?: string;
+  checklist: VisaChecklistItem[];
+  embassyAppointment?: {
+    date: string;
+    time?: string;
+    location?: string;
+    reference?: string;
+  };
+};
+
+/**
+ * Fetch with the stored access token, refreshing it once when it has
+ * expired. The httpOnly cookie is sent as a fallback.
+ */
+async function authorizedFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  let token = localStorage.getItem('token');
+  if (token && isTokenExpired(token)) {
+    await refreshAuthToken();
+    token = localStorage.getItem('token');
+  }
+
+  const send = () => fetch(buildApiUrl(path), {
+    ...init,
+    credentials: 'include',
+    headers: {
+      ...init.headers,
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    },
+  });
+
+  let res = await send();
+  if (res.status === 401 && await refreshAuthToken()) {
+    token = localStorage.getItem('token');
+    res = await send();
+  }
+  return res;
+}
+
+async function readTrip(res: Response, fallbackError: string): Promise<Trip> {
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || fallbackError);
+  }
+  return mapTrip(await res.json());
+}
+
+export function mapTrip(raw: Record<string, unknown>): Trip {
+  return {
+    booking: mapBookingRecord((raw.booking ?? {}) as Record<string, unknown>),
+    balance: raw.balance as TripBalance,
+    travellerEditCutoff: typeof raw.travellerEditCutoff === 'string' ? raw.travellerEditCutoff : undefined,
+    canEditTravellers: Boolean(raw.canEditTravellers),
+    missingDocuments: Array.isArray(raw.missingDocuments) ? raw.missingDocuments as TripDocumentType[] : [],
+  };
+}
+
+export async function fetchMyTrips(): Promise<Trip[]> {
+  const res = await authorizedFetch('/api/my-trips');
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to load your trips');
+  }
+  return (await res.json() as Array<Record<string, unknown>>).map(mapTrip);
+}
+
+export async function saveTripTravellers(bookingId: string, travellers: Traveller[]): Promise<Trip> {
+  const res = await authorizedFetch(`/api/my-trips/${encodeURIComponent(bookingId)}/travellers`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ travellers }),
+  });
+  return readTrip(res, 'Failed to save traveller details');
+}
+
+// Upload the file to document storage, then attach it to the booking
+export async function uploadTripDocument(bookingId: string, type: TripDocumentType, file: File): Promise<Trip> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('type', type);
+
+  const upload = await authorizedFetch('/api/upload/document', { method: 'POST', body: formData });
+  if (!upload.ok) {
+    const body = await upload.json().catch(() => ({}));
+    throw new Error((body as { error?: string; message?: string }).message || body.error || 'Upload failed');
+  }
+  const { url } = await upload.json() as { url: string };
+
+  const res = await authorizedFetch(`/api/my-trips/${encodeURIComponent(bookingId)}/documents`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type, url }),
+  });
+  return readTrip(res, 'Failed to save document');
+}
+
+// What the cancellation policy would refund if the customer cancelled now
+export async function fetchCancellationQuote(bookingId: string): Promise<CancellationQuote> {
+  const res = await authorizedFetch(`/api/my-trips/${encodeURIComponent(bookingId)}/cancellation`);
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || 'Failed to load cancellation terms');
+  return body as CancellationQuote;
+}
+
+// Ask for a cancellation; an admin approves the refund before the booking is cancelled
+export async function requestCancellation(bookingId: string, reason?: string): Promise<void> {
+  const res = await authorizedFetch(`/api/my-trips/${encodeURIComponent(bookingId)}/cancellation`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reason }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to request cancellation');
+  }
+}
+
+// Visa applications made with the customer's verified email or for one of their bookings
+export async function fetchMyVisaApplications(): Promise<VisaApplication[]> {
+  const res = await authorizedFetch('/api/visa-applications/mine');
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || 'Failed to load your visa applications');
+  return (body.applications ?? []) as VisaApplication[];
+}
+
+// Upload the file to document storage, then attach it to the checklist item
+export async function uploadVisaChecklistDocument(applicationId: string, itemKey: string, file: File): Promise<VisaApplication> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('type', itemKey === 'passport' ? 'passport' : 'visa');
+
+  const upload = await authorizedFetch('/api/upload/document', { method: 'POST', body: formData });
+  if (!upload.ok) {
+    const body = await upload.json().catch(() => ({}));
+    throw new Error((body as { error?: string; message?: string }).message || body.error || 'Upload failed');
+  }
+  const { url } = await upload.json() as { url: string };
+
+  const res = await authorizedFetch(
+    `/api/visa-applications/${encodeURIComponent(applicationId)}/documents/${encodeURIComponent(itemKey)}`,
+    {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url }),
+    }
+  );
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || 'Failed to save document');
+  return body.application as VisaApplication;
+}
+
+// Save the booking confirmation as an HTML file the customer can open or print
+export async function downloadTripConfirmation(bookingId: string): Promise<void> {
+  const res = await authorizedFetch(`/api/my-trips/${encodeURIComponent(bookingId)}/confirmation`);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to download confirmation');
+  }
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `booking-${bookingId}.html`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
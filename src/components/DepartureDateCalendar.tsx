@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { ChevronLeft, ChevronRight, Calendar, Users, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
 import type { DepartureDate } from '../types';
+import { getAvailabilityLabel, getDepartureAvailability, getRemainingSeats } from '../utils/departureAvailability';
 
 interface DepartureDateCalendarProps {
   departureDates: DepartureDate[];
@@ -59,20 +60,6 @@ export function DepartureDateCalendar({ departureDates, selectedDate, onSelectDa
     return departureDateMap.get(dateStr);
   };
 
-  const getAvailabilityStatus = (dep: DepartureDate | undefined): 'available' | 'limited' | 'full' | 'unavailable' => {
-    if (!dep) return 'unavailable';
-    if (dep.isAvailable === false) return 'unavailable';
-    
-    if (dep.maxCapacity && dep.currentBookings !== undefined) {
-      const remaining = dep.maxCapacity - dep.currentBookings;
-      if (remaining === 0) return 'full';
-      if (remaining <= dep.maxCapacity * 0.2) return 'limited'; // 20% or less remaining
-      return 'available';
-    }
-    
-    return 'available';
-  };
-
   const getStatusColor = (status: 'available' | 'limited' | 'full' | 'unavailable'): string => {
     switch (status) {
       case 'available':
@@ -150,7 +137,7 @@ export function DepartureDateCalendar({ departureDates, selectedDate, onSelectDa
         {calendarDays.map((date, index) => {
           const dateStr = formatDate(date);
           const departure = getDepartureDateForDay(date);
-          const status = getAvailabilityStatus(departure);
+          const status = getDepartureAvailability(departure);
           const isSelected = selectedDate === dateStr;
           const dayIsToday = isToday(date);
           const inCurrentMonth = isCurrentMonth(date);
@@ -171,10 +158,15 @@ export function DepartureDateCalendar({ departureDates, selectedDate, onSelectDa
                 ${dayIsToday && !isSelected ? 'ring-1 ring-blue-300' : ''}
                 ${departure ? getStatusColor(status) : 'text-gray-400'}
               `}
-              title={departure ? `${status.charAt(0).toUpperCase() + status.slice(1)} - ${departure.currentBookings || 0}/${departure.maxCapacity || '∞'} booked` : 'No departure'}
+              title={departure ? (getAvailabilityLabel(departure) ?? 'Available') : 'No departure'}
             >
               <div className="flex flex-col items-center justify-center h-full">
                 <span>{date.getDate()}</span>
+                {departure && (status === 'full' || status === 'limited') && (
+                  <span className="text-[10px] leading-tight font-semibold">
+                    {status === 'full' ? 'Sold out' : `${getRemainingSeats(departure)} left`}
+                  </span>
+                )}
                 {departure && (
                   <span className="absolute bottom-1 right-1">
                     {getStatusIcon(status)}
@@ -196,11 +188,11 @@ export function DepartureDateCalendar({ departureDates, selectedDate, onSelectDa
           </div>
           <div className="flex items-center gap-2">
             <div className="w-4 h-4 bg-yellow-500 rounded"></div>
-            <span className="text-gray-600">Limited Spots</span>
+            <span className="text-gray-600">Only a Few Seats Left</span>
           </div>
           <div className="flex items-center gap-2">
             <div className="w-4 h-4 bg-red-500 rounded"></div>
-            <span className="text-gray-600">Fully Booked</span>
+            <span className="text-gray-600">Sold Out</span>
           </div>
           <div className="flex items-center gap-2">
             <div className="w-4 h-4 bg-gray-100 rounded border"></div>
@@ -225,8 +217,8 @@ export function DepartureDateCalendar({ departureDates, selectedDate, onSelectDa
               </h4>
               {(() => {
                 const dep = departureDateMap.get(selectedDate);
-                if (dep?.maxCapacity && dep.currentBookings !== undefined) {
-                  const remaining = dep.maxCapacity - dep.currentBookings;
+                const remaining = dep ? getRemainingSeats(dep) : null;
+                if (dep && remaining !== null) {
                   return (
                     <p className="text-sm text-gray-600">
                       <span className="font-medium">{remaining}</span> spot{remaining !== 1 ? 's' : ''} remaining out of {dep.maxCapacity}
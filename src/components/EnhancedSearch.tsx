@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import SecureForm from './SecureForm';
-import { MapPin, TrendingUp } from 'lucide-react';
+import { Building2, Globe, MapPin, TrendingUp } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { fetchTourSuggestions } from '../api/tours';
 
 interface SearchSuggestion {
   type: 'destination' | 'tour' | 'country';
@@ -12,7 +13,19 @@ interface SearchSuggestion {
 }
 
 
-import type { Tour } from "../types";
+import type { Tour, TourSuggestion } from "../types";
+
+// Typeahead results from the search API, linked to the page each one opens
+function toSearchSuggestion(suggestion: TourSuggestion): SearchSuggestion {
+  switch (suggestion.type) {
+    case 'tour':
+      return { type: 'tour', title: suggestion.label, subtitle: suggestion.subtitle, url: `/tour/${suggestion.slug}`, icon: <MapPin className="w-4 h-4" /> };
+    case 'country':
+      return { type: 'country', title: suggestion.label, subtitle: suggestion.subtitle, url: `/search?countries=${encodeURIComponent(suggestion.label)}`, icon: <Globe className="w-4 h-4" /> };
+    default:
+      return { type: 'destination', title: suggestion.label, subtitle: suggestion.subtitle, url: `/search?q=${encodeURIComponent(suggestion.label)}`, icon: <Building2 className="w-4 h-4" /> };
+  }
+}
 
 interface EnhancedSearchProps {
   placeholder?: string;
@@ -79,21 +92,28 @@ export const EnhancedSearch: React.FC<EnhancedSearchProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setQuery(value);
-    
-    if (value.length > 0) {
-      // Filter suggestions based on query from real tours
-      const filtered = popularDestinations.filter(
-        suggestion =>
-          suggestion.title.toLowerCase().includes(value.toLowerCase()) ||
-          (suggestion.subtitle && suggestion.subtitle.toLowerCase().includes(value.toLowerCase()))
-      );
-      setSuggestions(filtered);
-    } else {
+  // Ask the API for suggestions once typing pauses; late responses for older text are dropped
+  useEffect(() => {
+    if (query.trim().length < 2) {
       setSuggestions([]);
+      return;
     }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      fetchTourSuggestions(query)
+        .then((results) => {
+          if (!cancelled) setSuggestions(results.map(toSearchSuggestion));
+        })
+        .catch((err) => console.error('Failed to load search suggestions:', err));
+    }, 200);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(e.target.value);
     setIsOpen(true);
   };
 
@@ -114,9 +134,6 @@ export const EnhancedSearch: React.FC<EnhancedSearchProps> = ({
 
   const handleFocus = () => {
     setIsOpen(true);
-    if (query.length === 0) {
-      setSuggestions(popularDestinations);
-    }
   };
 
   return (
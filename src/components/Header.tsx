@@ -412,9 +412,9 @@ export default function Header(): React.ReactElement {
                     </div>
                     <ul className="py-2 text-sm">
                       <li>
-                        <Link to="/bookings" className="flex items-center gap-3 px-5 py-3 hover:bg-blue-50 transition-all group text-gray-900" onClick={() => setUserMenuOpen(false)}>
+                        <Link to="/my-trips" className="flex items-center gap-3 px-5 py-3 hover:bg-blue-50 transition-all group text-gray-900" onClick={() => setUserMenuOpen(false)}>
                           <span className="text-lg group-hover:scale-110 transition-transform">📋</span>
-                          <span className="font-medium">{t('nav.myBookings')}</span>
+                          <span className="font-medium">{t('nav.myTrips')}</span>
                         </Link>
                       </li>
                       <li>
@@ -491,7 +491,7 @@ export default function Header(): React.ReactElement {
               <div className="flex flex-col gap-4">
                 <a href="/routes" className="py-2 border-b hover:text-blue-600">Our Routes</a>
                 <a href="/joining-points" className="py-2 border-b hover:text-blue-600">Joining Points</a>
-                <a href="/bookings" className="py-2 border-b hover:text-blue-600">My Bookings</a>
+                <a href="/my-trips" className="py-2 border-b hover:text-blue-600">My Trips</a>
                 <a href="/contact" className="py-2 border-b hover:text-blue-600">Contact</a>
                 <div className="py-2 border-b"><LanguageSwitcher /></div>
                 <div className="py-2">
@@ -1,4 +1,7 @@
 import React from "react";
+import type { Traveller } from "../../types";
+import { createTraveller, resizeTravellers } from "../../utils/travellers";
+import TravellerDetails from "./TravellerDetails";
 
 interface BookingStepDetailsProps {
   customerName: string;
@@ -9,6 +12,8 @@ interface BookingStepDetailsProps {
   setCustomerPhone: (value: string) => void;
   customerPassport: string;
   setCustomerPassport: (value: string) => void;
+  travellers: Traveller[];
+  setTravellers: (value: Traveller[]) => void;
   passportError: string;
   setPassportError: (value: string) => void;
   handlePassportChange: (value: string) => void;
@@ -27,6 +32,8 @@ export default function BookingStepDetails({
   setCustomerPhone,
   customerPassport,
   setCustomerPassport,
+  travellers,
+  setTravellers,
   passportError,
   setPassportError,
   handlePassportChange,
@@ -99,6 +106,7 @@ export default function BookingStepDetails({
           )}
         </div>
       </div>
+      <TravellerDetails travellers={travellers} setTravellers={setTravellers} />
       <div className="mt-6 flex justify-between">
         <button onClick={onBack} className="px-4 py-2 btn-secondary rounded">Back</button>
         <div className="flex gap-3">
@@ -108,6 +116,7 @@ export default function BookingStepDetails({
               setCustomerEmail("");
               setCustomerPhone("");
               setCustomerPassport("");
+              setTravellers(resizeTravellers([createTraveller()], travellers.length));
               setPassportError("");
             }}
             className="px-4 py-2 btn-secondary rounded"
@@ -116,7 +125,7 @@ export default function BookingStepDetails({
           </button>
           <button
             onClick={onNext}
-            disabled={!customerName.trim() || !customerEmail.trim() || !!passportError}
+            disabled={!customerName.trim() || !customerEmail.trim() || !!passportError || travellers.some((t) => !t.fullName.trim())}
             className="px-4 py-2 btn-primary rounded disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Continue
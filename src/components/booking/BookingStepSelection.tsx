@@ -1,5 +1,7 @@
 import React from "react";
-import type { Tour, OptionalTour, CashFreebie } from "../../types";
+import type { Tour, OptionalTour, CashFreebie, DepartureDate } from "../../types";
+import { getAvailabilityLabel, getDepartureAvailability, getRemainingSeats } from "../../utils/departureAvailability";
+import { formatPerk } from "../../utils/perks";
 
 type PaymentType = "full" | "downpayment" | "cash-appointment";
 
@@ -88,6 +90,18 @@ export default function BookingStepSelection({
     return ot.regularPrice;
   }
 
+  // Seats left on the chosen departure, shown only when it is running low
+  const selectedDeparture = tour.departureDates?.find(
+    (d): d is DepartureDate => typeof d !== "string" && `${d.start} - ${d.end}` === selectedDate
+  );
+  const selectedRemaining = selectedDeparture ? getRemainingSeats(selectedDeparture) : null;
+  const selectedSeatsLeft =
+    selectedRemaining !== null &&
+    (getDepartureAvailability(selectedDeparture) !== "available" || selectedRemaining < passengers)
+      ? selectedRemaining
+      : null;
+  const notEnoughSeats = selectedSeatsLeft !== null && selectedSeatsLeft < passengers;
+
   function toggleOptionalTour(idx: number) {
     if (!setSelectedOptionalTourIndices || !selectedOptionalTourIndices) return;
     const next = new Set(selectedOptionalTourIndices);
@@ -162,8 +176,13 @@ export default function BookingStepSelection({
                   typeof dateRange !== "string" && typeof dateRange.price === "number"
                     ? dateRange.price
                     : null;
+                const remainingSeats =
+                  typeof dateRange !== "string" ? getRemainingSeats(dateRange) : null;
                 const isUnavailable =
-                  typeof dateRange !== "string" && dateRange.isAvailable === false;
+                  typeof dateRange !== "string" &&
+                  (dateRange.isAvailable === false || (remainingSeats !== null && remainingSeats < passengers));
+                const availabilityLabel =
+                  typeof dateRange !== "string" ? getAvailabilityLabel(dateRange) : null;
                 const label = priceOverride
                   ? `${dateLabel}  \u2014  \u20b1${priceOverride.toLocaleString()}`
                   : dateLabel;
@@ -171,12 +190,12 @@ export default function BookingStepSelection({
                   <option
                     key={index}
                     value={value}
-                    disabled={isUnavailable}
+                    disabled={isUnavailable && value !== selectedDate}
                     className={`bg-white font-medium ${
                       isUnavailable ? "text-gray-400" : "text-gray-900"
                     }`}
                   >
-                    {isUnavailable ? `${label} (Fully Booked)` : label}
+                    {availabilityLabel ? `${label} (${availabilityLabel})` : label}
                   </option>
                 );
               })
@@ -196,6 +215,21 @@ export default function BookingStepSelection({
               Please select a departure date to continue
             </div>
           )}
+          {selectedSeatsLeft !== null && (
+            <div
+              className={`mt-2 flex items-center gap-2 text-sm rounded-lg px-3 py-2 border ${
+                notEnoughSeats
+                  ? "text-red-700 bg-red-50 border-red-200"
+                  : "text-amber-700 bg-amber-50 border-amber-200"
+              }`}
+            >
+              {selectedSeatsLeft === 0
+                ? "This departure is sold out. Please choose another date."
+                : notEnoughSeats
+                ? `Only ${selectedSeatsLeft} seat${selectedSeatsLeft !== 1 ? "s" : ""} left on this departure \u2014 reduce passengers or pick another date.`
+                : `Only ${selectedSeatsLeft} seat${selectedSeatsLeft !== 1 ? "s" : ""} left on this departure.`}
+            </div>
+          )}
           <div className="text-xs text-gray-600 uppercase tracking-wider mt-4 mb-2">Number of Passengers</div>
           <input
             type="number"
@@ -325,9 +359,7 @@ export default function BookingStepSelection({
                         <svg className="w-3.5 h-3.5 text-green-600 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                         </svg>
-                        {fb.type === "percent_off" && fb.value
-                          ? `${fb.value}% off — ${fb.label}`
-                          : `FREE — ${fb.label}`}
+                        {formatPerk(fb)}
                       </li>
                     ))}
                   </ul>
@@ -603,7 +635,11 @@ export default function BookingStepSelection({
           </svg>
           Back
         </button>
-        <button onClick={onNext} className="px-8 py-3 btn-primary rounded-xl font-bold flex items-center gap-2">
+        <button
+          onClick={onNext}
+          disabled={notEnoughSeats}
+          className="px-8 py-3 btn-primary rounded-xl font-bold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
           Continue
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
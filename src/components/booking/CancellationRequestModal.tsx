@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import type { Booking } from "../../types";
+import { fetchCancellationQuote, requestCancellation, type CancellationQuote } from "../../api/trips";
+
+function formatCurrencyPHP(amount: number) {
+  return `PHP ${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+const ADD_ON_LABELS: Record<string, string> = {
+  VISA_ASSISTANCE: "visa assistance",
+  TRAVEL_INSURANCE: "travel insurance",
+  PASSPORT_ASSISTANCE: "passport assistance",
+};
+
+interface CancellationRequestModalProps {
+  booking: Booking;
+  onClose: () => void;
+  onRequested: () => void;
+}
+
+export default function CancellationRequestModal({ booking, onClose, onRequested }: CancellationRequestModalProps) {
+  const [quote, setQuote] = useState<CancellationQuote | null>(null);
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCancellationQuote(booking.bookingId)
+      .then((data) => {
+        if (!cancelled) setQuote(data);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load cancellation terms");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.bookingId]);
+
+  async function handleSubmit() {
+    try {
+      setSubmitting(true);
+      setError(null);
+      await requestCancellation(booking.bookingId, reason.trim() || undefined);
+      onRequested();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to request cancellation");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const estimate = quote?.estimate;
+  const tiers = [...(quote?.tiers ?? [])].sort((a, b) => b.minDaysBeforeDeparture - a.minDaysBeforeDeparture);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-3xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="sticky top-0 bg-gradient-to-r from-red-600 to-rose-600 text-white px-6 py-5 rounded-t-3xl flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold">Request Cancellation</h2>
+            <p className="text-red-100 text-sm mt-1">Booking #{booking.bookingId}</p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="p-2 hover:bg-white/20 rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {loading ? (
+            <div className="text-center text-gray-600 py-8">Loading cancellation terms…</div>
+          ) : (
+            <>
+              {estimate && (
+                <div className="bg-gray-50 border border-gray-200 rounded-2xl p-4 space-y-1 text-sm">
+                  <div className="flex justify-between text-gray-600">
+                    <span>Paid so far</span>
+                    <span>{formatCurrencyPHP(estimate.paidAmount)}</span>
+                  </div>
+                  {estimate.nonRefundableAmount > 0 && (
+                    <div className="flex justify-between text-gray-600">
+                      <span>Non-refundable add-ons</span>
+                      <span>− {formatCurrencyPHP(estimate.nonRefundableAmount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-gray-600">
+                    <span>Refund rate ({estimate.daysBeforeDeparture} days before departure)</span>
+                    <span>{estimate.refundPercent}%</span>
+                  </div>
+                  <div className="flex justify-between font-bold text-gray-900 pt-2 border-t border-gray-200">
+                    <span>Estimated refund</span>
+                    <span>{formatCurrencyPHP(estimate.refundAmount)}</span>
+                  </div>
+                </div>
+              )}
+
+              {quote && (
+                <div className="text-xs text-gray-600 space-y-1">
+                  <p className="font-semibold text-gray-800">Cancellation policy</p>
+                  <ul className="list-disc list-inside">
+                    {tiers.map((tier) => (
+                      <li key={tier.minDaysBeforeDeparture}>
+                        {tier.minDaysBeforeDeparture}+ days before departure: {tier.refundPercent}% refund
+                      </li>
+                    ))}
+                    <li>Later than that: no refund</li>
+                  </ul>
+                  {quote.nonRefundableAddOns.length > 0 && (
+                    <p>
+                      Fees for {quote.nonRefundableAddOns.map((code) => ADD_ON_LABELS[code] ?? code).join(", ")} are not refundable.
+                    </p>
+                  )}
+                  <p>Approved refunds are returned within {quote.refundProcessingDays} days.</p>
+                </div>
+              )}
+
+              {quote && !quote.canRequest ? (
+                <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-xl text-sm">
+                  {quote.blockedReason}
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reason (optional)</label>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    rows={3}
+                    maxLength={1000}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-red-400"
+                    placeholder="Let us know why you need to cancel"
+                  />
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm">{error}</div>
+              )}
+
+              <div className="flex gap-3 justify-end">
+                <button
+                  onClick={onClose}
+                  disabled={submitting}
+                  className="px-4 py-2 rounded-xl border border-gray-300 text-gray-700 hover:bg-gray-50 font-medium transition-all"
+                >
+                  Keep Booking
+                </button>
+                {quote?.canRequest && (
+                  <button
+                    onClick={handleSubmit}
+                    disabled={submitting}
+                    className="px-4 py-2 rounded-xl bg-red-600 hover:bg-red-700 text-white font-semibold transition-all disabled:opacity-50"
+                  >
+                    {submitting ? "Sending…" : "Request Cancellation"}
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
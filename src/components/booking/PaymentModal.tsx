@@ -11,7 +11,6 @@ import {
 } from "../../utils/paymentSecurity";
 import { paymentService } from "../../services/paymentService";
 import { getProviderStatus } from "../../services/providers";
-import { buildApiUrl } from "../../config/apiBase";
 
 const PaymentMethodSelector = lazy(async () => {
   const mod = await import("../../lib/payment-gateway");
@@ -122,20 +121,7 @@ export default function PaymentModal({
       return;
     }
     
-    // Persist payment in MongoDB
-    try {
-      await fetch(buildApiUrl(`/api/bookings/${booking.bookingId}/payment`), {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          paidAmount: paymentAmount,
-          paymentIntentId: paymentId,
-          status: "confirmed",
-        }),
-      });
-    } catch (e) {
-      console.warn("⚠️ Could not update booking payment record:", e);
-    }
+    // The booking is updated by the PayMongo webhook once the payment settles
     
     // Log successful payment
     logSecurityEvent("PAYMENT_SUCCESS", booking.bookingId, {
@@ -0,0 +1,109 @@
+import type { Traveller } from "../../types";
+import { NATIONALITY_OPTIONS, ROOM_SHARING_OPTIONS } from "../../utils/travellers";
+
+interface TravellerDetailsProps {
+  travellers: Traveller[];
+  setTravellers: (value: Traveller[]) => void;
+}
+
+export default function TravellerDetails({ travellers, setTravellers }: TravellerDetailsProps) {
+  const updateTraveller = (index: number, field: keyof Traveller, value: string) => {
+    setTravellers(travellers.map((t, i) => (i === index ? { ...t, [field]: value } : t)));
+  };
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold text-gray-900">Travellers</h3>
+      <p className="text-gray-700 text-sm mb-4">
+        Enter each name exactly as printed in the passport. We check visa requirements for every traveller.
+      </p>
+      <div className="space-y-4">
+        {travellers.map((traveller, index) => (
+          <div key={index} className="rounded-2xl border border-gray-200 p-4">
+            <p className="text-sm font-semibold text-gray-800 mb-3">
+              Traveller {index + 1}{traveller.isLead ? " (lead passenger)" : ""}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="form-field md:col-span-2">
+                <input
+                  placeholder="Full name as in passport"
+                  value={traveller.fullName}
+                  onChange={(e) => updateTraveller(index, "fullName", e.target.value)}
+                  className="w-full rounded-xl px-4 py-3"
+                  required
+                />
+              </div>
+              <div className="form-field">
+                <select
+                  aria-label={`Traveller ${index + 1} nationality`}
+                  value={traveller.nationality ?? NATIONALITY_OPTIONS[0]}
+                  onChange={(e) => updateTraveller(index, "nationality", e.target.value)}
+                  className="w-full rounded-xl px-4 py-3"
+                >
+                  {NATIONALITY_OPTIONS.map((option) => (
+                    <option key={option} value={option}>{option} passport</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-field">
+                <input
+                  placeholder="Passport number"
+                  value={traveller.passportNumber ?? ""}
+                  onChange={(e) => updateTraveller(index, "passportNumber", e.target.value.toUpperCase())}
+                  className="w-full rounded-xl px-4 py-3"
+                  maxLength={20}
+                />
+              </div>
+              <label className="form-field text-xs text-gray-600">
+                Passport expiry
+                <input
+                  type="date"
+                  value={traveller.passportExpiry ?? ""}
+                  onChange={(e) => updateTraveller(index, "passportExpiry", e.target.value)}
+                  className="w-full rounded-xl px-4 py-3 mt-1"
+                />
+              </label>
+              <label className="form-field text-xs text-gray-600">
+                Date of birth
+                <input
+                  type="date"
+                  value={traveller.dateOfBirth ?? ""}
+                  onChange={(e) => updateTraveller(index, "dateOfBirth", e.target.value)}
+                  className="w-full rounded-xl px-4 py-3 mt-1"
+                />
+              </label>
+              <div className="form-field">
+                <select
+                  aria-label={`Traveller ${index + 1} room sharing`}
+                  value={traveller.roomSharing ?? "any"}
+                  onChange={(e) => updateTraveller(index, "roomSharing", e.target.value)}
+                  className="w-full rounded-xl px-4 py-3"
+                >
+                  {ROOM_SHARING_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-field">
+                <input
+                  placeholder="Sharing with (optional)"
+                  value={traveller.roomSharingWith ?? ""}
+                  onChange={(e) => updateTraveller(index, "roomSharingWith", e.target.value)}
+                  className="w-full rounded-xl px-4 py-3"
+                />
+              </div>
+              <div className="form-field">
+                <input
+                  placeholder="Dietary needs (optional)"
+                  value={traveller.dietaryNeeds ?? ""}
+                  onChange={(e) => updateTraveller(index, "dietaryNeeds", e.target.value)}
+                  className="w-full rounded-xl px-4 py-3"
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
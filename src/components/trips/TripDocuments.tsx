@@ -0,0 +1,80 @@
+import React, { useState } from "react";
+import type { Trip, TripDocumentType } from "../../api/trips";
+import { uploadTripDocument } from "../../api/trips";
+
+const DOCUMENT_LABELS: Record<TripDocumentType, string> = {
+  passport: "Passport copy",
+  visa: "Visa copy",
+};
+
+interface TripDocumentsProps<T extends Trip> {
+  trip: T;
+  onUpdated: (trip: T) => void;
+  // Defaults to the signed-in upload; guest access links pass their own
+  upload?: (type: TripDocumentType, file: File) => Promise<T>;
+}
+
+// Passport and visa copies on a trip, with upload for the missing or outdated ones
+export default function TripDocuments<T extends Trip>({ trip, onUpdated, upload }: TripDocumentsProps<T>) {
+  const [uploading, setUploading] = useState<TripDocumentType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const closed = ["cancelled", "refunded", "completed"].includes(trip.booking.status);
+
+  async function handleFile(type: TripDocumentType, e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setUploading(type);
+    setError(null);
+    try {
+      onUpdated(upload
+        ? await upload(type, file)
+        : await uploadTripDocument(trip.booking.bookingId, type, file) as T);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setUploading(null);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-gray-200 p-4">
+      <h4 className="text-sm font-semibold text-gray-900 mb-3">Travel documents</h4>
+      <div className="space-y-2">
+        {(["passport", "visa"] as const).map((type) => {
+          const url = type === "passport" ? trip.booking.passportUrl : trip.booking.visaUrl;
+          return (
+            <div key={type} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div>
+                <span className="font-medium text-gray-800">{DOCUMENT_LABELS[type]}</span>
+                {url ? (
+                  <a href={url} target="_blank" rel="noopener noreferrer" className="ml-2 text-xs text-green-700 underline">
+                    ✓ Uploaded
+                  </a>
+                ) : (
+                  <span className="ml-2 text-xs font-semibold text-orange-600">Missing</span>
+                )}
+              </div>
+              {!closed && (
+                <label className={`text-xs px-3 py-1.5 rounded-lg border font-medium cursor-pointer transition-all ${
+                  uploading === type ? "border-gray-200 text-gray-400" : "border-gray-300 text-gray-800 hover:bg-gray-50"
+                }`}>
+                  {uploading === type ? "Uploading…" : url ? "Replace" : "Upload"}
+                  <input
+                    type="file"
+                    accept="application/pdf,image/jpeg,image/png,image/webp"
+                    className="hidden"
+                    disabled={uploading !== null}
+                    onChange={(e) => handleFile(type, e)}
+                  />
+                </label>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">PDF, JPG, PNG or WebP, up to 10 MB.</p>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import type { Traveller } from "../../types";
+import type { Trip } from "../../api/trips";
+import { saveTripTravellers } from "../../api/trips";
+import TravellerDetails from "../booking/TravellerDetails";
+import { resizeTravellers, toTravellerPayload } from "../../utils/travellers";
+
+interface TripTravellersProps {
+  trip: Trip;
+  onUpdated: (trip: Trip) => void;
+}
+
+function formatDay(date: string) {
+  return new Date(date).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" });
+}
+
+// Traveller list on a trip; editable until the cutoff before departure
+export default function TripTravellers({ trip, onUpdated }: TripTravellersProps) {
+  const { booking } = trip;
+  const [draft, setDraft] = useState<Traveller[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const travellers = booking.travellers ?? [];
+
+  async function handleSave() {
+    if (!draft) return;
+    if (draft.some((t) => !t.fullName.trim())) {
+      setError("Enter a full name for every traveller.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      onUpdated(await saveTripTravellers(booking.bookingId, toTravellerPayload(draft)));
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save traveller details");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (draft) {
+    return (
+      <div className="rounded-2xl border border-yellow-300 p-4">
+        <TravellerDetails travellers={draft} setTravellers={setDraft} />
+        {error && <p className="text-xs text-red-600 mt-3">{error}</p>}
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            onClick={() => { setDraft(null); setError(null); }}
+            disabled={saving}
+            className="text-xs px-4 py-2 border border-gray-300 rounded-lg text-gray-800 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="text-xs px-4 py-2 bg-yellow-400 hover:bg-yellow-500 text-gray-900 rounded-lg font-semibold disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Save travellers"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-2xl border border-gray-200 p-4">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <h4 className="text-sm font-semibold text-gray-900">Travellers</h4>
+        {trip.canEditTravellers && (
+          <button
+            onClick={() => setDraft(resizeTravellers(travellers, booking.passengers))}
+            className="text-xs px-3 py-1.5 border border-gray-300 rounded-lg text-gray-800 font-medium hover:bg-gray-50"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+      {travellers.length === 0 ? (
+        <p className="text-sm text-gray-600">No traveller details yet.</p>
+      ) : (
+        <ul className="text-sm text-gray-800 space-y-1">
+          {travellers.map((traveller, index) => (
+            <li key={index}>
+              {traveller.fullName}
+              {traveller.isLead && <span className="text-xs text-gray-500"> (lead)</span>}
+              {traveller.passportNumber && <span className="text-xs text-gray-500"> · {traveller.passportNumber}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {trip.travellerEditCutoff && (
+        <p className="text-xs text-gray-500 mt-2">
+          {trip.canEditTravellers
+            ? `Changes can be made online until ${formatDay(trip.travellerEditCutoff)}.`
+            : "Online changes are closed for this trip. Please contact us to update traveller details."}
+        </p>
+      )}
+    </div>
+  );
+}
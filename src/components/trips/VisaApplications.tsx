@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from "react";
+import type { VisaApplication, VisaApplicationStatus, VisaChecklistItem, VisaDocumentStatus } from "../../api/trips";
+import { fetchMyVisaApplications, uploadVisaChecklistDocument } from "../../api/trips";
+
+const STATUS_LABELS: Record<VisaApplicationStatus, { label: string; color: string }> = {
+  pending: { label: "Received", color: "bg-yellow-100 text-yellow-800" },
+  under_review: { label: "Under review", color: "bg-blue-100 text-blue-800" },
+  documents_requested: { label: "Documents requested", color: "bg-orange-100 text-orange-800" },
+  approved: { label: "Approved", color: "bg-green-100 text-green-800" },
+  rejected: { label: "Not approved", color: "bg-red-100 text-red-800" },
+  completed: { label: "Completed", color: "bg-gray-100 text-gray-800" },
+};
+
+const DOCUMENT_STATUS: Record<VisaDocumentStatus, { label: string; color: string }> = {
+  missing: { label: "Missing", color: "text-orange-600" },
+  uploaded: { label: "Being checked", color: "text-blue-700" },
+  accepted: { label: "✓ Accepted", color: "text-green-700" },
+  rejected: { label: "Please upload again", color: "text-red-600" },
+};
+
+// Applications no longer taking documents
+const CLOSED_STATUSES: VisaApplicationStatus[] = ["approved", "completed"];
+
+function formatDay(date: string) {
+  return new Date(date).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" });
+}
+
+// The customer's visa applications, with upload for each checklist document
+export default function VisaApplications() {
+  const [applications, setApplications] = useState<VisaApplication[]>([]);
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    fetchMyVisaApplications()
+      .then((data) => {
+        if (mounted) setApplications(data);
+      })
+      .catch((err) => console.error("Error loading visa applications:", err));
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  async function handleFile(application: VisaApplication, item: VisaChecklistItem, e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const id = `${application.applicationId}:${item.key}`;
+    setUploading(id);
+    setError(null);
+    try {
+      const updated = await uploadVisaChecklistDocument(application.applicationId, item.key, file);
+      setApplications((prev) => prev.map((a) => (a.applicationId === updated.applicationId ? updated : a)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setUploading(null);
+    }
+  }
+
+  if (applications.length === 0) return null;
+
+  return (
+    <div className="bg-gradient-to-br from-white/95 to-white/90 border border-gray-200 rounded-3xl shadow-md p-6 mb-6">
+      <h2 className="text-lg font-bold text-gray-900 mb-4">Visa Applications</h2>
+      <div className="space-y-4">
+        {applications.map((application) => {
+          const status = STATUS_LABELS[application.status];
+          const closed = CLOSED_STATUSES.includes(application.status);
+          const appointment = application.embassyAppointment;
+          return (
+            <div key={application.applicationId} className="rounded-2xl border border-gray-200 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <div>
+                  <div className="text-sm font-semibold text-gray-900">
+                    {application.destinationCountries || application.tourTitle || "Visa application"}
+                    <span className="text-gray-500 font-normal"> · {application.applicationId}</span>
+                  </div>
+                  {application.bookingId && <div className="text-xs text-gray-500">Booking {application.bookingId}</div>}
+                </div>
+                <span className={`text-xs px-2.5 py-1 rounded-full font-semibold ${status.color}`}>{status.label}</span>
+              </div>
+
+              {appointment && (
+                <div className="text-sm bg-blue-50 border border-blue-200 rounded-xl px-3 py-2 mb-3">
+                  <span className="font-semibold text-gray-900">Embassy appointment:</span>{" "}
+                  {formatDay(appointment.date)}
+                  {appointment.time && `, ${appointment.time}`}
+                  {appointment.location && ` · ${appointment.location}`}
+                  {appointment.reference && <span className="text-gray-600"> (ref. {appointment.reference})</span>}
+                </div>
+              )}
+
+              {application.checklist.length === 0 ? (
+                <p className="text-sm text-gray-600">Our visa team will tell you which documents to send.</p>
+              ) : (
+                <div className="space-y-2">
+                  {application.checklist.map((item) => {
+                    const id = `${application.applicationId}:${item.key}`;
+                    const itemStatus = DOCUMENT_STATUS[item.status];
+                    const canUpload = !closed && item.status !== "accepted";
+                    return (
+                      <div key={item.key} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <div>
+                          <span className="font-medium text-gray-800">{item.label}</span>
+                          <span className={`ml-2 text-xs font-semibold ${itemStatus.color}`}>{itemStatus.label}</span>
+                          {item.fileUrl && (
+                            <a href={item.fileUrl} target="_blank" rel="noopener noreferrer" className="ml-2 text-xs text-gray-600 underline">
+                              View
+                            </a>
+                          )}
+                          {item.description && <div className="text-xs text-gray-500">{item.description}</div>}
+                          {item.status === "rejected" && item.rejectionReason && (
+                            <div className="text-xs text-red-600">{item.rejectionReason}</div>
+                          )}
+                        </div>
+                        {canUpload && (
+                          <label className={`text-xs px-3 py-1.5 rounded-lg border font-medium cursor-pointer transition-all ${
+                            uploading === id ? "border-gray-200 text-gray-400" : "border-gray-300 text-gray-800 hover:bg-gray-50"
+                          }`}>
+                            {uploading === id ? "Uploading…" : item.fileUrl ? "Replace" : "Upload"}
+                            <input
+                              type="file"
+                              accept="application/pdf,image/jpeg,image/png,image/webp"
+                              className="hidden"
+                              disabled={uploading !== null}
+                              onChange={(e) => handleFile(application, item, e)}
+                            />
+                          </label>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500 mt-3">PDF, JPG, PNG or WebP, up to 10 MB.</p>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import React, { Suspense, lazy, useEffect, useMemo, useState, type JSX } from "react";
 import { Link, useNavigate, useParams, useLocation, Navigate } from "react-router-dom";
 import { useAuth } from "../context/useAuth";
-import type { Tour, CustomRoute, InstallmentPlan, InstallmentPayment } from "../types";
+import { useLanguage } from "../context/LanguageContext";
+import type { Tour, CustomRoute, InstallmentPlan, InstallmentPayment, Traveller, CashFreebie } from "../types";
 import { fetchTourBySlug } from "../api/tours";
 import { createBooking } from "../api/bookings";
+import { resizeTravellers, toTravellerPayload } from "../utils/travellers";
+import { resolvePerks } from "../utils/perks";
 import { buildApiUrl } from "../config/apiBase";
 import ProgressIndicator from "../components/ProgressIndicator";
 import BackToTop from "../components/BackToTop";
@@ -52,12 +55,8 @@ type ExtendedTour = Tour & {
     promoType: "flat" | "percent";
     promoValue: number;
   }[];
-  // Freebies shown when customer pays in full
-  cashFreebies?: {
-    label: string;
-    type: "free" | "percent_off";
-    value?: number;
-  }[];
+  // Freebies and promo perks, some priced against the add-ons
+  cashFreebies?: CashFreebie[];
   // Payment rules
   fixedDownpaymentAmount?: number;
   balanceDueDaysBeforeTravel?: number;
@@ -97,6 +96,7 @@ function getEffectivePriceForTour(tourData: ExtendedTour): number {
 
 export default function Booking(): JSX.Element {
   const { user } = useAuth();
+  const { language } = useLanguage();
   const location = useLocation();
   const { slug } = useParams<{ slug: string }>();
   const navState = (location.state ?? {}) as {
@@ -147,6 +147,11 @@ export default function Booking(): JSX.Element {
   }, [user]);
   const [customerPhone, setCustomerPhone] = useState<string>("");
   const [customerPassport, setCustomerPassport] = useState<string>("");
+  const [travellers, setTravellers] = useState<Traveller[]>(() => resizeTravellers([], passengers));
+  // Keep one traveller entry per passenger
+  useEffect(() => {
+    setTravellers((prev) => (prev.length === Math.max(1, passengers) ? prev : resizeTravellers(prev, passengers)));
+  }, [passengers]);
   const [passportError, setPassportError] = useState<string>("");
   
   // Passport and visa document states
@@ -310,23 +315,27 @@ export default function Booking(): JSX.Element {
     [tour]
   );
 
-  const optionalToursTotalPerPerson = useMemo(() => {
+  const selectedOptionalTours = useMemo(() => {
     const optTours = (tour as ExtendedTour | null)?.optionalTours;
-    if (!optTours || selectedOptionalTourIndices.size === 0) return 0;
-    let sum = 0;
+    if (!optTours || selectedOptionalTourIndices.size === 0) return [];
+    const selected: { day: number; title: string; pricePerPerson: number }[] = [];
     selectedOptionalTourIndices.forEach(idx => {
       const ot = optTours[idx];
       if (!ot) return;
-      if (ot.promoEnabled && isSaleActive) {
-        sum += ot.promoType === "flat"
+      const pricePerPerson = ot.promoEnabled && isSaleActive
+        ? (ot.promoType === "flat"
           ? ot.promoValue
-          : Math.round(ot.regularPrice * (1 - ot.promoValue / 100));
-      } else {
-        sum += ot.regularPrice;
-      }
+          : Math.round(ot.regularPrice * (1 - ot.promoValue / 100)))
+        : ot.regularPrice;
+      selected.push({ day: ot.day, title: ot.title, pricePerPerson });
     });
-    return sum;
+    return selected;
   }, [tour, selectedOptionalTourIndices, isSaleActive]);
+
+  const optionalToursTotalPerPerson = useMemo(
+    () => selectedOptionalTours.reduce((sum, ot) => sum + ot.pricePerPerson, 0),
+    [selectedOptionalTours]
+  );
   
   // Add-on pricing — fetched from admin settings (falls back to defaults)
   const [VISA_ASSISTANCE_FEE, setVisaFee] = useState<number>(10000);
@@ -364,14 +373,30 @@ export default function Booking(): JSX.Element {
     void fetchAddonSettings();
   }, []);
 
-  // Total for all passengers + selected add-ons
+  // Tour perks the booking qualifies for; priced ones come off their add-on fee
+  const appliedPerks = useMemo(
+    () =>
+      resolvePerks((tour as ExtendedTour | null)?.cashFreebies, paymentType, {
+        visa: needsVisaAssistance ? VISA_ASSISTANCE_FEE : 0,
+        insurance: needsTravelInsurance ? INSURANCE_FEE : 0,
+        passport: needsPassportAssistance ? PASSPORT_ASSISTANCE_FEE : 0,
+      }),
+    [tour, paymentType, needsVisaAssistance, needsTravelInsurance, needsPassportAssistance, VISA_ASSISTANCE_FEE, INSURANCE_FEE, PASSPORT_ASSISTANCE_FEE]
+  );
+  const perkDiscountPerPerson = useMemo(
+    () => appliedPerks.reduce((sum, perk) => sum + perk.discountPerPerson, 0),
+    [appliedPerks]
+  );
+
+  // Total for all passengers + selected add-ons, less perk discounts
   const total = useMemo(
     () =>
       (combinedPerPerson + optionalToursTotalPerPerson) * Math.max(1, passengers) +
       (needsVisaAssistance ? VISA_ASSISTANCE_FEE * Math.max(1, passengers) : 0) +
       (needsTravelInsurance ? INSURANCE_FEE * Math.max(1, passengers) : 0) +
-      (needsPassportAssistance ? PASSPORT_ASSISTANCE_FEE * Math.max(1, passengers) : 0),
-    [combinedPerPerson, optionalToursTotalPerPerson, passengers, needsVisaAssistance, needsTravelInsurance, needsPassportAssistance, VISA_ASSISTANCE_FEE, INSURANCE_FEE, PASSPORT_ASSISTANCE_FEE]
+      (needsPassportAssistance ? PASSPORT_ASSISTANCE_FEE * Math.max(1, passengers) : 0) -
+      perkDiscountPerPerson * Math.max(1, passengers),
+    [combinedPerPerson, optionalToursTotalPerPerson, passengers, needsVisaAssistance, needsTravelInsurance, needsPassportAssistance, VISA_ASSISTANCE_FEE, INSURANCE_FEE, PASSPORT_ASSISTANCE_FEE, perkDiscountPerPerson]
   );
 
   // Fixed downpayment amount (from tour config) — overrides percentage-based downpayment
@@ -568,13 +593,17 @@ export default function Booking(): JSX.Element {
         customerEmail,
         customerPhone,
         customerPassport,
+        nationality: travellers[0]?.nationality,
+        travellers: toTravellerPayload(travellers),
         selectedDate,
         passengers,
         perPerson: combinedPerPerson, // Combined price with custom routes
         paymentType,
         paymentIntentId: confirmationId,
         customRoutes: customRoutes.length > 0 ? customRoutes : undefined,
+        optionalTours: selectedOptionalTours.length > 0 ? selectedOptionalTours : undefined,
         installmentPlan, // Add installment plan
+        locale: language,
         // Include passport/visa document URLs if uploaded
         ...(passportUrl && { passportUrl }),
         ...(visaUrl && { visaUrl }),
@@ -619,7 +648,7 @@ export default function Booking(): JSX.Element {
       });
     }
     
-    // Navigate immediately - don't wait for email
+    // Navigate immediately; the API queues the confirmation email with the booking
     // Use both URL parameter and state for better reliability
     navigate(`/booking/confirmation/${bookingId}`, {
       state: {
@@ -635,107 +664,9 @@ export default function Booking(): JSX.Element {
         appointmentTime: wantsAppointment ? appointmentTime : undefined,
         appointmentPurpose: wantsAppointment ? appointmentPurpose : undefined,
         customRoutes: customRoutes.length > 0 ? customRoutes : undefined,
+        perks: appliedPerks.length > 0 ? appliedPerks : undefined,
       },
     });
-    
-    // Send confirmation email via backend API (non-blocking)
-    if (customerName && customerEmail && tour) {
-      console.log('📧 Sending confirmation email to:', customerEmail);
-      
-      // Fire and forget - don't block the UI or user experience
-      setTimeout(async () => {
-        try {
-          console.log('📡 Using API URL:', buildApiUrl(''));
-          
-          const response = await fetch(buildApiUrl('/api/send-booking-email'), {
-            method: 'POST',
-            credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              bookingId,
-              customerName,
-              customerEmail,
-              tourTitle: tour.title,
-              tourDate: selectedDate || '',
-              passengers,
-              pricePerPerson: perPerson,
-              totalAmount: total,
-              downpaymentAmount: paymentType === "downpayment" ? downpaymentAmount : undefined,
-              remainingBalance: paymentType === "downpayment" ? remainingBalance : undefined,
-              isDownpaymentOnly: paymentType === "downpayment",
-              country: tour.additionalInfo?.countriesVisited?.[0] || '',
-              // Include custom routes for combined tours
-              ...(customRoutes.length > 0 && {
-                customRoutes: customRoutes.map(route => ({
-                  tourSlug: route.tourSlug,
-                  tourTitle: route.tourTitle,
-                  tourLine: route.tourLine,
-                  durationDays: route.durationDays,
-                  pricePerPerson: route.pricePerPerson,
-                  insertAfterDay: route.insertAfterDay,
-                })),
-              }),
-              // Include appointment details if scheduled
-              ...(wantsAppointment && {
-                appointmentDate,
-                appointmentTime,
-                appointmentPurpose,
-              }),
-              // Include visa assistance details if requested
-              ...(needsVisaAssistance && {
-                visaAssistanceRequested: true,
-                visaAssistanceFee: VISA_ASSISTANCE_FEE,
-                visaPaxDetails,
-              }),
-              // Include travel insurance details if requested
-              ...(needsTravelInsurance && {
-                travelInsuranceRequested: true,
-                travelInsuranceFee: INSURANCE_FEE,
-                travelInsurancePax: insurancePaxDetails,
-              }),
-              // Include passport assistance details if requested
-              ...(needsPassportAssistance && {
-                passportAssistanceRequested: true,
-                passportAssistanceFee: PASSPORT_ASSISTANCE_FEE,
-                passportPaxDetails,
-              }),
-            }),
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('❌ Backend API email sending failed:', response.status, errorText);
-            console.warn('⚠️ Email delivery failed, but booking was saved successfully');
-            return;
-          }
-
-          const result = await response.json();
-
-          if (result.success) {
-            console.log('✅ Booking confirmation email sent successfully via backend API');
-            console.log('✅ Message ID:', result.messageId);
-            if (result.previewUrl) {
-              console.log('📧 Email preview:', result.previewUrl);
-            }
-          } else {
-            console.error('❌ Backend API email sending failed:', result.error);
-            console.warn('⚠️ Email delivery failed, but booking was saved successfully');
-          }
-        } catch (error) {
-          console.error('❌ Failed to send email via backend API:', error);
-          console.warn('⚠️ Email service unavailable, but booking was saved successfully');
-          console.info('💡 The booking team will contact you via email or phone shortly');
-        }
-      }, 100); // Small delay to ensure navigation happens first
-    } else {
-      console.warn('⚠️ Email not sent - missing customer details:', {
-        hasCustomerName: !!customerName,
-        hasCustomerEmail: !!customerEmail,
-        hasTour: !!tour
-      });
-    }
   }
 
   // (stepLabels removed — it was unused)
@@ -896,6 +827,14 @@ export default function Booking(): JSX.Element {
                         <div className="text-sm text-gray-700 font-medium">Per person</div>
                         <div className="font-semibold text-gray-900 text-lg">{formatCurrencyPHP(perPerson)}</div>
                       </div>
+                      {appliedPerks.map((perk, idx) => (
+                        <div key={idx} className="flex justify-between items-center mb-3 text-sm text-green-700">
+                          <div>🎁 {perk.label}</div>
+                          <div className="font-semibold">
+                            {perk.discountPerPerson > 0 ? `−${formatCurrencyPHP(perk.discountPerPerson * passengers)}` : "Included"}
+                          </div>
+                        </div>
+                      ))}
                       <div className="flex justify-between items-center">
                         <div className="text-base text-gray-900 font-semibold">Total Amount Due</div>
                         <div className="text-3xl font-bold price-highlight">{formatCurrencyPHP(total)}</div>
@@ -984,6 +923,8 @@ export default function Booking(): JSX.Element {
                         setCustomerPhone={setCustomerPhone}
                         customerPassport={customerPassport}
                         setCustomerPassport={setCustomerPassport}
+                        travellers={travellers}
+                        setTravellers={setTravellers}
                         passportError={passportError}
                         setPassportError={setPassportError}
                         handlePassportChange={handlePassportChange}
@@ -1351,6 +1292,15 @@ export default function Booking(): JSX.Element {
                             </>
                           )}
                           
+                          {appliedPerks.map((perk, idx) => (
+                            <div key={idx} className="flex justify-between items-center mt-2 text-sm">
+                              <span className="text-green-700">🎁 {perk.label}</span>
+                              <span className="text-green-700 font-semibold">
+                                {perk.discountPerPerson > 0 ? `−${formatCurrencyPHP(perk.discountPerPerson * passengers)}` : "Included"}
+                              </span>
+                            </div>
+                          ))}
+
                           <div className="flex justify-between items-center mt-2">
                             <span className="text-gray-900 font-semibold">Total Amount:</span>
                             <span className="text-2xl font-bold text-blue-400">{formatCurrencyPHP(total)}</span>
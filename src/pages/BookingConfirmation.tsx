@@ -23,18 +23,20 @@ import {
   Shield,
   FileCheck,
   AlertCircle,
-  CheckSquare
+  CheckSquare,
+  Gift
 } from "lucide-react";
 import { useTheme } from "../context/ThemeContext";
 
 // Import CustomRoute type
 import type { CustomRoute } from "../types";
+import type { AppliedPerk } from "../utils/perks";
 
 /**
  * Booking confirmation page
  * - Route: /booking/confirmation
  * - Expects location.state with booking summary:
- *   { bookingId, tourTitle, country, date, passengers, perPerson, total, customRoutes }
+ *   { bookingId, tourTitle, country, date, passengers, perPerson, total, customRoutes, perks }
  */
 
 // Sample itinerary data - in a real app this would come from an API
@@ -144,6 +146,7 @@ export default function BookingConfirmation(): JSX.Element {
     appointmentTime?: string;
     appointmentPurpose?: string;
     customRoutes?: CustomRoute[];
+    perks?: AppliedPerk[];
     visaAssistanceRequested?: boolean;
     visaDocumentsProvided?: boolean;
     visaDestinationCountries?: string;
@@ -509,6 +512,28 @@ Total: PHP ${(state.total ?? 0).toLocaleString()}
                     PHP {(state.total ?? 0).toLocaleString("en-PH", { minimumFractionDigits: 2 })}
                   </div>
                 </div>
+                {state.perks && state.perks.length > 0 && (
+                  <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-white/20' : 'border-gray-300'}`}>
+                    <div className={`text-sm mb-2 ${darkMode ? 'text-slate-400' : 'text-gray-600'}`}>
+                      Freebies &amp; Perks Applied
+                    </div>
+                    <ul className="space-y-1">
+                      {state.perks.map((perk, index) => (
+                        <li key={index} className={`flex justify-between gap-4 text-sm ${darkMode ? 'text-green-300' : 'text-green-700'}`}>
+                          <span className="flex items-center gap-2">
+                            <Gift className="w-4 h-4 flex-shrink-0" />
+                            {perk.label}
+                          </span>
+                          <span className="font-semibold whitespace-nowrap">
+                            {perk.discountPerPerson > 0
+                              ? `−PHP ${(perk.discountPerPerson * (state.passengers ?? 1)).toLocaleString("en-PH", { minimumFractionDigits: 2 })}`
+                              : 'Included'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 {state.appointmentDate && state.appointmentTime && !isNaN(new Date(state.appointmentDate).getTime()) && (
                   <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-white/20' : 'border-gray-300'}`}>
                     <div className={`text-sm mb-1 ${darkMode ? 'text-slate-400' : 'text-gray-600'}`}>
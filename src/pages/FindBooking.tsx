@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Search, CheckCircle, AlertCircle } from 'lucide-react';
+import SecureForm from '../components/SecureForm';
+import { useAuth } from '../context/useAuth';
+import { requestBookingAccessLink } from '../api/bookingAccess';
+
+// "Find my booking" for customers who booked without an account
+export default function FindBooking() {
+  const { user } = useAuth();
+  const [bookingId, setBookingId] = useState('');
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      setSentMessage(await requestBookingAccessLink(bookingId.trim(), email.trim()));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center px-4 py-12">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+        className="w-full max-w-md"
+      >
+        <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-2xl p-8 md:p-10 border border-white/20">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 shadow-lg mb-4">
+              <Search className="text-white" size={32} />
+            </div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Find My Booking</h1>
+            <p className="text-gray-600">Booked without an account? We'll email you a link to view your booking.</p>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 rounded-lg flex gap-3">
+              <AlertCircle className="text-red-600 flex-shrink-0" size={20} />
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          {sentMessage ? (
+            <div className="space-y-4">
+              <div className="p-4 bg-green-50 border-l-4 border-green-500 rounded-lg flex gap-3">
+                <CheckCircle className="text-green-600 flex-shrink-0" size={20} />
+                <div>
+                  <p className="text-green-700 font-semibold">Check your email!</p>
+                  <p className="text-green-600 text-sm">{sentMessage} Don't forget to check your spam folder.</p>
+                </div>
+              </div>
+              <button
+                onClick={() => setSentMessage(null)}
+                className="w-full bg-gray-100 hover:bg-gray-200 text-gray-900 py-3 rounded-xl font-semibold transition-all duration-300"
+              >
+                Try Another Booking
+              </button>
+            </div>
+          ) : (
+            <SecureForm onSubmit={handleSubmit} className="space-y-5">
+              {/* Canary tokens — bot/crawler detection, do NOT remove */}
+              <div aria-hidden="true" style={{ display: 'none' }}>
+                <input name="website" tabIndex={-1} autoComplete="off" value="" readOnly />
+                <input name="phone_number_2" tabIndex={-1} autoComplete="off" value="" readOnly />
+              </div>
+              <div>
+                <label htmlFor="find-booking-id" className="block text-sm font-semibold text-gray-700 mb-2">
+                  Booking ID
+                </label>
+                <input
+                  id="find-booking-id"
+                  type="text"
+                  className="w-full px-4 py-3.5 bg-white border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all duration-300"
+                  placeholder="e.g. BK-20260314-0042"
+                  value={bookingId}
+                  onChange={e => setBookingId(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="find-booking-email" className="block text-sm font-semibold text-gray-700 mb-2">
+                  Email used for the booking
+                </label>
+                <input
+                  id="find-booking-email"
+                  type="email"
+                  className="w-full px-4 py-3.5 bg-white border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all duration-300"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={e => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 text-white py-4 rounded-xl font-semibold text-lg shadow-xl hover:shadow-2xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Sending...' : 'Email Me a Link'}
+              </button>
+            </SecureForm>
+          )}
+
+          <p className="mt-6 text-center text-gray-600 text-sm">
+            {user ? (
+              <>Bookings made with your verified email are in <Link to="/my-trips" className="font-semibold text-blue-600 hover:text-indigo-600">My Trips</Link>.</>
+            ) : (
+              <>Have an account? <Link to="/login" className="font-semibold text-blue-600 hover:text-indigo-600">Sign in</Link> to see all your trips.</>
+            )}
+          </p>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import SecureForm from '../components/SecureForm';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../context/useAuth';
+import { useLanguage } from '../context/LanguageContext';
 import { motion } from 'framer-motion';
 import { Mail, ArrowRight, CheckCircle, AlertCircle } from 'lucide-react';
 import { buildApiUrl } from '../config/apiBase';
@@ -14,6 +15,7 @@ export default function ForgotPassword() {
   const [emailFocused, setEmailFocused] = useState(false);
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { language } = useLanguage();
 
   // Redirect if user is already logged in
   useEffect(() => {
@@ -31,7 +33,7 @@ export default function ForgotPassword() {
       const res = await fetch(buildApiUrl('/auth/forgot-password'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email }),
+        body: JSON.stringify({ email, locale: language }),
       });
       const data = await res.json();
       if (!res.ok) {
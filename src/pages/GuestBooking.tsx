@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { fetchGuestTrip, uploadGuestTripDocument, type GuestTrip } from "../api/bookingAccess";
+import { useAuth } from "../context/useAuth";
+import Loading from "../components/Loading";
+import TripDocuments from "../components/trips/TripDocuments";
+import TripTravellers from "../components/trips/TripTravellers";
+
+function formatCurrencyPHP(amount: number) {
+  return `PHP ${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDay(date: string) {
+  return new Date(date).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" });
+}
+
+// Read-only booking view opened from a "find my booking" email link
+export default function GuestBooking() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const { user } = useAuth();
+  const [trip, setTrip] = useState<GuestTrip | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError("This link is incomplete. Please request a new one.");
+      setLoading(false);
+      return;
+    }
+    fetchGuestTrip(token)
+      .then((loaded) => { setTrip(loaded); setError(null); })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load your booking"))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  if (loading) {
+    return <Loading />;
+  }
+
+  if (!trip) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="bg-white border border-gray-200 rounded-3xl shadow-md p-8 text-center max-w-md">
+          <h1 className="text-xl font-bold text-gray-900 mb-2">We couldn't open this booking</h1>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <Link to="/find-booking" className="inline-flex px-4 py-2 bg-yellow-400 hover:bg-yellow-500 text-gray-900 rounded-xl font-medium">
+            Get a new link
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { booking, balance } = trip;
+  const closed = ["cancelled", "refunded", "completed"].includes(booking.status);
+
+  return (
+    <div className="min-h-screen" style={{ background: "linear-gradient(180deg, rgba(249,250,251,1) 0%, rgba(243,244,246,1) 35%, rgba(255,255,255,1) 100%)" }}>
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{booking.tour.title}</h1>
+          <p className="text-gray-700">
+            {booking.bookingId} · {booking.status.charAt(0).toUpperCase() + booking.status.slice(1).replace(/_/g, " ")}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            This link works until {new Date(trip.accessExpiresAt).toLocaleString("en-PH")}.
+          </p>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-3xl shadow-md p-6 mb-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-xs font-medium text-gray-500">Travel date</div>
+              <div className="text-gray-900">{formatDay(booking.selectedDate)}</div>
+            </div>
+            <div>
+              <div className="text-xs font-medium text-gray-500">Passengers</div>
+              <div className="text-gray-900">{booking.passengers}</div>
+            </div>
+            <div>
+              <div className="text-xs font-medium text-gray-500">Total / Paid</div>
+              <div className="text-gray-900">{formatCurrencyPHP(booking.totalAmount)}</div>
+              <div className="text-xs text-gray-500">Paid {formatCurrencyPHP(booking.paidAmount)}</div>
+            </div>
+            <div>
+              <div className="text-xs font-medium text-gray-500">Balance</div>
+              <div className={balance.outstanding > 0 && !closed ? "font-semibold text-gray-900" : "text-green-700"}>
+                {balance.outstanding > 0 && !closed ? formatCurrencyPHP(balance.outstanding) : "Nothing due"}
+              </div>
+              {balance.overdueCount > 0 && !closed && (
+                <div className="text-xs font-semibold text-red-600">{formatCurrencyPHP(balance.overdueAmount)} overdue</div>
+              )}
+            </div>
+          </div>
+
+          {!closed && trip.missingDocuments.length > 0 && (
+            <div className="text-xs font-medium text-orange-700 bg-orange-50 border border-orange-200 rounded-lg px-3 py-2 mt-4">
+              Missing {trip.missingDocuments.join(" and ")} copy. You can upload it below.
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
+            <TripTravellers trip={trip} onUpdated={() => undefined} />
+            <TripDocuments
+              trip={trip}
+              onUpdated={setTrip}
+              upload={(type, file) => uploadGuestTripDocument(token, type, file)}
+            />
+          </div>
+        </div>
+
+        <div className="bg-yellow-50 border border-yellow-200 rounded-3xl p-6 text-sm text-gray-800">
+          {user ? (
+            <p>
+              Bookings made with your verified email address appear in{" "}
+              <Link to="/my-trips" className="font-semibold underline">My Trips</Link>, where you can also pay and update travellers.
+            </p>
+          ) : (
+            <p>
+              <Link to="/register" className="font-semibold underline">Create an account</Link> with {booking.customerEmail} to
+              keep this booking in My Trips, pay your balance and update traveller details online. Your guest bookings are
+              added to the account once you verify your email.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
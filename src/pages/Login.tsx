@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import SecureForm from '../components/SecureForm';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../context/useAuth';
+import { useLanguage } from '../context/LanguageContext';
 import { motion } from 'framer-motion';
 import { Lock, Eye, EyeOff, Plane, Sparkles, ArrowRight } from 'lucide-react';
 import { buildApiUrl } from '../config/apiBase';
@@ -19,6 +20,7 @@ export default function Login() {
   const [passwordFocused, setPasswordFocused] = useState(false);
   const navigate = useNavigate();
   const { setUser, user } = useAuth();
+  const { language } = useLanguage();
 
   // Redirect if user is already logged in
   useEffect(() => {
@@ -80,7 +82,7 @@ export default function Login() {
       const res = await fetch(buildApiUrl('/auth/resend-verification'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email }),
+        body: JSON.stringify({ email, locale: language }),
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error || 'Failed to resend email');
@@ -350,6 +352,12 @@ export default function Login() {
                     Create Account
                   </Link>
                 </p>
+                <p className="text-gray-600 text-sm mt-2">
+                  Booked as a guest?{' '}
+                  <Link to="/find-booking" className="font-semibold text-blue-600 hover:text-indigo-600">
+                    Find my booking
+                  </Link>
+                </p>
               </motion.div>
             </div>
           </div>
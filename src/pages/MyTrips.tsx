@@ -0,0 +1,498 @@
+import { useEffect, useState, useCallback } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import type { Booking, BookingStatus, InstallmentPayment } from "../types";
+import { fetchMyTrips, downloadTripConfirmation, type Trip } from "../api/trips";
+import { useAuth } from "../context/useAuth";
+import Loading from "../components/Loading";
+import React from "react";
+import PaymentModal from "../components/booking/PaymentModal";
+import InstallmentSchedule from "../components/booking/InstallmentSchedule";
+import CancellationRequestModal from "../components/booking/CancellationRequestModal";
+import TripDocuments from "../components/trips/TripDocuments";
+import TripTravellers from "../components/trips/TripTravellers";
+import VisaApplications from "../components/trips/VisaApplications";
+import { verifyPaymentEligibility, logSecurityEvent } from "../utils/paymentSecurity";
+
+function formatCurrencyPHP(amount: number) {
+  return `PHP ${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString("en-PH", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function getStatusBadgeColor(status: BookingStatus): string {
+  switch (status) {
+    case "confirmed":
+      return "bg-green-100 text-green-800 border-green-200";
+    case "pending":
+      return "bg-yellow-100 text-yellow-800 border-yellow-200";
+    case "cancelled":
+      return "bg-red-100 text-red-800 border-red-200";
+    case "completed":
+      return "bg-blue-100 text-blue-800 border-blue-200";
+    case "awaiting_payment":
+      return "bg-orange-100 text-orange-800 border-orange-200";
+    case "partially_paid":
+      return "bg-teal-100 text-teal-800 border-teal-200";
+    case "refunded":
+      return "bg-purple-100 text-purple-800 border-purple-200";
+    default:
+      return "bg-gray-100 text-gray-800 border-gray-200";
+  }
+}
+
+function StatusBadge({ status }: { status: BookingStatus }) {
+  const getIcon = () => {
+    switch (status) {
+      case "confirmed":
+        return "✓";
+      case "pending":
+        return "⏳";
+      case "cancelled":
+        return "✗";
+      case "completed":
+        return "🎉";
+      default:
+        return "?";
+    }
+  };
+
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusBadgeColor(
+        status
+      )}`}
+    >
+      <span className="mr-1">{getIcon()}</span>
+      {status.charAt(0).toUpperCase() + status.slice(1).replace(/_/g, " ")}
+    </span>
+  );
+}
+
+// Where the customer's cancellation request and refund stand
+function CancellationStatus({ booking }: { booking: Booking }) {
+  const cancellation = booking.cancellation;
+  if (!cancellation) return null;
+
+  let text: string;
+  let color = "text-gray-600";
+  if (cancellation.status === "requested") {
+    text = `Cancellation requested · est. refund ${formatCurrencyPHP(cancellation.estimate.refundAmount)}`;
+    color = "text-orange-700";
+  } else if (cancellation.status === "rejected") {
+    text = `Cancellation declined${cancellation.decisionNotes ? `: ${cancellation.decisionNotes}` : ""}`;
+    color = "text-red-700";
+  } else if (cancellation.refund?.status === "succeeded") {
+    text = `Refunded ${formatCurrencyPHP(cancellation.refund.amount)}`;
+    color = "text-purple-700";
+  } else if (cancellation.refund) {
+    const expected = cancellation.refund.expectedBy
+      ? ` by ${new Date(cancellation.refund.expectedBy).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" })}`
+      : "";
+    text = `Refund of ${formatCurrencyPHP(cancellation.refund.amount)} in progress${expected}`;
+  } else {
+    text = "Cancellation approved";
+  }
+  return <div className={`text-xs font-medium mt-1 whitespace-normal ${color}`}>{text}</div>;
+}
+
+// Bookings that no longer owe a balance, whatever the amounts say
+const SETTLED_STATUSES: BookingStatus[] = ["cancelled", "refunded", "completed"];
+
+function canRequestCancellation(booking: Booking): boolean {
+  return !SETTLED_STATUSES.includes(booking.status) && booking.cancellation?.status !== "requested";
+}
+
+function getNextDuePayment(booking: Booking): InstallmentPayment | undefined {
+  return booking.installmentPlan?.payments.find((p) => p.status !== "paid");
+}
+
+function BalanceDuePanel({
+  bookings,
+  onPay,
+}: {
+  bookings: Booking[];
+  onPay: (booking: Booking, installment?: InstallmentPayment) => void;
+}) {
+  const owing = bookings.filter(
+    (b) => b.totalAmount - b.paidAmount > 0 && !SETTLED_STATUSES.includes(b.status)
+  );
+  if (owing.length === 0) return null;
+
+  return (
+    <div className="bg-gradient-to-br from-white/95 to-white/90 border border-gray-200 rounded-3xl shadow-md p-6 mb-6">
+      <h2 className="text-lg font-bold text-gray-900 mb-4">Balance Due</h2>
+      <div className="divide-y divide-gray-200">
+        {owing.map((booking) => {
+          const next = getNextDuePayment(booking);
+          const overdue = booking.installmentPlan?.payments.filter((p) => p.status === "overdue") ?? [];
+          const dueDate = next?.dueDate ?? booking.installmentPlan?.balanceDueDate;
+          return (
+            <div key={booking.id} className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <div>
+                <div className="text-sm font-semibold text-gray-900">
+                  {booking.tour.title} <span className="text-gray-500 font-normal">· {booking.bookingId}</span>
+                </div>
+                <div className="text-sm text-gray-600">
+                  Outstanding: <span className="font-semibold text-gray-900">{formatCurrencyPHP(booking.totalAmount - booking.paidAmount)}</span>
+                  {next && (
+                    <>
+                      {" "}· Next: {formatCurrencyPHP(next.amount)}
+                      {dueDate && <> due {new Date(dueDate).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" })}</>}
+                    </>
+                  )}
+                </div>
+                {overdue.length > 0 && (
+                  <div className="text-xs font-semibold text-red-600 mt-1">
+                    {overdue.length} overdue payment{overdue.length > 1 ? "s" : ""} ({formatCurrencyPHP(overdue.reduce((sum, p) => sum + p.amount, 0))})
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => onPay(booking, next)}
+                className={`text-xs px-4 py-2 rounded-lg font-medium transition-all ${
+                  overdue.length > 0 ? "bg-red-600 hover:bg-red-700 text-white" : "bg-yellow-400 hover:bg-yellow-500 text-gray-900"
+                }`}
+              >
+                Pay {next ? formatCurrencyPHP(next.amount) : "Balance"}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function formatDay(date: string) {
+  return new Date(date).toLocaleDateString("en-PH", { year: "numeric", month: "short", day: "numeric" });
+}
+
+export default function MyTrips() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<BookingStatus | "all">("all");
+  // Trip whose travellers and documents are open
+  const [managing, setManaging] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  // Payment modal state
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [selectedBookingForPayment, setSelectedBookingForPayment] = useState<Booking | null>(null);
+  const [selectedInstallmentPayment, setSelectedInstallmentPayment] = useState<InstallmentPayment | null>(null);
+  const [customPaymentAmount, setCustomPaymentAmount] = useState<number | null>(null);
+  const [bookingToCancel, setBookingToCancel] = useState<Booking | null>(null);
+
+  const loadTrips = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTrips(await fetchMyTrips());
+      setError(null);
+    } catch (err) {
+      console.error("Error loading trips:", err);
+      setError("Failed to load your trips. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/login");
+      return;
+    }
+    loadTrips();
+  }, [user, navigate, loadTrips]);
+
+  function replaceTrip(updated: Trip) {
+    setTrips((prev) => prev.map((t) => (t.booking.bookingId === updated.booking.bookingId ? updated : t)));
+  }
+
+  function handleMakePayment(booking: Booking, installment?: InstallmentPayment, customAmount?: number) {
+    // No email check: the API only returns the signed-in customer's own trips
+    const eligibilityCheck = verifyPaymentEligibility(booking);
+
+    if (!eligibilityCheck.eligible) {
+      logSecurityEvent("PAYMENT_BLOCKED", booking.bookingId, {
+        reason: eligibilityCheck.error,
+        userEmail: user?.email,
+      });
+      alert(eligibilityCheck.error || "Cannot process payment for this booking");
+      return;
+    }
+
+    setSelectedBookingForPayment(booking);
+    setSelectedInstallmentPayment(installment || null);
+    setCustomPaymentAmount(customAmount || null);
+    setShowPaymentModal(true);
+  }
+
+  function handlePaymentSuccess(paymentId: string) {
+    if (selectedBookingForPayment) {
+      logSecurityEvent("PAYMENT_COMPLETED", selectedBookingForPayment.bookingId, {
+        paymentId,
+        userEmail: user?.email,
+        amount: customPaymentAmount || selectedInstallmentPayment?.amount,
+      });
+    }
+    setShowPaymentModal(false);
+    loadTrips();
+  }
+
+  async function handleDownloadConfirmation(bookingId: string) {
+    setDownloading(bookingId);
+    try {
+      await downloadTripConfirmation(bookingId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download confirmation");
+    } finally {
+      setDownloading(null);
+    }
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  if (loading) {
+    return <Loading />;
+  }
+
+  const isOpen = (trip: Trip) => !SETTLED_STATUSES.includes(trip.booking.status);
+  const visibleTrips = statusFilter === "all" ? trips : trips.filter((t) => t.booking.status === statusFilter);
+  const upcomingCount = trips.filter((t) => isOpen(t) && new Date(t.booking.selectedDate) >= new Date()).length;
+  const outstanding = trips.filter(isOpen).reduce((sum, t) => sum + t.balance.outstanding, 0);
+  const missingDocumentsCount = trips.filter((t) => isOpen(t) && t.missingDocuments.length > 0).length;
+
+  return (
+    <div className="min-h-screen" style={{ background: "linear-gradient(180deg, rgba(249,250,251,1) 0%, rgba(243,244,246,1) 35%, rgba(255,255,255,1) 100%)" }}>
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">My Trips</h1>
+              <p className="text-gray-700">Bookings for {user.email}</p>
+            </div>
+            <div className="flex gap-3">
+              <Link
+                to="/routes"
+                className="inline-flex items-center px-4 py-2 border border-gray-300 bg-white text-gray-900 rounded-xl hover:bg-gray-50 hover:border-gray-400 transition-all font-medium shadow-sm hover:shadow-md"
+              >
+                Browse Tours
+              </Link>
+              <button
+                onClick={loadTrips}
+                className="inline-flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-900 rounded-xl hover:bg-gray-50 hover:border-gray-400 transition-all font-medium shadow-sm hover:shadow-md"
+              >
+                Refresh
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        {/* Summary Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-gradient-to-br from-white/95 to-white/90 rounded-2xl border border-gray-200 p-6 shadow-md">
+            <div className="text-3xl font-bold text-gray-900">{upcomingCount}</div>
+            <div className="text-sm text-gray-600 font-medium mt-1">Upcoming Trips</div>
+          </div>
+          <div className="bg-gradient-to-br from-white/95 to-white/90 rounded-2xl border border-gray-200 p-6 shadow-md">
+            <div className={`text-3xl font-bold ${outstanding > 0 ? "text-orange-600" : "text-green-600"}`}>{formatCurrencyPHP(outstanding)}</div>
+            <div className="text-sm text-gray-600 font-medium mt-1">Balance Outstanding</div>
+          </div>
+          <div className="bg-gradient-to-br from-white/95 to-white/90 rounded-2xl border border-gray-200 p-6 shadow-md">
+            <div className={`text-3xl font-bold ${missingDocumentsCount > 0 ? "text-orange-600" : "text-green-600"}`}>{missingDocumentsCount}</div>
+            <div className="text-sm text-gray-600 font-medium mt-1">Trips Missing Documents</div>
+          </div>
+        </div>
+
+        <BalanceDuePanel bookings={trips.map((t) => t.booking)} onPay={handleMakePayment} />
+
+        <VisaApplications />
+
+        {/* Status Filter */}
+        {trips.length > 0 && (
+          <div className="flex items-center justify-end gap-2 mb-4">
+            <label htmlFor="status-filter" className="text-sm font-medium text-gray-700">Show</label>
+            <select
+              id="status-filter"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as BookingStatus | "all")}
+              className="px-3 py-2 border border-gray-300 rounded-xl bg-white text-gray-900 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400"
+            >
+              <option value="all">All trips</option>
+              <option value="confirmed">Confirmed</option>
+              <option value="pending">Pending</option>
+              <option value="completed">Completed</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+          </div>
+        )}
+
+        {/* Trips */}
+        {visibleTrips.length === 0 ? (
+          <div className="bg-white border border-gray-200 rounded-3xl shadow-md p-8 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No trips found</h3>
+            <p className="text-gray-600">
+              {statusFilter !== "all"
+                ? "No trips match this status."
+                : "Bookings you make while signed in, or with your verified email address, appear here."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {visibleTrips.map((trip) => {
+              const { booking, balance } = trip;
+              const open = isOpen(trip);
+              return (
+                <div key={booking.bookingId} className="bg-white border border-gray-200 rounded-3xl shadow-md p-6">
+                  <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 mb-4">
+                    <div>
+                      <h2 className="text-lg font-bold text-gray-900">{booking.tour.title}</h2>
+                      <div className="text-sm text-gray-500">
+                        {booking.bookingId} · booked {formatDate(booking.bookingDate)}
+                      </div>
+                    </div>
+                    <div className="sm:text-right">
+                      <StatusBadge status={booking.status} />
+                      <CancellationStatus booking={booking} />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+                    <div>
+                      <div className="text-xs font-medium text-gray-500">Travel date</div>
+                      <div className="text-gray-900">{formatDay(booking.selectedDate)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs font-medium text-gray-500">Passengers</div>
+                      <div className="text-gray-900">{booking.passengers}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs font-medium text-gray-500">Total / Paid</div>
+                      <div className="text-gray-900">{formatCurrencyPHP(booking.totalAmount)}</div>
+                      <div className="text-xs text-gray-500">Paid {formatCurrencyPHP(booking.paidAmount)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs font-medium text-gray-500">Balance</div>
+                      <div className={balance.outstanding > 0 && open ? "font-semibold text-gray-900" : "text-green-700"}>
+                        {balance.outstanding > 0 && open ? formatCurrencyPHP(balance.outstanding) : "Nothing due"}
+                      </div>
+                      {balance.overdueCount > 0 && open && (
+                        <div className="text-xs font-semibold text-red-600">
+                          {formatCurrencyPHP(balance.overdueAmount)} overdue
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  {open && trip.missingDocuments.length > 0 && (
+                    <div className="text-xs font-medium text-orange-700 bg-orange-50 border border-orange-200 rounded-lg px-3 py-2 mb-4">
+                      Missing {trip.missingDocuments.join(" and ")} copy. Upload it under Travellers &amp; documents.
+                    </div>
+                  )}
+
+                  {booking.paymentType === "downpayment" && booking.installmentPlan && (
+                    <InstallmentSchedule
+                      booking={booking}
+                      onPayInstallment={(payment) => handleMakePayment(booking, payment)}
+                    />
+                  )}
+
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    {balance.outstanding > 0 && open && (
+                      <button
+                        onClick={() => handleMakePayment(booking)}
+                        className="text-xs px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold transition-all"
+                      >
+                        Pay Balance
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setManaging(managing === booking.bookingId ? null : booking.bookingId)}
+                      className="text-xs px-4 py-2 border border-gray-300 text-gray-800 hover:bg-gray-50 rounded-lg font-medium transition-all"
+                    >
+                      {managing === booking.bookingId ? "Hide" : "Travellers & documents"}
+                    </button>
+                    <button
+                      onClick={() => handleDownloadConfirmation(booking.bookingId)}
+                      disabled={downloading === booking.bookingId}
+                      className="text-xs px-4 py-2 border border-gray-300 text-gray-800 hover:bg-gray-50 rounded-lg font-medium transition-all disabled:opacity-60"
+                    >
+                      {downloading === booking.bookingId ? "Preparing…" : "Download confirmation"}
+                    </button>
+                    <Link
+                      to={`/booking/confirmation/${booking.id}`}
+                      state={{ booking }}
+                      className="text-xs px-4 py-2 bg-yellow-400 hover:bg-yellow-500 text-gray-900 rounded-lg font-medium transition-all"
+                    >
+                      View Details
+                    </Link>
+                    {canRequestCancellation(booking) && (
+                      <button
+                        onClick={() => setBookingToCancel(booking)}
+                        className="text-xs px-4 py-2 border border-red-300 text-red-700 hover:bg-red-50 rounded-lg font-medium transition-all"
+                      >
+                        Request Cancellation
+                      </button>
+                    )}
+                  </div>
+
+                  {managing === booking.bookingId && (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
+                      <TripTravellers trip={trip} onUpdated={replaceTrip} />
+                      <TripDocuments trip={trip} onUpdated={replaceTrip} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {bookingToCancel && (
+        <CancellationRequestModal
+          booking={bookingToCancel}
+          onClose={() => setBookingToCancel(null)}
+          onRequested={async () => {
+            setBookingToCancel(null);
+            await loadTrips();
+          }}
+        />
+      )}
+
+      {showPaymentModal && selectedBookingForPayment && (
+        <PaymentModal
+          booking={selectedBookingForPayment}
+          installmentPayment={selectedInstallmentPayment || undefined}
+          customAmount={customPaymentAmount || undefined}
+          onClose={() => {
+            setShowPaymentModal(false);
+            setSelectedBookingForPayment(null);
+            setSelectedInstallmentPayment(null);
+            setCustomPaymentAmount(null);
+          }}
+          onSuccess={handlePaymentSuccess}
+        />
+      )}
+    </div>
+  );
+}
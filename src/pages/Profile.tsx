@@ -1,7 +1,7 @@
 import React, { useState } from "react";
 import { useAuth } from "../context/useAuth";
 import { Link, useNavigate } from "react-router-dom";
-import { searchBookingsByEmail } from "../api/bookings";
+import { fetchMyTrips } from "../api/trips";
 import { getFavorites } from "../api/favorites";
 import type { Booking } from "../types";
 
@@ -25,8 +25,7 @@ export default function Profile() {
       try {
         setLoading(true);
         
-        // Fetch bookings by email
-        const userBookings = await searchBookingsByEmail(user.email);
+        const userBookings = (await fetchMyTrips()).map((trip) => trip.booking);
         setBookings(userBookings);
 
         // Fetch favorites count
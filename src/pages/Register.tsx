@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import SecureForm from '../components/SecureForm';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../context/useAuth';
+import { useLanguage } from '../context/LanguageContext';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Mail, Lock, Eye, EyeOff, User, Phone, Calendar, Users, Sparkles, MapPin, CheckCircle2, ArrowRight, Check, X, AlertCircle } from 'lucide-react';
 import { buildApiUrl } from '../config/apiBase';
@@ -114,6 +115,7 @@ export default function Register() {
   const [passwordStrength, setPasswordStrength] = useState(calculatePasswordStrength(''));
   const navigate = useNavigate();
   const { setUser, user } = useAuth();
+  const { language } = useLanguage();
 
   // Redirect if user is already logged in
   useEffect(() => {
@@ -194,6 +196,7 @@ export default function Register() {
           phone: form.phone,
           birthDate: form.birthDate,
           gender: form.gender,
+          locale: language,
         }),
       });
       const data = await res.json();
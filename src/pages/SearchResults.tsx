@@ -1,55 +1,177 @@
 import { useEffect, useState, type JSX } from "react";
 import { Link, useSearchParams } from "react-router-dom";
-import type { Tour } from "../types";
-import { fetchToursByCountry, fetchTours } from "../api/tours";
+import type { RangeFacetCount, Tour, TourSearchFacets, TourSearchParams, TourSearchSort } from "../types";
+import { searchTours } from "../api/tours";
 import React from "react";
 import { Search, X, MapPin, Filter } from "lucide-react";
 
 /**
  * SearchResults page
  * - Route: /search
- * - Reads query param `countries` and fetches tours for that country
+ * - Filters live in the URL (q, countries, continent, line, month, minDays/maxDays,
+ *   minPrice/maxPrice, onSale, guaranteed, sort) and are applied by the search API
+ * - Sidebar shows facet counts from the API; "Load more" follows the result cursor
  * - Adds passenger input and live total for each card
  * - Uses per-person pricing from the tour model (regularPricePerPerson preferred)
  */
 
+const PAGE_SIZE = 12;
+
+const SORT_OPTIONS: Array<{ value: TourSearchSort; label: string }> = [
+  { value: "newest", label: "Newest" },
+  { value: "price_asc", label: "Price: low to high" },
+  { value: "price_desc", label: "Price: high to low" },
+  { value: "duration_asc", label: "Shortest first" },
+  { value: "duration_desc", label: "Longest first" },
+  { value: "title", label: "Name (A–Z)" },
+];
+
+// URL key for each list filter
+const LIST_KEYS = {
+  countries: "countries",
+  continents: "continent",
+  lines: "line",
+  months: "month",
+} as const;
+type ListFilter = keyof typeof LIST_KEYS;
+
+// Lists may come as repeated keys or comma-separated (older links use ?countries=France)
+function readList(params: URLSearchParams, key: string): string[] {
+  return params.getAll(key).flatMap((value) => value.split(",")).map((value) => value.trim()).filter(Boolean);
+}
+
+function readNumber(params: URLSearchParams, key: string): number | undefined {
+  const value = params.get(key);
+  if (value === null || value === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function readSearchParams(params: URLSearchParams): TourSearchParams {
+  return {
+    q: params.get("q") ?? undefined,
+    countries: readList(params, LIST_KEYS.countries),
+    continents: readList(params, LIST_KEYS.continents),
+    lines: readList(params, LIST_KEYS.lines),
+    months: readList(params, LIST_KEYS.months),
+    minDays: readNumber(params, "minDays"),
+    maxDays: readNumber(params, "maxDays"),
+    minPrice: readNumber(params, "minPrice"),
+    maxPrice: readNumber(params, "maxPrice"),
+    onSale: params.get("onSale") === "true",
+    guaranteed: params.get("guaranteed") === "true",
+    sort: (params.get("sort") as TourSearchSort | null) ?? "newest",
+    limit: PAGE_SIZE,
+  };
+}
+
+function formatMonth(month: string) {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", { month: "long", year: "numeric" });
+}
+
+function formatDurationBucket(bucket: RangeFacetCount) {
+  return bucket.max === null ? `${bucket.min}+ days` : `${bucket.min}–${bucket.max - 1} days`;
+}
+
+function formatPriceBucket(bucket: RangeFacetCount) {
+  const peso = (amount: number) => `₱${(amount / 1000).toLocaleString("en-PH")}k`;
+  if (bucket.max === null) return `${peso(bucket.min)}+`;
+  return bucket.min === 0 ? `Under ${peso(bucket.max)}` : `${peso(bucket.min)}–${peso(bucket.max)}`;
+}
+
+function FacetCheckbox({ label, count, checked, onChange, icon }: {
+  label: string;
+  count: number;
+  checked: boolean;
+  onChange: () => void;
+  icon?: React.ReactNode;
+}) {
+  return (
+    <label className="flex items-center gap-3 p-2 rounded-lg hover:bg-blue-50 cursor-pointer transition group">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={onChange}
+        className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-2 focus:ring-blue-500"
+      />
+      {icon}
+      <span className="flex-1 text-sm text-slate-700 group-hover:text-blue-900 font-medium">{label}</span>
+      <span className="text-xs text-slate-400">{count}</span>
+    </label>
+  );
+}
+
+function FacetSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-700 mb-3">{title}</label>
+      <div className="space-y-1 max-h-72 overflow-y-auto pr-2 custom-scrollbar">{children}</div>
+    </div>
+  );
+}
+
 export default function SearchResults(): JSX.Element {
-  const [searchParams] = useSearchParams();
-  const countryParam = searchParams.get("countries") ?? "";
-  const searchQuery = searchParams.get("q") ?? "";
-  const country = countryParam;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = React.useMemo(() => readSearchParams(searchParams), [searchParams]);
   const [tours, setTours] = useState<Tour[]>([]);
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<TourSearchFacets | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
-  
-  // Filter states - initialize routeNameFilter with search query from URL
-  const [routeNameFilter, setRouteNameFilter] = useState<string>(searchQuery);
-  const [selectedCountries, setSelectedCountries] = useState<string[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Route name box: typed text is pushed to the URL after a short pause
+  const [routeNameFilter, setRouteNameFilter] = useState<string>(filters.q ?? "");
   const [showFilters, setShowFilters] = useState<boolean>(true);
 
   // passenger count for live totals on this page
   const [passengers, setPassengers] = useState<number>(1);
 
-  // Update routeNameFilter when search query changes
+  // Update routeNameFilter when search query changes (keeps a trailing space while typing)
   useEffect(() => {
-    setRouteNameFilter(searchQuery);
-  }, [searchQuery]);
+    setRouteNameFilter((current) => (current.trim() === (filters.q ?? "") ? current : filters.q ?? ""));
+  }, [filters.q]);
+
+  const updateParams = React.useCallback((update: (next: URLSearchParams) => void) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      update(next);
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  useEffect(() => {
+    if (routeNameFilter.trim() === (filters.q ?? "")) return;
+    const timer = window.setTimeout(() => {
+      updateParams((next) => {
+        if (routeNameFilter.trim()) next.set("q", routeNameFilter.trim());
+        else next.delete("q");
+      });
+    }, 300);
+    return () => window.clearTimeout(timer);
+  }, [routeNameFilter, filters.q, updateParams]);
 
   useEffect(() => {
     let cancelled = false;
     async function load() {
       setLoading(true);
+      setError(null);
       try {
-        if (!country) {
-          // If no country provided, show all tours
-          const all = await fetchTours();
-          if (!cancelled) setTours(all);
-          return;
-        }
-        const res = await fetchToursByCountry(country);
-        if (!cancelled) setTours(res);
+        const result = await searchTours(filters);
+        if (cancelled) return;
+        setTours(result.tours);
+        setTotal(result.total);
+        setFacets(result.facets);
+        setNextCursor(result.nextCursor);
       } catch (err) {
-        console.error("fetchToursByCountry error", err);
-        if (!cancelled) setTours([]);
+        console.error("searchTours error", err);
+        if (!cancelled) {
+          setTours([]);
+          setTotal(0);
+          setNextCursor(null);
+          setError(err instanceof Error ? err.message : "Search failed");
+        }
       } finally {
         if (!cancelled) setLoading(false);
       }
@@ -58,7 +180,21 @@ export default function SearchResults(): JSX.Element {
     return () => {
       cancelled = true;
     };
-  }, [country]);
+  }, [filters]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const result = await searchTours({ ...filters, cursor: nextCursor });
+      setTours((prev) => [...prev, ...result.tours]);
+      setNextCursor(result.nextCursor);
+    } catch (err) {
+      console.error("searchTours (next page) error", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   // Pricing helpers: prefer regularPricePerPerson (PHP), then promoPricePerPerson, then basePricePerDay * days
   function getPerPersonForTour(t: Tour) {
@@ -89,83 +225,78 @@ export default function SearchResults(): JSX.Element {
     return `PHP ${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   }
 
-  // Extract all unique countries from tours
-  const allCountries = React.useMemo(() => {
-    const countriesSet = new Set<string>();
-    tours.forEach(tour => {
-      // Try additionalInfo.countriesVisited
-      if (tour.additionalInfo && Array.isArray(tour.additionalInfo.countriesVisited)) {
-        tour.additionalInfo.countriesVisited.forEach(c => countriesSet.add(c));
-      }
-      // Try fullStops
-      if (Array.isArray(tour.fullStops)) {
-        tour.fullStops.forEach(stop => {
-          if (typeof stop.country === 'string') {
-            countriesSet.add(stop.country);
-          }
-        });
-      }
+  const toggleListValue = (filter: ListFilter, value: string) => {
+    const current = filters[filter] ?? [];
+    const values = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    updateParams((next) => {
+      next.delete(LIST_KEYS[filter]);
+      values.forEach((v) => next.append(LIST_KEYS[filter], v));
     });
-    return Array.from(countriesSet).sort();
-  }, [tours]);
-
-  // Apply filters
-  const filteredTours = React.useMemo(() => {
-    return tours.filter(tour => {
-      // Filter by route name
-      if (routeNameFilter.trim()) {
-        const nameMatch = tour.title.toLowerCase().includes(routeNameFilter.toLowerCase());
-        if (!nameMatch) return false;
-      }
+  };
 
-      // Filter by selected countries
-      if (selectedCountries.length > 0) {
-        const tourCountries = new Set<string>();
-        
-        if (tour.additionalInfo && Array.isArray(tour.additionalInfo.countriesVisited)) {
-          tour.additionalInfo.countriesVisited.forEach(c => tourCountries.add(c));
-        }
-        
-        if (Array.isArray(tour.fullStops)) {
-          tour.fullStops.forEach(stop => {
-            if (typeof stop.country === 'string') {
-              tourCountries.add(stop.country);
-            }
-          });
-        }
+  const toggleRange = (minKey: string, maxKey: string, bucket: RangeFacetCount, inclusiveMax: number | undefined) => {
+    const selected = readNumber(searchParams, minKey) === bucket.min && readNumber(searchParams, maxKey) === inclusiveMax;
+    updateParams((next) => {
+      next.delete(minKey);
+      next.delete(maxKey);
+      if (selected) return;
+      next.set(minKey, String(bucket.min));
+      if (inclusiveMax !== undefined) next.set(maxKey, String(inclusiveMax));
+    });
+  };
 
-        // Check if tour includes ANY of the selected countries
-        const hasSelectedCountry = selectedCountries.some(country => tourCountries.has(country));
-        if (!hasSelectedCountry) return false;
-      }
+  const toggleFlag = (key: "onSale" | "guaranteed") => {
+    updateParams((next) => {
+      if (next.get(key) === "true") next.delete(key);
+      else next.set(key, "true");
+    });
+  };
 
-      return true;
+  const setSort = (sort: TourSearchSort) => {
+    updateParams((next) => {
+      if (sort === "newest") next.delete("sort");
+      else next.set("sort", sort);
     });
-  }, [tours, routeNameFilter, selectedCountries]);
-
-  const toggleCountry = (countryName: string) => {
-    setSelectedCountries(prev => 
-      prev.includes(countryName)
-        ? prev.filter(c => c !== countryName)
-        : [...prev, countryName]
-    );
   };
 
   const clearFilters = () => {
     setRouteNameFilter("");
-    setSelectedCountries([]);
+    setSearchParams(new URLSearchParams(), { replace: true });
   };
 
+  const activeChips: Array<{ filter: ListFilter; value: string; label: string }> = (Object.keys(LIST_KEYS) as ListFilter[])
+    .flatMap((filter) => (filters[filter] ?? []).map((value) => ({
+      filter,
+      value,
+      label: filter === "months" ? formatMonth(value) : value,
+    })));
+  const hasFilters = Boolean(
+    filters.q || activeChips.length || filters.minDays !== undefined || filters.maxDays !== undefined ||
+    filters.minPrice !== undefined || filters.maxPrice !== undefined || filters.onSale || filters.guaranteed
+  );
+
+  // Selected values stay visible even when the other filters leave them with no matches
+  const withSelected = (entries: Array<{ value: string; count: number }>, selected: string[] = []) => [
+    ...entries,
+    ...selected.filter((value) => !entries.some((entry) => entry.value === value)).map((value) => ({ value, count: 0 })),
+  ];
+
+  const scopeLabel = filters.countries?.length
+    ? filters.countries.join(", ")
+    : filters.continents?.length
+    ? filters.continents.join(", ")
+    : "all countries";
+
   return (
     <main className="min-h-[80vh] bg-gradient-to-br from-blue-50 via-white to-yellow-50/40 py-10">
       <div className="container mx-auto px-5">
         <header className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
           <div>
             <h1 className="text-3xl font-extrabold text-blue-900 drop-shadow-sm">Search results</h1>
-            <p className="text-slate-600 text-base">Showing {filteredTours.length} tours for <span className="font-semibold text-blue-700">{country || "all countries"}</span>.</p>
+            <p className="text-slate-600 text-base">Showing {tours.length} of {total} tours for <span className="font-semibold text-blue-700">{scopeLabel}</span>.</p>
           </div>
 
-          <div className="flex items-center gap-3">
+          <div className="flex flex-wrap items-center gap-3">
             <button
               onClick={() => setShowFilters(!showFilters)}
               className="lg:hidden flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
@@ -173,6 +304,17 @@ export default function SearchResults(): JSX.Element {
               <Filter className="w-4 h-4" />
               {showFilters ? 'Hide' : 'Show'} Filters
             </button>
+
+            <select
+              aria-label="Sort tours"
+              value={filters.sort}
+              onChange={(e) => setSort(e.target.value as TourSearchSort)}
+              className="bg-white/80 rounded-xl shadow px-4 py-3 border border-slate-200 text-sm font-medium text-slate-700"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
             
             <div className="flex items-center gap-3 bg-white/80 rounded-xl shadow px-4 py-2 border border-slate-200">
               <div className="text-sm text-slate-500 font-medium">Passengers</div>
@@ -218,7 +360,7 @@ export default function SearchResults(): JSX.Element {
                   <Filter className="w-5 h-5" />
                   Filters
                 </h2>
-                {(routeNameFilter || selectedCountries.length > 0) && (
+                {hasFilters && (
                   <button
                     onClick={clearFilters}
                     className="text-sm text-blue-600 hover:text-blue-800 font-medium flex items-center gap-1"
@@ -240,54 +382,128 @@ export default function SearchResults(): JSX.Element {
                     type="text"
                     value={routeNameFilter}
                     onChange={(e) => setRouteNameFilter(e.target.value)}
-                    placeholder="Enter route name..."
+                    placeholder="Route, city or country..."
                     className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
                   />
                 </div>
               </div>
 
-              {/* Countries Filter */}
-              <div>
-                <label className="block text-sm font-semibold text-slate-700 mb-3">
-                  Filter by Countries
-                </label>
-                <div className="space-y-2 max-h-96 overflow-y-auto pr-2 custom-scrollbar">
-                  {allCountries.length === 0 && (
-                    <p className="text-sm text-slate-500 italic">No countries available</p>
+              {facets && (
+                <>
+                  {(facets.onSale > 0 || facets.guaranteed > 0 || filters.onSale || filters.guaranteed) && (
+                    <FacetSection title="Offers">
+                      <FacetCheckbox label="On sale" count={facets.onSale} checked={!!filters.onSale} onChange={() => toggleFlag("onSale")} />
+                      <FacetCheckbox label="Guaranteed departure" count={facets.guaranteed} checked={!!filters.guaranteed} onChange={() => toggleFlag("guaranteed")} />
+                    </FacetSection>
+                  )}
+
+                  {withSelected(facets.continents, filters.continents).length > 0 && (
+                    <FacetSection title="Continents">
+                      {withSelected(facets.continents, filters.continents).map((entry) => (
+                        <FacetCheckbox
+                          key={entry.value}
+                          label={entry.value}
+                          count={entry.count}
+                          checked={!!filters.continents?.includes(entry.value)}
+                          onChange={() => toggleListValue("continents", entry.value)}
+                        />
+                      ))}
+                    </FacetSection>
                   )}
-                  {allCountries.map((countryName) => (
-                    <label
-                      key={countryName}
-                      className="flex items-center gap-3 p-2 rounded-lg hover:bg-blue-50 cursor-pointer transition group"
-                    >
-                      <input
-                        type="checkbox"
-                        checked={selectedCountries.includes(countryName)}
-                        onChange={() => toggleCountry(countryName)}
-                        className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-2 focus:ring-blue-500"
+
+                  <FacetSection title="Filter by Countries">
+                    {withSelected(facets.countries, filters.countries).length === 0 && (
+                      <p className="text-sm text-slate-500 italic">No countries available</p>
+                    )}
+                    {withSelected(facets.countries, filters.countries).map((entry) => (
+                      <FacetCheckbox
+                        key={entry.value}
+                        label={entry.value}
+                        count={entry.count}
+                        checked={!!filters.countries?.includes(entry.value)}
+                        onChange={() => toggleListValue("countries", entry.value)}
+                        icon={<MapPin className="w-4 h-4 text-slate-400 group-hover:text-blue-600" />}
                       />
-                      <MapPin className="w-4 h-4 text-slate-400 group-hover:text-blue-600" />
-                      <span className="text-sm text-slate-700 group-hover:text-blue-900 font-medium">
-                        {countryName}
-                      </span>
-                    </label>
-                  ))}
-                </div>
-              </div>
+                    ))}
+                  </FacetSection>
+
+                  {withSelected(facets.lines, filters.lines).length > 0 && (
+                    <FacetSection title="Tour Line">
+                      {withSelected(facets.lines, filters.lines).map((entry) => (
+                        <FacetCheckbox
+                          key={entry.value}
+                          label={entry.value}
+                          count={entry.count}
+                          checked={!!filters.lines?.includes(entry.value)}
+                          onChange={() => toggleListValue("lines", entry.value)}
+                        />
+                      ))}
+                    </FacetSection>
+                  )}
+
+                  {withSelected(facets.months, filters.months).length > 0 && (
+                    <FacetSection title="Departure Month">
+                      {withSelected(facets.months, filters.months).map((entry) => (
+                        <FacetCheckbox
+                          key={entry.value}
+                          label={formatMonth(entry.value)}
+                          count={entry.count}
+                          checked={!!filters.months?.includes(entry.value)}
+                          onChange={() => toggleListValue("months", entry.value)}
+                        />
+                      ))}
+                    </FacetSection>
+                  )}
+
+                  {facets.durations.length > 0 && (
+                    <FacetSection title="Duration">
+                      {facets.durations.map((bucket) => {
+                        const maxDays = bucket.max === null ? undefined : bucket.max - 1;
+                        return (
+                          <FacetCheckbox
+                            key={bucket.min}
+                            label={formatDurationBucket(bucket)}
+                            count={bucket.count}
+                            checked={filters.minDays === bucket.min && filters.maxDays === maxDays}
+                            onChange={() => toggleRange("minDays", "maxDays", bucket, maxDays)}
+                          />
+                        );
+                      })}
+                    </FacetSection>
+                  )}
+
+                  {facets.prices.length > 0 && (
+                    <FacetSection title="Price per Person">
+                      {facets.prices.map((bucket) => {
+                        const maxPrice = bucket.max === null ? undefined : bucket.max - 1;
+                        return (
+                          <FacetCheckbox
+                            key={bucket.min}
+                            label={formatPriceBucket(bucket)}
+                            count={bucket.count}
+                            checked={filters.minPrice === bucket.min && filters.maxPrice === maxPrice}
+                            onChange={() => toggleRange("minPrice", "maxPrice", bucket, maxPrice)}
+                          />
+                        );
+                      })}
+                    </FacetSection>
+                  )}
+                </>
+              )}
 
               {/* Active Filters Summary */}
-              {selectedCountries.length > 0 && (
+              {activeChips.length > 0 && (
                 <div className="mt-6 pt-6 border-t border-slate-200">
                   <h3 className="text-xs font-semibold text-slate-600 mb-2">ACTIVE FILTERS</h3>
                   <div className="flex flex-wrap gap-2">
-                    {selectedCountries.map((countryName) => (
+                    {activeChips.map((chip) => (
                       <span
-                        key={countryName}
+                        key={`${chip.filter}:${chip.value}`}
                         className="inline-flex items-center gap-1 px-3 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded-full"
                       >
-                        {countryName}
+                        {chip.label}
                         <button
-                          onClick={() => toggleCountry(countryName)}
+                          onClick={() => toggleListValue(chip.filter, chip.value)}
                           className="hover:bg-blue-200 rounded-full p-0.5"
                         >
                           <X className="w-3 h-3" />
@@ -304,14 +520,20 @@ export default function SearchResults(): JSX.Element {
           <div className="flex-1">
             {loading && <div className="text-slate-500">Loading results…</div>}
 
-            {!loading && filteredTours.length === 0 && (
+            {!loading && error && (
+              <div className="p-8 border rounded-2xl bg-white/80 text-rose-600 shadow-md text-center text-lg font-medium">
+                {error}
+              </div>
+            )}
+
+            {!loading && !error && tours.length === 0 && (
               <div className="p-8 border rounded-2xl bg-white/80 text-slate-600 shadow-md text-center text-lg font-medium">
                 No tours found matching your filters.
               </div>
             )}
 
-            {!loading && filteredTours.length > 0 && (
-              <div className="grid gap-8 md:grid-cols-2 xl:grid-cols-2">{filteredTours.map((t) => {
+            {!loading && tours.length > 0 && (
+              <div className="grid gap-8 md:grid-cols-2 xl:grid-cols-2">{tours.map((t) => {
             const priceInfo = getPerPersonForTour(t);
             const perPerson = priceInfo.regular ?? priceInfo.effective;
             const promo = priceInfo.promo;
@@ -448,6 +670,18 @@ export default function SearchResults(): JSX.Element {
           })}
         </div>
             )}
+
+            {!loading && nextCursor && (
+              <div className="mt-8 text-center">
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="px-6 py-3 bg-blue-600 text-white font-semibold rounded-full shadow hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  {loadingMore ? "Loading…" : `Load more (${total - tours.length} left)`}
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
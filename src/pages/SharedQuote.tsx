@@ -0,0 +1,168 @@
+import { Link, useParams } from "react-router-dom";
+import { useEffect, useState, type JSX } from "react";
+import { Calendar, MapPin, Users } from "lucide-react";
+import type { BuilderDay, SharedBuilderQuote } from "../types";
+import { fetchSharedQuote } from "../api/builderSessions";
+
+/**
+ * Read-only quote for an itinerary saved in the tour builder
+ * - Route: /quote/:shareToken
+ * - Day-by-day stops and price are computed by the API, not the browser
+ */
+
+function formatCurrency(amount: number) {
+  return `PHP ${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(date?: string | null) {
+  if (!date) return "Date to be chosen";
+  const d = new Date(date);
+  if (Number.isNaN(d.getTime())) return date;
+  return d.toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short", year: "numeric" });
+}
+
+// Consecutive days in the same city of the same tour read as one stop
+function groupStops(days: BuilderDay[]) {
+  const groups: Array<BuilderDay & { lastDay: number; lastDate?: string }> = [];
+  for (const day of days) {
+    const last = groups[groups.length - 1];
+    if (last && last.city === day.city && last.tourSlug === day.tourSlug) {
+      last.lastDay = day.day;
+      last.lastDate = day.date;
+    } else {
+      groups.push({ ...day, lastDay: day.day, lastDate: day.date });
+    }
+  }
+  return groups;
+}
+
+export default function SharedQuote(): JSX.Element {
+  const { shareToken } = useParams<{ shareToken: string }>();
+  const [quote, setQuote] = useState<SharedBuilderQuote | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!shareToken) return;
+    fetchSharedQuote(shareToken)
+      .then(setQuote)
+      .catch((err) => {
+        console.error("fetchSharedQuote error:", err);
+        setError(err instanceof Error ? err.message : "Could not load this quote");
+        setQuote(null);
+      });
+  }, [shareToken]);
+
+  if (quote === undefined) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-4 max-w-3xl mx-auto">
+          <div className="h-8 w-2/3 rounded bg-gray-200" />
+          <div className="h-64 rounded-2xl bg-gray-100" />
+        </div>
+      </div>
+    );
+  }
+  if (quote === null) {
+    return (
+      <div className="p-8 max-w-3xl mx-auto">
+        <h2 className="text-2xl font-semibold text-gray-900 mb-3">Quote not found</h2>
+        <p className="text-gray-600 mb-6">{error ?? "This quote link is invalid or has been removed."}</p>
+        <Link to="/routes" className="text-blue-600 hover:underline">Browse tours</Link>
+      </div>
+    );
+  }
+
+  const inserted = Array.from(new Set(quote.days.filter((d) => d.custom).map((d) => d.tourTitle)));
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="max-w-3xl mx-auto px-4 space-y-6">
+        <div>
+          <p className="text-sm font-semibold uppercase tracking-wide text-gray-500">Custom itinerary quote</p>
+          <h1 className="text-3xl font-bold text-gray-900 mt-1">{quote.baseTourTitle}</h1>
+          {inserted.length > 0 && <p className="text-gray-600 mt-1">Combined with {inserted.join(", ")}</p>}
+          <div className="flex flex-wrap gap-4 mt-4 text-sm text-gray-700">
+            <span className="flex items-center gap-2"><Calendar size={16} />{formatDate(quote.selectedDate)}</span>
+            <span className="flex items-center gap-2"><MapPin size={16} />{quote.days.length} days</span>
+            <span className="flex items-center gap-2">
+              <Users size={16} />
+              {quote.passengers} traveller{quote.passengers === 1 ? "" : "s"}
+              {quote.infants > 0 && ` + ${quote.infants} infant(s)`}
+            </span>
+          </div>
+          {quote.status === "converted" && (
+            <p className="mt-4 rounded-lg bg-green-50 border border-green-200 px-4 py-3 text-sm text-green-800">
+              This itinerary has been booked.
+            </p>
+          )}
+        </div>
+
+        <section className="bg-white rounded-2xl shadow-sm border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Day by day</h2>
+          <ol className="space-y-3">
+            {groupStops(quote.days).map((stop) => (
+              <li key={stop.day} className="flex gap-4">
+                <div className="w-24 shrink-0 text-sm font-semibold text-gray-900">
+                  {stop.day === stop.lastDay ? `Day ${stop.day}` : `Days ${stop.day}–${stop.lastDay}`}
+                </div>
+                <div className={`flex-1 border-l-4 pl-3 ${stop.custom ? "border-purple-400" : "border-amber-400"}`}>
+                  <div className="font-medium text-gray-900">
+                    {stop.city ?? "—"}
+                    {stop.country && <span className="text-gray-500">, {stop.country}</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {stop.tourTitle}
+                    {stop.date && ` · ${formatDate(stop.date)}`}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        <section className="bg-white rounded-2xl shadow-sm border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Price</h2>
+          {quote.quote ? (
+            <>
+              <table className="w-full text-sm">
+                <tbody>
+                  {quote.quote.lineItems.map((item, index) => (
+                    <tr key={index} className="border-b last:border-0">
+                      <td className="py-2 text-gray-700">{item.label}</td>
+                      <td className="py-2 text-right text-gray-500">{item.quantity} × {formatCurrency(item.unitAmount)}</td>
+                      <td className="py-2 text-right font-medium text-gray-900">{formatCurrency(item.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex items-center justify-between mt-4 pt-4 border-t">
+                <div className="text-gray-600">Total</div>
+                <div className="text-2xl font-extrabold text-gray-900">{formatCurrency(quote.quote.totalAmount)}</div>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Priced {formatDate(quote.quote.computedAt)}. Prices are confirmed again when you book.
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-red-600">{quote.quoteError ?? "This itinerary could not be priced."}</p>
+          )}
+        </section>
+
+        <div className="flex flex-wrap gap-3">
+          <Link
+            to={`/tour/${encodeURIComponent(quote.baseTourSlug)}`}
+            className="px-4 py-2 border rounded text-sm text-gray-900 hover:bg-gray-100"
+          >
+            View tour details
+          </Link>
+          <Link
+            to="/contact"
+            className="px-4 py-2 rounded font-semibold text-sm bg-yellow-400 text-slate-900 hover:bg-yellow-500"
+          >
+            Ask us to book this
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
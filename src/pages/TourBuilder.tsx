@@ -26,10 +26,11 @@
  * - fullStops
  * - extensions
  */
-import { useNavigate, useParams, Link } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams, Link } from "react-router-dom";
 import { useEffect, useRef, useState, type JSX, type ChangeEvent } from "react";
-import type { Tour, Stop, ItineraryDay } from "../types";
+import type { Tour, Stop, ItineraryDay, BuilderSession, BuilderSessionInput } from "../types";
 import { fetchTourBySlug, fetchTours } from "../api/tours";
+import { createBuilderSession, fetchBuilderSession, sharedQuoteUrl, updateBuilderSession } from "../api/builderSessions";
 import React from "react";
 import BackToTop from "../components/BackToTop";
 import { useToast } from "../hooks/useToast";
@@ -37,7 +38,9 @@ import { useToast } from "../hooks/useToast";
 export default function TourBuilder(): JSX.Element {
   const { slug } = useParams<{ slug: string }>();
   const navigate = useNavigate();
-  const { showWarning } = useToast();
+  const { showWarning, showSuccess, showError } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sessionId = searchParams.get("session");
 
   const [tour, setTour] = useState<Tour | null | undefined>(undefined);
   const [allTours, setAllTours] = useState<Tour[]>([]);
@@ -54,6 +57,15 @@ export default function TourBuilder(): JSX.Element {
   // New: selected country filter
   const [countryFilter, setCountryFilter] = useState<string | null>(null);
 
+  // Server-side builder session (?session=<id>): restored on load, auto-saved on change
+  const [savedSession, setSavedSession] = useState<BuilderSession | null>(null);
+  const [pendingSession, setPendingSession] = useState<BuilderSession | null>(null);
+  const [sessionLoading, setSessionLoading] = useState<boolean>(Boolean(sessionId));
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const sessionIdRef = useRef<string | null>(sessionId);
+  // Last state known to the server, per tour, so untouched builders are not saved
+  const savedKeyRef = useRef<{ slug: string; key: string } | null>(null);
+
   const pageTopRef = useRef<HTMLDivElement | null>(null);
   const timelineRef = useRef<HTMLDivElement | null>(null);
   const railRef = useRef<HTMLDivElement | null>(null);
@@ -145,6 +157,115 @@ export default function TourBuilder(): JSX.Element {
       });
   }, [slug]);
 
+  useEffect(() => {
+    sessionIdRef.current = sessionId;
+    if (!sessionId) setSavedSession(null);
+    if (!sessionId || savedSession?.sessionId === sessionId) {
+      setSessionLoading(false);
+      return;
+    }
+    setSessionLoading(true);
+    fetchBuilderSession(sessionId)
+      .then((session) => {
+        if (!session) {
+          showWarning("That saved itinerary could not be found.");
+          setSearchParams({}, { replace: true });
+          return;
+        }
+        if (session.baseTourSlug !== slug) {
+          navigate(`/tour/builder/${encodeURIComponent(session.baseTourSlug)}?session=${encodeURIComponent(session.sessionId)}`, { replace: true });
+        }
+        setPendingSession(session);
+      })
+      .catch((err) => console.error("fetchBuilderSession error:", err))
+      .finally(() => setSessionLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId]);
+
+  // Apply a loaded session once its tours are available
+  useEffect(() => {
+    if (!pendingSession || !tour || tour.slug !== pendingSession.baseTourSlug) return;
+    const route = pendingSession.customRoutes[0];
+    if (route && allTours.length === 0) return;
+    const insertTour = route ? allTours.find((t) => t.slug === route.tourSlug) : undefined;
+
+    setSelectedDate(pendingSession.selectedDate ?? null);
+    setPassengers(pendingSession.passengers);
+    setIncludeInfant(pendingSession.infants > 0);
+    setInfantCount(Math.max(1, pendingSession.infants));
+    setJoinIndex(pendingSession.joinDay ? pendingSession.joinDay - 1 : null);
+    setLeaveIndex(pendingSession.leaveDay ? pendingSession.leaveDay - 1 : null);
+    setInlineInsert(route && insertTour ? { tour: insertTour, insertAfterIndex: Math.max(0, route.insertAfterDay - 1) } : null);
+    if (pendingSession.status === "converted") {
+      // Booked itineraries are locked; further changes start a new session
+      showWarning("This itinerary has already been booked. Changes will be saved as a new itinerary.");
+      setSearchParams({}, { replace: true });
+    } else {
+      setSavedSession(pendingSession);
+    }
+    setPendingSession(null);
+  }, [pendingSession, tour, allTours, showWarning, setSearchParams]);
+
+  const builderInput: BuilderSessionInput | null = tour
+    ? {
+        baseTourSlug: tour.slug,
+        selectedDate,
+        passengers,
+        infants: includeInfant ? infantCount : 0,
+        joinDay: joinIndex !== null ? joinIndex + 1 : null,
+        leaveDay: leaveIndex !== null ? leaveIndex + 1 : null,
+        customRoutes: inlineInsert ? [{ tourSlug: inlineInsert.tour.slug, insertAfterDay: inlineInsert.insertAfterIndex + 1 }] : [],
+      }
+    : null;
+  const builderKey = builderInput ? JSON.stringify(builderInput) : null;
+
+  async function saveSession(input: BuilderSessionInput): Promise<BuilderSession> {
+    const session = sessionIdRef.current
+      ? await updateBuilderSession(sessionIdRef.current, input)
+      : await createBuilderSession(input);
+    sessionIdRef.current = session.sessionId;
+    savedKeyRef.current = { slug: input.baseTourSlug, key: JSON.stringify(input) };
+    setSavedSession(session);
+    if (searchParams.get("session") !== session.sessionId) {
+      setSearchParams({ session: session.sessionId }, { replace: true });
+    }
+    return session;
+  }
+
+  // Auto-save shortly after the last change
+  useEffect(() => {
+    if (!builderInput || !builderKey || pendingSession || sessionLoading) return;
+    if (savedKeyRef.current?.slug !== builderInput.baseTourSlug) {
+      savedKeyRef.current = { slug: builderInput.baseTourSlug, key: builderKey };
+      return;
+    }
+    if (savedKeyRef.current.key === builderKey) return;
+    const timer = window.setTimeout(() => {
+      setSaveState("saving");
+      saveSession(builderInput)
+        .then(() => setSaveState("saved"))
+        .catch((err) => {
+          console.error("Builder session save failed:", err);
+          setSaveState("error");
+        });
+    }, 800);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [builderKey, pendingSession, sessionLoading]);
+
+  async function shareQuote() {
+    if (!builderInput) return;
+    try {
+      const upToDate = savedSession && savedKeyRef.current?.key === builderKey;
+      const session = upToDate ? savedSession : await saveSession(builderInput);
+      await navigator.clipboard.writeText(sharedQuoteUrl(session.shareToken));
+      showSuccess("Quote link copied. Anyone with the link can view this itinerary and price.");
+    } catch (err) {
+      console.error("Share quote failed:", err);
+      showError(err instanceof Error ? err.message : "Could not create a quote link");
+    }
+  }
+
   // map days -> stops using Stop.days (fallback 1)
   function mapDaysToStops(t: Tour | null | undefined): (Stop | undefined)[] {
     if (!t) return [];
@@ -1071,7 +1192,34 @@ export default function TourBuilder(): JSX.Element {
                       <div className="text-xs text-gray-600">Total</div>
                       <div className="text-2xl font-extrabold text-gray-900">{formattedPrice()}</div>
                     </div>
+
+                    {/* Price as checked by the server at the last save */}
+                    {savedSession?.quote && savedKeyRef.current?.key === builderKey && (
+                      <div className="flex items-center justify-between text-xs text-emerald-700">
+                        <div>Verified quote ({savedSession.days.length} days)</div>
+                        <div className="font-semibold">{formatCurrency(savedSession.quote.totalAmount)}</div>
+                      </div>
+                    )}
+                    {savedSession?.quoteError && savedKeyRef.current?.key === builderKey && (
+                      <div className="text-xs text-red-600">{savedSession.quoteError}</div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Saved session + shareable quote */}
+                <div className="mt-4 flex items-center justify-between gap-3">
+                  <div className="text-xs text-gray-500" aria-live="polite">
+                    {saveState === "saving" && "Saving…"}
+                    {saveState === "saved" && "Itinerary saved"}
+                    {saveState === "error" && "Could not save your itinerary"}
                   </div>
+                  <button
+                    type="button"
+                    onClick={shareQuote}
+                    className="px-3 py-2 border rounded text-sm text-gray-900 hover:bg-gray-100"
+                  >
+                    Share quote
+                  </button>
                 </div>
 
                 {/* CTA block */}
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from "react";
-import { useParams, Link } from "react-router-dom";
+import { useParams, useSearchParams, Link } from "react-router-dom";
 import { fetchTourBySlug } from "../api/tours";
 import type { Tour } from "../types";
 import { 
@@ -12,6 +12,8 @@ import TourReviews from "../components/TourReviews";
 
 export default function TourDetailNew() {
   const { slug } = useParams<{ slug: string }>();
+  const [searchParams] = useSearchParams();
+  const previewToken = searchParams.get("preview") ?? undefined;
   const [tour, setTour] = useState<Tour | null>(null);
   const [isWishlisted, setIsWishlisted] = useState(false);
   const [passengers, setPassengers] = useState(1);
@@ -28,7 +30,7 @@ export default function TourDetailNew() {
     
     const loadTour = async () => {
       try {
-        const data = await fetchTourBySlug(slug);
+        const data = await fetchTourBySlug(slug, previewToken);
         setTour(data);
       } catch (error) {
         console.error("Failed to load tour:", error);
@@ -36,7 +38,7 @@ export default function TourDetailNew() {
     };
     
     loadTour();
-  }, [slug]);
+  }, [slug, previewToken]);
 
   if (!tour) {
     return (
@@ -74,6 +76,11 @@ export default function TourDetailNew() {
 
   return (
     <div className="min-h-screen bg-gray-50">
+      {previewToken && (
+        <div className="bg-amber-100 border-b border-amber-300 text-amber-900 text-sm text-center px-6 py-2">
+          <strong>Preview</strong> — this tour may not be published yet. Bookings open once it is live.
+        </div>
+      )}
       {/* Breadcrumb */}
       <motion.div 
         initial={{ opacity: 0, y: -20 }}
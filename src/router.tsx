@@ -21,6 +21,7 @@ const RoutesPage = lazy(() => import("./pages/RoutesPage"));
 const TourDetail = lazy(() => import("./pages/TourDetailNew"));
 const ContactPage = lazy(() => import("./pages/ContactPage"));
 const TourBuilder = lazy(() => import("./pages/TourBuilder"));
+const SharedQuote = lazy(() => import("./pages/SharedQuote"));
 const DestinationCountry = lazy(() => import("./pages/DestinationCountry"));
 const SearchResults = lazy(() => import("./pages/SearchResults"));
 const Login = lazy(() => import("./pages/Login"));
@@ -35,7 +36,9 @@ const Favorites = lazy(() => import("./pages/Favorites"));
 const WaysToGo = lazy(() => import("./pages/WaysToGo"));
 const Deals = lazy(() => import("./pages/Deals"));
 const Booking = lazy(() => import("./pages/Booking"));
-const ViewBookings = lazy(() => import("./pages/ViewBookings"));
+const MyTrips = lazy(() => import("./pages/MyTrips"));
+const FindBooking = lazy(() => import("./pages/FindBooking"));
+const GuestBooking = lazy(() => import("./pages/GuestBooking"));
 const BookingConfirmation = lazy(() => import("./pages/BookingConfirmation"));
 const VisaAssistance = lazy(() => import("./pages/VisaAssistance"));
 
@@ -63,7 +66,7 @@ function AppContent() {
       if (user) {
         void Promise.allSettled([
           import("./pages/Booking"),
-          import("./pages/ViewBookings"),
+          import("./pages/MyTrips"),
           import("./pages/Profile"),
         ]);
         return;
@@ -99,6 +102,7 @@ function AppContent() {
           <Route path="/tour/:slug" element={<TourDetail />} />
           <Route path="/tour/builder/:slug" element={<TourBuilder />} />
           <Route path="/tour/builder" element={<TourBuilder />} />
+          <Route path="/quote/:shareToken" element={<SharedQuote />} />
 
 
           {/* Booking route - wrapped in error boundary */}
@@ -108,8 +112,12 @@ function AppContent() {
             </BookingErrorBoundary>
           } />
 
-          {/* My Bookings (user bookings list) */}
-          <Route path="/bookings" element={<ViewBookings />} />
+          {/* My Trips (signed-in customer's bookings) */}
+          <Route path="/my-trips" element={<MyTrips />} />
+          <Route path="/bookings" element={<Navigate to="/my-trips" replace />} />
+          {/* Guest bookings via emailed access link */}
+          <Route path="/find-booking" element={<FindBooking />} />
+          <Route path="/my-booking" element={<GuestBooking />} />
 
           {/* Booking confirmation route */}
           <Route path="/booking/confirmation" element={<BookingConfirmation />} />
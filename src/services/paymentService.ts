@@ -14,7 +14,6 @@ import type {
   PaymentTransaction,
   PaymentStatus,
 } from "../types/payment";
-import { buildApiUrl } from "../config/apiBase";
 
 class PaymentService {
   private providers: Map<PaymentProvider, IPaymentProvider> = new Map();
@@ -188,22 +187,7 @@ class PaymentService {
   private async handlePaymentSuccess(event: PaymentWebhookEvent): Promise<void> {
     console.log(`✅ Payment succeeded:`, event.paymentIntentId);
 
-    if (event.metadata.bookingId) {
-      try {
-        await fetch(buildApiUrl(`/api/bookings/${event.metadata.bookingId}/payment`), {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            paidAmount: event.amount,
-            paymentIntentId: event.paymentIntentId,
-            status: "confirmed",
-          }),
-        });
-        console.log(`📝 Booking ${event.metadata.bookingId} updated as confirmed`);
-      } catch (e) {
-        console.warn(`⚠️ Failed to update booking payment:`, e);
-      }
-    }
+    // The booking itself is updated by the signed PayMongo webhook on the API
   }
 
   /**
@@ -245,19 +229,6 @@ class PaymentService {
     };
 
     console.log(`💾 Transaction initiated:`, transaction.id);
-
-    // Persist paymentIntentId on the booking so the admin can track it
-    if (paymentIntent.metadata.bookingId) {
-      try {
-        await fetch(buildApiUrl(`/api/bookings/${paymentIntent.metadata.bookingId}/payment`), {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ paymentIntentId: paymentIntent.id }),
-        });
-      } catch (e) {
-        console.warn(`⚠️ Could not store transaction on booking:`, e);
-      }
-    }
   }
 
   /**
@@ -9,7 +9,7 @@ const translations = {
   'nav.contact': 'Contact',
   'nav.login': 'Login',
   'nav.logout': 'Logout',
-  'nav.myBookings': 'My Bookings',
+  'nav.myTrips': 'My Trips',
   'nav.myFavorites': 'My Favorites',
   'nav.profile': 'Profile',
   'nav.settings': 'Settings',
@@ -9,7 +9,7 @@ const translations = {
   'nav.contact': 'Makipag-ugnayan',
   'nav.login': 'Mag-login',
   'nav.logout': 'Mag-logout',
-  'nav.myBookings': 'Aking Mga Booking',
+  'nav.myTrips': 'Aking Mga Biyahe',
   'nav.myFavorites': 'Aking Mga Paborito',
   'nav.profile': 'Profile',
   'nav.settings': 'Mga Setting',
@@ -34,7 +34,8 @@ export type DepartureDate = {
   _id?: string;
   // Availability tracking
   maxCapacity?: number; // Maximum bookings allowed for this departure
-  currentBookings?: number; // Current number of bookings
+  currentBookings?: number; // Seats sold (payment received)
+  heldSeats?: number; // Seats held by bookings awaiting payment
   isAvailable?: boolean; // Manually set availability (overrides capacity check)
   price?: number; // Optional: override price for specific departure
 };
@@ -50,11 +51,16 @@ export type OptionalTour = {
   flipbookUrl?: string;  // Optional flipbook/itinerary link for this specific optional tour
 };
 
-/** A freebie item unlocked when the customer pays in full cash */
+/** Add-on fee from the admin settings that a perk discounts */
+export type PerkAddOn = "visa" | "insurance" | "passport";
+
+/** A freebie or promo perk; perks tied to an add-on lower that add-on's fee */
 export type CashFreebie = {
   label: string;                  // e.g. "50% off Visa Processing and Appointment Fee"
   type: "free" | "percent_off";   // Describes the benefit kind
   value?: number;                 // e.g. 50 for 50% off; omit for fully free items
+  addOn?: PerkAddOn;              // Omit for perks that are listed but not priced
+  eligibility?: "full_payment" | "any"; // Defaults to full payment only
 };
 
 export type Tour = {
@@ -99,7 +105,63 @@ export type Tour = {
   [key: string]: unknown;
 };
 
-export type BookingStatus = 'confirmed' | 'pending' | 'cancelled' | 'completed';
+export type TourSearchSort = 'newest' | 'price_asc' | 'price_desc' | 'duration_asc' | 'duration_desc' | 'title';
+
+// Filters for GET /public/tours/search; list filters match any of their values
+export type TourSearchParams = {
+  q?: string;
+  countries?: string[];
+  continents?: string[];
+  lines?: string[];
+  months?: string[];     // YYYY-MM of an upcoming departure
+  minDays?: number;
+  maxDays?: number;
+  minPrice?: number;     // Per person, PHP
+  maxPrice?: number;
+  onSale?: boolean;
+  guaranteed?: boolean;
+  sort?: TourSearchSort;
+  limit?: number;
+  cursor?: string;       // nextCursor from the previous page
+};
+
+export type FacetCount = { value: string; count: number };
+export type RangeFacetCount = { min: number; max: number | null; count: number }; // max is exclusive
+
+// Each facet is counted with every filter applied except its own
+export type TourSearchFacets = {
+  lines: FacetCount[];
+  countries: FacetCount[];
+  continents: FacetCount[];
+  months: FacetCount[];
+  durations: RangeFacetCount[];
+  prices: RangeFacetCount[];
+  onSale: number;
+  guaranteed: number;
+};
+
+export type TourSearchResult = {
+  tours: Array<Tour & { effectivePrice?: number; saleActive?: boolean }>;
+  total: number;
+  nextCursor: string | null;
+  facets: TourSearchFacets;
+};
+
+export type TourSuggestion = {
+  type: 'tour' | 'city' | 'country';
+  label: string;
+  slug?: string;
+  subtitle?: string;
+};
+
+export type BookingStatus =
+  | 'pending'
+  | 'awaiting_payment'
+  | 'partially_paid'
+  | 'confirmed'
+  | 'completed'
+  | 'cancelled'
+  | 'refunded';
 
 export type PaymentType = 'full' | 'downpayment' | 'cash-appointment';
 
@@ -113,9 +175,56 @@ export type CustomRoute = {
   insertAfterDay: number;
 };
 
+// Tour builder state saved on the server; sessionId is the secret edit key
+export type BuilderSessionInput = {
+  baseTourSlug: string;
+  selectedDate?: string | null;
+  passengers: number;
+  infants: number;
+  joinDay?: number | null; // 1-based day of the combined itinerary
+  leaveDay?: number | null;
+  customRoutes: Array<{ tourSlug: string; insertAfterDay: number }>;
+};
+
+export type BuilderDay = {
+  day: number;
+  date?: string; // YYYY-MM-DD once a departure is picked
+  city?: string;
+  country?: string;
+  tourSlug: string;
+  tourTitle: string;
+  custom: boolean; // from an inserted tour
+};
+
+export type BuilderQuote = {
+  basePerPerson: number;
+  promoBannerDiscountPerPerson: number;
+  customRoutesPerPerson: number;
+  perPerson: number;
+  passengers: number;
+  lineItems: Array<{ code: string; label: string; unitAmount: number; quantity: number; amount: number }>;
+  totalAmount: number;
+  computedAt: string;
+};
+
+// Read-only view behind a shared quote link
+export type SharedBuilderQuote = BuilderSessionInput & {
+  shareToken: string;
+  status: 'active' | 'converted';
+  baseTourTitle: string;
+  days: BuilderDay[];
+  quote?: BuilderQuote;
+  quoteError?: string; // why the itinerary could not be priced
+  updatedAt: string;
+};
+
+export type BuilderSession = SharedBuilderQuote & { sessionId: string };
+
 // Installment payment schedule
 export type InstallmentPayment = {
   id: string;
+  sequence?: number;
+  kind?: 'installment' | 'final_balance';
   dueDate: string; // ISO date string
   amount: number;
   status: 'pending' | 'paid' | 'overdue';
@@ -127,9 +236,36 @@ export type InstallmentPlan = {
   totalMonths: number;
   monthlyAmount: number;
   startDate: string; // ISO date string
+  downpaymentAmount?: number;
+  balanceDueDate?: string; // ISO date string — final balance deadline before departure
   payments: InstallmentPayment[];
 };
 
+// Refund the cancellation policy allows, frozen when the customer asks to cancel
+export type RefundEstimate = {
+  daysBeforeDeparture: number;
+  refundPercent: number;
+  paidAmount: number;
+  nonRefundableAmount: number;
+  refundAmount: number;
+  computedAt: string; // ISO date string
+};
+
+export type BookingCancellation = {
+  status: 'requested' | 'approved' | 'rejected';
+  reason?: string;
+  requestedAt: string; // ISO date string
+  estimate: RefundEstimate;
+  decidedAt?: string; // ISO date string
+  decisionNotes?: string;
+  refund?: {
+    amount: number;
+    status: 'pending' | 'succeeded' | 'failed';
+    expectedBy?: string; // ISO date string
+    processedAt?: string; // ISO date string
+  };
+};
+
 export type Booking = {
   id: string;
   bookingId: string;
@@ -155,6 +291,28 @@ export type Booking = {
   customRoutes?: CustomRoute[];
   // Installment plan for downpayment bookings
   installmentPlan?: InstallmentPlan;
+  // Customer cancellation request and the refund that followed
+  cancellation?: BookingCancellation;
+  // Everyone travelling on the booking, each with their own visa readiness
+  travellers?: Traveller[];
+  // Uploaded passport and visa copies
+  passportUrl?: string;
+  visaUrl?: string;
+};
+
+export type RoomSharing = 'single' | 'twin' | 'double' | 'triple' | 'any';
+
+export type Traveller = {
+  fullName: string; // exactly as in the passport
+  nationality?: string;
+  passportNumber?: string;
+  passportExpiry?: string; // YYYY-MM-DD
+  dateOfBirth?: string; // YYYY-MM-DD
+  roomSharing?: RoomSharing;
+  roomSharingWith?: string;
+  dietaryNeeds?: string;
+  isLead?: boolean;
+  visaReadiness?: VisaReadinessResult;
 };
 
 export type VisaReadinessStatus = 'ready' | 'attention' | 'not_ready';
@@ -169,11 +327,14 @@ export type VisaReadinessIssue = {
 };
 
 export type VisaReadinessRuleSummary = {
+  nationality?: string;
   countries: string[];
+  transitCountries?: string[];
   strictestPassportValidityMonths: number;
   strictestVisaLeadDays: number;
   visaRequiredCountries: string[];
   evisaCountries: string[];
+  transitVisaRequiredCountries?: string[];
 };
 
 export type VisaReadinessResult = {
@@ -0,0 +1,43 @@
+/**
+ * Departure seat availability helpers
+ */
+
+import type { DepartureDate } from '../types';
+
+// Departures at or below this many seats show an "only N left" badge
+export const LOW_AVAILABILITY_THRESHOLD = 5;
+
+export type DepartureAvailability = 'available' | 'limited' | 'full' | 'unavailable';
+
+/**
+ * Seats still bookable on a departure, or null when capacity is not tracked.
+ */
+export function getRemainingSeats(dep: DepartureDate): number | null {
+  if (typeof dep.maxCapacity !== 'number') return null;
+  return Math.max(0, dep.maxCapacity - (dep.currentBookings ?? 0) - (dep.heldSeats ?? 0));
+}
+
+export function getDepartureAvailability(dep: DepartureDate | undefined): DepartureAvailability {
+  if (!dep) return 'unavailable';
+  if (dep.isAvailable === false) return 'unavailable';
+
+  const remaining = getRemainingSeats(dep);
+  if (remaining === null) return 'available';
+  if (remaining === 0) return 'full';
+  if (remaining <= LOW_AVAILABILITY_THRESHOLD || remaining <= (dep.maxCapacity ?? 0) * 0.2) return 'limited';
+  return 'available';
+}
+
+/**
+ * Short customer-facing label such as "Sold out" or "Only 3 left".
+ */
+export function getAvailabilityLabel(dep: DepartureDate): string | null {
+  const status = getDepartureAvailability(dep);
+  if (status === 'unavailable') return 'Not available';
+  if (status === 'full') return 'Sold out';
+  if (status === 'limited') {
+    const remaining = getRemainingSeats(dep) ?? 0;
+    return `Only ${remaining} left`;
+  }
+  return null;
+}
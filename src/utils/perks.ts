@@ -0,0 +1,47 @@
+/**
+ * Tour perk helpers. Mirrors resolvePerks in the API's pricing service so the
+ * booking total shown here matches the server quote.
+ */
+
+import type { CashFreebie, PerkAddOn } from '../types';
+
+export type AppliedPerk = {
+  label: string;
+  type: CashFreebie['type'];
+  value?: number;
+  addOn?: PerkAddOn;
+  discountPerPerson: number; // 0 for perks that are listed but not priced
+};
+
+/**
+ * Perks the booking qualifies for. `addOnFees` holds the per-person fee of
+ * each add-on the customer requested, and 0 for the ones they did not.
+ */
+export function resolvePerks(
+  perks: CashFreebie[] | undefined,
+  paymentType: string,
+  addOnFees: Record<PerkAddOn, number>
+): AppliedPerk[] {
+  const fullPayment = paymentType !== 'downpayment';
+  const applied: AppliedPerk[] = [];
+  for (const perk of perks ?? []) {
+    if (!perk?.label) continue;
+    if ((perk.eligibility ?? 'full_payment') === 'full_payment' && !fullPayment) continue;
+
+    const entry: AppliedPerk = { label: perk.label, type: perk.type, value: perk.value, addOn: perk.addOn, discountPerPerson: 0 };
+    if (!perk.addOn) {
+      applied.push(entry);
+      continue;
+    }
+
+    const fee = addOnFees[perk.addOn] ?? 0;
+    if (fee <= 0) continue;
+    const percent = perk.type === 'percent_off' ? Math.max(0, Math.min(100, perk.value ?? 0)) : 100;
+    applied.push({ ...entry, discountPerPerson: Math.round(fee * (percent / 100)) });
+  }
+  return applied;
+}
+
+export function formatPerk(perk: Pick<CashFreebie, 'label' | 'type' | 'value'>): string {
+  return perk.type === 'percent_off' && perk.value ? `${perk.value}% off — ${perk.label}` : `FREE — ${perk.label}`;
+}
@@ -0,0 +1,65 @@
+/**
+ * Traveller list helpers for the booking form
+ */
+import type { RoomSharing, Traveller } from "../types";
+
+// Passport nationalities offered at checkout; visa rules are kept per nationality
+export const NATIONALITY_OPTIONS = [
+  "Philippines",
+  "United States",
+  "Canada",
+  "Australia",
+  "United Kingdom",
+  "Japan",
+  "South Korea",
+  "Singapore",
+  "China",
+  "India",
+];
+
+export const ROOM_SHARING_OPTIONS: Array<{ value: RoomSharing; label: string }> = [
+  { value: "any", label: "No preference" },
+  { value: "single", label: "Single room" },
+  { value: "twin", label: "Twin (two beds)" },
+  { value: "double", label: "Double (one bed)" },
+  { value: "triple", label: "Triple" },
+];
+
+export function createTraveller(overrides: Partial<Traveller> = {}): Traveller {
+  return {
+    fullName: "",
+    nationality: NATIONALITY_OPTIONS[0],
+    passportNumber: "",
+    passportExpiry: "",
+    dateOfBirth: "",
+    roomSharing: "any",
+    roomSharingWith: "",
+    dietaryNeeds: "",
+    ...overrides,
+  };
+}
+
+/**
+ * Grow or shrink the list to one entry per passenger, keeping what was
+ * already typed. The first traveller is always the lead.
+ */
+export function resizeTravellers(travellers: Traveller[], passengers: number): Traveller[] {
+  const count = Math.max(1, passengers);
+  return Array.from({ length: count }, (_, i) => ({
+    ...(travellers[i] ?? createTraveller()),
+    isLead: i === 0,
+  }));
+}
+
+// Blank optional fields are dropped so the API does not store empty strings
+export function toTravellerPayload(travellers: Traveller[]): Traveller[] {
+  return travellers.map((traveller) => {
+    const payload: Traveller = { fullName: traveller.fullName.trim(), isLead: traveller.isLead };
+    (["nationality", "passportNumber", "passportExpiry", "dateOfBirth", "roomSharing", "roomSharingWith", "dietaryNeeds"] as const)
+      .forEach((field) => {
+        const value = traveller[field]?.trim();
+        if (value) (payload as Record<string, unknown>)[field] = value;
+      });
+    return payload;
+  });
+}